@@ -12,6 +12,7 @@ import { getCorsHeaders, isDisallowedOrigin } from '../../../server/cors';
 // @ts-expect-error — JS module, no declaration file
 import { validateApiKey } from '../../_api-key.js';
 import { mapErrorToResponse } from '../../../server/error-mapper';
+import { bindWaitUntil } from '../../../server/_shared/wait-until';
 import { createSeismologyServiceRoutes } from '../../../src/generated/server/worldmonitor/seismology/v1/service_server';
 import { seismologyHandler } from '../../../server/worldmonitor/seismology/v1/handler';
 import { createWildfireServiceRoutes } from '../../../src/generated/server/worldmonitor/wildfire/v1/service_server';
@@ -54,6 +55,10 @@ import { createTradeServiceRoutes } from '../../../src/generated/server/worldmon
 import { tradeHandler } from '../../../server/worldmonitor/trade/v1/handler';
 import { createSupplyChainServiceRoutes } from '../../../src/generated/server/worldmonitor/supply_chain/v1/service_server';
 import { supplyChainHandler } from '../../../server/worldmonitor/supply-chain/v1/handler';
+import { createTradingServiceRoutes } from '../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { tradingHandler } from '../../../server/worldmonitor/trading/v1/handler';
+import { createPlaybackServiceRoutes } from '../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { playbackHandler } from '../../../server/worldmonitor/playback/v1/handler';
 
 import type { ServerOptions } from '../../../src/generated/server/worldmonitor/seismology/v1/service_server';
 
@@ -81,11 +86,16 @@ const allRoutes = [
   ...createGivingServiceRoutes(givingHandler, serverOptions),
   ...createTradeServiceRoutes(tradeHandler, serverOptions),
   ...createSupplyChainServiceRoutes(supplyChainHandler, serverOptions),
+  ...createTradingServiceRoutes(tradingHandler, serverOptions),
+  ...createPlaybackServiceRoutes(playbackHandler, serverOptions),
 ];
 
 const router = createRouter(allRoutes);
 
-export default async function handler(request: Request): Promise<Response> {
+export default async function handler(
+  request: Request,
+  context?: { waitUntil?: (promise: Promise<unknown>) => void },
+): Promise<Response> {
   // Origin check first — skip CORS headers for disallowed origins (M-2 fix)
   if (isDisallowedOrigin(request)) {
     return new Response(JSON.stringify({ error: 'Origin not allowed' }), {
@@ -124,6 +134,8 @@ export default async function handler(request: Request): Promise<Response> {
     });
   }
 
+  if (context?.waitUntil) bindWaitUntil(request, context.waitUntil.bind(context));
+
   // Execute handler with top-level error boundary (H-1 fix)
   let response: Response;
   try {
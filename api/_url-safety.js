@@ -0,0 +1,91 @@
+// Shared guards for endpoints that fetch or post to user-supplied URLs.
+// isPrivateHost checks the hostname only; resolvesToPrivateHost also checks
+// what it resolves to where a resolver exists (the self-hosted server and the
+// desktop sidecar run on Node). Edge functions cannot resolve DNS before
+// fetching, so there the hostname check is all we get.
+
+const DNS_MODULE = 'node:dns';
+let dnsPromise = null;
+
+function isPrivateIPv4(a, b) {
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127);
+}
+
+/** Expand an IPv6 literal to its eight 16-bit groups, or null if it isn't one. */
+function parseIPv6(host) {
+  let text = host;
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const octets = dotted.slice(2).map(Number);
+    if (octets.some((o) => o > 255)) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function isPrivateIPv6(groups) {
+  const [g0] = groups;
+  if (groups.slice(0, 7).every((g) => g === 0) && groups[7] <= 1) return true; // :: and ::1
+  if ((g0 & 0xfe00) === 0xfc00 || (g0 & 0xffc0) === 0xfe80 || g0 >= 0xff00) return true;
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  // addresses reach the embedded IPv4 address; URL parsing turns them into hex groups.
+  const embedsV4 = (groups.slice(0, 5).every((g) => g === 0) && (groups[5] === 0 || groups[5] === 0xffff))
+    || (g0 === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0));
+  if (embedsV4) return isPrivateIPv4(groups[6] >> 8, groups[6] & 0xff);
+  if (g0 === 0x2002) return isPrivateIPv4(groups[1] >> 8, groups[1] & 0xff); // 6to4
+  return false;
+}
+
+export function isPrivateHost(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+  if (host.includes(':')) {
+    const groups = parseIPv6(host);
+    // Anything that looks like an IPv6 literal but doesn't parse is refused.
+    return groups ? isPrivateIPv6(groups) : true;
+  }
+  const v4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!v4) return false;
+  return isPrivateIPv4(Number(v4[1]), Number(v4[2]));
+}
+
+function loadResolver() {
+  if (!dnsPromise) {
+    dnsPromise = import(/* @vite-ignore */ DNS_MODULE)
+      .then((dns) => dns.promises.lookup)
+      .catch(() => null);
+  }
+  return dnsPromise;
+}
+
+/**
+ * isPrivateHost, plus a DNS lookup of non-literal hostnames where Node's
+ * resolver is available: a public name pointing at 127.0.0.1 or a LAN
+ * address is refused too. Names that fail to resolve pass; the fetch fails
+ * on its own.
+ */
+export async function resolvesToPrivateHost(hostname, lookup) {
+  if (isPrivateHost(hostname)) return true;
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (host.includes(':') || /^[\d.]+$/.test(host)) return false;
+  const resolve = lookup ?? await loadResolver();
+  if (!resolve) return false;
+  try {
+    const addresses = await resolve(host, { all: true, verbatim: true });
+    return addresses.some(({ address }) => isPrivateHost(address));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,230 @@
+export const config = { runtime: 'edge' };
+
+import { getCorsHeaders, isAllowedOrigin, isDisallowedOrigin } from './_cors.js';
+import { validateApiKey } from './_api-key.js';
+import { isPrivateHost, resolvesToPrivateHost } from './_url-safety.js';
+
+// Relays alert-rule deliveries the browser cannot make itself: webhooks and
+// Slack reject cross-origin requests, and SMTP needs raw sockets. SMTP is only
+// available where the Node mailer can load (desktop sidecar, self-hosted).
+// To keep this from being an open relay, scripted callers (no Origin) need an
+// API key and email only goes to addresses listed in ALERT_EMAIL_RECIPIENTS.
+
+const SINKS = new Set(['webhook', 'slack', 'email']);
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TARGET_LENGTH = 500;
+const MAX_TITLE_LENGTH = 200;
+const MAX_BODY_LENGTH = 2000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const SMTP_MODULE = './_smtp.js';
+
+const rateLimitMap = new Map();
+const RATE_LIMIT = 30;
+const RATE_WINDOW_MS = 60 * 1000;
+
+function isRateLimited(ip) {
+  const now = Date.now();
+  const entry = rateLimitMap.get(ip);
+  if (!entry || now - entry.windowStart > RATE_WINDOW_MS) {
+    rateLimitMap.set(ip, { windowStart: now, count: 1 });
+    return false;
+  }
+  entry.count += 1;
+  return entry.count > RATE_LIMIT;
+}
+
+/** Server-configured email recipients, lowercased. */
+function allowedRecipients() {
+  return new Set(
+    (process.env.ALERT_EMAIL_RECIPIENTS || '')
+      .split(',')
+      .map((addr) => addr.trim().toLowerCase())
+      .filter(Boolean),
+  );
+}
+
+function json(body, status, cors) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...cors },
+  });
+}
+
+/** Webhook targets must be public https URLs without embedded credentials. */
+export function validateWebhookUrl(raw) {
+  let url;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  if (url.protocol !== 'https:') return 'Webhook URL must use https';
+  if (url.username || url.password) return 'Webhook URL must not contain credentials';
+  if (isPrivateHost(url.hostname)) return 'Webhook URL must point to a public host';
+  return null;
+}
+
+function clip(value, max) {
+  return typeof value === 'string' ? value.slice(0, max) : '';
+}
+
+function normalizeAlert(raw) {
+  const alert = raw && typeof raw === 'object' ? raw : {};
+  const title = clip(alert.title, MAX_TITLE_LENGTH).trim();
+  if (!title) return null;
+  const confidence = Number(alert.confidence);
+  const timestamp = Number(alert.timestamp);
+  return {
+    rule: clip(alert.rule, 100),
+    type: clip(alert.type, 64),
+    title,
+    body: clip(alert.body, MAX_BODY_LENGTH),
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    timestamp: Number.isFinite(timestamp) && timestamp > 0 ? timestamp : Date.now(),
+  };
+}
+
+function slackEscape(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function slackPayload(alert) {
+  const context = [
+    alert.rule && `Rule: ${slackEscape(alert.rule)}`,
+    `Confidence: ${Math.round(alert.confidence * 100)}%`,
+    new Date(alert.timestamp).toISOString(),
+  ].filter(Boolean).join(' · ');
+  return {
+    text: `${alert.title}\n${alert.body}`,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${slackEscape(alert.title)}*\n${slackEscape(alert.body)}` } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: context }] },
+    ],
+  };
+}
+
+function webhookPayload(alert) {
+  return {
+    source: 'worldmonitor',
+    rule: alert.rule,
+    type: alert.type,
+    title: alert.title,
+    body: alert.body,
+    confidence: alert.confidence,
+    timestamp: new Date(alert.timestamp).toISOString(),
+  };
+}
+
+async function postJson(url, payload) {
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'WorldMonitor-Alerts/1.0' },
+    body: JSON.stringify(payload),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!resp.ok) throw new Error(`Webhook responded ${resp.status}`);
+}
+
+async function loadMailer() {
+  try {
+    return await import(/* @vite-ignore */ new URL(SMTP_MODULE, import.meta.url).href);
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req) {
+  if (isDisallowedOrigin(req)) {
+    return json({ error: 'Origin not allowed' }, 403, {});
+  }
+
+  const cors = getCorsHeaders(req, 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: cors });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405, cors);
+  }
+
+  // Desktop origins and any supplied key must check out; otherwise only the
+  // web app's own origins may relay without a key.
+  const keyCheck = validateApiKey(req);
+  if (keyCheck.required && !keyCheck.valid) {
+    return json({ error: keyCheck.error }, 401, cors);
+  }
+  if (!keyCheck.valid && !isAllowedOrigin(req.headers.get('origin'))) {
+    return json({ error: 'API key required' }, 401, cors);
+  }
+
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  if (isRateLimited(ip)) {
+    return json({ error: 'Too many requests' }, 429, cors);
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400, cors);
+  }
+
+  const sink = body?.sink;
+  const target = typeof body?.target === 'string' ? body.target.trim() : '';
+  if (!SINKS.has(sink)) {
+    return json({ error: 'Unsupported sink' }, 400, cors);
+  }
+  if (!target || target.length > MAX_TARGET_LENGTH) {
+    return json({ error: 'Missing target' }, 400, cors);
+  }
+  const alert = normalizeAlert(body.alert);
+  if (!alert) {
+    return json({ error: 'Missing alert title' }, 400, cors);
+  }
+
+  if (sink === 'email') {
+    if (!EMAIL_RE.test(target)) {
+      return json({ error: 'Invalid email address' }, 400, cors);
+    }
+    const smtpUrl = process.env.SMTP_URL;
+    if (!smtpUrl) {
+      return json({ error: 'SMTP is not configured' }, 503, cors);
+    }
+    if (!allowedRecipients().has(target.toLowerCase())) {
+      return json({ error: 'Recipient is not in ALERT_EMAIL_RECIPIENTS' }, 403, cors);
+    }
+    const mailer = await loadMailer();
+    if (!mailer) {
+      return json({ error: 'Email delivery requires the desktop app or a self-hosted server' }, 501, cors);
+    }
+    try {
+      await mailer.sendMail({
+        url: smtpUrl,
+        from: process.env.SMTP_FROM || '',
+        to: target,
+        subject: `[World Monitor] ${alert.title}`,
+        text: `${alert.body}\n\nRule: ${alert.rule || '-'}\nSignal: ${alert.type || '-'}\nConfidence: ${Math.round(alert.confidence * 100)}%\nTime: ${new Date(alert.timestamp).toISOString()}\n`,
+      });
+      return json({ delivered: true }, 200, cors);
+    } catch (err) {
+      console.error('[alert-dispatch] SMTP error:', err);
+      return json({ error: 'Email delivery failed' }, 502, cors);
+    }
+  }
+
+  const urlError = validateWebhookUrl(target)
+    || (await resolvesToPrivateHost(new URL(target).hostname) ? 'Webhook URL must point to a public host' : null);
+  if (urlError) {
+    return json({ error: urlError }, 400, cors);
+  }
+
+  try {
+    await postJson(target, sink === 'slack' ? slackPayload(alert) : webhookPayload(alert));
+    return json({ delivered: true }, 200, cors);
+  } catch (err) {
+    console.error('[alert-dispatch] Webhook error:', err);
+    return json({ error: 'Webhook delivery failed' }, 502, cors);
+  }
+}
@@ -1,5 +1,6 @@
 // Non-sebuf: returns XML/HTML, stays as standalone Vercel function
 import { getCorsHeaders, isDisallowedOrigin } from './_cors.js';
+import { isPrivateHost, resolvesToPrivateHost } from './_url-safety.js';
 
 export const config = { runtime: 'edge' };
 
@@ -348,6 +349,127 @@ async function generateAIFallbackRSS(feedUrl, sourceName) {
   } catch { return null; }
 }
 
+// User-added feeds (custom=1) skip the domain allowlist but are limited to
+// public http(s) hosts, must parse as a feed, and get no relay or AI fallback.
+const CUSTOM_FEED_TIMEOUT_MS = 12000;
+const CUSTOM_FEED_MAX_BYTES = 2 * 1024 * 1024;
+const CUSTOM_FEED_MAX_REDIRECTS = 3;
+
+export function validateCustomFeedUrl(raw) {
+  let url;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'Invalid feed URL';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Feed URL must use http or https';
+  if (url.username || url.password) return 'Feed URL must not contain credentials';
+  if (url.port && url.port !== '80' && url.port !== '443') return 'Feed URL must use a standard port';
+  if (isPrivateHost(url.hostname)) return 'Feed URL must point to a public host';
+  return null;
+}
+
+/** 'xml' for RSS/Atom/RDF, 'json' for JSON Feed, null for anything else. */
+export function detectFeedPayload(body) {
+  const head = body.trimStart().slice(0, 4096);
+  if (head.startsWith('{')) {
+    return /"version"\s*:\s*"https:\/\/jsonfeed\.org\/version\//.test(body) ? 'json' : null;
+  }
+  return head.startsWith('<') && /<(?:rss|feed|rdf:RDF)[\s>]/i.test(head) ? 'xml' : null;
+}
+
+async function fetchCustomFeed(feedUrl) {
+  let url = feedUrl;
+  for (let hop = 0; hop <= CUSTOM_FEED_MAX_REDIRECTS; hop++) {
+    const response = await fetchWithTimeout(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
+      },
+      redirect: 'manual',
+    }, CUSTOM_FEED_TIMEOUT_MS);
+    if (response.status < 300 || response.status >= 400) return response;
+    const location = response.headers.get('location');
+    if (!location) return response;
+    url = new URL(location, url).href;
+    if (validateCustomFeedUrl(url) || await resolvesToPrivateHost(new URL(url).hostname)) {
+      throw new Error('Redirect to disallowed host');
+    }
+  }
+  throw new Error('Too many redirects');
+}
+
+/**
+ * Read a response body as text, giving up once it passes maxBytes. Counts the
+ * bytes actually received, so a missing or wrong Content-Length doesn't matter.
+ * Returns null when the body is too large.
+ */
+async function readTextCapped(response, maxBytes) {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+async function handleCustomFeed(feedUrl, corsHeaders) {
+  const json = (body, status) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+  const invalid = validateCustomFeedUrl(feedUrl);
+  if (invalid) return json({ error: invalid }, 400);
+  if (await resolvesToPrivateHost(new URL(feedUrl).hostname)) {
+    return json({ error: 'Feed URL must point to a public host' }, 400);
+  }
+
+  try {
+    const response = await fetchCustomFeed(feedUrl);
+    if (!response.ok) return json({ error: `Feed returned HTTP ${response.status}` }, 502);
+    const declared = Number(response.headers.get('content-length') || 0);
+    if (declared > CUSTOM_FEED_MAX_BYTES) {
+      await response.body?.cancel().catch(() => {});
+      return json({ error: 'Feed too large' }, 413);
+    }
+    const body = await readTextCapped(response, CUSTOM_FEED_MAX_BYTES);
+    if (body === null) return json({ error: 'Feed too large' }, 413);
+
+    const kind = detectFeedPayload(body);
+    if (!kind) return json({ error: 'Not an RSS, Atom or JSON feed' }, 422);
+
+    // Never echo the upstream content type: only feed documents leave this origin.
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': kind === 'json' ? 'application/feed+json; charset=utf-8' : 'application/xml; charset=utf-8',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'public, max-age=600, s-maxage=600, stale-while-revalidate=300',
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    const isTimeout = error.name === 'AbortError';
+    return json({ error: isTimeout ? 'Feed timeout' : 'Failed to fetch feed' }, isTimeout ? 504 : 502);
+  }
+}
+
 export default async function handler(req) {
   const corsHeaders = getCorsHeaders(req, 'GET, OPTIONS');
 
@@ -366,6 +488,16 @@ export default async function handler(req) {
     });
   }
 
+  if (requestUrl.searchParams.get('custom') === '1') {
+    if (isDisallowedOrigin(req)) {
+      return new Response(JSON.stringify({ error: 'Origin not allowed' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
+    return handleCustomFeed(feedUrl, corsHeaders);
+  }
+
   try {
     const parsedUrl = new URL(feedUrl);
 
@@ -5,6 +5,17 @@ import { getCorsHeaders, isDisallowedOrigin } from './_cors.js';
 
 export const config = { runtime: 'edge' };
 
+function getRelayHeaders(baseHeaders = {}) {
+  const headers = { ...baseHeaders };
+  const relaySecret = process.env.RELAY_SHARED_SECRET || '';
+  if (relaySecret) {
+    const relayHeader = (process.env.RELAY_AUTH_HEADER || 'x-relay-key').toLowerCase();
+    headers[relayHeader] = relaySecret;
+    headers.Authorization = `Bearer ${relaySecret}`;
+  }
+  return headers;
+}
+
 async function fetchWithTimeout(url, options, timeoutMs = 25000) {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
@@ -49,10 +60,13 @@ export default async function handler(req) {
   if (topic) relayUrl.searchParams.set('topic', topic);
   if (channel) relayUrl.searchParams.set('channel', channel);
 
+  // Custom channels take relay slots per client, so pass the caller's IP along.
+  const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  const headers = getRelayHeaders({ 'Accept': 'application/json' });
+  if (channel && clientIp) headers['X-WorldMonitor-Client-IP'] = clientIp;
+
   try {
-    const res = await fetchWithTimeout(relayUrl.toString(), {
-      headers: { 'Accept': 'application/json' },
-    }, 25000);
+    const res = await fetchWithTimeout(relayUrl.toString(), { headers }, 25000);
 
     const text = await res.text();
     return new Response(text, {
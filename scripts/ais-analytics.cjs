@@ -0,0 +1,505 @@
+/**
+ * Per-vessel AIS analytics for the relay.
+ *
+ * Keeps a short sampled history per MMSI for vessels near the strategic
+ * waterways and the latest position of slow vessels everywhere, and derives
+ * vessel events from them:
+ *
+ *   ais_gap         vessel stopped transmitting near a waterway (ongoing until it reappears)
+ *   loitering       vessel drifting or circling slowly in one place for hours
+ *   rendezvous      two vessels side by side at low speed, away from crowded anchorages
+ *   speed_anomaly   underway vessel suddenly stopped inside a chokepoint
+ *   course_anomaly  underway vessel reversed course inside a chokepoint
+ *
+ * Pure CommonJS with no dependencies so it can be unit tested without the relay.
+ */
+'use strict';
+
+// Mirror of STRATEGIC_WATERWAYS in src/config/geo.ts (kept in sync by tests/ais-analytics.test.mjs).
+const WATERWAYS = [
+  { id: 'taiwan_strait', name: 'Taiwan Strait', lat: 24.0, lon: 119.5 },
+  { id: 'malacca_strait', name: 'Malacca Strait', lat: 2.5, lon: 101.5 },
+  { id: 'hormuz_strait', name: 'Strait of Hormuz', lat: 26.5, lon: 56.5 },
+  { id: 'bosphorus', name: 'Bosphorus Strait', lat: 41.1, lon: 29.0 },
+  { id: 'suez', name: 'Suez Canal', lat: 30.5, lon: 32.3 },
+  { id: 'panama', name: 'Panama Canal', lat: 9.1, lon: -79.7 },
+  { id: 'gibraltar', name: 'Strait of Gibraltar', lat: 35.9, lon: -5.6 },
+  { id: 'bab_el_mandeb', name: 'Bab el-Mandeb', lat: 12.5, lon: 43.3 },
+  { id: 'dardanelles', name: 'Dardanelles', lat: 40.2, lon: 26.4 },
+];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const WATCH_RADIUS_KM = 300; // history is kept inside this radius of a waterway
+const GAP_RADIUS_KM = 150;
+const CHOKEPOINT_RADIUS_KM = 60;
+const SAMPLE_INTERVAL_MS = 5 * MINUTE;
+const MAX_SAMPLES = 48; // 4 hours at the sample interval
+const MAX_TRACKED_VESSELS = 20000;
+const MAX_SLOW_VESSELS = 20000;
+const VESSEL_RETENTION_MS = 24 * HOUR;
+
+const GAP_MIN_MS = 2 * HOUR;
+const GAP_MIN_SPEED_KN = 1;
+
+const LOITER_MIN_MS = 3 * HOUR;
+const LOITER_RADIUS_KM = 5;
+const LOITER_SPEED_RANGE_KN = [0.5, 4];
+
+const RENDEZVOUS_DISTANCE_KM = 0.5;
+const RENDEZVOUS_MAX_SPEED_KN = 3;
+const RENDEZVOUS_MIN_MS = HOUR;
+const RENDEZVOUS_CROWD_RADIUS_KM = 2;
+const RENDEZVOUS_MAX_NEIGHBOURS = 3;
+const SLOW_POSITION_TTL_MS = 15 * MINUTE;
+const PAIR_TIMEOUT_MS = 30 * MINUTE;
+
+const ANOMALY_LOOKBACK_MS = [10 * MINUTE, 30 * MINUTE];
+const STOP_FROM_KN = 8;
+const STOP_TO_KN = 1;
+const REVERSAL_MIN_KN = 5;
+const REVERSAL_MIN_DEG = 150;
+const ANOMALY_COOLDOWN_MS = 6 * HOUR;
+
+const EVENT_RETENTION_MS = 24 * HOUR;
+const MAX_EVENTS = 300;
+
+// AIS navigational status 5 = moored.
+const STATUS_MOORED = 5;
+// AIS status 1 = at anchor; anchored vessels are not loitering.
+const STATUS_AT_ANCHOR = 1;
+// Fishing, towing, dredging, diving, sailing, pleasure craft and harbour
+// service vessels routinely work alongside other ships.
+const RENDEZVOUS_EXCLUDED_TYPES = new Set([30, 31, 32, 33, 34, 36, 37, 50, 51, 52, 53, 54, 55, 58]);
+
+function haversineKm(lat1, lon1, lat2, lon2) {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLon = (lon2 - lon1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function nearestWaterway(lat, lon) {
+  let best = null;
+  let bestKm = Infinity;
+  for (const waterway of WATERWAYS) {
+    // Cheap reject before the haversine: 3° of latitude is ~330 km.
+    if (Math.abs(waterway.lat - lat) > 3) continue;
+    const km = haversineKm(lat, lon, waterway.lat, waterway.lon);
+    if (km < bestKm) {
+      best = waterway;
+      bestKm = km;
+    }
+  }
+  return best && bestKm <= WATCH_RADIUS_KM ? { waterway: best, km: bestKm } : null;
+}
+
+function angleDiff(a, b) {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/** AIS reports 102.3 kn for "not available" and 360° for an unknown course. */
+function validSpeed(sog) {
+  return Number.isFinite(sog) && sog >= 0 && sog < 102.3 ? sog : null;
+}
+
+function validCourse(cog) {
+  return Number.isFinite(cog) && cog >= 0 && cog < 360 ? cog : null;
+}
+
+function formatHours(ms) {
+  return `${(ms / HOUR).toFixed(1)}h`;
+}
+
+function vesselLabel(vessel) {
+  return vessel.name ? `${vessel.name} (${vessel.mmsi})` : `MMSI ${vessel.mmsi}`;
+}
+
+function isTanker(shipType) {
+  return Number(shipType) >= 80 && Number(shipType) <= 89;
+}
+
+function createVesselAnalytics() {
+  // MMSI -> { mmsi, name, shipType, status, t, lat, lon, sog, cog, samples: [t, lat, lon, sog, cog][] }
+  const tracked = new Map();
+  // MMSI -> latest report of a slow vessel (rendezvous candidates, worldwide)
+  const slow = new Map();
+  // "a|b" -> { a, b, firstSeen, lastSeen, lat, lon, distanceKm }
+  const pairs = new Map();
+  // event id -> event
+  const events = new Map();
+  // "<type>:<key>" -> event id of the open (or cooling down) event
+  const openEvents = new Map();
+
+  function upsertEvent(key, event) {
+    const existingId = openEvents.get(key);
+    const existing = existingId ? events.get(existingId) : null;
+    if (existing) {
+      Object.assign(existing, event, { id: existing.id, startedAt: existing.startedAt });
+      return existing;
+    }
+    events.set(event.id, event);
+    openEvents.set(key, event.id);
+    return event;
+  }
+
+  function closeEvent(key, patch) {
+    const id = openEvents.get(key);
+    const event = id ? events.get(id) : null;
+    openEvents.delete(key);
+    if (event) Object.assign(event, patch, { ongoing: false });
+    return event;
+  }
+
+  function gapEvent(vessel, waterway, endedAt, ongoing, reappeared) {
+    const silentMs = endedAt - vessel.t;
+    const movedKm = reappeared ? haversineKm(vessel.lat, vessel.lon, reappeared.lat, reappeared.lon) : 0;
+    const description = ongoing
+      ? `${vesselLabel(vessel)} silent for ${formatHours(silentMs)} since last report near ${waterway.name}`
+      : `${vesselLabel(vessel)} reappeared after ${formatHours(silentMs)} of AIS silence near ${waterway.name}, ${Math.round(movedKm)} km from where it went dark`;
+    return {
+      id: `gap-${vessel.mmsi}-${vessel.t}`,
+      type: 'ais_gap',
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      shipType: vessel.shipType,
+      lat: vessel.lat,
+      lon: vessel.lon,
+      startedAt: vessel.t,
+      endedAt,
+      ongoing,
+      waterway: waterway.name,
+      distanceKm: Math.round(movedKm),
+      severity: silentMs >= 12 * HOUR ? 'high' : silentMs >= 6 * HOUR ? 'elevated' : 'low',
+      description,
+    };
+  }
+
+  function checkChokepointAnomalies(vessel, report, waterway) {
+    const [minAgo, maxAgo] = ANOMALY_LOOKBACK_MS;
+    let reference = null;
+    for (let i = vessel.samples.length - 1; i >= 0; i--) {
+      const sample = vessel.samples[i];
+      const age = report.t - sample[0];
+      if (age < minAgo) continue;
+      if (age <= maxAgo) reference = sample;
+      break;
+    }
+    if (!reference) return;
+    const [refT, , , refSog, refCog] = reference;
+    const minutes = Math.round((report.t - refT) / MINUTE);
+
+    const base = {
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      shipType: vessel.shipType,
+      lat: report.lat,
+      lon: report.lon,
+      startedAt: refT,
+      endedAt: report.t,
+      ongoing: false,
+      waterway: waterway.name,
+      distanceKm: Math.round(haversineKm(reference[1], reference[2], report.lat, report.lon) * 10) / 10,
+      severity: 'elevated',
+    };
+
+    if (refSog !== null && refSog >= STOP_FROM_KN && report.sog !== null && report.sog <= STOP_TO_KN
+      && report.status !== STATUS_MOORED && report.status !== STATUS_AT_ANCHOR) {
+      raiseAnomaly('speed_anomaly', vessel, {
+        ...base,
+        id: `stop-${vessel.mmsi}-${report.t}`,
+        type: 'speed_anomaly',
+        description: `${vesselLabel(vessel)} slowed from ${refSog.toFixed(1)} kn to ${report.sog.toFixed(1)} kn within ${minutes} min in ${waterway.name}`,
+      });
+    }
+
+    if (refSog !== null && refCog !== null && report.sog !== null && report.cog !== null
+      && refSog >= REVERSAL_MIN_KN && report.sog >= REVERSAL_MIN_KN
+      && angleDiff(refCog, report.cog) >= REVERSAL_MIN_DEG) {
+      raiseAnomaly('course_anomaly', vessel, {
+        ...base,
+        id: `reversal-${vessel.mmsi}-${report.t}`,
+        type: 'course_anomaly',
+        description: `${vesselLabel(vessel)} turned from ${Math.round(refCog)}° to ${Math.round(report.cog)}° within ${minutes} min in ${waterway.name}`,
+      });
+    }
+  }
+
+  function raiseAnomaly(type, vessel, event) {
+    const key = `${type}:${vessel.mmsi}`;
+    const previous = events.get(openEvents.get(key));
+    if (previous && event.endedAt - previous.endedAt < ANOMALY_COOLDOWN_MS) return;
+    events.set(event.id, event);
+    openEvents.set(key, event.id);
+  }
+
+  /**
+   * Feed one position report: { mmsi, name, shipType, status, lat, lon, sog, cog, t }.
+   * Gap reappearances and chokepoint anomalies are raised here; loitering,
+   * rendezvous and ongoing gaps by detect().
+   */
+  function ingest(input) {
+    const mmsi = String(input.mmsi || '');
+    if (!mmsi || !Number.isFinite(input.lat) || !Number.isFinite(input.lon)) return;
+    const report = {
+      t: Number.isFinite(input.t) ? input.t : Date.now(),
+      lat: input.lat,
+      lon: input.lon,
+      sog: validSpeed(input.sog),
+      cog: validCourse(input.cog),
+      status: Number.isFinite(input.status) ? input.status : null,
+    };
+    const name = String(input.name || '').trim();
+    const shipType = Number.isFinite(input.shipType) ? input.shipType : undefined;
+
+    if (report.sog !== null && report.sog <= RENDEZVOUS_MAX_SPEED_KN && report.status !== STATUS_MOORED
+      && !RENDEZVOUS_EXCLUDED_TYPES.has(shipType)) {
+      slow.set(mmsi, { mmsi, name, shipType, ...report });
+      if (slow.size > MAX_SLOW_VESSELS) slow.delete(slow.keys().next().value);
+    } else {
+      slow.delete(mmsi);
+    }
+
+    let vessel = tracked.get(mmsi);
+    const near = nearestWaterway(report.lat, report.lon);
+    if (!near && !vessel) return;
+
+    if (vessel && report.t <= vessel.t) return;
+
+    if (vessel && report.t - vessel.t >= GAP_MIN_MS) {
+      const lastNear = nearestWaterway(vessel.lat, vessel.lon);
+      const area = lastNear && lastNear.km <= GAP_RADIUS_KM ? lastNear : near && near.km <= GAP_RADIUS_KM ? near : null;
+      // Moored or drifting vessels that reappear where they were are not interesting.
+      const moved = (vessel.sog !== null && vessel.sog >= GAP_MIN_SPEED_KN)
+        || haversineKm(vessel.lat, vessel.lon, report.lat, report.lon) >= LOITER_RADIUS_KM;
+      const key = `ais_gap:${mmsi}`;
+      if (area && moved) {
+        const event = gapEvent(vessel, area.waterway, report.t, false, report);
+        if (openEvents.has(key)) closeEvent(key, event);
+        else events.set(event.id, event);
+      } else {
+        closeEvent(key, {});
+      }
+      vessel.samples = [];
+    }
+
+    if (!near) {
+      // Left the watch area: stop keeping history.
+      tracked.delete(mmsi);
+      return;
+    }
+
+    if (!vessel) {
+      vessel = { mmsi, name, shipType, samples: [] };
+      tracked.set(mmsi, vessel);
+      if (tracked.size > MAX_TRACKED_VESSELS) evictStalest();
+    } else if (near.km <= CHOKEPOINT_RADIUS_KM) {
+      checkChokepointAnomalies(vessel, report, near.waterway);
+    }
+
+    if (name) vessel.name = name;
+    if (shipType !== undefined) vessel.shipType = shipType;
+    Object.assign(vessel, report);
+    const lastSample = vessel.samples[vessel.samples.length - 1];
+    if (!lastSample || report.t - lastSample[0] >= SAMPLE_INTERVAL_MS) {
+      vessel.samples.push([report.t, report.lat, report.lon, report.sog, report.cog]);
+      if (vessel.samples.length > MAX_SAMPLES) vessel.samples.shift();
+    }
+  }
+
+  function evictStalest() {
+    let oldestKey = null;
+    let oldestT = Infinity;
+    for (const [mmsi, vessel] of tracked) {
+      if (vessel.t < oldestT) {
+        oldestT = vessel.t;
+        oldestKey = mmsi;
+      }
+    }
+    if (oldestKey) tracked.delete(oldestKey);
+  }
+
+  function detectLoitering(vessel, now) {
+    const key = `loitering:${vessel.mmsi}`;
+    const window = vessel.samples.filter(s => s[0] >= vessel.t - LOITER_MIN_MS - SAMPLE_INTERVAL_MS);
+    const spansWindow = window.length >= 6 && window[0][0] <= vessel.t - LOITER_MIN_MS + SAMPLE_INTERVAL_MS;
+    const speeds = window.map(s => s[3]).filter(s => s !== null).sort((a, b) => a - b);
+    const median = speeds.length ? speeds[Math.floor(speeds.length / 2)] : null;
+    let loitering = spansWindow && median !== null
+      && median >= LOITER_SPEED_RANGE_KN[0] && median <= LOITER_SPEED_RANGE_KN[1]
+      && vessel.status !== STATUS_AT_ANCHOR && vessel.status !== STATUS_MOORED
+      && now - vessel.t < SLOW_POSITION_TTL_MS;
+
+    let lat = 0;
+    let lon = 0;
+    let radiusKm = 0;
+    if (loitering) {
+      for (const s of window) {
+        lat += s[1] / window.length;
+        lon += s[2] / window.length;
+      }
+      for (const s of window) radiusKm = Math.max(radiusKm, haversineKm(lat, lon, s[1], s[2]));
+      loitering = radiusKm <= LOITER_RADIUS_KM;
+    }
+
+    if (!loitering) {
+      if (openEvents.has(key)) closeEvent(key, {});
+      return;
+    }
+
+    const near = nearestWaterway(lat, lon);
+    const existing = events.get(openEvents.get(key));
+    const startedAt = existing?.startedAt ?? window[0][0];
+    const duration = vessel.t - startedAt;
+    upsertEvent(key, {
+      id: `loiter-${vessel.mmsi}-${startedAt}`,
+      type: 'loitering',
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      shipType: vessel.shipType,
+      lat,
+      lon,
+      startedAt,
+      endedAt: vessel.t,
+      ongoing: true,
+      waterway: near ? near.waterway.name : '',
+      distanceKm: Math.round(radiusKm * 10) / 10,
+      severity: duration >= 6 * HOUR ? 'elevated' : 'low',
+      description: `${vesselLabel(vessel)} loitering at ${median.toFixed(1)} kn within ${radiusKm.toFixed(1)} km for ${formatHours(duration)}${near ? ` near ${near.waterway.name}` : ''}`,
+    });
+  }
+
+  function detectRendezvous(now) {
+    const cellSize = 0.02; // ~2 km
+    const grid = new Map();
+    const cellKey = (lat, lon) => `${Math.floor(lat / cellSize)}:${Math.floor(lon / cellSize)}`;
+    for (const [mmsi, report] of slow) {
+      if (now - report.t > SLOW_POSITION_TTL_MS) {
+        slow.delete(mmsi);
+        continue;
+      }
+      const key = cellKey(report.lat, report.lon);
+      const cell = grid.get(key);
+      if (cell) cell.push(report);
+      else grid.set(key, [report]);
+    }
+
+    const seenPairs = new Set();
+    for (const report of slow.values()) {
+      const cy = Math.floor(report.lat / cellSize);
+      const cx = Math.floor(report.lon / cellSize);
+      const close = [];
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          for (const other of grid.get(`${cy + dy}:${cx + dx}`) || []) {
+            if (other.mmsi === report.mmsi) continue;
+            const km = haversineKm(report.lat, report.lon, other.lat, other.lon);
+            if (km <= RENDEZVOUS_CROWD_RADIUS_KM) neighbours++;
+            if (km <= RENDEZVOUS_DISTANCE_KM && report.mmsi < other.mmsi) close.push({ other, km });
+          }
+        }
+      }
+      // A crowd of slow ships is an anchorage or port, not a rendezvous.
+      if (neighbours > RENDEZVOUS_MAX_NEIGHBOURS) continue;
+      for (const { other, km } of close) {
+        const key = `${report.mmsi}|${other.mmsi}`;
+        seenPairs.add(key);
+        const pair = pairs.get(key);
+        const lat = (report.lat + other.lat) / 2;
+        const lon = (report.lon + other.lon) / 2;
+        if (pair) Object.assign(pair, { a: report, b: other, lastSeen: now, lat, lon, distanceKm: km });
+        else pairs.set(key, { a: report, b: other, firstSeen: now, lastSeen: now, lat, lon, distanceKm: km });
+      }
+    }
+
+    for (const [key, pair] of pairs) {
+      const eventKey = `rendezvous:${key}`;
+      if (!seenPairs.has(key)) {
+        if (now - pair.lastSeen > PAIR_TIMEOUT_MS) {
+          pairs.delete(key);
+          if (openEvents.has(eventKey)) closeEvent(eventKey, {});
+        }
+        continue;
+      }
+      const duration = pair.lastSeen - pair.firstSeen;
+      if (duration < RENDEZVOUS_MIN_MS) continue;
+      const near = nearestWaterway(pair.lat, pair.lon);
+      upsertEvent(eventKey, {
+        id: `rendezvous-${pair.a.mmsi}-${pair.b.mmsi}-${pair.firstSeen}`,
+        type: 'rendezvous',
+        mmsi: pair.a.mmsi,
+        name: pair.a.name,
+        shipType: pair.a.shipType,
+        otherMmsi: pair.b.mmsi,
+        otherName: pair.b.name,
+        lat: pair.lat,
+        lon: pair.lon,
+        startedAt: pair.firstSeen,
+        endedAt: pair.lastSeen,
+        ongoing: true,
+        waterway: near ? near.waterway.name : '',
+        distanceKm: Math.round(pair.distanceKm * 100) / 100,
+        severity: isTanker(pair.a.shipType) || isTanker(pair.b.shipType) ? 'high' : 'elevated',
+        description: `${vesselLabel(pair.a)} and ${vesselLabel(pair.b)} within ${Math.round(pair.distanceKm * 1000)} m of each other at low speed for ${formatHours(duration)}${near ? ` near ${near.waterway.name}` : ''}`,
+      });
+    }
+  }
+
+  /** Run the periodic detectors and prune expired state. Call about once a minute. */
+  function detect(now = Date.now()) {
+    for (const [mmsi, vessel] of tracked) {
+      const silentMs = now - vessel.t;
+      if (silentMs > VESSEL_RETENTION_MS) {
+        tracked.delete(mmsi);
+        closeEvent(`ais_gap:${mmsi}`, {});
+        continue;
+      }
+      if (silentMs >= GAP_MIN_MS) {
+        const near = nearestWaterway(vessel.lat, vessel.lon);
+        if (near && near.km <= GAP_RADIUS_KM && vessel.sog !== null && vessel.sog >= GAP_MIN_SPEED_KN) {
+          upsertEvent(`ais_gap:${mmsi}`, gapEvent(vessel, near.waterway, now, true, null));
+        }
+        closeEvent(`loitering:${mmsi}`, {});
+        continue;
+      }
+      detectLoitering(vessel, now);
+    }
+
+    detectRendezvous(now);
+
+    for (const [id, event] of events) {
+      if (!event.ongoing && now - event.endedAt > EVENT_RETENTION_MS) events.delete(id);
+    }
+    if (events.size > MAX_EVENTS) {
+      const stale = [...events.values()].sort((a, b) => a.endedAt - b.endedAt).slice(0, events.size - MAX_EVENTS);
+      for (const event of stale) events.delete(event.id);
+    }
+    for (const [key, id] of openEvents) {
+      if (!events.has(id)) openEvents.delete(key);
+    }
+  }
+
+  /** Current events, most recently active first. */
+  function getEvents() {
+    return [...events.values()]
+      .sort((a, b) => b.endedAt - a.endedAt)
+      .map(event => ({ ...event }));
+  }
+
+  function stats() {
+    return { tracked: tracked.size, slow: slow.size, pairs: pairs.size, events: events.size };
+  }
+
+  return { ingest, detect, getEvents, stats };
+}
+
+module.exports = {
+  WATERWAYS,
+  createVesselAnalytics,
+  haversineKm,
+  nearestWaterway,
+};
@@ -16,6 +16,8 @@ const path = require('path');
 const { readFileSync } = require('fs');
 const crypto = require('crypto');
 const { WebSocketServer, WebSocket } = require('ws');
+const { createVesselAnalytics } = require('./ais-analytics.cjs');
+const { createLiveStreamHub, formatSseEvent, parseTopics } = require('./live-stream.cjs');
 
 const AISSTREAM_URL = 'wss://stream.aisstream.io/v0/stream';
 const API_KEY = process.env.AISSTREAM_API_KEY || process.env.VITE_AISSTREAM_API_KEY;
@@ -129,12 +131,23 @@ const TELEGRAM_ENABLED = Boolean(process.env.TELEGRAM_API_ID && process.env.TELE
 const TELEGRAM_POLL_INTERVAL_MS = Math.max(15_000, Number(process.env.TELEGRAM_POLL_INTERVAL_MS || 60_000));
 const TELEGRAM_MAX_FEED_ITEMS = Math.max(50, Number(process.env.TELEGRAM_MAX_FEED_ITEMS || 200));
 const TELEGRAM_MAX_TEXT_CHARS = Math.max(200, Number(process.env.TELEGRAM_MAX_TEXT_CHARS || 800));
+// Channels outside the curated list, requested by users' custom feeds via
+// /telegram/feed?channel=. Polled while requested, never merged into the
+// shared Early Signals feed. Each client (by IP) holds at most
+// TELEGRAM_MAX_CHANNELS_PER_CLIENT of the slots, so one caller can't take
+// them all.
+const TELEGRAM_MAX_REQUESTED_CHANNELS = Math.max(0, Number(process.env.TELEGRAM_MAX_REQUESTED_CHANNELS || 50));
+const TELEGRAM_MAX_CHANNELS_PER_CLIENT = Math.max(1, Number(process.env.TELEGRAM_MAX_CHANNELS_PER_CLIENT || 5));
+const TELEGRAM_REQUESTED_TTL_MS = 24 * 60 * 60 * 1000;
+const TELEGRAM_REQUESTED_MAX_ITEMS = 25;
+const TELEGRAM_HANDLE_RE = /^[A-Za-z0-9_]{5,32}$/;
 
 const telegramState = {
   client: null,
   channels: [],
   cursorByHandle: Object.create(null),
   items: [],
+  requested: new Map(), // lowercase handle -> { handle, lastRequestedAt, items, clients: Map<clientKey, lastRequestedAt> }
   lastPollAt: 0,
   lastError: null,
   startedAt: Date.now(),
@@ -223,12 +236,82 @@ async function initTelegramClientIfNeeded() {
   }
 }
 
+function isCuratedTelegramChannel(handle) {
+  return telegramState.channels.some(c => c.handle.toLowerCase() === handle);
+}
+
+function countClientTelegramChannels(clientKey, now) {
+  let count = 0;
+  for (const entry of telegramState.requested.values()) {
+    const at = entry.clients.get(clientKey);
+    if (at && now - at <= TELEGRAM_REQUESTED_TTL_MS) count++;
+  }
+  return count;
+}
+
+/**
+ * Register (or refresh) an on-demand channel for a client. Returns null when
+ * the handle is invalid or the channel is new and either the client or the
+ * relay is out of slots. Channels someone else already requested are served
+ * without taking a slot.
+ */
+function requestTelegramChannel(handle, clientKey) {
+  if (!TELEGRAM_HANDLE_RE.test(handle)) return null;
+  const key = handle.toLowerCase();
+  const now = Date.now();
+  let entry = telegramState.requested.get(key);
+  if (!entry?.clients.has(clientKey)) {
+    if (countClientTelegramChannels(clientKey, now) >= TELEGRAM_MAX_CHANNELS_PER_CLIENT) return entry || null;
+    if (!entry) {
+      if (telegramState.requested.size >= TELEGRAM_MAX_REQUESTED_CHANNELS) return null;
+      entry = { handle, lastRequestedAt: 0, items: [], clients: new Map() };
+      telegramState.requested.set(key, entry);
+    }
+  }
+  entry.clients.set(clientKey, now);
+  entry.lastRequestedAt = now;
+  return entry;
+}
+
+/** The relay sees the Vercel proxy's IP; trust its forwarded client IP only when the proxy had to authenticate. */
+function getTelegramClientKey(req) {
+  const forwarded = req.headers['x-worldmonitor-client-ip'];
+  if (RELAY_SHARED_SECRET && typeof forwarded === 'string' && forwarded.trim()) return forwarded.trim();
+  return getClientIp(req);
+}
+
+async function pollRequestedTelegramChannels(client) {
+  const now = Date.now();
+  for (const [key, entry] of telegramState.requested) {
+    for (const [clientKey, at] of entry.clients) {
+      if (now - at > TELEGRAM_REQUESTED_TTL_MS) entry.clients.delete(clientKey);
+    }
+    if (now - entry.lastRequestedAt > TELEGRAM_REQUESTED_TTL_MS || !entry.clients.size) {
+      telegramState.requested.delete(key);
+      continue;
+    }
+    const channel = { handle: entry.handle, topic: 'custom' };
+    try {
+      const entity = await client.getEntity(entry.handle);
+      const msgs = await client.getMessages(entity, { limit: TELEGRAM_REQUESTED_MAX_ITEMS });
+      entry.items = msgs
+        .filter(msg => msg && msg.id && msg.message)
+        .map(msg => normalizeTelegramMessage(msg, channel))
+        .sort((a, b) => (b.ts || '').localeCompare(a.ts || ''));
+      await new Promise(r => setTimeout(r, Math.max(300, Number(process.env.TELEGRAM_RATE_LIMIT_MS || 800))));
+    } catch (e) {
+      telegramState.lastError = `poll requested ${entry.handle} failed: ${e?.message || String(e)}`;
+      console.warn('[Relay] Telegram poll error:', telegramState.lastError);
+    }
+  }
+}
+
 async function pollTelegramOnce() {
   const ok = await initTelegramClientIfNeeded();
   if (!ok) return;
 
   const channels = telegramState.channels.length ? telegramState.channels : loadTelegramChannels();
-  if (!channels.length) return;
+  if (!channels.length && !telegramState.requested.size) return;
 
   const client = telegramState.client;
   const newItems = [];
@@ -274,6 +357,7 @@ async function pollTelegramOnce() {
       .slice(0, TELEGRAM_MAX_FEED_ITEMS);
   }
 
+  await pollRequestedTelegramChannels(client);
   telegramState.lastPollAt = Date.now();
 }
 
@@ -342,6 +426,7 @@ function getRouteGroup(pathname) {
   if (pathname.startsWith('/worldbank')) return 'worldbank';
   if (pathname.startsWith('/polymarket')) return 'polymarket';
   if (pathname.startsWith('/ucdp-events')) return 'ucdp-events';
+  if (pathname === '/stream') return 'stream';
   return 'other';
 }
 
@@ -536,11 +621,15 @@ const SNAPSHOT_INTERVAL_MS = Math.max(2000, Number(process.env.AIS_SNAPSHOT_INTE
 const CANDIDATE_RETENTION_MS = 2 * 60 * 60 * 1000; // 2 hours
 const MAX_DENSITY_ZONES = 200;
 const MAX_CANDIDATE_REPORTS = 1500;
+const VESSEL_ANALYTICS_INTERVAL_MS = 60 * 1000;
 
 const vessels = new Map();
 const vesselHistory = new Map();
 const densityGrid = new Map();
 const candidateReports = new Map();
+// Per-MMSI history for dark gaps, loitering, rendezvous and chokepoint anomalies
+const vesselAnalytics = createVesselAnalytics();
+let lastVesselAnalyticsAt = 0;
 
 let snapshotSequence = 0;
 let lastSnapshot = null;
@@ -760,6 +849,18 @@ function processPositionReportForSnapshot(data) {
   // Maintain exact chokepoint membership so moving vessels don't get "stuck" in old buckets.
   updateVesselChokepoints(mmsi, lat, lon);
 
+  vesselAnalytics.ingest({
+    mmsi,
+    name: meta.ShipName || '',
+    shipType: meta.ShipType,
+    status: pos.NavigationalStatus,
+    lat,
+    lon,
+    sog: pos.Sog,
+    cog: pos.Cog,
+    t: now,
+  });
+
   if (isLikelyMilitaryCandidate(meta)) {
     candidateReports.set(mmsi, {
       mmsi,
@@ -962,6 +1063,10 @@ function buildSnapshot() {
   }
 
   cleanupAggregates();
+  if (now - lastVesselAnalyticsAt >= VESSEL_ANALYTICS_INTERVAL_MS) {
+    vesselAnalytics.detect(now);
+    lastVesselAnalyticsAt = now;
+  }
   snapshotSequence++;
 
   lastSnapshot = {
@@ -976,6 +1081,7 @@ function buildSnapshot() {
     },
     disruptions: detectDisruptions(),
     density: calculateDensityZones(),
+    vesselEvents: vesselAnalytics.getEvents(),
   };
   lastSnapshotAt = now;
 
@@ -1003,6 +1109,156 @@ setInterval(() => {
   }
 }, SNAPSHOT_INTERVAL_MS);
 
+// Live stream (SSE) — pushes typed deltas so browsers don't poll fast-moving layers
+const AIS_LIVE_TOPICS = ['ais-disruptions', 'ais-density', 'vessel-events'];
+const LIVE_TOPICS = [...AIS_LIVE_TOPICS, 'earthquakes', 'military-flights'];
+const LIVE_STREAM_MAX_CLIENTS = Math.max(1, Number(process.env.LIVE_STREAM_MAX_CLIENTS || 200));
+const LIVE_STREAM_HEARTBEAT_MS = 20 * 1000;
+// Streams are closed after this long so proxies with a response time limit rotate cleanly
+const LIVE_STREAM_MAX_AGE_MS = Math.max(60 * 1000, Number(process.env.LIVE_STREAM_MAX_AGE_MS || 4 * 60 * 1000));
+const LIVE_STREAM_RETRY_MS = 5000;
+const LIVE_AIS_PUBLISH_INTERVAL_MS = 30 * 1000;
+const LIVE_EARTHQUAKE_POLL_INTERVAL_MS = 60 * 1000;
+const LIVE_EARTHQUAKE_FEED_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/4.5_day.geojson';
+const LIVE_FLIGHT_POLL_INTERVAL_MS = 60 * 1000;
+// Same boxes as MILITARY_QUERY_REGIONS in src/config/military.ts, so the stream
+// and the /opensky proxy share cache entries. Military classification stays in
+// the browser; each region is published as one item carrying raw state vectors.
+const LIVE_FLIGHT_REGIONS = [
+  { name: 'PACIFIC', lamin: 10, lamax: 46, lomin: 107, lomax: 143 },
+  { name: 'WESTERN', lamin: 13, lamax: 85, lomin: -10, lomax: 57 },
+];
+
+const liveHub = createLiveStreamHub({ topics: LIVE_TOPICS, maxClients: LIVE_STREAM_MAX_CLIENTS });
+let liveEarthquakePollInProgress = false;
+let liveFlightPollInProgress = false;
+const liveFlightRegions = new Map(); // region name → last published item
+
+function publishAisTopics() {
+  if (!AIS_LIVE_TOPICS.some(topic => liveHub.subscriberCount(topic) > 0)) return;
+  const snapshot = buildSnapshot();
+  liveHub.publish('ais-disruptions', snapshot.disruptions);
+  liveHub.publish('ais-density', snapshot.density);
+  liveHub.publish('vessel-events', snapshot.vesselEvents);
+}
+
+// Same shape as ListEarthquakes in server/worldmonitor/seismology/v1/list-earthquakes.ts
+function toLiveEarthquake(feature) {
+  const coords = feature?.geometry?.coordinates;
+  if (!feature?.properties || !Array.isArray(coords)) return null;
+  return {
+    id: feature.id || '',
+    place: feature.properties.place || '',
+    magnitude: feature.properties.mag ?? 0,
+    depthKm: coords[2] ?? 0,
+    location: { latitude: coords[1] ?? 0, longitude: coords[0] ?? 0 },
+    occurredAt: feature.properties.time ?? 0,
+    sourceUrl: feature.properties.url || '',
+  };
+}
+
+function pollLiveEarthquakes() {
+  if (liveEarthquakePollInProgress || liveHub.subscriberCount('earthquakes') === 0) return;
+  liveEarthquakePollInProgress = true;
+  const request = https.get(LIVE_EARTHQUAKE_FEED_URL, { headers: { Accept: 'application/json' }, timeout: 15000 }, (res) => {
+    if (res.statusCode !== 200) {
+      res.resume();
+      liveEarthquakePollInProgress = false;
+      logThrottled('warn', 'live-usgs-status', `[Live] USGS feed HTTP ${res.statusCode}`);
+      return;
+    }
+    let data = '';
+    res.on('data', chunk => data += chunk);
+    res.on('end', () => {
+      liveEarthquakePollInProgress = false;
+      try {
+        const features = JSON.parse(data)?.features;
+        if (!Array.isArray(features)) return;
+        // An empty feed is more likely an upstream hiccup than a quiet day; keep the last list.
+        const quakes = features.map(toLiveEarthquake).filter(q => q && q.id);
+        if (quakes.length > 0) liveHub.publish('earthquakes', quakes);
+      } catch {
+        logThrottled('warn', 'live-usgs-parse', '[Live] USGS feed parse error');
+      }
+    });
+  });
+  request.on('error', (err) => {
+    liveEarthquakePollInProgress = false;
+    logThrottled('warn', 'live-usgs-error', `[Live] USGS feed error: ${err.message}`);
+  });
+  request.on('timeout', () => request.destroy(new Error('timeout')));
+}
+
+async function pollLiveFlights() {
+  if (liveFlightPollInProgress || liveHub.subscriberCount('military-flights') === 0) return;
+  liveFlightPollInProgress = true;
+  try {
+    let updated = false;
+    for (const { name, ...bbox } of LIVE_FLIGHT_REGIONS) {
+      const data = await fetchOpenSkyBbox(bbox);
+      const parsed = data ? JSON.parse(data) : null;
+      // A region that failed keeps its last item rather than dropping out of the stream.
+      if (!Array.isArray(parsed?.states)) continue;
+      liveFlightRegions.set(name, { id: name, time: parsed.time ?? 0, states: parsed.states });
+      updated = true;
+    }
+    if (updated) liveHub.publish('military-flights', [...liveFlightRegions.values()]);
+  } catch (err) {
+    logThrottled('warn', 'live-opensky-error', `[Live] OpenSky poll error: ${err.message}`);
+  } finally {
+    liveFlightPollInProgress = false;
+  }
+}
+
+setInterval(publishAisTopics, LIVE_AIS_PUBLISH_INTERVAL_MS);
+setInterval(pollLiveEarthquakes, LIVE_EARTHQUAKE_POLL_INTERVAL_MS);
+setInterval(pollLiveFlights, LIVE_FLIGHT_POLL_INTERVAL_MS);
+
+function handleLiveStreamRequest(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const topics = parseTopics(url.searchParams.get('topics'), LIVE_TOPICS);
+  if (topics.length === 0) {
+    return safeEnd(res, 400, { 'Content-Type': 'application/json' },
+      JSON.stringify({ error: `topics must include one of: ${LIVE_TOPICS.join(', ')}`, time: Date.now() }));
+  }
+  if (liveHub.subscriberCount() >= LIVE_STREAM_MAX_CLIENTS) {
+    return safeEnd(res, 503, { 'Content-Type': 'application/json', 'Retry-After': '60' },
+      JSON.stringify({ error: 'Live stream is full', time: Date.now() }));
+  }
+
+  const write = (chunk) => {
+    if (!res.writableEnded) res.write(chunk);
+  };
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  write(`retry: ${LIVE_STREAM_RETRY_MS}\n\n`);
+
+  const unsubscribe = liveHub.subscribe(topics, event => write(formatSseEvent(event)));
+  if (!unsubscribe) return res.end();
+
+  if (topics.some(topic => AIS_LIVE_TOPICS.includes(topic))) {
+    connectUpstream();
+    publishAisTopics();
+  }
+  if (topics.includes('earthquakes')) pollLiveEarthquakes();
+  if (topics.includes('military-flights')) pollLiveFlights();
+
+  // A named event rather than an SSE comment, so clients can detect a stalled stream.
+  const heartbeat = setInterval(() => write(`event: ping\ndata: ${Date.now()}\n\n`), LIVE_STREAM_HEARTBEAT_MS);
+  const maxAge = setTimeout(() => res.end(), LIVE_STREAM_MAX_AGE_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    clearTimeout(maxAge);
+    unsubscribe();
+  };
+  req.on('close', cleanup);
+  res.on('error', cleanup);
+}
+
 // UCDP GED Events cache (persistent in-memory — Railway advantage)
 const UCDP_CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
 const UCDP_PAGE_SIZE = 1000;
@@ -1624,6 +1880,49 @@ async function handleOpenSkyRequest(req, res, PORT) {
   }
 }
 
+/**
+ * Fetch one bbox for the live stream. Goes through the same cache, in-flight
+ * dedup, request queue and 429 cooldown as handleOpenSkyRequest. Resolves to
+ * the response body, or null when nothing fresh is available.
+ */
+async function fetchOpenSkyBbox(bbox) {
+  const { cacheKey, queryParams } = normalizeOpenSkyBbox(new URLSearchParams(bbox));
+  const fresh = () => {
+    const entry = openskyResponseCache.get(cacheKey);
+    return entry && Date.now() - entry.timestamp < OPENSKY_CACHE_TTL_MS ? entry.data : null;
+  };
+  if (fresh()) return fresh();
+  const existing = openskyInFlight.get(cacheKey);
+  if (existing) {
+    await existing;
+    return fresh();
+  }
+  if (Date.now() < openskyGlobal429Until) return null;
+
+  let settleFlight;
+  openskyInFlight.set(cacheKey, new Promise((resolve) => { settleFlight = resolve; }));
+  try {
+    const token = await getOpenSkyToken();
+    if (!token) return null;
+    incrementRelayMetric('openskyUpstreamFetches');
+    const result = await openskyQueuedFetch(`https://opensky-network.org/api/states/all?${queryParams.join('&')}`, token);
+    if (result.status === 401) {
+      openskyToken = null;
+      openskyTokenExpiry = 0;
+    }
+    if (result.status === 429 && !result.rateLimited) {
+      openskyGlobal429Until = Date.now() + OPENSKY_429_COOLDOWN_MS;
+    }
+    if (result.status !== 200 || !result.data) return null;
+    cacheOpenSkyPositive(cacheKey, result.data);
+    openskyNegativeCache.delete(cacheKey);
+    return result.data;
+  } finally {
+    settleFlight();
+    openskyInFlight.delete(cacheKey);
+  }
+}
+
 // ── World Bank proxy (World Bank blocks Vercel edge IPs with 403) ──
 const worldbankCache = new Map(); // key: query string → { data, timestamp }
 const WORLDBANK_CACHE_TTL_MS = 30 * 60 * 1000; // 30 min — data rarely changes
@@ -2012,6 +2311,7 @@ const server = http.createServer(async (req, res) => {
         worldbank: worldbankCache.size,
         polymarket: polymarketCache.size,
       },
+      live: liveHub.stats(),
       auth: {
         sharedSecretEnabled: !!RELAY_SHARED_SECRET,
         authHeader: RELAY_AUTH_HEADER,
@@ -2141,7 +2441,12 @@ const server = http.createServer(async (req, res) => {
       const topic = (url.searchParams.get('topic') || '').trim().toLowerCase();
       const channel = (url.searchParams.get('channel') || '').trim().toLowerCase();
 
-      const items = Array.isArray(telegramState.items) ? telegramState.items : [];
+      const requested = channel && !isCuratedTelegramChannel(channel)
+        ? requestTelegramChannel(channel, getTelegramClientKey(req))
+        : null;
+      const items = requested
+        ? requested.items
+        : Array.isArray(telegramState.items) ? telegramState.items : [];
       const filtered = items.filter((it) => {
         if (topic && String(it.topic || '').toLowerCase() !== topic) return false;
         if (channel && String(it.channel || '').toLowerCase() !== channel) return false;
@@ -2354,6 +2659,8 @@ const server = http.createServer(async (req, res) => {
         res.end(JSON.stringify({ error: err.message }));
       }
     }
+  } else if (pathname === '/stream') {
+    handleLiveStreamRequest(req, res);
   } else if (pathname.startsWith('/ucdp-events')) {
     handleUcdpEventsRequest(req, res);
   } else if (pathname.startsWith('/opensky')) {
@@ -2510,7 +2817,8 @@ wss.on('connection', (ws, req) => {
 setInterval(() => {
   const mem = process.memoryUsage();
   const rssGB = mem.rss / 1024 / 1024 / 1024;
-  console.log(`[Monitor] rss=${(mem.rss / 1024 / 1024).toFixed(0)}MB heap=${(mem.heapUsed / 1024 / 1024).toFixed(0)}MB/${(mem.heapTotal / 1024 / 1024).toFixed(0)}MB external=${(mem.external / 1024 / 1024).toFixed(0)}MB vessels=${vessels.size} density=${densityGrid.size} candidates=${candidateReports.size} msgs=${messageCount} dropped=${droppedMessages}`);
+  const analytics = vesselAnalytics.stats();
+  console.log(`[Monitor] rss=${(mem.rss / 1024 / 1024).toFixed(0)}MB heap=${(mem.heapUsed / 1024 / 1024).toFixed(0)}MB/${(mem.heapTotal / 1024 / 1024).toFixed(0)}MB external=${(mem.external / 1024 / 1024).toFixed(0)}MB vessels=${vessels.size} density=${densityGrid.size} candidates=${candidateReports.size} tracked=${analytics.tracked} vesselEvents=${analytics.events} msgs=${messageCount} dropped=${droppedMessages}`);
   // Emergency cleanup if memory exceeds 450MB RSS
   if (rssGB > 0.45) {
     console.warn('[Monitor] High memory — forcing aggressive cleanup');
@@ -0,0 +1,37 @@
+/**
+ * Compiles the self-hosted server's gateway bundle (server/self-host.ts) into
+ * dist-server/gateway.mjs, which server/node/server.mjs loads at startup.
+ *
+ * Run: node scripts/build-server.mjs
+ * Or:  npm run build:server
+ */
+
+import { build } from 'esbuild';
+import { stat } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, '..');
+
+const entryPoint = path.join(projectRoot, 'server', 'self-host.ts');
+const outfile = path.join(projectRoot, 'dist-server', 'gateway.mjs');
+
+try {
+  await build({
+    entryPoints: [entryPoint],
+    outfile,
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    target: 'node20',
+    treeShaking: true,
+  });
+
+  const { size } = await stat(outfile);
+  const sizeKB = (size / 1024).toFixed(1);
+  console.log(`build:server  dist-server/gateway.mjs  ${sizeKB} KB`);
+} catch (err) {
+  console.error('build:server failed:', err.message);
+  process.exit(1);
+}
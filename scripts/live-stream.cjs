@@ -0,0 +1,145 @@
+/**
+ * Topic hub for the relay's Server-Sent Events stream.
+ *
+ * The relay polls each upstream once and publishes the full item list for a
+ * topic here; the hub diffs it against the previous list by item id and fans
+ * a typed delta out to every subscriber of that topic:
+ *
+ *   snapshot  { topic, seq, items }            sent once when a client subscribes
+ *   delta     { topic, seq, upserts, removes }  new or changed items, removed ids
+ *
+ * Sequence numbers are per topic and increase by one per delta, so a client
+ * that sees a gap knows it missed an event and reconnects for a fresh snapshot.
+ *
+ * Pure CommonJS with no dependencies so it can be unit tested without the relay.
+ */
+'use strict';
+
+const DEFAULT_MAX_CLIENTS = 200;
+
+/** Parse a `topics=a,b` query value against the allowlist, dropping unknown names. */
+function parseTopics(value, allowed) {
+  const known = new Set(allowed);
+  const topics = String(value || '')
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => known.has(t));
+  return [...new Set(topics)];
+}
+
+/** Serialize one hub event in text/event-stream framing. */
+function formatSseEvent(event) {
+  return `id: ${event.topic}:${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function createLiveStreamHub(options = {}) {
+  const maxClients = options.maxClients || DEFAULT_MAX_CLIENTS;
+  const idOf = options.idOf || (item => String(item.id));
+  const topics = new Map();
+  const subscribers = new Set();
+
+  for (const name of options.topics || []) {
+    // items: id -> item, fingerprints: id -> serialized item for change detection
+    topics.set(name, { seq: 0, items: new Map(), fingerprints: new Map(), publishedAt: 0 });
+  }
+
+  function getTopic(name) {
+    const topic = topics.get(name);
+    if (!topic) throw new Error(`Unknown live topic: ${name}`);
+    return topic;
+  }
+
+  function deliver(sub, event) {
+    try {
+      sub.send(event);
+    } catch {
+      // A broken writer must not stop the fan-out; the relay drops it on close.
+    }
+  }
+
+  /**
+   * Replace a topic's items. Returns the delta sent to subscribers, or null
+   * when nothing changed. Items without an id are ignored.
+   */
+  function publish(name, items, now = Date.now()) {
+    const topic = getTopic(name);
+    const upserts = [];
+    const seen = new Set();
+
+    for (const item of items || []) {
+      const id = item ? idOf(item) : '';
+      if (!id || seen.has(id)) continue;
+      seen.add(id);
+      const fingerprint = JSON.stringify(item);
+      if (topic.fingerprints.get(id) === fingerprint) continue;
+      topic.fingerprints.set(id, fingerprint);
+      topic.items.set(id, item);
+      upserts.push(item);
+    }
+
+    const removes = [];
+    for (const id of topic.items.keys()) {
+      if (seen.has(id)) continue;
+      topic.items.delete(id);
+      topic.fingerprints.delete(id);
+      removes.push(id);
+    }
+
+    topic.publishedAt = now;
+    if (upserts.length === 0 && removes.length === 0) return null;
+
+    topic.seq++;
+    const event = { type: 'delta', topic: name, seq: topic.seq, upserts, removes };
+    for (const sub of subscribers) {
+      if (sub.topics.has(name)) deliver(sub, event);
+    }
+    return event;
+  }
+
+  /**
+   * Subscribe to topics; `send` receives a snapshot per topic straight away
+   * and deltas after that. Returns an unsubscribe function, or null when the
+   * hub is full or no topic is known.
+   */
+  function subscribe(names, send) {
+    const wanted = names.filter(name => topics.has(name));
+    if (wanted.length === 0 || subscribers.size >= maxClients) return null;
+
+    const sub = { topics: new Set(wanted), send };
+    subscribers.add(sub);
+    for (const name of wanted) {
+      const topic = topics.get(name);
+      deliver(sub, { type: 'snapshot', topic: name, seq: topic.seq, items: [...topic.items.values()] });
+    }
+    return () => subscribers.delete(sub);
+  }
+
+  function subscriberCount(name) {
+    let count = 0;
+    for (const sub of subscribers) {
+      if (!name || sub.topics.has(name)) count++;
+    }
+    return count;
+  }
+
+  function stats() {
+    const byTopic = {};
+    for (const [name, topic] of topics) {
+      byTopic[name] = {
+        seq: topic.seq,
+        items: topic.items.size,
+        subscribers: subscriberCount(name),
+        publishedAt: topic.publishedAt ? new Date(topic.publishedAt).toISOString() : null,
+      };
+    }
+    return { clients: subscribers.size, maxClients, topics: byTopic };
+  }
+
+  return { publish, subscribe, subscriberCount, stats, topicNames: () => [...topics.keys()] };
+}
+
+module.exports = {
+  createLiveStreamHub,
+  formatSseEvent,
+  parseTopics,
+};
@@ -18,7 +18,6 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DIST_DIR = path.join(__dirname, 'dist');
 const PORT = parseInt(process.env.WM_PORT || '4173', 10);
 const API_PORT = parseInt(process.env.LOCAL_API_PORT || '46123', 10);
-const TRADING_API_PORT = parseInt(process.env.TRADING_API_PORT || '5678', 10);
 const HOST = '0.0.0.0';
 
 // MIME types for static files
@@ -141,9 +140,7 @@ function proxyToApi(req, res, port = API_PORT) {
 const server = http.createServer((req, res) => {
   const url = new URL(req.url || '/', `http://localhost:${PORT}`);
 
-  if (url.pathname.startsWith('/api/trading/')) {
-    proxyToApi(req, res, TRADING_API_PORT);
-  } else if (url.pathname.startsWith('/api/')) {
+  if (url.pathname.startsWith('/api/')) {
     proxyToApi(req, res);
   } else {
     serveStatic(req, res);
@@ -153,7 +150,6 @@ const server = http.createServer((req, res) => {
 server.listen(PORT, HOST, () => {
   console.log(`[worldmonitor] Dashboard: http://${HOST}:${PORT}`);
   console.log(`[worldmonitor] API proxy: /api/* -> http://127.0.0.1:${API_PORT}`);
-  console.log(`[worldmonitor] Trading proxy: /api/trading/* -> http://127.0.0.1:${TRADING_API_PORT}`);
   console.log(`[worldmonitor] LAN: http://192.168.0.36:${PORT}`);
   console.log(`[worldmonitor] Tailscale: https://navada.tail394c36.ts.net`);
 });
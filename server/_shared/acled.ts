@@ -10,6 +10,7 @@ declare const process: { env: Record<string, string | undefined> };
 
 import { CHROME_UA } from './constants';
 import { cachedFetchJson } from './redis';
+import { resolveCountry } from './country-bounds';
 
 const ACLED_API_URL = 'https://acleddata.com/api/acled/read';
 const ACLED_CACHE_TTL = 900; // 15 min — matches ACLED rate-limit window
@@ -33,6 +34,31 @@ export interface AcledRawEvent {
   tags?: string;
 }
 
+/** ACLED spellings that differ from the names in country-bounds.ts. */
+const ACLED_COUNTRY_NAMES: Record<string, string> = {
+  US: 'United States',
+  CD: 'Democratic Republic of Congo',
+  CG: 'Republic of Congo',
+  CZ: 'Czech Republic',
+  RS: 'Serbia',
+  TZ: 'Tanzania',
+  BS: 'Bahamas',
+  GM: 'Gambia',
+  SZ: 'eSwatini',
+};
+
+/**
+ * ACLED filters by country name. Requests carry ISO 3166-1 alpha-2 codes,
+ * so translate them; names ACLED already knows pass through unchanged.
+ */
+export function acledCountryName(country: string | undefined): string | undefined {
+  const trimmed = (country || '').trim();
+  if (!trimmed) return undefined;
+  const resolved = resolveCountry(trimmed);
+  if (!resolved) return trimmed;
+  return ACLED_COUNTRY_NAMES[resolved.code] ?? resolved.name;
+}
+
 interface FetchAcledOptions {
   eventTypes: string;
   startDate: string;
@@ -0,0 +1,299 @@
+/**
+ * Country names and bounding boxes for server-side country filters.
+ *
+ * Derived from public/data/countries.geojson (ISO 3166-1 alpha-2 code ->
+ * name, west, south, east, north), rounded outward to 0.1 degree. Countries
+ * that span the antimeridian have west > east. Small territories the
+ * geojson carries without geometry are listed by name only.
+ */
+
+/** [west, south, east, north]; west > east when the box crosses the antimeridian. */
+export type Bounds = [number, number, number, number];
+
+export interface ResolvedCountry {
+  code: string;
+  name: string;
+  bounds: Bounds | null;
+}
+
+export type CountryBoundsEntry =
+  | [name: string]
+  | [name: string, west: number, south: number, east: number, north: number];
+
+export const COUNTRY_BOUNDS: Record<string, CountryBoundsEntry> = {
+  AD: ['Andorra'],
+  AE: ['United Arab Emirates', 51.5, 22.6, 56.4, 26.1],
+  AF: ['Afghanistan', 60.4, 29.3, 74.9, 38.5],
+  AG: ['Antigua and Barbuda'],
+  AI: ['Anguilla'],
+  AL: ['Albania', 19.3, 39.6, 21, 42.6],
+  AM: ['Armenia', 43.4, 38.8, 46.6, 41.3],
+  AO: ['Angola', 11.7, -18.1, 24.1, -4.3],
+  AQ: ['Antarctica', -180, -90, 180, -64.3],
+  AR: ['Argentina', -73.5, -55, -53.6, -21.7],
+  AS: ['American Samoa'],
+  AT: ['Austria', 9.5, 46.4, 17.2, 49.1],
+  AU: ['Australia', 113.3, -43.7, 153.7, -10.9],
+  AW: ['Aruba'],
+  AX: ['Aland'],
+  AZ: ['Azerbaijan', 44.7, 38.4, 49.6, 41.9],
+  BA: ['Bosnia and Herzegovina', 15.7, 42.5, 19.7, 45.3],
+  BB: ['Barbados'],
+  BD: ['Bangladesh', 88, 21, 92.6, 26.5],
+  BE: ['Belgium', 2.5, 49.5, 6.2, 51.4],
+  BF: ['Burkina Faso', -5.6, 9.4, 2.4, 15.1],
+  BG: ['Bulgaria', 22.3, 41.2, 28.6, 44.3],
+  BH: ['Bahrain'],
+  BI: ['Burundi', 29, -4.5, 30.9, -2.4],
+  BJ: ['Benin', 0.7, 6.2, 3.9, 12.4],
+  BL: ['Saint Barthelemy'],
+  BM: ['Bermuda'],
+  BN: ['Brunei', 113.9, 4, 115, 4.9],
+  BO: ['Bolivia', -69.6, -22.9, -57.5, -9.8],
+  BR: ['Brazil', -73.8, -33.8, -34.7, 5.3],
+  BS: ['The Bahamas'],
+  BT: ['Bhutan', 88.8, 26.7, 92.1, 28.4],
+  BW: ['Botswana', 19.9, -26.9, 29.4, -17.7],
+  BY: ['Belarus', 23.4, 51.4, 32.8, 56.2],
+  BZ: ['Belize', -89.3, 15.8, -88, 18.5],
+  CA: ['Canada', -141.1, 41.6, -52.6, 83.1],
+  CD: ['Democratic Republic of the Congo', 12.2, -13.5, 31.3, 5.4],
+  CF: ['Central African Republic', 14.5, 2.2, 27.5, 11.1],
+  CG: ['Republic of the Congo', 11.1, -5.1, 18.7, 3.7],
+  CH: ['Switzerland', 6, 45.9, 10.5, 47.9],
+  CI: ['Ivory Coast', -8.6, 4.3, -2.5, 10.5],
+  CK: ['Cook Islands'],
+  CL: ['Chile', -75.8, -55.7, -67, -17.5],
+  CM: ['Cameroon', 8.5, 1.9, 16.2, 13.1],
+  CN: ['China', 73.6, 18.2, 134.8, 53.6],
+  CO: ['Colombia', -78.9, -4.3, -66.8, 12.5],
+  CR: ['Costa Rica', -85.9, 8, -82.5, 11.1],
+  CU: ['Cuba', -84.1, 19.8, -74.2, 23.3],
+  CV: ['Cabo Verde'],
+  CW: ['Curaçao'],
+  CY: ['Cyprus', 32.5, 34.6, 34.1, 35.2],
+  CZ: ['Czechia', 12.3, 48.5, 18.9, 51],
+  DE: ['Germany', 5.9, 47.3, 14.9, 54.9],
+  DJ: ['Djibouti', 41.7, 10.9, 43.5, 12.8],
+  DK: ['Denmark', 8.2, 54.8, 12.7, 57.6],
+  DM: ['Dominica'],
+  DO: ['Dominican Republic', -72, 18, -68.7, 20],
+  DZ: ['Algeria', -8.7, 18.9, 12, 37.1],
+  EC: ['Ecuador', -80.9, -5, -75.2, 1.5],
+  EE: ['Estonia', 23.4, 57.5, 28.1, 59.7],
+  EG: ['Egypt', 24.6, 21.9, 36.9, 31.7],
+  EH: ['Western Sahara', -17.1, 20.7, -8.6, 27.7],
+  ER: ['Eritrea', 36.4, 12.4, 43.2, 18.1],
+  ES: ['Spain', -9.3, 36.1, 3.2, 43.8],
+  ET: ['Ethiopia', 33, 3.4, 48, 14.9],
+  FI: ['Finland', 20.6, 59.8, 31.6, 70.1],
+  FJ: ['Fiji', 177.3, -18.3, 180, -16.1],
+  FK: ['Falkland Islands'],
+  FM: ['Federated States of Micronesia'],
+  FO: ['Faroe Islands'],
+  FR: ['France', -54.7, 2.1, 9.6, 51.1],
+  GA: ['Gabon', 8.8, -4, 14.5, 2.4],
+  GB: ['United Kingdom', -8.2, 50.2, 1.8, 58.7],
+  GD: ['Grenada'],
+  GE: ['Georgia', 39.9, 41.1, 46.5, 43.6],
+  GG: ['Guernsey'],
+  GH: ['Ghana', -3.3, 4.7, 1.2, 11.2],
+  GI: ['Gibraltar'],
+  GL: ['Greenland', -72.8, 60.1, -11.6, 83.7],
+  GM: ['Gambia'],
+  GN: ['Guinea', -15.1, 7.2, -7.6, 12.7],
+  GQ: ['Equatorial Guinea', 9.4, 0.9, 11.4, 2.4],
+  GR: ['Greece', 19.9, 34.9, 26.7, 41.8],
+  GS: ['South Georgia and the Islands'],
+  GT: ['Guatemala', -92.3, 13.7, -88.2, 17.9],
+  GU: ['Guam'],
+  GW: ['Guinea-Bissau', -16.8, 10.9, -13.7, 12.7],
+  GY: ['Guyana', -61.4, 1.2, -56.4, 8.6],
+  HK: ['Hong Kong S.A.R.'],
+  HM: ['Heard Island and McDonald Islands'],
+  HN: ['Honduras', -89.4, 12.9, -83.1, 16],
+  HR: ['Croatia', 13.5, 42.4, 19.1, 46.6],
+  HT: ['Haiti', -72.9, 18, -71.6, 20],
+  HU: ['Hungary', 16, 45.7, 22.9, 48.6],
+  ID: ['Indonesia', 95.1, -10.4, 141, 5.6],
+  IE: ['Ireland', -10.3, 51.5, -5.9, 55.2],
+  IL: ['Israel', 34.2, 29.4, 35.9, 33.5],
+  IM: ['Isle of Man'],
+  IN: ['India', 68.1, 8, 97.4, 35.5],
+  IO: ['British Indian Ocean Territory'],
+  IQ: ['Iraq', 38.7, 29, 48.6, 37.4],
+  IR: ['Iran', 44, 25.2, 62.8, 39.7],
+  IS: ['Iceland', -24.2, 63.3, -13.5, 66.5],
+  IT: ['Italy', 7, 36.7, 18.1, 47],
+  JE: ['Jersey'],
+  JM: ['Jamaica', -78.1, 17.7, -76.2, 18.6],
+  JO: ['Jordan', 34.9, 29.1, 39.2, 33.4],
+  JP: ['Japan', 129.8, 31.1, 145.8, 45.6],
+  KE: ['Kenya', 33.8, -4.7, 41.9, 5],
+  KG: ['Kyrgyzstan', 69.2, 39.3, 80.3, 43.3],
+  KH: ['Cambodia', 102.3, 10.4, 107.6, 14.8],
+  KI: ['Kiribati'],
+  KM: ['Comoros'],
+  KN: ['Saint Kitts and Nevis'],
+  KP: ['North Korea', 124.3, 37.8, 130.7, 42.6],
+  KR: ['South Korea', 126.2, 34.4, 129.5, 38.7],
+  KW: ['Kuwait', 46.5, 28.5, 48.5, 30],
+  KY: ['Cayman Islands'],
+  KZ: ['Kazakhstan', 46.4, 40.5, 87.4, 55.4],
+  LA: ['Laos', 100, 14.3, 107.7, 22.4],
+  LB: ['Lebanon', 35.1, 33, 36.7, 34.7],
+  LC: ['Saint Lucia'],
+  LI: ['Liechtenstein'],
+  LK: ['Sri Lanka', 79.7, 5.9, 81.9, 9.6],
+  LR: ['Liberia', -11.5, 4.3, -7.4, 8.5],
+  LS: ['Lesotho', 27, -30.7, 29.5, -28.5],
+  LT: ['Lithuania', 21, 53.9, 26.6, 56.5],
+  LU: ['Luxembourg', 5.7, 49.4, 6.4, 50.2],
+  LV: ['Latvia', 21, 55.6, 28.2, 58.1],
+  LY: ['Libya', 9.4, 19.4, 25.2, 33.2],
+  MA: ['Morocco', -17.1, 21.4, -1.2, 36],
+  MC: ['Monaco'],
+  MD: ['Moldova', 26.6, 45.4, 29.8, 48.5],
+  ME: ['Montenegro', 18.4, 41.8, 20.4, 43.6],
+  MF: ['Saint Martin'],
+  MG: ['Madagascar', 43.2, -25.6, 50.6, -12.2],
+  MH: ['Marshall Islands'],
+  MK: ['North Macedonia', 20.4, 40.8, 23, 42.4],
+  ML: ['Mali', -12.3, 10.1, 4.3, 25],
+  MM: ['Myanmar', 92.2, 10.3, 101.2, 28.6],
+  MN: ['Mongolia', 87.8, 41.5, 119.7, 52.2],
+  MO: ['Macao S.A.R'],
+  MP: ['Northern Mariana Islands'],
+  MR: ['Mauritania', -17.1, 14.7, -4.8, 27.3],
+  MS: ['Montserrat'],
+  MT: ['Malta'],
+  MU: ['Mauritius'],
+  MV: ['Maldives'],
+  MW: ['Malawi', 32.7, -16.5, 35.9, -9.4],
+  MX: ['Mexico', -117.2, 14.5, -86.7, 32.6],
+  MY: ['Malaysia', 100.1, 0.8, 119.2, 6.8],
+  MZ: ['Mozambique', 30.2, -26.9, 40.9, -10.4],
+  NA: ['Namibia', 11.7, -29, 25.3, -16.9],
+  NC: ['New Caledonia', 164.3, -22.3, 167.1, -20.3],
+  NE: ['Niger', 0.1, 11.6, 16, 23.6],
+  NF: ['Norfolk Island'],
+  NG: ['Nigeria', 2.6, 4.2, 14.7, 13.9],
+  NI: ['Nicaragua', -87.4, 10.7, -83.1, 15],
+  NL: ['Netherlands', 4.1, 50.7, 7.2, 53.5],
+  NO: ['Norway', 4.9, 58, 31.1, 80.4],
+  NP: ['Nepal', 80, 26.3, 88.2, 30.5],
+  NR: ['Nauru'],
+  NU: ['Niue'],
+  NZ: ['New Zealand', 166.4, -46.7, 178.3, -35],
+  OM: ['Oman', 51.9, 16.6, 59.8, 25],
+  PA: ['Panama', -82.9, 7.2, -77.2, 9.7],
+  PE: ['Peru', -81.3, -18.4, -68.6, -0.1],
+  PF: ['French Polynesia'],
+  PG: ['Papua New Guinea', 140.9, -10.4, 156, -2.6],
+  PH: ['Philippines', 119.8, 5.7, 126.6, 18.6],
+  PK: ['Pakistan', 60.8, 23.8, 77.1, 37.1],
+  PL: ['Poland', 14.2, 49, 24.2, 54.9],
+  PM: ['Saint Pierre and Miquelon'],
+  PN: ['Pitcairn Islands'],
+  PR: ['Puerto Rico', -67.3, 17.9, -65.6, 18.6],
+  PS: ['Palestine', 34.2, 31.2, 35.6, 32.4],
+  PT: ['Portugal', -9.5, 37.1, -6.2, 42],
+  PW: ['Palau'],
+  PY: ['Paraguay', -62.7, -27.5, -54.2, -19.2],
+  QA: ['Qatar', 50.7, 24.6, 51.7, 26.1],
+  RO: ['Romania', 20.2, 43.6, 29.7, 48.3],
+  RS: ['Republic of Serbia', 18.9, 42.2, 23, 46.2],
+  RU: ['Russia', 19.6, 41.2, -169.7, 81.3],
+  RW: ['Rwanda', 28.8, -2.9, 30.9, -1],
+  SA: ['Saudi Arabia', 34.6, 16.3, 55.7, 32.2],
+  SB: ['Solomon Islands'],
+  SC: ['Seychelles'],
+  SD: ['Sudan', 22, 8.6, 38.7, 22],
+  SE: ['Sweden', 11.2, 55.4, 24.2, 69.1],
+  SG: ['Singapore'],
+  SH: ['Saint Helena'],
+  SI: ['Slovenia', 13.5, 45.4, 16.6, 46.9],
+  SK: ['Slovakia', 16.9, 47.7, 22.6, 49.6],
+  SL: ['Sierra Leone', -13.4, 6.9, -10.2, 10],
+  SM: ['San Marino'],
+  SN: ['Senegal', -17.2, 12.3, -11.3, 16.7],
+  SO: ['Somalia', 40.9, -1.7, 51.2, 12],
+  SR: ['Suriname', -58.1, 1.9, -53.9, 6.1],
+  SS: ['South Sudan', 24.1, 3.4, 36, 11.8],
+  ST: ['São Tomé and Principe'],
+  SV: ['El Salvador', -90.1, 13.2, -87.8, 14.5],
+  SX: ['Sint Maarten'],
+  SY: ['Syria', 35.7, 32.3, 42.4, 37.2],
+  SZ: ['eSwatini', 30.7, -27.4, 32.2, -25.9],
+  TC: ['Turks and Caicos Islands'],
+  TD: ['Chad', 13.4, 7.5, 24, 23.5],
+  TF: ['French Southern and Antarctic Lands'],
+  TG: ['Togo', -0.2, 6.1, 1.7, 11.2],
+  TH: ['Thailand', 97.7, 5.6, 105.7, 20.4],
+  TJ: ['Tajikistan', 67.7, 36.7, 75.2, 40.9],
+  TL: ['East Timor', 124.9, -9.5, 127.1, -8.3],
+  TM: ['Turkmenistan', 52.4, 35.2, 66.6, 42.8],
+  TN: ['Tunisia', 7.4, 30.2, 11.6, 37.4],
+  TO: ['Tonga'],
+  TR: ['Turkey', 26, 35.9, 44.9, 42.1],
+  TT: ['Trinidad and Tobago'],
+  TV: ['Tuvalu'],
+  TW: ['Taiwan', 120, 22.5, 122, 25.1],
+  TZ: ['United Republic of Tanzania', 29.4, -11.8, 40.5, -1],
+  UA: ['Ukraine', 22.1, 45.2, 40.2, 52.4],
+  UG: ['Uganda', 29.5, -1.4, 35, 4.3],
+  UM: ['United States Minor Outlying Islands'],
+  US: ['United States of America', -168.1, 19, -66.9, 71.4],
+  UY: ['Uruguay', -58.4, -35, -53.1, -30.1],
+  UZ: ['Uzbekistan', 55.9, 37.1, 72.7, 45.6],
+  VA: ['Vatican'],
+  VC: ['Saint Vincent and the Grenadines'],
+  VE: ['Venezuela', -73.1, 0.7, -59.8, 11.9],
+  VG: ['British Virgin Islands'],
+  VI: ['United States Virgin Islands'],
+  VN: ['Vietnam', 102.1, 8.8, 109.5, 23.4],
+  VU: ['Vanuatu'],
+  WF: ['Wallis and Futuna'],
+  WS: ['Samoa'],
+  XK: ['Kosovo', 20, 41.8, 21.6, 43.2],
+  YE: ['Yemen', 42.6, 12.6, 53.1, 19],
+  ZA: ['South Africa', 16.4, -34.9, 32.9, -22.1],
+  ZM: ['Zambia', 21.9, -18, 33.7, -8.1],
+  ZW: ['Zimbabwe', 25.2, -22.4, 33.1, -15.6],
+};
+
+/** Common alternative names, lowercased, mapped to their ISO 3166-1 alpha-2 code. */
+export const COUNTRY_ALIASES: Record<string, string> = {
+  'dr congo': 'CD', 'drc': 'CD', 'democratic republic of congo': 'CD',
+  'republic of congo': 'CG', 'congo-brazzaville': 'CG',
+  'czech republic': 'CZ', 'ivory coast': 'CI', "cote d'ivoire": 'CI',
+  'uae': 'AE', 'uk': 'GB', 'usa': 'US', 'united states': 'US',
+  'russian federation': 'RU', 'south korea': 'KR', 'korea, republic of': 'KR',
+  'north korea': 'KP', 'iran, islamic republic of': 'IR', 'syrian arab republic': 'SY',
+  'viet nam': 'VN', 'turkiye': 'TR', 'türkiye': 'TR', 'east timor': 'TL',
+  'cape verde': 'CV', 'swaziland': 'SZ', 'burma': 'MM', 'myanmar (burma)': 'MM',
+  'serbia': 'RS', 'tanzania': 'TZ', 'hong kong': 'HK', 'macau': 'MO',
+  'bahamas': 'BS', 'gambia': 'GM',
+};
+
+let nameIndex: Map<string, string> | null = null;
+
+function codeForName(lower: string): string | undefined {
+  if (!nameIndex) {
+    nameIndex = new Map(Object.entries(COUNTRY_ALIASES));
+    for (const [code, entry] of Object.entries(COUNTRY_BOUNDS)) nameIndex.set(entry[0].toLowerCase(), code);
+  }
+  return nameIndex.get(lower);
+}
+
+/** Resolve an ISO 3166-1 alpha-2 code or an English country name. */
+export function resolveCountry(country: string | undefined): ResolvedCountry | null {
+  const trimmed = (country || '').trim();
+  if (!trimmed) return null;
+  const upper = trimmed.toUpperCase();
+  const code = COUNTRY_BOUNDS[upper] ? upper : codeForName(trimmed.toLowerCase());
+  const entry = code ? COUNTRY_BOUNDS[code] : undefined;
+  if (!code || !entry) return null;
+  const [name, ...rest] = entry;
+  return { code, name, bounds: rest.length === 4 ? rest as Bounds : null };
+}
@@ -0,0 +1,110 @@
+/**
+ * Shared bounding-box, time-range and country filters for geo list RPCs.
+ *
+ * Handlers cache the full upstream payload and apply these filters on read,
+ * so viewport requests share one cache entry instead of one per bbox.
+ * Request shapes mirror core/v1 BoundingBox and TimeRange; a zero-valued
+ * message counts as unset, as it does on the wire.
+ */
+
+import { resolveCountry, type Bounds } from './country-bounds';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoBoundingBox {
+  northEast?: GeoPoint;
+  southWest?: GeoPoint;
+}
+
+export interface GeoTimeRange {
+  start: number;
+  end: number;
+}
+
+export interface GeoFilterRequest {
+  boundingBox?: GeoBoundingBox;
+  timeRange?: GeoTimeRange;
+  country?: string;
+}
+
+export interface GeoAccessors<T> {
+  location?: (item: T) => GeoPoint | undefined;
+  time?: (item: T) => number;
+  country?: (item: T) => string;
+}
+
+/**
+ * Normalize a request bbox. Latitudes may come in either order; longitudes
+ * are taken as given, so south-west east of north-east means the box wraps
+ * across the antimeridian. Null when unset or invalid.
+ */
+export function toBounds(bb: GeoBoundingBox | undefined): Bounds | null {
+  const sw = bb?.southWest;
+  const ne = bb?.northEast;
+  if (!sw || !ne) return null;
+  const values = [sw.latitude, sw.longitude, ne.latitude, ne.longitude];
+  if (!values.every(Number.isFinite)) return null;
+  if (values.every((v) => v === 0)) return null;
+  const south = Math.max(-90, Math.min(sw.latitude, ne.latitude));
+  const north = Math.min(90, Math.max(sw.latitude, ne.latitude));
+  if (Math.abs(sw.longitude - ne.longitude) >= 360) return [-180, south, 180, north];
+  return [sw.longitude, south, ne.longitude, north];
+}
+
+export function inBounds(point: GeoPoint | undefined, bounds: Bounds): boolean {
+  if (!point || !Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) return false;
+  const [west, south, east, north] = bounds;
+  if (point.latitude < south || point.latitude > north) return false;
+  return west <= east
+    ? point.longitude >= west && point.longitude <= east
+    : point.longitude >= west || point.longitude <= east;
+}
+
+export function inTimeRange(ms: number, range: GeoTimeRange | undefined): boolean {
+  if (!range) return true;
+  if (range.start && !(ms >= range.start)) return false;
+  if (range.end && !(ms <= range.end)) return false;
+  return true;
+}
+
+function countryMatcher(filter: string): (value: string) => boolean {
+  const resolved = resolveCountry(filter);
+  if (!resolved) {
+    // Unknown to the table: fall back to a substring match on the raw value.
+    const needle = filter.trim().toLowerCase();
+    return (value) => value.toLowerCase().includes(needle);
+  }
+  return (value) => {
+    const other = resolveCountry(value);
+    return other ? other.code === resolved.code : value.trim().toLowerCase() === resolved.name.toLowerCase();
+  };
+}
+
+/**
+ * Apply the request's bbox, time-range and country filters. Each filter only
+ * runs when both the request sets it and the item type has the accessor.
+ * Items without a country field are matched against the country's bounding
+ * box instead, which is approximate near borders.
+ */
+export function applyGeoFilters<T>(items: T[], req: GeoFilterRequest, get: GeoAccessors<T>): T[] {
+  const bounds = get.location ? toBounds(req.boundingBox) : null;
+  const range = get.time && (req.timeRange?.start || req.timeRange?.end) ? req.timeRange : undefined;
+  const country = req.country?.trim() || '';
+  const matchCountry = country && get.country ? countryMatcher(country) : null;
+  const byArea = country && !get.country && get.location;
+  const countryBounds = byArea ? resolveCountry(country)?.bounds ?? null : null;
+  // A country with no known area can't match coordinate-only items.
+  if (byArea && !countryBounds) return [];
+  if (!bounds && !range && !matchCountry && !countryBounds) return items;
+
+  return items.filter((item) => {
+    if (bounds && !inBounds(get.location!(item), bounds)) return false;
+    if (range && !inTimeRange(get.time!(item), range)) return false;
+    if (matchCountry && !matchCountry(get.country!(item))) return false;
+    if (countryBounds && !inBounds(get.location!(item), countryBounds)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,303 @@
+/**
+ * In-process cache backend speaking a subset of Redis commands.
+ *
+ * The default cache when Upstash is not configured, and the engine behind the
+ * self-hosted file and SQLite backends. Supports the string commands the
+ * cache helpers issue (GET/SET/MGET/DEL/EXPIRE/TTL) and the sorted-set
+ * commands the playback snapshot index uses. Entries are evicted
+ * least-recently-used once maxEntries or maxBytes is exceeded. No Node-only
+ * imports, so the module also loads in edge bundles.
+ */
+
+export const DEFAULT_MAX_ENTRIES = 10_000;
+export const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/** Commands that never modify the store. */
+const READ_COMMANDS = new Set(['GET', 'MGET', 'EXISTS', 'TTL', 'ZCARD', 'ZRANGE', 'ZRANGEBYSCORE']);
+
+class CommandError extends Error {}
+
+function parseScoreBound(raw) {
+  const text = String(raw);
+  if (text === '-inf') return { value: -Infinity, exclusive: false };
+  if (text === '+inf' || text === 'inf') return { value: Infinity, exclusive: false };
+  const exclusive = text.startsWith('(');
+  const value = Number(exclusive ? text.slice(1) : text);
+  if (Number.isNaN(value)) throw new CommandError('ERR min or max is not a float');
+  return { value, exclusive };
+}
+
+function aboveMin(score, min) {
+  return min.exclusive ? score > min.value : score >= min.value;
+}
+
+function belowMax(score, max) {
+  return max.exclusive ? score < max.value : score <= max.value;
+}
+
+function toInt(raw) {
+  const value = Number(raw);
+  if (!Number.isInteger(value)) throw new CommandError('ERR value is not an integer or out of range');
+  return value;
+}
+
+/** Members ordered by score, then lexicographically (Redis order). */
+function sortedMembers(zset) {
+  return [...zset.entries()].sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+}
+
+/** Approximate footprint in bytes (UTF-16 code units, plus per-member overhead). */
+function entrySize(key, entry) {
+  if (entry.type === 'string') return (key.length + entry.value.length) * 2;
+  let size = key.length * 2;
+  for (const member of entry.value.keys()) size += member.length * 2 + 16;
+  return size;
+}
+
+/** Keys a write command touches (for write-through persistence). */
+export function commandKeys(command) {
+  const [name, ...args] = command;
+  const upper = String(name).toUpperCase();
+  if (READ_COMMANDS.has(upper)) return [];
+  return upper === 'DEL' ? args.map(String) : [String(args[0])];
+}
+
+/**
+ * Create the command engine. `now` is injectable for tests; `onEvict` is
+ * called with each key dropped to stay within the limits.
+ * The returned object is synchronous; createMemoryCacheBackend wraps it.
+ */
+export function createMemoryStore({
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  maxBytes = DEFAULT_MAX_BYTES,
+  now = () => Date.now(),
+  onEvict = () => {},
+} = {}) {
+  /** @type {Map<string, { type: 'string' | 'zset', value: any, expiresAt: number, size: number }>} */
+  const entries = new Map();
+  let totalBytes = 0;
+
+  function remove(key) {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    totalBytes -= entry.size;
+    return entries.delete(key);
+  }
+
+  function read(key) {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt <= now()) {
+      remove(key);
+      return null;
+    }
+    // Re-insert so Map order tracks recency
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  }
+
+  function write(key, entry) {
+    remove(key);
+    entry.size = entrySize(key, entry);
+    entries.set(key, entry);
+    totalBytes += entry.size;
+    while (entries.size > 1 && (entries.size > maxEntries || totalBytes > maxBytes)) {
+      const oldest = entries.keys().next().value;
+      remove(oldest);
+      onEvict(oldest);
+    }
+  }
+
+  function readType(key, type) {
+    const entry = read(key);
+    if (entry && entry.type !== type) {
+      throw new CommandError('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    return entry;
+  }
+
+  function set(key, value, args) {
+    let expiresAt = 0;
+    let mode = null;
+    for (let i = 0; i < args.length; i++) {
+      const flag = String(args[i]).toUpperCase();
+      if (flag === 'NX' || flag === 'XX') mode = flag;
+      else if (flag === 'EX') expiresAt = now() + toInt(args[++i]) * 1000;
+      else if (flag === 'PX') expiresAt = now() + toInt(args[++i]);
+      else throw new CommandError('ERR syntax error');
+    }
+    const exists = read(key) !== null;
+    if ((mode === 'NX' && exists) || (mode === 'XX' && !exists)) return null;
+    write(key, { type: 'string', value: String(value), expiresAt });
+    return 'OK';
+  }
+
+  function zrange(key, start, stop) {
+    const entry = readType(key, 'zset');
+    if (!entry) return [];
+    const members = sortedMembers(entry.value).map(([member]) => member);
+    const len = members.length;
+    let from = toInt(start);
+    let to = toInt(stop);
+    if (from < 0) from = Math.max(len + from, 0);
+    if (to < 0) to = len + to;
+    return members.slice(from, Math.min(to, len - 1) + 1);
+  }
+
+  function zrangeByScore(key, min, max) {
+    const entry = readType(key, 'zset');
+    if (!entry) return [];
+    const lo = parseScoreBound(min);
+    const hi = parseScoreBound(max);
+    return sortedMembers(entry.value)
+      .filter(([, score]) => aboveMin(score, lo) && belowMax(score, hi))
+      .map(([member]) => member);
+  }
+
+  const commands = {
+    GET: ([key]) => {
+      const entry = readType(String(key), 'string');
+      return entry ? entry.value : null;
+    },
+    SET: ([key, value, ...args]) => set(String(key), value, args),
+    MGET: (keys) => keys.map((key) => {
+      const entry = read(String(key));
+      return entry && entry.type === 'string' ? entry.value : null;
+    }),
+    DEL: (keys) => keys.reduce((n, key) => n + (read(String(key)) && remove(String(key)) ? 1 : 0), 0),
+    EXISTS: (keys) => keys.filter((key) => read(String(key)) !== null).length,
+    EXPIRE: ([key, seconds]) => {
+      const entry = read(String(key));
+      if (!entry) return 0;
+      entry.expiresAt = now() + toInt(seconds) * 1000;
+      return 1;
+    },
+    TTL: ([key]) => {
+      const entry = read(String(key));
+      if (!entry) return -2;
+      return entry.expiresAt ? Math.ceil((entry.expiresAt - now()) / 1000) : -1;
+    },
+    ZADD: ([key, ...pairs]) => {
+      if (pairs.length === 0 || pairs.length % 2 !== 0) throw new CommandError('ERR syntax error');
+      const entry = readType(String(key), 'zset') ?? { type: 'zset', value: new Map(), expiresAt: 0 };
+      let added = 0;
+      for (let i = 0; i < pairs.length; i += 2) {
+        const score = Number(pairs[i]);
+        if (Number.isNaN(score)) throw new CommandError('ERR value is not a valid float');
+        const member = String(pairs[i + 1]);
+        if (!entry.value.has(member)) added++;
+        entry.value.set(member, score);
+      }
+      write(String(key), entry);
+      return added;
+    },
+    ZCARD: ([key]) => readType(String(key), 'zset')?.value.size ?? 0,
+    ZRANGE: ([key, start, stop]) => zrange(String(key), start, stop),
+    ZRANGEBYSCORE: ([key, min, max]) => zrangeByScore(String(key), min, max),
+    ZREMRANGEBYSCORE: ([key, min, max]) => {
+      const entry = readType(String(key), 'zset');
+      if (!entry) return 0;
+      const lo = parseScoreBound(min);
+      const hi = parseScoreBound(max);
+      let removed = 0;
+      for (const [member, score] of entry.value) {
+        if (aboveMin(score, lo) && belowMax(score, hi)) {
+          entry.value.delete(member);
+          removed++;
+        }
+      }
+      if (entry.value.size === 0) remove(String(key));
+      else if (removed) write(String(key), entry);
+      return removed;
+    },
+  };
+
+  return {
+    /** Run one command. Throws on unknown commands and type errors. */
+    execute(command) {
+      const [name, ...args] = command;
+      const handler = commands[String(name).toUpperCase()];
+      if (!handler) throw new CommandError(`ERR unknown command '${name}'`);
+      return handler(args);
+    },
+
+    /** Live entries as a JSON-safe array, for persistence. */
+    dump() {
+      const t = now();
+      const out = [];
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt && entry.expiresAt <= t) continue;
+        out.push(dumpEntry(key, entry));
+      }
+      return out;
+    },
+
+    /** One live entry in dump() form, or null. Does not affect recency. */
+    dumpKey(key) {
+      const entry = entries.get(key);
+      if (!entry || (entry.expiresAt && entry.expiresAt <= now())) return null;
+      return dumpEntry(key, entry);
+    },
+
+    /** Restore entries produced by dump(); expired ones are skipped. */
+    load(dumped) {
+      const t = now();
+      for (const item of Array.isArray(dumped) ? dumped : []) {
+        const [key, type, value, expiresAt] = item;
+        if (expiresAt && expiresAt <= t) continue;
+        if (type === 'string') write(key, { type, value: String(value), expiresAt });
+        else if (type === 'zset' && Array.isArray(value)) write(key, { type, value: new Map(value), expiresAt });
+      }
+    },
+
+    get size() {
+      return entries.size;
+    },
+
+    get bytes() {
+      return totalBytes;
+    },
+  };
+}
+
+function dumpEntry(key, entry) {
+  return [key, entry.type, entry.type === 'zset' ? [...entry.value] : entry.value, entry.expiresAt];
+}
+
+/**
+ * Adapt a command store to the CacheBackend interface in ./redis.ts.
+ * onWrite receives the keys each write touched.
+ */
+export function createCacheBackendFromStore(store, id = 'memory', onWrite = () => {}) {
+  return {
+    id,
+    async get(key) {
+      const value = store.execute(['GET', key]);
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value, ttlSeconds) {
+      store.execute(['SET', key, value, 'EX', ttlSeconds]);
+      onWrite([key]);
+    },
+    async mget(keys) {
+      return keys.length ? store.execute(['MGET', ...keys]) : [];
+    },
+    async pipeline(commands) {
+      const results = commands.map((command) => {
+        try {
+          return store.execute(command);
+        } catch {
+          return null;
+        }
+      });
+      const written = commands.flatMap(commandKeys);
+      if (written.length) onWrite(written);
+      return results;
+    },
+  };
+}
+
+export function createMemoryCacheBackend(options = {}) {
+  return createCacheBackendFromStore(createMemoryStore(options), 'memory');
+}
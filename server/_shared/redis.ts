@@ -1,5 +1,8 @@
 declare const process: { env: Record<string, string | undefined> };
 
+// @ts-expect-error — .mjs module, no declaration file
+import { createMemoryCacheBackend } from './memory-cache.mjs';
+
 /**
  * Environment-based key prefix to avoid collisions when multiple deployments
  * share the same Upstash Redis instance (M-6 fix).
@@ -18,70 +21,231 @@ function prefixKey(key: string): string {
   return `${cachedPrefix}${key}`;
 }
 
-export async function getCachedJson(key: string): Promise<unknown | null> {
+/**
+ * Storage driver behind the cache helpers below. Keys arrive already prefixed.
+ * Upstash REST is used when UPSTASH_* is configured, otherwise an in-process
+ * LRU (memory-cache.mjs). The self-hosted Node server can register a file,
+ * SQLite or Redis-protocol driver instead (see server/node/cache-backends.mjs).
+ */
+export interface CacheBackend {
+  readonly id: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  mget(keys: string[]): Promise<Array<string | null>>;
+  /** Raw Redis commands; one result per command (null on error), or null when unavailable. */
+  pipeline(commands: Array<Array<string | number>>, timeoutMs: number): Promise<unknown[] | null>;
+}
+
+function createUpstashBackend(url: string, token: string): CacheBackend {
+  const runPipeline = async (commands: Array<Array<string | number>>, timeoutMs: number): Promise<unknown[] | null> => {
+    const resp = await fetch(`${url}/pipeline`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(commands),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as Array<{ result?: unknown; error?: string }>;
+    return commands.map((_, i) => (data[i]?.error ? null : data[i]?.result ?? null));
+  };
+
+  return {
+    id: 'upstash',
+
+    async get(key) {
+      const resp = await fetch(`${url}/get/${encodeURIComponent(key)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        signal: AbortSignal.timeout(3_000),
+      });
+      if (!resp.ok) return null;
+      const data = (await resp.json()) as { result?: string };
+      return data.result ?? null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      // Atomic SET with EX — single call avoids race between SET and EXPIRE (C-3 fix)
+      await fetch(`${url}/set/${encodeURIComponent(key)}/${encodeURIComponent(value)}/EX/${ttlSeconds}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        signal: AbortSignal.timeout(3_000),
+      });
+    },
+
+    async mget(keys) {
+      // Pipeline of GETs — single HTTP round-trip for N keys
+      const results = await runPipeline(keys.map((k) => ['GET', k]), 3_000);
+      return keys.map((_, i) => (typeof results?.[i] === 'string' ? results[i] as string : null));
+    },
+
+    pipeline: runPipeline,
+  };
+}
+
+let backendOverride: CacheBackend | null = null;
+let memoryBackend: CacheBackend | null = null;
+
+/** Replace the cache backend (null restores the default). */
+export function setCacheBackend(backend: CacheBackend | null): void {
+  backendOverride = backend;
+}
+
+/**
+ * The active backend: an override, Upstash when configured, else the
+ * per-instance memory LRU. Set CACHE_DISABLED=1 to turn caching off.
+ */
+export function getCacheBackend(): CacheBackend | null {
+  if (backendOverride) return backendOverride;
+  if (process.env.CACHE_DISABLED === '1') return null;
   const url = process.env.UPSTASH_REDIS_REST_URL;
   const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (!url || !token) return null;
+  if (url && token) return createUpstashBackend(url, token);
+  memoryBackend ??= createMemoryCacheBackend() as CacheBackend;
+  return memoryBackend;
+}
+
+// ========================================================================
+// Metrics
+// ========================================================================
+
+export interface CacheMetrics {
+  backend: string;
+  /** Reads answered from cache (stale-while-revalidate reads included). */
+  hits: number;
+  misses: number;
+  /** Expired-but-servable entries returned while a refresh ran. */
+  staleHits: number;
+  /** Callers that joined an in-flight fetch instead of starting one. */
+  coalesced: number;
+  writes: number;
+  errors: number;
+  /** hits / (hits + misses), 0 before any read. */
+  hitRate: number;
+}
+
+const counters = { hits: 0, misses: 0, staleHits: 0, coalesced: 0, writes: 0, errors: 0 };
+
+/** Counters since startup (or the last reset) for this instance. */
+export function getCacheMetrics(): CacheMetrics {
+  const reads = counters.hits + counters.misses;
+  return {
+    backend: getCacheBackend()?.id ?? 'none',
+    ...counters,
+    hitRate: reads ? counters.hits / reads : 0,
+  };
+}
+
+export function resetCacheMetrics(): void {
+  for (const name of Object.keys(counters) as Array<keyof typeof counters>) counters[name] = 0;
+}
+
+// ========================================================================
+// JSON helpers
+// ========================================================================
+
+/**
+ * Values written with stale-while-revalidate are wrapped so readers can tell
+ * fresh from stale. getCachedJson unwraps them, so other readers of the key
+ * see the plain value.
+ */
+interface SwrEnvelope {
+  __swr: 1;
+  freshUntil: number;
+  value: unknown;
+}
+
+function isSwrEnvelope(value: unknown): value is SwrEnvelope {
+  return typeof value === 'object' && value !== null && (value as SwrEnvelope).__swr === 1;
+}
+
+async function readCacheEntry(key: string): Promise<{ value: unknown; stale: boolean } | null> {
+  const backend = getCacheBackend();
+  if (!backend) return null;
   try {
-    const resp = await fetch(`${url}/get/${encodeURIComponent(prefixKey(key))}`, {
-      headers: { Authorization: `Bearer ${token}` },
-      signal: AbortSignal.timeout(3_000),
-    });
-    if (!resp.ok) return null;
-    const data = (await resp.json()) as { result?: string };
-    return data.result ? JSON.parse(data.result) : null;
+    const raw = await backend.get(prefixKey(key));
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed === null) {
+      counters.misses++;
+      return null;
+    }
+    counters.hits++;
+    if (isSwrEnvelope(parsed)) return { value: parsed.value, stale: Date.now() >= parsed.freshUntil };
+    return { value: parsed, stale: false };
   } catch {
+    counters.errors++;
     return null;
   }
 }
 
+export async function getCachedJson(key: string): Promise<unknown | null> {
+  return (await readCacheEntry(key))?.value ?? null;
+}
+
 export async function setCachedJson(key: string, value: unknown, ttlSeconds: number): Promise<void> {
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (!url || !token) return;
+  const backend = getCacheBackend();
+  if (!backend) return;
   try {
-    // Atomic SET with EX — single call avoids race between SET and EXPIRE (C-3 fix)
-    await fetch(`${url}/set/${encodeURIComponent(prefixKey(key))}/${encodeURIComponent(JSON.stringify(value))}/EX/${ttlSeconds}`, {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${token}` },
-      signal: AbortSignal.timeout(3_000),
-    });
-  } catch { /* best-effort */ }
+    await backend.set(prefixKey(key), JSON.stringify(value), ttlSeconds);
+    counters.writes++;
+  } catch {
+    counters.errors++;
+  }
 }
 
 /**
- * Batch GET using Upstash pipeline API — single HTTP round-trip for N keys.
+ * Batch GET — a single round-trip for N keys.
  * Returns a Map of key → parsed JSON value (missing/failed keys omitted).
  */
 export async function getCachedJsonBatch(keys: string[]): Promise<Map<string, unknown>> {
   const result = new Map<string, unknown>();
   if (keys.length === 0) return result;
 
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (!url || !token) return result;
+  const backend = getCacheBackend();
+  if (!backend) return result;
 
   try {
-    const pipeline = keys.map((k) => ['GET', prefixKey(k)]);
-    const resp = await fetch(`${url}/pipeline`, {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify(pipeline),
-      signal: AbortSignal.timeout(3_000),
-    });
-    if (!resp.ok) return result;
-
-    const data = (await resp.json()) as Array<{ result?: string }>;
+    const values = await backend.mget(keys.map(prefixKey));
     for (let i = 0; i < keys.length; i++) {
-      const raw = data[i]?.result;
-      if (raw) {
-        try { result.set(keys[i]!, JSON.parse(raw)); } catch { /* skip malformed */ }
+      const raw = values[i];
+      if (!raw) {
+        counters.misses++;
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(raw);
+        result.set(keys[i]!, isSwrEnvelope(parsed) ? parsed.value : parsed);
+        counters.hits++;
+      } catch {
+        counters.errors++; // skip malformed
       }
     }
-  } catch { /* best-effort */ }
+  } catch {
+    counters.errors++;
+  }
   return result;
 }
 
+/**
+ * Run raw commands through the backend's pipeline. Arguments travel in the
+ * request body, so this suits values too large for the URL-encoded SET above.
+ * The second element of each command (the key) gets the deployment prefix.
+ * Returns one result per command, or null when the cache is unavailable.
+ */
+export async function runRedisPipeline(
+  commands: Array<Array<string | number>>,
+  timeoutMs = 5_000,
+): Promise<unknown[] | null> {
+  const backend = getCacheBackend();
+  if (!backend || commands.length === 0) return null;
+
+  try {
+    const pipeline = commands.map(([cmd, key, ...args]) => [cmd!, prefixKey(String(key)), ...args.map(String)]);
+    return await backend.pipeline(pipeline, timeoutMs);
+  } catch {
+    counters.errors++;
+    return null;
+  }
+}
+
 /**
  * In-flight request coalescing map.
  * When multiple concurrent requests hit the same cache key during a miss,
@@ -90,25 +254,38 @@ export async function getCachedJsonBatch(keys: string[]): Promise<Map<string, un
  */
 const inflight = new Map<string, Promise<unknown>>();
 
-/**
- * Check cache, then fetch with coalescing on miss.
- * Concurrent callers for the same key share a single upstream fetch + Redis write.
- */
-export async function cachedFetchJson<T>(
+export interface CachedFetchOptions {
+  /**
+   * Keep serving the value for this many seconds after ttlSeconds expires,
+   * refreshing it in the background. Callers get the stale value at once;
+   * only one refresh runs per key.
+   */
+  staleWhileRevalidateSeconds?: number;
+}
+
+/** Start (or join) the upstream fetch for key and write its result to the cache. */
+function fetchAndStore<T>(
   key: string,
   ttlSeconds: number,
   fetcher: () => Promise<T>,
-): Promise<T | null> {
-  const cached = await getCachedJson(key);
-  if (cached !== null) return cached as T;
-
+  options: CachedFetchOptions,
+): Promise<T> {
   const existing = inflight.get(key);
-  if (existing) return existing as Promise<T>;
+  if (existing) {
+    counters.coalesced++;
+    return existing as Promise<T>;
+  }
 
+  const swrSeconds = options.staleWhileRevalidateSeconds ?? 0;
   const promise = fetcher()
     .then(async (result) => {
       if (result != null) {
-        await setCachedJson(key, result, ttlSeconds);
+        if (swrSeconds > 0) {
+          const envelope: SwrEnvelope = { __swr: 1, freshUntil: Date.now() + ttlSeconds * 1000, value: result };
+          await setCachedJson(key, envelope, ttlSeconds + swrSeconds);
+        } else {
+          await setCachedJson(key, result, ttlSeconds);
+        }
       }
       return result;
     })
@@ -120,41 +297,52 @@ export async function cachedFetchJson<T>(
   return promise;
 }
 
+function revalidateInBackground<T>(key: string, ttlSeconds: number, fetcher: () => Promise<T>, options: CachedFetchOptions): void {
+  counters.staleHits++;
+  if (inflight.has(key)) return;
+  fetchAndStore(key, ttlSeconds, fetcher, options).catch((err) => {
+    console.warn(`[cache] background refresh of ${key} failed:`, err instanceof Error ? err.message : err);
+  });
+}
+
+/**
+ * Check cache, then fetch with coalescing on miss.
+ * Concurrent callers for the same key share a single upstream fetch + Redis write.
+ */
+export async function cachedFetchJson<T>(
+  key: string,
+  ttlSeconds: number,
+  fetcher: () => Promise<T>,
+  options: CachedFetchOptions = {},
+): Promise<T | null> {
+  const cached = await readCacheEntry(key);
+  if (cached) {
+    if (cached.stale) revalidateInBackground(key, ttlSeconds, fetcher, options);
+    return cached.value as T;
+  }
+  return fetchAndStore(key, ttlSeconds, fetcher, options);
+}
+
 /**
  * Like cachedFetchJson but reports the data source.
  * Use when callers need to distinguish cache hits from fresh fetches
  * (e.g. to set provider/cached metadata on responses).
  *
  * Returns { data, source } where source is:
- *   'cache'  — served from Redis
+ *   'cache'  — served from Redis (including stale-while-revalidate reads)
  *   'fresh'  — fetcher ran (leader) or joined an in-flight fetch (follower)
  */
 export async function cachedFetchJsonWithMeta<T>(
   key: string,
   ttlSeconds: number,
   fetcher: () => Promise<T>,
+  options: CachedFetchOptions = {},
 ): Promise<{ data: T | null; source: 'cache' | 'fresh' }> {
-  const cached = await getCachedJson(key);
-  if (cached !== null) return { data: cached as T, source: 'cache' };
-
-  const existing = inflight.get(key);
-  if (existing) {
-    const data = (await existing) as T;
-    return { data, source: 'fresh' };
+  const cached = await readCacheEntry(key);
+  if (cached) {
+    if (cached.stale) revalidateInBackground(key, ttlSeconds, fetcher, options);
+    return { data: cached.value as T, source: 'cache' };
   }
-
-  const promise = fetcher()
-    .then(async (result) => {
-      if (result != null) {
-        await setCachedJson(key, result, ttlSeconds);
-      }
-      return result;
-    })
-    .finally(() => {
-      inflight.delete(key);
-    });
-
-  inflight.set(key, promise);
-  const data = await promise;
+  const data = await fetchAndStore(key, ttlSeconds, fetcher, options);
   return { data, source: 'fresh' };
 }
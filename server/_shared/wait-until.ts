@@ -0,0 +1,22 @@
+/**
+ * Keep work alive after the response is sent.
+ *
+ * Vercel edge functions may be frozen once the handler returns, so a promise
+ * left running would never settle unless it is handed to the platform's
+ * waitUntil. The gateway binds that hook to each incoming Request; handlers
+ * reach it through ctx.request. On Node (self-hosted server, desktop sidecar)
+ * nothing is bound and the process simply keeps running the work.
+ */
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+const hooks = new WeakMap<Request, WaitUntil>();
+
+export function bindWaitUntil(request: Request, waitUntil: WaitUntil): void {
+  hooks.set(request, waitUntil);
+}
+
+export function waitUntil(request: Request, promise: Promise<unknown>): void {
+  const settled = promise.catch(() => {});
+  hooks.get(request)?.(settled);
+}
@@ -0,0 +1,34 @@
+/**
+ * STIX objects behind the self-hosted server's TAXII collection
+ * (server/node/taxii.mjs).
+ *
+ * Lists the cyber layer's threats in-process through the RPC gateway, maps
+ * them with the browser's adapter and exports them with the same STIX
+ * builder and APT attribution as the dashboard's export buttons, so SOC
+ * tooling ingests exactly what analysts see on the map.
+ */
+
+import handleRpc from '../../api/[domain]/v1/[rpc]';
+import { CyberServiceClient } from '../../src/generated/client/worldmonitor/cyber/v1/service_client';
+import { toCyberThreat } from '../../src/services/cyber/adapter';
+import { attributeThreat } from '../../src/services/cyber/pivot';
+import { toStixObjects, type StixObject } from '../../src/services/cyber/stix';
+
+const GATEWAY_ORIGIN = 'http://self-host.local';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inProcessFetch = (input: RequestInfo | URL, init?: RequestInit) => handleRpc(new Request(input, init));
+const cyber = new CyberServiceClient(GATEWAY_ORIGIN, { fetch: inProcessFetch as typeof fetch });
+
+export async function listCyberStixObjects(options: { days?: number; limit?: number; now?: Date } = {}): Promise<StixObject[]> {
+  const now = options.now ?? new Date();
+  const { threats } = await cyber.listCyberThreats({
+    timeRange: { start: now.getTime() - (options.days ?? 14) * DAY_MS, end: now.getTime() },
+    pagination: { pageSize: options.limit ?? 1000, cursor: '' },
+    type: 'CYBER_THREAT_TYPE_UNSPECIFIED',
+    source: 'CYBER_THREAT_SOURCE_UNSPECIFIED',
+    minSeverity: 'CRITICALITY_LEVEL_UNSPECIFIED',
+    country: '',
+  });
+  return toStixObjects(threats.map(toCyberThreat), { now, attribute: attributeThreat });
+}
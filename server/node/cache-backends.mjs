@@ -0,0 +1,338 @@
+/**
+ * Cache backends for the self-hosted server.
+ *
+ *   memory  — in-process LRU (server/_shared/memory-cache.mjs)
+ *   file    — the memory store, snapshotted to CACHE_DIR/cache.json
+ *   sqlite  — the memory store, written through to CACHE_DIR/cache.sqlite
+ *   redis   — any server speaking the Redis protocol (REDIS_URL)
+ *   upstash — keep the Upstash REST default (UPSTASH_REDIS_REST_*)
+ *
+ * Each implements the CacheBackend interface from server/_shared/redis.ts.
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  DEFAULT_MAX_BYTES,
+  DEFAULT_MAX_ENTRIES,
+  createCacheBackendFromStore,
+  createMemoryCacheBackend,
+  createMemoryStore,
+} from '../_shared/memory-cache.mjs';
+
+const FILE_FLUSH_DELAY_MS = 1_000;
+// Self-hosted processes own their memory, so allow more than the edge default
+const SELF_HOST_MAX_BYTES = 256 * 1024 * 1024;
+const REDIS_CONNECT_TIMEOUT_MS = 5_000;
+
+// ========================================================================
+// File backend
+// ========================================================================
+
+/**
+ * Memory store persisted as one JSON snapshot, written at most once per
+ * second after changes and on flush(). Restored (minus expired entries) on
+ * startup, so cached upstream data and playback snapshots survive restarts.
+ */
+export function createFileCacheBackend(dir, { maxEntries = DEFAULT_MAX_ENTRIES, maxBytes = DEFAULT_MAX_BYTES, logger = console } = {}) {
+  const file = path.join(dir, 'cache.json');
+  const store = createMemoryStore({ maxEntries, maxBytes });
+  mkdirSync(dir, { recursive: true });
+  try {
+    store.load(JSON.parse(readFileSync(file, 'utf-8')));
+  } catch (error) {
+    if (error.code !== 'ENOENT') logger.warn(`[cache] ignoring unreadable ${file}: ${error.message}`);
+  }
+
+  let timer = null;
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(store.dump()));
+    renameSync(tmp, file);
+  };
+  const scheduleFlush = () => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      try { flush(); } catch (error) { logger.error(`[cache] failed to write ${file}: ${error.message}`); }
+    }, FILE_FLUSH_DELAY_MS);
+    timer.unref?.();
+  };
+
+  return { ...createCacheBackendFromStore(store, 'file', scheduleFlush), flush };
+}
+
+// ========================================================================
+// SQLite backend
+// ========================================================================
+
+/**
+ * Memory store written through to SQLite: every write command persists the
+ * keys it touched, and evictions delete their rows, so the database mirrors
+ * the LRU without rewriting a snapshot. Needs node:sqlite (Node 22.5+).
+ */
+export function createSqliteCacheBackend(file, { maxEntries = DEFAULT_MAX_ENTRIES, maxBytes = DEFAULT_MAX_BYTES } = {}) {
+  const sqlite = process.getBuiltinModule?.('node:sqlite');
+  if (!sqlite) throw new Error('CACHE_BACKEND=sqlite requires Node 22.5 or newer (node:sqlite)');
+  mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new sqlite.DatabaseSync(file);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS cache (
+      key TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+  `);
+  db.prepare('DELETE FROM cache WHERE expires_at > 0 AND expires_at <= ?').run(Date.now());
+  const upsert = db.prepare('INSERT OR REPLACE INTO cache (key, type, value, expires_at) VALUES (?, ?, ?, ?)');
+  const remove = db.prepare('DELETE FROM cache WHERE key = ?');
+
+  let loading = true;
+  const store = createMemoryStore({
+    maxEntries,
+    maxBytes,
+    onEvict: (key) => { if (!loading) remove.run(key); },
+  });
+  const rows = db.prepare('SELECT key, type, value, expires_at FROM cache').all();
+  store.load(rows.map((row) => [row.key, row.type, row.type === 'zset' ? JSON.parse(row.value) : row.value, row.expires_at]));
+  loading = false;
+  // Rows the LRU could not hold on startup
+  if (store.size < rows.length) {
+    for (const row of rows) if (!store.dumpKey(row.key)) remove.run(row.key);
+  }
+
+  const persist = (keys) => {
+    for (const key of new Set(keys)) {
+      const entry = store.dumpKey(key);
+      if (!entry) {
+        remove.run(key);
+        continue;
+      }
+      const [, type, value, expiresAt] = entry;
+      upsert.run(key, type, type === 'zset' ? JSON.stringify(value) : value, expiresAt);
+    }
+  };
+
+  return { ...createCacheBackendFromStore(store, 'sqlite', persist), close: () => db.close() };
+}
+
+// ========================================================================
+// Redis protocol (RESP2) backend
+// ========================================================================
+
+export function encodeCommand(args) {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+export class RespError extends Error {}
+
+/**
+ * Parse one RESP2 reply from buf at offset. Returns { value, offset } or
+ * null when the buffer does not yet hold a complete reply. Error replies are
+ * returned as RespError values.
+ */
+export function parseReply(buf, offset = 0) {
+  const lineEnd = buf.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const len = Number(line);
+      if (len === -1) return { value: null, offset: next };
+      if (buf.length < next + len + 2) return null;
+      return { value: buf.toString('utf8', next, next + len), offset: next + len + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items = [];
+      let pos = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, pos);
+        if (!item) return null;
+        items.push(item.value);
+        pos = item.offset;
+      }
+      return { value: items, offset: pos };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte ${JSON.stringify(type)}`);
+  }
+}
+
+/**
+ * Minimal pipelining client. One connection, replies matched to requests in
+ * order; the connection is re-opened lazily after errors.
+ */
+export function createRedisConnection(redisUrl, { logger = console } = {}) {
+  const url = new URL(redisUrl);
+  const secure = url.protocol === 'rediss:';
+  const port = Number(url.port) || 6379;
+  const db = Number(url.pathname.slice(1)) || 0;
+
+  let socket = null;
+  let ready = null;
+  let buffer = Buffer.alloc(0);
+  const pending = [];
+
+  const fail = (error) => {
+    socket?.destroy();
+    socket = null;
+    ready = null;
+    buffer = Buffer.alloc(0);
+    while (pending.length) pending.shift().reject(error);
+  };
+
+  const onData = (chunk) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    let reply;
+    try {
+      while (pending.length && (reply = parseReply(buffer))) {
+        buffer = buffer.subarray(reply.offset);
+        pending.shift().resolve(reply.value);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const send = (commands) => {
+    const replies = commands.map(() => new Promise((resolve, reject) => pending.push({ resolve, reject })));
+    socket.write(commands.map(encodeCommand).join(''));
+    return Promise.all(replies);
+  };
+
+  const connect = () => {
+    if (ready) return ready;
+    ready = new Promise((resolve, reject) => {
+      const options = { host: url.hostname, port, servername: secure ? url.hostname : undefined };
+      const s = secure ? tls.connect(options) : net.connect(options);
+      const timer = setTimeout(() => s.destroy(new Error('Redis connect timeout')), REDIS_CONNECT_TIMEOUT_MS);
+      s.once(secure ? 'secureConnect' : 'connect', async () => {
+        clearTimeout(timer);
+        socket = s;
+        try {
+          const setup = [];
+          if (url.password) {
+            setup.push(url.username
+              ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+              : ['AUTH', decodeURIComponent(url.password)]);
+          }
+          if (db) setup.push(['SELECT', db]);
+          const results = setup.length ? await send(setup) : [];
+          const error = results.find((r) => r instanceof RespError);
+          if (error) throw error;
+          resolve();
+        } catch (error) {
+          fail(error);
+          reject(error);
+        }
+      });
+      s.on('data', onData);
+      s.on('error', (error) => {
+        clearTimeout(timer);
+        logger.warn(`[cache] redis connection error: ${error.message}`);
+        fail(error);
+        reject(error);
+      });
+      s.on('close', () => fail(new Error('Redis connection closed')));
+    });
+    return ready;
+  };
+
+  return {
+    /** Send commands as one pipeline; resolves with one reply per command. */
+    async pipeline(commands, timeoutMs = 5_000) {
+      await connect();
+      let timer;
+      const timeout = new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Redis pipeline timeout')), timeoutMs);
+      });
+      try {
+        return await Promise.race([send(commands), timeout]);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    close() {
+      socket?.end();
+      socket = null;
+      ready = null;
+    },
+  };
+}
+
+export function createRedisCacheBackend(redisUrl, options = {}) {
+  const conn = createRedisConnection(redisUrl, options);
+  const replyValue = (reply) => (reply instanceof RespError ? null : reply);
+  return {
+    id: 'redis',
+    async get(key) {
+      const [value] = await conn.pipeline([['GET', key]], 3_000);
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value, ttlSeconds) {
+      await conn.pipeline([['SET', key, value, 'EX', ttlSeconds]], 3_000);
+    },
+    async mget(keys) {
+      if (keys.length === 0) return [];
+      const [values] = await conn.pipeline([['MGET', ...keys]], 3_000);
+      return Array.isArray(values) ? values.map((v) => (typeof v === 'string' ? v : null)) : keys.map(() => null);
+    },
+    async pipeline(commands, timeoutMs) {
+      return (await conn.pipeline(commands, timeoutMs)).map(replyValue);
+    },
+    close: () => conn.close(),
+  };
+}
+
+// ========================================================================
+// Selection
+// ========================================================================
+
+/**
+ * Build the backend named by CACHE_BACKEND. Without it, Upstash is kept when
+ * configured, then REDIS_URL, then memory. Returns null for "upstash" so the
+ * gateway's built-in default applies.
+ */
+export function createCacheBackendFromEnv(env = process.env, { logger = console } = {}) {
+  const maxEntries = Number(env.CACHE_MAX_ENTRIES) > 0 ? Number(env.CACHE_MAX_ENTRIES) : DEFAULT_MAX_ENTRIES;
+  const maxBytes = Number(env.CACHE_MAX_BYTES) > 0 ? Number(env.CACHE_MAX_BYTES) : SELF_HOST_MAX_BYTES;
+  const cacheDir = env.CACHE_DIR || path.join(process.cwd(), '.cache', 'worldmonitor');
+  const fallback = env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN ? 'upstash' : env.REDIS_URL ? 'redis' : 'memory';
+  const id = (env.CACHE_BACKEND || fallback).toLowerCase();
+  switch (id) {
+    case 'upstash':
+      return null;
+    case 'redis':
+      if (!env.REDIS_URL) throw new Error('CACHE_BACKEND=redis requires REDIS_URL');
+      return createRedisCacheBackend(env.REDIS_URL, { logger });
+    case 'file':
+      return createFileCacheBackend(cacheDir, { maxEntries, maxBytes, logger });
+    case 'sqlite':
+      return createSqliteCacheBackend(path.join(cacheDir, 'cache.sqlite'), { maxEntries, maxBytes });
+    case 'memory':
+      return createMemoryCacheBackend({ maxEntries, maxBytes });
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${id}" (expected memory, file, sqlite, redis or upstash)`);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * On-disk playback snapshot store for the self-hosted server.
+ *
+ * Playback snapshots are up to ~900 KB each, so keeping a year of them in
+ * the cache LRU (CACHE_MAX_BYTES) would evict everything else long before
+ * retention is reached. This store writes each snapshot to its own file
+ * instead:
+ *
+ *   <dir>/<variant>/<bucket>.json   payload
+ *   <dir>/<variant>/index.log       one "<timestamp>:<sizeBytes>" line per snapshot
+ *
+ * It implements the SnapshotStore interface from
+ * server/worldmonitor/playback/v1/_store.ts; server.mjs registers it through
+ * the gateway's setSnapshotStore() hook.
+ */
+
+import { appendFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  bucketStart,
+  decodeIndexMember,
+  encodeIndexMember,
+  parsePositiveInt,
+  DEFAULT_RETENTION_DAYS,
+} from '../worldmonitor/playback/v1/_snapshots.mjs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INDEX_FILE = 'index.log';
+
+export function createFileSnapshotStore(dir, { retentionDays = DEFAULT_RETENTION_DAYS, logger = console } = {}) {
+  // variant -> Promise<Map<bucket, { timestamp, sizeBytes }>>
+  const indexes = new Map();
+
+  const variantDir = (variant) => path.join(dir, variant);
+  const payloadFile = (variant, bucket) => path.join(variantDir(variant), `${bucket}.json`);
+  const indexFile = (variant) => path.join(variantDir(variant), INDEX_FILE);
+
+  async function loadIndex(variant) {
+    const entries = new Map();
+    await mkdir(variantDir(variant), { recursive: true });
+    let text = '';
+    try {
+      text = await readFile(indexFile(variant), 'utf-8');
+    } catch (error) {
+      if (error.code !== 'ENOENT') logger.warn(`[playback] ignoring unreadable ${indexFile(variant)}: ${error.message}`);
+    }
+    for (const line of text.split('\n')) {
+      const entry = decodeIndexMember(line);
+      if (entry) entries.set(bucketStart(entry.timestamp), entry);
+    }
+    return entries;
+  }
+
+  function indexOf(variant) {
+    if (!indexes.has(variant)) indexes.set(variant, loadIndex(variant));
+    return indexes.get(variant);
+  }
+
+  /** Delete snapshots past retention and rewrite the index without them. */
+  async function prune(variant, entries) {
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const expired = [...entries.keys()].filter((bucket) => entries.get(bucket).timestamp < cutoff);
+    if (!expired.length) return;
+    for (const bucket of expired) entries.delete(bucket);
+    await Promise.all(expired.map((bucket) => rm(payloadFile(variant, bucket), { force: true })));
+    const lines = [...entries.values()].map((e) => `${encodeIndexMember(e.timestamp, e.sizeBytes)}\n`).join('');
+    await writeFile(indexFile(variant), lines);
+  }
+
+  const sorted = (entries) => [...entries.values()].sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    id: 'file',
+
+    async put(variant, timestamp, payload, sizeBytes) {
+      const entries = await indexOf(variant);
+      const bucket = bucketStart(timestamp);
+      if (entries.has(bucket)) return false;
+      // Claim the bucket before awaiting so a concurrent put for it sees it taken
+      entries.set(bucket, { timestamp, sizeBytes });
+      try {
+        await writeFile(payloadFile(variant, bucket), payload, { flag: 'wx' });
+      } catch (error) {
+        if (error.code === 'EEXIST') return false;
+        entries.delete(bucket);
+        throw error;
+      }
+      await appendFile(indexFile(variant), `${encodeIndexMember(timestamp, sizeBytes)}\n`);
+      await prune(variant, entries);
+      return true;
+    },
+
+    async list(variant, from, to) {
+      return sorted(await indexOf(variant)).filter((e) => e.timestamp >= from && e.timestamp <= to);
+    },
+
+    async bounds(variant) {
+      const all = sorted(await indexOf(variant));
+      return { earliest: all[0]?.timestamp ?? 0, latest: all[all.length - 1]?.timestamp ?? 0 };
+    },
+
+    async get(variant, bucket) {
+      if (!(await indexOf(variant)).has(bucket)) return null;
+      try {
+        return await readFile(payloadFile(variant, bucket), 'utf-8');
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Build the file store when PLAYBACK_STORE=file, or by default when the cache
+ * itself is on disk (CACHE_BACKEND=file|sqlite). Returns null when the
+ * gateway's own PLAYBACK_STORE resolution applies.
+ */
+export function createPlaybackStoreFromEnv(env = process.env, { logger = console } = {}) {
+  const requested = (env.PLAYBACK_STORE || '').toLowerCase();
+  const cacheBackend = (env.CACHE_BACKEND || '').toLowerCase();
+  if (requested !== 'file' && (requested || !['file', 'sqlite'].includes(cacheBackend))) return null;
+
+  const cacheDir = env.CACHE_DIR || path.join(process.cwd(), '.cache', 'worldmonitor');
+  const dir = env.PLAYBACK_DIR || path.join(cacheDir, 'playback');
+  const retentionDays = parsePositiveInt(env.PLAYBACK_RETENTION_DAYS, DEFAULT_RETENTION_DAYS);
+  return createFileSnapshotStore(dir, { retentionDays, logger });
+}
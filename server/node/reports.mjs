@@ -0,0 +1,226 @@
+/**
+ * Scheduled intelligence reports for the self-hosted server.
+ *
+ * Templates pushed from the report builder are kept in
+ * REPORTS_DIR/templates.json; a once-a-minute tick generates any that are
+ * due (via the gateway bundle's generateReport) and writes them to
+ * REPORTS_DIR/files. Off unless REPORTS_ENABLED=true: the endpoints are not
+ * authenticated, so only enable them on a trusted network. Manual runs are
+ * limited to one at a time and one per template per MANUAL_RUN_INTERVAL_MS.
+ *
+ *   GET    /api/reports/templates
+ *   PUT    /api/reports/templates/:id
+ *   DELETE /api/reports/templates/:id
+ *   POST   /api/reports/templates/:id/run
+ *   GET    /api/reports/files
+ *   GET    /api/reports/files/:name
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export const MAX_TEMPLATES = 20;
+export const MAX_FILES_PER_TEMPLATE = 30;
+const TICK_INTERVAL_MS = 60_000;
+const MANUAL_RUN_INTERVAL_MS = 60_000;
+// Template ids come from the client; keep them safe to use in file names.
+const TEMPLATE_ID = /^[A-Za-z0-9_-]{1,64}$/;
+const FILE_SEPARATOR = '__';
+
+const FILE_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+};
+
+function json(data, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * @param {object} options
+ * @param {object} options.gateway  dist-server/gateway.mjs exports
+ * @param {string} options.dir      reports directory
+ */
+export function createReportService({ gateway, dir, logger = console, now = () => Date.now(), tickIntervalMs = TICK_INTERVAL_MS }) {
+  const templatesFile = path.join(dir, 'templates.json');
+  const filesDir = path.join(dir, 'files');
+  mkdirSync(filesDir, { recursive: true });
+
+  let templates = [];
+  try {
+    const stored = JSON.parse(readFileSync(templatesFile, 'utf-8'));
+    templates = (Array.isArray(stored) ? stored : []).map((t) => gateway.normalizeTemplate(t)).filter(Boolean);
+  } catch (error) {
+    if (error.code !== 'ENOENT') logger.warn(`[reports] ignoring unreadable ${templatesFile}: ${error.message}`);
+  }
+
+  const persist = () => {
+    const tmp = `${templatesFile}.tmp`;
+    writeFileSync(tmp, JSON.stringify(templates, null, 2));
+    renameSync(tmp, templatesFile);
+  };
+
+  const update = (id, changes) => {
+    templates = templates.map((t) => (t.id === id ? { ...t, ...changes } : t));
+    persist();
+  };
+
+  async function listFiles() {
+    const files = [];
+    for (const name of await readdir(filesDir).catch(() => [])) {
+      const sep = name.indexOf(FILE_SEPARATOR);
+      if (sep <= 0 || !FILE_TYPES[path.extname(name)]) continue;
+      const info = await stat(path.join(filesDir, name)).catch(() => null);
+      if (info) files.push({ name, templateId: name.slice(0, sep), size: info.size, createdAt: info.mtimeMs });
+    }
+    return files.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async function prune(templateId) {
+    const old = (await listFiles()).filter((f) => f.templateId === templateId).slice(MAX_FILES_PER_TEMPLATE);
+    await Promise.all(old.map((f) => unlink(path.join(filesDir, f.name)).catch(() => {})));
+  }
+
+  async function run(template, { scheduled = false } = {}) {
+    const startedAt = now();
+    try {
+      const { report, lastOdds } = await gateway.generateReport(template, new Date(startedAt));
+      const { filename, content } = gateway.renderReportFile(report, template.format);
+      const name = `${template.id}${FILE_SEPARATOR}${filename}`;
+      await writeFile(path.join(filesDir, name), content);
+      await prune(template.id);
+      update(template.id, { ...(scheduled && { lastRunAt: startedAt }), ...(lastOdds && { lastOdds }) });
+      const info = await stat(path.join(filesDir, name));
+      return { name, templateId: template.id, size: info.size, createdAt: info.mtimeMs };
+    } catch (error) {
+      // Advance the schedule anyway so a failing template is not retried every tick.
+      if (scheduled) update(template.id, { lastRunAt: startedAt });
+      throw error;
+    }
+  }
+
+  // template id -> time of its last manual run
+  const manualRuns = new Map();
+  let manualRunning = false;
+
+  async function runNow(template) {
+    const at = now();
+    const wait = (manualRuns.get(template.id) ?? -Infinity) + MANUAL_RUN_INTERVAL_MS - at;
+    if (manualRunning || wait > 0) {
+      return new Response(JSON.stringify({ error: 'A report was run too recently; try again shortly' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(Math.max(1, Math.ceil(wait / 1000))) },
+      });
+    }
+    manualRunning = true;
+    manualRuns.set(template.id, at);
+    try {
+      return json({ report: await run(template) });
+    } finally {
+      manualRunning = false;
+    }
+  }
+
+  let running = false;
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      const at = now();
+      for (const template of templates.filter((t) => gateway.isReportDue(t, at))) {
+        try {
+          const file = await run(template, { scheduled: true });
+          logger.log(`[reports] generated ${file.name}`);
+        } catch (error) {
+          logger.error(`[reports] "${template.name}" failed:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  async function handle(request) {
+    const { pathname } = new URL(request.url);
+    const parts = pathname.replace(/^\/api\/reports\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+    const method = request.method;
+
+    if (parts[0] === 'templates') {
+      const id = parts[1];
+      if (!id) {
+        return method === 'GET' ? json({ templates }) : json({ error: 'Method not allowed' }, 405);
+      }
+      if (!TEMPLATE_ID.test(id)) return json({ error: 'Invalid template id' }, 400);
+      const existing = templates.find((t) => t.id === id);
+
+      if (parts[2] === 'run' && method === 'POST') {
+        if (!existing) return json({ error: 'Template not found' }, 404);
+        return runNow(existing);
+      }
+      if (parts.length > 2) return json({ error: 'Not found' }, 404);
+
+      if (method === 'PUT') {
+        const body = await request.json().catch(() => null);
+        const template = gateway.normalizeTemplate({ ...body, id });
+        if (!template) return json({ error: 'A report template needs a name and at least one section' }, 400);
+        if (!existing && templates.length >= MAX_TEMPLATES) return json({ error: `At most ${MAX_TEMPLATES} templates` }, 400);
+        // The server keeps its own run history: a template pushed for the first
+        // time starts its schedule now rather than catching up on missed runs.
+        const { lastRunAt: _clientRunAt, lastOdds: _clientOdds, ...fields } = template;
+        const saved = {
+          ...fields,
+          lastRunAt: existing?.lastRunAt ?? now(),
+          ...(existing?.lastOdds && { lastOdds: existing.lastOdds }),
+        };
+        templates = existing ? templates.map((t) => (t.id === id ? saved : t)) : [...templates, saved];
+        persist();
+        return json({ template: saved });
+      }
+      if (method === 'DELETE') {
+        templates = templates.filter((t) => t.id !== id);
+        persist();
+        return json({ ok: true });
+      }
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    if (parts[0] === 'files' && method === 'GET') {
+      if (!parts[1]) return json({ reports: await listFiles() });
+      const name = parts[1];
+      const type = FILE_TYPES[path.extname(name)];
+      if (parts.length > 2 || !type || name !== path.basename(name) || !existsSync(path.join(filesDir, name))) {
+        return json({ error: 'Not found' }, 404);
+      }
+      return new Response(await readFile(path.join(filesDir, name)), {
+        headers: { 'Content-Type': type, 'Cache-Control': 'no-cache' },
+      });
+    }
+
+    return json({ error: 'Not found' }, 404);
+  }
+
+  let timer = null;
+  return {
+    handle,
+    tick,
+    start() {
+      if (!timer) timer = setInterval(() => { void tick(); }, tickIntervalMs);
+      timer.unref?.();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/** Reports need the gateway bundle; returns null unless enabled and available. */
+export function createReportServiceFromEnv(gateway, env = process.env, { logger = console } = {}) {
+  if (env.REPORTS_ENABLED !== 'true' || typeof gateway?.generateReport !== 'function') return null;
+  const dir = env.REPORTS_DIR || path.join(process.cwd(), '.cache', 'worldmonitor', 'reports');
+  return createReportService({ gateway, dir, logger });
+}
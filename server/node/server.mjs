@@ -0,0 +1,343 @@
+#!/usr/bin/env node
+/**
+ * Self-hosted single-process server.
+ *
+ * Serves the sebuf RPC gateway (every create*ServiceRoutes router, from the
+ * dist-server/gateway.mjs bundle), the legacy api/*.js endpoints, and the
+ * built frontend (dist/) from one Node process. The cache backend is chosen
+ * by CACHE_BACKEND — see ./cache-backends.mjs — and playback snapshots go to
+ * disk when the cache does — see ./playback-store.mjs. Optional scheduled
+ * intelligence reports are served under /api/reports — see ./reports.mjs —
+ * and the optional TAXII 2.1 collection of cyber indicators under /taxii2 —
+ * see ./taxii.mjs.
+ *
+ * Build: npm run build && npm run build:server
+ * Run:   npm run start:server
+ */
+
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createCacheBackendFromEnv } from './cache-backends.mjs';
+import { createPlaybackStoreFromEnv } from './playback-store.mjs';
+import { createReportServiceFromEnv } from './reports.mjs';
+import { createTaxiiServiceFromEnv, TAXII_PREFIX } from './taxii.mjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, '..', '..');
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const RPC_PATH = /^\/api\/[a-z][a-z0-9-]*\/v1\/[a-z0-9-]+$/;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+};
+
+class PayloadTooLargeError extends Error {}
+
+function json(data, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// ========================================================================
+// Legacy api/*.js routes
+// ========================================================================
+
+function isBracketSegment(segment) {
+  return segment.startsWith('[') && segment.endsWith(']');
+}
+
+function routePriority(routePath) {
+  return routePath.split('/').filter(Boolean).reduce((score, part) => {
+    if (part.startsWith('[...') || part.startsWith('[[...')) return score + 1;
+    if (isBracketSegment(part)) return score + 2;
+    return score + 10;
+  }, 0);
+}
+
+/** Match a route path such as "youtube/[id]" against "/api/youtube/abc". */
+export function matchRoute(routePath, pathname) {
+  const routeParts = routePath.split('/').filter(Boolean);
+  const pathParts = pathname.replace(/^\/api/, '').split('/').filter(Boolean);
+  for (let i = 0; i < routeParts.length; i++) {
+    const part = routeParts[i];
+    if (part.startsWith('[[...')) return true;
+    if (part.startsWith('[...')) return i < pathParts.length;
+    if (i >= pathParts.length) return false;
+    if (!isBracketSegment(part) && part !== pathParts[i]) return false;
+  }
+  return routeParts.length === pathParts.length;
+}
+
+/**
+ * Collect api/**\/*.js handlers, most specific first. Skips private modules
+ * (_*), tests, and the [domain] gateway, which the bundle serves instead.
+ */
+export async function buildRouteTable(apiDir) {
+  if (!existsSync(apiDir)) return [];
+  const routes = [];
+  async function walk(dir) {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('_') || entry.name === '[domain]') continue;
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(absolute);
+        continue;
+      }
+      if (!entry.name.endsWith('.js') || entry.name.includes('.test.')) continue;
+      const relative = path.relative(apiDir, absolute).replace(/\\/g, '/');
+      routes.push({ routePath: relative.replace(/\.js$/, '').replace(/\/index$/, ''), modulePath: absolute });
+    }
+  }
+  await walk(apiDir);
+  return routes.sort((a, b) => routePriority(b.routePath) - routePriority(a.routePath));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new PayloadTooLargeError('Request body too large');
+    chunks.push(chunk);
+  }
+  return chunks.length ? Buffer.concat(chunks) : undefined;
+}
+
+function toHeaders(nodeHeaders) {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(nodeHeaders)) {
+    if (Array.isArray(value)) value.forEach((v) => headers.append(key, v));
+    else if (typeof value === 'string') headers.set(key, value);
+  }
+  return headers;
+}
+
+async function toRequest(requestUrl, req) {
+  const body = ['GET', 'HEAD'].includes(req.method) ? undefined : await readBody(req);
+  return new Request(requestUrl.toString(), { method: req.method, headers: toHeaders(req.headers), body });
+}
+
+/**
+ * Node-style handlers ((req, res), e.g. api/story.js) get the raw objects
+ * plus the Vercel helpers they rely on.
+ */
+function addVercelHelpers(res) {
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.send = (body) => {
+    if (!res.hasHeader('content-type') && typeof body === 'string') res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end(body);
+    return res;
+  };
+  res.json = (data) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(data));
+    return res;
+  };
+  return res;
+}
+
+// ========================================================================
+// Static frontend
+// ========================================================================
+
+async function serveStatic(staticDir, pathname, res) {
+  const root = path.resolve(staticDir);
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return false;
+  }
+  let file = path.resolve(root, `.${decoded}`);
+  if (file !== root && !file.startsWith(root + path.sep)) return false;
+
+  const info = await stat(file).catch(() => null);
+  if (info?.isDirectory()) file = path.join(file, 'index.html');
+  else if (!info) {
+    // SPA fallback for client-side routes; real assets 404
+    if (path.extname(decoded)) return false;
+    file = path.join(root, 'index.html');
+  }
+  const body = await readFile(file).catch(() => null);
+  if (!body) return false;
+
+  const immutable = decoded.startsWith('/assets/');
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream',
+    'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  res.end(body);
+  return true;
+}
+
+// ========================================================================
+// Server
+// ========================================================================
+
+async function loadGateway(gatewayPath, logger) {
+  if (!existsSync(gatewayPath)) {
+    logger.warn(`[server] ${path.relative(projectRoot, gatewayPath)} not found; run "npm run build:server" to enable /api/{domain}/v1 RPCs`);
+    return null;
+  }
+  return import(pathToFileURL(gatewayPath).href);
+}
+
+export async function createSelfHostServer(options = {}) {
+  const env = options.env ?? process.env;
+  const logger = options.logger ?? console;
+  const config = {
+    port: Number(options.port ?? env.PORT ?? 3000),
+    host: options.host ?? env.HOST ?? '0.0.0.0',
+    apiDir: options.apiDir ?? env.API_DIR ?? path.join(projectRoot, 'api'),
+    staticDir: options.staticDir ?? env.STATIC_DIR ?? path.join(projectRoot, 'dist'),
+    gatewayPath: options.gatewayPath ?? path.join(projectRoot, 'dist-server', 'gateway.mjs'),
+  };
+
+  const cache = options.cacheBackend !== undefined ? options.cacheBackend : createCacheBackendFromEnv(env, { logger });
+  const gateway = options.gateway !== undefined ? options.gateway : await loadGateway(config.gatewayPath, logger);
+  if (gateway && cache) gateway.setCacheBackend(cache);
+  const cacheId = gateway?.getCacheBackend?.()?.id ?? cache?.id ?? 'none';
+  const playbackStore = options.playbackStore !== undefined ? options.playbackStore : createPlaybackStoreFromEnv(env, { logger });
+  if (gateway && playbackStore) gateway.setSnapshotStore(playbackStore);
+  const reports = options.reports !== undefined ? options.reports : createReportServiceFromEnv(gateway, env, { logger });
+  const taxii = options.taxii !== undefined ? options.taxii : createTaxiiServiceFromEnv(gateway, env, { logger });
+
+  const routes = await buildRouteTable(config.apiDir);
+  const modules = new Map();
+  const importHandler = async (modulePath) => {
+    if (!modules.has(modulePath)) modules.set(modulePath, import(pathToFileURL(modulePath).href));
+    return (await modules.get(modulePath)).default;
+  };
+
+  async function dispatchApi(requestUrl, req, res) {
+    const { pathname } = requestUrl;
+    if (reports && (pathname === '/api/reports' || pathname.startsWith('/api/reports/'))) {
+      return reports.handle(await toRequest(requestUrl, req));
+    }
+    if (RPC_PATH.test(pathname) && !routes.some((r) => matchRoute(r.routePath, pathname) && !r.routePath.includes('['))) {
+      if (!gateway) return json({ error: 'RPC gateway not built', hint: 'run npm run build:server' }, 503);
+      return gateway.handleRpc(await toRequest(requestUrl, req));
+    }
+
+    const route = routes.find((r) => matchRoute(r.routePath, pathname));
+    if (!route) return json({ error: 'Not found', endpoint: pathname }, 404);
+    const handler = await importHandler(route.modulePath);
+    if (typeof handler !== 'function') return json({ error: 'Invalid handler module', endpoint: pathname }, 500);
+
+    if (handler.length >= 2) {
+      await handler(req, addVercelHelpers(res));
+      return null;
+    }
+    const response = await handler(await toRequest(requestUrl, req));
+    if (!(response instanceof Response)) return json({ error: 'Handler returned invalid response', endpoint: pathname }, 500);
+    return response;
+  }
+
+  const server = createServer(async (req, res) => {
+    const requestUrl = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      if (requestUrl.pathname === '/healthz') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        const metrics = gateway?.getCacheMetrics?.();
+        res.end(JSON.stringify({ ok: true, cache: cacheId, routes: routes.length, rpc: Boolean(gateway), ...(metrics ? { metrics } : {}) }));
+        return;
+      }
+
+      const isTaxii = taxii && (requestUrl.pathname === TAXII_PREFIX || requestUrl.pathname.startsWith(`${TAXII_PREFIX}/`));
+      if (isTaxii || requestUrl.pathname.startsWith('/api/')) {
+        const response = isTaxii ? await taxii.handle(await toRequest(requestUrl, req)) : await dispatchApi(requestUrl, req, res);
+        if (!response) return;
+        res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+        res.end(req.method === 'HEAD' ? undefined : Buffer.from(await response.arrayBuffer()));
+        return;
+      }
+
+      if (['GET', 'HEAD'].includes(req.method) && await serveStatic(config.staticDir, requestUrl.pathname, res)) return;
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found');
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      const tooLarge = error instanceof PayloadTooLargeError;
+      if (!tooLarge) logger.error(`[server] ${req.method} ${requestUrl.pathname} failed`, error);
+      res.writeHead(tooLarge ? 413 : 500, { 'Content-Type': 'application/json', ...(tooLarge ? { Connection: 'close' } : {}) });
+      res.end(JSON.stringify({ error: tooLarge ? error.message : 'Internal server error' }));
+    }
+  });
+
+  return {
+    config,
+    routes,
+    server,
+    cache: cacheId,
+    async start() {
+      await new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(config.port, config.host, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : config.port;
+      reports?.start();
+      logger.log(`[server] listening on http://${config.host}:${port} (cache=${cacheId}, routes=${routes.length}, rpc=${gateway ? 'on' : 'off'}, reports=${reports ? 'on' : 'off'}, taxii=${taxii ? 'on' : 'off'})`);
+      return { port };
+    },
+    async close() {
+      const closed = new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+      reports?.stop();
+      server.closeAllConnections();
+      await closed;
+      cache?.flush?.();
+      cache?.close?.();
+    },
+  };
+}
+
+function isMainModule() {
+  if (!process.argv[1]) return false;
+  return pathToFileURL(process.argv[1]).href === import.meta.url;
+}
+
+if (isMainModule()) {
+  try {
+    const app = await createSelfHostServer();
+    await app.start();
+    const shutdown = async () => {
+      await app.close().catch(() => {});
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error('[server] startup failed', error);
+    process.exit(1);
+  }
+}
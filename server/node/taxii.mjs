@@ -0,0 +1,205 @@
+/**
+ * Optional read-only TAXII 2.1 server for the cyber layer's indicators.
+ *
+ * One API root with one collection, filled from the gateway bundle's
+ * listCyberStixObjects (the same STIX 2.1 objects the dashboard exports) and
+ * refreshed at most every TAXII_REFRESH_MINUTES. Off unless
+ * TAXII_ENABLED=true; with TAXII_API_KEY set, requests need
+ * `Authorization: Bearer <key>` or HTTP Basic auth with the key as password.
+ *
+ *   GET /taxii2/
+ *   GET /taxii2/worldmonitor/
+ *   GET /taxii2/worldmonitor/collections/
+ *   GET /taxii2/worldmonitor/collections/:id/
+ *   GET /taxii2/worldmonitor/collections/:id/objects/
+ *   GET /taxii2/worldmonitor/collections/:id/objects/:objectId/
+ *   GET /taxii2/worldmonitor/collections/:id/manifest/
+ *
+ * Objects are dated by their STIX `modified` time, so `added_after` polling
+ * picks up an indicator again whenever its feeds report it as seen later.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+export const TAXII_PREFIX = '/taxii2';
+const API_ROOT = 'worldmonitor';
+export const COLLECTION_ID = '3f79b187-bf39-5f7b-84dd-fe40123d2240';
+const TAXII_MEDIA_TYPE = 'application/taxii+json;version=2.1';
+const STIX_MEDIA_TYPE = 'application/stix+json;version=2.1';
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_REFRESH_MS = 5 * 60 * 1000;
+
+function taxiiJson(data, status = 200, headers = {}) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': TAXII_MEDIA_TYPE, ...headers },
+  });
+}
+
+function taxiiError(status, title, description) {
+  return taxiiJson({ title, ...(description && { description }), http_status: String(status) }, status, status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {});
+}
+
+function sameSecret(provided, expected) {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function isAuthorized(request, apiKey) {
+  if (!apiKey) return true;
+  const header = request.headers.get('authorization') || '';
+  const [scheme, value = ''] = header.split(' ');
+  if (/^bearer$/i.test(scheme)) return sameSecret(value, apiKey);
+  if (/^basic$/i.test(scheme)) {
+    const decoded = Buffer.from(value, 'base64').toString('utf-8');
+    return sameSecret(decoded.slice(decoded.indexOf(':') + 1), apiKey);
+  }
+  return false;
+}
+
+function acceptsTaxii(request) {
+  const accept = request.headers.get('accept');
+  return !accept || /application\/taxii\+json|application\/json|\*\/\*/.test(accept);
+}
+
+// Page cursors point just past the last object served, so a refresh between
+// pages neither repeats nor skips objects that were already there.
+const sortKey = (object) => `${object.modified}|${object.id}`;
+const encodeCursor = (object) => Buffer.from(sortKey(object)).toString('base64url');
+const decodeCursor = (value) => Buffer.from(value, 'base64url').toString('utf-8');
+
+function listParam(params, name) {
+  return (params.get(name) || '').split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Apply TAXII filters and pagination to the collection.
+ * Returns null when a parameter is malformed.
+ */
+export function selectObjects(objects, params) {
+  const addedAfter = params.get('added_after');
+  if (addedAfter && Number.isNaN(Date.parse(addedAfter))) return null;
+  const rawLimit = params.get('limit');
+  const limit = rawLimit === null ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  const types = listParam(params, 'match[type]');
+  const ids = listParam(params, 'match[id]');
+  const after = params.get('next') ? decodeCursor(params.get('next')) : '';
+  const addedAfterIso = addedAfter ? new Date(addedAfter).toISOString() : '';
+
+  const matching = objects
+    .filter((o) => (!addedAfterIso || o.modified > addedAfterIso)
+      && (types.length === 0 || types.includes(o.type))
+      && (ids.length === 0 || ids.includes(o.id))
+      && (!after || sortKey(o) > after))
+    .sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : 1));
+
+  const page = matching.slice(0, Math.min(limit, MAX_PAGE_SIZE));
+  const more = matching.length > page.length;
+  return { page, more, ...(more && { next: encodeCursor(page[page.length - 1]) }) };
+}
+
+function dateHeaders(page) {
+  if (page.length === 0) return {};
+  return {
+    'X-TAXII-Date-Added-First': page[0].modified,
+    'X-TAXII-Date-Added-Last': page[page.length - 1].modified,
+  };
+}
+
+/**
+ * @param {object} options
+ * @param {() => Promise<object[]>} options.loadObjects  STIX objects for the collection
+ * @param {string} [options.apiKey]                     required bearer token, if any
+ */
+export function createTaxiiService({ loadObjects, apiKey = '', refreshMs = DEFAULT_REFRESH_MS, logger = console, now = () => Date.now() }) {
+  let cache = { objects: [], loadedAt: 0 };
+  let inflight = null;
+
+  async function objects() {
+    if (now() - cache.loadedAt < refreshMs) return cache.objects;
+    if (!inflight) {
+      inflight = loadObjects()
+        .then((loaded) => {
+          cache = { objects: loaded, loadedAt: now() };
+        })
+        .catch((error) => {
+          // Keep serving the last good list; retry on the next request.
+          logger.error('[taxii] failed to load cyber threats:', error);
+        })
+        .finally(() => {
+          inflight = null;
+        });
+    }
+    await inflight;
+    return cache.objects;
+  }
+
+  async function handle(request) {
+    if (!isAuthorized(request, apiKey)) return taxiiError(401, 'Unauthorized', 'Send the TAXII API key as a bearer token');
+    if (!['GET', 'HEAD'].includes(request.method)) return taxiiError(405, 'Method not allowed', 'This TAXII server is read-only');
+    if (!acceptsTaxii(request)) return taxiiError(406, 'Not acceptable', `Supported media type: ${TAXII_MEDIA_TYPE}`);
+
+    const url = new URL(request.url);
+    const parts = url.pathname.slice(TAXII_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+    const rootUrl = `${url.origin}${TAXII_PREFIX}/${API_ROOT}/`;
+
+    if (parts.length === 0) {
+      return taxiiJson({
+        title: 'World Monitor TAXII',
+        description: 'Cyber threat indicators shown on the World Monitor cyber layer.',
+        default: rootUrl,
+        api_roots: [rootUrl],
+      });
+    }
+    if (parts[0] !== API_ROOT) return taxiiError(404, 'Not found', 'Unknown API root');
+    if (parts.length === 1) {
+      // Read-only root: nothing can be posted to it.
+      return taxiiJson({ title: 'World Monitor', versions: [TAXII_MEDIA_TYPE], max_content_length: 0 });
+    }
+    if (parts[1] !== 'collections') return taxiiError(404, 'Not found');
+
+    const collection = {
+      id: COLLECTION_ID,
+      title: 'Cyber threat indicators',
+      description: 'C2 servers, malware hosts and malicious URLs from Feodo Tracker, URLhaus, C2IntelFeeds, OTX and AbuseIPDB.',
+      can_read: true,
+      can_write: false,
+      media_types: [STIX_MEDIA_TYPE],
+    };
+    if (parts.length === 2) return taxiiJson({ collections: [collection] });
+    if (parts[2] !== COLLECTION_ID) return taxiiError(404, 'Not found', 'Unknown collection');
+    if (parts.length === 3) return taxiiJson(collection);
+
+    const endpoint = parts[3];
+    const params = new URLSearchParams(url.searchParams);
+    if (endpoint === 'objects' && parts.length === 5) params.set('match[id]', parts[4]);
+    else if (!['objects', 'manifest'].includes(endpoint) || parts.length > 4) return taxiiError(404, 'Not found');
+
+    const selected = selectObjects(await objects(), params);
+    if (!selected) return taxiiError(400, 'Bad request', 'Invalid added_after or limit');
+    const { page, more, next } = selected;
+    if (parts.length === 5 && page.length === 0) return taxiiError(404, 'Not found', 'Unknown object');
+
+    const envelope = endpoint === 'manifest'
+      ? page.map((o) => ({ id: o.id, date_added: o.modified, version: o.modified, media_type: STIX_MEDIA_TYPE }))
+      : page;
+    return taxiiJson({ more, ...(next && { next }), objects: envelope }, 200, dateHeaders(page));
+  }
+
+  return { handle };
+}
+
+/** TAXII needs TAXII_ENABLED=true and the gateway bundle; returns null otherwise. */
+export function createTaxiiServiceFromEnv(gateway, env = process.env, { logger = console } = {}) {
+  if (env.TAXII_ENABLED !== 'true' || typeof gateway?.listCyberStixObjects !== 'function') return null;
+  const minutes = Number(env.TAXII_REFRESH_MINUTES);
+  return createTaxiiService({
+    loadObjects: () => gateway.listCyberStixObjects(),
+    apiKey: env.TAXII_API_KEY || '',
+    refreshMs: Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : DEFAULT_REFRESH_MS,
+    logger,
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Report generation for the self-hosted server's scheduler.
+ *
+ * Gathers report inputs by calling the RPC gateway in-process through the
+ * generated clients, then assembles them with the same composer the browser
+ * uses. Surges and cascade risks are derived client-side from live tracks and
+ * the infrastructure model, so server-generated reports mark them unavailable.
+ */
+
+import handleRpc from '../../api/[domain]/v1/[rpc]';
+import { EconomicServiceClient } from '../../src/generated/client/worldmonitor/economic/v1/service_client';
+import { IntelligenceServiceClient } from '../../src/generated/client/worldmonitor/intelligence/v1/service_client';
+import { MilitaryServiceClient } from '../../src/generated/client/worldmonitor/military/v1/service_client';
+import { NewsServiceClient, type NewsCluster, type NewsItem } from '../../src/generated/client/worldmonitor/news/v1/service_client';
+import { PredictionServiceClient } from '../../src/generated/client/worldmonitor/prediction/v1/service_client';
+import {
+  buildReport,
+  ciiChange24h,
+  marketRadarFromMacro,
+  oddsSnapshot,
+  type Report,
+  type ReportInputs,
+  type ReportStory,
+  type ReportTemplate,
+} from '../../src/services/reports/compose';
+import { TIER1_COUNTRIES } from '../worldmonitor/intelligence/v1/_shared';
+import { POSTURE_THEATERS } from '../worldmonitor/military/v1/_shared';
+
+const GATEWAY_ORIGIN = 'http://self-host.local';
+const SUMMARY_PROVIDERS = ['ollama', 'groq', 'openrouter'];
+
+const inProcessFetch = (input: RequestInfo | URL, init?: RequestInit) => handleRpc(new Request(input, init));
+const clientOptions = { fetch: inProcessFetch as typeof fetch };
+
+const intelligence = new IntelligenceServiceClient(GATEWAY_ORIGIN, clientOptions);
+const military = new MilitaryServiceClient(GATEWAY_ORIGIN, clientOptions);
+const economic = new EconomicServiceClient(GATEWAY_ORIGIN, clientOptions);
+const prediction = new PredictionServiceClient(GATEWAY_ORIGIN, clientOptions);
+const news = new NewsServiceClient(GATEWAY_ORIGIN, clientOptions);
+
+/** Same thresholds as the client's Country Instability Index levels. */
+function ciiLevel(score: number): string {
+  if (score >= 81) return 'critical';
+  if (score >= 66) return 'high';
+  if (score >= 51) return 'elevated';
+  if (score >= 31) return 'normal';
+  return 'low';
+}
+
+function trendName(trend: string): string {
+  return trend.replace('TREND_DIRECTION_', '').toLowerCase();
+}
+
+function countryName(code: string): string {
+  if (TIER1_COUNTRIES[code]) return TIER1_COUNTRIES[code];
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+async function optional<T>(task: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await task();
+  } catch (err) {
+    console.warn('[reports] input unavailable:', err instanceof Error ? err.message : err);
+    return undefined;
+  }
+}
+
+function toStory(item: { primaryTitle: string; primarySource: string; primaryLink: string }): ReportStory {
+  return { title: item.primaryTitle, source: item.primarySource, url: item.primaryLink };
+}
+
+async function worldBrief(clusters: NewsCluster[]): Promise<NonNullable<ReportInputs['worldBrief']>> {
+  const top = [...clusters]
+    .sort((a, b) => Number(b.isAlert) - Number(a.isAlert) || b.sourceCount - a.sourceCount)
+    .slice(0, 8);
+  let brief: string | null = null;
+  for (const provider of SUMMARY_PROVIDERS) {
+    const resp = await optional(() => news.summarizeArticle({
+      provider,
+      headlines: top.map(c => c.primaryTitle),
+      mode: 'brief',
+      geoContext: '',
+      variant: 'full',
+      lang: 'en',
+    }));
+    if (resp?.summary && !resp.skipped) {
+      brief = resp.summary;
+      break;
+    }
+  }
+  return { brief, stories: top.map(toStory) };
+}
+
+export interface GeneratedReport {
+  report: Report;
+  /** Prediction odds at generation time, the baseline for the template's next run. */
+  lastOdds?: Record<string, number>;
+}
+
+/** Build a report for a template from the data this server can reach. */
+export async function generateReport(template: ReportTemplate, generatedAt = new Date()): Promise<GeneratedReport> {
+  const wants = new Set(template.sections);
+  const inputs: ReportInputs = {};
+  const now = generatedAt.getTime();
+
+  const needsNews = wants.has('worldBrief') || wants.has('countries');
+  const needsScores = wants.has('ciiMovers') || wants.has('countries');
+  const [digest, scores, history] = await Promise.all([
+    needsNews ? optional(() => news.listNewsClusters({ variant: 'full', categories: [], lang: 'en', disabledSources: [] })) : undefined,
+    needsScores ? optional(() => intelligence.getRiskScores({ region: '' })) : undefined,
+    needsScores ? optional(() => intelligence.getRiskScoreHistory({ regions: [], days: 2 })) : undefined,
+  ]);
+  const clusters = digest?.categories.flatMap(c => c.clusters) ?? [];
+  const items: NewsItem[] = digest?.categories.flatMap(c => c.items) ?? [];
+  const historyByCode = new Map((history?.histories ?? []).map(h => [
+    h.region,
+    h.points.map(p => ({ timestamp: p.timestamp, score: p.combinedScore })).sort((a, b) => a.timestamp - b.timestamp),
+  ]));
+  const change = (code: string, score: number) => ciiChange24h(score, historyByCode.get(code) ?? [], now);
+
+  if (wants.has('worldBrief') && digest) {
+    inputs.worldBrief = await worldBrief(clusters);
+  }
+  if (wants.has('ciiMovers') && scores) {
+    inputs.ciiMovers = scores.ciiScores.map(s => ({
+      code: s.region,
+      name: countryName(s.region),
+      score: s.combinedScore,
+      level: ciiLevel(s.combinedScore),
+      change: change(s.region, s.combinedScore) ?? 0,
+    }));
+  }
+  if (wants.has('theaterPosture')) {
+    const posture = await optional(() => military.getTheaterPosture({ theater: '' }));
+    if (posture) {
+      inputs.theaterPosture = posture.theaters.map(t => ({
+        name: POSTURE_THEATERS.find(def => def.id === t.theater)?.name ?? t.theater,
+        level: t.postureLevel || 'normal',
+        aircraft: t.activeFlights,
+        vessels: t.trackedVessels,
+        strikeCapable: t.activeOperations.includes('strike_capable'),
+      }));
+    }
+  }
+  if (wants.has('marketRadar')) {
+    inputs.marketRadar = marketRadarFromMacro((await optional(() => economic.getMacroSignals({}))) ?? null);
+  }
+  if (wants.has('predictionShifts')) {
+    const markets = await optional(() => prediction.listPredictionMarkets({ category: '', query: '', pagination: { pageSize: 50, cursor: '' } }));
+    if (markets) {
+      // The RPC reports prices as 0-1; reports use the client's 0-100 scale.
+      inputs.predictions = markets.markets.map(m => ({ title: m.title, yesPrice: m.yesPrice * 100, volume: m.volume, url: m.url }));
+    }
+  }
+  if (wants.has('countries') && template.countries.length > 0) {
+    const scoreByCode = new Map((scores?.ciiScores ?? []).map(s => [s.region, s]));
+    inputs.countries = await Promise.all(template.countries.map(async code => {
+      const name = countryName(code);
+      const score = scoreByCode.get(code);
+      const term = name.toLowerCase();
+      const brief = await optional(() => intelligence.getCountryIntelBrief({ countryCode: code }));
+      return {
+        code,
+        name,
+        ...(score && {
+          score: score.combinedScore,
+          level: ciiLevel(score.combinedScore),
+          trend: trendName(score.trend),
+          change: change(code, score.combinedScore) ?? undefined,
+        }),
+        brief: brief?.brief || undefined,
+        headlines: items
+          .filter(item => item.title.toLowerCase().includes(term))
+          .slice(0, 5)
+          .map(item => ({ title: item.title, source: item.source, url: item.link })),
+      };
+    }));
+  }
+
+  return {
+    report: buildReport(template, inputs, generatedAt),
+    ...(inputs.predictions && { lastOdds: oddsSnapshot(inputs.predictions) }),
+  };
+}
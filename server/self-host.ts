@@ -0,0 +1,19 @@
+/**
+ * Bundle entry for the self-hosted Node server (server/node/server.mjs).
+ *
+ * Compiled by scripts/build-server.mjs into dist-server/gateway.mjs. Exposes
+ * the sebuf RPC gateway, which mounts every create*ServiceRoutes router,
+ * the cache backend hook so the server can swap Upstash for its own backend,
+ * the cache metrics reported by /healthz, the report generator and
+ * template helpers behind /api/reports (server/node/reports.mjs), the
+ * STIX objects behind the optional TAXII collection (server/node/taxii.mjs),
+ * and the playback store hook for the on-disk store
+ * (server/node/playback-store.mjs).
+ */
+
+export { default as handleRpc } from '../api/[domain]/v1/[rpc]';
+export { getCacheBackend, getCacheMetrics, setCacheBackend, type CacheBackend } from './_shared/redis';
+export { generateReport, type GeneratedReport } from './reports/generate';
+export { normalizeTemplate, isReportDue, nextRunAt, renderReportFile } from '../src/services/reports/compose';
+export { listCyberStixObjects } from './cyber/stix-feed';
+export { setSnapshotStore, type SnapshotStore } from './worldmonitor/playback/v1/_store';
@@ -3,7 +3,8 @@
  *
  * Proxies the ACLED API for battles, explosions, and violence against
  * civilians events within a configurable time range and optional country
- * filter.  Returns empty array on upstream failure (graceful degradation).
+ * filter; the bounding box applies to the cached result.  Returns empty
+ * array on upstream failure (graceful degradation).
  */
 
 import type {
@@ -14,7 +15,8 @@ import type {
 } from '../../../../src/generated/server/worldmonitor/conflict/v1/service_server';
 
 import { cachedFetchJson } from '../../../_shared/redis';
-import { fetchAcledCached } from '../../../_shared/acled';
+import { acledCountryName, fetchAcledCached } from '../../../_shared/acled';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 const REDIS_CACHE_KEY = 'conflict:acled:v1';
 const REDIS_CACHE_TTL = 900; // 15 min — ACLED rate-limited
@@ -31,7 +33,7 @@ async function fetchAcledConflicts(req: ListAcledEventsRequest): Promise<AcledCo
       eventTypes: 'Battles|Explosions/Remote violence|Violence against civilians',
       startDate,
       endDate,
-      country: req.country || undefined,
+      country: acledCountryName(req.country),
     });
 
     return rawEvents
@@ -73,7 +75,9 @@ export async function listAcledEvents(
         return events.length > 0 ? { events, pagination: undefined } : null;
       },
     );
-    return result || { events: [], pagination: undefined };
+    if (!result) return { events: [], pagination: undefined };
+    const events = applyGeoFilters(result.events, { boundingBox: req.boundingBox }, { location: (e) => e.location });
+    return { events, pagination: undefined };
   } catch {
     return { events: [], pagination: undefined };
   }
@@ -2,8 +2,9 @@
  * RPC: listUcdpEvents -- Port from api/ucdp-events.js
  *
  * Queries the UCDP GED API with automatic version discovery and paginated
- * backward fetch over a trailing 1-year window.  Supports optional country
- * filtering.  Returns empty array on upstream failure (graceful degradation).
+ * backward fetch over a trailing 1-year window.  Country, time-range and
+ * bbox filters apply to the cached window.  Returns empty array on upstream
+ * failure (graceful degradation).
  */
 
 import type {
@@ -15,6 +16,7 @@ import type {
 } from '../../../../src/generated/server/worldmonitor/conflict/v1/service_server';
 import { cachedFetchJson, setCachedJson } from '../../../_shared/redis';
 import { CHROME_UA } from '../../../_shared/constants';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 const UCDP_PAGE_SIZE = 1000;
 const MAX_PAGES = 12;
@@ -113,7 +115,7 @@ async function discoverGedVersion(): Promise<{ version: string; page0: any }> {
   throw new Error('No valid UCDP GED version found');
 }
 
-async function fetchUcdpGedEvents(req: ListUcdpEventsRequest): Promise<UcdpViolenceEvent[]> {
+async function fetchUcdpGedEvents(): Promise<UcdpViolenceEvent[]> {
   // Negative cache: skip fetch if UCDP failed recently
   if (lastFailureTimestamp && (Date.now() - lastFailureTimestamp) < NEGATIVE_CACHE_MS) {
     if (fallbackCache.data) return fallbackCache.data;
@@ -165,7 +167,7 @@ async function fetchUcdpGedEvents(req: ListUcdpEventsRequest): Promise<UcdpViole
     });
 
     // Map to proto UcdpViolenceEvent
-    let mapped = filtered.map((e: any): UcdpViolenceEvent => ({
+    const mapped = filtered.map((e: any): UcdpViolenceEvent => ({
       id: String(e.id || ''),
       dateStart: Date.parse(e.date_start) || 0,
       dateEnd: Date.parse(e.date_end) || 0,
@@ -183,11 +185,6 @@ async function fetchUcdpGedEvents(req: ListUcdpEventsRequest): Promise<UcdpViole
       sourceOriginal: (e.source_original || '').substring(0, 300),
     }));
 
-    // Filter by country if requested
-    if (req.country) {
-      mapped = mapped.filter((e) => e.country === req.country);
-    }
-
     // Sort by dateStart descending (newest first)
     mapped.sort((a, b) => b.dateStart - a.dateStart);
 
@@ -210,34 +207,36 @@ async function fetchUcdpGedEvents(req: ListUcdpEventsRequest): Promise<UcdpViole
   }
 }
 
+function filterEvents(events: UcdpViolenceEvent[], req: ListUcdpEventsRequest): UcdpViolenceEvent[] {
+  return applyGeoFilters(events, req, {
+    location: (e) => e.location,
+    time: (e) => e.dateStart,
+    country: (e) => e.country,
+  });
+}
+
 export async function listUcdpEvents(
   _ctx: ServerContext,
   req: ListUcdpEventsRequest,
 ): Promise<ListUcdpEventsResponse> {
   // Check in-memory fallback cache before any async ops
   if (fallbackCache.data && (Date.now() - fallbackCache.timestamp) < fallbackCache.ttlMs) {
-    let events = fallbackCache.data;
-    if (req.country) events = events.filter((e) => e.country === req.country);
-    return { events, pagination: undefined };
+    return { events: filterEvents(fallbackCache.data, req), pagination: undefined };
   }
 
   // Primary Redis cache + fetch with in-flight dedup
   const cached = await cachedFetchJson<UcdpViolenceEvent[]>(CACHE_KEY, CACHE_TTL_FULL, async () => {
-    const events = await fetchUcdpGedEvents(req);
+    const events = await fetchUcdpGedEvents();
     return events.length > 0 ? events : null;
   });
 
   if (cached && Array.isArray(cached) && cached.length > 0) {
-    let events = cached;
-    if (req.country) events = events.filter((e) => e.country === req.country);
-    return { events, pagination: undefined };
+    return { events: filterEvents(cached, req), pagination: undefined };
   }
 
   // Last resort: stale fallback data
   if (fallbackCache.data) {
-    let events = fallbackCache.data;
-    if (req.country) events = events.filter((e) => e.country === req.country);
-    return { events, pagination: undefined };
+    return { events: filterEvents(fallbackCache.data, req), pagination: undefined };
   }
 
   return { events: [], pagination: undefined };
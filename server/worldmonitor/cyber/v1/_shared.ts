@@ -95,6 +95,12 @@ function normalizeCountry(value: unknown): string {
   return raw;
 }
 
+/** "AS14061", "as14061" or 14061 -> "AS14061"; empty when not an AS number. */
+function normalizeAsn(value: unknown): string {
+  const match = /^(?:AS)?(\d{1,10})$/i.exec(String(value ?? '').trim());
+  return match && Number(match[1]) > 0 ? `AS${Number(match[1])}` : '';
+}
+
 function toEpochMs(value: unknown): number {
   if (!value) return 0;
   if (value instanceof Date && !Number.isNaN(value.getTime())) return value.getTime();
@@ -219,6 +225,8 @@ export interface RawThreat {
   tags: string[];
   firstSeen: number; // epoch ms
   lastSeen: number;  // epoch ms
+  asn: string;
+  asName: string;
 }
 
 function sanitizeRawThreat(threat: Partial<RawThreat> & { indicator?: string }): RawThreat | null {
@@ -242,6 +250,8 @@ function sanitizeRawThreat(threat: Partial<RawThreat> & { indicator?: string }):
     tags: threat.tags || [],
     firstSeen: threat.firstSeen || 0,
     lastSeen: threat.lastSeen || 0,
+    asn: normalizeAsn(threat.asn),
+    asName: cleanString(threat.asName, 120),
   };
 }
 
@@ -249,10 +259,18 @@ function sanitizeRawThreat(threat: Partial<RawThreat> & { indicator?: string }):
 // GeoIP hydration (in-memory cache only -- no Redis in handler layer)
 // ========================================================================
 
+interface GeoLookup {
+  lat: number;
+  lon: number;
+  country: string;
+  asn: string;
+  asName: string;
+}
+
 const GEO_CACHE_MAX_SIZE = 2048;
-const geoCache = new Map<string, { lat: number; lon: number; country: string; ts: number }>();
+const geoCache = new Map<string, GeoLookup & { ts: number }>();
 
-function getGeoCached(ip: string): { lat: number; lon: number; country: string } | null {
+function getGeoCached(ip: string): GeoLookup | null {
   const entry = geoCache.get(ip);
   if (!entry) return null;
   if (Date.now() - entry.ts > GEO_CACHE_TTL_MS) {
@@ -262,7 +280,7 @@ function getGeoCached(ip: string): { lat: number; lon: number; country: string }
   return entry;
 }
 
-function setGeoCached(ip: string, geo: { lat: number; lon: number; country: string }): void {
+function setGeoCached(ip: string, geo: GeoLookup): void {
   // Evict oldest entries when cache exceeds max size (C-1 fix)
   if (geoCache.size >= GEO_CACHE_MAX_SIZE) {
     const keysToDelete = Array.from(geoCache.keys()).slice(0, Math.floor(GEO_CACHE_MAX_SIZE / 4));
@@ -274,7 +292,7 @@ function setGeoCached(ip: string, geo: { lat: number; lon: number; country: stri
 async function fetchGeoIp(
   ip: string,
   signal?: AbortSignal,
-): Promise<{ lat: number; lon: number; country: string } | null> {
+): Promise<GeoLookup | null> {
   // Primary: ipinfo.io
   try {
     const resp = await fetch(`https://ipinfo.io/${encodeURIComponent(ip)}/json`, {
@@ -282,12 +300,22 @@ async function fetchGeoIp(
       signal: signal || AbortSignal.timeout(GEO_PER_IP_TIMEOUT_MS),
     });
     if (resp.ok) {
-      const data = await resp.json() as { loc?: string; country?: string };
+      const data = await resp.json() as { loc?: string; country?: string; org?: string };
       const parts = (data.loc || '').split(',');
       const lat = toFiniteNumber(parts[0]);
       const lon = toFiniteNumber(parts[1]);
       if (hasValidCoordinates(lat, lon)) {
-        return { lat: lat!, lon: lon!, country: normalizeCountry(data.country) };
+        // org reads "AS14061 DigitalOcean, LLC"
+        const org = cleanString(data.org, 160);
+        const space = org.indexOf(' ');
+        const asn = normalizeAsn(space > 0 ? org.slice(0, space) : org);
+        return {
+          lat: lat!,
+          lon: lon!,
+          country: normalizeCountry(data.country),
+          asn,
+          asName: asn && space > 0 ? org.slice(space + 1) : '',
+        };
       }
     }
   } catch { /* fall through */ }
@@ -302,11 +330,20 @@ async function fetchGeoIp(
       signal: signal || AbortSignal.timeout(GEO_PER_IP_TIMEOUT_MS),
     });
     if (!resp.ok) return null;
-    const data = await resp.json() as { latitude?: number; longitude?: number; countryCode?: string; countryName?: string };
+    const data = await resp.json() as {
+      latitude?: number; longitude?: number; countryCode?: string; countryName?: string; asn?: string; asName?: string;
+    };
     const lat = toFiniteNumber(data.latitude);
     const lon = toFiniteNumber(data.longitude);
     if (!hasValidCoordinates(lat, lon)) return null;
-    return { lat: lat!, lon: lon!, country: normalizeCountry(data.countryCode || data.countryName) };
+    const asn = normalizeAsn(data.asn);
+    return {
+      lat: lat!,
+      lon: lon!,
+      country: normalizeCountry(data.countryCode || data.countryName),
+      asn,
+      asName: asn ? cleanString(data.asName, 120) : '',
+    };
   } catch {
     return null;
   }
@@ -315,7 +352,7 @@ async function fetchGeoIp(
 async function geolocateIp(
   ip: string,
   signal?: AbortSignal,
-): Promise<{ lat: number; lon: number; country: string } | null> {
+): Promise<GeoLookup | null> {
   const cached = getGeoCached(ip);
   if (cached) return cached;
   const geo = await fetchGeoIp(ip, signal);
@@ -338,7 +375,7 @@ export async function hydrateThreatCoordinates(threats: RawThreat[]): Promise<Ra
   }
 
   const capped = unresolvedIps.slice(0, GEO_MAX_UNRESOLVED);
-  const resolvedByIp = new Map<string, { lat: number; lon: number; country: string }>();
+  const resolvedByIp = new Map<string, GeoLookup>();
 
   // AbortController cancels orphaned workers on timeout (M-16 fix)
   const controller = new AbortController();
@@ -367,7 +404,14 @@ export async function hydrateThreatCoordinates(threats: RawThreat[]): Promise<Ra
 
     const lookup = resolvedByIp.get(cleanString(threat.indicator, 80).toLowerCase());
     if (lookup) {
-      return { ...threat, lat: lookup.lat, lon: lookup.lon, country: threat.country || lookup.country };
+      return {
+        ...threat,
+        lat: lookup.lat,
+        lon: lookup.lon,
+        country: threat.country || lookup.country,
+        asn: threat.asn || lookup.asn,
+        asName: threat.asn ? threat.asName : lookup.asName,
+      };
     }
 
     const centroid = getCountryCentroid(threat.country);
@@ -432,6 +476,8 @@ function parseFeodoRecord(record: any, cutoffMs: number): RawThreat | null {
     tags: normalizeTags(['botnet', 'c2', ...tags]),
     firstSeen,
     lastSeen,
+    asn: record?.as_number,
+    asName: record?.as_name,
   });
 }
 
@@ -767,6 +813,8 @@ export function toProtoCyberThreat(raw: RawThreat): CyberThreat {
     tags: raw.tags,
     firstSeenAt: raw.firstSeen,
     lastSeenAt: raw.lastSeen,
+    asn: raw.asn,
+    asName: raw.asName,
   };
 }
 
@@ -7,6 +7,7 @@ import type {
 } from '../../../../src/generated/server/worldmonitor/cyber/v1/service_server';
 
 import { cachedFetchJson } from '../../../_shared/redis';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 import {
   DEFAULT_LIMIT,
@@ -93,21 +94,26 @@ export async function listCyberThreats(
         results = results.filter((t) => (SEVERITY_RANK[SEVERITY_MAP[t.severity] || ''] || 0) >= minRank);
       }
 
-      // Sort by severity then recency, then apply page size limit
-      results = results
-        .sort((a, b) => {
-          const bySeverity = (SEVERITY_RANK[SEVERITY_MAP[b.severity] || ''] || 0)
-            - (SEVERITY_RANK[SEVERITY_MAP[a.severity] || ''] || 0);
-          if (bySeverity !== 0) return bySeverity;
-          return (b.lastSeen || b.firstSeen) - (a.lastSeen || a.firstSeen);
-        })
-        .slice(0, pageSize);
+      // Sort by severity then recency; the page size limit applies after the
+      // bbox and country filters so a viewport still gets a full page
+      results = results.sort((a, b) => {
+        const bySeverity = (SEVERITY_RANK[SEVERITY_MAP[b.severity] || ''] || 0)
+          - (SEVERITY_RANK[SEVERITY_MAP[a.severity] || ''] || 0);
+        if (bySeverity !== 0) return bySeverity;
+        return (b.lastSeen || b.firstSeen) - (a.lastSeen || a.firstSeen);
+      });
 
       const threats = results.map(toProtoCyberThreat);
       return threats.length > 0 ? { threats, pagination: undefined } : null;
     });
 
-    return result || { threats: [], pagination: undefined };
+    if (!result) return { threats: [], pagination: undefined };
+    // Time range is applied upstream as a day window: some feeds carry no timestamps
+    const threats = applyGeoFilters(result.threats, req, {
+      location: (t) => t.location,
+      country: (t) => t.country,
+    });
+    return { threats: threats.slice(0, pageSize), pagination: undefined };
   } catch {
     return { threats: [], pagination: undefined };
   }
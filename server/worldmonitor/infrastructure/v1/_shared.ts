@@ -1,4 +1,4 @@
-declare const process: { env: Record<string, string | undefined> };
+import { getCachedJsonBatch } from '../../../_shared/redis';
 
 // ========================================================================
 // Constants
@@ -40,28 +40,11 @@ export function getBaselineSeverity(zScore: number): string {
 }
 
 // ========================================================================
-// Upstash Redis MGET helper (edge-compatible)
+// Cache MGET helper
 // getCachedJson / setCachedJson are imported from ../../../_shared/redis.ts
 // ========================================================================
 
 export async function mgetJson(keys: string[]): Promise<(unknown | null)[]> {
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (!url || !token) return keys.map(() => null);
-  try {
-    const resp = await fetch(`${url}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(['MGET', ...keys]),
-      signal: AbortSignal.timeout(5_000),
-    });
-    if (!resp.ok) return keys.map(() => null);
-    const data = (await resp.json()) as { result?: (string | null)[] };
-    return (data.result || []).map(v => v ? JSON.parse(v) : null);
-  } catch {
-    return keys.map(() => null);
-  }
+  const values = await getCachedJsonBatch(keys);
+  return keys.map(k => values.get(k) ?? null);
 }
@@ -11,6 +11,7 @@ import type {
 import { UPSTREAM_TIMEOUT_MS } from './_shared';
 import { CHROME_UA } from '../../../_shared/constants';
 import { cachedFetchJson } from '../../../_shared/redis';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 const REDIS_CACHE_KEY = 'infra:outages:v1';
 const REDIS_CACHE_TTL = 300; // 5 min — Cloudflare Radar rate-limited
@@ -176,17 +177,11 @@ export async function listInternetOutages(
     const outages = result?.outages || [];
 
     // Always apply filters (to both cached and fresh data)
-    let filtered = outages;
-    if (req.country) {
-      const target = req.country.toLowerCase();
-      filtered = outages.filter((o) => o.country.toLowerCase().includes(target));
-    }
-    if (req.timeRange?.start) {
-      filtered = filtered.filter((o) => o.detectedAt >= req.timeRange!.start);
-    }
-    if (req.timeRange?.end) {
-      filtered = filtered.filter((o) => o.detectedAt <= req.timeRange!.end);
-    }
+    const filtered = applyGeoFilters(outages, req, {
+      location: (o) => o.location,
+      time: (o) => o.detectedAt,
+      country: (o) => o.country,
+    });
 
     return { outages: filtered, pagination: undefined };
   } catch {
@@ -0,0 +1,65 @@
+/**
+ * Persistent CII score history.
+ *
+ * One Redis value per country holding a packed 90-day series. Falls back to
+ * an in-memory map (same instance only) when Redis is not configured.
+ */
+
+import type {
+  CiiScore,
+  RiskScorePoint,
+} from '../../../../src/generated/server/worldmonitor/intelligence/v1/service_server';
+import { getCachedJsonBatch, setCachedJson } from '../../../_shared/redis';
+// @ts-expect-error — .mjs module, no declaration file
+import { appendPoint, packSeries, unpackSeries, HISTORY_RETENTION_DAYS } from './_risk-history.mjs';
+
+const HISTORY_KEY_PREFIX = 'risk:history:v1:';
+const HISTORY_TTL = (HISTORY_RETENTION_DAYS + 1) * 24 * 60 * 60;
+
+const memHistory = new Map<string, RiskScorePoint[]>();
+
+function historyKey(region: string): string {
+  return `${HISTORY_KEY_PREFIX}${region}`;
+}
+
+/**
+ * CiiScore components use the proto names; history uses the client CII names,
+ * with the same slot mapping as toCachedCII in src/services/cached-risk-scores.ts.
+ */
+export function toHistoryPoint(score: CiiScore): RiskScorePoint {
+  return {
+    timestamp: score.computedAt || Date.now(),
+    combinedScore: score.combinedScore,
+    unrest: score.components?.ciiContribution ?? 0,
+    conflict: score.components?.geoConvergence ?? 0,
+    security: score.components?.militaryActivity ?? 0,
+    information: score.components?.newsActivity ?? 0,
+  };
+}
+
+export async function loadRiskHistory(regions: string[]): Promise<Map<string, RiskScorePoint[]>> {
+  const stored = await getCachedJsonBatch(regions.map(historyKey));
+  const result = new Map<string, RiskScorePoint[]>();
+  for (const region of regions) {
+    const raw = stored.get(historyKey(region));
+    const series = raw ? unpackSeries(raw) as RiskScorePoint[] : memHistory.get(region) ?? [];
+    if (series.length) result.set(region, series);
+  }
+  return result;
+}
+
+/** Append freshly computed scores to each country's series. Returns the updated series. */
+export async function recordRiskScores(scores: CiiScore[]): Promise<Map<string, RiskScorePoint[]>> {
+  const now = Date.now();
+  const existing = await loadRiskHistory(scores.map((s) => s.region));
+  const updated = new Map<string, RiskScorePoint[]>();
+
+  await Promise.all(scores.map(async (score) => {
+    const series = appendPoint(existing.get(score.region), toHistoryPoint(score), now) as RiskScorePoint[];
+    updated.set(score.region, series);
+    memHistory.set(score.region, series);
+    await setCachedJson(historyKey(score.region), packSeries(series), HISTORY_TTL);
+  }));
+
+  return updated;
+}
@@ -0,0 +1,87 @@
+// Four samples a day keeps a 90-day series small enough for a single Redis value
+export const HISTORY_BUCKET_MS = 6 * 60 * 60 * 1000;
+export const HISTORY_RETENTION_DAYS = 90;
+export const DEFAULT_HISTORY_DAYS = 30;
+export const MAX_POINTS_PER_SERIES = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Append a sample to a series (oldest first). A sample in the same 6-hour
+ * bucket as the newest point replaces it; points past retention are dropped.
+ */
+export function appendPoint(points, point, now = point.timestamp) {
+  const series = Array.isArray(points) ? points.slice() : [];
+  const last = series[series.length - 1];
+  if (last && Math.floor(last.timestamp / HISTORY_BUCKET_MS) === Math.floor(point.timestamp / HISTORY_BUCKET_MS)) {
+    series[series.length - 1] = point;
+  } else if (!last || point.timestamp > last.timestamp) {
+    series.push(point);
+  }
+  const cutoff = now - HISTORY_RETENTION_DAYS * DAY_MS;
+  const firstKept = series.findIndex((p) => p.timestamp >= cutoff);
+  return firstKept <= 0 ? series : series.slice(firstKept);
+}
+
+export function clampDays(days) {
+  if (!Number.isFinite(days) || days <= 0) return DEFAULT_HISTORY_DAYS;
+  return Math.min(HISTORY_RETENTION_DAYS, Math.floor(days));
+}
+
+/**
+ * Points inside the lookback window, averaged into equal time buckets when
+ * the window holds more than maxPoints samples (keeps 90-day charts light).
+ */
+export function windowSeries(points, days, now = Date.now(), maxPoints = MAX_POINTS_PER_SERIES) {
+  const cutoff = now - clampDays(days) * DAY_MS;
+  const inWindow = (points || []).filter((p) => p.timestamp >= cutoff && p.timestamp <= now);
+  if (inWindow.length <= maxPoints) return inWindow;
+
+  const span = Math.max(1, now - cutoff);
+  const buckets = new Map();
+  for (const p of inWindow) {
+    const idx = Math.min(maxPoints - 1, Math.floor(((p.timestamp - cutoff) / span) * maxPoints));
+    const bucket = buckets.get(idx) || [];
+    bucket.push(p);
+    buckets.set(idx, bucket);
+  }
+
+  const avg = (arr, key) => Math.round((arr.reduce((s, p) => s + p[key], 0) / arr.length) * 10) / 10;
+  return [...buckets.keys()].sort((a, b) => a - b).map((idx) => {
+    const bucket = buckets.get(idx);
+    return {
+      timestamp: bucket[bucket.length - 1].timestamp,
+      combinedScore: avg(bucket, 'combinedScore'),
+      unrest: avg(bucket, 'unrest'),
+      conflict: avg(bucket, 'conflict'),
+      security: avg(bucket, 'security'),
+      information: avg(bucket, 'information'),
+    };
+  });
+}
+
+/** Score change versus the newest sample at least 24h older than the latest one. */
+export function change24h(points) {
+  if (!points?.length) return 0;
+  const latest = points[points.length - 1];
+  for (let i = points.length - 2; i >= 0; i--) {
+    if (latest.timestamp - points[i].timestamp >= DAY_MS) {
+      return Math.round((latest.combinedScore - points[i].combinedScore) * 10) / 10;
+    }
+  }
+  return 0;
+}
+
+/** Stored form: [timestamp, combined, unrest, conflict, security, information]. */
+export function packSeries(points) {
+  return points.map((p) => [p.timestamp, p.combinedScore, p.unrest, p.conflict, p.security, p.information]);
+}
+
+export function unpackSeries(rows) {
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter((r) => Array.isArray(r) && r.length >= 6)
+    .map(([timestamp, combinedScore, unrest, conflict, security, information]) => ({
+      timestamp, combinedScore, unrest, conflict, security, information,
+    }));
+}
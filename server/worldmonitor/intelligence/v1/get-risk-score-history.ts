@@ -0,0 +1,37 @@
+import type {
+  ServerContext,
+  GetRiskScoreHistoryRequest,
+  GetRiskScoreHistoryResponse,
+  RiskScoreHistory,
+  RiskScorePoint,
+} from '../../../../src/generated/server/worldmonitor/intelligence/v1/service_server';
+
+import { TIER1_COUNTRIES } from './_shared';
+import { loadRiskHistory } from './_risk-history-store';
+// @ts-expect-error — .mjs module, no declaration file
+import { windowSeries } from './_risk-history.mjs';
+
+// ========================================================================
+// RPC handler
+// ========================================================================
+
+export async function getRiskScoreHistory(
+  _ctx: ServerContext,
+  req: GetRiskScoreHistoryRequest,
+): Promise<GetRiskScoreHistoryResponse> {
+  const requested = (req.regions || []).map((r) => r.trim().toUpperCase()).filter((r) => TIER1_COUNTRIES[r]);
+  const regions = requested.length ? [...new Set(requested)] : Object.keys(TIER1_COUNTRIES);
+
+  try {
+    const stored = await loadRiskHistory(regions);
+    const now = Date.now();
+    const histories: RiskScoreHistory[] = [];
+    for (const region of regions) {
+      const points = windowSeries(stored.get(region), req.days, now) as RiskScorePoint[];
+      if (points.length) histories.push({ region, points });
+    }
+    return { histories };
+  } catch {
+    return { histories: [] };
+  }
+}
@@ -11,6 +11,9 @@ import type {
 import { getCachedJson, setCachedJson, cachedFetchJson } from '../../../_shared/redis';
 import { TIER1_COUNTRIES } from './_shared';
 import { fetchAcledCached } from '../../../_shared/acled';
+import { recordRiskScores } from './_risk-history-store';
+// @ts-expect-error — .mjs module, no declaration file
+import { change24h } from './_risk-history.mjs';
 
 // ========================================================================
 // Country risk baselines and multipliers
@@ -66,40 +69,70 @@ function normalizeCountryName(text: string): string | null {
 interface AcledEvent {
   country: string;
   event_type: string;
+  fatalities: number;
 }
 
-async function fetchACLEDProtests(): Promise<AcledEvent[]> {
+async function fetchACLEDEvents(eventTypes: string): Promise<AcledEvent[]> {
   const endDate = new Date().toISOString().split('T')[0]!;
   const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
-  const raw = await fetchAcledCached({
-    eventTypes: 'Protests|Riots',
-    startDate,
-    endDate,
-  });
-  return raw.map((e) => ({ country: e.country || '', event_type: e.event_type || '' }));
+  const raw = await fetchAcledCached({ eventTypes, startDate, endDate });
+  return raw.map((e) => ({
+    country: e.country || '',
+    event_type: e.event_type || '',
+    fatalities: parseInt(e.fatalities || '0', 10) || 0,
+  }));
 }
 
-function computeCIIScores(protests: AcledEvent[]): CiiScore[] {
-  const countryEvents = new Map<string, { protests: number; riots: number }>();
-  for (const event of protests) {
+interface CountryEvents {
+  protests: number;
+  riots: number;
+  battles: number;
+  explosions: number;
+  civilian: number;
+  fatalities: number;
+}
+
+function countByCountry(events: AcledEvent[]): Map<string, CountryEvents> {
+  const byCountry = new Map<string, CountryEvents>();
+  for (const event of events) {
     const code = normalizeCountryName(event.country);
-    if (code && TIER1_COUNTRIES[code]) {
-      const count = countryEvents.get(code) || { protests: 0, riots: 0 };
-      if (event.event_type === 'Riots') count.riots++;
-      else count.protests++;
-      countryEvents.set(code, count);
+    if (!code || !TIER1_COUNTRIES[code]) continue;
+    const count = byCountry.get(code) || { protests: 0, riots: 0, battles: 0, explosions: 0, civilian: 0, fatalities: 0 };
+    switch (event.event_type) {
+      case 'Protests': count.protests++; break;
+      case 'Riots': count.riots++; break;
+      case 'Battles': count.battles++; break;
+      case 'Explosions/Remote violence': count.explosions++; break;
+      case 'Violence against civilians': count.civilian++; break;
     }
+    if (event.event_type !== 'Protests' && event.event_type !== 'Riots') count.fatalities += event.fatalities;
+    byCountry.set(code, count);
   }
+  return byCountry;
+}
+
+/** Same event and fatality terms as calcConflictScore in src/services/country-instability.ts. */
+function conflictScore(events: CountryEvents, multiplier: number): number {
+  const eventScore = Math.min(50, (events.battles * 3 + events.explosions * 4 + events.civilian * 5) * multiplier);
+  const fatalityScore = Math.min(40, Math.sqrt(events.fatalities) * 5 * multiplier);
+  const civilianBoost = Math.min(10, events.civilian * 3);
+  return Math.min(100, Math.round(eventScore + fatalityScore + civilianBoost));
+}
+
+export function computeCIIScores(acledEvents: AcledEvent[]): CiiScore[] {
+  const countryEvents = countByCountry(acledEvents);
 
   const scores: CiiScore[] = [];
   for (const [code, _name] of Object.entries(TIER1_COUNTRIES)) {
-    const events = countryEvents.get(code) || { protests: 0, riots: 0 };
+    const events = countryEvents.get(code) || { protests: 0, riots: 0, battles: 0, explosions: 0, civilian: 0, fatalities: 0 };
     const baseline = BASELINE_RISK[code] || 20;
     const multiplier = EVENT_MULTIPLIER[code] || 1.0;
     const unrest = Math.min(100, Math.round((events.protests + events.riots * 2) * multiplier * 2));
-    const security = Math.min(100, baseline + events.riots * multiplier * 5);
-    const information = Math.min(100, (events.protests + events.riots) * multiplier * 3);
-    const composite = Math.min(100, Math.round(baseline + (unrest * 0.4 + security * 0.35 + information * 0.25) * 0.5));
+    const conflict = conflictScore(events, multiplier);
+    const security = Math.min(100, Math.round(baseline + events.riots * multiplier * 5));
+    const information = Math.min(100, Math.round((events.protests + events.riots) * multiplier * 3));
+    // Component weights match the client CII (country-instability.ts)
+    const composite = Math.min(100, Math.round(baseline + (unrest * 0.25 + conflict * 0.3 + security * 0.2 + information * 0.25) * 0.5));
 
     scores.push({
       region: code,
@@ -107,11 +140,12 @@ function computeCIIScores(protests: AcledEvent[]): CiiScore[] {
       dynamicScore: composite - baseline,
       combinedScore: composite,
       trend: 'TREND_DIRECTION_STABLE' as TrendDirection,
+      // Slots follow the mapping in src/services/cached-risk-scores.ts (toCachedCII).
       components: {
         newsActivity: information,
         ciiContribution: unrest,
-        geoConvergence: 0,
-        militaryActivity: 0,
+        geoConvergence: conflict,
+        militaryActivity: security,
       },
       computedAt: Date.now(),
     });
@@ -121,6 +155,19 @@ function computeCIIScores(protests: AcledEvent[]): CiiScore[] {
   return scores;
 }
 
+/** Persist this computation and derive each score's trend from the 24h-old sample. */
+async function applyHistoryTrends(ciiScores: CiiScore[]): Promise<void> {
+  const history = await recordRiskScores(ciiScores);
+  for (const score of ciiScores) {
+    const diff: number = change24h(history.get(score.region));
+    score.trend = (diff >= 5
+      ? 'TREND_DIRECTION_RISING'
+      : diff <= -5
+        ? 'TREND_DIRECTION_FALLING'
+        : 'TREND_DIRECTION_STABLE') as TrendDirection;
+  }
+}
+
 function computeStrategicRisks(ciiScores: CiiScore[]): StrategicRisk[] {
   const top5 = ciiScores.slice(0, 5);
   const weights = top5.map((_, i) => 1 - i * 0.15);
@@ -165,8 +212,12 @@ export async function getRiskScores(
       RISK_CACHE_KEY,
       RISK_CACHE_TTL,
       async () => {
-        const protests = await fetchACLEDProtests();
-        const ciiScores = computeCIIScores(protests);
+        const [protests, conflicts] = await Promise.all([
+          fetchACLEDEvents('Protests|Riots'),
+          fetchACLEDEvents('Battles|Explosions/Remote violence|Violence against civilians'),
+        ]);
+        const ciiScores = computeCIIScores([...protests, ...conflicts]);
+        await applyHistoryTrends(ciiScores).catch(() => {});
         const strategicRisks = computeStrategicRisks(ciiScores);
         const r: GetRiskScoresResponse = { ciiScores, strategicRisks };
         await setCachedJson(RISK_STALE_CACHE_KEY, r, RISK_STALE_TTL).catch(() => {});
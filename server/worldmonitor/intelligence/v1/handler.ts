@@ -5,6 +5,7 @@ import { getPizzintStatus } from './get-pizzint-status';
 import { classifyEvent } from './classify-event';
 import { getCountryIntelBrief } from './get-country-intel-brief';
 import { searchGdeltDocuments } from './search-gdelt-documents';
+import { getRiskScoreHistory } from './get-risk-score-history';
 
 export const intelligenceHandler: IntelligenceServiceHandler = {
   getRiskScores,
@@ -12,4 +13,5 @@ export const intelligenceHandler: IntelligenceServiceHandler = {
   classifyEvent,
   getCountryIntelBrief,
   searchGdeltDocuments,
+  getRiskScoreHistory,
 };
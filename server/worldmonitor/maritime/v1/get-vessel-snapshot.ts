@@ -9,6 +9,8 @@ import type {
   AisDisruption,
   AisDisruptionType,
   AisDisruptionSeverity,
+  AisVesselEvent,
+  AisVesselEventType,
 } from '../../../../src/generated/server/worldmonitor/maritime/v1/service_server';
 
 import { CHROME_UA } from '../../../_shared/constants';
@@ -45,6 +47,14 @@ const DISRUPTION_TYPE_MAP: Record<string, AisDisruptionType> = {
   chokepoint_congestion: 'AIS_DISRUPTION_TYPE_CHOKEPOINT_CONGESTION',
 };
 
+const VESSEL_EVENT_TYPE_MAP: Record<string, AisVesselEventType> = {
+  ais_gap: 'AIS_VESSEL_EVENT_TYPE_AIS_GAP',
+  loitering: 'AIS_VESSEL_EVENT_TYPE_LOITERING',
+  rendezvous: 'AIS_VESSEL_EVENT_TYPE_RENDEZVOUS',
+  speed_anomaly: 'AIS_VESSEL_EVENT_TYPE_SPEED_ANOMALY',
+  course_anomaly: 'AIS_VESSEL_EVENT_TYPE_COURSE_ANOMALY',
+};
+
 const SEVERITY_MAP: Record<string, AisDisruptionSeverity> = {
   low: 'AIS_DISRUPTION_SEVERITY_LOW',
   elevated: 'AIS_DISRUPTION_SEVERITY_ELEVATED',
@@ -132,10 +142,33 @@ async function fetchVesselSnapshotFromRelay(): Promise<VesselSnapshot | undefine
       description: String(d.description || ''),
     }));
 
+    const rawEvents: any[] = Array.isArray(data.vesselEvents) ? data.vesselEvents : [];
+    const vesselEvents: AisVesselEvent[] = rawEvents.map((e: any): AisVesselEvent => ({
+      id: String(e.id || ''),
+      type: VESSEL_EVENT_TYPE_MAP[e.type] || 'AIS_VESSEL_EVENT_TYPE_UNSPECIFIED',
+      mmsi: String(e.mmsi || ''),
+      vesselName: String(e.name || ''),
+      shipType: Number(e.shipType) || 0,
+      otherMmsi: String(e.otherMmsi || ''),
+      otherVesselName: String(e.otherName || ''),
+      location: {
+        latitude: Number(e.lat) || 0,
+        longitude: Number(e.lon) || 0,
+      },
+      startedAt: Number(e.startedAt) || 0,
+      endedAt: Number(e.endedAt) || 0,
+      ongoing: Boolean(e.ongoing),
+      waterway: String(e.waterway || ''),
+      distanceKm: Number(e.distanceKm) || 0,
+      severity: SEVERITY_MAP[e.severity] || 'AIS_DISRUPTION_SEVERITY_UNSPECIFIED',
+      description: String(e.description || ''),
+    }));
+
     return {
       snapshotAt: Date.now(),
       densityZones,
       disruptions,
+      vesselEvents,
     };
   } catch {
     return undefined;
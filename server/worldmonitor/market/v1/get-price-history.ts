@@ -0,0 +1,182 @@
+/**
+ * RPC: GetPriceHistory
+ * Fetches OHLCV candles for stocks and commodities from the Yahoo Finance
+ * chart API and for crypto from the CoinGecko market_chart API.
+ */
+
+import type {
+  ServerContext,
+  GetPriceHistoryRequest,
+  GetPriceHistoryResponse,
+  PriceAssetClass,
+  PriceCandle,
+  PriceResolution,
+} from '../../../../src/generated/server/worldmonitor/market/v1/service_server';
+import { UPSTREAM_TIMEOUT_MS, type YahooChartResponse } from './_shared';
+import { CHROME_UA, yahooGate } from '../../../_shared/constants';
+import { cachedFetchJson } from '../../../_shared/redis';
+
+// ========================================================================
+// Resolution windows
+// ========================================================================
+
+interface ResolutionWindow {
+  yahooInterval: string;
+  yahooRange: string;
+  coingeckoDays: number;
+  bucketMs: number;
+  ttl: number;
+}
+
+type ServedResolution = Exclude<PriceResolution, 'PRICE_RESOLUTION_UNSPECIFIED'>;
+
+const WINDOWS: Record<ServedResolution, ResolutionWindow> = {
+  PRICE_RESOLUTION_1M: { yahooInterval: '1m', yahooRange: '1d', coingeckoDays: 1, bucketMs: 60_000, ttl: 60 },
+  PRICE_RESOLUTION_5M: { yahooInterval: '5m', yahooRange: '5d', coingeckoDays: 1, bucketMs: 300_000, ttl: 120 },
+  PRICE_RESOLUTION_1H: { yahooInterval: '60m', yahooRange: '1mo', coingeckoDays: 30, bucketMs: 3_600_000, ttl: 600 },
+  PRICE_RESOLUTION_1D: { yahooInterval: '1d', yahooRange: '1y', coingeckoDays: 365, bucketMs: 86_400_000, ttl: 3600 },
+};
+
+const REDIS_CACHE_KEY = 'market:price-history:v1';
+
+// ========================================================================
+// Candle builders
+// ========================================================================
+
+/** Zip Yahoo's parallel OHLCV arrays into candles, skipping bars with no trades. */
+export function candlesFromYahoo(result: YahooChartResponse['chart']['result'][number] | undefined): PriceCandle[] {
+  const timestamps = result?.timestamp ?? [];
+  const quote = result?.indicators?.quote?.[0];
+  if (!quote) return [];
+  const candles: PriceCandle[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    const close = quote.close?.[i];
+    if (close == null) continue;
+    const open = quote.open?.[i] ?? close;
+    candles.push({
+      timestamp: timestamps[i]! * 1000,
+      open,
+      high: quote.high?.[i] ?? Math.max(open, close),
+      low: quote.low?.[i] ?? Math.min(open, close),
+      close,
+      volume: quote.volume?.[i] ?? 0,
+    });
+  }
+  return candles;
+}
+
+/**
+ * Bucket CoinGecko [ms, price] samples into candles of `bucketMs` width.
+ * `total_volumes` samples are rolling 24h volumes, so each candle takes the
+ * latest one that falls in its bucket rather than a sum.
+ */
+export function aggregateCandles(
+  points: Array<[number, number]>,
+  bucketMs: number,
+  volumes: Array<[number, number]> = [],
+): PriceCandle[] {
+  const candles: PriceCandle[] = [];
+  let current: PriceCandle | null = null;
+  for (const [ts, price] of [...points].sort((a, b) => a[0] - b[0])) {
+    if (!Number.isFinite(price)) continue;
+    const bucket = Math.floor(ts / bucketMs) * bucketMs;
+    if (current && current.timestamp === bucket) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      continue;
+    }
+    current = { timestamp: bucket, open: price, high: price, low: price, close: price, volume: 0 };
+    candles.push(current);
+  }
+
+  const byBucket = new Map(candles.map(c => [c.timestamp, c]));
+  for (const [ts, volume] of [...volumes].sort((a, b) => a[0] - b[0])) {
+    if (!Number.isFinite(volume)) continue;
+    const candle = byBucket.get(Math.floor(ts / bucketMs) * bucketMs);
+    if (candle) candle.volume = volume;
+  }
+  return candles;
+}
+
+function inferAssetClass(symbol: string, assetClass: PriceAssetClass): PriceAssetClass {
+  if (assetClass !== 'PRICE_ASSET_CLASS_UNSPECIFIED') return assetClass;
+  return /^[a-z0-9-]+$/.test(symbol) ? 'PRICE_ASSET_CLASS_CRYPTO' : 'PRICE_ASSET_CLASS_STOCK';
+}
+
+// ========================================================================
+// Upstream fetchers
+// ========================================================================
+
+async function fetchYahooHistory(symbol: string, window: ResolutionWindow): Promise<{ currency: string; candles: PriceCandle[] } | null> {
+  await yahooGate();
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?range=${window.yahooRange}&interval=${window.yahooInterval}`;
+  const resp = await fetch(url, {
+    headers: { 'User-Agent': CHROME_UA },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!resp.ok) return null;
+  const data: YahooChartResponse = await resp.json();
+  const result = data?.chart?.result?.[0];
+  const candles = candlesFromYahoo(result);
+  return candles.length > 0 ? { currency: result?.meta?.currency || 'USD', candles } : null;
+}
+
+async function fetchCoinGeckoHistory(id: string, window: ResolutionWindow): Promise<PriceCandle[] | null> {
+  const url = `https://api.coingecko.com/api/v3/coins/${encodeURIComponent(id)}/market_chart?vs_currency=usd&days=${window.coingeckoDays}`;
+  const resp = await fetch(url, {
+    headers: { Accept: 'application/json', 'User-Agent': CHROME_UA },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    const body = await resp.text().catch(() => '');
+    throw new Error(`CoinGecko HTTP ${resp.status}: ${body.slice(0, 200)}`);
+  }
+  const data = await resp.json() as { prices?: Array<[number, number]>; total_volumes?: Array<[number, number]> };
+  const candles = aggregateCandles(
+    Array.isArray(data?.prices) ? data.prices : [],
+    window.bucketMs,
+    Array.isArray(data?.total_volumes) ? data.total_volumes : [],
+  );
+  return candles.length > 0 ? candles : null;
+}
+
+// ========================================================================
+// Handler
+// ========================================================================
+
+export async function getPriceHistory(
+  _ctx: ServerContext,
+  req: GetPriceHistoryRequest,
+): Promise<GetPriceHistoryResponse> {
+  const symbol = (req.symbol || '').trim();
+  const assetClass = inferAssetClass(symbol, req.assetClass || 'PRICE_ASSET_CLASS_UNSPECIFIED');
+  const crypto = assetClass === 'PRICE_ASSET_CLASS_CRYPTO';
+  let resolution: ServedResolution = !req.resolution || req.resolution === 'PRICE_RESOLUTION_UNSPECIFIED'
+    ? 'PRICE_RESOLUTION_1D'
+    : req.resolution;
+  // CoinGecko samples the last day at five-minute intervals at best.
+  if (crypto && resolution === 'PRICE_RESOLUTION_1M') resolution = 'PRICE_RESOLUTION_5M';
+
+  const empty: GetPriceHistoryResponse = {
+    symbol, resolution, currency: crypto ? 'USD' : '', provider: crypto ? 'coingecko' : 'yahoo', candles: [],
+  };
+  if (!symbol) return empty;
+
+  const window = WINDOWS[resolution];
+  const cacheKey = `${REDIS_CACHE_KEY}:${assetClass}:${symbol}:${resolution}`;
+
+  try {
+    const result = await cachedFetchJson<GetPriceHistoryResponse | null>(cacheKey, window.ttl, async () => {
+      if (crypto) {
+        const candles = await fetchCoinGeckoHistory(symbol, window);
+        return candles ? { ...empty, candles } : null;
+      }
+      const history = await fetchYahooHistory(symbol, window);
+      return history ? { ...empty, currency: history.currency, candles: history.candles } : null;
+    });
+    return result || empty;
+  } catch {
+    return empty;
+  }
+}
@@ -9,6 +9,7 @@
  *   - ListStablecoinMarkets (CoinGecko stablecoin peg health)
  *   - ListEtfFlows          (Yahoo Finance BTC spot ETF flow estimates)
  *   - GetCountryStockIndex  (Yahoo Finance national stock indices)
+ *   - GetPriceHistory       (Yahoo Finance / CoinGecko OHLCV candles)
  */
 
 import type { MarketServiceHandler } from '../../../../src/generated/server/worldmonitor/market/v1/service_server';
@@ -19,6 +20,7 @@ import { getSectorSummary } from './get-sector-summary';
 import { listStablecoinMarkets } from './list-stablecoin-markets';
 import { listEtfFlows } from './list-etf-flows';
 import { getCountryStockIndex } from './get-country-stock-index';
+import { getPriceHistory } from './get-price-history';
 
 export const marketHandler: MarketServiceHandler = {
   listMarketQuotes,
@@ -28,4 +30,5 @@ export const marketHandler: MarketServiceHandler = {
   listStablecoinMarkets,
   listEtfFlows,
   getCountryStockIndex,
+  getPriceHistory,
 };
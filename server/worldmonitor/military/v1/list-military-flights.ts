@@ -10,6 +10,7 @@ import type {
 import { isMilitaryCallsign, isMilitaryHex, detectAircraftType, UPSTREAM_TIMEOUT_MS } from './_shared';
 import { CHROME_UA } from '../../../_shared/constants';
 import { cachedFetchJson } from '../../../_shared/redis';
+import { resolveCountry } from '../../../_shared/country-bounds';
 
 const REDIS_CACHE_KEY = 'military:flights:v1';
 const REDIS_CACHE_TTL = 600; // 10 min — reduce upstream API pressure
@@ -60,6 +61,17 @@ function filterFlightsToBounds(
   });
 }
 
+/**
+ * A country filter's bounding box. OpenSky can't query across the
+ * antimeridian, so countries spanning it are cut at 180°E.
+ */
+function countryBounds(country: string): RequestBounds | null {
+  const bounds = resolveCountry(country)?.bounds;
+  if (!bounds) return null;
+  const [west, south, east, north] = bounds;
+  return { south, north, west, east: west > east ? 180 : east };
+}
+
 const AIRCRAFT_TYPE_MAP: Record<string, string> = {
   tanker: 'MILITARY_AIRCRAFT_TYPE_TANKER',
   awacs: 'MILITARY_AIRCRAFT_TYPE_AWACS',
@@ -74,7 +86,15 @@ export async function listMilitaryFlights(
   req: ListMilitaryFlightsRequest,
 ): Promise<ListMilitaryFlightsResponse> {
   try {
-    const bb = req.boundingBox;
+    const country = req.country ? countryBounds(req.country) : null;
+    if (req.country && !country) return { flights: [], clusters: [], pagination: undefined };
+    // Without a bbox, a country filter queries the country's own box.
+    const bb = req.boundingBox?.southWest && req.boundingBox?.northEast
+      ? req.boundingBox
+      : country && {
+        southWest: { latitude: country.south, longitude: country.west },
+        northEast: { latitude: country.north, longitude: country.east },
+      };
     if (!bb?.southWest || !bb?.northEast) return { flights: [], clusters: [], pagination: undefined };
     const requestBounds = normalizeBounds(bb);
 
@@ -164,7 +184,9 @@ export async function listMilitaryFlights(
     );
 
     if (!fullResult) return { flights: [], clusters: [], pagination: undefined };
-    return { ...fullResult, flights: filterFlightsToBounds(fullResult.flights, requestBounds) };
+    let flights = filterFlightsToBounds(fullResult.flights, requestBounds);
+    if (country) flights = filterFlightsToBounds(flights, country);
+    return { ...fullResult, flights };
   } catch {
     return { flights: [], clusters: [], pagination: undefined };
   }
@@ -0,0 +1,99 @@
+/**
+ * Headline clustering for ListNewsClusters.
+ * Plain JS module so it can be imported from both TS source and .mjs tests.
+ *
+ * Mirrors clusterNewsCore in src/services/analysis-core.ts (and the
+ * tokenizer in src/utils/analysis-constants.ts), which the server cannot
+ * import because of its browser-only dependencies. Keep them in sync.
+ */
+
+export const SIMILARITY_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
+  'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need',
+  'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'he',
+  'she', 'we', 'they', 'what', 'which', 'who', 'whom', 'how', 'when',
+  'where', 'why', 'all', 'each', 'every', 'both', 'few', 'more', 'most',
+  'other', 'some', 'such', 'no', 'not', 'only', 'same', 'so', 'than',
+  'too', 'very', 'just', 'also', 'now', 'new', 'says', 'said', 'after',
+]);
+
+/** @param {string} text */
+export function tokenize(text) {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+  return new Set(words);
+}
+
+/** @param {Set<string>} a @param {Set<string>} b */
+export function jaccardSimilarity(a, b) {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) if (b.has(token)) intersection++;
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Group items by title similarity.
+ *
+ * Returns one entry per cluster with item indexes ordered most authoritative
+ * first (lowest tier, then newest), plus the cluster id, first-seen and
+ * last-updated times. Clusters are sorted most recently updated first.
+ *
+ * @param {Array<{ title: string; publishedAt: number; tier: number }>} items
+ * @returns {Array<{ id: string; indexes: number[]; firstSeen: number; lastUpdated: number }>}
+ */
+export function clusterByTitle(items) {
+  const tokenList = items.map((item) => tokenize(item.title));
+  const invertedIndex = new Map();
+  tokenList.forEach((tokens, index) => {
+    for (const token of tokens) {
+      const bucket = invertedIndex.get(token);
+      if (bucket) bucket.push(index);
+      else invertedIndex.set(token, [index]);
+    }
+  });
+
+  const groups = [];
+  const assigned = new Set();
+  for (let i = 0; i < items.length; i++) {
+    if (assigned.has(i)) continue;
+    const group = [i];
+    assigned.add(i);
+
+    const candidates = new Set();
+    for (const token of tokenList[i]) {
+      for (const j of invertedIndex.get(token) ?? []) {
+        if (j > i) candidates.add(j);
+      }
+    }
+    for (const j of [...candidates].sort((a, b) => a - b)) {
+      if (assigned.has(j)) continue;
+      if (jaccardSimilarity(tokenList[i], tokenList[j]) >= SIMILARITY_THRESHOLD) {
+        group.push(j);
+        assigned.add(j);
+      }
+    }
+    groups.push(group);
+  }
+
+  return groups.map((group) => {
+    const indexes = [...group].sort((a, b) =>
+      (items[a].tier - items[b].tier) || (items[b].publishedAt - items[a].publishedAt));
+    const times = group.map((index) => items[index].publishedAt);
+    const first = items[group.reduce((best, index) =>
+      (items[index].publishedAt < items[best].publishedAt ? index : best), group[0])];
+    return {
+      id: `${first.publishedAt}-${first.title.slice(0, 20).replace(/\W/g, '')}`,
+      indexes,
+      firstSeen: Math.min(...times),
+      lastUpdated: Math.max(...times),
+    };
+  }).sort((a, b) => b.lastUpdated - a.lastUpdated);
+}
@@ -0,0 +1,93 @@
+/**
+ * RSS 2.0 / RSS 1.0 (RDF) / Atom parsing for ListNewsClusters.
+ * Plain JS module so it can be imported from both TS source and .mjs tests.
+ *
+ * Follows fetchFeed in src/services/rss.ts: title, link and publication
+ * time of the first `limit` entries, with unparseable dates mapped to `now`.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  htmlEntities: true,
+  isArray: (_name, jpath) => /\.(item|entry|link)$/.test(jpath),
+});
+
+const RSS_PROXY_PREFIX = '/api/rss-proxy?url=';
+
+/** Text content of a parsed node (plain string, CDATA or `#text` object). */
+function text(node) {
+  if (node == null) return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node).trim();
+  if (Array.isArray(node)) return text(node[0]);
+  if (typeof node === 'object' && '#text' in node) return text(node['#text']);
+  return '';
+}
+
+function atomLink(links) {
+  const list = Array.isArray(links) ? links : links ? [links] : [];
+  const alternate = list.find((l) => typeof l === 'object' && l['@_href'] && (!l['@_rel'] || l['@_rel'] === 'alternate'));
+  const any = alternate ?? list.find((l) => typeof l === 'object' && l['@_href']);
+  return any ? String(any['@_href']) : text(list[0]);
+}
+
+function toTime(value, now) {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? now : time;
+}
+
+/**
+ * @param {string} xml
+ * @param {number} [limit]
+ * @param {number} [now]
+ * @returns {Array<{ title: string; link: string; publishedAt: number }>}
+ */
+export function parseFeedItems(xml, limit = 5, now = Date.now()) {
+  let doc;
+  try {
+    doc = xmlParser.parse(xml);
+  } catch {
+    return [];
+  }
+
+  const channel = doc?.rss?.channel;
+  const rssItems = (Array.isArray(channel) ? channel[0] : channel)?.item ?? doc?.['rdf:RDF']?.item;
+  if (Array.isArray(rssItems)) {
+    return rssItems.slice(0, limit).map((item) => ({
+      title: text(item.title),
+      link: text(item.link),
+      publishedAt: toTime(text(item.pubDate) || text(item['dc:date']), now),
+    })).filter((item) => item.title);
+  }
+
+  const entries = doc?.feed?.entry;
+  if (Array.isArray(entries)) {
+    return entries.slice(0, limit).map((entry) => ({
+      title: text(entry.title),
+      link: atomLink(entry.link),
+      publishedAt: toTime(text(entry.published) || text(entry.updated), now),
+    })).filter((item) => item.title);
+  }
+
+  return [];
+}
+
+/**
+ * Upstream URL of a feed from src/config/feeds.ts. Feeds there point at the
+ * browser-facing rss-proxy; the server fetches the origin directly. Returns
+ * null for other same-origin endpoints, which only the browser can reach.
+ *
+ * @param {string} url
+ */
+export function resolveFeedUrl(url) {
+  if (url.startsWith(RSS_PROXY_PREFIX)) {
+    try {
+      return decodeURIComponent(url.slice(RSS_PROXY_PREFIX.length));
+    } catch {
+      return null;
+    }
+  }
+  return /^https?:\/\//.test(url) ? url : null;
+}
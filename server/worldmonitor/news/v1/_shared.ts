@@ -197,3 +197,29 @@ export function getProviderCredentials(provider: string): ProviderCredentials |
 
   return null;
 }
+
+export const PROVIDER_SKIP_REASONS: Record<string, string> = {
+  ollama: 'OLLAMA_API_URL not configured',
+  groq: 'GROQ_API_KEY not configured',
+  openrouter: 'OPENROUTER_API_KEY not configured',
+};
+
+// ========================================================================
+// LLM output cleanup
+// ========================================================================
+
+/** Remove thinking/reasoning blocks, including unterminated ones, from model output. */
+export function stripReasoningBlocks(text: string): string {
+  return text
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/<\|thinking\|>[\s\S]*?<\|\/thinking\|>/gi, '')
+    .replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '')
+    .replace(/<reflection>[\s\S]*?<\/reflection>/gi, '')
+    .trim()
+    // Strip unterminated thinking blocks (no closing tag)
+    .replace(/<think>[\s\S]*/gi, '')
+    .replace(/<\|thinking\|>[\s\S]*/gi, '')
+    .replace(/<reasoning>[\s\S]*/gi, '')
+    .replace(/<reflection>[\s\S]*/gi, '')
+    .trim();
+}
@@ -0,0 +1,139 @@
+import type {
+  ChatAnalystRequest,
+  ChatAnalystResponse,
+  ServerContext,
+} from '../../../../src/generated/server/worldmonitor/news/v1/service_server';
+
+import { buildAnalystSystemPrompt, MAX_MESSAGE_LENGTH } from '../../../../src/services/analyst-chat/protocol';
+import { getProviderCredentials, PROVIDER_SKIP_REASONS, stripReasoningBlocks } from './_shared';
+import { CHROME_UA } from '../../../_shared/constants';
+
+const MAX_MESSAGES = 24;
+// ~8k tokens of transcript per call; older turns are dropped past this.
+const MAX_CONVERSATION_CHARS = 32_000;
+
+// Per-IP limit on provider calls. One question takes up to four (three tool
+// rounds and the answer), so this allows about ten questions per window.
+const RATE_LIMIT = 40;
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+const rateLimitMap = new Map<string, { windowStart: number; count: number }>();
+
+function isRateLimited(ip: string): boolean {
+  const now = Date.now();
+  const entry = rateLimitMap.get(ip);
+  if (!entry || now - entry.windowStart > RATE_WINDOW_MS) {
+    rateLimitMap.set(ip, { windowStart: now, count: 1 });
+    return false;
+  }
+  entry.count += 1;
+  return entry.count > RATE_LIMIT;
+}
+
+/** Newest messages whose combined length fits MAX_CONVERSATION_CHARS. */
+function fitConversation<T extends { content: string }>(messages: T[]): T[] {
+  let total = 0;
+  let start = messages.length;
+  while (start > 0 && total + messages[start - 1]!.content.length <= MAX_CONVERSATION_CHARS) {
+    start--;
+    total += messages[start]!.content.length;
+  }
+  return messages.slice(start);
+}
+
+function emptyResponse(provider: string, fields: Partial<ChatAnalystResponse>): ChatAnalystResponse {
+  return {
+    reply: '',
+    model: '',
+    provider,
+    tokens: 0,
+    fallback: false,
+    skipped: false,
+    reason: '',
+    error: '',
+    errorType: '',
+    ...fields,
+  };
+}
+
+// ======================================================================
+// ChatAnalyst: one step of the dashboard analyst conversation.
+// The browser runs the tools and keeps the transcript; this handler only
+// adds the system prompt and forwards the conversation to the provider.
+// Replies are not cached since every conversation is different.
+// ======================================================================
+
+export async function chatAnalyst(
+  ctx: ServerContext,
+  req: ChatAnalystRequest,
+): Promise<ChatAnalystResponse> {
+  const { provider, lang = 'en' } = req;
+
+  const credentials = getProviderCredentials(provider);
+  if (!credentials) {
+    return emptyResponse(provider, {
+      fallback: true,
+      skipped: true,
+      reason: PROVIDER_SKIP_REASONS[provider] || `Unknown provider: ${provider}`,
+    });
+  }
+
+  const messages = fitConversation((Array.isArray(req.messages) ? req.messages : [])
+    .filter(m => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string' && m.content.trim())
+    .slice(-MAX_MESSAGES)
+    .map(m => ({ role: m.role, content: m.content.slice(0, MAX_MESSAGE_LENGTH) })));
+
+  if (messages.length === 0 || messages[messages.length - 1]!.role !== 'user') {
+    return emptyResponse(provider, {
+      error: 'Conversation must end with a user message',
+      errorType: 'ValidationError',
+    });
+  }
+
+  const ip = ctx.headers?.['x-forwarded-for']?.split(',')[0]?.trim() || 'unknown';
+  if (isRateLimited(ip)) {
+    return emptyResponse(provider, { error: 'Rate limited', errorType: 'RateLimitError' });
+  }
+
+  const { apiUrl, model, headers: providerHeaders, extraBody } = credentials;
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { ...providerHeaders, 'User-Agent': CHROME_UA },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: buildAnalystSystemPrompt(new Date(), typeof lang === 'string' ? lang.slice(0, 10) : 'en') },
+          ...messages,
+        ],
+        temperature: 0.2,
+        max_tokens: 700,
+        ...extraBody,
+      }),
+      signal: AbortSignal.timeout(45_000),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[ChatAnalyst:${provider}] API error:`, response.status, errorText);
+      throw new Error(response.status === 429 ? 'Rate limited' : `${provider} API error`);
+    }
+
+    const data = await response.json() as any;
+    const message = data.choices?.[0]?.message;
+    const reply = stripReasoningBlocks(typeof message?.content === 'string' ? message.content : '');
+    if (!reply) {
+      return emptyResponse(provider, { fallback: true, error: 'Empty response' });
+    }
+
+    return emptyResponse(provider, {
+      reply,
+      model,
+      tokens: (data.usage?.total_tokens as number) || 0,
+    });
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error(`[ChatAnalyst:${provider}] Error:`, error.name, error.message);
+    return emptyResponse(provider, { fallback: true, error: error.message, errorType: error.name });
+  }
+}
@@ -1,7 +1,11 @@
 import type { NewsServiceHandler } from '../../../../src/generated/server/worldmonitor/news/v1/service_server';
 
 import { summarizeArticle } from './summarize-article';
+import { listNewsClusters } from './list-news-clusters';
+import { chatAnalyst } from './chat-analyst';
 
 export const newsHandler: NewsServiceHandler = {
   summarizeArticle,
+  listNewsClusters,
+  chatAnalyst,
 };
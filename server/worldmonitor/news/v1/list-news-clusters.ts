@@ -0,0 +1,262 @@
+/**
+ * RPC: listNewsClusters
+ *
+ * Polls the variant's RSS feeds (src/config/feeds.ts) on the server, then
+ * classifies, geotags, tiers and clusters the newest headlines per category,
+ * so browsers no longer fetch every feed through /api/rss-proxy themselves.
+ *
+ * Raw feed items are cached per variant/category/language with
+ * stale-while-revalidate; the per-request work (disabled-source filter,
+ * classification, clustering) is cheap and runs on the cached items.
+ *
+ * A cold cache means polling every feed of every category, which can take
+ * far longer than a request should. Each invocation waits at most
+ * POLL_BUDGET_MS; categories still polling after that are left out of the
+ * response (the client fetches those itself). Their polls are handed to the
+ * platform's waitUntil so they finish and fill the cache for the next request.
+ *
+ * Only supported UI languages are accepted; anything else polls as English, so
+ * made-up `lang` values can't each start a cold poll under a new cache key.
+ */
+
+import type {
+  ServerContext,
+  ListNewsClustersRequest,
+  ListNewsClustersResponse,
+  NewsCategoryDigest,
+  NewsCluster,
+  NewsItem,
+  ThreatClassification as ProtoThreatClassification,
+  ThreatLevel as ProtoThreatLevel,
+} from '../../../../src/generated/server/worldmonitor/news/v1/service_server';
+
+import type { Feed } from '../../../../src/types';
+import { INTEL_SOURCES, VARIANT_FEEDS, getSourceTier } from '../../../../src/config/feeds';
+import { inferGeoHubsFromTitle } from '../../../../src/services/geo-hub-index';
+import {
+  aggregateThreats,
+  classifyByKeyword,
+  type ThreatClassification,
+  type ThreatLevel,
+} from '../../../../src/services/threat-keywords';
+import { CHROME_UA } from '../../../_shared/constants';
+import { cachedFetchJson } from '../../../_shared/redis';
+import { waitUntil } from '../../../_shared/wait-until';
+// @ts-expect-error — .mjs module, no declaration file
+import { clusterByTitle } from './_clustering.mjs';
+// @ts-expect-error — .mjs module, no declaration file
+import { parseFeedItems, resolveFeedUrl } from './_feed-parser.mjs';
+
+const CACHE_KEY_PREFIX = 'news:feeds:v1';
+const CACHE_TTL_SECONDS = 300; // 5 min — matches the client refresh cadence
+const CACHE_STALE_SECONDS = 1800; // serve up to 30 min old items while re-polling
+const ITEMS_PER_FEED = 5;
+const TOP_ITEMS_PER_CATEGORY = 20;
+const FEED_TIMEOUT_MS = 10_000;
+const FEED_CONCURRENCY = 8;
+const POLL_BUDGET_MS = 8_000;
+// Same list as SUPPORTED_LANGUAGES in src/services/i18n.ts
+const SUPPORTED_LANGS = new Set(['en', 'fr', 'de', 'el', 'es', 'it', 'pl', 'pt', 'nl', 'sv', 'ru', 'ar', 'zh', 'ja', 'tr', 'th', 'vi']);
+
+const LEVEL_TO_PROTO: Record<ThreatLevel, ProtoThreatLevel> = {
+  critical: 'THREAT_LEVEL_CRITICAL',
+  high: 'THREAT_LEVEL_HIGH',
+  medium: 'THREAT_LEVEL_MEDIUM',
+  low: 'THREAT_LEVEL_LOW',
+  info: 'THREAT_LEVEL_UNSPECIFIED',
+};
+
+interface RawFeedItem {
+  title: string;
+  link: string;
+  publishedAt: number;
+}
+
+interface TitleCluster {
+  id: string;
+  /** Indexes into the digest entries, most authoritative first. */
+  indexes: number[];
+  firstSeen: number;
+  lastUpdated: number;
+}
+
+interface CategorySnapshot {
+  polledAt: number;
+  feeds: Array<{ name: string; lang?: string; items: RawFeedItem[] }>;
+  failed: string[];
+}
+
+// ---------- Feed polling ----------
+
+function categoryFeeds(variant: string, category: string): Feed[] {
+  if (category === 'intel' && variant === 'full') return INTEL_SOURCES;
+  return VARIANT_FEEDS[variant]?.[category] ?? [];
+}
+
+function feedUrl(feed: Feed, lang: string): string | null {
+  const url = typeof feed.url === 'string'
+    ? feed.url
+    : feed.url[lang] || feed.url['en'] || Object.values(feed.url)[0] || '';
+  return url ? resolveFeedUrl(url) : null;
+}
+
+async function fetchFeedItems(url: string): Promise<RawFeedItem[] | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/rss+xml, application/xml, text/xml, */*', 'User-Agent': CHROME_UA },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    return parseFeedItems(await response.text(), ITEMS_PER_FEED);
+  } catch {
+    return null;
+  }
+}
+
+async function pollCategory(feeds: Feed[], lang: string): Promise<CategorySnapshot | null> {
+  const pollable = feeds
+    .filter(feed => !feed.lang || feed.lang === lang)
+    .map(feed => ({ feed, url: feedUrl(feed, lang) }))
+    .filter((entry): entry is { feed: Feed; url: string } => entry.url !== null);
+
+  const snapshot: CategorySnapshot = { polledAt: Date.now(), feeds: [], failed: [] };
+  for (let i = 0; i < pollable.length; i += FEED_CONCURRENCY) {
+    const batch = pollable.slice(i, i + FEED_CONCURRENCY);
+    const results = await Promise.all(batch.map(({ url }) => fetchFeedItems(url)));
+    results.forEach((items, idx) => {
+      const { feed } = batch[idx]!;
+      if (items) snapshot.feeds.push({ name: feed.name, lang: feed.lang, items });
+      else snapshot.failed.push(feed.name);
+    });
+  }
+
+  // Don't cache a poll where every feed failed; the next request retries.
+  if (pollable.length > 0 && snapshot.feeds.length === 0) return null;
+  return snapshot;
+}
+
+// ---------- Digest ----------
+
+function toProtoThreat(threat: ThreatClassification): ProtoThreatClassification {
+  return { level: LEVEL_TO_PROTO[threat.level], category: threat.category, confidence: threat.confidence };
+}
+
+function buildDigest(
+  category: string,
+  snapshot: CategorySnapshot,
+  variant: string,
+  disabled: Set<string>,
+): NewsCategoryDigest {
+  const entries = snapshot.feeds
+    .filter(feed => !disabled.has(feed.name))
+    .flatMap(feed => feed.items.map(item => ({ ...item, source: feed.name, lang: feed.lang ?? '' })))
+    .sort((a, b) => b.publishedAt - a.publishedAt)
+    .slice(0, TOP_ITEMS_PER_CATEGORY)
+    .map(entry => {
+      const threat = classifyByKeyword(entry.title, variant);
+      const topGeo = inferGeoHubsFromTitle(entry.title)[0];
+      return { ...entry, threat, tier: getSourceTier(entry.source), hub: topGeo?.hub };
+    });
+
+  const items: NewsItem[] = entries.map(entry => ({
+    source: entry.source,
+    title: entry.title,
+    link: entry.link,
+    publishedAt: entry.publishedAt,
+    isAlert: entry.threat.level === 'critical' || entry.threat.level === 'high',
+    threat: toProtoThreat(entry.threat),
+    location: entry.hub ? { latitude: entry.hub.lat, longitude: entry.hub.lon } : undefined,
+    locationName: entry.hub?.name ?? '',
+    lang: entry.lang,
+  }));
+
+  const groups: TitleCluster[] = clusterByTitle(entries);
+  const clusters: NewsCluster[] = groups.map(group => {
+    const members = group.indexes.map(index => entries[index]!);
+    const primary = members[0]!;
+
+    // Most common location across members
+    const locCounts = new Map<string, { latitude: number; longitude: number; count: number }>();
+    for (const member of members) {
+      if (!member.hub) continue;
+      const key = `${member.hub.lat},${member.hub.lon}`;
+      const entry = locCounts.get(key) || { latitude: member.hub.lat, longitude: member.hub.lon, count: 0 };
+      entry.count++;
+      locCounts.set(key, entry);
+    }
+    const best = Array.from(locCounts.values()).sort((a, b) => b.count - a.count)[0];
+
+    return {
+      id: group.id,
+      primaryTitle: primary.title,
+      primarySource: primary.source,
+      primaryLink: primary.link,
+      sourceCount: members.length,
+      topSources: members.slice(0, 3).map(member => ({ name: member.source, tier: member.tier, url: member.link })),
+      itemIndexes: group.indexes,
+      firstSeen: group.firstSeen,
+      lastUpdated: group.lastUpdated,
+      isAlert: group.indexes.some(index => items[index]!.isAlert),
+      threat: toProtoThreat(aggregateThreats(members)),
+      location: best ? { latitude: best.latitude, longitude: best.longitude } : undefined,
+      lang: primary.lang,
+    };
+  });
+
+  return { category, items, clusters, failedSources: snapshot.failed.filter(name => !disabled.has(name)) };
+}
+
+// ---------- RPC ----------
+
+function normalizeLang(value: string | undefined): string {
+  const base = (value || 'en').split('-')[0]!.toLowerCase();
+  return SUPPORTED_LANGS.has(base) ? base : 'en';
+}
+
+export async function listNewsClusters(
+  ctx: ServerContext,
+  req: ListNewsClustersRequest,
+): Promise<ListNewsClustersResponse> {
+  const variant = req.variant && VARIANT_FEEDS[req.variant] ? req.variant : 'full';
+  const lang = normalizeLang(req.lang);
+  const disabled = new Set(req.disabledSources ?? []);
+
+  const available = Object.keys(VARIANT_FEEDS[variant]!);
+  if (variant === 'full') available.push('intel');
+  const requested = req.categories?.length
+    ? [...new Set(req.categories)].filter(category => available.includes(category))
+    : available;
+
+  let budgetTimer: ReturnType<typeof setTimeout> | undefined;
+  const budgetSpent = new Promise<'pending'>((resolve) => {
+    budgetTimer = setTimeout(() => resolve('pending'), POLL_BUDGET_MS);
+  });
+
+  let generatedAt = Date.now();
+  const digests = await Promise.all(requested.map(async (category): Promise<NewsCategoryDigest | null> => {
+    const feeds = categoryFeeds(variant, category);
+    try {
+      const poll = cachedFetchJson<CategorySnapshot | null>(
+        `${CACHE_KEY_PREFIX}:${variant}:${category}:${lang}`,
+        CACHE_TTL_SECONDS,
+        () => pollCategory(feeds, lang),
+        { staleWhileRevalidateSeconds: CACHE_STALE_SECONDS },
+      );
+      waitUntil(ctx.request, poll);
+      const snapshot = await Promise.race([poll, budgetSpent]);
+      // Still polling: leave the category out rather than hold the response.
+      if (snapshot === 'pending') return null;
+      if (!snapshot) {
+        return { category, items: [], clusters: [], failedSources: feeds.map(f => f.name).filter(name => !disabled.has(name)) };
+      }
+      generatedAt = Math.min(generatedAt, snapshot.polledAt);
+      return buildDigest(category, snapshot, variant, disabled);
+    } catch {
+      return null;
+    }
+  }));
+  clearTimeout(budgetTimer);
+
+  const categories = digests.filter((digest): digest is NewsCategoryDigest => digest !== null);
+  return { categories, generatedAt };
+}
@@ -11,6 +11,8 @@ import {
   buildArticlePrompts,
   getProviderCredentials,
   getCacheKey,
+  PROVIDER_SKIP_REASONS,
+  stripReasoningBlocks,
 } from './_shared';
 import { CHROME_UA } from '../../../_shared/constants';
 
@@ -47,12 +49,6 @@ export async function summarizeArticle(
   const sanitizedGeoContext = typeof geoContext === 'string' ? geoContext.slice(0, MAX_GEO_CONTEXT_LEN) : '';
 
   // Provider credential check
-  const skipReasons: Record<string, string> = {
-    ollama: 'OLLAMA_API_URL not configured',
-    groq: 'GROQ_API_KEY not configured',
-    openrouter: 'OPENROUTER_API_KEY not configured',
-  };
-
   const credentials = getProviderCredentials(provider);
   if (!credentials) {
     return {
@@ -63,7 +59,7 @@ export async function summarizeArticle(
       tokens: 0,
       fallback: true,
       skipped: true,
-      reason: skipReasons[provider] || `Unknown provider: ${provider}`,
+      reason: PROVIDER_SKIP_REASONS[provider] || `Unknown provider: ${provider}`,
       error: '',
       errorType: '',
     };
@@ -130,22 +126,7 @@ export async function summarizeArticle(
         const data = await response.json() as any;
         const tokens = (data.usage?.total_tokens as number) || 0;
         const message = data.choices?.[0]?.message;
-        let rawContent = typeof message?.content === 'string' ? message.content.trim() : '';
-
-        rawContent = rawContent
-          .replace(/<think>[\s\S]*?<\/think>/gi, '')
-          .replace(/<\|thinking\|>[\s\S]*?<\|\/thinking\|>/gi, '')
-          .replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '')
-          .replace(/<reflection>[\s\S]*?<\/reflection>/gi, '')
-          .trim();
-
-        // Strip unterminated thinking blocks (no closing tag)
-        rawContent = rawContent
-          .replace(/<think>[\s\S]*/gi, '')
-          .replace(/<\|thinking\|>[\s\S]*/gi, '')
-          .replace(/<reasoning>[\s\S]*/gi, '')
-          .replace(/<reflection>[\s\S]*/gi, '')
-          .trim();
+        const rawContent = stripReasoningBlocks(typeof message?.content === 'string' ? message.content : '');
 
         if (['brief', 'analysis'].includes(mode) && hasReasoningPreamble(rawContent)) {
           console.warn(`[SummarizeArticle:${provider}] Reasoning preamble detected, rejecting`);
@@ -0,0 +1,95 @@
+// One snapshot per 15-minute bucket matches the client's save cadence
+export const SNAPSHOT_BUCKET_MS = 15 * 60 * 1000;
+export const DEFAULT_RETENTION_DAYS = 365;
+export const DEFAULT_MAX_SNAPSHOT_BYTES = 900_000;
+export const DEFAULT_LIST_LIMIT = 2000;
+export const MAX_LIST_LIMIT = 5000;
+export const DEFAULT_LIST_DAYS = 7;
+// Snapshots describe "now" -- clients cannot backfill or forge past buckets
+export const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function bucketStart(timestamp) {
+  return Math.floor(timestamp / SNAPSHOT_BUCKET_MS) * SNAPSHOT_BUCKET_MS;
+}
+
+export function normalizeVariant(variant) {
+  const v = typeof variant === 'string' ? variant.trim().toLowerCase() : '';
+  return /^[a-z]{1,16}$/.test(v) ? v : 'full';
+}
+
+export function parsePositiveInt(raw, fallback) {
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+/** Resolve a list request to a concrete [from, to] window and entry limit. */
+export function resolveRange(from, to, limit, now = Date.now()) {
+  const end = to > 0 ? Math.min(to, now) : now;
+  const start = from > 0 ? Math.min(from, end) : end - DEFAULT_LIST_DAYS * DAY_MS;
+  const max = limit > 0 ? Math.min(MAX_LIST_LIMIT, Math.floor(limit)) : DEFAULT_LIST_LIMIT;
+  return { from: start, to: end, limit: max };
+}
+
+/**
+ * Reject payloads that are too large, not a JSON object, or not describing
+ * the present. Returns a reason string, or null when the snapshot is valid.
+ */
+export function validateSnapshot(timestamp, payload, now = Date.now(), maxBytes = DEFAULT_MAX_SNAPSHOT_BYTES) {
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return 'invalid_timestamp';
+  if (Math.abs(now - timestamp) > MAX_CLOCK_SKEW_MS) return 'stale';
+  if (typeof payload !== 'string' || payload.length < 2) return 'empty';
+  if (byteLength(payload) > maxBytes) return 'too_large';
+  let parsed;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return 'invalid_json';
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return 'invalid_json';
+  if (typeof parsed.timestamp === 'number' && Math.abs(parsed.timestamp - timestamp) > MAX_CLOCK_SKEW_MS) {
+    return 'timestamp_mismatch';
+  }
+  return null;
+}
+
+export function byteLength(text) {
+  return new TextEncoder().encode(text).length;
+}
+
+/** Index members pack "<timestamp>:<sizeBytes>" so listing never touches payloads. */
+export function encodeIndexMember(timestamp, sizeBytes) {
+  return `${timestamp}:${sizeBytes}`;
+}
+
+export function decodeIndexMember(member) {
+  const [ts, size] = String(member).split(':');
+  const timestamp = Number(ts);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return null;
+  return { timestamp, sizeBytes: Number(size) || 0 };
+}
+
+/**
+ * Evenly thin entries (oldest first) down to limit, always keeping the first
+ * and last so the timeline still spans the whole range.
+ */
+export function thinEntries(entries, limit) {
+  if (entries.length <= limit) return entries;
+  if (limit <= 1) return entries.slice(-1);
+  const step = (entries.length - 1) / (limit - 1);
+  const out = [];
+  for (let i = 0; i < limit; i++) out.push(entries[Math.round(i * step)]);
+  return out;
+}
+
+/** The entry nearest to timestamp, if any lies within one bucket of it. */
+export function closestEntry(entries, timestamp, windowMs = SNAPSHOT_BUCKET_MS) {
+  let best = null;
+  for (const entry of entries) {
+    const distance = Math.abs(entry.timestamp - timestamp);
+    if (distance > windowMs) continue;
+    if (!best || distance < Math.abs(best.timestamp - timestamp)) best = entry;
+  }
+  return best;
+}
@@ -0,0 +1,195 @@
+/**
+ * Snapshot stores for historical playback.
+ *
+ * Each snapshot occupies one 15-minute bucket (first write wins, so many
+ * browsers recording the same dashboard store it once). The Redis store keeps
+ * payloads as individual keys plus a per-variant sorted-set index scored by
+ * time; the memory store holds the most recent day on this instance only. Other
+ * backends plug in by implementing SnapshotStore and registering in
+ * STORE_FACTORIES, or from outside the bundle through setSnapshotStore() (the
+ * self-hosted server's on-disk store, server/node/playback-store.mjs).
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type { SnapshotEntry } from '../../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { getCacheBackend, runRedisPipeline } from '../../../_shared/redis';
+// @ts-expect-error — .mjs module, no declaration file
+import { bucketStart, decodeIndexMember, encodeIndexMember, parsePositiveInt, DEFAULT_RETENTION_DAYS, SNAPSHOT_BUCKET_MS } from './_snapshots.mjs';
+
+export interface SnapshotStore {
+  readonly id: string;
+  /** Store the snapshot unless its bucket is already filled. Returns true when stored. */
+  put(variant: string, timestamp: number, payload: string, sizeBytes: number): Promise<boolean>;
+  /** Entries within [from, to], oldest first. */
+  list(variant: string, from: number, to: number): Promise<SnapshotEntry[]>;
+  /** Oldest and newest entries held for the variant. */
+  bounds(variant: string): Promise<{ earliest: number; latest: number }>;
+  /** Payload of the snapshot recorded in the given bucket. */
+  get(variant: string, bucket: number): Promise<string | null>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function retentionDays(): number {
+  return parsePositiveInt(process.env.PLAYBACK_RETENTION_DAYS, DEFAULT_RETENTION_DAYS);
+}
+
+// ========================================================================
+// Redis store
+// ========================================================================
+
+const INDEX_KEY_PREFIX = 'playback:index:v1:';
+const SNAPSHOT_KEY_PREFIX = 'playback:snap:v1:';
+const PIPELINE_TIMEOUT_MS = 8_000;
+
+function indexKey(variant: string): string {
+  return `${INDEX_KEY_PREFIX}${variant}`;
+}
+
+function snapshotKey(variant: string, bucket: number): string {
+  return `${SNAPSHOT_KEY_PREFIX}${variant}:${bucket}`;
+}
+
+function toEntries(members: unknown): SnapshotEntry[] {
+  if (!Array.isArray(members)) return [];
+  return members
+    .map((m) => decodeIndexMember(m) as SnapshotEntry | null)
+    .filter((e): e is SnapshotEntry => e !== null);
+}
+
+export function createRedisStore(): SnapshotStore {
+  return {
+    id: 'redis',
+
+    async put(variant, timestamp, payload, sizeBytes) {
+      const bucket = bucketStart(timestamp) as number;
+      const ttl = retentionDays() * 24 * 60 * 60;
+      const stored = await runRedisPipeline([
+        ['SET', snapshotKey(variant, bucket), payload, 'NX', 'EX', ttl],
+      ], PIPELINE_TIMEOUT_MS);
+      if (stored?.[0] !== 'OK') return false;
+
+      const cutoff = Date.now() - retentionDays() * DAY_MS;
+      await runRedisPipeline([
+        ['ZADD', indexKey(variant), bucket, encodeIndexMember(timestamp, sizeBytes)],
+        ['ZREMRANGEBYSCORE', indexKey(variant), '-inf', `(${cutoff}`],
+      ]);
+      return true;
+    },
+
+    async list(variant, from, to) {
+      const result = await runRedisPipeline([
+        ['ZRANGEBYSCORE', indexKey(variant), bucketStart(from), to],
+      ]);
+      return toEntries(result?.[0]).filter((e) => e.timestamp >= from && e.timestamp <= to);
+    },
+
+    async bounds(variant) {
+      const result = await runRedisPipeline([
+        ['ZRANGE', indexKey(variant), 0, 0],
+        ['ZRANGE', indexKey(variant), -1, -1],
+      ]);
+      return {
+        earliest: toEntries(result?.[0])[0]?.timestamp ?? 0,
+        latest: toEntries(result?.[1])[0]?.timestamp ?? 0,
+      };
+    },
+
+    async get(variant, bucket) {
+      const result = await runRedisPipeline([['GET', snapshotKey(variant, bucket)]], PIPELINE_TIMEOUT_MS);
+      const raw = result?.[0];
+      return typeof raw === 'string' ? raw : null;
+    },
+  };
+}
+
+// ========================================================================
+// Memory store
+// ========================================================================
+
+// Payloads can approach a megabyte each; one day of buckets per instance
+const MEMORY_MAX_SNAPSHOTS = (24 * 60 * 60 * 1000) / SNAPSHOT_BUCKET_MS;
+
+export function createMemoryStore(): SnapshotStore {
+  const variants = new Map<string, Map<number, SnapshotEntry & { payload: string }>>();
+
+  const bucketsOf = (variant: string) => {
+    let buckets = variants.get(variant);
+    if (!buckets) {
+      buckets = new Map();
+      variants.set(variant, buckets);
+    }
+    return buckets;
+  };
+  const sorted = (variant: string) => [...bucketsOf(variant).values()].sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    id: 'memory',
+
+    async put(variant, timestamp, payload, sizeBytes) {
+      const buckets = bucketsOf(variant);
+      const bucket = bucketStart(timestamp) as number;
+      if (buckets.has(bucket)) return false;
+      buckets.set(bucket, { timestamp, payload, sizeBytes });
+      const cutoff = Date.now() - retentionDays() * DAY_MS;
+      for (const [key, snap] of buckets) {
+        if (snap.timestamp < cutoff) buckets.delete(key);
+      }
+      while (buckets.size > MEMORY_MAX_SNAPSHOTS) {
+        buckets.delete(Math.min(...buckets.keys()));
+      }
+      return true;
+    },
+
+    async list(variant, from, to) {
+      return sorted(variant)
+        .filter((s) => s.timestamp >= from && s.timestamp <= to)
+        .map((s) => ({ timestamp: s.timestamp, sizeBytes: s.sizeBytes }));
+    },
+
+    async bounds(variant) {
+      const all = sorted(variant);
+      return { earliest: all[0]?.timestamp ?? 0, latest: all[all.length - 1]?.timestamp ?? 0 };
+    },
+
+    async get(variant, bucket) {
+      return bucketsOf(variant).get(bucket)?.payload ?? null;
+    },
+  };
+}
+
+// ========================================================================
+// Registry
+// ========================================================================
+
+const STORE_FACTORIES: Record<string, () => SnapshotStore> = {
+  redis: createRedisStore,
+  memory: createMemoryStore,
+};
+
+// Cache backends backed by a real Redis. The file and sqlite drivers wrap the
+// in-process LRU, which would evict everything else to hold a year of snapshots.
+const REDIS_BACKENDS = new Set(['upstash', 'redis']);
+
+let store: SnapshotStore | null = null;
+
+/** Replace the snapshot store (null restores PLAYBACK_STORE resolution). */
+export function setSnapshotStore(next: SnapshotStore | null): void {
+  store = next;
+}
+
+/**
+ * Resolve the store selected by PLAYBACK_STORE. Defaults to "redis" when the
+ * cache backend is Upstash or a Redis server, otherwise "memory".
+ */
+export function getSnapshotStore(): SnapshotStore {
+  if (store) return store;
+  const backend = getCacheBackend();
+  const fallback = backend && REDIS_BACKENDS.has(backend.id) ? 'redis' : 'memory';
+  const id = (process.env.PLAYBACK_STORE || fallback).toLowerCase();
+  const factory = STORE_FACTORIES[id];
+  if (!factory) console.warn(`[playback] Unknown PLAYBACK_STORE "${id}", using ${fallback} store`);
+  store = (factory ?? STORE_FACTORIES[fallback]!)();
+  return store;
+}
@@ -0,0 +1,40 @@
+/**
+ * RPC: GetSnapshot
+ * Returns the recorded snapshot closest to the requested time, searching the
+ * neighbouring 15-minute buckets.
+ */
+
+import type {
+  ServerContext,
+  GetSnapshotRequest,
+  GetSnapshotResponse,
+  SnapshotEntry,
+} from '../../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { getSnapshotStore } from './_store';
+// @ts-expect-error — .mjs module, no declaration file
+import { bucketStart, closestEntry, normalizeVariant, SNAPSHOT_BUCKET_MS } from './_snapshots.mjs';
+
+const NOT_FOUND: GetSnapshotResponse = { found: false, timestamp: 0, payload: '' };
+
+export async function getSnapshot(
+  _ctx: ServerContext,
+  req: GetSnapshotRequest,
+): Promise<GetSnapshotResponse> {
+  const timestamp = Number(req.timestamp);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return NOT_FOUND;
+
+  const store = getSnapshotStore();
+  const variant = normalizeVariant(req.variant) as string;
+  try {
+    const window = SNAPSHOT_BUCKET_MS as number;
+    const entries = await store.list(variant, timestamp - window, timestamp + window);
+    const entry = closestEntry(entries, timestamp) as SnapshotEntry | null;
+    if (!entry) return NOT_FOUND;
+
+    const payload = await store.get(variant, bucketStart(entry.timestamp) as number);
+    return payload ? { found: true, timestamp: entry.timestamp, payload } : NOT_FOUND;
+  } catch (err) {
+    console.warn('[playback] GetSnapshot failed:', err);
+    return NOT_FOUND;
+  }
+}
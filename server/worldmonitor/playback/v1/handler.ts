@@ -0,0 +1,22 @@
+/**
+ * Playback service handler -- thin composition of per-RPC modules.
+ *
+ * RPCs:
+ *   - RecordSnapshot (store the current dashboard state in its 15-minute bucket)
+ *   - ListSnapshots  (recorded snapshot times for a date range)
+ *   - GetSnapshot    (snapshot payload closest to a point in time)
+ *
+ * Storage backend is selected with PLAYBACK_STORE (default: redis when a
+ * shared cache backend is configured, otherwise memory).
+ */
+
+import type { PlaybackServiceHandler } from '../../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { recordSnapshot } from './record-snapshot';
+import { listSnapshots } from './list-snapshots';
+import { getSnapshot } from './get-snapshot';
+
+export const playbackHandler: PlaybackServiceHandler = {
+  recordSnapshot,
+  listSnapshots,
+  getSnapshot,
+};
@@ -0,0 +1,37 @@
+/**
+ * RPC: ListSnapshots
+ * Lists recorded snapshot times within a date range, thinned evenly when the
+ * range holds more than the requested limit.
+ */
+
+import type {
+  ServerContext,
+  ListSnapshotsRequest,
+  ListSnapshotsResponse,
+  SnapshotEntry,
+} from '../../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { getSnapshotStore, retentionDays } from './_store';
+// @ts-expect-error — .mjs module, no declaration file
+import { normalizeVariant, resolveRange, thinEntries } from './_snapshots.mjs';
+
+export async function listSnapshots(
+  _ctx: ServerContext,
+  req: ListSnapshotsRequest,
+): Promise<ListSnapshotsResponse> {
+  const store = getSnapshotStore();
+  const variant = normalizeVariant(req.variant) as string;
+  const range = resolveRange(Number(req.from) || 0, Number(req.to) || 0, req.limit || 0) as { from: number; to: number; limit: number };
+
+  try {
+    const [entries, bounds] = await Promise.all([store.list(variant, range.from, range.to), store.bounds(variant)]);
+    return {
+      snapshots: thinEntries(entries, range.limit) as SnapshotEntry[],
+      earliest: bounds.earliest,
+      latest: bounds.latest,
+      retentionDays: retentionDays(),
+    };
+  } catch (err) {
+    console.warn('[playback] ListSnapshots failed:', err);
+    return { snapshots: [], earliest: 0, latest: 0, retentionDays: retentionDays() };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * RPC: RecordSnapshot
+ * Stores a dashboard snapshot in its 15-minute bucket. Only snapshots of the
+ * present are accepted, so past buckets cannot be backfilled or overwritten.
+ * Buckets are shared by every viewer, so only callers presenting a key from
+ * WORLDMONITOR_VALID_KEYS may record; anonymous writes are refused.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type {
+  ServerContext,
+  RecordSnapshotRequest,
+  RecordSnapshotResponse,
+} from '../../../../src/generated/server/worldmonitor/playback/v1/service_server';
+import { getSnapshotStore } from './_store';
+// @ts-expect-error — .mjs module, no declaration file
+import { bucketStart, byteLength, normalizeVariant, parsePositiveInt, validateSnapshot, DEFAULT_MAX_SNAPSHOT_BYTES } from './_snapshots.mjs';
+
+function hasRecorderKey(ctx: ServerContext): boolean {
+  const key = ctx.headers['x-worldmonitor-key'];
+  const validKeys = (process.env.WORLDMONITOR_VALID_KEYS || '').split(',').filter(Boolean);
+  return Boolean(key) && validKeys.includes(key!);
+}
+
+export async function recordSnapshot(
+  ctx: ServerContext,
+  req: RecordSnapshotRequest,
+): Promise<RecordSnapshotResponse> {
+  const store = getSnapshotStore();
+  const timestamp = Number(req.timestamp);
+  const bucketTimestamp = Number.isFinite(timestamp) ? bucketStart(timestamp) as number : 0;
+  const maxBytes = parsePositiveInt(process.env.PLAYBACK_MAX_SNAPSHOT_BYTES, DEFAULT_MAX_SNAPSHOT_BYTES) as number;
+
+  if (!hasRecorderKey(ctx)) return { recorded: false, bucketTimestamp, reason: 'unauthorized', store: store.id };
+
+  const reason = validateSnapshot(timestamp, req.payload, Date.now(), maxBytes) as string | null;
+  if (reason) return { recorded: false, bucketTimestamp, reason, store: store.id };
+
+  try {
+    const recorded = await store.put(normalizeVariant(req.variant), timestamp, req.payload, byteLength(req.payload) as number);
+    return { recorded, bucketTimestamp, reason: recorded ? '' : 'duplicate', store: store.id };
+  } catch (err) {
+    console.warn('[playback] RecordSnapshot failed:', err);
+    return { recorded: false, bucketTimestamp, reason: 'store_error', store: store.id };
+  }
+}
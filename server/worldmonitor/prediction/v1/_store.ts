@@ -0,0 +1,79 @@
+/**
+ * Odds history store for prediction markets.
+ *
+ * Each market keeps a sorted set of recorded prices scored by 15-minute
+ * bucket; a later refresh within a bucket replaces the earlier one, so the
+ * point reflects the bucket's closing odds. Sets expire after the retention
+ * window, so markets that stop being listed age out on their own.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type { OddsPoint, PredictionMarket } from '../../../../src/generated/server/worldmonitor/prediction/v1/service_server';
+import { runRedisPipeline } from '../../../_shared/redis';
+import { oddsKey } from '../../../../src/services/prediction/aggregate';
+
+export const ODDS_BUCKET_MS = 15 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Only the busiest markets of each listing are recorded. */
+export const MAX_RECORDED_PER_VENUE = 100;
+
+const KEY_PREFIX = 'prediction:odds:v1:';
+const PIPELINE_TIMEOUT_MS = 8_000;
+
+export function retentionDays(): number {
+  const parsed = parseInt(process.env.PREDICTION_ODDS_RETENTION_DAYS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RETENTION_DAYS;
+}
+
+function historyKey(marketKey: string): string {
+  return `${KEY_PREFIX}${marketKey}`;
+}
+
+export function encodeOddsMember(bucket: number, yesPrice: number, volume: number): string {
+  return `${bucket}:${yesPrice.toFixed(4)}:${Math.round(volume)}`;
+}
+
+export function decodeOddsMember(member: unknown): OddsPoint | null {
+  if (typeof member !== 'string') return null;
+  const [ts, price, volume] = member.split(':').map(Number);
+  if (!Number.isFinite(ts) || !Number.isFinite(price)) return null;
+  return { timestamp: ts!, yesPrice: price!, volume: Number.isFinite(volume) ? volume! : 0 };
+}
+
+/** Record the current odds of the given markets in this bucket. */
+export async function recordOdds(markets: PredictionMarket[], now = Date.now()): Promise<void> {
+  const bucket = Math.floor(now / ODDS_BUCKET_MS) * ODDS_BUCKET_MS;
+  const cutoff = now - retentionDays() * DAY_MS;
+  const ttl = retentionDays() * 24 * 60 * 60;
+  const commands: Array<Array<string | number>> = [];
+  for (const m of markets) {
+    if (!m.id || !m.venue || !Number.isFinite(m.yesPrice)) continue;
+    const key = historyKey(oddsKey(m.venue, m.id));
+    commands.push(
+      ['ZREMRANGEBYSCORE', key, bucket, bucket],
+      ['ZADD', key, bucket, encodeOddsMember(bucket, m.yesPrice, m.volume)],
+      ['ZREMRANGEBYSCORE', key, '-inf', `(${cutoff}`],
+      ['EXPIRE', key, ttl],
+    );
+  }
+  await runRedisPipeline(commands, PIPELINE_TIMEOUT_MS);
+}
+
+/** Recorded points since `since` for each market key, oldest first. */
+export async function readOdds(marketKeys: string[], since: number): Promise<Map<string, OddsPoint[]>> {
+  const from = since > 0 ? Math.floor(since / ODDS_BUCKET_MS) * ODDS_BUCKET_MS : '-inf';
+  const result = await runRedisPipeline(
+    marketKeys.map((key) => ['ZRANGEBYSCORE', historyKey(key), from, '+inf']),
+    PIPELINE_TIMEOUT_MS,
+  );
+  const histories = new Map<string, OddsPoint[]>();
+  marketKeys.forEach((key, i) => {
+    const members = result?.[i];
+    histories.set(key, Array.isArray(members)
+      ? members.map(decodeOddsMember).filter((p): p is OddsPoint => p !== null)
+      : []);
+  });
+  return histories;
+}
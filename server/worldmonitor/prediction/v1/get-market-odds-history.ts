@@ -0,0 +1,36 @@
+/**
+ * GetMarketOddsHistory RPC -- recorded odds time series for markets, as
+ * stored by ListPredictionMarkets and ListCrossVenueMarkets.
+ */
+
+import type {
+  PredictionServiceHandler,
+  ServerContext,
+  GetMarketOddsHistoryRequest,
+  GetMarketOddsHistoryResponse,
+} from '../../../../src/generated/server/worldmonitor/prediction/v1/service_server';
+
+import { isPredictionVenue } from '../../../../src/services/prediction/aggregate';
+import { readOdds } from './_store';
+
+const MAX_KEYS = 50;
+
+function isMarketKey(key: string): boolean {
+  const sep = key.indexOf(':');
+  return sep > 0 && sep < key.length - 1 && key.length <= 200 && isPredictionVenue(key.slice(0, sep));
+}
+
+export const getMarketOddsHistory: PredictionServiceHandler['getMarketOddsHistory'] = async (
+  _ctx: ServerContext,
+  req: GetMarketOddsHistoryRequest,
+): Promise<GetMarketOddsHistoryResponse> => {
+  const keys = [...new Set((req.marketKeys ?? []).filter(isMarketKey))].slice(0, MAX_KEYS);
+  if (keys.length === 0) return { histories: [] };
+
+  try {
+    const histories = await readOdds(keys, Math.max(0, req.since || 0));
+    return { histories: keys.map((marketKey) => ({ marketKey, points: histories.get(marketKey) ?? [] })) };
+  } catch {
+    return { histories: keys.map((marketKey) => ({ marketKey, points: [] })) };
+  }
+};
@@ -1,7 +1,11 @@
 import type { PredictionServiceHandler } from '../../../../src/generated/server/worldmonitor/prediction/v1/service_server';
 
+import { getMarketOddsHistory } from './get-market-odds-history';
+import { listCrossVenueMarkets } from './list-cross-venue-markets';
 import { listPredictionMarkets } from './list-prediction-markets';
 
 export const predictionHandler: PredictionServiceHandler = {
   listPredictionMarkets,
+  listCrossVenueMarkets,
+  getMarketOddsHistory,
 };
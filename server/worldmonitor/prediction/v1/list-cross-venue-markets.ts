@@ -0,0 +1,237 @@
+/**
+ * ListCrossVenueMarkets RPC -- open binary markets from Polymarket, Kalshi,
+ * Manifold and Metaculus, tagged by venue.
+ *
+ * Each venue is fetched and cached on its own, so one venue being down (or
+ * Polymarket's Cloudflare block, see list-prediction-markets.ts) only drops
+ * that venue. Every fresh fetch records the busiest markets' odds for
+ * GetMarketOddsHistory. Metaculus requires METACULUS_API_TOKEN.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type {
+  PredictionServiceHandler,
+  ServerContext,
+  ListCrossVenueMarketsRequest,
+  ListCrossVenueMarketsResponse,
+  PredictionMarket,
+} from '../../../../src/generated/server/worldmonitor/prediction/v1/service_server';
+
+import { CHROME_UA } from '../../../_shared/constants';
+import { cachedFetchJson } from '../../../_shared/redis';
+import { PREDICTION_VENUES, type PredictionVenue } from '../../../../src/services/prediction/aggregate';
+import { FETCH_TIMEOUT, GAMMA_BASE, mapEvent, type GammaEvent } from './list-prediction-markets';
+import { MAX_RECORDED_PER_VENUE, recordOdds } from './_store';
+
+const REDIS_CACHE_KEY = 'prediction:venue:v1';
+const REDIS_CACHE_TTL = 300; // 5 min
+const UPSTREAM_LIMIT = 200;
+const DEFAULT_LIMIT = 100;
+
+const KALSHI_BASE = 'https://api.elections.kalshi.com/trade-api/v2';
+const MANIFOLD_BASE = 'https://api.manifold.markets/v0';
+const METACULUS_BASE = 'https://www.metaculus.com/api';
+
+// ---------- Internal upstream types ----------
+
+interface KalshiMarket {
+  ticker: string;
+  title?: string;
+  last_price?: number;
+  last_price_dollars?: string;
+  yes_bid?: number;
+  yes_ask?: number;
+  volume?: number;
+  close_time?: string;
+}
+
+interface KalshiEvent {
+  event_ticker: string;
+  series_ticker?: string;
+  title: string;
+  category?: string;
+  markets?: KalshiMarket[];
+}
+
+interface ManifoldMarket {
+  id: string;
+  question: string;
+  url?: string;
+  probability?: number;
+  volume?: number;
+  closeTime?: number;
+  isResolved?: boolean;
+}
+
+interface MetaculusPost {
+  id: number;
+  title: string;
+  nr_forecasters?: number;
+  scheduled_close_time?: string;
+  question?: {
+    aggregations?: {
+      recency_weighted?: { latest?: { centers?: number[] } | null };
+    };
+  };
+}
+
+// ---------- Mappers ----------
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+function parseTime(value?: string): number {
+  const ms = value ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+/** Kalshi quotes in cents; newer responses add a dollar string. */
+function kalshiYesPrice(m: KalshiMarket): number | null {
+  const dollars = m.last_price_dollars ? parseFloat(m.last_price_dollars) : NaN;
+  if (Number.isFinite(dollars)) return clamp01(dollars);
+  if (m.last_price) return clamp01(m.last_price / 100);
+  if (m.yes_bid != null && m.yes_ask != null && m.yes_ask > 0) return clamp01((m.yes_bid + m.yes_ask) / 200);
+  return null;
+}
+
+/** Map a Kalshi event to its highest-volume market, as mapEvent does for Polymarket. */
+export function mapKalshiEvent(event: KalshiEvent): PredictionMarket | null {
+  const top = (event.markets ?? []).reduce<KalshiMarket | null>(
+    (best, m) => (!best || (m.volume ?? 0) > (best.volume ?? 0) ? m : best),
+    null,
+  );
+  const yesPrice = top ? kalshiYesPrice(top) : null;
+  if (!top || yesPrice === null) return null;
+  return {
+    id: top.ticker,
+    title: top.title || event.title,
+    yesPrice,
+    volume: top.volume ?? 0,
+    url: `https://kalshi.com/markets/${(event.series_ticker || event.event_ticker).toLowerCase()}`,
+    closesAt: parseTime(top.close_time),
+    category: event.category || '',
+    venue: 'kalshi',
+  };
+}
+
+export function mapManifoldMarket(m: ManifoldMarket): PredictionMarket | null {
+  if (m.isResolved || typeof m.probability !== 'number') return null;
+  return {
+    id: m.id,
+    title: m.question,
+    yesPrice: clamp01(m.probability),
+    volume: m.volume ?? 0,
+    url: m.url || '',
+    closesAt: m.closeTime ?? 0,
+    category: '',
+    venue: 'manifold',
+  };
+}
+
+export function mapMetaculusPost(post: MetaculusPost): PredictionMarket | null {
+  const center = post.question?.aggregations?.recency_weighted?.latest?.centers?.[0];
+  if (typeof center !== 'number') return null;
+  return {
+    id: String(post.id),
+    title: post.title,
+    yesPrice: clamp01(center),
+    volume: post.nr_forecasters ?? 0,
+    url: `https://www.metaculus.com/questions/${post.id}/`,
+    closesAt: parseTime(post.scheduled_close_time),
+    category: '',
+    venue: 'metaculus',
+  };
+}
+
+// ---------- Upstream fetchers ----------
+
+async function getJson<T>(url: string, headers: Record<string, string> = {}): Promise<T | null> {
+  const resp = await fetch(url, {
+    headers: { Accept: 'application/json', 'User-Agent': CHROME_UA, ...headers },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+  return resp.ok ? await resp.json() as T : null;
+}
+
+async function fetchPolymarket(): Promise<PredictionMarket[] | null> {
+  const params = new URLSearchParams({ closed: 'false', order: 'volume', ascending: 'false', limit: String(UPSTREAM_LIMIT) });
+  const data = await getJson<GammaEvent[]>(`${GAMMA_BASE}/events?${params}`);
+  return Array.isArray(data) ? data.filter((e) => !e.closed).map((e) => mapEvent(e, '')) : null;
+}
+
+async function fetchKalshi(): Promise<PredictionMarket[] | null> {
+  const params = new URLSearchParams({ status: 'open', with_nested_markets: 'true', limit: String(UPSTREAM_LIMIT) });
+  const data = await getJson<{ events?: KalshiEvent[] }>(`${KALSHI_BASE}/events?${params}`);
+  if (!Array.isArray(data?.events)) return null;
+  return data.events
+    .filter((e) => e.category !== 'Sports')
+    .map(mapKalshiEvent)
+    .filter((m): m is PredictionMarket => m !== null);
+}
+
+async function fetchManifold(): Promise<PredictionMarket[] | null> {
+  const params = new URLSearchParams({
+    term: '', filter: 'open', contractType: 'BINARY', sort: 'liquidity', limit: String(UPSTREAM_LIMIT),
+  });
+  const data = await getJson<ManifoldMarket[]>(`${MANIFOLD_BASE}/search-markets?${params}`);
+  return Array.isArray(data) ? data.map(mapManifoldMarket).filter((m): m is PredictionMarket => m !== null) : null;
+}
+
+async function fetchMetaculus(): Promise<PredictionMarket[] | null> {
+  const token = process.env.METACULUS_API_TOKEN;
+  if (!token) return null;
+  const params = new URLSearchParams({
+    statuses: 'open', forecast_type: 'binary', order_by: '-forecasts_count', with_cp: 'true', limit: '100',
+  });
+  const data = await getJson<{ results?: MetaculusPost[] }>(`${METACULUS_BASE}/posts/?${params}`, { Authorization: `Token ${token}` });
+  return Array.isArray(data?.results)
+    ? data.results.map(mapMetaculusPost).filter((m): m is PredictionMarket => m !== null)
+    : null;
+}
+
+const FETCHERS: Record<PredictionVenue, () => Promise<PredictionMarket[] | null>> = {
+  polymarket: fetchPolymarket,
+  kalshi: fetchKalshi,
+  manifold: fetchManifold,
+  metaculus: fetchMetaculus,
+};
+
+async function fetchVenue(venue: PredictionVenue): Promise<PredictionMarket[] | null> {
+  const result = await cachedFetchJson<{ markets: PredictionMarket[] } | null>(
+    `${REDIS_CACHE_KEY}:${venue}`,
+    REDIS_CACHE_TTL,
+    async () => {
+      const markets = await FETCHERS[venue]();
+      if (!markets || markets.length === 0) return null;
+      markets.sort((a, b) => b.volume - a.volume);
+      await recordOdds(markets.slice(0, MAX_RECORDED_PER_VENUE));
+      return { markets };
+    },
+  );
+  return result?.markets ?? null;
+}
+
+// ---------- RPC ----------
+
+export const listCrossVenueMarkets: PredictionServiceHandler['listCrossVenueMarkets'] = async (
+  _ctx: ServerContext,
+  req: ListCrossVenueMarketsRequest,
+): Promise<ListCrossVenueMarketsResponse> => {
+  const limit = req.limit > 0 ? Math.min(req.limit, UPSTREAM_LIMIT) : DEFAULT_LIMIT;
+  const q = (req.query || '').trim().toLowerCase();
+
+  const settled = await Promise.allSettled(PREDICTION_VENUES.map(fetchVenue));
+  const markets: PredictionMarket[] = [];
+  const unavailableVenues: string[] = [];
+  settled.forEach((outcome, i) => {
+    const venueMarkets = outcome.status === 'fulfilled' ? outcome.value : null;
+    if (!venueMarkets) {
+      unavailableVenues.push(PREDICTION_VENUES[i]!);
+      return;
+    }
+    const filtered = q ? venueMarkets.filter((m) => m.title.toLowerCase().includes(q)) : venueMarkets;
+    markets.push(...filtered.slice(0, limit));
+  });
+
+  return { markets, unavailableVenues };
+};
@@ -17,12 +17,13 @@ import type {
 
 import { CHROME_UA } from '../../../_shared/constants';
 import { cachedFetchJson } from '../../../_shared/redis';
+import { MAX_RECORDED_PER_VENUE, recordOdds } from './_store';
 
 const REDIS_CACHE_KEY = 'prediction:markets:v1';
 const REDIS_CACHE_TTL = 300; // 5 min
 
-const GAMMA_BASE = 'https://gamma-api.polymarket.com';
-const FETCH_TIMEOUT = 8000;
+export const GAMMA_BASE = 'https://gamma-api.polymarket.com';
+export const FETCH_TIMEOUT = 8000;
 
 // ---------- Internal Gamma API types ----------
 
@@ -36,7 +37,7 @@ interface GammaMarket {
   slug?: string;
 }
 
-interface GammaEvent {
+export interface GammaEvent {
   id: string;
   title: string;
   slug: string;
@@ -65,7 +66,7 @@ function parseYesPrice(market: GammaMarket): number {
 }
 
 /** Map a GammaEvent to a proto PredictionMarket (picks top market by volume). */
-function mapEvent(event: GammaEvent, category: string): PredictionMarket {
+export function mapEvent(event: GammaEvent, category: string): PredictionMarket {
   // Pick the top market from the event (first one is typically highest volume)
   const topMarket = event.markets?.[0];
 
@@ -77,6 +78,7 @@ function mapEvent(event: GammaEvent, category: string): PredictionMarket {
     url: `https://polymarket.com/event/${event.slug}`,
     closesAt: 0,
     category: category || '',
+    venue: 'polymarket',
   };
 }
 
@@ -90,6 +92,7 @@ function mapMarket(market: GammaMarket): PredictionMarket {
     url: `https://polymarket.com/market/${market.slug}`,
     closesAt: 0,
     category: '',
+    venue: 'polymarket',
   };
 }
 
@@ -135,6 +138,8 @@ export const listPredictionMarkets: PredictionServiceHandler['listPredictionMark
           markets = (data as GammaMarket[]).map(mapMarket);
         }
 
+        await recordOdds(markets.slice(0, MAX_RECORDED_PER_VENUE));
+
         if (req.query) {
           const q = req.query.toLowerCase();
           markets = markets.filter((m) => m.title.toLowerCase().includes(q));
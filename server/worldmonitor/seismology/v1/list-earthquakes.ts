@@ -1,8 +1,10 @@
 /**
  * ListEarthquakes RPC -- proxies the USGS earthquake GeoJSON API.
  *
- * Fetches M4.5+ earthquakes from the last 24 hours and transforms the USGS
- * GeoJSON features into proto-shaped Earthquake objects.
+ * Fetches M4.5+ earthquakes from the last 24 hours (or the week/month feed
+ * when the requested time range starts earlier) and transforms the USGS
+ * GeoJSON features into proto-shaped Earthquake objects. Time range, bbox,
+ * country and magnitude filters apply to the cached feed.
  */
 
 import type {
@@ -14,22 +16,33 @@ import type {
 
 import { cachedFetchJson } from '../../../_shared/redis';
 import { CHROME_UA } from '../../../_shared/constants';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
-const USGS_FEED_URL =
-  'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/4.5_day.geojson';
+const USGS_FEED_BASE = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
 const CACHE_KEY = 'seismology:earthquakes:v1';
 const CACHE_TTL = 300; // 5 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Smallest USGS summary feed covering the requested start. */
+function feedFor(start: number | undefined): 'day' | 'week' | 'month' {
+  const age = start ? Date.now() - start : 0;
+  if (age <= DAY_MS) return 'day';
+  if (age <= 7 * DAY_MS) return 'week';
+  return 'month';
+}
 
 export const listEarthquakes: SeismologyServiceHandler['listEarthquakes'] = async (
   _ctx: ServerContext,
   req: ListEarthquakesRequest,
 ): Promise<ListEarthquakesResponse> => {
   const pageSize = req.pagination?.pageSize || 500;
+  const feed = feedFor(req.timeRange?.start);
 
   try {
   // Cache stores full set, slice on read — avoids polluting cache with partial results
-  const cached = await cachedFetchJson<{ earthquakes: ListEarthquakesResponse['earthquakes'] }>(CACHE_KEY, CACHE_TTL, async () => {
-    const response = await fetch(USGS_FEED_URL, {
+  const cacheKey = feed === 'day' ? CACHE_KEY : `${CACHE_KEY}:${feed}`;
+  const cached = await cachedFetchJson<{ earthquakes: ListEarthquakesResponse['earthquakes'] }>(cacheKey, CACHE_TTL, async () => {
+    const response = await fetch(`${USGS_FEED_BASE}/4.5_${feed}.geojson`, {
       headers: { Accept: 'application/json', 'User-Agent': CHROME_UA },
       signal: AbortSignal.timeout(10_000),
     });
@@ -60,7 +73,10 @@ export const listEarthquakes: SeismologyServiceHandler['listEarthquakes'] = asyn
     return earthquakes.length > 0 ? { earthquakes } : null;
   });
 
-  const earthquakes = cached?.earthquakes || [];
+  const earthquakes = applyGeoFilters(cached?.earthquakes || [], req, {
+    location: (q) => q.location,
+    time: (q) => q.occurredAt,
+  }).filter((q) => !req.minMagnitude || q.magnitude >= req.minMagnitude);
   return { earthquakes: earthquakes.slice(0, pageSize), pagination: undefined };
   } catch {
     return { earthquakes: [], pagination: undefined };
@@ -0,0 +1,261 @@
+/**
+ * Broker backends for the trading service.
+ *
+ * A broker owns cash, positions, fills and the daily equity curve. The only
+ * backend today is a paper broker persisted in Redis (with an in-memory
+ * fallback when Redis is not configured); live brokers plug in by
+ * implementing TradingBroker and registering in BROKER_FACTORIES.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type {
+  TradingAccount,
+  TradingPosition,
+  TradeRecord,
+  TradingSignal,
+  RiskControls,
+  EquityPoint,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getCachedJson, setCachedJson } from '../../../_shared/redis';
+
+export interface TradingBroker {
+  readonly id: string;
+  getAccount(prices: Map<string, number>): Promise<TradingAccount>;
+  listPositions(prices: Map<string, number>): Promise<TradingPosition[]>;
+  listTrades(limit: number): Promise<TradeRecord[]>;
+  getEquityHistory(): Promise<EquityPoint[]>;
+  heldSymbols(): Promise<string[]>;
+  lastExecutionAt(): Promise<number>;
+  /** Apply signals and risk exits. Returns the fills made during this execution. */
+  execute(signals: TradingSignal[], risk: RiskControls, prices: Map<string, number>): Promise<TradeRecord[]>;
+}
+
+// ========================================================================
+// Paper broker
+// ========================================================================
+
+const PAPER_STATE_KEY = 'trading:paper:v1';
+const PAPER_STATE_TTL = 365 * 24 * 60 * 60; // 1 year
+const MAX_TRADES_KEPT = 200;
+const MAX_EQUITY_DAYS = 365;
+const DEFAULT_STARTING_CAPITAL = 100_000;
+
+interface PaperPosition {
+  symbol: string;
+  qty: number;
+  entryPrice: number;
+  openedAt: number;
+}
+
+interface PaperState {
+  startingCapital: number;
+  cash: number;
+  positions: PaperPosition[];
+  trades: TradeRecord[];
+  equityHistory: EquityPoint[];
+  lastExecutionAt: number;
+  dayStart: { date: string; equity: number } | null;
+}
+
+// In-memory fallback when Redis is unavailable (same instance only)
+let memState: PaperState | null = null;
+
+function startingCapital(): number {
+  const parsed = Number(process.env.TRADING_STARTING_CAPITAL);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_STARTING_CAPITAL;
+}
+
+function freshState(): PaperState {
+  const capital = startingCapital();
+  return { startingCapital: capital, cash: capital, positions: [], trades: [], equityHistory: [], lastExecutionAt: 0, dayStart: null };
+}
+
+function utcDate(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function round(v: number, digits = 2): number {
+  return Math.round(v * 10 ** digits) / 10 ** digits;
+}
+
+async function loadState(): Promise<PaperState> {
+  const cached = await getCachedJson(PAPER_STATE_KEY) as PaperState | null;
+  if (cached && Array.isArray(cached.positions)) {
+    memState = cached;
+    return cached;
+  }
+  return memState ?? freshState();
+}
+
+async function saveState(state: PaperState): Promise<void> {
+  memState = state;
+  await setCachedJson(PAPER_STATE_KEY, state, PAPER_STATE_TTL);
+}
+
+function positionValue(p: PaperPosition, prices: Map<string, number>): number {
+  return p.qty * (prices.get(p.symbol) ?? p.entryPrice);
+}
+
+function equityOf(state: PaperState, prices: Map<string, number>): number {
+  return state.cash + state.positions.reduce((sum, p) => sum + positionValue(p, prices), 0);
+}
+
+/** Record today's equity point and roll the daily P&L baseline. Returns true if state changed. */
+function markToMarket(state: PaperState, prices: Map<string, number>, now: number): boolean {
+  const equity = round(equityOf(state, prices));
+  const date = utcDate(now);
+  let changed = false;
+  if (!state.dayStart || state.dayStart.date !== date) {
+    const prior = state.equityHistory[state.equityHistory.length - 1];
+    state.dayStart = { date, equity: prior?.equity ?? equity };
+    changed = true;
+  }
+  const last = state.equityHistory[state.equityHistory.length - 1];
+  if (last?.date === date) {
+    if (last.equity !== equity) {
+      last.equity = equity;
+      changed = true;
+    }
+  } else {
+    state.equityHistory.push({ date, equity });
+    if (state.equityHistory.length > MAX_EQUITY_DAYS) state.equityHistory.splice(0, state.equityHistory.length - MAX_EQUITY_DAYS);
+    changed = true;
+  }
+  return changed;
+}
+
+function recordTrade(state: PaperState, trade: TradeRecord): void {
+  state.trades.unshift(trade);
+  if (state.trades.length > MAX_TRADES_KEPT) state.trades.length = MAX_TRADES_KEPT;
+}
+
+function closePosition(state: PaperState, p: PaperPosition, price: number, reasoning: string, now: number): TradeRecord {
+  const amount = round(p.qty * price);
+  state.cash = round(state.cash + amount);
+  state.positions = state.positions.filter((x) => x.symbol !== p.symbol);
+  const trade: TradeRecord = { executedAt: now, action: 'TRADING_ACTION_SELL', symbol: p.symbol, qty: p.qty, price, amount, reasoning };
+  recordTrade(state, trade);
+  return trade;
+}
+
+export function createPaperBroker(): TradingBroker {
+  return {
+    id: 'paper',
+
+    async getAccount(prices) {
+      const now = Date.now();
+      const state = await loadState();
+      if (markToMarket(state, prices, now)) await saveState(state);
+      const equity = round(equityOf(state, prices));
+      return {
+        equity,
+        cash: round(state.cash),
+        buyingPower: round(state.cash),
+        startingCapital: state.startingCapital,
+        totalReturnPct: round(((equity - state.startingCapital) / state.startingCapital) * 100),
+        dailyPnl: round(equity - (state.dayStart?.equity ?? equity)),
+        updatedAt: now,
+      };
+    },
+
+    async listPositions(prices) {
+      const state = await loadState();
+      return state.positions.map((p): TradingPosition => {
+        const current = prices.get(p.symbol) ?? p.entryPrice;
+        const cost = p.qty * p.entryPrice;
+        const pl = p.qty * current - cost;
+        return {
+          symbol: p.symbol,
+          qty: p.qty,
+          entryPrice: p.entryPrice,
+          currentPrice: current,
+          marketValue: round(p.qty * current),
+          unrealizedPl: round(pl),
+          unrealizedPlpc: cost > 0 ? round((pl / cost) * 100) : 0,
+          side: 'long',
+        };
+      });
+    },
+
+    async listTrades(limit) {
+      const state = await loadState();
+      return state.trades.slice(0, limit);
+    },
+
+    async getEquityHistory() {
+      const state = await loadState();
+      return state.equityHistory;
+    },
+
+    async heldSymbols() {
+      const state = await loadState();
+      return state.positions.map((p) => p.symbol);
+    },
+
+    async lastExecutionAt() {
+      const state = await loadState();
+      return state.lastExecutionAt;
+    },
+
+    async execute(signals, risk, prices) {
+      const now = Date.now();
+      const state = await loadState();
+      const fills: TradeRecord[] = [];
+
+      // Risk exits first so freed slots can be reused by new entries
+      for (const p of [...state.positions]) {
+        const price = prices.get(p.symbol);
+        if (price == null) continue;
+        const changePct = ((price - p.entryPrice) / p.entryPrice) * 100;
+        if (changePct <= -risk.stopLossPct) {
+          fills.push(closePosition(state, p, price, `Stop-loss at ${changePct.toFixed(1)}%`, now));
+        } else if (changePct >= risk.takeProfitPct) {
+          fills.push(closePosition(state, p, price, `Take-profit at +${changePct.toFixed(1)}%`, now));
+        }
+      }
+
+      for (const s of signals) {
+        const held = state.positions.find((p) => p.symbol === s.symbol);
+        if (s.action === 'TRADING_ACTION_SELL' && held) {
+          fills.push(closePosition(state, held, s.currentPrice, s.reasoning, now));
+        } else if (s.action === 'TRADING_ACTION_BUY' && !held && state.positions.length < risk.maxPositions) {
+          const slots = risk.maxPositions - state.positions.length;
+          const qty = Math.floor(state.cash / slots / s.currentPrice);
+          if (qty < 1) continue;
+          const amount = round(qty * s.currentPrice);
+          state.cash = round(state.cash - amount);
+          state.positions.push({ symbol: s.symbol, qty, entryPrice: s.currentPrice, openedAt: now });
+          const trade: TradeRecord = { executedAt: now, action: 'TRADING_ACTION_BUY', symbol: s.symbol, qty, price: s.currentPrice, amount, reasoning: s.reasoning };
+          recordTrade(state, trade);
+          fills.push(trade);
+        }
+      }
+
+      state.lastExecutionAt = now;
+      markToMarket(state, prices, now);
+      await saveState(state);
+      return fills;
+    },
+  };
+}
+
+// ========================================================================
+// Registry
+// ========================================================================
+
+const BROKER_FACTORIES: Record<string, () => TradingBroker> = {
+  paper: createPaperBroker,
+};
+
+let broker: TradingBroker | null = null;
+
+/** Resolve the broker selected by TRADING_BROKER (defaults to "paper"). */
+export function getBroker(): TradingBroker {
+  if (broker) return broker;
+  const id = (process.env.TRADING_BROKER || 'paper').toLowerCase();
+  const factory = BROKER_FACTORIES[id];
+  if (!factory) console.warn(`[trading] Unknown TRADING_BROKER "${id}", using paper broker`);
+  broker = (factory ?? createPaperBroker)();
+  return broker;
+}
@@ -0,0 +1,110 @@
+export const FAST_MA_PERIOD = 10;
+export const SLOW_MA_PERIOD = 30;
+export const RSI_PERIOD = 14;
+export const RSI_OVERBOUGHT = 70;
+export const RSI_OVERSOLD = 30;
+export const MIN_SPREAD_PCT = 0.1;
+
+const round = (v, digits = 2) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+export function sma(values, period) {
+  if (!values || values.length < period || period <= 0) return null;
+  let sum = 0;
+  for (let i = values.length - period; i < values.length; i++) sum += values[i];
+  return sum / period;
+}
+
+/** Wilder-smoothed RSI over the whole series. Returns null without period + 1 points. */
+export function rsi(values, period = RSI_PERIOD) {
+  if (!values || values.length < period + 1) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const delta = values[i] - values[i - 1];
+    if (delta >= 0) gain += delta; else loss -= delta;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+  for (let i = period + 1; i < values.length; i++) {
+    const delta = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(delta, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-delta, 0)) / period;
+  }
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Compute a MA crossover + RSI signal from a close series (oldest first).
+ * Returns null when the series is too short for the slow average.
+ */
+export function computeSignal(symbol, closes) {
+  if (!closes || closes.length < SLOW_MA_PERIOD + 1) return null;
+  const fast = sma(closes, FAST_MA_PERIOD);
+  const slow = sma(closes, SLOW_MA_PERIOD);
+  const prev = closes.slice(0, -1);
+  const prevFast = sma(prev, FAST_MA_PERIOD);
+  const prevSlow = sma(prev, SLOW_MA_PERIOD);
+  const r = rsi(closes) ?? 50;
+  const price = closes[closes.length - 1];
+  const spreadPct = slow ? ((fast - slow) / slow) * 100 : 0;
+  const crossedUp = prevFast <= prevSlow && fast > slow;
+  const crossedDown = prevFast >= prevSlow && fast < slow;
+
+  let action = 'TRADING_ACTION_HOLD';
+  let confidence = 0.3;
+  let reasoning = `${FAST_MA_PERIOD}MA within ${MIN_SPREAD_PCT}% of ${SLOW_MA_PERIOD}MA`;
+
+  if (r >= RSI_OVERBOUGHT) {
+    action = 'TRADING_ACTION_SELL';
+    confidence = 0.5 + Math.min(0.5, (r - RSI_OVERBOUGHT) / 40);
+    reasoning = `RSI ${r.toFixed(1)} overbought`;
+  } else if (r <= RSI_OVERSOLD) {
+    action = 'TRADING_ACTION_BUY';
+    confidence = 0.5 + Math.min(0.5, (RSI_OVERSOLD - r) / 40);
+    reasoning = `RSI ${r.toFixed(1)} oversold`;
+  } else if (Math.abs(spreadPct) >= MIN_SPREAD_PCT) {
+    const up = spreadPct > 0;
+    const crossed = up ? crossedUp : crossedDown;
+    action = up ? 'TRADING_ACTION_BUY' : 'TRADING_ACTION_SELL';
+    confidence = Math.min(1, 0.4 + Math.abs(spreadPct) / 2 + (crossed ? 0.2 : 0));
+    reasoning = `${FAST_MA_PERIOD}MA ${up ? 'above' : 'below'} ${SLOW_MA_PERIOD}MA by ${Math.abs(spreadPct).toFixed(2)}%${crossed ? ' (fresh crossover)' : ''}`;
+  }
+
+  return {
+    symbol,
+    action,
+    confidence: round(confidence),
+    reasoning,
+    currentPrice: round(price, 4),
+    fastMa: round(fast, 4),
+    slowMa: round(slow, 4),
+    rsi: round(r, 1),
+  };
+}
+
+/** Largest peak-to-trough decline of an equity series, as a positive percentage. */
+export function maxDrawdownPct(equities) {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const e of equities || []) {
+    if (e > peak) peak = e;
+    if (peak > 0) worst = Math.max(worst, ((peak - e) / peak) * 100);
+  }
+  return round(worst);
+}
+
+/** Annualized Sharpe ratio of daily returns with a zero risk-free rate. */
+export function sharpeRatio(equities) {
+  if (!equities || equities.length < 3) return 0;
+  const returns = [];
+  for (let i = 1; i < equities.length; i++) {
+    if (equities[i - 1] > 0) returns.push(equities[i] / equities[i - 1] - 1);
+  }
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  if (std === 0) return 0;
+  return round((mean / std) * Math.sqrt(252));
+}
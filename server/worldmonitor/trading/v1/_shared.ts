@@ -0,0 +1,144 @@
+/**
+ * Shared helpers, types, and constants for the trading service handler RPCs.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type {
+  RiskControls,
+  TradingSignal,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { listMarketQuotes } from '../../market/v1/list-market-quotes';
+import { fetchYahooQuotesBatch } from '../../market/v1/_shared';
+import { cachedFetchJson, runRedisPipeline } from '../../../_shared/redis';
+// @ts-expect-error — .mjs module, no declaration file
+import { computeSignal, FAST_MA_PERIOD, SLOW_MA_PERIOD, RSI_PERIOD } from './_indicators.mjs';
+import { getBroker } from './_broker';
+
+// ========================================================================
+// Constants
+// ========================================================================
+
+export const DEFAULT_SYMBOLS = ['SPY', 'QQQ', 'AAPL', 'MSFT', 'NVDA'];
+export const MAX_SYMBOLS = 20;
+
+export const RISK_CONTROLS: RiskControls = {
+  maxPositions: 2,
+  stopLossPct: 5,
+  takeProfitPct: 10,
+};
+
+export const EXECUTION_INTERVAL_MINUTES = 60;
+
+export const STRATEGY_LABEL = `MA ${FAST_MA_PERIOD}/${SLOW_MA_PERIOD} crossover + RSI ${RSI_PERIOD}`;
+
+const HISTORY_CACHE_KEY = 'trading:history:v1';
+const HISTORY_CACHE_TTL = 180; // 3 min — matches the panel poll interval
+
+// ========================================================================
+// Helpers
+// ========================================================================
+
+function makeInternalCtx(): { request: Request; pathParams: Record<string, string>; headers: Record<string, string> } {
+  return { request: new Request('http://internal'), pathParams: {}, headers: {} };
+}
+
+/** Watchlist from TRADING_SYMBOLS (comma-separated), falling back to DEFAULT_SYMBOLS. */
+export function getWatchlist(): string[] {
+  const configured = (process.env.TRADING_SYMBOLS || '')
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  return (configured.length ? configured : DEFAULT_SYMBOLS).slice(0, MAX_SYMBOLS);
+}
+
+export function normalizeSymbols(symbols: string[] | undefined): string[] {
+  const cleaned = (symbols || []).map((s) => s.trim().toUpperCase()).filter(Boolean);
+  return cleaned.length ? [...new Set(cleaned)].slice(0, MAX_SYMBOLS) : getWatchlist();
+}
+
+/**
+ * Close-price history per symbol (oldest first).
+ *
+ * Uses ListMarketQuotes sparklines; symbols served by Finnhub (which carries
+ * no sparkline) are backfilled from the Yahoo chart endpoint.
+ */
+export async function loadPriceHistory(symbols: string[]): Promise<Record<string, number[]>> {
+  if (!symbols.length) return {};
+  const key = `${HISTORY_CACHE_KEY}:${[...symbols].sort().join(',')}`;
+  const result = await cachedFetchJson<Record<string, number[]> | null>(key, HISTORY_CACHE_TTL, async () => {
+    const history: Record<string, number[]> = {};
+    const quotes = await listMarketQuotes(makeInternalCtx(), { symbols });
+    for (const q of quotes.quotes) {
+      if (q.sparkline.length > SLOW_MA_PERIOD) history[q.symbol] = q.sparkline;
+      else if (q.price > 0) history[q.symbol] = [q.price];
+    }
+
+    const missing = symbols.filter((s) => (history[s]?.length ?? 0) <= SLOW_MA_PERIOD);
+    if (missing.length) {
+      const batch = await fetchYahooQuotesBatch(missing);
+      for (const [symbol, q] of batch.results) {
+        if (q.sparkline.length > (history[symbol]?.length ?? 0)) history[symbol] = q.sparkline;
+      }
+    }
+    return Object.keys(history).length ? history : null;
+  });
+  return result || {};
+}
+
+export function latestPrices(history: Record<string, number[]>): Map<string, number> {
+  const prices = new Map<string, number>();
+  for (const [symbol, closes] of Object.entries(history)) {
+    const last = closes[closes.length - 1];
+    if (last != null) prices.set(symbol, last);
+  }
+  return prices;
+}
+
+export function computeSignals(symbols: string[], history: Record<string, number[]>): TradingSignal[] {
+  const signals: TradingSignal[] = [];
+  for (const symbol of symbols) {
+    const signal = computeSignal(symbol, history[symbol]) as TradingSignal | null;
+    if (signal) signals.push(signal);
+  }
+  return signals;
+}
+
+const EXECUTION_LOCK_KEY = 'trading:execute:lock';
+const EXECUTION_LOCK_TTL_SECONDS = 60;
+
+// Guards the same instance when the cache is disabled and the lock below is unavailable
+let executing = false;
+
+/**
+ * Run the broker on the latest signals if the execution interval has elapsed.
+ * The broker state is a read-modify-write on one key, so concurrent requests
+ * take a SET NX lock first; whoever loses skips this round.
+ */
+export async function maybeExecute(signals: TradingSignal[], prices: Map<string, number>): Promise<void> {
+  if (executing) return;
+  executing = true;
+  try {
+    const lock = await runRedisPipeline([
+      ['SET', EXECUTION_LOCK_KEY, String(Date.now()), 'NX', 'EX', EXECUTION_LOCK_TTL_SECONDS],
+    ]);
+    if (lock && lock[0] !== 'OK') return;
+    try {
+      const broker = getBroker();
+      const last = await broker.lastExecutionAt();
+      if (Date.now() - last < EXECUTION_INTERVAL_MINUTES * 60_000) return;
+      await broker.execute(signals, RISK_CONTROLS, prices);
+    } finally {
+      if (lock) await runRedisPipeline([['DEL', EXECUTION_LOCK_KEY]]);
+    }
+  } finally {
+    executing = false;
+  }
+}
+
+/** Latest prices for the broker's open positions (empty map when nothing is held). */
+export async function heldPrices(): Promise<Map<string, number>> {
+  const held = await getBroker().heldSymbols();
+  if (!held.length) return new Map();
+  return latestPrices(await loadPriceHistory(held));
+}
@@ -0,0 +1,25 @@
+/**
+ * RPC: GetTradingAccount
+ * Values the broker account at the latest prices of its open positions.
+ */
+
+import type {
+  ServerContext,
+  GetTradingAccountRequest,
+  GetTradingAccountResponse,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getBroker } from './_broker';
+import { heldPrices } from './_shared';
+
+export async function getTradingAccount(
+  _ctx: ServerContext,
+  _req: GetTradingAccountRequest,
+): Promise<GetTradingAccountResponse> {
+  try {
+    const account = await getBroker().getAccount(await heldPrices());
+    return { account, error: '' };
+  } catch (err) {
+    console.error('[trading] Account lookup failed:', err instanceof Error ? err.message : err);
+    return { account: undefined, error: 'Broker unavailable' };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * RPC: GetTradingPortfolio
+ * Derives drawdown and Sharpe ratio from the broker's daily equity curve.
+ */
+
+import type {
+  ServerContext,
+  GetTradingPortfolioRequest,
+  GetTradingPortfolioResponse,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getBroker } from './_broker';
+import { heldPrices } from './_shared';
+// @ts-expect-error — .mjs module, no declaration file
+import { maxDrawdownPct, sharpeRatio } from './_indicators.mjs';
+
+export async function getTradingPortfolio(
+  _ctx: ServerContext,
+  _req: GetTradingPortfolioRequest,
+): Promise<GetTradingPortfolioResponse> {
+  const broker = getBroker();
+  try {
+    // Account valuation records today's equity point before the curve is read
+    const account = await broker.getAccount(await heldPrices());
+    const [history, trades] = await Promise.all([
+      broker.getEquityHistory(),
+      broker.listTrades(Number.MAX_SAFE_INTEGER),
+    ]);
+    const equities = history.map((p) => p.equity);
+
+    return {
+      metrics: {
+        totalReturnPct: account.totalReturnPct,
+        maxDrawdownPct: maxDrawdownPct(equities),
+        sharpeRatio: sharpeRatio(equities),
+        totalTrades: trades.length,
+        tradingDays: history.length,
+        startingCapital: account.startingCapital,
+        currentEquity: account.equity,
+      },
+      equityHistory: history,
+    };
+  } catch {
+    return { metrics: undefined, equityHistory: [] };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * RPC: GetTradingSignals
+ * Computes MA crossover + RSI signals from ListMarketQuotes price history and,
+ * for the configured watchlist, lets the broker act on them once per interval.
+ */
+
+import type {
+  ServerContext,
+  GetTradingSignalsRequest,
+  GetTradingSignalsResponse,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getBroker } from './_broker';
+import { computeSignals, latestPrices, loadPriceHistory, maybeExecute, normalizeSymbols } from './_shared';
+
+export async function getTradingSignals(
+  _ctx: ServerContext,
+  req: GetTradingSignalsRequest,
+): Promise<GetTradingSignalsResponse> {
+  const usesWatchlist = !req.symbols?.length;
+  const symbols = normalizeSymbols(req.symbols);
+
+  try {
+    const held = usesWatchlist ? await getBroker().heldSymbols() : [];
+    const history = await loadPriceHistory([...new Set([...symbols, ...held])]);
+    const signals = computeSignals(symbols, history);
+
+    // Only the server-configured watchlist drives the broker — ad-hoc symbol lookups never trade
+    if (usesWatchlist && signals.length) {
+      await maybeExecute(signals, latestPrices(history)).catch((err) => {
+        console.error('[trading] Execution failed:', err instanceof Error ? err.message : err);
+      });
+    }
+
+    return { signals, generatedAt: Date.now() };
+  } catch {
+    return { signals: [], generatedAt: Date.now() };
+  }
+}
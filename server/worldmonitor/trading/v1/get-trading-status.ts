@@ -0,0 +1,40 @@
+/**
+ * RPC: GetTradingStatus
+ * Reports the strategy, watchlist, risk controls and execution schedule.
+ */
+
+import type {
+  ServerContext,
+  GetTradingStatusRequest,
+  GetTradingStatusResponse,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getBroker } from './_broker';
+import { EXECUTION_INTERVAL_MINUTES, RISK_CONTROLS, STRATEGY_LABEL, getWatchlist } from './_shared';
+
+export async function getTradingStatus(
+  _ctx: ServerContext,
+  _req: GetTradingStatusRequest,
+): Promise<GetTradingStatusResponse> {
+  const broker = getBroker();
+  let systemStatus = 'active';
+  let lastExecutionAt = 0;
+  try {
+    lastExecutionAt = await broker.lastExecutionAt();
+  } catch {
+    systemStatus = 'error';
+  }
+
+  const intervalMs = EXECUTION_INTERVAL_MINUTES * 60_000;
+  return {
+    systemStatus,
+    broker: broker.id,
+    strategy: STRATEGY_LABEL,
+    symbols: getWatchlist(),
+    riskControls: RISK_CONTROLS,
+    schedule: {
+      lastExecutionAt,
+      nextExecutionAt: Math.max(Date.now(), lastExecutionAt + intervalMs),
+      intervalMinutes: EXECUTION_INTERVAL_MINUTES,
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Trading service handler -- thin composition of per-RPC modules.
+ *
+ * RPCs:
+ *   - GetTradingSignals    (MA/RSI signals from ListMarketQuotes history; drives the broker)
+ *   - GetTradingStatus     (strategy, watchlist, risk controls, schedule)
+ *   - GetTradingAccount    (broker balances)
+ *   - GetTradingPortfolio  (drawdown, Sharpe, daily equity curve)
+ *   - ListTradingPositions (open positions + recent fills)
+ *
+ * Broker backend is selected with TRADING_BROKER (default: paper).
+ */
+
+import type { TradingServiceHandler } from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getTradingSignals } from './get-trading-signals';
+import { getTradingStatus } from './get-trading-status';
+import { getTradingAccount } from './get-trading-account';
+import { getTradingPortfolio } from './get-trading-portfolio';
+import { listTradingPositions } from './list-trading-positions';
+
+export const tradingHandler: TradingServiceHandler = {
+  getTradingSignals,
+  getTradingStatus,
+  getTradingAccount,
+  getTradingPortfolio,
+  listTradingPositions,
+};
@@ -0,0 +1,32 @@
+/**
+ * RPC: ListTradingPositions
+ * Lists the broker's open positions at the latest prices plus recent fills.
+ */
+
+import type {
+  ServerContext,
+  ListTradingPositionsRequest,
+  ListTradingPositionsResponse,
+} from '../../../../src/generated/server/worldmonitor/trading/v1/service_server';
+import { getBroker } from './_broker';
+import { RISK_CONTROLS, heldPrices } from './_shared';
+
+const DEFAULT_TRADE_LIMIT = 20;
+const MAX_TRADE_LIMIT = 100;
+
+export async function listTradingPositions(
+  _ctx: ServerContext,
+  req: ListTradingPositionsRequest,
+): Promise<ListTradingPositionsResponse> {
+  const limit = Math.max(1, Math.min(MAX_TRADE_LIMIT, req.tradeLimit || DEFAULT_TRADE_LIMIT));
+  const broker = getBroker();
+  try {
+    const [positions, trades] = await Promise.all([
+      heldPrices().then((prices) => broker.listPositions(prices)),
+      broker.listTrades(limit),
+    ]);
+    return { positions, maxPositions: RISK_CONTROLS.maxPositions, trades };
+  } catch {
+    return { positions: [], maxPositions: RISK_CONTROLS.maxPositions, trades: [] };
+  }
+}
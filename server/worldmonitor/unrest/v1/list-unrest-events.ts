@@ -1,6 +1,9 @@
 /**
  * ListUnrestEvents RPC -- merges ACLED and GDELT data into deduplicated,
  * severity-classified, sorted unrest events.
+ *
+ * Country and time range narrow the ACLED query; GDELT is global, so the
+ * country, time-range and bbox filters also apply to the merged result.
  */
 
 import type {
@@ -23,7 +26,8 @@ import {
 } from './_shared';
 import { CHROME_UA } from '../../../_shared/constants';
 import { cachedFetchJson } from '../../../_shared/redis';
-import { fetchAcledCached } from '../../../_shared/acled';
+import { acledCountryName, fetchAcledCached } from '../../../_shared/acled';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 const REDIS_CACHE_KEY = 'unrest:events:v1';
 const REDIS_CACHE_TTL = 900; // 15 min — ACLED + GDELT merge
@@ -42,7 +46,7 @@ async function fetchAcledProtests(req: ListUnrestEventsRequest): Promise<UnrestE
       eventTypes: 'Protests',
       startDate,
       endDate,
-      country: req.country || undefined,
+      country: acledCountryName(req.country),
     });
 
     return rawEvents
@@ -176,7 +180,13 @@ export async function listUnrestEvents(
         return sorted.length > 0 ? { events: sorted, clusters: [], pagination: undefined } : null;
       },
     );
-    return result || { events: [], clusters: [], pagination: undefined };
+    if (!result) return { events: [], clusters: [], pagination: undefined };
+    const events = applyGeoFilters(result.events, req, {
+      location: (e) => e.location,
+      time: (e) => e.occurredAt,
+      country: (e) => e.country,
+    });
+    return { events, clusters: result.clusters, pagination: undefined };
   } catch {
     return { events: [], clusters: [], pagination: undefined };
   }
@@ -4,6 +4,8 @@
  * Fetches active fire detections from all 9 monitored regions in parallel
  * and transforms the FIRMS CSV rows into proto-shaped FireDetection objects.
  *
+ * Time range, bbox and country filters apply to the cached detections.
+ *
  * Gracefully degrades to empty results when NASA_FIRMS_API_KEY is not set.
  */
 
@@ -19,6 +21,7 @@ import type {
 
 import { CHROME_UA } from '../../../_shared/constants';
 import { cachedFetchJson } from '../../../_shared/redis';
+import { applyGeoFilters } from '../../../_shared/geo-filter';
 
 const REDIS_CACHE_KEY = 'wildfire:fires:v1';
 const REDIS_CACHE_TTL = 3600; // 1h — NASA FIRMS VIIRS NRT updates every ~3 hours
@@ -87,7 +90,7 @@ function parseDetectedAt(acqDate: string, acqTime: string): number {
 
 export const listFireDetections: WildfireServiceHandler['listFireDetections'] = async (
   _ctx: ServerContext,
-  _req: ListFireDetectionsRequest,
+  req: ListFireDetectionsRequest,
 ): Promise<ListFireDetectionsResponse> => {
   const apiKey =
     process.env.NASA_FIRMS_API_KEY || process.env.FIRMS_API_KEY || '';
@@ -147,5 +150,10 @@ export const listFireDetections: WildfireServiceHandler['listFireDetections'] =
       return fireDetections.length > 0 ? { fireDetections, pagination: undefined } : null;
     },
   );
-  return result || { fireDetections: [], pagination: undefined };
+  if (!result) return { fireDetections: [], pagination: undefined };
+  const fireDetections = applyGeoFilters(result.fireDetections, req, {
+    location: (f) => f.location,
+    time: (f) => f.detectedAt,
+  });
+  return { fireDetections, pagination: undefined };
 };
@@ -105,6 +105,7 @@ const ALLOWED_ENV_KEYS = new Set([
   'VITE_OPENSKY_RELAY_URL', 'OPENSKY_CLIENT_ID', 'OPENSKY_CLIENT_SECRET',
   'AISSTREAM_API_KEY', 'VITE_WS_RELAY_URL', 'FINNHUB_API_KEY', 'NASA_FIRMS_API_KEY',
   'OLLAMA_API_URL', 'OLLAMA_MODEL', 'WORLDMONITOR_API_KEY', 'WTO_API_KEY',
+  'SMTP_URL', 'SMTP_FROM', 'ALERT_EMAIL_RECIPIENTS',
 ]);
 
 const CHROME_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
@@ -909,6 +910,24 @@ async function validateSecretAgainstProvider(key, rawValue, context = {}) {
     case 'WTO_API_KEY':
       return ok('WTO API key stored (live verification not available in sidecar)');
 
+    case 'SMTP_URL': {
+      let parsed;
+      try {
+        parsed = new URL(value);
+      } catch {
+        return fail('Invalid URL');
+      }
+      if (!['smtp:', 'smtps:'].includes(parsed.protocol)) return fail('Must be an smtp:// or smtps:// URL');
+      if (!parsed.hostname) return fail('SMTP host is missing');
+      return ok('SMTP settings stored (verified on first alert delivery)');
+    }
+
+    case 'SMTP_FROM':
+      return ok('Sender address stored');
+
+    case 'ALERT_EMAIL_RECIPIENTS':
+      return ok('Recipients stored');
+
       default:
         return ok('Key stored');
     }
@@ -27,7 +27,7 @@ const MENU_HELP_GITHUB_ID: &str = "help.github";
 #[cfg(feature = "devtools")]
 const MENU_HELP_DEVTOOLS_ID: &str = "help.devtools";
 const TRUSTED_WINDOWS: [&str; 3] = ["main", "settings", "live-channels"];
-const SUPPORTED_SECRET_KEYS: [&str; 22] = [
+const SUPPORTED_SECRET_KEYS: [&str; 24] = [
     "GROQ_API_KEY",
     "OPENROUTER_API_KEY",
     "FRED_API_KEY",
@@ -50,6 +50,9 @@ const SUPPORTED_SECRET_KEYS: [&str; 22] = [
     "OLLAMA_MODEL",
     "WORLDMONITOR_API_KEY",
     "WTO_API_KEY",
+    "SMTP_URL",
+    "SMTP_FROM",
+    "ALERT_EMAIL_RECIPIENTS",
 ];
 
 #[derive(Default)]
@@ -389,6 +392,17 @@ fn logs_dir_path(app: &AppHandle) -> Result<PathBuf, String> {
     Ok(dir)
 }
 
+fn reports_dir_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to resolve app data dir: {e}"))?
+        .join("reports");
+    fs::create_dir_all(&dir)
+        .map_err(|e| format!("Failed to create reports dir {}: {e}", dir.display()))?;
+    Ok(dir)
+}
+
 fn sidecar_log_path(app: &AppHandle) -> Result<PathBuf, String> {
     Ok(logs_dir_path(app)?.join(LOCAL_API_LOG_FILE))
 }
@@ -485,6 +499,31 @@ fn open_sidecar_log_file(app: AppHandle) -> Result<String, String> {
     open_sidecar_log_impl(&app).map(|path| path.display().to_string())
 }
 
+/// Write a generated intelligence report into the app data `reports` folder.
+#[tauri::command]
+fn save_report(webview: Webview, app: AppHandle, filename: String, content: String) -> Result<String, String> {
+    require_trusted_window(webview.label())?;
+    let valid_name = !filename.is_empty()
+        && filename.len() <= 128
+        && filename.chars().all(|c| c.is_ascii_alphanumeric() || matches!(c, '-' | '_' | '.'))
+        && !filename.starts_with('.')
+        && (filename.ends_with(".html") || filename.ends_with(".md"));
+    if !valid_name {
+        return Err(format!("Invalid report filename: {filename}"));
+    }
+    let path = reports_dir_path(&app)?.join(&filename);
+    fs::write(&path, content)
+        .map_err(|e| format!("Failed to write report {}: {e}", path.display()))?;
+    Ok(path.display().to_string())
+}
+
+#[tauri::command]
+fn open_reports_folder(app: AppHandle) -> Result<String, String> {
+    let dir = reports_dir_path(&app)?;
+    open_path_in_shell(&dir)?;
+    Ok(dir.display().to_string())
+}
+
 #[tauri::command]
 async fn open_settings_window_command(app: AppHandle) -> Result<(), String> {
     open_settings_window(&app)
@@ -1254,6 +1293,7 @@ fn main() {
     }
 
     tauri::Builder::default()
+        .plugin(tauri_plugin_notification::init())
         .menu(build_app_menu)
         .on_menu_event(handle_menu_event)
         .manage(LocalApiState::default())
@@ -1272,6 +1312,8 @@ fn main() {
             delete_cache_entry,
             open_logs_folder,
             open_sidecar_log_file,
+            save_report,
+            open_reports_folder,
             open_settings_window_command,
             close_settings_window,
             open_live_channels_window_command,
@@ -12,6 +12,9 @@ import { initDB, cleanOldSnapshots, isAisConfigured, initAisStream, isOutagesCon
 import { mlWorker } from '@/services/ml-worker';
 import { getAiFlowSettings, subscribeAiFlowChange } from '@/services/ai-flow-settings';
 import { startLearning } from '@/services/country-instability';
+import { initAlerting } from '@/services/alerting';
+import { initMonitorGeofences, checkMonitorGeofences } from '@/services/geofence';
+import { setEnabledCustomLayers } from '@/services/custom-layers';
 import { dataFreshness } from '@/services/data-freshness';
 import { loadFromStorage, parseMapUrlState, saveToStorage, isMobileDevice } from '@/utils';
 import type { ParsedMapUrlState } from '@/utils';
@@ -28,6 +31,7 @@ import { RefreshScheduler } from '@/app/refresh-scheduler';
 import { PanelLayoutManager } from '@/app/panel-layout';
 import { DataLoaderManager } from '@/app/data-loader';
 import { EventHandlerManager } from '@/app/event-handlers';
+import { ReportManager } from '@/app/report-manager';
 
 const CYBER_LAYER_ENABLED = import.meta.env.VITE_ENABLE_CYBER_LAYER === 'true';
 
@@ -44,6 +48,7 @@ export class App {
   private countryIntel: CountryIntelManager;
   private refreshScheduler: RefreshScheduler;
   private desktopUpdater: DesktopUpdater;
+  private reportManager: ReportManager;
 
   private modules: { destroy(): void }[] = [];
   private unsubAiFlow: (() => void) | null = null;
@@ -57,7 +62,7 @@ export class App {
 
     const isMobile = isMobileDevice();
     const isDesktopApp = isDesktopRuntime();
-    const monitors: Monitor[] = [];
+    const monitors = loadFromStorage<Monitor[]>(STORAGE_KEYS.monitors, []);
 
     // Use mobile-specific defaults on first load (no saved layers)
     const defaultLayers = isMobile ? MOBILE_DEFAULT_MAP_LAYERS : DEFAULT_MAP_LAYERS;
@@ -187,6 +192,7 @@ export class App {
         });
       }
       mapLayers = initialUrlState.layers;
+      setEnabledCustomLayers(initialUrlState.customLayers ?? []);
     }
     if (!CYBER_LAYER_ENABLED) {
       mapLayers.cyberThreats = false;
@@ -248,6 +254,7 @@ export class App {
     this.refreshScheduler = new RefreshScheduler(this.state);
     this.countryIntel = new CountryIntelManager(this.state);
     this.desktopUpdater = new DesktopUpdater(this.state);
+    this.reportManager = new ReportManager(this.state);
 
     this.dataLoader = new DataLoaderManager(this.state, {
       renderCriticalBanner: (postures) => this.panelLayout.renderCriticalBanner(postures),
@@ -259,6 +266,7 @@ export class App {
 
     this.panelLayout = new PanelLayoutManager(this.state, {
       openCountryStory: (code, name) => this.countryIntel.openCountryStory(code, name),
+      openCountryBriefByCode: (code, name) => this.countryIntel.openCountryBriefByCode(code, name),
       loadAllData: () => this.dataLoader.loadAllData(),
     });
 
@@ -268,8 +276,12 @@ export class App {
       flushStaleRefreshes: () => this.refreshScheduler.flushStaleRefreshes(),
       setHiddenSince: (ts) => this.refreshScheduler.setHiddenSince(ts),
       loadDataForLayer: (layer) => { void this.dataLoader.loadDataForLayer(layer as keyof MapLayers); },
+      refreshViewportLayers: () => { void this.dataLoader.refreshViewportLayers(); },
+      syncLiveStream: () => this.dataLoader.syncLiveStream(),
       waitForAisData: () => this.dataLoader.waitForAisData(),
       syncDataFreshnessWithLayers: () => this.dataLoader.syncDataFreshnessWithLayers(),
+      renderCriticalBanner: (postures) => this.panelLayout.renderCriticalBanner(postures),
+      openReportBuilder: () => this.reportManager.open(),
     });
 
     // Wire cross-module callback: DataLoader → SearchManager
@@ -278,6 +290,7 @@ export class App {
     // Track destroy order (reverse of init)
     this.modules = [
       this.desktopUpdater,
+      this.reportManager,
       this.panelLayout,
       this.countryIntel,
       this.searchManager,
@@ -323,6 +336,11 @@ export class App {
     }
 
     // Phase 2: Shared UI components
+    initAlerting(() => this.state.monitors);
+    initMonitorGeofences(() => this.state.monitors);
+    this.state.map?.onLayerData((layer, data) => {
+      if (!this.state.isPlaybackMode) checkMonitorGeofences(layer, data);
+    });
     this.state.signalModal = new SignalModal();
     this.state.signalModal.setLocationClickHandler((lat, lon) => {
       this.state.map?.setCenter(lat, lon, 4);
@@ -362,9 +380,11 @@ export class App {
     this.eventHandlers.setupUrlStateSync();
 
     // Phase 6: Data loading
+    this.dataLoader.init();
     this.dataLoader.syncDataFreshnessWithLayers();
     await preloadCountryGeometry();
     await this.dataLoader.loadAllData();
+    this.dataLoader.syncLiveStream();
 
     startLearning();
 
@@ -387,6 +407,7 @@ export class App {
     // Phase 8: Deep links + update checks
     this.handleDeepLinks();
     this.desktopUpdater.init();
+    this.reportManager.init();
 
     // Analytics
     trackEvent('wm_app_loaded', {
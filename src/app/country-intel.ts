@@ -8,6 +8,7 @@ import { calculateCII, getCountryData, TIER1_COUNTRIES } from '@/services/countr
 import { signalAggregator } from '@/services/signal-aggregator';
 import { dataFreshness } from '@/services/data-freshness';
 import { fetchCountryMarkets } from '@/services/prediction';
+import { fetchRiskScoreHistory } from '@/services/cached-risk-scores';
 import { collectStoryData } from '@/services/story-data';
 import { renderStoryToCanvas } from '@/services/story-renderer';
 import { openStoryModal } from '@/components/StoryModal';
@@ -15,6 +16,7 @@ import { MarketServiceClient } from '@/generated/client/worldmonitor/market/v1/s
 import { IntelligenceServiceClient } from '@/generated/client/worldmonitor/intelligence/v1/service_client';
 import { BETA_MODE } from '@/config/beta';
 import { mlWorker } from '@/services/ml-worker';
+import { recordCountryBrief } from '@/services/semantic-search';
 import { t } from '@/services/i18n';
 import { trackCountrySelected, trackCountryBriefOpened } from '@/services/analytics';
 import { getSecretValue, isFeatureAvailable } from '@/services/runtime-config';
@@ -148,6 +150,14 @@ export class CountryIntelManager implements AppModule {
       if (this.ctx.countryBriefPage?.getCode() === code) this.ctx.countryBriefPage.updateStock(stock);
     });
 
+    if (TIER1_COUNTRIES[code]) {
+      fetchRiskScoreHistory()
+        .then((history) => {
+          if (this.ctx.countryBriefPage?.getCode() === code) this.ctx.countryBriefPage.updateScoreHistory(code, history.get(code) ?? []);
+        })
+        .catch(() => {});
+    }
+
     fetchCountryMarkets(country)
       .then((markets) => {
         if (this.ctx.countryBriefPage?.getCode() === code) this.ctx.countryBriefPage.updateMarkets(markets);
@@ -293,6 +303,7 @@ export class CountryIntelManager implements AppModule {
       }
 
       if (briefText) {
+        recordCountryBrief(code, briefText);
         this.ctx.countryBriefPage!.updateBrief({ brief: briefText, country, code });
       } else {
         const briefHeadlines = (context.headlines as string[] | undefined) || [];
@@ -307,6 +318,7 @@ export class CountryIntelManager implements AppModule {
         }
 
         if (fallbackBrief) {
+          recordCountryBrief(code, fallbackBrief);
           this.ctx.countryBriefPage!.updateBrief({ brief: fallbackBrief, country, code, fallback: true });
         } else {
           const lines: string[] = [];
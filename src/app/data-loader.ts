@@ -1,5 +1,5 @@
 import type { AppContext, AppModule } from '@/app/app-context';
-import type { NewsItem, MapLayers, SocialUnrestEvent, InternetOutage } from '@/types';
+import type { Feed, NewsItem, ClusteredEvent, MapLayers, SocialUnrestEvent, InternetOutage, AisDisruptionEvent, AisDensityZone, AisVesselEvent } from '@/types';
 import type { Earthquake } from '@/services/earthquakes';
 import type { FredSeries } from '@/services/economic';
 import type { MarketData } from '@/types';
@@ -34,6 +34,7 @@ import {
   getProtestStatus,
   fetchFlightDelays, type AirportDelayAlert,
   fetchMilitaryFlights,
+  militaryFlightsFromLiveRegions, type LiveFlightRegion,
   fetchMilitaryVessels,
   initMilitaryVesselStream,
   isMilitaryVesselTrackingConfigured,
@@ -64,16 +65,24 @@ import { updateAndCheck } from '@/services/temporal-baseline';
 import { fetchAllFires, flattenFires, computeRegionStats, toMapFires } from '@/services/wildfires';
 import { analyzeFlightsForSurge, surgeAlertToSignal, detectForeignMilitaryPresence, foreignPresenceToSignal, type TheaterPostureSummary } from '@/services/military-surge';
 import { fetchCachedTheaterPosture } from '@/services/cached-theater-posture';
-import { ingestProtestsForCII, ingestMilitaryForCII, ingestNewsForCII, ingestOutagesForCII, ingestConflictsForCII, ingestUcdpForCII, ingestHapiForCII, ingestClimateForCII, isInLearningMode } from '@/services/country-instability';
+import { recordFlightTracks } from '@/services/flight-tracks';
+import { recordVesselEvents } from '@/services/maritime/vessel-events';
+import { getSanctionsHits, onSanctionsChanged, screenMilitaryFlights, screenMilitaryVessels, screenNewsClusters, screenVesselEvents } from '@/services/sanctions';
+import { ingestProtestsForCII, ingestMilitaryForCII, ingestNewsForCII, ingestOutagesForCII, ingestConflictsForCII, ingestUcdpForCII, ingestHapiForCII, ingestClimateForCII, isInLearningMode, calculateCII } from '@/services/country-instability';
+import { detectCIIShifts } from '@/services/cii-shift';
+import { fetchRiskScoreHistory } from '@/services/cached-risk-scores';
 import { dataFreshness, type DataSourceId } from '@/services/data-freshness';
 import { fetchConflictEvents, fetchUcdpClassifications, fetchHapiSummary, fetchUcdpEvents, deduplicateAgainstAcled } from '@/services/conflict';
 import { getAIFredData, getAITradePolicyData, getAISupplyChainData, isAIPanelFallbackAvailable } from '@/services/panel-ai-fallback';
 import { fetchClimateAnomalies } from '@/services/climate';
 import { enrichEventsWithExposure } from '@/services/population-exposure';
+import { getCustomLayerSites } from '@/services/custom-layers';
 import { debounce, getCircuitBreakerCooldownInfo } from '@/utils';
 import { isFeatureAvailable } from '@/services/runtime-config';
 import { getAiFlowSettings } from '@/services/ai-flow-settings';
-import { t } from '@/services/i18n';
+import { t, getCurrentLanguage } from '@/services/i18n';
+import { fetchNewsDigest, type NewsCategoryDigest } from '@/services/news';
+import { getCustomFeedsForCategory, onCustomFeedsChanged } from '@/services/custom-feeds';
 import { maybeShowDownloadBanner } from '@/components/DownloadBanner';
 // import { mountCommunityWidget } from '@/components/CommunityWidget';
 import { ResearchServiceClient } from '@/generated/client/worldmonitor/research/v1/service_client';
@@ -84,6 +93,7 @@ import {
   CryptoPanel,
   PredictionPanel,
   CIIPanel,
+  MonitorPanel,
   StrategicPosturePanel,
   EconomicPanel,
   TechReadinessPanel,
@@ -109,9 +119,23 @@ import { fetchAllPositiveTopicIntelligence } from '@/services/gdelt-intel';
 import { fetchPositiveGeoEvents, geocodePositiveNewsItems } from '@/services/positive-events-geo';
 import { fetchKindnessData } from '@/services/kindness-data';
 import { getPersistentCache, setPersistentCache } from '@/services/persistent-cache';
+import { boundsContain, prefersViewportScoping, viewportQuery, type GeoQuery, type ViewportBounds } from '@/services/geo-query';
+import { LiveStream, isLiveStreamAvailable, type LiveItem, type LiveTopic } from '@/services/live-stream';
 
 const CYBER_LAYER_ENABLED = import.meta.env.VITE_ENABLE_CYBER_LAYER === 'true';
 
+/** Map-only layers fetched for the viewport on slow connections. */
+type ViewportLayer = 'natural' | 'cyberThreats';
+
+/** Layers the relay can push over the live stream, and the topics each needs. */
+type LiveLayer = 'natural' | 'ais' | 'military';
+
+const LIVE_LAYER_TOPICS: Record<LiveLayer, LiveTopic[]> = {
+  natural: ['earthquakes'],
+  ais: ['ais-disruptions', 'ais-density', 'vessel-events'],
+  military: ['military-flights'],
+};
+
 export interface DataLoaderCallbacks {
   renderCriticalBanner: (postures: TheaterPostureSummary[]) => void;
 }
@@ -121,11 +145,35 @@ export class DataLoaderManager implements AppModule {
   private callbacks: DataLoaderCallbacks;
 
   private mapFlashCache: Map<string, number> = new Map();
+  /** Server-computed clusters (ListNewsClusters) for categories loaded via the RPC. */
+  private serverNewsClusters: Map<string, ClusteredEvent[]> = new Map();
   private readonly MAP_FLASH_COOLDOWN_MS = 10 * 60 * 1000;
   private readonly applyTimeRangeFilterToNewsPanelsDebounced = debounce(() => {
     this.applyTimeRangeFilterToNewsPanels();
   }, 120);
 
+  private readonly reloadNewsDebounced = debounce(() => {
+    if (this.ctx.isDestroyed || this.ctx.inFlight.has('news')) return;
+    this.ctx.inFlight.add('news');
+    void this.loadNews().finally(() => this.ctx.inFlight.delete('news'));
+  }, 1000);
+  private unsubscribeCustomFeeds: (() => void) | null = null;
+  private unsubscribeSanctions: (() => void) | null = null;
+  /** Area each viewport-scoped layer was last fetched for; null means global. */
+  private viewportFetches = new Map<ViewportLayer, ViewportBounds | null>();
+  private liveStream = new LiveStream({
+    onItems: (topic, items) => this.applyLiveItems(topic, items),
+    onStatus: (topic, live) => this.onLiveStatus(topic, live),
+  });
+  /** Latest streamed AIS lists; each topic updates one of them. */
+  private liveAis: { disruptions: AisDisruptionEvent[]; density: AisDensityZone[]; vesselEvents: AisVesselEvent[] } = {
+    disruptions: [],
+    density: [],
+    vesselEvents: [],
+  };
+  /** Bumped per streamed flight update so a slow enrichment can't overwrite a newer one. */
+  private liveFlightSeq = 0;
+
   public updateSearchIndex: () => void = () => {};
 
   constructor(ctx: AppContext, callbacks: DataLoaderCallbacks) {
@@ -133,9 +181,16 @@ export class DataLoaderManager implements AppModule {
     this.callbacks = callbacks;
   }
 
-  init(): void {}
+  init(): void {
+    this.unsubscribeCustomFeeds = onCustomFeedsChanged(() => this.reloadNewsDebounced());
+    this.unsubscribeSanctions = onSanctionsChanged(() => this.ctx.map?.setSanctionsHits(getSanctionsHits()));
+  }
 
-  destroy(): void {}
+  destroy(): void {
+    this.unsubscribeCustomFeeds?.();
+    this.unsubscribeSanctions?.();
+    this.liveStream.destroy();
+  }
 
   private shouldShowIntelligenceNotifications(): boolean {
     return !this.ctx.isMobile && !!this.ctx.findingsBadge?.isPopupEnabled();
@@ -372,6 +427,98 @@ export class DataLoaderManager implements AppModule {
     console.log('[DataLoader] Layer population check complete');
   }
 
+  /** Viewport query for a layer fetch on slow connections, or null to fetch globally. */
+  private scopedQuery(layer: ViewportLayer): GeoQuery | null {
+    const query = prefersViewportScoping() ? viewportQuery(this.ctx.map?.getBounds() ?? null) : null;
+    this.viewportFetches.set(layer, query?.bounds ?? null);
+    return query;
+  }
+
+  /** Reload viewport-scoped layers once the view leaves the area they were fetched for. */
+  async refreshViewportLayers(): Promise<void> {
+    if (this.ctx.isDestroyed) return;
+    const visible = this.ctx.map?.getBounds() ?? null;
+    for (const [layer, fetched] of this.viewportFetches) {
+      // Global data already covers any view.
+      if (!fetched || !this.ctx.mapLayers[layer]) continue;
+      if (visible && boundsContain(fetched, visible)) continue;
+      void this.loadDataForLayer(layer);
+    }
+  }
+
+  /** Whether a layer is currently fed by the live stream instead of polling. */
+  isLayerLive(layer: LiveLayer): boolean {
+    return LIVE_LAYER_TOPICS[layer].every((topic) => this.liveStream.isLive(topic));
+  }
+
+  /** Subscribe the live stream to the enabled streamable layers. */
+  syncLiveStream(): void {
+    if (this.ctx.isDestroyed || SITE_VARIANT === 'happy' || !isLiveStreamAvailable()) return;
+    const topics: LiveTopic[] = [];
+    if (this.ctx.mapLayers.natural) topics.push(...LIVE_LAYER_TOPICS.natural);
+    if (this.ctx.mapLayers.ais && isAisConfigured()) topics.push(...LIVE_LAYER_TOPICS.ais);
+    if (this.ctx.mapLayers.military && isFeatureAvailable('openskyRelay')) topics.push(...LIVE_LAYER_TOPICS.military);
+    this.liveStream.setTopics(topics);
+  }
+
+  private applyLiveItems(topic: LiveTopic, items: LiveItem[]): void {
+    // Playback replays recorded state; live data would overwrite it
+    if (this.ctx.isDestroyed || this.ctx.isPlaybackMode) return;
+    if (topic === 'earthquakes') {
+      const earthquakes = (items as Earthquake[]).sort((a, b) => b.occurredAt - a.occurredAt);
+      // Streamed data is global, so a viewport-scoped fetch is no longer needed.
+      this.viewportFetches.set('natural', null);
+      this.ctx.intelligenceCache.earthquakes = earthquakes;
+      ingestEarthquakes(earthquakes);
+      this.ctx.map?.setEarthquakes(earthquakes);
+      this.ctx.statusPanel?.updateApi('USGS', { status: 'ok' });
+      dataFreshness.recordUpdate('usgs', earthquakes.length);
+      return;
+    }
+    if (topic === 'military-flights') {
+      void this.applyLiveFlights(items as LiveFlightRegion[]);
+      return;
+    }
+
+    if (topic === 'ais-disruptions') this.liveAis.disruptions = items as AisDisruptionEvent[];
+    else if (topic === 'ais-density') this.liveAis.density = items as AisDensityZone[];
+    else this.liveAis.vesselEvents = (items as AisVesselEvent[]).sort((a, b) => b.endedAt - a.endedAt);
+    const { disruptions, density, vesselEvents } = this.liveAis;
+    this.renderAisSignals(disruptions, density, vesselEvents, true);
+  }
+
+  private async applyLiveFlights(regions: LiveFlightRegion[]): Promise<void> {
+    const seq = ++this.liveFlightSeq;
+    const { flights, clusters } = await militaryFlightsFromLiveRegions(regions);
+    if (seq !== this.liveFlightSeq || this.ctx.isDestroyed || this.ctx.isPlaybackMode) return;
+    const military = this.ctx.intelligenceCache.military;
+    if (!military) {
+      // Vessels haven't loaded yet; the first load picks these flights up from the service cache.
+      void this.loadDataForLayer('military');
+      return;
+    }
+    const { vessels, vesselClusters } = military;
+    this.ctx.intelligenceCache.military = { flights, flightClusters: clusters, vessels, vesselClusters };
+    this.ctx.map?.setMilitaryFlights(flights, clusters);
+    ingestFlights(flights);
+    void recordFlightTracks(flights);
+    void screenMilitaryFlights(flights);
+    ingestMilitaryForCII(flights, vessels);
+    signalAggregator.ingestFlights(flights);
+    this.ctx.map?.updateMilitaryForEscalation(flights, vessels);
+    this.ctx.map?.setLayerReady('military', flights.length > 0 || vessels.length > 0);
+    this.ctx.statusPanel?.updateApi('OpenSky', { status: 'ok' });
+    dataFreshness.recordUpdate('opensky', flights.length);
+  }
+
+  /** A topic dropped off the stream: poll its layer now rather than wait for the next interval. */
+  private onLiveStatus(topic: LiveTopic, live: boolean): void {
+    if (live || this.ctx.isDestroyed) return;
+    const layer = (Object.keys(LIVE_LAYER_TOPICS) as LiveLayer[])
+      .find((l) => LIVE_LAYER_TOPICS[l].includes(topic));
+    if (layer && this.ctx.mapLayers[layer]) void this.loadDataForLayer(layer);
+  }
+
   async loadDataForLayer(layer: keyof MapLayers): Promise<void> {
     if (this.ctx.isDestroyed || this.ctx.inFlight.has(layer)) return;
     this.ctx.inFlight.add(layer);
@@ -537,6 +684,12 @@ export class DataLoaderManager implements AppModule {
       panel.renderFilteredEmpty(`No items in ${this.getTimeRangeLabel()}`);
       return;
     }
+    const serverClusters = this.serverNewsClusters.get(category);
+    if (serverClusters) {
+      const visible = new Set(filteredItems);
+      panel.renderNews(filteredItems, serverClusters.filter(c => c.allItems.some(item => visible.has(item))));
+      return;
+    }
     panel.renderNews(filteredItems);
   }
 
@@ -550,7 +703,12 @@ export class DataLoaderManager implements AppModule {
     this.applyTimeRangeFilterToNewsPanelsDebounced();
   }
 
-  private async loadNewsCategory(category: string, feeds: typeof FEEDS.politics): Promise<NewsItem[]> {
+  private async loadNewsCategory(
+    category: string,
+    feeds: typeof FEEDS.politics,
+    digest?: NewsCategoryDigest,
+    customFeeds: Feed[] = [],
+  ): Promise<NewsItem[]> {
     try {
       const panel = this.ctx.newsPanels[category];
       const renderIntervalMs = 100;
@@ -558,7 +716,7 @@ export class DataLoaderManager implements AppModule {
       let renderTimeout: ReturnType<typeof setTimeout> | null = null;
       let pendingItems: NewsItem[] | null = null;
 
-      const enabledFeeds = (feeds ?? []).filter(f => !this.ctx.disabledSources.has(f.name));
+      const enabledFeeds = [...(feeds ?? []), ...customFeeds].filter(f => !this.ctx.disabledSources.has(f.name));
       if (enabledFeeds.length === 0) {
         delete this.ctx.newsByCategory[category];
         if (panel) panel.showError(t('common.allSourcesDisabled'));
@@ -597,12 +755,19 @@ export class DataLoaderManager implements AppModule {
         }
       };
 
-      const items = await fetchCategoryFeeds(enabledFeeds, {
-        onBatch: (partialItems) => {
-          scheduleRender(partialItems);
-          this.flashMapForNews(partialItems);
-        },
-      });
+      let items: NewsItem[];
+      if (digest) {
+        items = await this.mergeCustomFeedItems(category, digest, customFeeds);
+        this.flashMapForNews(items);
+      } else {
+        this.serverNewsClusters.delete(category);
+        items = await fetchCategoryFeeds(enabledFeeds, {
+          onBatch: (partialItems) => {
+            scheduleRender(partialItems);
+            this.flashMapForNews(partialItems);
+          },
+        });
+      }
 
       this.renderNewsForCategory(category, items);
       if (panel) {
@@ -614,9 +779,11 @@ export class DataLoaderManager implements AppModule {
 
         if (items.length === 0) {
           const failures = getFeedFailures();
-          const failedFeeds = enabledFeeds.filter(f => failures.has(f.name));
+          const failedFeeds = digest
+            ? [...digest.failedSources, ...customFeeds.filter(f => failures.has(f.name)).map(f => f.name)]
+            : enabledFeeds.filter(f => failures.has(f.name)).map(f => f.name);
           if (failedFeeds.length > 0) {
-            const names = failedFeeds.map(f => f.name).join(', ');
+            const names = failedFeeds.join(', ');
             panel.showError(`${t('common.noNewsAvailable')} (${names} failed)`);
           }
         }
@@ -646,6 +813,21 @@ export class DataLoaderManager implements AppModule {
     }
   }
 
+  /**
+   * Server digests cover only the built-in feeds; user-added feeds are fetched
+   * here and joined in, in which case the category is re-clustered client-side.
+   */
+  private async mergeCustomFeedItems(category: string, digest: NewsCategoryDigest, customFeeds: Feed[]): Promise<NewsItem[]> {
+    const enabled = customFeeds.filter(f => !this.ctx.disabledSources.has(f.name));
+    const custom = enabled.length > 0 ? await fetchCategoryFeeds(enabled) : [];
+    if (custom.length === 0) {
+      this.serverNewsClusters.set(category, digest.clusters);
+      return digest.items;
+    }
+    this.serverNewsClusters.delete(category);
+    return [...digest.items, ...custom].sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime());
+  }
+
   async loadNews(): Promise<void> {
     // Reset happy variant accumulator for fresh pipeline run
     if (SITE_VARIANT === 'happy') {
@@ -654,7 +836,17 @@ export class DataLoaderManager implements AppModule {
 
     const categories = Object.entries(FEEDS)
       .filter((entry): entry is [string, typeof FEEDS[keyof typeof FEEDS]] => Array.isArray(entry[1]) && entry[1].length > 0)
-      .map(([key, feeds]) => ({ key, feeds }));
+      .map(([key, feeds]) => ({ key, feeds, customFeeds: getCustomFeedsForCategory(key) }));
+
+    // One server round-trip covers every category; null means the RPC is
+    // unavailable and each category falls back to client-side feed fetching.
+    // The happy variant keeps the client path for image and category tagging.
+    const digests = SITE_VARIANT === 'happy' ? null : await fetchNewsDigest({
+      variant: SITE_VARIANT,
+      lang: getCurrentLanguage(),
+      categories: [...categories.map(({ key }) => key), ...(SITE_VARIANT === 'full' ? ['intel'] : [])],
+      disabledSources: this.ctx.disabledSources,
+    });
 
     const maxCategoryConcurrency = SITE_VARIANT === 'tech' ? 4 : 5;
     const categoryConcurrency = Math.max(1, Math.min(maxCategoryConcurrency, categories.length));
@@ -662,7 +854,7 @@ export class DataLoaderManager implements AppModule {
     for (let i = 0; i < categories.length; i += categoryConcurrency) {
       const chunk = categories.slice(i, i + categoryConcurrency);
       const chunkResults = await Promise.allSettled(
-        chunk.map(({ key, feeds }) => this.loadNewsCategory(key, feeds))
+        chunk.map(({ key, feeds, customFeeds }) => this.loadNewsCategory(key, feeds, digests?.get(key), customFeeds))
       );
       categoryResults.push(...chunkResults);
     }
@@ -686,14 +878,21 @@ export class DataLoaderManager implements AppModule {
     });
 
     if (SITE_VARIANT === 'full') {
-      const enabledIntelSources = INTEL_SOURCES.filter(f => !this.ctx.disabledSources.has(f.name));
+      const customIntelSources = getCustomFeedsForCategory('intel');
+      const enabledIntelSources = [...INTEL_SOURCES, ...customIntelSources].filter(f => !this.ctx.disabledSources.has(f.name));
       const intelPanel = this.ctx.newsPanels['intel'];
       if (enabledIntelSources.length === 0) {
         delete this.ctx.newsByCategory['intel'];
         if (intelPanel) intelPanel.showError(t('common.allIntelSourcesDisabled'));
         this.ctx.statusPanel?.updateFeed('Intel', { status: 'ok', itemCount: 0 });
       } else {
-        const intelResult = await Promise.allSettled([fetchCategoryFeeds(enabledIntelSources)]);
+        const intelDigest = digests?.get('intel');
+        if (!intelDigest) this.serverNewsClusters.delete('intel');
+        const intelResult = await Promise.allSettled([
+          intelDigest
+            ? this.mergeCustomFeedItems('intel', intelDigest, customIntelSources)
+            : fetchCategoryFeeds(enabledIntelSources),
+        ]);
         if (intelResult[0]?.status === 'fulfilled') {
           const intel = intelResult[0].value;
           this.renderNewsForCategory('intel', intel);
@@ -715,6 +914,7 @@ export class DataLoaderManager implements AppModule {
     }
 
     this.ctx.allNews = collectedNews;
+    (this.ctx.panels['monitors'] as MonitorPanel | undefined)?.renderResults(this.ctx.allNews);
     this.ctx.initialLoadComplete = true;
     maybeShowDownloadBanner();
     // mountCommunityWidget(); // Removed — not needed
@@ -733,6 +933,7 @@ export class DataLoaderManager implements AppModule {
 
       if (this.ctx.latestClusters.length > 0) {
         // AI Market Share panel is self-contained (no updateInsights needed)
+        void screenNewsClusters(this.ctx.latestClusters);
       }
 
       const geoLocated = this.ctx.latestClusters
@@ -750,6 +951,7 @@ export class DataLoaderManager implements AppModule {
     } catch (error) {
       console.error('[App] Clustering failed, clusters unchanged:', error);
     }
+    this.updateSearchIndex();
 
     // Happy variant: run multi-stage positive news pipeline + map layers
     if (SITE_VARIANT === 'happy') {
@@ -893,7 +1095,7 @@ export class DataLoaderManager implements AppModule {
       }
 
       const commoditiesPanel = this.ctx.panels['commodities'] as CommoditiesPanel;
-      const mapCommodity = (c: MarketData) => ({ display: c.display, price: c.price, change: c.change, sparkline: c.sparkline });
+      const mapCommodity = (c: MarketData) => ({ symbol: c.symbol, display: c.display, price: c.price, change: c.change, sparkline: c.sparkline });
 
       commoditiesLoaded = commoditiesLoaded || !!(stocksResult.rateLimited && stocksResult.data.length === 0);
       for (let attempt = 0; attempt < 3 && !commoditiesLoaded; attempt++) {
@@ -986,6 +1188,7 @@ export class DataLoaderManager implements AppModule {
       this.ctx.statusPanel?.updateApi('Polymarket', { status: 'ok' });
       dataFreshness.recordUpdate('polymarket', predictions.length);
       dataFreshness.recordUpdate('predictions', predictions.length);
+      this.updateSearchIndex();
 
       void this.runCorrelationAnalysis();
     } catch (error) {
@@ -997,15 +1200,23 @@ export class DataLoaderManager implements AppModule {
   }
 
   async loadNatural(): Promise<void> {
+    // While the live stream pushes earthquakes, only EONET still needs polling.
+    const streaming = this.isLayerLive('natural');
+    const query = streaming ? null : this.scopedQuery('natural');
     const [earthquakeResult, eonetResult] = await Promise.allSettled([
-      fetchEarthquakes(),
+      streaming ? Promise.resolve([]) : fetchEarthquakes(query),
       fetchNaturalEvents(30),
     ]);
 
-    if (earthquakeResult.status === 'fulfilled' && earthquakeResult.value.length > 0) {
-      this.ctx.intelligenceCache.earthquakes = earthquakeResult.value;
+    if (streaming) {
+      // applyLiveItems keeps the map and intelligence cache current.
+    } else if (earthquakeResult.status === 'fulfilled' && (earthquakeResult.value.length > 0 || query)) {
+      // A viewport subset only feeds the map; convergence needs the global list.
+      if (!query) {
+        this.ctx.intelligenceCache.earthquakes = earthquakeResult.value;
+        ingestEarthquakes(earthquakeResult.value);
+      }
       this.ctx.map?.setEarthquakes(earthquakeResult.value);
-      ingestEarthquakes(earthquakeResult.value);
       this.ctx.statusPanel?.updateApi('USGS', { status: 'ok' });
       dataFreshness.recordUpdate('usgs', earthquakeResult.value.length);
     } else {
@@ -1164,6 +1375,7 @@ export class DataLoaderManager implements AppModule {
     tasks.push((async () => {
       try {
         const conflictData = await fetchConflictEvents();
+        this.ctx.intelligenceCache.conflicts = conflictData.events;
         ingestConflictsForCII(conflictData.events);
         if (conflictData.count > 0) dataFreshness.recordUpdate('acled_conflict', conflictData.count);
       } catch (error) {
@@ -1213,7 +1425,10 @@ export class DataLoaderManager implements AppModule {
           if (report) this.ctx.intelligenceCache.usniFleet = report;
         }).catch(() => {});
         ingestFlights(flightData.flights);
+        void recordFlightTracks(flightData.flights);
+        void screenMilitaryFlights(flightData.flights);
         ingestVessels(vesselData.vessels);
+        void screenMilitaryVessels(vesselData.vessels);
         ingestMilitaryForCII(flightData.flights, vesselData.vessels);
         signalAggregator.ingestFlights(flightData.flights);
         signalAggregator.ingestVessels(vesselData.vessels);
@@ -1270,6 +1485,7 @@ export class DataLoaderManager implements AppModule {
           latitude: e.lat, longitude: e.lon, event_date: e.time.toISOString(), fatalities: e.fatalities ?? 0,
         }));
         const events = deduplicateAgainstAcled(result.data, acledEvents);
+        this.ctx.intelligenceCache.ucdpEvents = events;
         if (this.ctx.mapLayers.ucdpEvents) {
           this.ctx.map?.setUcdpEvents(events);
         }
@@ -1307,7 +1523,10 @@ export class DataLoaderManager implements AppModule {
     try {
       const events = [
         ...(this.ctx.intelligenceCache.protests?.events || []).slice(0, 10).map(e => ({
-          id: e.id, lat: e.lat, lon: e.lon, type: 'conflict' as const, name: e.title || 'Protest',
+          id: e.id, lat: e.lat, lon: e.lon, type: 'conflict', name: e.title || 'Protest',
+        })),
+        ...getCustomLayerSites(10).map(site => ({
+          id: site.id, lat: site.lat, lon: site.lon, type: 'custom', name: site.name, radiusKm: site.radiusKm,
         })),
       ];
       if (events.length > 0) {
@@ -1323,6 +1542,7 @@ export class DataLoaderManager implements AppModule {
     }
 
     (this.ctx.panels['cii'] as CIIPanel)?.refresh();
+    this.updateSearchIndex();
     console.log('[Intelligence] All signals loaded for CII calculation');
   }
 
@@ -1584,7 +1804,8 @@ export class DataLoaderManager implements AppModule {
       return;
     }
 
-    if (this.ctx.cyberThreatsCache) {
+    const query = this.scopedQuery('cyberThreats');
+    if (this.ctx.cyberThreatsCache && !query) {
       this.ctx.map?.setCyberThreats(this.ctx.cyberThreatsCache);
       this.ctx.map?.setLayerReady('cyberThreats', this.ctx.cyberThreatsCache.length > 0);
       this.ctx.statusPanel?.updateFeed('Cyber Threats', { status: 'ok', itemCount: this.ctx.cyberThreatsCache.length });
@@ -1592,8 +1813,8 @@ export class DataLoaderManager implements AppModule {
     }
 
     try {
-      const threats = await fetchCyberThreats({ limit: 500, days: 14 });
-      this.ctx.cyberThreatsCache = threats;
+      const threats = await fetchCyberThreats({ limit: 500, days: 14, query });
+      if (!query) this.ctx.cyberThreatsCache = threats;
       this.ctx.map?.setCyberThreats(threats);
       this.ctx.map?.setLayerReady('cyberThreats', threats.length > 0);
       this.ctx.statusPanel?.updateFeed('Cyber Threats', { status: 'ok', itemCount: threats.length });
@@ -1607,34 +1828,13 @@ export class DataLoaderManager implements AppModule {
   }
 
   async loadAisSignals(): Promise<void> {
+    // The live stream is fresher than the snapshot poll; a late poll would roll it back.
+    if (this.isLayerLive('ais')) return;
     try {
-      const { disruptions, density } = await fetchAisSignals();
+      const { disruptions, density, vesselEvents } = await fetchAisSignals();
       const aisStatus = getAisStatus();
-      console.log('[Ships] Events:', { disruptions: disruptions.length, density: density.length, vessels: aisStatus.vessels });
-      this.ctx.map?.setAisData(disruptions, density);
-      signalAggregator.ingestAisDisruptions(disruptions);
-      updateAndCheck([
-        { type: 'ais_gaps', region: 'global', count: disruptions.length },
-      ]).then(anomalies => {
-        if (anomalies.length > 0) signalAggregator.ingestTemporalAnomalies(anomalies);
-      }).catch(() => { });
-
-      const hasData = disruptions.length > 0 || density.length > 0;
-      this.ctx.map?.setLayerReady('ais', hasData);
-
-      const shippingCount = disruptions.length + density.length;
-      const shippingStatus = shippingCount > 0 ? 'ok' : (aisStatus.connected ? 'warning' : 'error');
-      this.ctx.statusPanel?.updateFeed('Shipping', {
-        status: shippingStatus,
-        itemCount: shippingCount,
-        errorMessage: !aisStatus.connected && shippingCount === 0 ? 'AIS snapshot unavailable' : undefined,
-      });
-      this.ctx.statusPanel?.updateApi('AISStream', {
-        status: aisStatus.connected ? 'ok' : 'warning',
-      });
-      if (hasData) {
-        dataFreshness.recordUpdate('ais', shippingCount);
-      }
+      console.log('[Ships] Events:', { disruptions: disruptions.length, density: density.length, vesselEvents: vesselEvents.length, vessels: aisStatus.vessels });
+      this.renderAisSignals(disruptions, density, vesselEvents, aisStatus.connected);
     } catch (error) {
       this.ctx.map?.setLayerReady('ais', false);
       this.ctx.statusPanel?.updateFeed('Shipping', { status: 'error', errorMessage: String(error) });
@@ -1643,6 +1843,40 @@ export class DataLoaderManager implements AppModule {
     }
   }
 
+  private renderAisSignals(
+    disruptions: AisDisruptionEvent[],
+    density: AisDensityZone[],
+    vesselEvents: AisVesselEvent[],
+    connected: boolean,
+  ): void {
+    this.ctx.map?.setAisData(disruptions, density, vesselEvents);
+    signalAggregator.ingestAisDisruptions(disruptions);
+    recordVesselEvents(vesselEvents);
+    void screenVesselEvents(vesselEvents);
+    updateAndCheck([
+      { type: 'ais_gaps', region: 'global', count: disruptions.length },
+    ]).then(anomalies => {
+      if (anomalies.length > 0) signalAggregator.ingestTemporalAnomalies(anomalies);
+    }).catch(() => { });
+
+    const hasData = disruptions.length > 0 || density.length > 0;
+    this.ctx.map?.setLayerReady('ais', hasData);
+
+    const shippingCount = disruptions.length + density.length;
+    const shippingStatus = shippingCount > 0 ? 'ok' : (connected ? 'warning' : 'error');
+    this.ctx.statusPanel?.updateFeed('Shipping', {
+      status: shippingStatus,
+      itemCount: shippingCount,
+      errorMessage: !connected && shippingCount === 0 ? 'AIS snapshot unavailable' : undefined,
+    });
+    this.ctx.statusPanel?.updateApi('AISStream', {
+      status: connected ? 'ok' : 'warning',
+    });
+    if (hasData) {
+      dataFreshness.recordUpdate('ais', shippingCount);
+    }
+  }
+
   waitForAisData(): void {
     const maxAttempts = 30;
     let attempts = 0;
@@ -1801,7 +2035,10 @@ export class DataLoaderManager implements AppModule {
       this.ctx.map?.setMilitaryFlights(flightData.flights, flightData.clusters);
       this.ctx.map?.setMilitaryVessels(vesselData.vessels, vesselData.clusters);
       ingestFlights(flightData.flights);
+      void recordFlightTracks(flightData.flights);
+      void screenMilitaryFlights(flightData.flights);
       ingestVessels(vesselData.vessels);
+      void screenMilitaryVessels(vesselData.vessels);
       ingestMilitaryForCII(flightData.flights, vesselData.vessels);
       signalAggregator.ingestFlights(flightData.flights);
       signalAggregator.ingestVessels(vesselData.vessels);
@@ -2232,13 +2469,15 @@ export class DataLoaderManager implements AppModule {
       );
 
       let geoSignals: ReturnType<typeof geoConvergenceToSignal>[] = [];
+      let ciiShiftSignals: ReturnType<typeof detectCIIShifts> = [];
       if (!isInLearningMode()) {
         const geoAlerts = detectGeoConvergence(this.ctx.seenGeoAlerts);
         geoSignals = geoAlerts.map(geoConvergenceToSignal);
+        ciiShiftSignals = detectCIIShifts(calculateCII(), await fetchRiskScoreHistory());
       }
 
       const keywordSpikeSignals = drainTrendingSignals();
-      const allSignals = [...signals, ...geoSignals, ...keywordSpikeSignals];
+      const allSignals = [...signals, ...geoSignals, ...ciiShiftSignals, ...keywordSpikeSignals];
       if (allSignals.length > 0) {
         addToSignalHistory(allSignals);
         if (this.shouldShowIntelligenceNotifications()) this.ctx.signalModal?.show(allSignals);
@@ -45,6 +45,11 @@ import { mlWorker } from '@/services/ml-worker';
 import { UnifiedSettings } from '@/components/UnifiedSettings';
 import { t } from '@/services/i18n';
 import { TvModeController } from '@/services/tv-mode';
+import { calculateCII } from '@/services/country-instability';
+import { getCachedPosture } from '@/services/cached-theater-posture';
+import { recordServerSnapshot } from '@/services/playback';
+import { getEnabledCustomLayers, onCustomLayersChanged } from '@/services/custom-layers';
+import type { TheaterPostureSummary } from '@/services/military-surge';
 
 export interface EventHandlerCallbacks {
   updateSearchIndex: () => void;
@@ -52,8 +57,12 @@ export interface EventHandlerCallbacks {
   flushStaleRefreshes: () => void;
   setHiddenSince: (ts: number) => void;
   loadDataForLayer: (layer: string) => void;
+  refreshViewportLayers: () => void;
+  syncLiveStream: () => void;
   waitForAisData: () => void;
   syncDataFreshnessWithLayers: () => void;
+  renderCriticalBanner: (postures: TheaterPostureSummary[]) => void;
+  openReportBuilder: () => void;
 }
 
 export class EventHandlerManager implements AppModule {
@@ -336,6 +345,7 @@ export class EventHandlerManager implements AppModule {
         }
       }
     });
+    onCustomLayersChanged(update);
     update();
   }
 
@@ -350,6 +360,7 @@ export class EventHandlerManager implements AppModule {
       center,
       timeRange: state.timeRange,
       layers: state.layers,
+      customLayers: getEnabledCustomLayers().map(layer => layer.id),
       country: this.ctx.countryBriefPage?.isVisible() ? (this.ctx.countryBriefPage.getCode() ?? undefined) : undefined,
     });
   }
@@ -433,7 +444,7 @@ export class EventHandlerManager implements AppModule {
       markets: this.ctx.latestMarkets,
       predictions: this.ctx.latestPredictions,
       timestamp: Date.now(),
-    }));
+    }), () => this.ctx.map?.getExportLayers() ?? [], () => this.callbacks.openReportBuilder());
 
     const headerRight = this.ctx.container.querySelector('.header-right');
     if (headerRight) {
@@ -471,6 +482,7 @@ export class EventHandlerManager implements AppModule {
       },
       getAllSourceNames: () => this.getAllSourceNames(),
       getLocalizedPanelName: (key: string, fallback: string) => this.getLocalizedPanelName(key, fallback),
+      getMonitors: () => this.ctx.monitors,
       isDesktopApp: this.ctx.isDesktopApp,
     });
 
@@ -488,6 +500,7 @@ export class EventHandlerManager implements AppModule {
         this.restoreSnapshot(snapshot);
       } else {
         this.ctx.isPlaybackMode = false;
+        this.ctx.map?.setLayers(this.ctx.mapLayers);
         this.callbacks.loadAllData();
       }
     });
@@ -507,7 +520,7 @@ export class EventHandlerManager implements AppModule {
         if (m.price !== null) marketPrices[m.symbol] = m.price;
       });
 
-      await saveSnapshot({
+      const snapshot: DashboardSnapshot = {
         timestamp: Date.now(),
         events: this.ctx.latestClusters,
         marketPrices,
@@ -515,7 +528,20 @@ export class EventHandlerManager implements AppModule {
           title: p.title,
           yesPrice: p.yesPrice
         })),
-        hotspotLevels: this.ctx.map?.getHotspotLevels() ?? {}
+        hotspotLevels: this.ctx.map?.getHotspotLevels() ?? {},
+        ciiScores: calculateCII().filter(s => s.score > 0),
+        theaterPostures: getCachedPosture()?.postures ?? [],
+        mapLayers: { ...this.ctx.mapLayers },
+      };
+      await saveSnapshot(snapshot);
+
+      // Server copy adds layer data and per-panel news for longer, cross-browser playback.
+      // Buckets are first-write-wins, so wait until news has loaded before claiming one.
+      if (snapshot.events.length === 0) return;
+      void recordServerSnapshot({
+        ...snapshot,
+        layerData: this.ctx.map?.getLayerData(),
+        newsByCategory: this.ctx.newsByCategory,
       });
     };
 
@@ -543,6 +569,24 @@ export class EventHandlerManager implements AppModule {
     (this.ctx.panels['polymarket'] as PredictionPanel).renderPredictions(predictions);
 
     this.ctx.map?.setHotspotLevels(snapshot.hotspotLevels);
+
+    if (snapshot.mapLayers) {
+      this.ctx.map?.setLayers({ ...this.ctx.mapLayers, ...snapshot.mapLayers });
+    }
+    if (snapshot.layerData) {
+      this.ctx.map?.restoreLayerData(snapshot.layerData);
+    }
+    if (snapshot.newsByCategory) {
+      for (const [category, items] of Object.entries(snapshot.newsByCategory)) {
+        this.ctx.newsPanels[category]?.renderNews(items);
+      }
+    }
+    if (snapshot.ciiScores) {
+      (this.ctx.panels['cii'] as CIIPanel | undefined)?.showSnapshot(snapshot.ciiScores);
+    }
+    if (snapshot.theaterPostures) {
+      this.callbacks.renderCriticalBanner(snapshot.theaterPostures);
+    }
   }
 
   setupMapLayerHandlers(): void {
@@ -551,6 +595,7 @@ export class EventHandlerManager implements AppModule {
       trackMapLayerToggle(layer, enabled, source);
       this.ctx.mapLayers[layer] = enabled;
       saveToStorage(STORAGE_KEYS.mapLayers, this.ctx.mapLayers);
+      this.callbacks.syncLiveStream();
 
       const sourceIds = LAYER_TO_SOURCE[layer];
       if (sourceIds) {
@@ -574,6 +619,7 @@ export class EventHandlerManager implements AppModule {
         this.callbacks.loadDataForLayer(layer);
       }
     });
+    this.ctx.map?.onViewportChanged(() => this.callbacks.refreshViewportLayers());
   }
 
   setupPanelViewTracking(): void {
@@ -6,3 +6,4 @@ export { RefreshScheduler } from './refresh-scheduler';
 export { PanelLayoutManager } from './panel-layout';
 export { DataLoaderManager } from './data-loader';
 export { EventHandlerManager } from './event-handlers';
+export { ReportManager } from './report-manager';
@@ -15,6 +15,10 @@ import {
   LiveWebcamsPanel,
   CIIPanel,
   CascadePanel,
+  AnalystPanel,
+  FlightTracksPanel,
+  SanctionsPanel,
+  MonitorPanel,
   StrategicPosturePanel,
   TechEventsPanel,
   ServiceStatusPanel,
@@ -52,6 +56,7 @@ import { HeroSpotlightPanel } from '@/components/HeroSpotlightPanel';
 import { GoodThingsDigestPanel } from '@/components/GoodThingsDigestPanel';
 import { SpeciesComebackPanel } from '@/components/SpeciesComebackPanel';
 import { RenewableEnergyPanel } from '@/components/RenewableEnergyPanel';
+import { setPriceChartNewsSource } from '@/components/PriceHistoryChart';
 import { GivingPanel } from '@/components';
 import { focusInvestmentOnMap } from '@/services/investments-focus';
 import { debounce, saveToStorage } from '@/utils';
@@ -69,6 +74,7 @@ import { trackCriticalBannerAction } from '@/services/analytics';
 
 export interface PanelLayoutCallbacks {
   openCountryStory: (code: string, name: string) => void;
+  openCountryBriefByCode: (code: string, name: string) => void;
   loadAllData: () => Promise<void>;
 }
 
@@ -492,6 +498,9 @@ export class PanelLayoutManager implements AppModule {
     const heatmapPanel = new HeatmapPanel();
     this.ctx.panels['heatmap'] = heatmapPanel;
 
+    // Expanded price charts overlay the current news clusters as event markers.
+    setPriceChartNewsSource(() => this.ctx.latestClusters);
+
     const marketsPanel = new MarketPanel();
     this.ctx.panels['markets'] = marketsPanel;
 
@@ -612,6 +621,9 @@ export class PanelLayoutManager implements AppModule {
       this.ctx.panels['trade-policy'] = tradePolicyPanel;
 
       const supplyChainPanel = new SupplyChainPanel();
+      supplyChainPanel.setRouteHighlightHandler((highlight) => {
+        this.ctx.map?.setSupplyRouteHighlight(highlight);
+      });
       this.ctx.panels['supply-chain'] = supplyChainPanel;
     }
 
@@ -661,6 +673,34 @@ export class PanelLayoutManager implements AppModule {
       const cascadePanel = new CascadePanel();
       this.ctx.panels['cascade'] = cascadePanel;
 
+      const analystPanel = new AnalystPanel({
+        getClusters: () => this.ctx.latestClusters,
+        getPredictions: () => this.ctx.latestPredictions,
+        getMilitaryFlights: () => this.ctx.intelligenceCache.military?.flights ?? [],
+      });
+      analystPanel.setLocationClickHandler((lat, lon) => {
+        this.ctx.map?.setCenter(lat, lon, 5);
+      });
+      analystPanel.setCountryClickHandler((code, name) => {
+        this.callbacks.openCountryBriefByCode(code, name);
+      });
+      this.ctx.panels['analyst'] = analystPanel;
+
+      const flightTracksPanel = new FlightTracksPanel();
+      flightTracksPanel.setTrailHandler((trail) => {
+        this.ctx.map?.setFlightTrail(trail);
+      });
+      flightTracksPanel.setLocationClickHandler((lat, lon) => {
+        this.ctx.map?.setCenter(lat, lon, 6);
+      });
+      this.ctx.panels['flight-tracks'] = flightTracksPanel;
+
+      const sanctionsPanel = new SanctionsPanel();
+      sanctionsPanel.setLocationClickHandler((lat, lon) => {
+        this.ctx.map?.setCenter(lat, lon, 6);
+      });
+      this.ctx.panels['sanctions-screening'] = sanctionsPanel;
+
       const satelliteFiresPanel = new SatelliteFiresPanel();
       this.ctx.panels['satellite-fires'] = satelliteFiresPanel;
 
@@ -733,6 +773,14 @@ export class PanelLayoutManager implements AppModule {
       this.ctx.panels['macro-signals'] = new MacroSignalsPanel();
       this.ctx.panels['stablecoins'] = new StablecoinPanel();
       this.ctx.panels['job-losses'] = new JobLossesPanel();
+
+      const monitorPanel = new MonitorPanel(this.ctx.monitors);
+      monitorPanel.onChanged((monitors) => {
+        this.ctx.monitors = monitors;
+        saveToStorage(STORAGE_KEYS.monitors, monitors);
+        monitorPanel.renderResults(this.ctx.allNews);
+      });
+      this.ctx.panels['monitors'] = monitorPanel;
     }
 
     if (this.ctx.isDesktopApp) {
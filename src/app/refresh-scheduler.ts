@@ -62,7 +62,8 @@ export class RefreshScheduler implements AppModule {
         scheduleNext(computeDelay(intervalMs, true));
         return;
       }
-      if (condition && !condition()) {
+      // Playback replays recorded state; live refreshes would overwrite it
+      if (this.ctx.isPlaybackMode || (condition && !condition())) {
         scheduleNext(computeDelay(intervalMs, false));
         return;
       }
@@ -0,0 +1,220 @@
+import type { AppContext, AppModule } from '@/app/app-context';
+import { CountryIntelManager } from '@/app/country-intel';
+import { openReportBuilder, closeReportBuilder } from '@/components/ReportBuilder';
+import { EconomicServiceClient } from '@/generated/client/worldmonitor/economic/v1/service_client';
+import { IntelligenceServiceClient } from '@/generated/client/worldmonitor/intelligence/v1/service_client';
+import { fetchRiskScoreHistory, getCachedScores, toCountryScore } from '@/services/cached-risk-scores';
+import { getCachedPosture } from '@/services/cached-theater-posture';
+import { calculateCII, type CountryScore } from '@/services/country-instability';
+import { getRecentAlerts } from '@/services/cross-module-integration';
+import { getActiveSurges, getTheaterPostureSummaries } from '@/services/military-surge';
+import { getPersistentCache } from '@/services/persistent-cache';
+import {
+  buildReport,
+  ciiChange24h,
+  getReportTemplates,
+  isReportDue,
+  marketRadarFromMacro,
+  markReportRun,
+  oddsSnapshot,
+  saveReportToDisk,
+  type Report,
+  type ReportInputs,
+  type ReportStory,
+  type ReportTemplate,
+} from '@/services/reports';
+import { getCountryBriefs } from '@/services/semantic-search';
+import { THREAT_PRIORITY } from '@/services/threat-keywords';
+
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+const RPC_TIMEOUT_MS = 8000;
+const WORLD_BRIEF_CACHE_KEY = 'summary:world-brief';
+
+function timedFetch(): { fetch: typeof fetch; done: () => void } {
+  const abort = new AbortController();
+  const timer = setTimeout(() => abort.abort(), RPC_TIMEOUT_MS);
+  return {
+    fetch: (input: RequestInfo | URL, init?: RequestInit) => globalThis.fetch(input, { ...init, signal: abort.signal }),
+    done: () => clearTimeout(timer),
+  };
+}
+
+/**
+ * Builds intelligence reports from the data the dashboard has already loaded,
+ * and on desktop runs scheduled report templates, saving each report to the
+ * app data folder.
+ */
+export class ReportManager implements AppModule {
+  private ctx: AppContext;
+  private scheduleIntervalId: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(ctx: AppContext) {
+    this.ctx = ctx;
+  }
+
+  init(): void {
+    if (!this.ctx.isDesktopApp) return;
+    this.scheduleIntervalId = setInterval(() => {
+      if (this.ctx.isDestroyed) return;
+      void this.runDueReports();
+    }, SCHEDULE_CHECK_INTERVAL_MS);
+  }
+
+  destroy(): void {
+    if (this.scheduleIntervalId) {
+      clearInterval(this.scheduleIntervalId);
+      this.scheduleIntervalId = null;
+    }
+    closeReportBuilder();
+  }
+
+  public open(): void {
+    openReportBuilder({
+      isDesktop: this.ctx.isDesktopApp,
+      generate: (template) => this.generate(template),
+    });
+  }
+
+  public async generate(template: ReportTemplate): Promise<Report> {
+    const report = buildReport(template, await this.collectInputs(template));
+    if (template.sections.includes('predictionShifts')) {
+      markReportRun(template.id, { lastOdds: oddsSnapshot(this.ctx.latestPredictions) });
+    }
+    return report;
+  }
+
+  private async runDueReports(): Promise<void> {
+    // Wait for the first full data load so scheduled reports are not empty.
+    if (this.running || !this.ctx.initialLoadComplete) return;
+    const now = Date.now();
+    const due = getReportTemplates().filter(t => isReportDue(t, now));
+    if (due.length === 0) return;
+
+    this.running = true;
+    try {
+      for (const template of due) {
+        try {
+          const report = buildReport(template, await this.collectInputs(template));
+          const path = await saveReportToDisk(report, template.format);
+          console.log(`[Reports] Saved "${template.name}" to ${path}`);
+        } catch (err) {
+          console.warn(`[Reports] Scheduled report "${template.name}" failed:`, err);
+        }
+        // Advance the schedule even on failure so a broken run is not retried every minute.
+        markReportRun(template.id, { at: now, lastOdds: oddsSnapshot(this.ctx.latestPredictions) });
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async collectInputs(template: ReportTemplate): Promise<ReportInputs> {
+    const wants = new Set(template.sections);
+    const inputs: ReportInputs = {};
+    const scores = wants.has('ciiMovers') || wants.has('countries') ? this.currentScores() : [];
+    const history = wants.has('ciiMovers') || wants.has('countries')
+      ? await fetchRiskScoreHistory().catch(() => new Map<string, Array<{ timestamp: number; score: number }>>())
+      : new Map<string, Array<{ timestamp: number; score: number }>>();
+    const now = Date.now();
+    const change = (s: CountryScore) => ciiChange24h(s.score, history.get(s.code) ?? [], now);
+
+    if (wants.has('worldBrief')) {
+      const cached = await getPersistentCache<{ summary: string }>(WORLD_BRIEF_CACHE_KEY).catch(() => null);
+      inputs.worldBrief = { brief: cached?.data?.summary ?? null, stories: this.topStories() };
+    }
+    if (wants.has('ciiMovers')) {
+      inputs.ciiMovers = scores.map(s => ({ code: s.code, name: s.name, score: s.score, level: s.level, change: change(s) ?? 0 }));
+    }
+    if (wants.has('theaterPosture')) {
+      const postures = getCachedPosture()?.postures
+        ?? getTheaterPostureSummaries(this.ctx.intelligenceCache.military?.flights ?? []);
+      inputs.theaterPosture = postures.map(p => ({
+        name: p.theaterName,
+        level: p.postureLevel,
+        aircraft: p.totalAircraft,
+        vessels: p.totalVessels,
+        strikeCapable: p.strikeCapable,
+        summary: p.summary,
+      }));
+    }
+    if (wants.has('surges')) {
+      inputs.surges = getActiveSurges().map(s => ({
+        theater: s.theater.name,
+        type: s.type,
+        current: s.currentCount,
+        baseline: s.baselineCount,
+        multiple: s.surgeMultiple,
+      }));
+    }
+    if (wants.has('cascadeRisks')) {
+      inputs.cascadeRisks = getRecentAlerts(24)
+        .filter(a => a.type === 'cascade')
+        .map(a => ({ title: a.title, summary: a.summary, priority: a.priority, countries: a.countries }));
+    }
+    if (wants.has('marketRadar')) {
+      const { fetch, done } = timedFetch();
+      try {
+        inputs.marketRadar = marketRadarFromMacro(await new EconomicServiceClient('', { fetch }).getMacroSignals({}));
+      } catch {
+        inputs.marketRadar = null;
+      } finally {
+        done();
+      }
+    }
+    if (wants.has('predictionShifts')) {
+      inputs.predictions = this.ctx.latestPredictions;
+    }
+    if (wants.has('countries') && template.countries.length > 0) {
+      const byCode = new Map(scores.map(s => [s.code, s]));
+      inputs.countries = await Promise.all(template.countries.map(async code => {
+        const score = byCode.get(code);
+        const name = CountryIntelManager.resolveCountryName(code);
+        return {
+          code,
+          name,
+          ...(score && { score: score.score, level: score.level, trend: score.trend, change: change(score) ?? undefined }),
+          brief: getCountryBriefs().get(code) ?? await this.fetchCountryBrief(code),
+          headlines: this.countryHeadlines(name, code),
+        };
+      }));
+    }
+    return inputs;
+  }
+
+  private currentScores(): CountryScore[] {
+    const live = calculateCII();
+    if (live.length > 0) return live;
+    return getCachedScores()?.cii.map(toCountryScore) ?? [];
+  }
+
+  private topStories(limit = 8): ReportStory[] {
+    return [...this.ctx.latestClusters]
+      .sort((a, b) =>
+        (THREAT_PRIORITY[b.threat?.level ?? 'info'] - THREAT_PRIORITY[a.threat?.level ?? 'info'])
+        || b.sourceCount - a.sourceCount)
+      .slice(0, limit)
+      .map(c => ({ title: c.primaryTitle, source: c.primarySource, url: c.primaryLink }));
+  }
+
+  private countryHeadlines(name: string, code: string, limit = 5): ReportStory[] {
+    const terms = CountryIntelManager.getCountrySearchTerms(name, code);
+    if (terms.length === 0) return [];
+    return this.ctx.allNews
+      .filter(n => terms.some(term => n.title.toLowerCase().includes(term)))
+      .slice(0, limit)
+      .map(n => ({ title: n.title, source: n.source, url: n.link }));
+  }
+
+  private async fetchCountryBrief(code: string): Promise<string | undefined> {
+    const { fetch, done } = timedFetch();
+    try {
+      const resp = await new IntelligenceServiceClient('', { fetch }).getCountryIntelBrief({ countryCode: code });
+      return resp.brief || undefined;
+    } catch {
+      return undefined;
+    } finally {
+      done();
+    }
+  }
+}
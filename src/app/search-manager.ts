@@ -1,13 +1,28 @@
 import type { AppContext, AppModule } from '@/app/app-context';
 import type { SearchResult } from '@/components/SearchModal';
-import type { NewsItem, MapLayers } from '@/types';
+import type { NewsItem, MapLayers, ClusteredEvent, SocialUnrestEvent, UcdpGeoEvent } from '@/types';
+import type { ConflictEvent } from '@/services/conflict';
 import type { MapView } from '@/components';
 import type { Command } from '@/config/commands';
 import { SearchModal } from '@/components';
 import { CIIPanel } from '@/components';
 import { SITE_VARIANT, STORAGE_KEYS } from '@/config';
 import { LAYER_PRESETS, LAYER_KEY_MAP } from '@/config/commands';
-import { calculateCII, TIER1_COUNTRIES } from '@/services/country-instability';
+import { calculateCII, TIER1_COUNTRIES, type CountryScore } from '@/services/country-instability';
+import { getCachedGdeltArticles } from '@/services/gdelt-intel';
+import {
+  acledDocs,
+  clusterDocs,
+  countryDocs,
+  gdeltDocs,
+  getCountryBriefs,
+  isSemanticSearchAvailable,
+  predictionDocs,
+  semanticSearch,
+  ucdpDocs,
+  unrestDocs,
+  updateSemanticIndex,
+} from '@/services/semantic-search';
 import { CURATED_COUNTRIES } from '@/config/countries';
 import { INTEL_HOTSPOTS, CONFLICT_ZONES, MILITARY_BASES, UNDERSEA_CABLES, NUCLEAR_FACILITIES } from '@/config/geo';
 import { PIPELINES } from '@/config/pipelines';
@@ -27,10 +42,14 @@ export interface SearchManagerCallbacks {
   openCountryBriefByCode: (code: string, country: string) => void;
 }
 
+const SEMANTIC_INDEX_DEBOUNCE_MS = 2000;
+const SEMANTIC_RESULT_LIMIT = 10;
+
 export class SearchManager implements AppModule {
   private ctx: AppContext;
   private callbacks: SearchManagerCallbacks;
   private boundKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
+  private semanticIndexTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(ctx: AppContext, callbacks: SearchManagerCallbacks) {
     this.ctx = ctx;
@@ -46,6 +65,10 @@ export class SearchManager implements AppModule {
       document.removeEventListener('keydown', this.boundKeydownHandler);
       this.boundKeydownHandler = null;
     }
+    if (this.semanticIndexTimer) {
+      clearTimeout(this.semanticIndexTimer);
+      this.semanticIndexTimer = null;
+    }
   }
 
   private setupSearchModal(): void {
@@ -213,6 +236,10 @@ export class SearchManager implements AppModule {
 
     this.ctx.searchModal.setActivePanels(Object.keys(this.ctx.panels));
     this.ctx.searchModal.setOnSelect((result) => this.handleSearchResult(result));
+    this.ctx.searchModal.setSemanticProvider(async (query) => {
+      const hits = await semanticSearch(query, { limit: SEMANTIC_RESULT_LIMIT });
+      return hits.map(({ doc }) => ({ type: doc.kind, id: doc.id, title: doc.title, subtitle: doc.subtitle, data: doc.data }));
+    });
     this.ctx.searchModal.setOnCommand((cmd) => this.handleCommand(cmd));
 
     this.boundKeydownHandler = (e: KeyboardEvent) => {
@@ -389,9 +416,52 @@ export class SearchManager implements AppModule {
         this.callbacks.openCountryBriefByCode(code, name);
         break;
       }
+      case 'cluster': {
+        const cluster = result.data as ClusteredEvent;
+        this.scrollToPanel(this.findNewsPanel(cluster.primaryLink) ?? 'politics');
+        this.highlightNewsItem(cluster.primaryLink);
+        if (cluster.lat != null && cluster.lon != null) this.focusMap(cluster.lat, cluster.lon);
+        break;
+      }
+      case 'gdelt': {
+        this.scrollToPanel('gdelt-intel');
+        break;
+      }
+      case 'ucdp': {
+        const event = result.data as UcdpGeoEvent;
+        this.focusMap(event.latitude, event.longitude, 'ucdpEvents');
+        break;
+      }
+      case 'acled': {
+        const event = result.data as ConflictEvent;
+        this.focusMap(event.lat, event.lon);
+        break;
+      }
+      case 'unrest': {
+        const event = result.data as SocialUnrestEvent;
+        this.focusMap(event.lat, event.lon, 'protests');
+        break;
+      }
     }
   }
 
+  /** Fly the map to a location, turning on the layer that shows it if needed. */
+  private focusMap(lat: number, lon: number, layer?: keyof MapLayers): void {
+    this.ctx.map?.setView('global');
+    if (layer && !this.ctx.mapLayers[layer]) {
+      this.ctx.mapLayers[layer] = true;
+      saveToStorage(STORAGE_KEYS.mapLayers, this.ctx.mapLayers);
+      this.ctx.map?.enableLayer(layer);
+    }
+    setTimeout(() => { this.ctx.map?.setCenter(lat, lon, 6); }, 300);
+  }
+
+  /** News panel whose current items include the given link. */
+  private findNewsPanel(link: string): string | undefined {
+    return Object.entries(this.ctx.newsByCategory)
+      .find(([category, items]) => this.ctx.newsPanels[category] && items.some(item => item.link === link))?.[0];
+  }
+
   private handleCommand(cmd: Command): void {
     const colonIdx = cmd.id.indexOf(':');
     if (colonIdx === -1) return;
@@ -533,11 +603,38 @@ export class SearchManager implements AppModule {
         data: m,
       })));
     }
+
+    this.scheduleSemanticIndex();
   }
 
-  private buildCountrySearchItems(): { id: string; title: string; subtitle: string; data: { code: string; name: string } }[] {
+  /** Coalesce the refreshes of one load cycle into a single semantic index sync. */
+  private scheduleSemanticIndex(): void {
+    if (this.semanticIndexTimer) clearTimeout(this.semanticIndexTimer);
+    this.semanticIndexTimer = setTimeout(() => {
+      this.semanticIndexTimer = null;
+      this.syncSemanticIndex();
+    }, SEMANTIC_INDEX_DEBOUNCE_MS);
+  }
+
+  private syncSemanticIndex(): void {
+    if (this.ctx.isDestroyed || !isSemanticSearchAvailable()) return;
+    const cache = this.ctx.intelligenceCache;
+    void updateSemanticIndex('cluster', clusterDocs(this.ctx.latestClusters));
+    void updateSemanticIndex('gdelt', gdeltDocs(getCachedGdeltArticles()));
+    void updateSemanticIndex('ucdp', ucdpDocs(cache.ucdpEvents ?? []));
+    void updateSemanticIndex('acled', acledDocs(cache.conflicts ?? []));
+    void updateSemanticIndex('unrest', unrestDocs(cache.protests?.events ?? []));
+    void updateSemanticIndex('prediction', predictionDocs(this.ctx.latestPredictions));
+    void updateSemanticIndex('country', countryDocs(TIER1_COUNTRIES, this.getCountryScores(), getCountryBriefs()));
+  }
+
+  private getCountryScores(): CountryScore[] {
     const panelScores = (this.ctx.panels['cii'] as CIIPanel | undefined)?.getScores() ?? [];
-    const scores = panelScores.length > 0 ? panelScores : calculateCII();
+    return panelScores.length > 0 ? panelScores : calculateCII();
+  }
+
+  private buildCountrySearchItems(): { id: string; title: string; subtitle: string; data: { code: string; name: string } }[] {
+    const scores = this.getCountryScores();
     const ciiByCode = new Map(scores.map((score) => [score.code, score]));
     return Object.entries(TIER1_COUNTRIES).map(([code, name]) => {
       const score = ciiByCode.get(code);
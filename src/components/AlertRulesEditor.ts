@@ -0,0 +1,292 @@
+import { t } from '@/services/i18n';
+import { TIER1_COUNTRIES } from '@/config/countries';
+import { SIGNAL_CONTEXT } from '@/utils/analysis-constants';
+import { getSurgeTheaters } from '@/services/military-surge';
+import {
+  ALERT_RULE_KINDS,
+  ALERT_SINK_KINDS,
+  MAX_ALERT_RULES,
+  MAX_SINKS_PER_RULE,
+  createAlertRule,
+  getAlertLog,
+  getAlertRules,
+  onAlertingChange,
+  requestDesktopNotificationPermission,
+  saveAlertRules,
+  sendTestAlert,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertSinkKind,
+} from '@/services/alerting';
+import { generateId, formatTime } from '@/utils';
+import { h, replaceChildren, type DomChild } from '@/utils/dom-utils';
+import type { Monitor } from '@/types';
+
+const SIGNAL_TYPES = Object.keys(SIGNAL_CONTEXT);
+
+function option(value: string, label: string, selected: boolean): HTMLElement {
+  return h('option', { value, selected }, label);
+}
+
+function humanize(type: string): string {
+  return type.replace(/_/g, ' ');
+}
+
+/** Editor for user-defined alert rules, hosted in the settings modal. */
+export class AlertRulesEditor {
+  private root: HTMLElement;
+  private rules: AlertRule[] = getAlertRules();
+  private getMonitors: () => Monitor[];
+  private unsubscribe: () => void;
+
+  constructor(root: HTMLElement, getMonitors: () => Monitor[]) {
+    this.root = root;
+    this.getMonitors = getMonitors;
+    this.unsubscribe = onAlertingChange(() => this.renderLog());
+    this.render();
+  }
+
+  public render(): void {
+    this.rules = getAlertRules();
+    const canAdd = this.rules.length < MAX_ALERT_RULES;
+
+    replaceChildren(this.root,
+      h('div', { className: 'ai-flow-toggle-desc alert-rules-intro' }, t('components.alertRules.description')),
+      h('div', { className: 'alert-rules-list' },
+        ...(this.rules.length
+          ? this.rules.map(rule => this.renderRule(rule))
+          : [h('div', { className: 'alert-rules-empty' }, t('components.alertRules.noRules'))]),
+      ),
+      h('div', { className: 'sources-footer' },
+        h('button', { className: 'alert-rules-add', disabled: !canAdd, onClick: () => this.addRule() }, t('components.alertRules.addRule')),
+      ),
+      h('div', { className: 'ai-flow-section-label' }, t('components.alertRules.recentDeliveries')),
+      h('div', { className: 'alert-rules-log' }),
+    );
+    this.renderLog();
+  }
+
+  public destroy(): void {
+    this.unsubscribe();
+  }
+
+  private persist(rerender = false): void {
+    this.rules = saveAlertRules(this.rules);
+    if (rerender) this.render();
+  }
+
+  private addRule(): void {
+    this.rules.push(createAlertRule('cii_rise', generateId()));
+    this.persist(true);
+  }
+
+  private update(rule: AlertRule, patch: Partial<AlertRule>, rerender = false): void {
+    Object.assign(rule, patch);
+    this.persist(rerender);
+  }
+
+  private renderRule(rule: AlertRule): HTMLElement {
+    const header = h('div', { className: 'alert-rule-header' },
+      h('input', {
+        type: 'checkbox',
+        checked: rule.enabled,
+        title: t('components.alertRules.enabled'),
+        onChange: (e: Event) => this.update(rule, { enabled: (e.target as HTMLInputElement).checked }),
+      }),
+      h('input', {
+        type: 'text',
+        className: 'alert-rule-name',
+        value: rule.name,
+        placeholder: t('components.alertRules.namePlaceholder'),
+        onChange: (e: Event) => this.update(rule, { name: (e.target as HTMLInputElement).value }),
+      }),
+      h('select', {
+        className: 'alert-rule-kind',
+        onChange: (e: Event) => this.update(rule, { kind: (e.target as HTMLSelectElement).value as AlertRuleKind }, true),
+      }, ...ALERT_RULE_KINDS.map(kind => option(kind, t(`components.alertRules.kinds.${kind}`), rule.kind === kind))),
+      h('button', {
+        className: 'alert-rule-remove',
+        title: t('components.alertRules.delete'),
+        onClick: () => {
+          this.rules = this.rules.filter(r => r.id !== rule.id);
+          this.persist(true);
+        },
+      }, '×'),
+    );
+
+    const quiet = rule.quietHours;
+    const setQuiet = (start: string, end: string) =>
+      this.update(rule, { quietHours: start && end ? { start, end } : null });
+    const quietStart = h('input', { type: 'time', value: quiet?.start ?? '' }) as HTMLInputElement;
+    const quietEnd = h('input', { type: 'time', value: quiet?.end ?? '' }) as HTMLInputElement;
+    quietStart.addEventListener('change', () => setQuiet(quietStart.value, quietEnd.value));
+    quietEnd.addEventListener('change', () => setQuiet(quietStart.value, quietEnd.value));
+
+    return h('div', { className: `alert-rule${rule.enabled ? '' : ' disabled'}`, dataset: { ruleId: rule.id } },
+      header,
+      h('div', { className: 'alert-rule-fields' },
+        ...this.renderConditionFields(rule),
+        this.field(t('components.alertRules.minConfidence'), h('input', {
+          type: 'number', min: '0', max: '100', step: '5',
+          value: String(Math.round(rule.minConfidence * 100)),
+          onChange: (e: Event) => this.update(rule, { minConfidence: Number((e.target as HTMLInputElement).value) / 100 }),
+        })),
+        this.field(t('components.alertRules.dedupe'), h('input', {
+          type: 'number', min: '0', step: '15',
+          value: String(rule.dedupeMinutes),
+          onChange: (e: Event) => this.update(rule, { dedupeMinutes: Number((e.target as HTMLInputElement).value) }),
+        })),
+        this.field(t('components.alertRules.quietHours'), h('span', { className: 'alert-rule-quiet' }, quietStart, '–', quietEnd)),
+      ),
+      this.renderSinks(rule),
+    );
+  }
+
+  private field(label: string, control: HTMLElement): HTMLElement {
+    return h('label', { className: 'alert-rule-field' }, h('span', null, label), control);
+  }
+
+  private renderConditionFields(rule: AlertRule): HTMLElement[] {
+    switch (rule.kind) {
+      case 'cii_rise':
+        return [
+          this.field(t('components.alertRules.country'), h('select', {
+            onChange: (e: Event) => this.update(rule, { country: (e.target as HTMLSelectElement).value }),
+          },
+            option('', t('components.alertRules.anyCountry'), !rule.country),
+            ...Object.entries(TIER1_COUNTRIES)
+              .sort((a, b) => a[1].localeCompare(b[1]))
+              .map(([code, name]) => option(code, name, rule.country === code)),
+          )),
+          this.field(t('components.alertRules.minChange'), h('input', {
+            type: 'number', min: '1', max: '100',
+            value: String(rule.minChange),
+            onChange: (e: Event) => this.update(rule, { minChange: Number((e.target as HTMLInputElement).value) }),
+          })),
+        ];
+      case 'surge':
+        return [
+          this.field(t('components.alertRules.theater'), h('select', {
+            onChange: (e: Event) => this.update(rule, { theater: (e.target as HTMLSelectElement).value }),
+          },
+            option('', t('components.alertRules.anyTheater'), !rule.theater),
+            ...getSurgeTheaters().map(th => option(th.id, th.name, rule.theater === th.id)),
+          )),
+        ];
+      case 'keyword_spike': {
+        const monitors = this.getMonitors();
+        return [
+          this.field(t('components.alertRules.monitor'), monitors.length
+            ? h('select', {
+              onChange: (e: Event) => this.update(rule, { monitorId: (e.target as HTMLSelectElement).value }),
+            },
+              option('', t('components.alertRules.anyMonitor'), !rule.monitorId),
+              ...monitors.map(m => option(m.id, m.name || m.keywords.join(', '), rule.monitorId === m.id)),
+            )
+            : h('span', { className: 'alert-rule-hint' }, t('components.alertRules.noMonitors'))),
+        ];
+      }
+      case 'geofence': {
+        const monitors = this.getMonitors().filter(m => m.radiusKm && m.lat != null && m.lon != null);
+        return [
+          this.field(t('components.alertRules.monitor'), monitors.length
+            ? h('select', {
+              onChange: (e: Event) => this.update(rule, { monitorId: (e.target as HTMLSelectElement).value }),
+            },
+              option('', t('components.alertRules.anyMonitor'), !rule.monitorId),
+              ...monitors.map(m => option(m.id, m.name || m.keywords.join(', ') || `${m.lat}, ${m.lon}`, rule.monitorId === m.id)),
+            )
+            : h('span', { className: 'alert-rule-hint' }, t('components.alertRules.noGeofences'))),
+        ];
+      }
+      case 'signal':
+        return [
+          h('div', { className: 'alert-rule-types' },
+            ...SIGNAL_TYPES.map(type => h('label', { className: 'alert-rule-type' },
+              h('input', {
+                type: 'checkbox',
+                checked: rule.signalTypes.includes(type),
+                onChange: (e: Event) => {
+                  const checked = (e.target as HTMLInputElement).checked;
+                  const types = rule.signalTypes.filter(x => x !== type);
+                  this.update(rule, { signalTypes: checked ? [...types, type] : types });
+                },
+              }),
+              humanize(type),
+            )),
+          ),
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private renderSinks(rule: AlertRule): HTMLElement {
+    const rows = rule.sinks.map((sink, index) => h('div', { className: 'alert-sink-row' },
+      h('select', {
+        onChange: (e: Event) => {
+          const kind = (e.target as HTMLSelectElement).value as AlertSinkKind;
+          if (kind === 'desktop') void requestDesktopNotificationPermission();
+          rule.sinks[index] = { kind, target: kind === 'desktop' ? '' : sink.target };
+          this.persist(true);
+        },
+      }, ...ALERT_SINK_KINDS.map(kind => option(kind, t(`components.alertRules.sinks.${kind}`), sink.kind === kind))),
+      sink.kind === 'desktop'
+        ? h('span', { className: 'alert-rule-hint' }, t('components.alertRules.desktopHint'))
+        : h('input', {
+          type: sink.kind === 'email' ? 'email' : 'url',
+          value: sink.target,
+          placeholder: sink.kind === 'email' ? 'ops@example.com' : 'https://',
+          onChange: (e: Event) => {
+            rule.sinks[index] = { kind: sink.kind, target: (e.target as HTMLInputElement).value.trim() };
+            this.persist();
+          },
+        }),
+      h('button', {
+        className: 'alert-rule-remove',
+        onClick: () => {
+          rule.sinks.splice(index, 1);
+          this.persist(true);
+        },
+      }, '×'),
+    ));
+
+    const status = h('span', { className: 'alert-rule-test-status' });
+    return h('div', { className: 'alert-rule-sinks' },
+      ...rows,
+      h('div', { className: 'alert-rule-actions' },
+        h('button', {
+          disabled: rule.sinks.length >= MAX_SINKS_PER_RULE,
+          onClick: () => {
+            void requestDesktopNotificationPermission();
+            rule.sinks.push({ kind: 'desktop', target: '' });
+            this.persist(true);
+          },
+        }, t('components.alertRules.addSink')),
+        h('button', {
+          disabled: rule.sinks.length === 0,
+          onClick: async () => {
+            status.textContent = '…';
+            const ok = await sendTestAlert(rule);
+            status.textContent = ok ? t('components.alertRules.testSent') : t('components.alertRules.testFailed');
+          },
+        }, t('components.alertRules.test')),
+        status,
+      ),
+    );
+  }
+
+  private renderLog(): void {
+    const log = this.root.querySelector('.alert-rules-log');
+    if (!log) return;
+    const entries = getAlertLog().slice(0, 10);
+    const rows: DomChild[] = entries.length
+      ? entries.map(entry => h('div', { className: `alert-log-row${entry.ok ? '' : ' failed'}`, title: entry.error ?? '' },
+        h('span', { className: 'alert-log-time' }, formatTime(new Date(entry.timestamp))),
+        h('span', { className: 'alert-log-sink' }, t(`components.alertRules.sinks.${entry.sink}`)),
+        h('span', { className: 'alert-log-title' }, entry.title),
+      ))
+      : [h('div', { className: 'alert-rules-empty' }, t('components.alertRules.noDeliveries'))];
+    replaceChildren(log, ...rows);
+  }
+}
@@ -0,0 +1,219 @@
+import { Panel } from './Panel';
+import { t } from '@/services/i18n';
+import {
+  ANALYST_TOOLS,
+  askAnalyst,
+  createAnalystSession,
+  type AnalystAnswer,
+  type AnalystDataSources,
+  type AnalystProgress,
+  type AnalystSession,
+  type AnalystSource,
+} from '@/services/analyst-chat';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import { sanitizeUrl } from '@/utils/sanitize';
+
+const EXAMPLES = ['ciiJump', 'posture', 'cascade'];
+
+const SOURCE_ICONS: Record<AnalystSource['kind'], string> = {
+  news: '📰',
+  country: '🏳️',
+  theater: '✈️',
+  asset: '🔌',
+  market: '📈',
+};
+
+function toolLabel(name: string): string {
+  return ANALYST_TOOLS.some(tool => tool.name === name) ? t(`components.analyst.tools.${name}`) : name;
+}
+
+interface ChatEntry {
+  question: string;
+  answer?: AnalystAnswer;
+  error?: string;
+}
+
+/**
+ * Conversational analyst over the dashboard's own data. Answers cite the
+ * news items, countries, theaters and assets they used; citations open the
+ * article, the country brief, or center the map on the feature.
+ */
+export class AnalystPanel extends Panel {
+  private data: AnalystDataSources;
+  private session: AnalystSession = createAnalystSession();
+  private entries: ChatEntry[] = [];
+  private busy = false;
+  private status = '';
+  private logEl: HTMLElement;
+  private inputEl: HTMLInputElement;
+  private onLocationClick?: (lat: number, lon: number) => void;
+  private onCountryClick?: (code: string, name: string) => void;
+
+  constructor(data: AnalystDataSources) {
+    super({
+      id: 'analyst',
+      title: t('panels.analyst'),
+      infoTooltip: t('components.analyst.infoTooltip'),
+    });
+    this.data = data;
+    this.logEl = h('div', { className: 'analyst-log' });
+    this.inputEl = h('input', {
+      type: 'text',
+      className: 'analyst-input',
+      placeholder: t('components.analyst.placeholder'),
+      maxLength: 500,
+    }) as HTMLInputElement;
+
+    const form = h('form', {
+      className: 'analyst-form',
+      onSubmit: (e: Event) => {
+        e.preventDefault();
+        void this.ask(this.inputEl.value);
+      },
+    },
+    this.inputEl,
+    h('button', { type: 'submit', className: 'analyst-send' }, t('components.analyst.send')),
+    h('button', { type: 'button', className: 'analyst-reset', title: t('components.analyst.newChat'), onClick: () => this.reset() }, '↺'),
+    );
+
+    replaceChildren(this.content, this.logEl, form);
+    this.render();
+  }
+
+  public setLocationClickHandler(handler: (lat: number, lon: number) => void): void {
+    this.onLocationClick = handler;
+  }
+
+  public setCountryClickHandler(handler: (code: string, name: string) => void): void {
+    this.onCountryClick = handler;
+  }
+
+  public async ask(question: string): Promise<void> {
+    const trimmed = question.trim();
+    if (!trimmed || this.busy) return;
+    this.busy = true;
+    this.inputEl.value = '';
+    const entry: ChatEntry = { question: trimmed };
+    this.entries.push(entry);
+    this.status = t('components.analyst.thinking');
+    this.render();
+
+    try {
+      entry.answer = await askAnalyst(this.session, trimmed, this.data, step => {
+        this.status = this.progressText(step);
+        this.render();
+      });
+    } catch (err) {
+      entry.error = err instanceof Error ? err.message : String(err);
+    } finally {
+      this.busy = false;
+      this.status = '';
+      this.render();
+    }
+  }
+
+  private reset(): void {
+    if (this.busy) return;
+    this.session = createAnalystSession();
+    this.entries = [];
+    this.render();
+  }
+
+  private progressText(step: AnalystProgress): string {
+    switch (step.type) {
+      case 'provider': return t('components.analyst.asking', { provider: step.label });
+      case 'tool': return t('components.analyst.running', { tool: toolLabel(step.name) });
+      case 'local': return t('components.analyst.local');
+    }
+  }
+
+  /** Open the article or market page, the country brief, or center the map on the feature. */
+  private openSource(source: AnalystSource): void {
+    const url = source.url ? sanitizeUrl(source.url) : '';
+    if (source.kind === 'country' && source.countryCode) {
+      this.onCountryClick?.(source.countryCode, source.label);
+    } else if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      this.locate(source);
+    }
+  }
+
+  private locate(source: AnalystSource): void {
+    if (source.lat !== undefined && source.lon !== undefined) this.onLocationClick?.(source.lat, source.lon);
+  }
+
+  private renderSource(source: AnalystSource, n: number): HTMLElement {
+    const url = source.url ? sanitizeUrl(source.url) : '';
+    const label = url && source.kind !== 'country'
+      ? h('a', { href: url, target: '_blank', rel: 'noopener' }, source.label)
+      : h('button', { type: 'button', className: 'analyst-source-link', onClick: () => this.openSource(source) }, source.label);
+    // Links already open the article; offer the map separately when the item is located.
+    const canLocate = source.kind !== 'country' && url && source.lat !== undefined && source.lon !== undefined;
+
+    return h('li', { className: `analyst-source analyst-source-${source.kind}` },
+      h('span', { className: 'analyst-source-n' }, `${n}`),
+      h('span', { className: 'analyst-source-icon' }, SOURCE_ICONS[source.kind]),
+      label,
+      source.detail ? h('span', { className: 'analyst-source-detail' }, source.detail) : null,
+      canLocate
+        ? h('button', { type: 'button', className: 'analyst-locate', title: t('components.analyst.showOnMap'), onClick: () => this.locate(source) }, '📍')
+        : null,
+    );
+  }
+
+  private renderAnswer(answer: AnalystAnswer): HTMLElement {
+    const text = h('div', { className: 'analyst-answer-text' },
+      ...answer.parts.map(part => 'text' in part
+        ? part.text
+        : h('sup', { className: 'analyst-cite' },
+          h('button', { type: 'button', title: part.source.label, onClick: () => this.openSource(part.source) }, String(part.n)),
+        )),
+    );
+
+    const meta = [
+      answer.provider === 'browser' ? t('components.analyst.viaBrowser') : t('components.analyst.via', { provider: answer.provider }),
+      answer.toolsUsed.length
+        ? t('components.analyst.toolsUsed', { tools: [...new Set(answer.toolsUsed)].map(toolLabel).join(', ') })
+        : t('components.analyst.noTools'),
+    ].join(' · ');
+
+    return h('div', { className: 'analyst-answer' },
+      text,
+      answer.grounded ? null : h('p', { className: 'analyst-note' }, t('components.analyst.localNote')),
+      answer.cited.length
+        ? h('ol', { className: 'analyst-sources' },
+          ...answer.cited.map((source, i) => this.renderSource(source, i + 1)))
+        : null,
+      h('div', { className: 'analyst-meta' }, meta),
+    );
+  }
+
+  private render(): void {
+    if (this.entries.length === 0) {
+      replaceChildren(this.logEl,
+        h('p', { className: 'analyst-empty' }, t('components.analyst.empty')),
+        h('div', { className: 'analyst-examples' },
+          ...EXAMPLES.map(key => {
+            const question = t(`components.analyst.examples.${key}`);
+            return h('button', { type: 'button', className: 'analyst-example', onClick: () => void this.ask(question) }, question);
+          }),
+        ),
+      );
+      return;
+    }
+
+    replaceChildren(this.logEl,
+      ...this.entries.map(entry => h('div', { className: 'analyst-entry' },
+        h('div', { className: 'analyst-question' }, entry.question),
+        entry.answer
+          ? this.renderAnswer(entry.answer)
+          : entry.error
+            ? h('div', { className: 'analyst-error' }, t('components.analyst.failed', { error: entry.error }))
+            : null,
+      )),
+      this.status ? h('div', { className: 'analyst-status' }, this.status) : null,
+    );
+    this.logEl.scrollTop = this.logEl.scrollHeight;
+  }
+}
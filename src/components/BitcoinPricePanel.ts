@@ -6,6 +6,8 @@
 import { Panel } from './Panel';
 import { getSecretValue } from '@/services/runtime-config';
 import { escapeHtml } from '@/utils/sanitize';
+import { t } from '@/services/i18n';
+import { PriceRowCharts } from './PriceHistoryChart';
 
 interface BTCData {
   price: number;
@@ -25,15 +27,18 @@ let cacheTimestamp = 0;
 
 export class BitcoinPricePanel extends Panel {
   private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private charts: PriceRowCharts;
 
   constructor() {
     super({ id: 'bitcoin-price', title: '₿ Bitcoin', showCount: false });
+    this.charts = new PriceRowCharts(this.content);
     void this.loadData();
     this.refreshTimer = setInterval(() => this.loadData(), 5 * 60 * 1000);
   }
 
   public destroy(): void {
     if (this.refreshTimer) { clearInterval(this.refreshTimer); this.refreshTimer = null; }
+    this.charts.destroy();
     super.destroy();
   }
 
@@ -141,7 +146,7 @@ export class BitcoinPricePanel extends Panel {
 
     this.setContent(`
       <div class="bitcoin-panel">
-        <div class="btc-price-section">
+        <div class="btc-price-section price-row" data-price-symbol="bitcoin" data-price-class="crypto" title="${escapeHtml(t('components.priceHistory.expand'))}">
           <span class="btc-price-main">$${data.price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
           <span class="btc-change ${changeClass}">${changeSign}${data.change24h.toFixed(2)}%</span>
         </div>
@@ -0,0 +1,78 @@
+import { getCSSColor } from '@/utils';
+import { t } from '@/services/i18n';
+import type { CIIHistoryPoint } from '@/services/cached-risk-scores';
+import type { ComponentScores } from '@/services/country-instability';
+
+const COMPONENT_KEYS: Array<keyof ComponentScores> = ['unrest', 'conflict', 'security', 'information'];
+
+const COMPONENT_COLORS: Record<keyof ComponentScores, string> = {
+  unrest: '#ffb74d',
+  conflict: '#e57373',
+  security: '#64b5f6',
+  information: '#81c784',
+};
+
+function polyline(values: number[], times: number[], t0: number, span: number, w: number, h: number, pad: number): string {
+  return values.map((v, i) => {
+    const x = pad + ((times[i]! - t0) / span) * (w - pad * 2);
+    const y = h - pad - (Math.min(100, Math.max(0, v)) / 100) * (h - pad * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+}
+
+/** Score change across the series (last minus first), rounded to one decimal. */
+export function ciiHistoryDelta(points: CIIHistoryPoint[]): number {
+  if (points.length < 2) return 0;
+  return Math.round((points[points.length - 1]!.score - points[0]!.score) * 10) / 10;
+}
+
+/** Compact score-only trajectory for list rows. Fixed 0-100 scale so rows compare visually. */
+export function renderCIISparkline(points: CIIHistoryPoint[], w = 120, h = 20): string {
+  if (points.length < 2) return '';
+  const t0 = points[0]!.timestamp;
+  const span = Math.max(1, points[points.length - 1]!.timestamp - t0);
+  const delta = ciiHistoryDelta(points);
+  const color = delta > 0 ? getCSSColor('--semantic-high') : delta < 0 ? getCSSColor('--semantic-normal') : getCSSColor('--text-dim');
+  const line = polyline(points.map(p => p.score), points.map(p => p.timestamp), t0, span, w, h, 1);
+  return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" class="cii-history-sparkline"><polyline points="${line}" fill="none" stroke="${color}" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+}
+
+/** Combined score with the four component lines, gridlines at 25/50/75 and a legend. */
+export function renderCIIHistoryChart(points: CIIHistoryPoint[], scoreColor: string, w = 320, h = 120): string {
+  if (points.length < 2) return '';
+  const pad = 4;
+  const t0 = points[0]!.timestamp;
+  const t1 = points[points.length - 1]!.timestamp;
+  const span = Math.max(1, t1 - t0);
+  const times = points.map(p => p.timestamp);
+
+  const grid = [25, 50, 75].map((v) => {
+    const y = h - pad - (v / 100) * (h - pad * 2);
+    return `<line x1="${pad}" x2="${w - pad}" y1="${y.toFixed(1)}" y2="${y.toFixed(1)}" stroke="rgba(255,255,255,0.06)" stroke-width="1"/>`;
+  }).join('');
+
+  const componentLines = COMPONENT_KEYS.map((key) => {
+    const line = polyline(points.map(p => p.components[key]), times, t0, span, w, h, pad);
+    return `<polyline points="${line}" fill="none" stroke="${COMPONENT_COLORS[key]}" stroke-width="1" stroke-opacity="0.6" stroke-dasharray="3 2"/>`;
+  }).join('');
+
+  const scoreLine = polyline(points.map(p => p.score), times, t0, span, w, h, pad);
+
+  const legend = COMPONENT_KEYS.map(key =>
+    `<span class="cii-history-legend-item"><i style="background:${COMPONENT_COLORS[key]}"></i>${t(`modals.countryBrief.components.${key}`)}</span>`,
+  ).join('');
+
+  const fmt = (ts: number) => new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return `
+    <svg viewBox="0 0 ${w} ${h}" class="cii-history-chart" preserveAspectRatio="none">
+      ${grid}
+      ${componentLines}
+      <polyline points="${scoreLine}" fill="none" stroke="${scoreColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+    </svg>
+    <div class="cii-history-axis"><span>${fmt(t0)}</span><span>${fmt(t1)}</span></div>
+    <div class="cii-history-legend">
+      <span class="cii-history-legend-item"><i style="background:${scoreColor}"></i>CII</span>
+      ${legend}
+    </div>`;
+}
@@ -3,11 +3,21 @@ import { getCSSColor } from '@/utils';
 import { calculateCII, type CountryScore } from '@/services/country-instability';
 import { t } from '../services/i18n';
 import { h, replaceChildren, rawHtml } from '@/utils/dom-utils';
+import {
+  fetchRiskScoreHistory,
+  sliceCIIHistory,
+  CII_HISTORY_WINDOWS,
+  type CIIHistoryPoint,
+  type CIIHistoryWindow,
+} from '@/services/cached-risk-scores';
+import { ciiHistoryDelta, renderCIISparkline } from './CIIHistoryChart';
 
 export class CIIPanel extends Panel {
   private scores: CountryScore[] = [];
   private onShareStory?: (code: string, name: string) => void;
   private initialRefreshDone = false;
+  private history = new Map<string, CIIHistoryPoint[]>();
+  private historyDays: CIIHistoryWindow = 30;
 
   constructor() {
     super({
@@ -84,9 +94,53 @@ export class CIIPanel extends Panel {
         h('span', { title: t('common.security') }, `S:${country.components.security}`),
         h('span', { title: t('common.information') }, `I:${country.components.information}`),
       ),
+      h('div', { className: 'cii-history', dataset: { code: country.code } }),
     );
   }
 
+  private buildHistoryToggle(): HTMLElement {
+    return h('div', { className: 'cii-history-toggle' },
+      ...CII_HISTORY_WINDOWS.map(days => h('button', {
+        className: `cii-history-btn${days === this.historyDays ? ' active' : ''}`,
+        dataset: { days: String(days) },
+        onClick: () => {
+          this.historyDays = days;
+          this.content.querySelectorAll('.cii-history-btn').forEach(btn => {
+            btn.classList.toggle('active', (btn as HTMLElement).dataset.days === String(days));
+          });
+          this.renderHistory();
+        },
+      }, t('components.cii.historyWindow', { days: String(days) }))),
+    );
+  }
+
+  /** Fill each row's trajectory slot from server-recorded history (tier-1 countries only). */
+  private renderHistory(): void {
+    this.content.querySelectorAll<HTMLElement>('.cii-history').forEach(el => {
+      const points = sliceCIIHistory(this.history.get(el.dataset.code || ''), this.historyDays);
+      if (points.length < 2) {
+        el.replaceChildren();
+        return;
+      }
+      const delta = ciiHistoryDelta(points);
+      const deltaClass = delta > 0 ? 'trend-up' : delta < 0 ? 'trend-down' : 'trend-stable';
+      replaceChildren(el,
+        rawHtml(renderCIISparkline(points)),
+        h('span', { className: `cii-history-delta ${deltaClass}` }, `${delta > 0 ? '+' : ''}${delta}`),
+      );
+    });
+  }
+
+  private async loadHistory(): Promise<void> {
+    try {
+      this.history = await fetchRiskScoreHistory(this.signal);
+      this.renderHistory();
+    } catch (error) {
+      if (this.isAbortError(error)) return;
+      console.warn('[CIIPanel] History unavailable:', error);
+    }
+  }
+
   private bindShareButtons(): void {
     if (!this.onShareStory) return;
     this.content.querySelectorAll('.cii-share-btn').forEach(btn => {
@@ -100,6 +154,30 @@ export class CIIPanel extends Panel {
     });
   }
 
+  private renderScores(scores: CountryScore[]): void {
+    this.scores = scores;
+    const withData = this.scores.filter(s => s.score > 0);
+    this.setCount(withData.length);
+
+    if (withData.length === 0) {
+      replaceChildren(this.content, h('div', { className: 'empty-state' }, t('components.cii.noSignals')));
+      return;
+    }
+
+    const listEl = h('div', { className: 'cii-list' }, ...withData.map(s => this.buildCountry(s)));
+    replaceChildren(this.content, this.buildHistoryToggle(), listEl);
+    this.renderHistory();
+    this.flashUpdate();
+    this.bindShareButtons();
+    void this.loadHistory();
+  }
+
+  /** Show scores recorded in a playback snapshot instead of live calculations. */
+  public showSnapshot(scores: CountryScore[]): void {
+    this.initialRefreshDone = true;
+    this.renderScores(scores);
+  }
+
   public async refresh(forceLocal = false): Promise<void> {
     if (forceLocal) {
       console.log('[CIIPanel] Focal points ready, calculating scores...');
@@ -111,21 +189,8 @@ export class CIIPanel extends Panel {
     try {
       const localScores = calculateCII();
       const localWithData = localScores.filter(s => s.score > 0).length;
-      this.scores = localScores;
       console.log(`[CIIPanel] Calculated ${localWithData} countries with focal point intelligence`);
-
-      const withData = this.scores.filter(s => s.score > 0);
-      this.setCount(withData.length);
-
-      if (withData.length === 0) {
-        replaceChildren(this.content, h('div', { className: 'empty-state' }, t('components.cii.noSignals')));
-        return;
-      }
-
-      const listEl = h('div', { className: 'cii-list' }, ...withData.map(s => this.buildCountry(s)));
-      replaceChildren(this.content, listEl);
-      this.flashUpdate();
-      this.bindShareButtons();
+      this.renderScores(localScores);
     } catch (error) {
       console.error('[CIIPanel] Refresh error:', error);
       this.showError(t('common.failedCII'));
@@ -4,20 +4,31 @@ import { t } from '@/services/i18n';
 import { getCSSColor } from '@/utils';
 import {
   buildDependencyGraph,
-  calculateCascade,
+  calculateScenarioCascade,
   getGraphStats,
+  getCustomDependencies,
+  importCustomDependencies,
+  clearCustomDependencies,
   clearGraphCache,
+  DEFAULT_CASCADE_DEPTH,
+  MAX_CASCADE_DEPTH,
   type DependencyGraph,
 } from '@/services/infrastructure-cascade';
-import type { CascadeResult, CascadeImpactLevel, InfrastructureNode } from '@/types';
+import type { CascadeResult, CascadeImpactLevel, CascadeScenarioSource, InfrastructureNode } from '@/types';
 
-type NodeFilter = 'all' | 'cable' | 'pipeline' | 'port' | 'chokepoint';
+type NodeFilter = 'all' | 'cable' | 'pipeline' | 'port' | 'chokepoint' | 'custom';
+
+const MAX_SCENARIO_SOURCES = 8;
+const MAX_IMPORT_ERRORS_SHOWN = 5;
 
 export class CascadePanel extends Panel {
   private graph: DependencyGraph | null = null;
   private selectedNode: string | null = null;
   private cascadeResult: CascadeResult | null = null;
   private filter: NodeFilter = 'cable';
+  private scenario: CascadeScenarioSource[] = [];
+  private maxDepth = DEFAULT_CASCADE_DEPTH;
+  private importMessage: { text: string; errors: string[] } | null = null;
   private onSelectCallback: ((nodeId: string | null) => void) | null = null;
 
   constructor() {
@@ -69,6 +80,10 @@ export class CascadePanel extends Panel {
       case 'port': return '⚓';
       case 'chokepoint': return '🚢';
       case 'country': return '🏳️';
+      case 'datacenter': return '🖥️';
+      case 'landing_station': return '📡';
+      case 'power_plant': return '⚡';
+      case 'custom': return '🧩';
       default: return '📍';
     }
   }
@@ -79,15 +94,21 @@ export class CascadePanel extends Panel {
       pipeline: t('components.cascade.filters.pipelines'),
       port: t('components.cascade.filters.ports'),
       chokepoint: t('components.cascade.filters.chokepoints'),
+      custom: t('components.cascade.filters.custom'),
     };
     return labels[filter];
   }
 
+  private getNodeTypeLabel(type: string): string {
+    return t(`components.cascade.filterType.${type}`);
+  }
+
   private getFilteredNodes(): InfrastructureNode[] {
     if (!this.graph) return [];
     const nodes: InfrastructureNode[] = [];
     for (const node of this.graph.nodes.values()) {
-      if (this.filter === 'all' || node.type === this.filter) {
+      const matches = this.filter === 'custom' ? node.metadata?.custom === true : node.type === this.filter;
+      if (this.filter === 'all' || matches) {
         if (node.type !== 'country') {
           nodes.push(node);
         }
@@ -98,9 +119,11 @@ export class CascadePanel extends Panel {
 
   private renderSelector(): string {
     const nodes = this.getFilteredNodes();
-    const filterButtons = ['cable', 'pipeline', 'port', 'chokepoint'].map((f) =>
+    const filters: Exclude<NodeFilter, 'all'>[] = ['cable', 'pipeline', 'port', 'chokepoint'];
+    if (getCustomDependencies().nodes.length > 0) filters.push('custom');
+    const filterButtons = filters.map((f) =>
       `<button class="cascade-filter-btn ${this.filter === f ? 'active' : ''}" data-filter="${f}">
-        ${this.getNodeTypeEmoji(f)} ${this.getFilterLabel(f as Exclude<NodeFilter, 'all'>)}
+        ${this.getNodeTypeEmoji(f)} ${this.getFilterLabel(f)}
       </button>`
     ).join('');
 
@@ -109,7 +132,11 @@ export class CascadePanel extends Panel {
         ${escapeHtml(n.name)}
       </option>`
     ).join('');
-    const selectedType = t(`components.cascade.filterType.${this.filter}`);
+    const selectedType = this.getNodeTypeLabel(this.filter);
+    const canAdd = !!this.selectedNode
+      && this.scenario.length < MAX_SCENARIO_SOURCES
+      && !this.scenario.some(s => s.nodeId === this.selectedNode);
+    const canAnalyze = this.scenario.length > 0 || !!this.selectedNode;
 
     return `
       <div class="cascade-selector">
@@ -118,17 +145,97 @@ export class CascadePanel extends Panel {
           <option value="">${t('components.cascade.selectPrompt', { type: selectedType })}</option>
           ${nodeOptions}
         </select>
-        <button class="cascade-analyze-btn" ${!this.selectedNode ? 'disabled' : ''}>
-          ${t('components.cascade.analyzeImpact')}
-        </button>
+        <div class="cascade-actions">
+          <button class="cascade-add-btn" ${canAdd ? '' : 'disabled'}>
+            ${t('components.cascade.addToScenario')}
+          </button>
+          <button class="cascade-analyze-btn" ${canAnalyze ? '' : 'disabled'}>
+            ${this.scenario.length > 1 ? t('components.cascade.runScenario') : t('components.cascade.analyzeImpact')}
+          </button>
+        </div>
+        ${this.renderScenario()}
+      </div>
+    `;
+  }
+
+  private renderScenario(): string {
+    const depthOptions = Array.from({ length: MAX_CASCADE_DEPTH }, (_, i) => i + 1).map(d =>
+      `<option value="${d}" ${this.maxDepth === d ? 'selected' : ''}>${d}</option>`
+    ).join('');
+    const depthHtml = `
+      <label class="cascade-depth">
+        ${t('components.cascade.depth')}
+        <select class="cascade-depth-select">${depthOptions}</select>
+      </label>
+    `;
+
+    if (this.scenario.length === 0) {
+      return `<div class="cascade-scenario-bar">${depthHtml}</div>`;
+    }
+
+    const items = this.scenario.map((source, index) => {
+      const node = this.graph?.nodes.get(source.nodeId);
+      const percent = Math.round(source.disruption * 100);
+      return `
+        <div class="cascade-scenario-item">
+          <span class="cascade-emoji">${this.getNodeTypeEmoji(node?.type ?? '')}</span>
+          <span class="cascade-scenario-name">${escapeHtml(node?.name ?? source.nodeId)}</span>
+          <input type="range" class="cascade-disruption" data-index="${index}" min="10" max="100" step="10" value="${percent}"
+            aria-label="${escapeHtml(t('components.cascade.disruption'))}">
+          <span class="cascade-disruption-value" data-index="${index}">${percent}%</span>
+          <button class="cascade-scenario-remove" data-index="${index}" title="${escapeHtml(t('components.cascade.remove'))}">×</button>
+        </div>
+      `;
+    }).join('');
+
+    return `
+      <div class="cascade-section">
+        <div class="cascade-section-title">${t('components.cascade.scenarioTitle', { count: String(this.scenario.length) })}</div>
+        ${items}
+        <div class="cascade-scenario-bar">
+          ${depthHtml}
+          <button class="cascade-scenario-clear">${t('components.cascade.clearScenario')}</button>
+        </div>
       </div>
     `;
   }
 
+  private renderCustomImport(): string {
+    const custom = getCustomDependencies();
+    const message = this.importMessage
+      ? `<div class="cascade-import-status">
+          ${escapeHtml(this.importMessage.text)}
+          ${this.importMessage.errors.slice(0, MAX_IMPORT_ERRORS_SHOWN).map(e => `<div class="cascade-import-error">${escapeHtml(e)}</div>`).join('')}
+        </div>`
+      : '';
+
+    return `
+      <details class="cascade-custom" ${this.importMessage ? 'open' : ''}>
+        <summary>${t('components.cascade.customTitle', { nodes: String(custom.nodes.length), edges: String(custom.edges.length) })}</summary>
+        <div class="cascade-custom-body">
+          <div class="cascade-custom-hint">${t('components.cascade.customHint')}</div>
+          <textarea class="cascade-import-text" rows="4" spellcheck="false"
+            placeholder="from,to,strength,redundancy&#10;datacenter:fra1,country:DE,0.4,0.3"></textarea>
+          <div class="cascade-actions">
+            <label class="cascade-filter-btn cascade-import-file">
+              ${t('components.cascade.importFile')}
+              <input type="file" accept=".json,.csv,text/csv,application/json" hidden>
+            </label>
+            <button class="cascade-filter-btn cascade-import-btn">${t('components.cascade.importText')}</button>
+            <button class="cascade-filter-btn cascade-import-clear" ${custom.edges.length === 0 && custom.nodes.length === 0 ? 'disabled' : ''}>
+              ${t('components.cascade.clearCustom')}
+            </button>
+          </div>
+          ${message}
+        </div>
+      </details>
+    `;
+  }
+
   private renderCascadeResult(): string {
     if (!this.cascadeResult) return '';
 
-    const { source, countriesAffected, redundancies } = this.cascadeResult;
+    const { source, sources = [], countriesAffected, redundancies } = this.cascadeResult;
 
     const countriesHtml = countriesAffected.length > 0
       ? countriesAffected.map(c => `
@@ -137,6 +244,8 @@ export class CascadePanel extends Panel {
             <span class="cascade-country-name">${escapeHtml(c.countryName)}</span>
             <span class="cascade-impact">${t(`components.cascade.impactLevels.${c.impactLevel}`)}</span>
             ${c.affectedCapacity > 0 ? `<span class="cascade-capacity">${t('components.cascade.capacityPercent', { percent: String(Math.round(c.affectedCapacity * 100)) })}</span>` : ''}
+            ${sources.length > 1 && c.sources && c.sources.length > 1 ? `<span class="cascade-capacity" title="${escapeHtml(t('components.cascade.combinedTooltip'))}">×${c.sources.length}</span>` : ''}
+            ${c.redundancyAvailable ? `<span class="cascade-badge-redundant" title="${escapeHtml(t('components.cascade.redundantTooltip'))}">↺</span>` : ''}
           </div>
         `).join('')
       : `<div class="empty-state">${t('components.cascade.noCountryImpacts')}</div>`;
@@ -155,13 +264,25 @@ export class CascadePanel extends Panel {
       `
       : '';
 
+    const sourceHtml = sources.length > 1
+      ? sources.map(s => `
+          <div class="cascade-source">
+            <span class="cascade-emoji">${this.getNodeTypeEmoji(s.node.type)}</span>
+            <span class="cascade-source-name">${escapeHtml(s.node.name)}</span>
+            <span class="cascade-source-type">${Math.round(s.disruption * 100)}%</span>
+          </div>
+        `).join('')
+      : `
+          <div class="cascade-source">
+            <span class="cascade-emoji">${this.getNodeTypeEmoji(source.type)}</span>
+            <span class="cascade-source-name">${escapeHtml(source.name)}</span>
+            <span class="cascade-source-type">${this.getNodeTypeLabel(source.type)}</span>
+          </div>
+        `;
+
     return `
       <div class="cascade-result">
-        <div class="cascade-source">
-          <span class="cascade-emoji">${this.getNodeTypeEmoji(source.type)}</span>
-          <span class="cascade-source-name">${escapeHtml(source.name)}</span>
-          <span class="cascade-source-type">${t(`components.cascade.filterType.${source.type}`)}</span>
-        </div>
+        ${sourceHtml}
         <div class="cascade-section">
           <div class="cascade-section-title">${t('components.cascade.countriesAffected', { count: String(countriesAffected.length) })}</div>
           <div class="cascade-countries">${countriesHtml}</div>
@@ -185,6 +306,7 @@ export class CascadePanel extends Panel {
         <span>⚓ ${stats.ports}</span>
         <span>🌊 ${stats.chokepoints}</span>
         <span>🏳️ ${stats.countries}</span>
+        ${stats.custom > 0 ? `<span>🧩 ${stats.custom}</span>` : ''}
         <span>📊 ${stats.edges} ${t('components.cascade.links')}</span>
       </div>
     `;
@@ -194,6 +316,7 @@ export class CascadePanel extends Panel {
         ${statsHtml}
         ${this.renderSelector()}
         ${this.cascadeResult ? this.renderCascadeResult() : `<div class="cascade-hint">${t('components.cascade.selectInfrastructureHint')}</div>`}
+        ${this.renderCustomImport()}
       </div>
     `;
 
@@ -227,21 +350,110 @@ export class CascadePanel extends Panel {
     if (analyzeBtn) {
       analyzeBtn.addEventListener('click', () => this.runAnalysis());
     }
+
+    this.content.querySelector('.cascade-add-btn')?.addEventListener('click', () => {
+      if (!this.selectedNode || this.scenario.some(s => s.nodeId === this.selectedNode)) return;
+      this.scenario.push({ nodeId: this.selectedNode, disruption: 1 });
+      this.cascadeResult = null;
+      this.render();
+    });
+
+    this.content.querySelectorAll<HTMLInputElement>('.cascade-disruption').forEach(input => {
+      const index = Number(input.dataset.index);
+      input.addEventListener('input', () => {
+        const label = this.content.querySelector(`.cascade-disruption-value[data-index="${index}"]`);
+        if (label) label.textContent = `${input.value}%`;
+      });
+      input.addEventListener('change', () => {
+        const source = this.scenario[index];
+        if (!source) return;
+        source.disruption = Number(input.value) / 100;
+        if (this.cascadeResult) this.runAnalysis();
+      });
+    });
+
+    this.content.querySelectorAll<HTMLElement>('.cascade-scenario-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.scenario.splice(Number(btn.dataset.index), 1);
+        this.cascadeResult = null;
+        this.render();
+      });
+    });
+
+    this.content.querySelector('.cascade-scenario-clear')?.addEventListener('click', () => {
+      this.scenario = [];
+      this.cascadeResult = null;
+      this.render();
+    });
+
+    const depthSelect = this.content.querySelector<HTMLSelectElement>('.cascade-depth-select');
+    depthSelect?.addEventListener('change', () => {
+      this.maxDepth = Number(depthSelect.value) || DEFAULT_CASCADE_DEPTH;
+      if (this.cascadeResult) this.runAnalysis();
+    });
+
+    const textArea = this.content.querySelector<HTMLTextAreaElement>('.cascade-import-text');
+    this.content.querySelector('.cascade-import-btn')?.addEventListener('click', () => {
+      if (textArea?.value.trim()) this.importDependencies(textArea.value);
+    });
+
+    const fileInput = this.content.querySelector<HTMLInputElement>('.cascade-import-file input');
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (file) this.importDependencies(await file.text());
+    });
+
+    this.content.querySelector('.cascade-import-clear')?.addEventListener('click', () => {
+      clearCustomDependencies();
+      if (this.filter === 'custom') this.filter = 'cable';
+      this.importMessage = null;
+      this.reloadGraph();
+    });
+  }
+
+  private importDependencies(text: string): void {
+    const result = importCustomDependencies(text);
+    const { nodes, edges } = result.graph;
+    this.importMessage = {
+      text: edges.length > 0 || nodes.length > 0
+        ? t('components.cascade.importSuccess', { nodes: String(nodes.length), edges: String(edges.length) })
+        : t('components.cascade.importEmpty'),
+      errors: result.errors,
+    };
+    this.reloadGraph();
+  }
+
+  private reloadGraph(): void {
+    const graph = buildDependencyGraph();
+    this.graph = graph;
+    this.scenario = this.scenario.filter(s => graph.nodes.has(s.nodeId));
+    if (this.selectedNode && !graph.nodes.has(this.selectedNode)) this.selectedNode = null;
+    this.setCount(graph.nodes.size);
+    if (this.cascadeResult && (this.scenario.length > 0 || this.selectedNode)) {
+      this.runAnalysis();
+    } else {
+      this.cascadeResult = null;
+      this.render();
+    }
   }
 
   private runAnalysis(): void {
-    if (!this.selectedNode) return;
+    const sources = this.scenario.length > 0
+      ? this.scenario
+      : this.selectedNode ? [{ nodeId: this.selectedNode, disruption: 1 }] : [];
+    if (sources.length === 0) return;
 
-    this.cascadeResult = calculateCascade(this.selectedNode);
+    this.cascadeResult = calculateScenarioCascade({ sources, maxDepth: this.maxDepth });
     this.render();
 
-    if (this.onSelectCallback) {
+    if (this.onSelectCallback && this.selectedNode) {
       this.onSelectCallback(this.selectedNode);
     }
   }
 
   public selectNode(nodeId: string): void {
     this.selectedNode = nodeId;
+    this.scenario = [];
     const nodeType = nodeId.split(':')[0] as NodeFilter;
     if (['cable', 'pipeline', 'port', 'chokepoint'].includes(nodeType)) {
       this.filter = nodeType;
@@ -249,6 +461,10 @@ export class CascadePanel extends Panel {
     this.runAnalysis();
   }
 
+  public getScenario(): CascadeScenarioSource[] {
+    return this.scenario.map(s => ({ ...s }));
+  }
+
   public onSelect(callback: (nodeId: string | null) => void): void {
     this.onSelectCallback = callback;
   }
@@ -12,6 +12,11 @@ import { PORTS } from '@/config/ports';
 import type { Port } from '@/config/ports';
 import { exportCountryBriefJSON, exportCountryBriefCSV } from '@/utils/export';
 import type { CountryBriefExport } from '@/utils/export';
+import { sliceCIIHistory, CII_HISTORY_WINDOWS } from '@/services/cached-risk-scores';
+import type { CIIHistoryPoint, CIIHistoryWindow } from '@/services/cached-risk-scores';
+import { ciiHistoryDelta, renderCIIHistoryChart } from './CIIHistoryChart';
+import { PriceHistoryChart, renderPriceSparkline } from './PriceHistoryChart';
+import { fetchPriceHistory } from '@/services/market';
 
 type BriefAssetType = AssetType | 'port';
 
@@ -71,6 +76,8 @@ export class CountryBriefPage {
   private currentSignals: CountryBriefSignals | null = null;
   private currentBrief: string | null = null;
   private currentHeadlines: NewsItem[] = [];
+  private currentHistory: CIIHistoryPoint[] = [];
+  private historyDays: CIIHistoryWindow = 30;
   private onCloseCallback?: () => void;
   private onShareStory?: (code: string, name: string) => void;
   private onExportImage?: (code: string, name: string) => void;
@@ -217,6 +224,12 @@ export class CountryBriefPage {
         </div>
       </div>`;
     this.overlay.querySelector('.cb-close')?.addEventListener('click', () => this.hide());
+    this.overlay.querySelectorAll<HTMLElement>('.cb-history .cii-history-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.historyDays = Number(btn.dataset.days) as CIIHistoryWindow;
+        this.renderScoreHistory();
+      });
+    });
     this.overlay.classList.add('active');
   }
 
@@ -234,6 +247,7 @@ export class CountryBriefPage {
     this.currentBrief = null;
     this.currentHeadlines = [];
     this.currentHeadlineCount = 0;
+    this.currentHistory = [];
     const flag = this.countryFlag(code);
 
     const tierBadge = !signals.isTier1
@@ -283,6 +297,16 @@ export class CountryBriefPage {
                       ${this.componentBars(score.components)}
                     </div>
                   </div>
+                  <div class="cb-history" style="display:none">
+                    <div class="cb-history-header">
+                      <span class="cb-history-title">${t('modals.countryBrief.scoreHistory')}</span>
+                      <span class="cb-history-delta"></span>
+                      <div class="cii-history-toggle">
+                        ${CII_HISTORY_WINDOWS.map(days => `<button class="cii-history-btn${days === this.historyDays ? ' active' : ''}" data-days="${days}">${t('components.cii.historyWindow', { days: String(days) })}</button>`).join('')}
+                      </div>
+                    </div>
+                    <div class="cb-history-chart"></div>
+                  </div>
                 </section>` : signals.isTier1 ? '' : `
                 <section class="cb-section cb-risk-section">
                   <h3 class="cb-section-title">${t('modals.countryBrief.instabilityIndex')}</h3>
@@ -342,6 +366,12 @@ export class CountryBriefPage {
       </div>`;
 
     this.overlay.querySelector('.cb-close')?.addEventListener('click', () => this.hide());
+    this.overlay.querySelectorAll<HTMLElement>('.cb-history .cii-history-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.historyDays = Number(btn.dataset.days) as CIIHistoryWindow;
+        this.renderScoreHistory();
+      });
+    });
     this.overlay.querySelector('.cb-share-btn')?.addEventListener('click', () => {
       if (this.onShareStory && this.currentCode && this.currentName) {
         this.onShareStory(this.currentCode, this.currentName);
@@ -418,6 +448,43 @@ export class CountryBriefPage {
       </div>`;
   }
 
+  /** Server-recorded CII trajectory for the current country (tier-1 only). */
+  public updateScoreHistory(code: string, points: CIIHistoryPoint[]): void {
+    if (code !== this.currentCode) return;
+    this.currentHistory = points;
+    this.renderScoreHistory();
+  }
+
+  private renderScoreHistory(): void {
+    const section = this.overlay.querySelector<HTMLElement>('.cb-history');
+    if (!section) return;
+    const points = sliceCIIHistory(this.currentHistory, this.historyDays);
+    const chart = section.querySelector('.cb-history-chart');
+    const deltaEl = section.querySelector('.cb-history-delta');
+    section.querySelectorAll<HTMLElement>('.cii-history-btn').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.days === String(this.historyDays));
+    });
+
+    if (!this.currentHistory.length) {
+      section.style.display = 'none';
+      return;
+    }
+    section.style.display = '';
+    if (points.length < 2) {
+      if (chart) chart.innerHTML = `<span class="intel-loading-text">${t('modals.countryBrief.noScoreHistory')}</span>`;
+      if (deltaEl) deltaEl.textContent = '';
+      return;
+    }
+
+    const delta = ciiHistoryDelta(points);
+    const color = this.levelColor(this.currentScore?.level || 'normal');
+    if (chart) chart.innerHTML = renderCIIHistoryChart(points, color);
+    if (deltaEl) {
+      deltaEl.className = `cb-history-delta ${delta > 0 ? 'trend-up' : delta < 0 ? 'trend-down' : 'trend-stable'}`;
+      deltaEl.textContent = `${delta > 0 ? '+' : ''}${delta}`;
+    }
+  }
+
   public updateMarkets(markets: PredictionMarket[]): void {
     const section = this.overlay.querySelector('.cb-markets-content');
     if (!section) return;
@@ -460,6 +527,24 @@ export class CountryBriefPage {
     const arrow = pct >= 0 ? '📈' : '📉';
     el.className = `signal-chip stock ${cls}`;
     el.innerHTML = `${arrow} ${escapeHtml(data.indexName)}: ${sign}${data.weekChangePercent}% (1W)`;
+    if (!data.symbol) return;
+
+    // One month of daily closes inline; click for the full candle chart.
+    el.classList.add('price-row');
+    el.setAttribute('title', t('components.priceHistory.expand'));
+    let chart: PriceHistoryChart | null = null;
+    el.addEventListener('click', () => {
+      if (chart) {
+        chart.destroy();
+        chart = null;
+        return;
+      }
+      chart = new PriceHistoryChart({ symbol: data.symbol, assetClass: 'stock' });
+      el.after(chart.element);
+    });
+    void fetchPriceHistory(data.symbol, '1d', 'stock').then((history) => {
+      if (el.isConnected) el.insertAdjacentHTML('beforeend', renderPriceSparkline(history.candles.slice(-22), 48, 14));
+    });
   }
 
   public updateNews(headlines: NewsItem[]): void {
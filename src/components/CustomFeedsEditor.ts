@@ -0,0 +1,182 @@
+import { t, LANGUAGES } from '@/services/i18n';
+import { DEFAULT_PANELS } from '@/config/panels';
+import {
+  CUSTOM_FEED_FORMATS,
+  DEFAULT_CUSTOM_TIER,
+  SOURCE_TIER_OPTIONS,
+  addCustomFeed,
+  exportCustomFeedsOpml,
+  getCustomFeedCategories,
+  getCustomFeeds,
+  importCustomFeedsOpml,
+  onCustomFeedsChanged,
+  removeCustomFeed,
+  updateCustomFeed,
+  type CustomFeed,
+  type CustomFeedFormat,
+} from '@/services/custom-feeds';
+import { exportCustomFeeds } from '@/utils/export';
+import { h, replaceChildren } from '@/utils/dom-utils';
+
+function option(value: string, label: string, selected: boolean): HTMLElement {
+  return h('option', { value, selected }, label);
+}
+
+function categoryLabel(key: string): string {
+  return DEFAULT_PANELS[key]?.name ?? key;
+}
+
+/** Editor for user-added RSS/Atom, JSON Feed and Telegram sources, hosted in the settings modal. */
+export class CustomFeedsEditor {
+  private root: HTMLElement;
+  private list = h('div', { className: 'custom-feeds-list' });
+  private status = h('div', { className: 'custom-feeds-status' });
+  private unsubscribe: () => void;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.unsubscribe = onCustomFeedsChanged(() => this.renderList());
+    this.render();
+  }
+
+  public render(): void {
+    replaceChildren(this.root,
+      h('div', { className: 'ai-flow-section-label' }, t('components.customFeeds.title')),
+      h('div', { className: 'ai-flow-toggle-desc' }, t('components.customFeeds.description')),
+      this.list,
+      this.renderForm(),
+      this.renderOpmlActions(),
+      this.status,
+    );
+    this.renderList();
+  }
+
+  public destroy(): void {
+    this.unsubscribe();
+  }
+
+  private categorySelect(selected: string, onChange: (value: string) => void): HTMLElement {
+    return h('select', {
+      className: 'custom-feed-category',
+      title: t('components.customFeeds.category'),
+      onChange: (e: Event) => onChange((e.target as HTMLSelectElement).value),
+    }, ...getCustomFeedCategories().map(key => option(key, categoryLabel(key), key === selected)));
+  }
+
+  private tierSelect(selected: number, onChange: (value: number) => void): HTMLElement {
+    return h('select', {
+      className: 'custom-feed-tier',
+      title: t('components.customFeeds.tier'),
+      onChange: (e: Event) => onChange(Number((e.target as HTMLSelectElement).value)),
+    }, ...SOURCE_TIER_OPTIONS.map(tier => option(String(tier), t(`components.customFeeds.tiers.${tier}`), tier === selected)));
+  }
+
+  private langSelect(selected: string, onChange: (value: string) => void): HTMLElement {
+    return h('select', {
+      className: 'custom-feed-lang',
+      title: t('components.customFeeds.language'),
+      onChange: (e: Event) => onChange((e.target as HTMLSelectElement).value),
+    },
+      option('', t('components.customFeeds.anyLanguage'), !selected),
+      ...LANGUAGES.map(lang => option(lang.code, lang.label, lang.code === selected)),
+    );
+  }
+
+  private renderList(): void {
+    const feeds = getCustomFeeds();
+    if (feeds.length === 0) {
+      replaceChildren(this.list, h('div', { className: 'alert-rules-empty' }, t('components.customFeeds.noFeeds')));
+      return;
+    }
+    replaceChildren(this.list, ...feeds.map(feed => this.renderFeed(feed)));
+  }
+
+  private renderFeed(feed: CustomFeed): HTMLElement {
+    return h('div', { className: `custom-feed-row${feed.enabled ? '' : ' disabled'}`, dataset: { feedId: feed.id } },
+      h('input', {
+        type: 'checkbox',
+        checked: feed.enabled,
+        title: t('components.customFeeds.enabled'),
+        onChange: (e: Event) => updateCustomFeed(feed.id, { enabled: (e.target as HTMLInputElement).checked }),
+      }),
+      h('span', { className: 'custom-feed-name', title: feed.format === 'telegram' ? `@${feed.url}` : feed.url }, feed.name),
+      h('span', { className: 'custom-feed-format' }, t(`components.customFeeds.formats.${feed.format}`)),
+      this.categorySelect(feed.category, category => updateCustomFeed(feed.id, { category })),
+      this.tierSelect(feed.tier, tier => updateCustomFeed(feed.id, { tier })),
+      this.langSelect(feed.lang, lang => updateCustomFeed(feed.id, { lang })),
+      h('button', {
+        className: 'alert-rule-remove',
+        title: t('components.customFeeds.remove'),
+        onClick: () => removeCustomFeed(feed.id),
+      }, '×'),
+    );
+  }
+
+  private renderForm(): HTMLElement {
+    const categories = getCustomFeedCategories();
+    const draft = { format: 'rss' as CustomFeedFormat, category: categories[0] ?? '', tier: DEFAULT_CUSTOM_TIER, lang: '' };
+    const name = h('input', { type: 'text', className: 'custom-feed-input', placeholder: t('components.customFeeds.name') }) as HTMLInputElement;
+    const url = h('input', { type: 'text', className: 'custom-feed-input', placeholder: t('components.customFeeds.urlPlaceholder.rss') }) as HTMLInputElement;
+    const error = h('div', { className: 'custom-feeds-error' });
+
+    const format = h('select', {
+      className: 'custom-feed-format-select',
+      onChange: (e: Event) => {
+        draft.format = (e.target as HTMLSelectElement).value as CustomFeedFormat;
+        url.placeholder = t(`components.customFeeds.urlPlaceholder.${draft.format}`);
+      },
+    }, ...CUSTOM_FEED_FORMATS.map(f => option(f, t(`components.customFeeds.formats.${f}`), f === draft.format)));
+
+    const add = () => {
+      try {
+        addCustomFeed({ name: name.value, url: url.value, ...draft });
+        name.value = '';
+        url.value = '';
+        error.textContent = '';
+      } catch (err) {
+        error.textContent = err instanceof Error ? err.message : String(err);
+      }
+    };
+
+    return h('div', { className: 'custom-feeds-form' },
+      h('div', { className: 'custom-feeds-form-row' }, name, format),
+      url,
+      h('div', { className: 'custom-feeds-form-row' },
+        this.categorySelect(draft.category, category => { draft.category = category; }),
+        this.tierSelect(draft.tier, tier => { draft.tier = tier; }),
+        this.langSelect(draft.lang, lang => { draft.lang = lang; }),
+        h('button', { className: 'alert-rules-add', onClick: add }, t('components.customFeeds.add')),
+      ),
+      error,
+    );
+  }
+
+  private renderOpmlActions(): HTMLElement {
+    const file = h('input', { type: 'file', accept: '.opml,.xml,text/x-opml,text/xml', hidden: true }) as HTMLInputElement;
+    file.addEventListener('change', async () => {
+      const selected = file.files?.[0];
+      file.value = '';
+      if (!selected) return;
+      try {
+        const { added, skipped } = importCustomFeedsOpml(await selected.text(), getCustomFeedCategories()[0] ?? '');
+        this.status.textContent = t('components.customFeeds.imported', { added: String(added), skipped: String(skipped) });
+      } catch (err) {
+        this.status.textContent = err instanceof Error ? err.message : String(err);
+      }
+    });
+
+    return h('div', { className: 'sources-footer' },
+      file,
+      h('button', { onClick: () => file.click() }, t('components.customFeeds.importOpml')),
+      h('button', {
+        onClick: () => {
+          if (getCustomFeeds().length === 0) {
+            this.status.textContent = t('components.customFeeds.noFeeds');
+            return;
+          }
+          exportCustomFeeds(exportCustomFeedsOpml());
+        },
+      }, t('components.customFeeds.exportOpml')),
+    );
+  }
+}
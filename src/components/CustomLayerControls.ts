@@ -0,0 +1,147 @@
+import { t } from '@/services/i18n';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  addCustomLayer,
+  detectFormat,
+  getCustomLayers,
+  onCustomLayersChanged,
+  parseFeatures,
+  parseWmsSource,
+  removeCustomLayer,
+  updateCustomLayer,
+  type CustomLayer,
+} from '@/services/custom-layers';
+
+const FILE_ACCEPT = '.geojson,.json,.kml,.csv';
+
+/**
+ * Custom layer section of the map layer toggles: one row per imported layer
+ * (toggle, color, opacity, remove) plus the file / WMS import form.
+ */
+export class CustomLayerControls {
+  public readonly element: HTMLElement;
+  private list: HTMLElement;
+  private form: HTMLElement;
+  private error: HTMLElement;
+  private unsubscribe: () => void;
+
+  constructor() {
+    this.list = h('div', { className: 'custom-layer-list' });
+    this.error = h('div', { className: 'custom-layer-error' });
+    this.form = this.renderForm();
+    this.form.hidden = true;
+
+    this.element = h('div', { className: 'custom-layers' },
+      h('div', { className: 'custom-layers-header' },
+        h('span', null, t('components.deckgl.customLayers.title')),
+        h('button', {
+          className: 'custom-layer-add-btn',
+          title: t('components.deckgl.customLayers.import'),
+          onClick: () => { this.form.hidden = !this.form.hidden; },
+        }, '+'),
+      ),
+      this.list,
+      this.form,
+    );
+
+    this.renderList();
+    this.unsubscribe = onCustomLayersChanged(() => this.renderList());
+  }
+
+  private renderList(): void {
+    replaceChildren(this.list, ...getCustomLayers().map(layer => this.renderRow(layer)));
+  }
+
+  private renderRow(layer: CustomLayer): HTMLElement {
+    const count = layer.wms
+      ? t('components.deckgl.customLayers.wms')
+      : t('components.deckgl.customLayers.featureCount', { count: String(layer.features.length) });
+
+    return h('div', { className: 'custom-layer-toggle', dataset: { layer: layer.id } },
+      h('input', {
+        type: 'checkbox',
+        checked: layer.enabled,
+        onChange: (e: Event) => updateCustomLayer(layer.id, { enabled: (e.target as HTMLInputElement).checked }),
+      }),
+      h('input', {
+        type: 'color',
+        className: 'custom-layer-color',
+        value: layer.style.color,
+        title: t('components.deckgl.customLayers.color'),
+        onChange: (e: Event) => updateCustomLayer(layer.id, { style: { color: (e.target as HTMLInputElement).value } }),
+      }),
+      h('span', { className: 'toggle-label', title: `${layer.name} (${count})` }, layer.name),
+      h('input', {
+        type: 'range',
+        className: 'custom-layer-opacity',
+        min: '0.1',
+        max: '1',
+        step: '0.1',
+        value: String(layer.style.opacity),
+        title: t('components.deckgl.customLayers.opacity'),
+        onChange: (e: Event) => updateCustomLayer(layer.id, { style: { opacity: Number((e.target as HTMLInputElement).value) } }),
+      }),
+      h('button', {
+        className: 'custom-layer-remove',
+        title: t('components.deckgl.customLayers.remove'),
+        onClick: () => removeCustomLayer(layer.id),
+      }, '×'),
+    );
+  }
+
+  private renderForm(): HTMLElement {
+    const name = h('input', { type: 'text', className: 'custom-layer-input', placeholder: t('components.deckgl.customLayers.name') }) as HTMLInputElement;
+    const file = h('input', { type: 'file', className: 'custom-layer-file', accept: FILE_ACCEPT }) as HTMLInputElement;
+    const wmsUrl = h('input', { type: 'url', className: 'custom-layer-input', placeholder: t('components.deckgl.customLayers.wmsUrl') }) as HTMLInputElement;
+    const wmsLayers = h('input', { type: 'text', className: 'custom-layer-input', placeholder: t('components.deckgl.customLayers.wmsLayers') }) as HTMLInputElement;
+
+    const reset = () => {
+      name.value = '';
+      file.value = '';
+      wmsUrl.value = '';
+      wmsLayers.value = '';
+      this.error.textContent = '';
+      this.form.hidden = true;
+    };
+
+    const importFile = async () => {
+      const selected = file.files?.[0];
+      if (!selected) return;
+      try {
+        const text = await selected.text();
+        const format = detectFormat(selected.name, text);
+        addCustomLayer(name.value || selected.name.replace(/\.[^.]+$/, ''), format, { features: parseFeatures(text, format) });
+        reset();
+      } catch (err) {
+        this.error.textContent = err instanceof Error ? err.message : String(err);
+      }
+    };
+
+    const importWms = () => {
+      try {
+        const wms = parseWmsSource(wmsUrl.value, wmsLayers.value);
+        addCustomLayer(name.value || wms.layers.join(', '), 'wms', { wms });
+        reset();
+      } catch (err) {
+        this.error.textContent = err instanceof Error ? err.message : String(err);
+      }
+    };
+
+    return h('div', { className: 'custom-layer-form' },
+      name,
+      h('label', { className: 'custom-layer-form-label' }, t('components.deckgl.customLayers.file')),
+      file,
+      h('button', { className: 'custom-layer-import-btn', onClick: () => void importFile() }, t('components.deckgl.customLayers.importFile')),
+      h('label', { className: 'custom-layer-form-label' }, t('components.deckgl.customLayers.wmsService')),
+      wmsUrl,
+      wmsLayers,
+      h('button', { className: 'custom-layer-import-btn', onClick: importWms }, t('components.deckgl.customLayers.importWms')),
+      this.error,
+    );
+  }
+
+  public destroy(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+}
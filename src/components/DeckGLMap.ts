@@ -16,6 +16,7 @@ import type {
   RelatedAsset,
   AssetType,
   AisDisruptionEvent,
+  AisVesselEvent,
   AisDensityZone,
   CableAdvisory,
   RepairShip,
@@ -39,6 +40,7 @@ import type { DisplacementFlow } from '@/services/displacement';
 import type { Earthquake } from '@/services/earthquakes';
 import type { ClimateAnomaly } from '@/services/climate';
 import { ArcLayer } from '@deck.gl/layers';
+import { _WMSLayer as WMSLayer } from '@deck.gl/geo-layers';
 import { HeatmapLayer } from '@deck.gl/aggregation-layers';
 import type { WeatherAlert } from '@/services/weather';
 import { escapeHtml } from '@/utils/sanitize';
@@ -83,6 +85,9 @@ import {
 } from '@/services/hotspot-escalation';
 import { getCountryScore } from '@/services/country-instability';
 import { getAlertsNearLocation } from '@/services/geo-convergence';
+import { featureAnchor, getEnabledCustomLayers, onCustomLayersChanged, type CustomLayer } from '@/services/custom-layers';
+import type { GisFeature } from '@/utils/gis-export';
+import { CustomLayerControls } from './CustomLayerControls';
 import type { PositiveGeoEvent } from '@/services/positive-events-geo';
 import type { KindnessPoint } from '@/services/kindness-data';
 import type { HappinessData } from '@/services/happiness-data';
@@ -90,6 +95,9 @@ import type { RenewableInstallation } from '@/services/renewable-installations';
 import type { SpeciesRecovery } from '@/services/conservation-data';
 import { getCountriesGeoJson, getCountryAtCoordinates } from '@/services/country-geometry';
 import type { FeatureCollection, Geometry } from 'geojson';
+import { splitSorties, type FlightTrail, type TrackPoint } from '@/services/flight-tracks/analysis';
+import { describeSanctionsMatch, getSanctionsHit, type SanctionsHit } from '@/services/sanctions';
+import { riskLevel, type RouteRiskLevel, type RouteWaypoint, type SupplyRouteHighlight } from '@/services/supply-chain/route-risk';
 
 export type TimeRange = '1h' | '6h' | '24h' | '48h' | '7d' | 'all';
 export type DeckMapView = 'global' | 'america' | 'mena' | 'eu' | 'asia' | 'latam' | 'africa' | 'oceania';
@@ -270,6 +278,8 @@ export class DeckGLMap {
   private outages: InternetOutage[] = [];
   private cyberThreats: CyberThreat[] = [];
   private aisDisruptions: AisDisruptionEvent[] = [];
+  private aisVesselEvents: AisVesselEvent[] = [];
+  private sanctionsHits: SanctionsHit[] = [];
   private aisDensity: AisDensityZone[] = [];
   private cableAdvisories: CableAdvisory[] = [];
   private repairShips: RepairShip[] = [];
@@ -277,6 +287,8 @@ export class DeckGLMap {
   private protests: SocialUnrestEvent[] = [];
   private militaryFlights: MilitaryFlight[] = [];
   private militaryFlightClusters: MilitaryFlightCluster[] = [];
+  private flightTrail: FlightTrail | null = null;
+  private supplyRoute: SupplyRouteHighlight | null = null;
   private militaryVessels: MilitaryVessel[] = [];
   private militaryVesselClusters: MilitaryVesselCluster[] = [];
   private naturalEvents: NaturalEvent[] = [];
@@ -315,6 +327,7 @@ export class DeckGLMap {
   private onCountryClick?: (country: CountryClickPayload) => void;
   private onLayerChange?: (layer: keyof MapLayers, enabled: boolean, source: 'user' | 'programmatic') => void;
   private onStateChange?: (state: DeckMapState) => void;
+  private onViewportChange?: (bounds: [number, number, number, number] | null) => void;
 
   // Highlighted assets
   private highlightedAssets: Record<AssetType, Set<string>> = {
@@ -353,6 +366,9 @@ export class DeckGLMap {
   private debouncedRebuildLayers: () => void;
   private rafUpdateLayers: () => void;
   private moveTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private customLayerControls: CustomLayerControls | null = null;
+  private customLayerData = new WeakMap<CustomLayer, FeatureCollection<Geometry>>();
+  private unsubscribeCustomLayers: () => void;
 
   constructor(container: HTMLElement, initialState: DeckMapState) {
     this.container = container;
@@ -371,6 +387,8 @@ export class DeckGLMap {
 
     this.setupDOM();
     this.popup = new MapPopup(container);
+    this.popup.setOnCountryLink((code, name, lat, lon) => this.onCountryClick?.({ lat, lon, code, name }));
+    this.unsubscribeCustomLayers = onCustomLayersChanged(() => this.render());
 
     window.addEventListener('theme-changed', (e: Event) => {
       const theme = (e as CustomEvent).detail?.theme as 'dark' | 'light';
@@ -498,6 +516,7 @@ export class DeckGLMap {
       this.moveTimeoutId = setTimeout(() => {
         this.lastSCZoom = -1;
         this.rafUpdateLayers();
+        this.onViewportChange?.(this.getBounds());
       }, 200);
     });
 
@@ -1075,6 +1094,16 @@ export class DeckGLMap {
       layers.push(this.createAisDisruptionsLayer());
     }
 
+    // Per-vessel events: dark gaps, loitering, rendezvous, chokepoint anomalies
+    if (mapLayers.ais && this.aisVesselEvents.length > 0) {
+      layers.push(this.createAisVesselEventsLayer());
+    }
+
+    // Vessels, aircraft and news entities matching an imported sanctions list
+    if (mapLayers.sanctions && this.sanctionsHits.length > 0) {
+      layers.push(this.createSanctionsHitsLayer());
+    }
+
     // Strategic ports layer (shown with AIS)
     if (mapLayers.ais) {
       layers.push(this.createPortsLayer());
@@ -1120,6 +1149,16 @@ export class DeckGLMap {
       layers.push(this.createMilitaryFlightClustersLayer(filteredMilitaryFlightClusters));
     }
 
+    // Replayed flight track (shown regardless of layer toggles while selected)
+    if (this.flightTrail && this.flightTrail.points.length > 0) {
+      layers.push(...this.createFlightTrailLayers(this.flightTrail));
+    }
+
+    // Assessed supply routes (shown regardless of layer toggles while selected)
+    if (this.supplyRoute && this.supplyRoute.routes.length > 0) {
+      layers.push(...this.createSupplyRouteLayers(this.supplyRoute));
+    }
+
     // Strategic waterways layer
     if (mapLayers.waterways) {
       layers.push(this.createWaterwaysLayer());
@@ -1236,6 +1275,11 @@ export class DeckGLMap {
       layers.push(this.createRenewableInstallationsLayer());
     }
 
+    // User-imported layers
+    for (const customLayer of getEnabledCustomLayers()) {
+      layers.push(this.createCustomLayer(customLayer));
+    }
+
     // News geo-locations (always shown if data exists)
     if (this.newsLocations.length > 0) {
       layers.push(...this.createNewsLocationsLayer());
@@ -1701,6 +1745,45 @@ export class DeckGLMap {
     });
   }
 
+  private createAisVesselEventsLayer(): ScatterplotLayer<AisVesselEvent> {
+    const colors: Record<AisVesselEvent['type'], [number, number, number]> = {
+      ais_gap: [160, 90, 255],
+      loitering: [255, 200, 60],
+      rendezvous: [255, 80, 160],
+      speed_anomaly: [255, 140, 0],
+      course_anomaly: [255, 140, 0],
+    };
+    return new ScatterplotLayer<AisVesselEvent>({
+      id: 'ais-vessel-events-layer',
+      data: this.aisVesselEvents,
+      getPosition: (d) => [d.lon, d.lat],
+      getRadius: (d) => (d.severity === 'high' ? 9000 : 6000),
+      getFillColor: (d) => [...colors[d.type], d.ongoing ? 220 : 120] as [number, number, number, number],
+      radiusMinPixels: 4,
+      radiusMaxPixels: 11,
+      pickable: true,
+      stroked: true,
+      getLineColor: (d) => (d.ongoing ? [255, 255, 255, 200] : [255, 255, 255, 80]) as [number, number, number, number],
+      lineWidthMinPixels: 1,
+    });
+  }
+
+  private createSanctionsHitsLayer(): ScatterplotLayer<SanctionsHit> {
+    return new ScatterplotLayer<SanctionsHit>({
+      id: 'sanctions-hits-layer',
+      data: this.sanctionsHits.filter(hit => hit.lat != null && hit.lon != null),
+      getPosition: (d) => [d.lon!, d.lat!],
+      getRadius: 12000,
+      getFillColor: [220, 30, 30, 40] as [number, number, number, number],
+      getLineColor: (d) => [220, 30, 30, (d.matches[0]?.score ?? 0) >= 0.6 ? 230 : 130] as [number, number, number, number],
+      radiusMinPixels: 9,
+      radiusMaxPixels: 18,
+      stroked: true,
+      lineWidthMinPixels: 2,
+      pickable: true,
+    });
+  }
+
   private createCableAdvisoriesLayer(advisories: CableAdvisory[]): ScatterplotLayer {
     // Cable fault/maintenance advisories
     return new ScatterplotLayer({
@@ -1809,6 +1892,94 @@ export class DeckGLMap {
     });
   }
 
+  private createFlightTrailLayers(trail: FlightTrail): Layer[] {
+    const last = trail.points[trail.points.length - 1]!;
+    return [
+      new ScatterplotLayer({
+        id: 'flight-trail-patterns-layer',
+        data: trail.patterns,
+        getPosition: (d) => [d.lon, d.lat],
+        getRadius: (d) => Math.max(d.radiusKm, 10) * 1000,
+        filled: false,
+        stroked: true,
+        getLineColor: [255, 200, 60, 200] as [number, number, number, number],
+        lineWidthMinPixels: 1.5,
+        pickable: true,
+      }),
+      new PathLayer({
+        id: 'flight-trail-layer',
+        data: splitSorties(trail.points).filter(s => s.length > 1),
+        getPath: (d: TrackPoint[]) => d.map(p => [p[2], p[1]] as [number, number]),
+        getColor: [120, 190, 255, 220] as [number, number, number, number],
+        getWidth: 2,
+        widthMinPixels: 2,
+        wrapLongitude: true,
+        pickable: false,
+      }),
+      new ScatterplotLayer({
+        id: 'flight-trail-head-layer',
+        data: [{ trail, point: last }],
+        getPosition: (d) => [d.point[2], d.point[1]],
+        getRadius: 9000,
+        getFillColor: [255, 255, 255, 240] as [number, number, number, number],
+        getLineColor: [120, 190, 255, 255] as [number, number, number, number],
+        stroked: true,
+        lineWidthMinPixels: 2,
+        radiusMinPixels: 5,
+        radiusMaxPixels: 12,
+        pickable: true,
+      }),
+    ];
+  }
+
+  private createSupplyRouteLayers(highlight: SupplyRouteHighlight): Layer[] {
+    const levelColor: Record<RouteRiskLevel, [number, number, number, number]> = {
+      critical: [255, 60, 60, 230],
+      high: [255, 150, 40, 230],
+      moderate: [255, 215, 60, 220],
+      low: [80, 220, 140, 220],
+    };
+    const alternative: [number, number, number, number] = getCurrentTheme() === 'light' ? [90, 110, 140, 140] : [170, 190, 220, 110];
+    const segments = highlight.routes.flatMap(route => route.path.slice(1).map((target, i) => ({
+      source: route.path[i]!,
+      target,
+      selected: route.id === highlight.selectedId,
+      color: route.id === highlight.selectedId ? levelColor[route.level] : alternative,
+    })));
+    // Selected route last so it draws over the alternatives.
+    segments.sort((a, b) => Number(a.selected) - Number(b.selected));
+    const selected = highlight.routes.find(r => r.id === highlight.selectedId);
+
+    return [
+      new ArcLayer<(typeof segments)[number]>({
+        id: 'supply-route-layer',
+        data: segments,
+        getSourcePosition: (d) => d.source,
+        getTargetPosition: (d) => d.target,
+        getSourceColor: (d) => d.color,
+        getTargetColor: (d) => d.color,
+        getWidth: (d) => d.selected ? 4 : 2,
+        widthMinPixels: 1,
+        widthMaxPixels: 8,
+        greatCircle: true,
+        pickable: false,
+      }),
+      new ScatterplotLayer<RouteWaypoint>({
+        id: 'supply-route-waypoints-layer',
+        data: selected?.waypoints ?? [],
+        getPosition: (d) => [d.lon, d.lat],
+        getRadius: 40000,
+        getFillColor: (d) => d.score === null ? alternative : levelColor[riskLevel(d.score)],
+        getLineColor: [255, 255, 255, 230] as [number, number, number, number],
+        stroked: true,
+        lineWidthMinPixels: 1.5,
+        radiusMinPixels: 5,
+        radiusMaxPixels: 14,
+        pickable: false,
+      }),
+    ];
+  }
+
   private createWaterwaysLayer(): ScatterplotLayer {
     return new ScatterplotLayer({
       id: 'waterways-layer',
@@ -2592,6 +2763,10 @@ export class DeckGLMap {
     const obj = info.object as any;
     const text = (value: unknown): string => escapeHtml(String(value ?? ''));
 
+    if (layerId.startsWith('custom-layer-')) {
+      return obj.properties?.geometry ? this.getCustomLayerTooltip(obj.properties) : null;
+    }
+
     switch (layerId) {
       case 'hotspots-layer':
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.name)}</strong><br/>${text(obj.subtext)}</div>` };
@@ -2603,6 +2778,10 @@ export class DeckGLMap {
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.callsign || obj.registration || t('components.deckgl.tooltip.militaryAircraft'))}</strong><br/>${text(obj.type)}</div>` };
       case 'military-vessel-clusters-layer':
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.name || t('components.deckgl.tooltip.vesselCluster'))}</strong><br/>${obj.vesselCount || 0} ${t('components.deckgl.tooltip.vessels')}<br/>${text(obj.activityType)}</div>` };
+      case 'flight-trail-head-layer':
+        return { html: `<div class="deckgl-tooltip"><strong>${text(obj.trail.label)}</strong><br/>${text(new Date(obj.point[0]).toLocaleString())} · ${obj.point[3]} ft · ${obj.point[5]} kt</div>` };
+      case 'flight-trail-patterns-layer':
+        return { html: `<div class="deckgl-tooltip"><strong>${text(t(`components.flightTracks.patterns.${obj.kind}`))}</strong><br/>${text(new Date(obj.start).toLocaleTimeString())}–${text(new Date(obj.end).toLocaleTimeString())} · ${obj.radiusKm} km</div>` };
       case 'military-flight-clusters-layer':
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.name || t('components.deckgl.tooltip.flightCluster'))}</strong><br/>${obj.flightCount || 0} ${t('components.deckgl.tooltip.aircraft')}<br/>${text(obj.activityType)}</div>` };
       case 'protests-layer':
@@ -2696,6 +2875,19 @@ export class DeckGLMap {
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.name)}</strong><br/>${text(obj.mineral)} - ${text(obj.country)}<br/>${text(obj.operator)}</div>` };
       case 'ais-disruptions-layer':
         return { html: `<div class="deckgl-tooltip"><strong>AIS ${text(obj.type || t('components.deckgl.tooltip.disruption'))}</strong><br/>${text(obj.severity)} ${t('popups.severity')}<br/>${text(obj.description)}</div>` };
+      case 'ais-vessel-events-layer': {
+        const status = obj.ongoing ? ` · ${t('components.deckgl.tooltip.vesselEvents.ongoing')}` : '';
+        const sanctioned = [obj.mmsi, obj.otherMmsi]
+          .map((mmsi: string | undefined) => (mmsi ? getSanctionsHit('vessel', mmsi)?.matches[0] : undefined))
+          .find(Boolean);
+        const sanctionsLine = sanctioned ? `<br/>⛔ ${text(describeSanctionsMatch(sanctioned))}` : '';
+        return { html: `<div class="deckgl-tooltip"><strong>${text(t(`components.deckgl.tooltip.vesselEvents.${obj.type}`))}</strong>${status}<br/>${text(obj.description)}${sanctionsLine}<br/><small>${text(new Date(obj.startedAt).toLocaleString())}</small></div>` };
+      }
+      case 'sanctions-hits-layer': {
+        const hit = obj as SanctionsHit;
+        const listings = hit.matches.slice(0, 3).map(m => text(describeSanctionsMatch(m))).join('<br/>');
+        return { html: `<div class="deckgl-tooltip"><strong>⛔ ${text(hit.label)}</strong><br/>${t('components.deckgl.tooltip.sanctionsMatch')}<br/>${listings}</div>` };
+      }
       case 'cable-advisories-layer': {
         const cableName = UNDERSEA_CABLES.find(c => c.id === obj.cableId)?.name || obj.cableId;
         return { html: `<div class="deckgl-tooltip"><strong>${text(cableName)}</strong><br/>${text(obj.severity || t('components.deckgl.tooltip.advisory'))}<br/>${text(obj.description)}</div>` };
@@ -3003,6 +3195,60 @@ export class DeckGLMap {
     });
   }
 
+  private createCustomLayer(layer: CustomLayer): Layer {
+    const { color, opacity, pointRadius, lineWidth } = layer.style;
+    if (layer.wms) {
+      return new WMSLayer({
+        id: `custom-layer-${layer.id}`,
+        data: layer.wms.url,
+        serviceType: 'wms',
+        layers: layer.wms.layers,
+        opacity,
+        onImageLoadError: () => console.warn(`[DeckGLMap] WMS layer "${layer.name}" failed to load`),
+      });
+    }
+    const fill = this.hexToRgba(color, Math.round(opacity * 90));
+    const stroke = this.hexToRgba(color, Math.round(opacity * 255));
+    let data = this.customLayerData.get(layer);
+    if (!data) {
+      data = {
+        type: 'FeatureCollection',
+        features: layer.features.map(f => ({ type: 'Feature', geometry: f.geometry, properties: { ...f, layerName: layer.name, proximityKm: layer.proximityKm } })),
+      } as FeatureCollection<Geometry>;
+      this.customLayerData.set(layer, data);
+    }
+    return new GeoJsonLayer({
+      id: `custom-layer-${layer.id}`,
+      data,
+      pointType: 'circle',
+      filled: true,
+      stroked: true,
+      getFillColor: (f) => (f.geometry.type === 'Point' ? stroke : fill),
+      getLineColor: stroke,
+      getPointRadius: pointRadius,
+      pointRadiusUnits: 'pixels',
+      getLineWidth: lineWidth,
+      lineWidthUnits: 'pixels',
+      pickable: true,
+      updateTriggers: { getFillColor: [color, opacity] },
+    });
+  }
+
+  private getCustomLayerTooltip(props: GisFeature & { layerName: string; proximityKm: number }): { html: string } {
+    const text = (value: unknown): string => escapeHtml(String(value ?? ''));
+    const [lon, lat] = featureAnchor(props);
+    const nearby = getAlertsNearLocation(lat, lon, props.proximityKm);
+    const rows = Object.entries(props.properties)
+      .filter(([, v]) => v !== null && v !== '')
+      .slice(0, 4)
+      .map(([k, v]) => `<br/><span style="opacity:.7">${text(k)}:</span> ${text(v)}`)
+      .join('');
+    const alert = nearby
+      ? `<br/>${t('components.deckgl.customLayers.nearbyAlerts', { score: String(nearby.score), km: String(props.proximityKm) })}`
+      : '';
+    return { html: `<div class="deckgl-tooltip"><strong>${text(props.name)}</strong><br/><span style="opacity:.7">${text(props.layerName)}</span>${rows}${alert}</div>` };
+  }
+
   // Utility methods
   private hexToRgba(hex: string, alpha: number): [number, number, number, number] {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -3235,6 +3481,8 @@ export class DeckGLMap {
       </div>
     `;
 
+    this.customLayerControls = new CustomLayerControls();
+    toggles.querySelector('.toggle-list')?.appendChild(this.customLayerControls.element);
     this.container.appendChild(toggles);
 
     // Bind toggle events
@@ -3609,6 +3857,17 @@ export class DeckGLMap {
     return null;
   }
 
+  /** Visible [west, south, east, north]; null when the whole globe is in view. */
+  public getBounds(): [number, number, number, number] | null {
+    const bounds = this.maplibreMap?.getBounds();
+    if (!bounds) return null;
+    const west = bounds.getWest();
+    const east = bounds.getEast();
+    if (east - west >= 360) return null;
+    const wrap = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+    return [wrap(west), Math.max(-90, bounds.getSouth()), wrap(east), Math.min(90, bounds.getNorth())];
+  }
+
   public setTimeRange(range: TimeRange): void {
     this.state.timeRange = range;
     this.rebuildProtestSupercluster();
@@ -3893,12 +4152,19 @@ export class DeckGLMap {
 
   public setCyberThreats(threats: CyberThreat[]): void {
     this.cyberThreats = threats;
+    this.popup.setCyberThreats(threats);
     this.render();
   }
 
-  public setAisData(disruptions: AisDisruptionEvent[], density: AisDensityZone[]): void {
+  public setAisData(disruptions: AisDisruptionEvent[], density: AisDensityZone[], vesselEvents: AisVesselEvent[] = []): void {
     this.aisDisruptions = disruptions;
     this.aisDensity = density;
+    this.aisVesselEvents = vesselEvents;
+    this.render();
+  }
+
+  public setSanctionsHits(hits: SanctionsHit[]): void {
+    this.sanctionsHits = hits;
     this.render();
   }
 
@@ -3932,6 +4198,16 @@ export class DeckGLMap {
     this.render();
   }
 
+  public setFlightTrail(trail: FlightTrail | null): void {
+    this.flightTrail = trail;
+    this.render();
+  }
+
+  public setSupplyRouteHighlight(highlight: SupplyRouteHighlight | null): void {
+    this.supplyRoute = highlight;
+    this.render();
+  }
+
   public setMilitaryVessels(vessels: MilitaryVessel[], clusters: MilitaryVesselCluster[] = []): void {
     this.militaryVessels = vessels;
     this.militaryVesselClusters = clusters;
@@ -4159,6 +4435,11 @@ export class DeckGLMap {
     this.onStateChange = callback;
   }
 
+  /** Called with getBounds() once the map settles after a pan or zoom. */
+  public setOnViewportChange(callback: (bounds: [number, number, number, number] | null) => void): void {
+    this.onViewportChange = callback;
+  }
+
   public getHotspotLevels(): Record<string, string> {
     const levels: Record<string, string> = {};
     this.hotspots.forEach(h => {
@@ -4563,6 +4844,8 @@ export class DeckGLMap {
     }
 
     this.stopPulseAnimation();
+    this.unsubscribeCustomLayers();
+    this.customLayerControls?.destroy();
 
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
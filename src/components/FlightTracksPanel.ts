@@ -0,0 +1,281 @@
+import { Panel } from './Panel';
+import { t } from '@/services/i18n';
+import { formatTime } from '@/utils';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  analyzeFlightTrack,
+  attachAircraftDetails,
+  getFlightTracks,
+  onFlightTracks,
+  pointsUntil,
+  splitSorties,
+  trackLabel,
+  type AircraftTrack,
+  type FlightTrail,
+  type TrackAircraftDetails,
+} from '@/services/flight-tracks';
+
+const MAX_LISTED = 60;
+const REPLAY_STEP_MS = 250;
+
+function formatClock(time: number): string {
+  return new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function formatSpan(start: number, end: number): string {
+  const minutes = Math.max(1, Math.round((end - start) / 60000));
+  return minutes < 120 ? `${minutes} min` : `${(minutes / 60).toFixed(1)} h`;
+}
+
+/**
+ * Stored military flight tracks. Lists tracked airframes with their detected
+ * orbits, racetracks and loiter boxes, flags airframes outside their usual
+ * area, and replays a selected track on the map.
+ */
+export class FlightTracksPanel extends Panel {
+  private tracks: AircraftTrack[] = [];
+  private selectedHex: string | null = null;
+  private replayIndex = 0;
+  private replayTimer: ReturnType<typeof setInterval> | null = null;
+  private filter = '';
+  private listEl: HTMLElement;
+  private onTrail?: (trail: FlightTrail | null) => void;
+  private onLocationClick?: (lat: number, lon: number) => void;
+  private unsubscribe: () => void;
+
+  constructor() {
+    super({
+      id: 'flight-tracks',
+      title: t('panels.flightTracks'),
+      infoTooltip: t('components.flightTracks.infoTooltip'),
+    });
+    this.listEl = h('div', { className: 'flight-tracks-body' });
+    replaceChildren(this.content, this.listEl);
+    this.unsubscribe = onFlightTracks(() => void this.refresh());
+    void this.refresh();
+  }
+
+  public setTrailHandler(handler: (trail: FlightTrail | null) => void): void {
+    this.onTrail = handler;
+  }
+
+  public setLocationClickHandler(handler: (lat: number, lon: number) => void): void {
+    this.onLocationClick = handler;
+  }
+
+  private async refresh(): Promise<void> {
+    this.tracks = await getFlightTracks();
+    this.setCount(this.tracks.length);
+    const selected = this.selected();
+    // Keep an active replay where it is; otherwise follow the newest point.
+    if (selected && !this.replayTimer) this.replayIndex = selected.points.length;
+    this.render();
+    if (selected && !this.replayTimer) this.showTrail(selected);
+  }
+
+  private selected(): AircraftTrack | undefined {
+    return this.selectedHex ? this.tracks.find(tr => tr.hex === this.selectedHex) : undefined;
+  }
+
+  private select(hex: string | null): void {
+    this.stopReplay();
+    this.selectedHex = hex;
+    const track = this.selected();
+    this.replayIndex = track?.points.length ?? 0;
+    this.render();
+    if (!track) {
+      this.onTrail?.(null);
+      return;
+    }
+    this.showTrail(track);
+    const last = track.points[track.points.length - 1];
+    if (last) this.onLocationClick?.(last[1], last[2]);
+    void attachAircraftDetails(track.hex);
+  }
+
+  private showTrail(track: AircraftTrack): void {
+    const until = track.points[Math.max(0, this.replayIndex - 1)]?.[0] ?? track.lastSeen;
+    this.onTrail?.({
+      hex: track.hex,
+      label: trackLabel(track),
+      points: pointsUntil(track.points, until),
+      patterns: analyzeFlightTrack(track).patterns.filter(p => p.start <= until),
+    });
+  }
+
+  private toggleReplay(): void {
+    const track = this.selected();
+    if (!track) return;
+    if (this.replayTimer) {
+      this.stopReplay();
+      this.render();
+      return;
+    }
+    if (this.replayIndex >= track.points.length) this.replayIndex = 1;
+    this.replayTimer = setInterval(() => {
+      const current = this.selected();
+      if (!current || this.replayIndex >= current.points.length) {
+        this.stopReplay();
+        this.render();
+        return;
+      }
+      this.replayIndex++;
+      this.showTrail(current);
+      this.updateReplayControls(current);
+    }, REPLAY_STEP_MS);
+    this.render();
+  }
+
+  private stopReplay(): void {
+    if (this.replayTimer) clearInterval(this.replayTimer);
+    this.replayTimer = null;
+  }
+
+  private updateReplayControls(track: AircraftTrack): void {
+    const slider = this.listEl.querySelector<HTMLInputElement>('.flight-track-slider');
+    const label = this.listEl.querySelector<HTMLElement>('.flight-track-replay-time');
+    if (slider) slider.value = String(this.replayIndex);
+    const point = track.points[this.replayIndex - 1];
+    if (label && point) label.textContent = `${formatClock(point[0])} · ${point[3].toLocaleString()} ft · ${point[5]} kt`;
+  }
+
+  private renderDetails(details: TrackAircraftDetails | undefined): HTMLElement {
+    const rows: Array<[string, string | undefined]> = [
+      [t('components.flightTracks.registration'), details?.registration],
+      [t('components.flightTracks.model'), [details?.manufacturer, details?.model, details?.typeCode ? `(${details.typeCode})` : ''].filter(Boolean).join(' ')],
+      [t('components.flightTracks.owner'), details?.owner],
+      [t('components.flightTracks.operator'), details?.operatorName],
+      [t('components.flightTracks.branch'), details?.militaryBranch],
+      [t('components.flightTracks.built'), details?.builtYear],
+    ];
+    const known = rows.filter(([, value]) => value);
+    if (known.length === 0) return h('p', { className: 'flight-track-muted' }, t('components.flightTracks.noDetails'));
+    return h('dl', { className: 'flight-track-details' },
+      ...known.flatMap(([label, value]) => [h('dt', null, label), h('dd', null, value!)]),
+    );
+  }
+
+  private renderTrack(track: AircraftTrack): HTMLElement {
+    const { patterns, area, deviation } = analyzeFlightTrack(track);
+    const sorties = splitSorties(track.points).length;
+    const point = track.points[this.replayIndex - 1];
+
+    const slider = h('input', {
+      type: 'range',
+      className: 'flight-track-slider',
+      min: '1',
+      max: String(track.points.length),
+      value: String(this.replayIndex),
+      onInput: (e: Event) => {
+        this.stopReplay();
+        this.replayIndex = Number((e.target as HTMLInputElement).value);
+        this.showTrail(track);
+        this.updateReplayControls(track);
+      },
+    });
+
+    return h('div', { className: 'flight-track-detail' },
+      h('div', { className: 'flight-track-detail-header' },
+        h('button', { type: 'button', className: 'flight-track-back', onClick: () => this.select(null) }, `← ${t('components.flightTracks.back')}`),
+        h('strong', null, trackLabel(track)),
+        h('span', { className: 'flight-track-hex' }, track.hex),
+      ),
+      h('div', { className: 'flight-track-meta' },
+        [track.aircraftType, track.operatorCountry, track.callsigns.slice(1).length ? t('components.flightTracks.alsoAs', { callsigns: track.callsigns.slice(1).join(', ') }) : '']
+          .filter(Boolean).join(' · '),
+      ),
+      deviation
+        ? h('div', { className: 'flight-track-deviation' },
+          t('components.flightTracks.deviation', { km: String(deviation.distanceKm), days: String(deviation.area.days) }))
+        : null,
+      this.renderDetails(track.details),
+      h('div', { className: 'flight-track-replay' },
+        h('button', { type: 'button', className: 'flight-track-play', onClick: () => this.toggleReplay() },
+          this.replayTimer ? `⏸ ${t('components.flightTracks.pause')}` : `▶ ${t('components.flightTracks.replay')}`),
+        slider,
+        h('span', { className: 'flight-track-replay-time' },
+          point ? `${formatClock(point[0])} · ${point[3].toLocaleString()} ft · ${point[5]} kt` : ''),
+      ),
+      h('div', { className: 'flight-track-stats' },
+        t('components.flightTracks.stats', {
+          points: String(track.points.length),
+          sorties: String(sorties),
+          span: formatSpan(track.firstSeen, track.lastSeen),
+        }),
+        area ? ` · ${t('components.flightTracks.usualArea', { radius: String(area.radiusKm), days: String(area.days) })}` : '',
+      ),
+      h('div', { className: 'flight-track-section' }, t('components.flightTracks.patternsTitle')),
+      patterns.length === 0
+        ? h('p', { className: 'flight-track-muted' }, t('components.flightTracks.noPatterns'))
+        : h('ul', { className: 'flight-track-patterns' },
+          ...patterns.slice().reverse().map(p => h('li', null,
+            h('button', {
+              type: 'button',
+              className: `flight-track-pattern flight-track-pattern-${p.kind}`,
+              onClick: () => this.onLocationClick?.(p.lat, p.lon),
+            }, t(`components.flightTracks.patterns.${p.kind}`)),
+            h('span', { className: 'flight-track-muted' },
+              ` ${formatClock(p.start)} · ${formatSpan(p.start, p.end)} · ${p.kind === 'racetrack'
+                ? t('components.flightTracks.leg', { km: String(p.lengthKm), axis: String(p.axisDeg) })
+                : t('components.flightTracks.radius', { km: String(p.radiusKm) })}`),
+          ))),
+    );
+  }
+
+  private renderList(): HTMLElement {
+    const query = this.filter.trim().toLowerCase();
+    const matches = this.tracks.filter(tr => !query
+      || tr.hex.toLowerCase().includes(query)
+      || tr.aircraftType.includes(query)
+      || tr.operatorCountry.toLowerCase().includes(query)
+      || tr.callsigns.some(c => c.toLowerCase().includes(query)));
+    // Airframes outside their usual area first, then those with patterns, then by recency.
+    const ranked = matches
+      .map(track => ({ track, analysis: analyzeFlightTrack(track) }))
+      .sort((a, b) => Number(!!b.analysis.deviation) - Number(!!a.analysis.deviation)
+        || Number(b.analysis.patterns.length > 0) - Number(a.analysis.patterns.length > 0)
+        || b.track.lastSeen - a.track.lastSeen)
+      .slice(0, MAX_LISTED);
+
+    const input = h('input', {
+      type: 'search',
+      className: 'flight-tracks-filter',
+      placeholder: t('components.flightTracks.filter'),
+      value: this.filter,
+      onInput: (e: Event) => {
+        this.filter = (e.target as HTMLInputElement).value;
+        const list = this.listEl.querySelector('.flight-tracks-list');
+        list?.replaceWith(this.renderList().querySelector('.flight-tracks-list')!);
+      },
+    });
+
+    return h('div', null,
+      input,
+      ranked.length === 0
+        ? h('p', { className: 'flight-tracks-list flight-track-muted' },
+          t(this.tracks.length === 0 ? 'components.flightTracks.empty' : 'components.flightTracks.noMatches'))
+        : h('ul', { className: 'flight-tracks-list' },
+          ...ranked.map(({ track, analysis }) => h('li', null,
+            h('button', { type: 'button', className: 'flight-track-row', onClick: () => this.select(track.hex) },
+              h('span', { className: 'flight-track-label' }, trackLabel(track)),
+              h('span', { className: 'flight-track-type' }, track.aircraftType),
+              analysis.deviation ? h('span', { className: 'flight-track-badge flight-track-badge-deviation' }, t('components.flightTracks.outOfArea')) : null,
+              ...[...new Set(analysis.patterns.map(p => p.kind))].map(kind =>
+                h('span', { className: `flight-track-badge flight-track-pattern-${kind}` }, t(`components.flightTracks.patterns.${kind}`))),
+              h('span', { className: 'flight-track-seen' }, formatTime(new Date(track.lastSeen))),
+            ),
+          ))),
+    );
+  }
+
+  private render(): void {
+    const track = this.selected();
+    replaceChildren(this.listEl, track ? this.renderTrack(track) : this.renderList());
+  }
+
+  public override destroy(): void {
+    this.stopReplay();
+    this.unsubscribe();
+    super.destroy();
+  }
+}
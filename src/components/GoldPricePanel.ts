@@ -8,19 +8,28 @@ import { Panel } from './Panel';
 import * as d3 from 'd3';
 import { getAIGoldData, type GoldData } from '@/services/energy-gold-ai-data';
 import { replaceChildren } from '@/utils/dom-utils';
+import { t } from '@/services/i18n';
+import { fetchPriceHistory } from '@/services/market';
+import { PriceRowCharts } from './PriceHistoryChart';
 
 const SPARK_MARGIN = { top: 4, right: 8, bottom: 4, left: 8 };
 const SPARK_HEIGHT = 50;
 const RESIZE_DEBOUNCE_MS = 200;
+const GOLD_SYMBOL = 'GC=F';
+const TREND_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
 
 export class GoldPricePanel extends Panel {
   private data: GoldData | null = null;
   private refreshTimer: ReturnType<typeof setInterval> | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private resizeDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Hourly GC=F closes for the last week; preferred over the AI trend estimate. */
+  private futuresTrend: number[] | null = null;
+  private charts: PriceRowCharts;
 
   constructor() {
     super({ id: 'gold-price', title: 'Gold Price' });
+    this.charts = new PriceRowCharts(this.content);
     this.setupResizeObserver();
     void this.loadData();
     this.refreshTimer = setInterval(() => this.loadData(), 10 * 60 * 1000);
@@ -30,12 +39,14 @@ export class GoldPricePanel extends Panel {
     if (this.refreshTimer) { clearInterval(this.refreshTimer); this.refreshTimer = null; }
     if (this.resizeObserver) { this.resizeObserver.disconnect(); this.resizeObserver = null; }
     if (this.resizeDebounceTimer) { clearTimeout(this.resizeDebounceTimer); this.resizeDebounceTimer = null; }
+    this.charts.destroy();
     super.destroy();
   }
 
   private async loadData(): Promise<void> {
     if (!this.data) this.showLoading();
 
+    void this.loadFuturesTrend();
     try {
       const data = await getAIGoldData();
       if (data) {
@@ -50,6 +61,16 @@ export class GoldPricePanel extends Panel {
     }
   }
 
+  private async loadFuturesTrend(): Promise<void> {
+    const history = await fetchPriceHistory(GOLD_SYMBOL, '1h', 'commodity');
+    const last = history.candles[history.candles.length - 1];
+    if (!last) return;
+    const trend = history.candles.filter(c => c.timestamp >= last.timestamp - TREND_WINDOW_MS).map(c => c.close);
+    if (trend.length < 2) return;
+    this.futuresTrend = trend;
+    this.render();
+  }
+
   private render(): void {
     if (!this.data) return;
     const d = this.data;
@@ -62,6 +83,10 @@ export class GoldPricePanel extends Panel {
 
     // Price header
     const priceSection = document.createElement('div');
+    priceSection.className = 'price-row';
+    priceSection.dataset.priceSymbol = GOLD_SYMBOL;
+    priceSection.dataset.priceClass = 'commodity';
+    priceSection.title = t('components.priceHistory.expand');
     Object.assign(priceSection.style, {
       display: 'flex',
       alignItems: 'baseline',
@@ -96,11 +121,12 @@ export class GoldPricePanel extends Panel {
     this.content.appendChild(priceSection);
 
     // D3 sparkline
-    if (d.trend && d.trend.length > 1) {
+    const trend = this.futuresTrend ?? d.trend;
+    if (trend && trend.length > 1) {
       const chartDiv = document.createElement('div');
       Object.assign(chartDiv.style, { padding: '0 4px' });
       this.content.appendChild(chartDiv);
-      this.renderSparkline(chartDiv, d.trend);
+      this.renderSparkline(chartDiv, trend);
     }
 
     // Secondary metals grid
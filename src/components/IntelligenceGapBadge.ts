@@ -415,6 +415,11 @@ export class IntelligenceFindingsBadge {
       triangulation: '🔺',
       flow_drop: '⬇️',
       sector_cascade: '🌊',
+      cii_shift: '📉',
+      geofence_hit: '📍',
+      airframe_deviation: '🛩️',
+      vessel_anomaly: '🚢',
+      sanctions_match: '⛔',
       // Unified alerts
       cii_spike: '🔴',
       cascade: '⚡',
@@ -3,6 +3,9 @@
  * Renders DeckGLMap (WebGL) on desktop, fallback to D3/SVG MapComponent on mobile
  */
 import { isMobileDevice } from '@/utils';
+import { buildMapExportLayers, featureInBounds, type GisLayer } from '@/utils/gis-export';
+import { getCustomExportLayers } from '@/services/custom-layers';
+import { CONFLICT_ZONES } from '@/config';
 import { MapComponent } from './Map';
 import { DeckGLMap, type DeckMapView, type CountryClickPayload } from './DeckGLMap';
 import type {
@@ -13,6 +16,7 @@ import type {
   RelatedAsset,
   AssetType,
   AisDisruptionEvent,
+  AisVesselEvent,
   AisDensityZone,
   CableAdvisory,
   RepairShip,
@@ -36,6 +40,9 @@ import type { KindnessPoint } from '@/services/kindness-data';
 import type { HappinessData } from '@/services/happiness-data';
 import type { SpeciesRecovery } from '@/services/conservation-data';
 import type { RenewableInstallation } from '@/services/renewable-installations';
+import type { FlightTrail } from '@/services/flight-tracks/analysis';
+import type { SupplyRouteHighlight } from '@/services/supply-chain/route-risk';
+import type { SanctionsHit } from '@/services/sanctions';
 
 export type TimeRange = '1h' | '6h' | '24h' | '48h' | '7d' | 'all';
 export type MapView = 'global' | 'america' | 'mena' | 'eu' | 'asia' | 'latam' | 'africa' | 'oceania';
@@ -48,6 +55,41 @@ export interface MapContainerState {
   timeRange: TimeRange;
 }
 
+type FireDetection = { lat: number; lon: number; brightness: number; frp: number; confidence: number; region: string; acq_date: string; daynight: string };
+type NewsLocation = { lat: number; lon: number; title: string; threatLevel: string; timestamp?: Date };
+
+const TIME_RANGE_MS: Record<TimeRange, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '48h': 48 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  'all': Infinity,
+};
+
+type LayerDataListener = <K extends keyof MapLayerData>(layer: K, data: MapLayerData[K]) => void;
+
+/** Last data pushed to each time-varying layer, recorded for historical playback. */
+export interface MapLayerData {
+  earthquakes?: Earthquake[];
+  weatherAlerts?: WeatherAlert[];
+  outages?: InternetOutage[];
+  ais?: { disruptions: AisDisruptionEvent[]; density: AisDensityZone[]; vesselEvents?: AisVesselEvent[] };
+  cableActivity?: { advisories: CableAdvisory[]; repairShips: RepairShip[] };
+  cableHealth?: Record<string, CableHealthRecord>;
+  protests?: SocialUnrestEvent[];
+  flightDelays?: AirportDelayAlert[];
+  militaryFlights?: { flights: MilitaryFlight[]; clusters: MilitaryFlightCluster[] };
+  militaryVessels?: { vessels: MilitaryVessel[]; clusters: MilitaryVesselCluster[] };
+  naturalEvents?: NaturalEvent[];
+  fires?: FireDetection[];
+  ucdpEvents?: UcdpGeoEvent[];
+  displacementFlows?: DisplacementFlow[];
+  climateAnomalies?: ClimateAnomaly[];
+  cyberThreats?: CyberThreat[];
+  newsLocations?: NewsLocation[];
+}
+
 interface TechEventMarker {
   id: string;
   title: string;
@@ -72,6 +114,8 @@ export class MapContainer {
   private svgMap: MapComponent | null = null;
   private initialState: MapContainerState;
   private useDeckGL: boolean;
+  private layerData: MapLayerData = {};
+  private layerDataListeners = new Set<LayerDataListener>();
 
   constructor(container: HTMLElement, initialState: MapContainerState) {
     this.container = container;
@@ -201,6 +245,7 @@ export class MapContainer {
 
   // Data setters
   public setEarthquakes(earthquakes: Earthquake[]): void {
+    this.recordLayer('earthquakes', earthquakes);
     if (this.useDeckGL) {
       this.deckGLMap?.setEarthquakes(earthquakes);
     } else {
@@ -209,6 +254,7 @@ export class MapContainer {
   }
 
   public setWeatherAlerts(alerts: WeatherAlert[]): void {
+    this.recordLayer('weatherAlerts', alerts);
     if (this.useDeckGL) {
       this.deckGLMap?.setWeatherAlerts(alerts);
     } else {
@@ -217,6 +263,7 @@ export class MapContainer {
   }
 
   public setOutages(outages: InternetOutage[]): void {
+    this.recordLayer('outages', outages);
     if (this.useDeckGL) {
       this.deckGLMap?.setOutages(outages);
     } else {
@@ -224,15 +271,18 @@ export class MapContainer {
     }
   }
 
-  public setAisData(disruptions: AisDisruptionEvent[], density: AisDensityZone[]): void {
+  public setAisData(disruptions: AisDisruptionEvent[], density: AisDensityZone[], vesselEvents: AisVesselEvent[] = []): void {
+    this.recordLayer('ais', { disruptions, density, vesselEvents });
     if (this.useDeckGL) {
-      this.deckGLMap?.setAisData(disruptions, density);
+      this.deckGLMap?.setAisData(disruptions, density, vesselEvents);
     } else {
+      // SVG map shows disruptions and density only
       this.svgMap?.setAisData(disruptions, density);
     }
   }
 
   public setCableActivity(advisories: CableAdvisory[], repairShips: RepairShip[]): void {
+    this.recordLayer('cableActivity', { advisories, repairShips });
     if (this.useDeckGL) {
       this.deckGLMap?.setCableActivity(advisories, repairShips);
     } else {
@@ -241,6 +291,7 @@ export class MapContainer {
   }
 
   public setCableHealth(healthMap: Record<string, CableHealthRecord>): void {
+    this.recordLayer('cableHealth', healthMap);
     if (this.useDeckGL) {
       this.deckGLMap?.setCableHealth(healthMap);
     } else {
@@ -249,6 +300,7 @@ export class MapContainer {
   }
 
   public setProtests(events: SocialUnrestEvent[]): void {
+    this.recordLayer('protests', events);
     if (this.useDeckGL) {
       this.deckGLMap?.setProtests(events);
     } else {
@@ -257,6 +309,7 @@ export class MapContainer {
   }
 
   public setFlightDelays(delays: AirportDelayAlert[]): void {
+    this.recordLayer('flightDelays', delays);
     if (this.useDeckGL) {
       this.deckGLMap?.setFlightDelays(delays);
     } else {
@@ -265,6 +318,7 @@ export class MapContainer {
   }
 
   public setMilitaryFlights(flights: MilitaryFlight[], clusters: MilitaryFlightCluster[] = []): void {
+    this.recordLayer('militaryFlights', { flights, clusters });
     if (this.useDeckGL) {
       this.deckGLMap?.setMilitaryFlights(flights, clusters);
     } else {
@@ -272,7 +326,28 @@ export class MapContainer {
     }
   }
 
+  public setFlightTrail(trail: FlightTrail | null): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setFlightTrail(trail);
+    }
+    // SVG map draws the short live trails on military flights instead
+  }
+
+  public setSupplyRouteHighlight(highlight: SupplyRouteHighlight | null): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setSupplyRouteHighlight(highlight);
+    }
+  }
+
+  public setSanctionsHits(hits: SanctionsHit[]): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setSanctionsHits(hits);
+    }
+    // SVG map shades sanctioned countries only
+  }
+
   public setMilitaryVessels(vessels: MilitaryVessel[], clusters: MilitaryVesselCluster[] = []): void {
+    this.recordLayer('militaryVessels', { vessels, clusters });
     if (this.useDeckGL) {
       this.deckGLMap?.setMilitaryVessels(vessels, clusters);
     } else {
@@ -281,6 +356,7 @@ export class MapContainer {
   }
 
   public setNaturalEvents(events: NaturalEvent[]): void {
+    this.recordLayer('naturalEvents', events);
     if (this.useDeckGL) {
       this.deckGLMap?.setNaturalEvents(events);
     } else {
@@ -288,7 +364,8 @@ export class MapContainer {
     }
   }
 
-  public setFires(fires: Array<{ lat: number; lon: number; brightness: number; frp: number; confidence: number; region: string; acq_date: string; daynight: string }>): void {
+  public setFires(fires: FireDetection[]): void {
+    this.recordLayer('fires', fires);
     if (this.useDeckGL) {
       this.deckGLMap?.setFires(fires);
     } else {
@@ -305,18 +382,21 @@ export class MapContainer {
   }
 
   public setUcdpEvents(events: UcdpGeoEvent[]): void {
+    this.recordLayer('ucdpEvents', events);
     if (this.useDeckGL) {
       this.deckGLMap?.setUcdpEvents(events);
     }
   }
 
   public setDisplacementFlows(flows: DisplacementFlow[]): void {
+    this.recordLayer('displacementFlows', flows);
     if (this.useDeckGL) {
       this.deckGLMap?.setDisplacementFlows(flows);
     }
   }
 
   public setClimateAnomalies(anomalies: ClimateAnomaly[]): void {
+    this.recordLayer('climateAnomalies', anomalies);
     if (this.useDeckGL) {
       this.deckGLMap?.setClimateAnomalies(anomalies);
     }
@@ -335,6 +415,7 @@ export class MapContainer {
   }
 
   public setCyberThreats(threats: CyberThreat[]): void {
+    this.recordLayer('cyberThreats', threats);
     if (this.useDeckGL) {
       this.deckGLMap?.setCyberThreats(threats);
     } else {
@@ -342,7 +423,8 @@ export class MapContainer {
     }
   }
 
-  public setNewsLocations(data: Array<{ lat: number; lon: number; title: string; threatLevel: string; timestamp?: Date }>): void {
+  public setNewsLocations(data: NewsLocation[]): void {
+    this.recordLayer('newsLocations', data);
     if (this.useDeckGL) {
       this.deckGLMap?.setNewsLocations(data);
     } else {
@@ -385,6 +467,62 @@ export class MapContainer {
     // SVG map does not support renewable installations layer
   }
 
+  /** Snapshot of the data currently shown on time-varying layers. */
+  private recordLayer<K extends keyof MapLayerData>(layer: K, data: MapLayerData[K]): void {
+    this.layerData[layer] = data;
+    for (const listener of this.layerDataListeners) listener(layer, data);
+  }
+
+  /** Subscribe to layer data updates (also fired on playback restore). Returns an unsubscribe function. */
+  public onLayerData(listener: LayerDataListener): () => void {
+    this.layerDataListeners.add(listener);
+    return () => this.layerDataListeners.delete(listener);
+  }
+
+  public getLayerData(): MapLayerData {
+    return { ...this.layerData };
+  }
+
+  /** Active layers as GIS features, limited to the current time range and (on the WebGL map) the viewport. */
+  public getExportLayers(): GisLayer[] {
+    const state = this.getState();
+    const rangeMs = TIME_RANGE_MS[state.timeRange];
+    const bounds = this.getBounds();
+    const custom = getCustomExportLayers()
+      .map(layer => ({ ...layer, features: bounds ? layer.features.filter(f => featureInBounds(f, bounds)) : layer.features }))
+      .filter(layer => layer.features.length > 0);
+    return [
+      ...buildMapExportLayers(this.layerData, {
+        layers: state.layers,
+        conflictZones: CONFLICT_ZONES,
+        cutoff: Number.isFinite(rangeMs) ? Date.now() - rangeMs : null,
+        bounds,
+      }),
+      ...custom,
+    ];
+  }
+
+  /** Replace every time-varying layer with recorded data; layers missing from it are cleared. */
+  public restoreLayerData(data: MapLayerData): void {
+    this.setEarthquakes(data.earthquakes ?? []);
+    this.setWeatherAlerts(data.weatherAlerts ?? []);
+    this.setOutages(data.outages ?? []);
+    this.setAisData(data.ais?.disruptions ?? [], data.ais?.density ?? [], data.ais?.vesselEvents ?? []);
+    this.setCableActivity(data.cableActivity?.advisories ?? [], data.cableActivity?.repairShips ?? []);
+    this.setCableHealth(data.cableHealth ?? {});
+    this.setProtests(data.protests ?? []);
+    this.setFlightDelays(data.flightDelays ?? []);
+    this.setMilitaryFlights(data.militaryFlights?.flights ?? [], data.militaryFlights?.clusters ?? []);
+    this.setMilitaryVessels(data.militaryVessels?.vessels ?? [], data.militaryVessels?.clusters ?? []);
+    this.setNaturalEvents(data.naturalEvents ?? []);
+    this.setFires(data.fires ?? []);
+    this.setUcdpEvents(data.ucdpEvents ?? []);
+    this.setDisplacementFlows(data.displacementFlows ?? []);
+    this.setClimateAnomalies(data.climateAnomalies ?? []);
+    this.setCyberThreats(data.cyberThreats ?? []);
+    this.setNewsLocations(data.newsLocations ?? []);
+  }
+
   public updateHotspotActivity(news: NewsItem[]): void {
     if (this.useDeckGL) {
       this.deckGLMap?.updateHotspotActivity(news);
@@ -451,6 +589,18 @@ export class MapContainer {
     }
   }
 
+  /** Visible [west, south, east, north] on the WebGL map; null for the SVG map or a whole-globe view. */
+  public getBounds(): [number, number, number, number] | null {
+    return this.useDeckGL ? this.deckGLMap?.getBounds() ?? null : null;
+  }
+
+  /** Viewport changes after a pan or zoom settles. The SVG map has a fixed projection and never fires. */
+  public onViewportChanged(callback: (bounds: [number, number, number, number] | null) => void): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setOnViewportChange(callback);
+    }
+  }
+
   public getHotspotLevels(): Record<string, string> {
     if (this.useDeckGL) {
       return this.deckGLMap?.getHotspotLevels() ?? {};
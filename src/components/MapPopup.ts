@@ -13,6 +13,9 @@ import { fetchHotspotContext, formatArticleDate, extractDomain, type GdeltArticl
 import { getNaturalEventIcon } from '@/services/eonet';
 import { getHotspotEscalation, getEscalationChange24h } from '@/services/hotspot-escalation';
 import { getCableHealthRecord } from '@/services/cable-health';
+import { describeSanctionsMatch, getSanctionsHit, type SanctionsHit } from '@/services/sanctions';
+import { attributeThreat, findRelatedIndicators, toStixBundle, type PivotRelation } from '@/services/cyber';
+import { exportStixBundle } from '@/utils/export';
 
 export type PopupType = 'conflict' | 'hotspot' | 'earthquake' | 'weather' | 'base' | 'waterway' | 'apt' | 'cyberThreat' | 'nuclear' | 'economic' | 'irradiator' | 'pipeline' | 'cable' | 'cable-advisory' | 'repair-ship' | 'outage' | 'datacenter' | 'datacenterCluster' | 'ais' | 'protest' | 'protestCluster' | 'flight' | 'militaryFlight' | 'militaryVessel' | 'militaryFlightCluster' | 'militaryVesselCluster' | 'natEvent' | 'port' | 'spaceport' | 'mineral' | 'startupHub' | 'cloudRegion' | 'techHQ' | 'accelerator' | 'techEvent' | 'techHQCluster' | 'techEventCluster' | 'techActivity' | 'geoActivity' | 'stockExchange' | 'financialCenter' | 'centralBank' | 'commodityHub';
 
@@ -132,6 +135,8 @@ export class MapPopup {
   private onClose?: () => void;
   private cableAdvisories: CableAdvisory[] = [];
   private repairShips: RepairShip[] = [];
+  private cyberThreats: CyberThreat[] = [];
+  private onCountryLink?: (code: string, name: string, lat: number, lon: number) => void;
   private isMobileSheet = false;
   private sheetTouchStartY: number | null = null;
   private sheetCurrentOffset = 0;
@@ -171,6 +176,7 @@ export class MapPopup {
     // Close button handler
     this.popup.querySelector('.popup-close')?.addEventListener('click', () => this.hide());
     this.popup.querySelector('.map-popup-sheet-handle')?.addEventListener('click', () => this.hide());
+    if (data.type === 'cyberThreat') this.bindCyberThreatActions(data);
 
     if (this.isMobileSheet) {
       this.popup.addEventListener('touchstart', this.handleSheetTouchStart, { passive: true });
@@ -344,6 +350,16 @@ export class MapPopup {
     this.repairShips = repairShips;
   }
 
+  /** The loaded cyber layer, which threat popups pivot over and export. */
+  public setCyberThreats(threats: CyberThreat[]): void {
+    this.cyberThreats = threats;
+  }
+
+  /** Opens a country brief from an APT attribution's sponsor link. */
+  public setOnCountryLink(callback: (code: string, name: string, lat: number, lon: number) => void): void {
+    this.onCountryLink = callback;
+  }
+
   private renderContent(data: PopupData): string {
     switch (data.type) {
       case 'conflict':
@@ -1132,6 +1148,10 @@ export class MapPopup {
             <span class="stat-label">${t('popups.malware')}</span>
             <span class="stat-value">${escapeHtml(threat.malwareFamily)}</span>
           </div>` : ''}
+          ${threat.asn ? `<div class="popup-stat">
+            <span class="stat-label">${t('popups.cyberThreat.asn')}</span>
+            <span class="stat-value">${escapeHtml(threat.asName ? `${threat.asn} · ${threat.asName}` : threat.asn)}</span>
+          </div>` : ''}
           <div class="popup-stat">
             <span class="stat-label">${t('popups.lastSeen')}</span>
             <span class="stat-value">${escapeHtml(threat.lastSeen ? new Date(threat.lastSeen).toLocaleString() : t('popups.unknown'))}</span>
@@ -1141,10 +1161,86 @@ export class MapPopup {
         <div class="popup-tags">
           ${tags.map((tag) => `<span class="popup-tag">${escapeHtml(tag)}</span>`).join('')}
         </div>` : ''}
+        ${this.renderCyberAttribution(threat)}
+        ${this.renderCyberPivot(threat)}
+        <div class="cyber-export">
+          <button class="cyber-export-btn" data-stix-export="related">${t('popups.cyberThreat.exportRelated')}</button>
+          <button class="cyber-export-btn" data-stix-export="all">${t('popups.cyberThreat.exportAll', { count: String(Math.max(this.cyberThreats.length, 1)) })}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderCyberAttribution(threat: CyberThreat): string {
+    const attributions = attributeThreat(threat);
+    if (attributions.length === 0) return '';
+    return `
+      <div class="cyber-pivot">
+        <div class="cyber-pivot-header">${t('popups.cyberThreat.attribution')}</div>
+        ${attributions.map(({ group, matchedOn, sponsor }) => `
+          <div class="cyber-attribution">
+            <span class="cyber-attribution-group">${escapeHtml(group.name)} <span class="cyber-attribution-aka">(${escapeHtml(group.aka)})</span></span>
+            <span class="cyber-attribution-basis">${t(`popups.cyberThreat.matchedOn.${matchedOn}`)}</span>
+            ${sponsor
+              ? `<button class="cyber-country-link" data-country-code="${escapeHtml(sponsor.id)}" data-country-name="${escapeHtml(sponsor.name)}">${escapeHtml(group.sponsor)} →</button>`
+              : `<span class="cyber-attribution-basis">${escapeHtml(group.sponsor)}</span>`}
+          </div>`).join('')}
+      </div>
+    `;
+  }
+
+  private renderCyberPivot(threat: CyberThreat): string {
+    const { related, counts } = findRelatedIndicators(threat, this.cyberThreats);
+    if (related.length === 0) return '';
+    const relationLabel = (relation: PivotRelation) => t(`popups.cyberThreat.relations.${relation}`);
+    const summary = (Object.keys(counts) as PivotRelation[])
+      .filter((relation) => counts[relation] > 0)
+      .map((relation) => `<span class="popup-tag">${relationLabel(relation)} · ${counts[relation]}</span>`)
+      .join('');
+    return `
+      <div class="cyber-pivot">
+        <div class="cyber-pivot-header">${t('popups.cyberThreat.related')}</div>
+        <div class="popup-tags">${summary}</div>
+        <div class="cyber-related-list">
+          ${related.map(({ threat: other, relations }) => `
+            <button class="cyber-related-item" data-threat-id="${escapeHtml(other.id)}">
+              <span class="cyber-related-indicator">${escapeHtml(other.indicator)}</span>
+              <span class="cyber-related-meta">${relations.map(relationLabel).join(' · ')}</span>
+            </button>`).join('')}
+        </div>
       </div>
     `;
   }
 
+  /** Pivot to a related indicator, open a sponsor's country brief, or download STIX. */
+  private bindCyberThreatActions(data: PopupData): void {
+    const threat = data.data as CyberThreat;
+    this.popup?.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const related = target.closest<HTMLElement>('[data-threat-id]');
+      if (related) {
+        const next = this.cyberThreats.find((candidate) => candidate.id === related.dataset.threatId);
+        if (next) this.show({ ...data, data: next });
+        return;
+      }
+      const country = target.closest<HTMLElement>('[data-country-code]');
+      if (country?.dataset.countryCode) {
+        this.hide();
+        this.onCountryLink?.(country.dataset.countryCode, country.dataset.countryName || country.dataset.countryCode, threat.lat, threat.lon);
+        return;
+      }
+      const exportButton = target.closest<HTMLElement>('[data-stix-export]');
+      if (exportButton) {
+        const all = exportButton.dataset.stixExport === 'all';
+        const threats = all
+          ? (this.cyberThreats.length > 0 ? this.cyberThreats : [threat])
+          : [threat, ...findRelatedIndicators(threat, this.cyberThreats, { limit: Infinity }).related.map((r) => r.threat)];
+        const name = all ? 'worldmonitor-cyber-iocs' : `worldmonitor-ioc-${threat.indicator.replace(/[^A-Za-z0-9.-]+/g, '_').slice(0, 60)}`;
+        exportStixBundle(toStixBundle(threats, { attribute: attributeThreat }), name);
+      }
+    });
+  }
+
   private renderNuclearPopup(facility: NuclearFacility): string {
     const typeLabels: Record<string, string> = {
       'plant': t('popups.nuclear.types.plant'),
@@ -1931,6 +2027,15 @@ export class MapPopup {
     }
   }
 
+  private renderSanctionsAlert(hit: SanctionsHit | undefined): string {
+    const match = hit?.matches[0];
+    if (!match) return '';
+    return `<p class="popup-description alert">⛔ ${t('popups.sanctionsMatch', {
+      listing: escapeHtml(describeSanctionsMatch(match)),
+      field: escapeHtml(t(`components.sanctionsScreening.fields.${match.matchedOn}`)),
+    })}</p>`;
+  }
+
   private renderMilitaryFlightPopup(flight: MilitaryFlight): string {
     const operatorLabels: Record<string, string> = {
       usaf: 'US Air Force',
@@ -2012,6 +2117,7 @@ export class MapPopup {
           ` : ''}
         </div>
         ${flight.note ? `<p class="popup-description">${note}</p>` : ''}
+        ${this.renderSanctionsAlert(getSanctionsHit('aircraft', flight.hexCode.toUpperCase()))}
         <div class="popup-attribution">${t('popups.militaryFlight.attribution')}</div>
       </div>
     `;
@@ -2118,6 +2224,7 @@ export class MapPopup {
         ${vessel.usniActivityDescription ? `<p class="popup-description"><strong>${t('popups.militaryVessel.usniIntel')}:</strong> ${escapeHtml(vessel.usniActivityDescription)}</p>` : ''}
         ${vessel.note ? `<p class="popup-description">${vesselNote}</p>` : ''}
         ${vessel.isDark ? `<p class="popup-description alert">${t('popups.militaryVessel.darkDescription')}</p>` : ''}
+        ${this.renderSanctionsAlert(getSanctionsHit('vessel', vessel.mmsi))}
         ${vessel.usniSource ? `<p class="popup-description" style="opacity:0.7;font-size:0.85em">${t('popups.militaryVessel.approximatePosition')}</p>` : ''}
         ${vessel.usniArticleUrl ? `<div class="popup-attribution"><a href="${escapeHtml(vessel.usniArticleUrl)}" target="_blank" rel="noopener">${t('popups.militaryVessel.usniSource')}${vessel.usniArticleDate ? ` (${new Date(vessel.usniArticleDate).toLocaleDateString()})` : ''}</a></div>` : ''}
       </div>
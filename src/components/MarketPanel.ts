@@ -2,7 +2,10 @@ import { Panel } from './Panel';
 import { t } from '@/services/i18n';
 import type { MarketData, CryptoData } from '@/types';
 import { formatPrice, formatChange, getChangeClass, getHeatmapClass } from '@/utils';
-import { escapeHtml } from '@/utils/sanitize';
+import { escapeAttr, escapeHtml } from '@/utils/sanitize';
+import { CRYPTO_MAP } from '@/config/markets';
+import { fetchPriceHistory } from '@/services/market';
+import { PriceRowCharts } from './PriceHistoryChart';
 
 function miniSparkline(data: number[] | undefined, change: number | null, w = 50, h = 16): string {
   if (!data || data.length < 2) return '';
@@ -18,11 +21,24 @@ function miniSparkline(data: number[] | undefined, change: number | null, w = 50
   return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" class="mini-sparkline"><polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
 }
 
-
+function cryptoId(symbol: string): string | undefined {
+  return Object.keys(CRYPTO_MAP).find(id => CRYPTO_MAP[id]!.symbol === symbol);
+}
 
 export class MarketPanel extends Panel {
+  private charts: PriceRowCharts;
+  private lastRender: { data: MarketData[]; rateLimited?: boolean } | null = null;
+  /** Daily closes for quotes that arrived without a sparkline (Finnhub). */
+  private historySparklines = new Map<string, number[]>();
+
   constructor() {
     super({ id: 'markets', title: t('panels.markets') });
+    this.charts = new PriceRowCharts(this.content);
+  }
+
+  public override destroy(): void {
+    this.charts.destroy();
+    super.destroy();
   }
 
   public renderMarkets(data: MarketData[], rateLimited?: boolean): void {
@@ -30,17 +46,19 @@ export class MarketPanel extends Panel {
       this.showError(rateLimited ? t('common.rateLimitedMarket') : t('common.failedMarketData'));
       return;
     }
+    this.lastRender = { data, rateLimited };
+    this.fillSparklines(data);
 
     const html = data
       .map(
         (stock) => `
-      <div class="market-item">
+      <div class="market-item price-row" data-price-symbol="${escapeAttr(stock.symbol)}" data-price-class="stock" title="${escapeAttr(t('components.priceHistory.expand'))}">
         <div class="market-info">
           <span class="market-name">${escapeHtml(stock.name)}</span>
           <span class="market-symbol">${escapeHtml(stock.display)}</span>
         </div>
         <div class="market-data">
-          ${miniSparkline(stock.sparkline, stock.change)}
+          ${miniSparkline(stock.sparkline ?? this.historySparklines.get(stock.symbol), stock.change)}
           <span class="market-price">${formatPrice(stock.price!)}</span>
           <span class="market-change ${getChangeClass(stock.change!)}">${formatChange(stock.change!)}</span>
         </div>
@@ -51,6 +69,17 @@ export class MarketPanel extends Panel {
 
     this.setContent(html);
   }
+
+  private fillSparklines(data: MarketData[]): void {
+    for (const stock of data) {
+      if (stock.sparkline?.length || this.historySparklines.has(stock.symbol)) continue;
+      void fetchPriceHistory(stock.symbol, '1d', 'stock').then((history) => {
+        if (history.candles.length < 2 || this.historySparklines.has(stock.symbol)) return;
+        this.historySparklines.set(stock.symbol, history.candles.slice(-30).map(c => c.close));
+        if (this.lastRender) this.renderMarkets(this.lastRender.data, this.lastRender.rateLimited);
+      });
+    }
+  }
 }
 
 export class HeatmapPanel extends Panel {
@@ -85,11 +114,19 @@ export class HeatmapPanel extends Panel {
 }
 
 export class CommoditiesPanel extends Panel {
+  private charts: PriceRowCharts;
+
   constructor() {
     super({ id: 'commodities', title: t('panels.commodities') });
+    this.charts = new PriceRowCharts(this.content);
   }
 
-  public renderCommodities(data: Array<{ display: string; price: number | null; change: number | null; sparkline?: number[] }>): void {
+  public override destroy(): void {
+    this.charts.destroy();
+    super.destroy();
+  }
+
+  public renderCommodities(data: Array<{ symbol?: string; display: string; price: number | null; change: number | null; sparkline?: number[] }>): void {
     const validData = data.filter((d) => d.price !== null);
 
     if (validData.length === 0) {
@@ -102,7 +139,7 @@ export class CommoditiesPanel extends Panel {
       validData
         .map(
           (c) => `
-        <div class="commodity-item">
+        <div class="commodity-item${c.symbol ? ' price-row' : ''}"${c.symbol ? ` data-price-symbol="${escapeAttr(c.symbol)}" data-price-class="${c.symbol.startsWith('^') ? 'stock' : 'commodity'}" title="${escapeAttr(t('components.priceHistory.expand'))}"` : ''}>
           <div class="commodity-name">${escapeHtml(c.display)}</div>
           ${miniSparkline(c.sparkline, c.change, 60, 18)}
           <div class="commodity-price">${formatPrice(c.price!)}</div>
@@ -118,8 +155,16 @@ export class CommoditiesPanel extends Panel {
 }
 
 export class CryptoPanel extends Panel {
+  private charts: PriceRowCharts;
+
   constructor() {
     super({ id: 'crypto', title: t('panels.crypto') });
+    this.charts = new PriceRowCharts(this.content);
+  }
+
+  public override destroy(): void {
+    this.charts.destroy();
+    super.destroy();
   }
 
   public renderCrypto(data: CryptoData[]): void {
@@ -129,9 +174,10 @@ export class CryptoPanel extends Panel {
     }
 
     const html = data
-      .map(
-        (coin) => `
-      <div class="market-item">
+      .map((coin) => {
+        const id = cryptoId(coin.symbol);
+        return `
+      <div class="market-item${id ? ' price-row' : ''}"${id ? ` data-price-symbol="${id}" data-price-class="crypto" title="${escapeAttr(t('components.priceHistory.expand'))}"` : ''}>
         <div class="market-info">
           <span class="market-name">${escapeHtml(coin.name)}</span>
           <span class="market-symbol">${escapeHtml(coin.symbol)}</span>
@@ -142,8 +188,8 @@ export class CryptoPanel extends Panel {
           <span class="market-change ${getChangeClass(coin.change)}">${formatChange(coin.change)}</span>
         </div>
       </div>
-    `
-      )
+    `;
+      })
       .join('');
 
     this.setContent(html);
@@ -1,19 +1,37 @@
 import { Panel } from './Panel';
 import { t } from '@/services/i18n';
-import type { Monitor, NewsItem } from '@/types';
+import type { GeofenceLayer, Monitor, NewsItem } from '@/types';
 import { MONITOR_COLORS } from '@/config';
 import { generateId, formatTime, getCSSColor } from '@/utils';
+import { exportMonitorHits } from '@/utils/export';
 import { sanitizeUrl } from '@/utils/sanitize';
 import { h, replaceChildren, clearChildren } from '@/utils/dom-utils';
+import {
+  GEOFENCE_LAYERS,
+  DEFAULT_GEOFENCE_RADIUS_KM,
+  MAX_GEOFENCE_RADIUS_KM,
+  clearMonitorHits,
+  dailyHitCounts,
+  getMonitorHits,
+  hasGeofence,
+  onMonitorHits,
+} from '@/services/geofence';
+
+const SPARKLINE_DAYS = 14;
+const RECENT_HITS_SHOWN = 8;
 
 export class MonitorPanel extends Panel {
   private monitors: Monitor[] = [];
   private onMonitorsChange?: (monitors: Monitor[]) => void;
+  private geofenceInputs: { lat: HTMLInputElement; lon: HTMLInputElement; radius: HTMLInputElement } | null = null;
+  private layerInputs = new Map<GeofenceLayer, HTMLInputElement>();
+  private unsubscribeHits: () => void;
 
   constructor(initialMonitors: Monitor[] = []) {
     super({ id: 'monitors', title: t('panels.monitors') });
     this.monitors = initialMonitors;
     this.renderInput();
+    this.unsubscribeHits = onMonitorHits(() => this.renderHits());
   }
 
   private renderInput(): void {
@@ -34,49 +52,118 @@ export class MonitorPanel extends Panel {
       ),
     );
 
+    inputContainer.insertBefore(this.renderGeofenceInputs(), inputContainer.lastChild);
+
     const monitorsList = h('div', { id: 'monitorsList' });
+    const monitorsHits = h('div', { id: 'monitorsHits' });
     const monitorsResults = h('div', { id: 'monitorsResults' });
 
     this.content.appendChild(inputContainer);
     this.content.appendChild(monitorsList);
+    this.content.appendChild(monitorsHits);
     this.content.appendChild(monitorsResults);
 
     this.renderMonitorsList();
+    this.renderHits();
+  }
+
+  private renderGeofenceInputs(): HTMLElement {
+    const numberInput = (placeholder: string, value = '') => h('input', {
+      type: 'number',
+      className: 'monitor-input monitor-geofence-input',
+      placeholder,
+      value,
+      step: 'any',
+    }) as HTMLInputElement;
+
+    const lat = numberInput(t('components.monitor.lat'));
+    const lon = numberInput(t('components.monitor.lon'));
+    const radius = numberInput(t('components.monitor.radius'), String(DEFAULT_GEOFENCE_RADIUS_KM));
+    radius.min = '1';
+    radius.max = String(MAX_GEOFENCE_RADIUS_KM);
+    this.geofenceInputs = { lat, lon, radius };
+
+    this.layerInputs.clear();
+    const layerToggles = GEOFENCE_LAYERS.map((layer) => {
+      const checkbox = h('input', { type: 'checkbox', checked: true }) as HTMLInputElement;
+      this.layerInputs.set(layer, checkbox);
+      return h('label', { className: 'monitor-geofence-layer' }, checkbox, t(`components.monitor.layers.${layer}`));
+    });
+
+    return h('details', { className: 'monitor-geofence' },
+      h('summary', {}, t('components.monitor.geofence')),
+      h('div', { className: 'monitor-geofence-row' }, lat, lon, radius),
+      h('div', { className: 'monitor-geofence-layers' }, ...layerToggles),
+    );
+  }
+
+  private readGeofence(): Pick<Monitor, 'lat' | 'lon' | 'radiusKm' | 'layers'> | null {
+    if (!this.geofenceInputs) return null;
+    const lat = parseFloat(this.geofenceInputs.lat.value);
+    const lon = parseFloat(this.geofenceInputs.lon.value);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+
+    const radius = parseFloat(this.geofenceInputs.radius.value);
+    const radiusKm = Number.isFinite(radius) && radius > 0
+      ? Math.min(radius, MAX_GEOFENCE_RADIUS_KM)
+      : DEFAULT_GEOFENCE_RADIUS_KM;
+    const layers = GEOFENCE_LAYERS.filter((layer) => this.layerInputs.get(layer)?.checked);
+    // All (or none) checked means no filter
+    return layers.length > 0 && layers.length < GEOFENCE_LAYERS.length
+      ? { lat, lon, radiusKm, layers }
+      : { lat, lon, radiusKm };
   }
 
   private addMonitor(): void {
-    const input = document.getElementById('monitorKeywords') as HTMLInputElement;
-    const keywords = input.value.trim();
+    const input = this.content.querySelector('#monitorKeywords') as HTMLInputElement;
+    const keywords = input.value.split(',').map((k) => k.trim().toLowerCase()).filter(Boolean);
+    const geofence = this.readGeofence();
 
-    if (!keywords) return;
+    if (keywords.length === 0 && !geofence) return;
 
     const monitor: Monitor = {
       id: generateId(),
-      keywords: keywords.split(',').map((k) => k.trim().toLowerCase()),
+      keywords,
       color: MONITOR_COLORS[this.monitors.length % MONITOR_COLORS.length] ?? getCSSColor('--status-live'),
+      ...geofence,
     };
 
     this.monitors.push(monitor);
     input.value = '';
+    if (this.geofenceInputs) {
+      this.geofenceInputs.lat.value = '';
+      this.geofenceInputs.lon.value = '';
+    }
     this.renderMonitorsList();
+    this.renderHits();
     this.onMonitorsChange?.(this.monitors);
   }
 
   public removeMonitor(id: string): void {
     this.monitors = this.monitors.filter((m) => m.id !== id);
+    clearMonitorHits(id);
     this.renderMonitorsList();
     this.onMonitorsChange?.(this.monitors);
   }
 
+  private monitorLabel(monitor: Monitor): string {
+    if (monitor.name) return monitor.name;
+    if (monitor.keywords.length > 0) return monitor.keywords.join(', ');
+    return `${monitor.lat?.toFixed(2)}, ${monitor.lon?.toFixed(2)}`;
+  }
+
   private renderMonitorsList(): void {
-    const list = document.getElementById('monitorsList');
+    const list = this.content.querySelector<HTMLElement>('#monitorsList');
     if (!list) return;
 
     replaceChildren(list,
       ...this.monitors.map((m) =>
         h('span', { className: 'monitor-tag' },
           h('span', { className: 'monitor-tag-color', style: { background: m.color } }),
-          m.keywords.join(', '),
+          this.monitorLabel(m),
+          hasGeofence(m)
+            ? h('span', { className: 'monitor-tag-geofence', title: (m.layers ?? GEOFENCE_LAYERS).join(', ') }, `📍${m.radiusKm} km`)
+            : null,
           h('span', {
             className: 'monitor-tag-remove',
             onClick: () => this.removeMonitor(m.id),
@@ -86,8 +173,73 @@ export class MonitorPanel extends Panel {
     );
   }
 
+  private renderHits(): void {
+    const container = this.content.querySelector<HTMLElement>('#monitorsHits');
+    if (!container) return;
+
+    const geofenced = this.monitors.filter(hasGeofence);
+    if (geofenced.length === 0) {
+      clearChildren(container);
+      return;
+    }
+
+    const ids = new Set(geofenced.map((m) => m.id));
+    const hits = getMonitorHits().filter((hit) => ids.has(hit.monitorId));
+    const names = Object.fromEntries(geofenced.map((m) => [m.id, this.monitorLabel(m)]));
+    const now = Date.now();
+
+    const rows = geofenced.map((monitor) => {
+      const monitorHits = hits.filter((hit) => hit.monitorId === monitor.id);
+      const counts = dailyHitCounts(monitorHits, SPARKLINE_DAYS, now);
+      const peak = Math.max(1, ...counts);
+      return h('div', { className: 'monitor-hit-row' },
+        h('span', { className: 'monitor-tag-color', style: { background: monitor.color } }),
+        h('span', { className: 'monitor-hit-name' }, names[monitor.id]!),
+        h('span', { className: 'monitor-hit-spark', title: t('components.monitor.sparklineTitle', { days: String(SPARKLINE_DAYS) }) },
+          ...counts.map((count) => h('span', {
+            className: 'monitor-hit-bar',
+            style: { height: `${Math.max(8, Math.round((count / peak) * 100))}%`, opacity: count > 0 ? '1' : '0.25' },
+            title: String(count),
+          })),
+        ),
+        h('span', { className: 'monitor-hit-count' }, t('components.monitor.hitCount', { count: String(monitorHits.length) })),
+      );
+    });
+
+    const recent = hits.slice(0, RECENT_HITS_SHOWN).map((hit) =>
+      h('div', { className: 'monitor-hit-item' },
+        h('span', { className: 'monitor-hit-layer' }, t(`components.monitor.layers.${hit.layer}`)),
+        h('span', { className: 'monitor-hit-label' }, hit.label),
+        h('span', { className: 'monitor-hit-meta' }, `${hit.distanceKm} km · ${formatTime(new Date(hit.detectedAt))}`),
+      ),
+    );
+
+    const exportButton = (label: string, format: 'csv' | 'geojson') => h('button', {
+      className: 'monitor-hit-btn',
+      disabled: hits.length === 0,
+      onClick: () => exportMonitorHits(hits, names, format),
+    }, label);
+
+    replaceChildren(container,
+      h('div', { className: 'monitor-hits-header' },
+        h('span', {}, t('components.monitor.hits')),
+        exportButton(t('components.monitor.exportCsv'), 'csv'),
+        exportButton(t('components.monitor.exportGeoJson'), 'geojson'),
+        h('button', {
+          className: 'monitor-hit-btn',
+          disabled: hits.length === 0,
+          onClick: () => clearMonitorHits(),
+        }, t('components.monitor.clearHits')),
+      ),
+      ...rows,
+      recent.length > 0
+        ? h('div', { className: 'monitor-hit-recent' }, ...recent)
+        : h('div', { className: 'monitor-hit-empty' }, t('components.monitor.noHits')),
+    );
+  }
+
   public renderResults(news: NewsItem[]): void {
-    const results = document.getElementById('monitorsResults');
+    const results = this.content.querySelector<HTMLElement>('#monitorsResults');
     if (!results) return;
 
     if (this.monitors.length === 0) {
@@ -169,5 +321,11 @@ export class MonitorPanel extends Panel {
   public setMonitors(monitors: Monitor[]): void {
     this.monitors = monitors;
     this.renderMonitorsList();
+    this.renderHits();
+  }
+
+  public override destroy(): void {
+    this.unsubscribeHits();
+    super.destroy();
   }
 }
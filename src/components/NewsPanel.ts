@@ -7,6 +7,8 @@ import { escapeHtml, sanitizeUrl } from '@/utils/sanitize';
 import { analysisWorker, enrichWithVelocityML, getClusterAssetContext, MAX_DISTANCE_KM, activityTracker, generateSummary, translateText } from '@/services';
 import { getSourcePropagandaRisk, getSourceTier, getSourceType } from '@/config/feeds';
 import { SITE_VARIANT } from '@/config';
+import { assessClusters } from '@/services/source-reliability';
+import { openVerificationChecklist } from './VerificationChecklist';
 import { t, getCurrentLanguage } from '@/services/i18n';
 
 /** Threshold for enabling virtual scrolling */
@@ -34,6 +36,7 @@ export class NewsPanel extends Panel {
   private windowedList: WindowedList<PreparedCluster> | null = null;
   private useVirtualScroll = true;
   private renderRequestId = 0;
+  private clustersById = new Map<string, ClusteredEvent>();
   private boundScrollHandler: (() => void) | null = null;
   private boundClickHandler: (() => void) | null = null;
 
@@ -262,7 +265,11 @@ export class NewsPanel extends Panel {
     this.deviationEl.title = `z-score: ${zScore} (vs 7-day avg)`;
   }
 
-  public renderNews(items: NewsItem[]): void {
+  /**
+   * Render items, then upgrade to the clustered view. Pass `clusters` when they
+   * were already computed (server-side ListNewsClusters) to skip the worker.
+   */
+  public renderNews(items: NewsItem[], clusters?: ClusteredEvent[]): void {
     if (items.length === 0) {
       this.renderRequestId += 1; // Cancel in-flight clustering from previous renders.
       this.setDataBadge('unavailable');
@@ -277,7 +284,7 @@ export class NewsPanel extends Panel {
     this.renderFlat(items);
 
     if (this.clusteredMode) {
-      void this.renderClustersAsync(items);
+      void this.renderClustersAsync(items, clusters);
     }
   }
 
@@ -290,12 +297,13 @@ export class NewsPanel extends Panel {
     this.setContent(`<div class="panel-empty">${escapeHtml(message)}</div>`);
   }
 
-  private async renderClustersAsync(items: NewsItem[]): Promise<void> {
+  private async renderClustersAsync(items: NewsItem[], precomputed?: ClusteredEvent[]): Promise<void> {
     const requestId = ++this.renderRequestId;
 
     try {
-      const clusters = await analysisWorker.clusterNews(items);
+      const clusters = precomputed ?? await analysisWorker.clusterNews(items);
       if (requestId !== this.renderRequestId) return;
+      assessClusters(clusters);
       const enriched = await enrichWithVelocityML(clusters);
       this.renderClusters(enriched);
     } catch (error) {
@@ -346,6 +354,7 @@ export class NewsPanel extends Panel {
     const totalItems = sorted.reduce((sum, c) => sum + c.sourceCount, 0);
     this.setCount(totalItems);
     this.relatedAssetContext.clear();
+    this.clustersById = new Map(sorted.map(c => [c.id, c]));
 
     // Store headlines for summarization (cap at 5 to reduce entity conflation in small models)
     this.currentHeadlines = sorted.slice(0, 5).map(c => c.primaryTitle);
@@ -502,6 +511,11 @@ export class NewsPanel extends Panel {
       ? `<span class="category-tag" style="color:${catColor};border-color:${catColor}40;background:${catColor}20">${catLabel}</span>`
       : '';
 
+    const confidence = this.getConfidenceBadge(cluster);
+    const confidenceBadge = confidence
+      ? `<button class="${confidence.className}" data-cluster-id="${escapeHtml(cluster.id)}" title="${escapeHtml(confidence.title)}">${confidence.label}</button>`
+      : '';
+
     // Build class list for item
     const itemClasses = [
       'item',
@@ -524,6 +538,7 @@ export class NewsPanel extends Panel {
           ${sentimentBadge}
           ${cluster.isAlert ? '<span class="alert-tag">ALERT</span>' : ''}
           ${categoryBadge}
+          ${confidenceBadge}
         </div>
         <a class="item-title" href="${sanitizeUrl(cluster.primaryLink)}" target="_blank" rel="noopener">${escapeHtml(cluster.primaryTitle)}</a>
         <div class="cluster-meta">
@@ -569,6 +584,24 @@ export class NewsPanel extends Panel {
       });
     });
 
+    // Confidence badges open the verification checklist
+    const confidenceBtns = this.content.querySelectorAll<HTMLButtonElement>('.confidence-badge');
+    confidenceBtns.forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const cluster = btn.dataset.clusterId ? this.clustersById.get(btn.dataset.clusterId) : undefined;
+        if (!cluster) return;
+        openVerificationChecklist(cluster, () => {
+          const badge = this.getConfidenceBadge(cluster);
+          if (!badge) return;
+          btn.className = badge.className;
+          btn.title = badge.title;
+          btn.textContent = badge.label;
+        });
+      });
+    });
+
     // Translation buttons
     const translateBtns = this.content.querySelectorAll<HTMLElement>('.item-translate-btn');
     translateBtns.forEach(btn => {
@@ -580,6 +613,20 @@ export class NewsPanel extends Panel {
     });
   }
 
+  private getConfidenceBadge(cluster: ClusteredEvent): { className: string; title: string; label: string } | null {
+    const confidence = cluster.confidence;
+    if (!confidence) return null;
+    return {
+      className: `confidence-badge ${confidence.level}${confidence.verdict ? ' reviewed' : ''}`,
+      title: t('components.newsPanel.confidence', {
+        reliability: String(Math.round(confidence.sourceReliability * 100)),
+        sources: String(cluster.sourceCount),
+        wire: confidence.wireConfirmed ? t('components.newsPanel.wireConfirmed') : t('components.newsPanel.noWire'),
+      }),
+      label: `${confidence.verdict ? '✓ ' : ''}${confidence.score}%`,
+    };
+  }
+
   private getLocalizedAssetLabel(type: RelatedAsset['type']): string {
     const keyMap: Record<RelatedAsset['type'], string> = {
       pipeline: 'modals.countryBrief.infra.pipeline',
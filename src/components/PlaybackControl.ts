@@ -1,11 +1,27 @@
 import { getSnapshotTimestamps, getSnapshotAt, type DashboardSnapshot } from '@/services/storage';
+import { fetchServerSnapshot, listServerSnapshots, mergeTimeline, type TimelineEntry } from '@/services/playback';
 import { t } from '@/services/i18n';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+
+function toDateInput(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function fromDateInput(value: string, endOfDay: boolean): number | null {
+  if (!value) return null;
+  const ts = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+  return Number.isFinite(ts) ? ts : null;
+}
+
 export class PlaybackControl {
   private element: HTMLElement;
   private isPlaybackMode = false;
-  private timestamps: number[] = [];
+  private entries: TimelineEntry[] = [];
   private currentIndex = 0;
+  private loadSeq = 0;
   private onSnapshotChange: ((snapshot: DashboardSnapshot | null) => void) | null = null;
 
   constructor() {
@@ -20,6 +36,13 @@ export class PlaybackControl {
           <span>${t('components.playback.historicalPlayback')}</span>
           <button class="playback-close">×</button>
         </div>
+        <div class="playback-range">
+          <input type="date" class="playback-from" title="${t('components.playback.from')}">
+          <span>→</span>
+          <input type="date" class="playback-to" title="${t('components.playback.to')}">
+          <button class="playback-btn playback-range-load">${t('components.playback.load')}</button>
+        </div>
+        <div class="playback-summary"></div>
         <div class="playback-slider-container">
           <input type="range" class="playback-slider" min="0" max="100" value="100">
           <div class="playback-time">${t('components.playback.live')}</div>
@@ -34,6 +57,10 @@ export class PlaybackControl {
       </div>
     `;
 
+    const now = Date.now();
+    (this.element.querySelector('.playback-from') as HTMLInputElement).value = toDateInput(now - DEFAULT_RANGE_DAYS * DAY_MS);
+    (this.element.querySelector('.playback-to') as HTMLInputElement).value = toDateInput(now);
+
     this.setupEventListeners();
   }
 
@@ -55,6 +82,10 @@ export class PlaybackControl {
       this.goLive();
     });
 
+    this.element.querySelector('.playback-range-load')!.addEventListener('click', () => {
+      void this.loadTimestamps();
+    });
+
     slider.addEventListener('input', () => {
       const idx = parseInt(slider.value);
       this.currentIndex = idx;
@@ -69,26 +100,53 @@ export class PlaybackControl {
     });
   }
 
+  private getRange(): { from: number; to: number } {
+    const now = Date.now();
+    const fromInput = this.element.querySelector('.playback-from') as HTMLInputElement;
+    const toInput = this.element.querySelector('.playback-to') as HTMLInputElement;
+    const to = Math.min(now, fromDateInput(toInput.value, true) ?? now);
+    const from = Math.min(to, fromDateInput(fromInput.value, false) ?? to - DEFAULT_RANGE_DAYS * DAY_MS);
+    return { from, to };
+  }
+
+  /** Local IndexedDB snapshots (last 7 days) merged with server-recorded ones for the chosen range. */
   private async loadTimestamps(): Promise<void> {
-    this.timestamps = await getSnapshotTimestamps();
-    this.timestamps.sort((a, b) => a - b);
+    const { from, to } = this.getRange();
+    const summary = this.element.querySelector('.playback-summary')!;
+    summary.textContent = t('common.loading');
+
+    const [local, server] = await Promise.all([
+      getSnapshotTimestamps().catch(() => [] as number[]),
+      listServerSnapshots(from, to),
+    ]);
+    this.entries = mergeTimeline(
+      local.filter(ts => ts >= from && ts <= to),
+      server?.snapshots.map(s => s.timestamp) ?? [],
+    );
+
+    if (server?.earliest) {
+      (this.element.querySelector('.playback-from') as HTMLInputElement).min = toDateInput(server.earliest);
+    }
+    summary.textContent = server
+      ? t('components.playback.snapshotCount', { count: String(this.entries.length) })
+      : t('components.playback.localOnly', { count: String(this.entries.length) });
 
     const slider = this.element.querySelector('.playback-slider') as HTMLInputElement;
-    slider.max = String(Math.max(0, this.timestamps.length - 1));
+    slider.max = String(Math.max(0, this.entries.length - 1));
     slider.value = slider.max;
-    this.currentIndex = this.timestamps.length - 1;
+    this.currentIndex = this.entries.length - 1;
 
     this.updateTimeDisplay();
   }
 
   private async loadSnapshot(index: number): Promise<void> {
-    if (index < 0 || index >= this.timestamps.length) {
+    if (index < 0 || index >= this.entries.length) {
       this.goLive();
       return;
     }
 
-    const timestamp = this.timestamps[index];
-    if (!timestamp) {
+    const entry = this.entries[index];
+    if (!entry) {
       this.goLive();
       return;
     }
@@ -96,7 +154,12 @@ export class PlaybackControl {
     this.isPlaybackMode = true;
     this.updateTimeDisplay();
 
-    const snapshot = await getSnapshotAt(timestamp);
+    // Scrubbing fires many loads; only the latest one may apply its snapshot
+    const seq = ++this.loadSeq;
+    const snapshot = entry.source === 'server'
+      ? await fetchServerSnapshot(entry.timestamp) ?? await getSnapshotAt(entry.timestamp)
+      : await getSnapshotAt(entry.timestamp);
+    if (seq !== this.loadSeq || !this.isPlaybackMode) return;
     this.onSnapshotChange?.(snapshot);
 
     document.body.classList.add('playback-mode');
@@ -105,7 +168,8 @@ export class PlaybackControl {
 
   private goLive(): void {
     this.isPlaybackMode = false;
-    this.currentIndex = this.timestamps.length - 1;
+    this.loadSeq++;
+    this.currentIndex = this.entries.length - 1;
 
     const slider = this.element.querySelector('.playback-slider') as HTMLInputElement;
     slider.value = slider.max;
@@ -126,10 +190,10 @@ export class PlaybackControl {
         this.currentIndex = Math.max(0, this.currentIndex - 1);
         break;
       case 'next':
-        this.currentIndex = Math.min(this.timestamps.length - 1, this.currentIndex + 1);
+        this.currentIndex = Math.min(this.entries.length - 1, this.currentIndex + 1);
         break;
       case 'end':
-        this.currentIndex = this.timestamps.length - 1;
+        this.currentIndex = this.entries.length - 1;
         break;
       case 'live':
         this.goLive();
@@ -144,16 +208,17 @@ export class PlaybackControl {
   private updateTimeDisplay(): void {
     const display = this.element.querySelector('.playback-time')!;
 
-    if (!this.isPlaybackMode || this.timestamps.length === 0) {
+    if (!this.isPlaybackMode || this.entries.length === 0) {
       display.textContent = t('components.playback.live');
       display.classList.remove('historical');
       return;
     }
 
-    const timestamp = this.timestamps[this.currentIndex];
-    if (timestamp) {
-      const date = new Date(timestamp);
+    const entry = this.entries[this.currentIndex];
+    if (entry) {
+      const date = new Date(entry.timestamp);
       display.textContent = date.toLocaleString('en-US', {
+        year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
         month: 'short',
         day: 'numeric',
         hour: '2-digit',
@@ -1,8 +1,27 @@
 import { Panel } from './Panel';
-import type { PredictionMarket } from '@/services/prediction';
-import { escapeHtml, sanitizeUrl } from '@/utils/sanitize';
+import { VENUE_LABELS, type PredictionMarket } from '@/services/prediction';
+import { escapeAttr, escapeHtml, sanitizeUrl } from '@/utils/sanitize';
 import { t } from '@/services/i18n';
 
+/** Odds moves smaller than this many points draw as a flat line rather than noise. */
+const MIN_SPARKLINE_RANGE = 5;
+
+function oddsSparkline(history: PredictionMarket['history'], shift: number | undefined, w = 72, h = 18): string {
+  if (!history || history.length < 2) return '';
+  const values = history.map(p => p.yesPrice);
+  const t0 = history[0]!.timestamp;
+  const span = Math.max(1, history[history.length - 1]!.timestamp - t0);
+  const mid = (Math.min(...values) + Math.max(...values)) / 2;
+  const range = Math.max(MIN_SPARKLINE_RANGE, Math.max(...values) - Math.min(...values));
+  const color = shift == null || Math.abs(shift) < 0.5 ? 'var(--text-dim)' : shift > 0 ? 'var(--green)' : 'var(--red)';
+  const points = history.map((p) => {
+    const x = ((p.timestamp - t0) / span) * w;
+    const y = h / 2 - ((p.yesPrice - mid) / range) * (h - 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+  return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" class="prediction-sparkline"><polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+}
+
 export class PredictionPanel extends Panel {
   constructor() {
     super({
@@ -19,6 +38,24 @@ export class PredictionPanel extends Panel {
     return `$${volume.toFixed(0)}`;
   }
 
+  private renderShift(shift?: number): string {
+    if (shift == null || Math.abs(shift) < 0.5) return '';
+    const cls = shift > 0 ? 'up' : 'down';
+    return `<span class="prediction-shift ${cls}" title="${t('components.predictions.shiftTooltip')}">${shift > 0 ? '+' : ''}${shift.toFixed(1)} ${t('components.predictions.pts24h')}</span>`;
+  }
+
+  private renderVenues(p: PredictionMarket): string {
+    if (!p.venues || p.venues.length < 2) return '';
+    const chips = p.venues.map((v) => {
+      const label = `${VENUE_LABELS[v.venue]} ${Math.round(v.yesPrice)}%`;
+      const safeUrl = sanitizeUrl(v.url || '');
+      return safeUrl
+        ? `<a href="${safeUrl}" target="_blank" rel="noopener" class="prediction-venue" title="${escapeAttr(v.title)}">${escapeHtml(label)}</a>`
+        : `<span class="prediction-venue" title="${escapeAttr(v.title)}">${escapeHtml(label)}</span>`;
+    }).join('');
+    return `<div class="prediction-venues" title="${t('components.predictions.blendedTooltip')}">${chips}</div>`;
+  }
+
   public renderPredictions(data: PredictionMarket[]): void {
     if (data.length === 0) {
       this.showError(t('common.failedPredictions'));
@@ -39,7 +76,11 @@ export class PredictionPanel extends Panel {
         return `
       <div class="prediction-item">
         ${titleHtml}
-        ${volumeStr ? `<div class="prediction-volume">${t('components.predictions.vol')}: ${volumeStr}</div>` : ''}
+        <div class="prediction-meta">
+          ${volumeStr ? `<span class="prediction-volume">${t('components.predictions.vol')}: ${volumeStr}</span>` : ''}
+          ${this.renderShift(p.shift)}
+          ${oddsSparkline(p.history, p.shift)}
+        </div>
         <div class="prediction-bar">
           <div class="prediction-yes" style="width: ${yesPercent}%">
             <span class="prediction-label">${t('components.predictions.yes')} ${yesPercent}%</span>
@@ -48,6 +89,7 @@ export class PredictionPanel extends Panel {
             <span class="prediction-label">${t('components.predictions.no')} ${noPercent}%</span>
           </div>
         </div>
+        ${this.renderVenues(p)}
       </div>
     `;
       })
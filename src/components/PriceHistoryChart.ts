@@ -0,0 +1,288 @@
+import { t } from '@/services/i18n';
+import { extractEntitiesFromClusters, findNewsForMarketSymbol, type NewsEntityContext } from '@/services/entity-extraction';
+import {
+  fetchPriceHistory,
+  type PriceAssetClass,
+  type PriceCandle,
+  type PriceHistory,
+  type PriceResolution,
+} from '@/services/market';
+import type { ClusteredEvent } from '@/types';
+import { getCSSColor } from '@/utils';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import { escapeHtml, sanitizeUrl } from '@/utils/sanitize';
+
+export const PRICE_RESOLUTIONS: PriceResolution[] = ['1m', '5m', '1h', '1d'];
+
+const MAX_MARKERS = 8;
+const MAX_HEADLINES = 3;
+
+export interface PriceNewsMarker {
+  timestamp: number;
+  title: string;
+  link: string;
+}
+
+let getClusters: () => ClusteredEvent[] = () => [];
+let contextCache: { clusters: ClusteredEvent[]; contexts: Map<string, NewsEntityContext> } | null = null;
+
+/** Where expanded charts read news clusters from for event markers. */
+export function setPriceChartNewsSource(source: () => ClusteredEvent[]): void {
+  getClusters = source;
+  contextCache = null;
+}
+
+/** News clusters about `symbol` (or related entities) first seen inside the candle range. */
+export function priceNewsMarkers(symbol: string, candles: PriceCandle[], clusters: ClusteredEvent[]): PriceNewsMarker[] {
+  if (candles.length < 2 || clusters.length === 0) return [];
+  if (contextCache?.clusters !== clusters) {
+    contextCache = { clusters, contexts: extractEntitiesFromClusters(clusters) };
+  }
+  const t0 = candles[0]!.timestamp;
+  const t1 = candles[candles.length - 1]!.timestamp;
+  const byId = new Map(clusters.map(c => [c.id, c]));
+  return findNewsForMarketSymbol(symbol, contextCache.contexts)
+    .map(({ clusterId, title }) => {
+      const cluster = byId.get(clusterId);
+      return cluster ? { timestamp: new Date(cluster.firstSeen).getTime(), title, link: cluster.primaryLink } : null;
+    })
+    .filter((m): m is PriceNewsMarker => m != null && m.timestamp >= t0 && m.timestamp <= t1)
+    .slice(0, MAX_MARKERS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Close-price trajectory for list rows and headers. */
+export function renderPriceSparkline(candles: PriceCandle[], w = 60, h = 18): string {
+  if (candles.length < 2) return '';
+  const closes = candles.map(c => c.close);
+  const min = Math.min(...closes);
+  const range = Math.max(...closes) - min || 1;
+  const color = closes[closes.length - 1]! >= closes[0]! ? 'var(--green)' : 'var(--red)';
+  const points = closes.map((v, i) => {
+    const x = (i / (closes.length - 1)) * w;
+    const y = h - ((v - min) / range) * (h - 2) - 1;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+  return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" class="mini-sparkline"><polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+}
+
+function formatAxisTime(ts: number, resolution: PriceResolution): string {
+  const d = new Date(ts);
+  return resolution === '1d' || resolution === '1h'
+    ? d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : d.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatLevel(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 0 : 2 });
+}
+
+/** Candlesticks with a volume strip underneath and dashed lines where news broke. */
+export function renderPriceChart(
+  candles: PriceCandle[],
+  resolution: PriceResolution,
+  markers: PriceNewsMarker[] = [],
+  w = 320,
+  ht = 140,
+): string {
+  if (candles.length < 2) return '';
+  const pad = 4;
+  const volumeH = 24;
+  const priceH = ht - volumeH - pad;
+  const lows = candles.map(c => c.low);
+  const highs = candles.map(c => c.high);
+  const min = Math.min(...lows);
+  const max = Math.max(...highs);
+  const range = max - min || 1;
+  const maxVolume = Math.max(...candles.map(c => c.volume));
+  const t0 = candles[0]!.timestamp;
+  const t1 = candles[candles.length - 1]!.timestamp;
+  const step = (w - pad * 2) / candles.length;
+  const bodyW = Math.max(1, step * 0.6);
+  const up = getCSSColor('--green') || '#4caf50';
+  const down = getCSSColor('--red') || '#f44336';
+  const y = (v: number) => pad + (1 - (v - min) / range) * (priceH - pad * 2);
+  const x = (i: number) => pad + step * (i + 0.5);
+
+  const grid = [0.25, 0.5, 0.75].map((f) => {
+    const gy = pad + f * (priceH - pad * 2);
+    return `<line x1="${pad}" x2="${w - pad}" y1="${gy.toFixed(1)}" y2="${gy.toFixed(1)}" stroke="rgba(255,255,255,0.06)" stroke-width="1"/>`;
+  }).join('');
+
+  const bars = candles.map((c, i) => {
+    const color = c.close >= c.open ? up : down;
+    const cx = x(i).toFixed(1);
+    const top = y(Math.max(c.open, c.close));
+    const bodyH = Math.max(1, Math.abs(y(c.open) - y(c.close)));
+    const vol = maxVolume > 0
+      ? `<rect x="${(x(i) - bodyW / 2).toFixed(1)}" y="${(ht - (c.volume / maxVolume) * volumeH).toFixed(1)}" width="${bodyW.toFixed(1)}" height="${((c.volume / maxVolume) * volumeH).toFixed(1)}" fill="${color}" fill-opacity="0.35"/>`
+      : '';
+    return `<line x1="${cx}" x2="${cx}" y1="${y(c.high).toFixed(1)}" y2="${y(c.low).toFixed(1)}" stroke="${color}" stroke-width="1"/>`
+      + `<rect x="${(x(i) - bodyW / 2).toFixed(1)}" y="${top.toFixed(1)}" width="${bodyW.toFixed(1)}" height="${bodyH.toFixed(1)}" fill="${color}"/>`
+      + vol;
+  }).join('');
+
+  const span = Math.max(1, t1 - t0);
+  const markerLines = markers.map((m) => {
+    const mx = (pad + ((m.timestamp - t0) / span) * (w - pad * 2)).toFixed(1);
+    return `<g class="price-chart-marker"><title>${escapeHtml(m.title)}</title>`
+      + `<line x1="${mx}" x2="${mx}" y1="${pad}" y2="${priceH}" stroke="#ffb74d" stroke-width="1" stroke-dasharray="2 2"/>`
+      + `<circle cx="${mx}" cy="${pad + 2}" r="2.5" fill="#ffb74d"/></g>`;
+  }).join('');
+
+  return `
+    <svg viewBox="0 0 ${w} ${ht}" class="price-chart-svg" preserveAspectRatio="none">
+      ${grid}
+      ${bars}
+      ${markerLines}
+    </svg>
+    <div class="price-chart-axis">
+      <span>${formatAxisTime(t0, resolution)}</span>
+      <span>${t('components.priceHistory.range', { low: formatLevel(min), high: formatLevel(max) })}</span>
+      <span>${formatAxisTime(t1, resolution)}</span>
+    </div>`;
+}
+
+export interface PriceHistoryChartOptions {
+  symbol: string;
+  assetClass?: PriceAssetClass;
+  resolution?: PriceResolution;
+  /** Called with each loaded series, e.g. to refresh a sparkline elsewhere. */
+  onLoad?: (history: PriceHistory) => void;
+}
+
+/**
+ * Expanded price chart with resolution buttons, candles, volume and news
+ * event markers. Owns its element; callers insert `element` and call
+ * `destroy()` when collapsing.
+ */
+export class PriceHistoryChart {
+  public readonly element: HTMLElement;
+  private readonly options: PriceHistoryChartOptions;
+  private resolution: PriceResolution;
+  private body: HTMLElement;
+  private toggle: HTMLElement;
+  private destroyed = false;
+
+  constructor(options: PriceHistoryChartOptions) {
+    this.options = options;
+    this.resolution = options.resolution ?? '1d';
+    this.toggle = h('div', { className: 'price-chart-toggle' });
+    this.body = h('div', { className: 'price-chart-body' });
+    this.element = h('div', { className: 'price-chart' }, this.toggle, this.body);
+    this.renderToggle();
+    void this.load();
+  }
+
+  private renderToggle(): void {
+    replaceChildren(this.toggle, ...PRICE_RESOLUTIONS.map(r => h('button', {
+      type: 'button',
+      className: `price-chart-btn${r === this.resolution ? ' active' : ''}`,
+      onClick: (e: Event) => {
+        e.stopPropagation();
+        if (r === this.resolution) return;
+        this.resolution = r;
+        this.renderToggle();
+        void this.load();
+      },
+    }, r)));
+  }
+
+  private async load(): Promise<void> {
+    const requested = this.resolution;
+    replaceChildren(this.body, h('div', { className: 'price-chart-status' }, t('common.loading')));
+    const history = await fetchPriceHistory(this.options.symbol, requested, this.options.assetClass);
+    if (this.destroyed || requested !== this.resolution) return;
+    if (history.candles.length < 2) {
+      replaceChildren(this.body, h('div', { className: 'price-chart-status' }, t('components.priceHistory.unavailable')));
+      return;
+    }
+    this.options.onLoad?.(history);
+    const markers = priceNewsMarkers(this.options.symbol, history.candles, getClusters());
+    const chart = h('div', { className: 'price-chart-plot' });
+    chart.innerHTML = renderPriceChart(history.candles, history.resolution, markers);
+    const notes: HTMLElement[] = [];
+    if (history.resolution !== requested) {
+      notes.push(h('div', { className: 'price-chart-status' }, t('components.priceHistory.servedAt', { resolution: history.resolution })));
+    }
+    const headlines = markers.slice(-MAX_HEADLINES).reverse();
+    replaceChildren(this.body,
+      chart,
+      ...notes,
+      headlines.length
+        ? h('ul', { className: 'price-chart-news' },
+          ...headlines.map(m => h('li', null,
+            h('span', { className: 'price-chart-news-time' }, formatAxisTime(m.timestamp, history.resolution === '1d' ? '1d' : '1m')),
+            h('a', { href: sanitizeUrl(m.link), target: '_blank', rel: 'noopener', onClick: (e: Event) => e.stopPropagation() }, m.title),
+          )))
+        : null,
+      h('div', { className: 'price-chart-source' },
+        t('components.priceHistory.source', { provider: history.provider === 'coingecko' ? 'CoinGecko' : 'Yahoo Finance', currency: history.currency || 'USD' })),
+    );
+  }
+
+  public destroy(): void {
+    this.destroyed = true;
+    this.element.remove();
+  }
+}
+
+/**
+ * Click-to-expand charts for HTML-string panels. Rows carry
+ * `data-price-symbol` (and optionally `data-price-class`); the open chart is
+ * re-attached below its row whenever the panel re-renders its content.
+ */
+export class PriceRowCharts {
+  private expanded: { symbol: string; chart: PriceHistoryChart } | null = null;
+  private readonly observer: MutationObserver;
+
+  constructor(private readonly container: HTMLElement) {
+    container.addEventListener('click', this.onClick);
+    this.observer = new MutationObserver(() => this.reattach());
+    this.observer.observe(container, { childList: true });
+  }
+
+  private findRow(symbol: string): HTMLElement | null {
+    return [...this.container.querySelectorAll<HTMLElement>('[data-price-symbol]')]
+      .find(row => row.dataset.priceSymbol === symbol) ?? null;
+  }
+
+  private readonly onClick = (e: Event): void => {
+    const target = e.target as HTMLElement;
+    if (target.closest('.price-chart')) return;
+    const row = target.closest<HTMLElement>('[data-price-symbol]');
+    const symbol = row?.dataset.priceSymbol;
+    if (!row || !symbol) return;
+    const wasOpen = this.expanded?.symbol === symbol;
+    this.collapse();
+    if (wasOpen) return;
+    const chart = new PriceHistoryChart({ symbol, assetClass: row.dataset.priceClass as PriceAssetClass | undefined });
+    this.expanded = { symbol, chart };
+    row.classList.add('price-row-expanded');
+    row.after(chart.element);
+  };
+
+  private reattach(): void {
+    if (!this.expanded || this.expanded.chart.element.isConnected) return;
+    const row = this.findRow(this.expanded.symbol);
+    if (!row) {
+      this.collapse();
+      return;
+    }
+    row.classList.add('price-row-expanded');
+    row.after(this.expanded.chart.element);
+  }
+
+  private collapse(): void {
+    if (!this.expanded) return;
+    this.findRow(this.expanded.symbol)?.classList.remove('price-row-expanded');
+    this.expanded.chart.destroy();
+    this.expanded = null;
+  }
+
+  public destroy(): void {
+    this.observer.disconnect();
+    this.container.removeEventListener('click', this.onClick);
+    this.collapse();
+  }
+}
@@ -0,0 +1,284 @@
+import { t } from '@/services/i18n';
+import {
+  REPORT_SECTIONS,
+  deleteReportTemplate,
+  deleteServerReportTemplate,
+  fetchServerReportTemplates,
+  getReportTemplate,
+  getReportTemplates,
+  listServerReports,
+  nextRunAt,
+  openReportsFolder,
+  pushServerReportTemplate,
+  runServerReport,
+  saveReportTemplate,
+  serverReportUrl,
+  type Report,
+  type ReportCadence,
+  type ReportFormat,
+  type ReportSectionId,
+  type ReportTemplate,
+  type ReportTemplateInput,
+  type ServerReportFile,
+} from '@/services/reports';
+import { exportReport } from '@/utils/export';
+import { h, replaceChildren } from '@/utils/dom-utils';
+
+export interface ReportBuilderOptions {
+  isDesktop: boolean;
+  generate: (template: ReportTemplate) => Promise<Report>;
+}
+
+const FORMATS: ReportFormat[] = ['html', 'markdown', 'pdf'];
+const CADENCES: ReportCadence[] = ['off', 'daily', 'weekly'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+let modalEl: HTMLElement | null = null;
+let escHandler: ((e: KeyboardEvent) => void) | null = null;
+
+interface BuilderState {
+  options: ReportBuilderOptions;
+  selectedId: string | null;
+  /** Null when the app is not served by a self-hosted server with reports enabled. */
+  serverTemplates: ReportTemplate[] | null;
+  serverFiles: ServerReportFile[];
+  status: string;
+  busy: boolean;
+}
+
+function parseCountries(value: string): string[] {
+  return value.split(/[\s,]+/).map(c => c.trim().toUpperCase()).filter(c => /^[A-Z]{2}$/.test(c));
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function render(root: HTMLElement, state: BuilderState): void {
+  const rerender = () => render(root, state);
+  const template = state.selectedId ? getReportTemplate(state.selectedId) : undefined;
+  const onServer = state.serverTemplates?.find(s => s.id === template?.id);
+
+  const nameInput = h('input', { type: 'text', className: 'report-name', value: template?.name ?? '', placeholder: t('components.reports.namePlaceholder') }) as HTMLInputElement;
+  const sectionBoxes = REPORT_SECTIONS.map(id => ({
+    id,
+    input: h('input', { type: 'checkbox', checked: template ? template.sections.includes(id) : id !== 'countries' }) as HTMLInputElement,
+  }));
+  const countriesInput = h('input', { type: 'text', value: template?.countries.join(', ') ?? '', placeholder: t('components.reports.countriesPlaceholder') }) as HTMLInputElement;
+  const formatSelect = h('select', null,
+    ...FORMATS.map(f => h('option', { value: f, selected: (template?.format ?? 'html') === f }, t(`components.reports.formats.${f}`))),
+  ) as HTMLSelectElement;
+  const cadenceSelect = h('select', { onChange: () => { weekdaySelect.disabled = cadenceSelect.value !== 'weekly'; } },
+    ...CADENCES.map(c => h('option', { value: c, selected: (template?.schedule.cadence ?? 'off') === c }, t(`components.reports.cadences.${c}`))),
+  ) as HTMLSelectElement;
+  const hourSelect = h('select', null,
+    ...Array.from({ length: 24 }, (_, hour) => h('option', { value: String(hour), selected: (template?.schedule.hour ?? 7) === hour }, `${String(hour).padStart(2, '0')}:00`)),
+  ) as HTMLSelectElement;
+  const weekdaySelect = h('select', { disabled: cadenceSelect.value !== 'weekly' },
+    ...WEEKDAYS.map((day, i) => h('option', { value: String(i), selected: (template?.schedule.weekday ?? 1) === i }, t(`components.reports.weekdays.${day}`))),
+  ) as HTMLSelectElement;
+
+  const readForm = (): ReportTemplateInput => ({
+    ...(template && { id: template.id }),
+    name: nameInput.value,
+    sections: sectionBoxes.filter(b => b.input.checked).map(b => b.id as ReportSectionId),
+    countries: parseCountries(countriesInput.value),
+    format: formatSelect.value as ReportFormat,
+    schedule: {
+      cadence: cadenceSelect.value as ReportCadence,
+      hour: Number(hourSelect.value),
+      weekday: Number(weekdaySelect.value),
+    },
+  });
+
+  const run = async (action: () => Promise<string | void>) => {
+    if (state.busy) return;
+    state.busy = true;
+    state.status = t('components.reports.working');
+    rerender();
+    try {
+      state.status = (await action()) ?? '';
+    } catch (err) {
+      state.status = t('components.reports.failed', { error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      state.busy = false;
+      rerender();
+    }
+  };
+
+  const save = (): ReportTemplate => {
+    const saved = saveReportTemplate(readForm());
+    state.selectedId = saved.id;
+    return saved;
+  };
+
+  const refreshServer = async () => {
+    state.serverTemplates = await fetchServerReportTemplates();
+    state.serverFiles = state.serverTemplates ? await listServerReports().catch(() => []) : [];
+  };
+
+  const actions = [
+    h('button', { className: 'report-btn primary', disabled: state.busy, onClick: () => run(async () => {
+      const saved = save();
+      exportReport(await state.options.generate(saved), saved.format);
+      return t('components.reports.generated');
+    }) }, t('components.reports.generate')),
+    h('button', { className: 'report-btn', disabled: state.busy, onClick: () => run(async () => {
+      const saved = save();
+      // Keep the server's copy in step with the local one.
+      if (onServer) await pushServerReportTemplate(saved).then(refreshServer);
+      return t('components.reports.saved');
+    }) }, t('components.reports.save')),
+    ...(template ? [h('button', { className: 'report-btn danger', disabled: state.busy, onClick: () => {
+      deleteReportTemplate(template.id);
+      state.selectedId = getReportTemplates()[0]?.id ?? null;
+      state.status = '';
+      rerender();
+    } }, t('components.reports.delete'))] : []),
+  ];
+
+  const schedule = template?.schedule;
+  const next = schedule ? nextRunAt(schedule, template.lastRunAt ?? template.createdAt) : null;
+  let scheduleNote = '';
+  if (!state.options.isDesktop && state.serverTemplates === null) {
+    scheduleNote = t('components.reports.scheduleUnavailable');
+  } else if (next !== null && (state.options.isDesktop || onServer)) {
+    scheduleNote = t('components.reports.nextRun', { time: formatTime(next) });
+  }
+
+  replaceChildren(root,
+    h('div', { className: 'report-builder-header' },
+      h('h3', null, t('components.reports.title')),
+      h('p', { className: 'hint' }, t('components.reports.hint')),
+    ),
+    h('div', { className: 'report-builder-body' },
+      h('div', { className: 'report-template-list' },
+        ...getReportTemplates().map(tpl =>
+          h('button', {
+            className: `report-template-item ${tpl.id === state.selectedId ? 'active' : ''}`,
+            onClick: () => { state.selectedId = tpl.id; state.status = ''; rerender(); },
+          },
+          tpl.name,
+          tpl.schedule.cadence !== 'off' ? h('span', { className: 'report-template-cadence' }, t(`components.reports.cadences.${tpl.schedule.cadence}`)) : null,
+          ),
+        ),
+        h('button', { className: 'report-template-item new', onClick: () => { state.selectedId = null; state.status = ''; rerender(); } },
+          `+ ${t('components.reports.newTemplate')}`),
+      ),
+      h('div', { className: 'report-template-form' },
+        h('label', { className: 'report-field' }, h('span', null, t('components.reports.name')), nameInput),
+        h('div', { className: 'report-field' },
+          h('span', null, t('components.reports.sections')),
+          h('div', { className: 'report-sections' },
+            ...sectionBoxes.map(b => h('label', { className: 'report-section-option' }, b.input, t(`components.reports.sectionNames.${b.id}`))),
+          ),
+        ),
+        h('label', { className: 'report-field' }, h('span', null, t('components.reports.countries')), countriesInput),
+        h('label', { className: 'report-field' }, h('span', null, t('components.reports.format')), formatSelect),
+        h('div', { className: 'report-field' },
+          h('span', null, t('components.reports.schedule')),
+          h('div', { className: 'report-schedule' }, cadenceSelect, hourSelect, weekdaySelect),
+          scheduleNote ? h('p', { className: 'hint' }, scheduleNote) : null,
+        ),
+        h('div', { className: 'report-actions' }, ...actions),
+        state.status ? h('div', { className: 'report-status' }, state.status) : null,
+      ),
+    ),
+    state.options.isDesktop
+      ? h('div', { className: 'report-builder-footer' },
+        h('button', { className: 'report-btn', onClick: () => run(async () => { await openReportsFolder(); }) }, t('components.reports.openFolder')),
+      )
+      : null,
+    state.serverTemplates !== null ? renderServer(state, template, onServer, run, save, refreshServer) : null,
+  );
+}
+
+function renderServer(
+  state: BuilderState,
+  template: ReportTemplate | undefined,
+  onServer: ReportTemplate | undefined,
+  run: (action: () => Promise<string | void>) => Promise<void>,
+  save: () => ReportTemplate,
+  refreshServer: () => Promise<void>,
+): HTMLElement {
+  const buttons = template
+    ? [
+      h('button', { className: 'report-btn', disabled: state.busy, onClick: () => run(async () => {
+        await pushServerReportTemplate(save());
+        await refreshServer();
+        return t('components.reports.serverScheduled');
+      }) }, onServer ? t('components.reports.serverUpdate') : t('components.reports.serverSchedule')),
+      ...(onServer ? [
+        h('button', { className: 'report-btn', disabled: state.busy, onClick: () => run(async () => {
+          const file = await runServerReport(onServer.id);
+          await refreshServer();
+          return t('components.reports.serverRan', { file: file.name });
+        }) }, t('components.reports.serverRun')),
+        h('button', { className: 'report-btn danger', disabled: state.busy, onClick: () => run(async () => {
+          await deleteServerReportTemplate(onServer.id);
+          await refreshServer();
+          return t('components.reports.serverRemoved');
+        }) }, t('components.reports.serverRemove')),
+      ] : []),
+    ]
+    : [];
+
+  return h('div', { className: 'report-server' },
+    h('h4', null, t('components.reports.serverTitle')),
+    h('p', { className: 'hint' }, t('components.reports.serverHint', { count: String(state.serverTemplates?.length ?? 0) })),
+    buttons.length ? h('div', { className: 'report-actions' }, ...buttons) : null,
+    state.serverFiles.length === 0
+      ? h('p', { className: 'empty' }, t('components.reports.serverNoFiles'))
+      : h('ul', { className: 'report-server-files' },
+        ...state.serverFiles.slice(0, 20).map(file =>
+          h('li', null,
+            h('a', { href: serverReportUrl(file), target: '_blank', rel: 'noopener' }, file.name),
+            h('span', { className: 'report-file-time' }, formatTime(file.createdAt)),
+          ),
+        ),
+      ),
+  );
+}
+
+/** Open the report builder: manage templates, generate now, and schedule runs. */
+export function openReportBuilder(options: ReportBuilderOptions): void {
+  closeReportBuilder();
+
+  const root = h('div', { className: 'report-builder' });
+  const state: BuilderState = {
+    options,
+    selectedId: getReportTemplates()[0]?.id ?? null,
+    serverTemplates: null,
+    serverFiles: [],
+    status: '',
+    busy: false,
+  };
+
+  modalEl = h('div', { className: 'report-builder-overlay', onClick: (e: Event) => { if (e.target === modalEl) closeReportBuilder(); } },
+    h('div', { className: 'report-builder-modal' },
+      h('button', { className: 'report-builder-close', title: t('components.newsPanel.close'), onClick: closeReportBuilder }, '×'),
+      root,
+    ),
+  );
+  render(root, state);
+
+  void fetchServerReportTemplates().then(async templates => {
+    if (!templates || !root.isConnected) return;
+    state.serverTemplates = templates;
+    state.serverFiles = await listServerReports().catch(() => []);
+    render(root, state);
+  });
+
+  escHandler = (e: KeyboardEvent) => { if (e.key === 'Escape') closeReportBuilder(); };
+  document.addEventListener('keydown', escHandler);
+  document.body.appendChild(modalEl);
+}
+
+export function closeReportBuilder(): void {
+  if (escHandler) {
+    document.removeEventListener('keydown', escHandler);
+    escHandler = null;
+  }
+  modalEl?.remove();
+  modalEl = null;
+}
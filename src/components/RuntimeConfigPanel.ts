@@ -48,6 +48,8 @@ const PLAINTEXT_KEYS = new Set<RuntimeSecretKey>([
   'OLLAMA_MODEL',
   'WS_RELAY_URL',
   'VITE_OPENSKY_RELAY_URL',
+  'SMTP_FROM',
+  'ALERT_EMAIL_RECIPIENTS',
 ]);
 
 const MASKED_SENTINEL = '__WM_MASKED__';
@@ -0,0 +1,204 @@
+import { Panel } from './Panel';
+import { t } from '@/services/i18n';
+import { formatTime } from '@/utils';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  SANCTIONS_SOURCE_LABELS,
+  getSanctionsHits,
+  getSanctionsLists,
+  importSanctionsFile,
+  onSanctionsChanged,
+  removeSanctionsList,
+  searchSanctions,
+  type SanctionsHit,
+  type SanctionsList,
+  type SanctionsMatch,
+} from '@/services/sanctions';
+
+const FILE_ACCEPT = '.xml,.csv,text/xml,application/xml,text/csv';
+const MAX_LISTED = 50;
+const MAX_SEARCH_RESULTS = 20;
+
+const SUBJECT_ICONS: Record<SanctionsHit['kind'], string> = {
+  vessel: '🚢',
+  aircraft: '✈️',
+  entity: '🏢',
+};
+
+/**
+ * Locally loaded sanctions lists and the vessels, aircraft and news entities
+ * matched against them. Lists are imported from the files OFAC, the EU, UK
+ * OFSI and the UN publish; a search box looks up names and identifiers.
+ */
+export class SanctionsPanel extends Panel {
+  private lists: SanctionsList[] = [];
+  private searchResults: SanctionsMatch[] | null = null;
+  private query = '';
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  private listsEl: HTMLElement;
+  private hitsEl: HTMLElement;
+  private error: HTMLElement;
+  private search: HTMLElement;
+  private results: HTMLElement;
+  private onLocationClick?: (lat: number, lon: number) => void;
+  private unsubscribe: () => void;
+
+  constructor() {
+    super({
+      id: 'sanctions-screening',
+      title: t('panels.sanctionsScreening'),
+      infoTooltip: t('components.sanctionsScreening.infoTooltip'),
+    });
+    this.listsEl = h('div', { className: 'sanctions-lists-wrap' });
+    this.hitsEl = h('div', { className: 'sanctions-hits-wrap' });
+    this.error = h('div', { className: 'sanctions-error' });
+    this.results = h('div', { className: 'sanctions-results' });
+    // Kept outside the body so refreshes do not take focus from the search box.
+    this.search = h('div', { className: 'sanctions-search-wrap' },
+      h('input', {
+        type: 'search',
+        className: 'sanctions-search',
+        placeholder: t('components.sanctionsScreening.search'),
+        onInput: (e: Event) => {
+          this.query = (e.target as HTMLInputElement).value;
+          if (this.searchTimer) clearTimeout(this.searchTimer);
+          this.searchTimer = setTimeout(() => void this.runSearch(), 250);
+        },
+      }),
+      this.results,
+    );
+    replaceChildren(this.content, this.renderImport(), this.error, this.listsEl, this.search, this.hitsEl);
+    this.unsubscribe = onSanctionsChanged(() => void this.refresh());
+    void this.refresh();
+  }
+
+  public setLocationClickHandler(handler: (lat: number, lon: number) => void): void {
+    this.onLocationClick = handler;
+  }
+
+  private async refresh(): Promise<void> {
+    this.lists = await getSanctionsLists();
+    if (this.query.trim()) await this.runSearch();
+    this.setCount(getSanctionsHits().length);
+    this.render();
+  }
+
+  private renderImport(): HTMLElement {
+    const file = h('input', { type: 'file', className: 'sanctions-file', accept: FILE_ACCEPT }) as HTMLInputElement;
+    file.addEventListener('change', async () => {
+      const selected = file.files?.[0];
+      if (!selected) return;
+      this.error.textContent = '';
+      try {
+        await importSanctionsFile(selected.name, await selected.text());
+      } catch (err) {
+        this.error.textContent = err instanceof Error ? err.message : String(err);
+      }
+      file.value = '';
+    });
+    return h('div', { className: 'sanctions-import' },
+      h('label', { className: 'sanctions-import-label' }, t('components.sanctionsScreening.import'), file),
+      h('span', { className: 'sanctions-muted' }, t('components.sanctionsScreening.formats')),
+    );
+  }
+
+  private renderLists(): HTMLElement {
+    if (this.lists.length === 0) return h('p', { className: 'sanctions-muted' }, t('components.sanctionsScreening.noLists'));
+    return h('ul', { className: 'sanctions-lists' },
+      ...this.lists.map(list => h('li', { className: 'sanctions-list-row' },
+        h('strong', null, SANCTIONS_SOURCE_LABELS[list.source]),
+        h('span', { className: 'sanctions-muted' },
+          t('components.sanctionsScreening.listMeta', {
+            count: list.parties.length.toLocaleString(),
+            date: list.publishedAt || formatTime(new Date(list.importedAt)),
+          })),
+        h('button', {
+          type: 'button',
+          className: 'sanctions-remove',
+          title: t('components.sanctionsScreening.remove'),
+          onClick: () => void removeSanctionsList(list.source),
+        }, '×'),
+      )),
+    );
+  }
+
+  private renderMatch(match: SanctionsMatch): HTMLElement {
+    const { party } = match;
+    const ids = [
+      party.imo ? `IMO ${party.imo}` : '',
+      party.mmsi ? `MMSI ${party.mmsi}` : '',
+      ...(party.tailNumbers ?? []),
+    ].filter(Boolean).join(' · ');
+    return h('div', { className: `sanctions-match sanctions-match-${match.matchedOn}` },
+      h('div', null,
+        h('strong', null, party.name),
+        h('span', { className: 'sanctions-badge' }, SANCTIONS_SOURCE_LABELS[party.source]),
+        h('span', { className: 'sanctions-muted' }, ` ${t(`components.sanctionsScreening.kinds.${party.kind}`)}`),
+      ),
+      h('div', { className: 'sanctions-muted' },
+        [
+          t('components.sanctionsScreening.matchedOn', { field: t(`components.sanctionsScreening.fields.${match.matchedOn}`), score: String(Math.round(match.score * 100)) }),
+          party.programs.join(', '),
+          ids,
+        ].filter(Boolean).join(' · ')),
+      party.aliases.length
+        ? h('div', { className: 'sanctions-muted' }, t('components.sanctionsScreening.aliases', { aliases: party.aliases.slice(0, 4).join('; ') }))
+        : null,
+    );
+  }
+
+  private async runSearch(): Promise<void> {
+    this.searchResults = this.query.trim() ? await searchSanctions(this.query) : null;
+    this.renderSearchResults();
+  }
+
+  private renderSearchResults(): void {
+    if (!this.searchResults) {
+      replaceChildren(this.results);
+      return;
+    }
+    replaceChildren(this.results,
+      this.searchResults.length === 0
+        ? h('p', { className: 'sanctions-muted' }, t('components.sanctionsScreening.noResults'))
+        : h('div', null, ...this.searchResults.slice(0, MAX_SEARCH_RESULTS).map(m => this.renderMatch(m))),
+    );
+  }
+
+  private renderHit(hit: SanctionsHit): HTMLElement {
+    const { lat, lon } = hit;
+    return h('li', { className: 'sanctions-hit' },
+      h('div', { className: 'sanctions-hit-header' },
+        h('span', null, SUBJECT_ICONS[hit.kind]),
+        h('strong', null, hit.label),
+        h('span', { className: 'sanctions-muted' }, hit.subjectId),
+        lat != null && lon != null
+          ? h('button', { type: 'button', className: 'sanctions-locate', onClick: () => this.onLocationClick?.(lat, lon) }, t('components.sanctionsScreening.locate'))
+          : null,
+        h('span', { className: 'sanctions-seen' }, formatTime(new Date(hit.lastSeen))),
+      ),
+      hit.context ? h('div', { className: 'sanctions-muted' }, hit.context) : null,
+      ...hit.matches.slice(0, 3).map(m => this.renderMatch(m)),
+    );
+  }
+
+  private render(): void {
+    const hits = getSanctionsHits();
+    this.search.hidden = this.lists.length === 0;
+    replaceChildren(this.listsEl,
+      h('div', { className: 'sanctions-section' }, t('components.sanctionsScreening.listsTitle')),
+      this.renderLists(),
+    );
+    replaceChildren(this.hitsEl,
+      h('div', { className: 'sanctions-section' }, t('components.sanctionsScreening.matchesTitle')),
+      hits.length === 0
+        ? h('p', { className: 'sanctions-muted' }, t(this.lists.length === 0 ? 'components.sanctionsScreening.importFirst' : 'components.sanctionsScreening.noMatches'))
+        : h('ul', { className: 'sanctions-hits' }, ...hits.slice(0, MAX_LISTED).map(hit => this.renderHit(hit))),
+    );
+  }
+
+  public override destroy(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.unsubscribe();
+    super.destroy();
+  }
+}
@@ -8,7 +8,7 @@ interface CommandResult {
   score: number;
 }
 
-export type SearchResultType = 'country' | 'news' | 'hotspot' | 'market' | 'prediction' | 'conflict' | 'base' | 'pipeline' | 'cable' | 'datacenter' | 'earthquake' | 'outage' | 'nuclear' | 'irradiator' | 'techcompany' | 'ailab' | 'startup' | 'techevent' | 'techhq' | 'accelerator' | 'exchange' | 'financialcenter' | 'centralbank' | 'commodityhub';
+export type SearchResultType = 'country' | 'news' | 'hotspot' | 'market' | 'prediction' | 'conflict' | 'base' | 'pipeline' | 'cable' | 'datacenter' | 'earthquake' | 'outage' | 'nuclear' | 'irradiator' | 'techcompany' | 'ailab' | 'startup' | 'techevent' | 'techhq' | 'accelerator' | 'exchange' | 'financialcenter' | 'centralbank' | 'commodityhub' | 'cluster' | 'gdelt' | 'ucdp' | 'acled' | 'unrest';
 
 export interface SearchResult {
   type: SearchResultType;
@@ -27,6 +27,8 @@ const RECENT_SEARCHES_KEY = 'worldmonitor_recent_searches';
 const MAX_RECENT = 8;
 const MAX_RESULTS = 24;
 const MAX_COMMANDS = 5;
+const MIN_SEMANTIC_QUERY_LENGTH = 4;
+const SEMANTIC_DEBOUNCE_MS = 300;
 
 interface SearchModalOptions {
   placeholder?: string;
@@ -41,6 +43,9 @@ export class SearchModal {
   private sources: SearchableSource[] = [];
   private results: SearchResult[] = [];
   private commandResults: CommandResult[] = [];
+  private semanticResults: SearchResult[] = [];
+  private semanticProvider?: (query: string) => Promise<SearchResult[]>;
+  private semanticTimer: ReturnType<typeof setTimeout> | null = null;
   private selectedIndex = 0;
   private recentSearches: string[] = [];
   private onSelect?: (result: SearchResult) => void;
@@ -73,6 +78,14 @@ export class SearchModal {
     this.onCommand = callback;
   }
 
+  /**
+   * Meaning-based lookup run after the keyword pass. Its hits are listed
+   * below the keyword results once they arrive.
+   */
+  public setSemanticProvider(provider: (query: string) => Promise<SearchResult[]>): void {
+    this.semanticProvider = provider;
+  }
+
   public setActivePanels(panelIds: string[]): void {
     this.activePanelIds = new Set(panelIds);
   }
@@ -92,8 +105,13 @@ export class SearchModal {
       this.resultsList = null;
       this.results = [];
       this.commandResults = [];
+      this.semanticResults = [];
       this.selectedIndex = 0;
     }
+    if (this.semanticTimer) {
+      clearTimeout(this.semanticTimer);
+      this.semanticTimer = null;
+    }
   }
 
   public isOpen(): boolean {
@@ -154,6 +172,7 @@ export class SearchModal {
 
   private handleSearch(): void {
     const query = this.input?.value.trim().toLowerCase() || '';
+    this.scheduleSemanticSearch(query);
 
     if (!query) {
       this.commandResults = [];
@@ -209,6 +228,29 @@ export class SearchModal {
     this.renderResults();
   }
 
+  private scheduleSemanticSearch(query: string): void {
+    if (this.semanticTimer) clearTimeout(this.semanticTimer);
+    this.semanticTimer = null;
+    this.semanticResults = [];
+    const provider = this.semanticProvider;
+    if (!provider || query.length < MIN_SEMANTIC_QUERY_LENGTH) return;
+
+    this.semanticTimer = setTimeout(async () => {
+      this.semanticTimer = null;
+      let results: SearchResult[];
+      try {
+        results = await provider(query);
+      } catch (error) {
+        console.warn('[Search] Semantic search failed:', error);
+        return;
+      }
+      if (!this.isOpen() || (this.input?.value.trim().toLowerCase() || '') !== query) return;
+      const shown = new Set(this.results.map(r => `${r.type}:${r.id}`));
+      this.semanticResults = results.filter(r => !shown.has(`${r.type}:${r.id}`));
+      if (this.semanticResults.length > 0) this.renderResults();
+    }, SEMANTIC_DEBOUNCE_MS);
+  }
+
   private showRecentOrEmpty(): void {
     this.results = [];
 
@@ -265,13 +307,13 @@ export class SearchModal {
   }
 
   private get totalResultCount(): number {
-    return this.commandResults.length + this.results.length;
+    return this.commandResults.length + this.results.length + this.semanticResults.length;
   }
 
   private renderResults(): void {
     if (!this.resultsList) return;
 
-    if (this.commandResults.length === 0 && this.results.length === 0) {
+    if (this.totalResultCount === 0) {
       this.resultsList.innerHTML = `
         <div class="search-empty">
           <div class="search-empty-icon">\u2205</div>
@@ -306,6 +348,11 @@ export class SearchModal {
       financialcenter: '\u{1F4B0}',
       centralbank: '\u{1F3E6}',
       commodityhub: '\u{1F4E6}',
+      cluster: '\u{1F5DE}\uFE0F',
+      gdelt: '\u{1F50D}',
+      ucdp: '\u2694\uFE0F',
+      acled: '\u{1F4A5}',
+      unrest: '\u270A',
     };
 
     let html = '';
@@ -329,7 +376,7 @@ export class SearchModal {
       }
     }
 
-    for (const result of this.results) {
+    const renderItem = (result: SearchResult) => {
       html += `
         <div class="search-result-item ${globalIndex === this.selectedIndex ? 'selected' : ''}" data-index="${globalIndex}">
           <span class="search-result-icon">${icons[result.type]}</span>
@@ -340,6 +387,13 @@ export class SearchModal {
           <span class="search-result-type">${escapeHtml(t(`modals.search.types.${result.type}`) || result.type)}</span>
         </div>`;
       globalIndex++;
+    };
+
+    this.results.forEach(renderItem);
+
+    if (this.semanticResults.length > 0) {
+      html += `<div class="search-section-header">${t('modals.search.related')}</div>`;
+      this.semanticResults.forEach(renderItem);
     }
 
     this.resultsList.innerHTML = html;
@@ -422,7 +476,7 @@ export class SearchModal {
     }
 
     const entityIndex = index - this.commandResults.length;
-    const result = this.results[entityIndex];
+    const result = this.results[entityIndex] ?? this.semanticResults[entityIndex - this.results.length];
     if (!result) return;
 
     this.saveRecentSearch(this.input?.value.trim() || '');
@@ -249,6 +249,11 @@ export class SignalModal {
       explained_market_move: `✓ ${t('modals.signal.marketMove')}`,
       sector_cascade: `📊 ${t('modals.signal.sectorCascade')}`,
       military_surge: `🛩️ ${t('modals.signal.militarySurge')}`,
+      cii_shift: `📉 ${t('modals.signal.ciiShift')}`,
+      geofence_hit: `📍 ${t('modals.signal.geofenceHit')}`,
+      airframe_deviation: `🛩️ ${t('modals.signal.airframeDeviation')}`,
+      vessel_anomaly: `🚢 ${t('modals.signal.vesselAnomaly')}`,
+      sanctions_match: `⛔ ${t('modals.signal.sanctionsMatch')}`,
     };
 
     const html = this.currentSignals.map(signal => {
@@ -1,25 +1,57 @@
 import { Panel } from './Panel';
-import type {
-  GetShippingRatesResponse,
-  GetChokepointStatusResponse,
-  GetCriticalMineralsResponse,
+import {
+  assessRouteRisk,
+  parseRouteQuery,
+  riskLevel,
+  type GetShippingRatesResponse,
+  type GetChokepointStatusResponse,
+  type GetCriticalMineralsResponse,
+  type RouteRiskAssessment,
+  type RouteRiskParseResult,
+  type SupplyRoute,
+  type SupplyRouteHighlight,
 } from '@/services/supply-chain';
 import { t } from '@/services/i18n';
 import { escapeHtml } from '@/utils/sanitize';
 import { isFeatureAvailable, getSecretValue } from '@/services/runtime-config';
 import { isDesktopRuntime } from '@/services/runtime';
 
-type TabId = 'chokepoints' | 'shipping' | 'minerals';
+type TabId = 'chokepoints' | 'shipping' | 'minerals' | 'routes';
+
+const ROUTE_EXAMPLES = ['cobalt DRC→China', 'LNG Qatar→EU', 'crude oil Saudi Arabia→India', 'lithium Chile→China'];
 
 export class SupplyChainPanel extends Panel {
   private shippingData: GetShippingRatesResponse | null = null;
   private chokepointData: GetChokepointStatusResponse | null = null;
   private mineralsData: GetCriticalMineralsResponse | null = null;
   private activeTab: TabId = 'chokepoints';
+  private routeInput = '';
+  private routeParse: RouteRiskParseResult | null = null;
+  private selectedRouteId: string | null = null;
+  private onRouteHighlight?: (highlight: SupplyRouteHighlight | null) => void;
+
   constructor() {
     super({ id: 'supply-chain', title: t('panels.supplyChain') });
     this.content.addEventListener('click', (e) => {
-      const target = (e.target as HTMLElement).closest('.economic-tab') as HTMLElement | null;
+      const el = e.target as HTMLElement;
+      const example = el.closest('[data-route-example]') as HTMLElement | null;
+      if (example) {
+        this.assessRoute(example.dataset.routeExample!);
+        return;
+      }
+      const routeCard = el.closest('[data-route-id]') as HTMLElement | null;
+      if (routeCard) {
+        this.selectedRouteId = routeCard.dataset.routeId!;
+        this.render();
+        return;
+      }
+      if (el.closest('.sc-route-clear')) {
+        this.selectedRouteId = null;
+        this.onRouteHighlight?.(null);
+        this.render();
+        return;
+      }
+      const target = el.closest('.economic-tab') as HTMLElement | null;
       if (!target) return;
       const tabId = target.dataset.tab as TabId;
       if (tabId && tabId !== this.activeTab) {
@@ -27,9 +59,29 @@ export class SupplyChainPanel extends Panel {
         this.render();
       }
     });
+    this.content.addEventListener('submit', (e) => {
+      const form = (e.target as HTMLElement).closest('.sc-route-form') as HTMLFormElement | null;
+      if (!form) return;
+      e.preventDefault();
+      this.assessRoute((form.elements.namedItem('route') as HTMLInputElement).value);
+    });
     setTimeout(() => this.checkAndLoadAI(), 8000);
   }
 
+  /** Called with the routes to draw on the map, or null to clear them. */
+  public setRouteHighlightHandler(handler: (highlight: SupplyRouteHighlight | null) => void): void {
+    this.onRouteHighlight = handler;
+  }
+
+  private assessRoute(input: string): void {
+    this.routeInput = input.trim();
+    this.routeParse = this.routeInput ? parseRouteQuery(this.routeInput) : null;
+    this.selectedRouteId = this.routeParse?.ok ? '' : null;
+    if (!this.routeParse?.ok) this.onRouteHighlight?.(null);
+    this.activeTab = 'routes';
+    this.render();
+  }
+
   private async checkAndLoadAI(): Promise<void> {
     const hasData = (this.chokepointData?.chokepoints.length ?? 0) > 0;
     if (hasData) return;
@@ -101,12 +153,29 @@ Include 6 chokepoints (Bab el-Mandeb critical, Panama Canal elevated, Strait of
         <button class="economic-tab ${this.activeTab === 'minerals' ? 'active' : ''}" data-tab="minerals">
           ${t('components.supplyChain.minerals')}
         </button>
+        <button class="economic-tab ${this.activeTab === 'routes' ? 'active' : ''}" data-tab="routes">
+          ${t('components.supplyChain.routes')}
+        </button>
       </div>
     `;
 
     const activeData = this.activeTab === 'chokepoints' ? this.chokepointData
       : this.activeTab === 'shipping' ? this.shippingData
-      : this.mineralsData;
+      : this.activeTab === 'minerals' ? this.mineralsData
+      : null;
+    // Re-scored on every feed update so the map follows the latest data.
+    const assessment = this.routeParse?.ok
+      ? assessRouteRisk(this.routeParse.query, {
+        chokepoints: this.chokepointData?.chokepoints,
+        minerals: this.mineralsData?.minerals,
+        shipping: this.shippingData?.indices,
+      })
+      : null;
+    if (assessment && this.selectedRouteId !== null) {
+      const selected = assessment.routes.find(r => r.id === this.selectedRouteId) ?? assessment.routes[0];
+      this.selectedRouteId = selected?.id ?? null;
+      this.onRouteHighlight?.(selected ? { routes: assessment.routes, selectedId: selected.id } : null);
+    }
     const unavailableBanner = activeData?.upstreamUnavailable
       ? `<div class="economic-warning">${t('components.supplyChain.upstreamUnavailable')}</div>`
       : '';
@@ -116,6 +185,7 @@ Include 6 chokepoints (Bab el-Mandeb critical, Panama Canal elevated, Strait of
       case 'chokepoints': contentHtml = this.renderChokepoints(); break;
       case 'shipping': contentHtml = this.renderShipping(); break;
       case 'minerals': contentHtml = this.renderMinerals(); break;
+      case 'routes': contentHtml = this.renderRouteRisk(assessment); break;
     }
 
     this.setContent(`
@@ -239,4 +309,80 @@ Include 6 chokepoints (Bab el-Mandeb critical, Panama Canal elevated, Strait of
       </table>
     </div>`;
   }
+
+  private renderRouteRisk(assessment: RouteRiskAssessment | null): string {
+    const form = `<form class="sc-route-form">
+      <input class="sc-route-input" name="route" type="text" autocomplete="off"
+        value="${escapeHtml(this.routeInput)}" placeholder="${escapeHtml(t('components.supplyChain.routePlaceholder'))}" />
+      <button class="sc-route-submit" type="submit">${t('components.supplyChain.assessRoute')}</button>
+    </form>
+    <div class="sc-route-examples">
+      ${ROUTE_EXAMPLES.map(ex => `<button class="sc-route-example" data-route-example="${escapeHtml(ex)}">${escapeHtml(ex)}</button>`).join('')}
+    </div>`;
+
+    if (this.routeParse && !this.routeParse.ok) {
+      const { error, value } = this.routeParse;
+      return `${form}<div class="economic-warning">${escapeHtml(t(`components.supplyChain.routeError.${error}`, { value: value ?? '' }))}</div>`;
+    }
+    if (!assessment) {
+      return `${form}<div class="economic-empty">${t('components.supplyChain.routeHint')}</div>`;
+    }
+
+    const { query, concentration, rateTrend } = assessment;
+    const primary = assessment.routes[0];
+    const noData = t('components.supplyChain.noRiskData');
+    const factor = (label: string, score: number | null, detail: string) => `<tr>
+        <td>${label}</td>
+        <td>${score === null ? `<span class="sc-route-muted">${noData}</span>` : `<span class="sc-risk-${riskLevel(score)}">${Math.round(score)}/100</span>`}</td>
+        <td>${escapeHtml(detail)}</td>
+      </tr>`;
+    const concentrationDetail = concentration
+      ? `HHI ${concentration.hhi.toFixed(0)}${concentration.originSharePct !== null
+        ? ` · ${t('components.supplyChain.originShare', { share: concentration.originSharePct.toFixed(0) })}` : ''}`
+      : query.commodity.mineral ? '' : t('components.supplyChain.notTrackedMineral');
+    const rateDetail = rateTrend
+      ? `${rateTrend.indexName} ${rateTrend.changePct >= 0 ? '+' : ''}${rateTrend.changePct.toFixed(1)}%${rateTrend.spikeAlert ? ` · ${t('components.supplyChain.spike')}` : ''}`
+      : '';
+
+    return `${form}
+      <div class="sc-route-summary">
+        <span class="trade-country">${escapeHtml(query.commodity.name)} · ${escapeHtml(query.origin.name)} → ${escapeHtml(query.destination.name)}</span>
+        <span class="sc-route-score sc-risk-${assessment.level}">${assessment.risk}/100 ${t(`components.supplyChain.riskLevel.${assessment.level}`)}</span>
+      </div>
+      <div class="trade-tariffs-table">
+        <table>
+          <tbody>
+            ${factor(t('components.supplyChain.chokepointRisk'), primary?.chokepointRisk ?? null, primary ? this.routeLabel(primary) : '')}
+            ${factor(t('components.supplyChain.concentrationRisk'), concentration?.score ?? null, concentrationDetail)}
+            ${factor(t('components.supplyChain.rateTrend'), rateTrend?.score ?? null, rateDetail)}
+          </tbody>
+        </table>
+      </div>
+      <div class="trade-restrictions-list sc-route-list">
+        ${assessment.routes.map((route, i) => this.renderRouteCard(route, i === 0)).join('')}
+      </div>
+      ${this.selectedRouteId ? `<button class="sc-route-clear">${t('components.supplyChain.clearRoute')}</button>` : ''}`;
+  }
+
+  private renderRouteCard(route: SupplyRoute, likely: boolean): string {
+    const waypoints = route.waypoints.map(w => {
+      const score = w.score === null ? t('components.supplyChain.unscored') : `${Math.round(w.score)}`;
+      const cls = w.score === null ? 'sc-route-muted' : `sc-risk-${riskLevel(w.score)}`;
+      return `<span class="sc-route-waypoint">${escapeHtml(w.name)} <span class="${cls}">${score}</span></span>`;
+    }).join('');
+    return `<div class="trade-restriction-card sc-route-card ${route.id === this.selectedRouteId ? 'active' : ''}" data-route-id="${escapeHtml(route.id)}">
+      <div class="trade-restriction-header">
+        <span class="trade-country">${escapeHtml(this.routeLabel(route))}</span>
+        <span class="trade-badge">${t(likely ? 'components.supplyChain.likelyRoute' : 'components.supplyChain.alternativeRoute')}</span>
+        <span class="trade-badge">${route.distanceKm.toLocaleString()} km</span>
+        <span class="sc-route-score sc-risk-${route.level}">${route.risk}/100</span>
+      </div>
+      <div class="trade-restriction-body">${waypoints || `<span class="sc-route-muted">${t('components.supplyChain.openSea')}</span>`}</div>
+    </div>`;
+  }
+
+  private routeLabel(route: SupplyRoute): string {
+    if (route.waypoints.length === 0) return t('components.supplyChain.openSea');
+    return t('components.supplyChain.via', { waypoints: route.waypoints.map(w => w.name).join(', ') });
+  }
 }
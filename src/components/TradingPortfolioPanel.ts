@@ -1,42 +1,20 @@
 /**
  * NAVADA Portfolio Panel
  * Equity sparkline + KPI cards + strategy info.
- * Polls /api/trading/account, /api/trading/portfolio, /api/trading/status every 3 minutes.
+ * Polls TradingService account, portfolio and status RPCs every 3 minutes.
  */
 
 import { Panel } from './Panel';
-
-interface AccountData {
-  equity: number;
-  cash: number;
-  buying_power: number;
-  starting_capital: number;
-  total_return_pct: number;
-  daily_pnl: number;
-  updated_at: string;
-  error?: string;
-}
-
-interface PortfolioData {
-  metrics: {
-    total_return_pct: number;
-    max_drawdown_pct: number;
-    sharpe_ratio: number;
-    total_trades: number;
-    trading_days: number;
-    starting_capital: number;
-    current_equity: number;
-  };
-  equity_history: { date: string; equity: number }[];
-}
-
-interface StatusData {
-  system_status: string;
-  symbols: string[];
-  strategy: string;
-  risk_controls: { max_positions: number };
-  schedule: { next_execution: string };
-}
+import { escapeHtml } from '@/utils/sanitize';
+import {
+  fetchTradingAccount,
+  fetchTradingPortfolio,
+  fetchTradingStatus,
+  type EquityPoint,
+  type GetTradingPortfolioResponse,
+  type GetTradingStatusResponse,
+  type TradingAccount,
+} from '@/services/trading';
 
 export class TradingPortfolioPanel extends Panel {
   private timer: ReturnType<typeof setInterval> | null = null;
@@ -58,27 +36,23 @@ export class TradingPortfolioPanel extends Panel {
 
   private async loadData(retries = 2): Promise<void> {
     try {
-      const [acctRes, portfolioRes, statusRes] = await Promise.all([
-        fetch('/api/trading/account', { signal: this.signal }),
-        fetch('/api/trading/portfolio', { signal: this.signal }),
-        fetch('/api/trading/status', { signal: this.signal }),
+      const [acctRes, portfolio, status] = await Promise.all([
+        fetchTradingAccount(),
+        fetchTradingPortfolio(),
+        fetchTradingStatus(),
       ]);
 
-      if (!acctRes.ok || !portfolioRes.ok || !statusRes.ok) {
-        throw new Error('API returned non-200');
+      if (!acctRes || !portfolio || !status) {
+        throw new Error('Trading API unreachable');
       }
 
-      const acct: AccountData = await acctRes.json();
-      const portfolio: PortfolioData = await portfolioRes.json();
-      const status: StatusData = await statusRes.json();
-
-      if (acct.error) {
+      if (acctRes.error || !acctRes.account) {
         this.showError('Trading account unavailable');
         this.setDataBadge('unavailable');
         return;
       }
 
-      this.render(acct, portfolio, status);
+      this.render(acctRes.account, portfolio, status);
       this.setDataBadge('live');
       this.flashUpdate();
     } catch (err) {
@@ -93,18 +67,17 @@ export class TradingPortfolioPanel extends Panel {
     }
   }
 
-  private render(acct: AccountData, portfolio: PortfolioData, status: StatusData): void {
-    const returnPct = acct.total_return_pct;
+  private render(acct: TradingAccount, portfolio: GetTradingPortfolioResponse, status: GetTradingStatusResponse): void {
+    const returnPct = acct.totalReturnPct;
     const returnClass = returnPct >= 0 ? 'navada-positive' : 'navada-negative';
     const returnSign = returnPct >= 0 ? '+' : '';
-    const pnlClass = acct.daily_pnl >= 0 ? 'navada-positive' : 'navada-negative';
-    const pnlSign = acct.daily_pnl >= 0 ? '+' : '';
+    const pnlClass = acct.dailyPnl >= 0 ? 'navada-positive' : 'navada-negative';
+    const pnlSign = acct.dailyPnl >= 0 ? '+' : '';
 
-    const sparkline = this.buildSparklineSVG(portfolio.equity_history);
+    const sparkline = this.buildSparklineSVG(portfolio.equityHistory);
 
-    const metrics = portfolio.metrics;
-    const nextExec = status.schedule?.next_execution || 'N/A';
-    const nextLabel = this.formatScheduleTime(nextExec);
+    const metrics = portfolio.metrics ?? { maxDrawdownPct: 0, sharpeRatio: 0 };
+    const nextLabel = this.formatScheduleTime(status.schedule?.nextExecutionAt ?? 0);
 
     this.setContent(`
       <div class="navada-portfolio-content">
@@ -118,7 +91,7 @@ export class TradingPortfolioPanel extends Panel {
             <span class="navada-equity-label">TOTAL RETURN</span>
           </div>
           <div class="navada-hero-pnl">
-            <span class="navada-pnl-value ${pnlClass}">${pnlSign}$${Math.abs(acct.daily_pnl).toFixed(2)}</span>
+            <span class="navada-pnl-value ${pnlClass}">${pnlSign}$${Math.abs(acct.dailyPnl).toFixed(2)}</span>
             <span class="navada-equity-label">DAILY P&amp;L</span>
           </div>
         </div>
@@ -131,17 +104,17 @@ export class TradingPortfolioPanel extends Panel {
             <span class="navada-kpi-label">CASH</span>
           </div>
           <div class="navada-kpi-card">
-            <span class="navada-kpi-value navada-negative">-${metrics.max_drawdown_pct.toFixed(1)}%</span>
+            <span class="navada-kpi-value navada-negative">-${metrics.maxDrawdownPct.toFixed(1)}%</span>
             <span class="navada-kpi-label">MAX DRAWDOWN</span>
           </div>
           <div class="navada-kpi-card">
-            <span class="navada-kpi-value">${metrics.sharpe_ratio.toFixed(2)}</span>
+            <span class="navada-kpi-value">${metrics.sharpeRatio.toFixed(2)}</span>
             <span class="navada-kpi-label">SHARPE RATIO</span>
           </div>
         </div>
 
         <div class="navada-footer-row">
-          <span class="navada-footer-item">${status.strategy}</span>
+          <span class="navada-footer-item">${escapeHtml(status.strategy)}</span>
           <span class="navada-footer-sep">|</span>
           <span class="navada-footer-item">${status.symbols?.length || 0} symbols</span>
           <span class="navada-footer-sep">|</span>
@@ -151,7 +124,7 @@ export class TradingPortfolioPanel extends Panel {
     `);
   }
 
-  private buildSparklineSVG(history: { date: string; equity: number }[]): string {
+  private buildSparklineSVG(history: EquityPoint[]): string {
     if (!history || history.length < 2) return '';
     const w = 280;
     const h = 40;
@@ -179,18 +152,14 @@ export class TradingPortfolioPanel extends Panel {
     return n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
   }
 
-  private formatScheduleTime(s: string): string {
-    if (!s || s === 'N/A') return 'N/A';
-    try {
-      const d = new Date(s.replace(' ', 'T'));
-      const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-      const hh = d.getHours();
-      const mm = d.getMinutes().toString().padStart(2, '0');
-      const ampm = hh >= 12 ? 'PM' : 'AM';
-      const h12 = hh % 12 || 12;
-      return `${days[d.getDay()]} ${h12}:${mm} ${ampm}`;
-    } catch {
-      return s;
-    }
+  private formatScheduleTime(ts: number): string {
+    if (!ts) return 'N/A';
+    const d = new Date(ts);
+    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const hh = d.getHours();
+    const mm = d.getMinutes().toString().padStart(2, '0');
+    const ampm = hh >= 12 ? 'PM' : 'AM';
+    const h12 = hh % 12 || 12;
+    return `${days[d.getDay()]} ${h12}:${mm} ${ampm}`;
   }
 }
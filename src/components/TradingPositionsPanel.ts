@@ -1,30 +1,17 @@
 /**
  * NAVADA Positions Panel
  * Live positions table + recent trades.
- * Polls /api/trading/positions and /api/trading/trades every 2 minutes.
+ * Polls TradingService ListTradingPositions every 2 minutes.
  */
 
 import { Panel } from './Panel';
 import { escapeHtml } from '@/utils/sanitize';
-
-interface Position {
-  symbol: string;
-  qty: number;
-  entry_price: number;
-  current_price: number;
-  market_value: number;
-  unrealized_pl: number;
-  unrealized_plpc: number;
-  side: string;
-}
-
-interface Trade {
-  timestamp: string;
-  action: string;
-  symbol: string;
-  amount: number;
-  reasoning: string;
-}
+import {
+  fetchTradingPositions,
+  tradingActionLabel,
+  type TradeRecord,
+  type TradingPosition,
+} from '@/services/trading';
 
 export class TradingPositionsPanel extends Panel {
   private timer: ReturnType<typeof setInterval> | null = null;
@@ -46,18 +33,11 @@ export class TradingPositionsPanel extends Panel {
 
   private async loadData(retries = 2): Promise<void> {
     try {
-      const [posRes, tradeRes] = await Promise.all([
-        fetch('/api/trading/positions', { signal: this.signal }),
-        fetch('/api/trading/trades', { signal: this.signal }),
-      ]);
+      const data = await fetchTradingPositions(5);
+      if (!data) throw new Error('API error');
 
-      if (!posRes.ok || !tradeRes.ok) throw new Error('API error');
-
-      const posData = await posRes.json();
-      const tradeData = await tradeRes.json();
-
-      this.setCount(posData.count || 0);
-      this.render(posData.positions || [], posData.count || 0, posData.max_positions || 2, tradeData.trades || []);
+      this.setCount(data.positions.length);
+      this.render(data.positions, data.maxPositions || 2, data.trades);
       this.setDataBadge('live');
       this.flashUpdate();
     } catch (err) {
@@ -72,7 +52,7 @@ export class TradingPositionsPanel extends Panel {
     }
   }
 
-  private render(positions: Position[], count: number, maxPos: number, trades: Trade[]): void {
+  private render(positions: TradingPosition[], maxPos: number, trades: TradeRecord[]): void {
     const positionsHtml = positions.length > 0
       ? positions.map(p => this.renderPosition(p)).join('')
       : '<div class="navada-empty">No open positions</div>';
@@ -85,7 +65,7 @@ export class TradingPositionsPanel extends Panel {
       <div class="navada-positions-content">
         <div class="navada-positions-header">
           <span class="navada-section-label">OPEN POSITIONS</span>
-          <span class="navada-count-badge">${count}/${maxPos}</span>
+          <span class="navada-count-badge">${positions.length}/${maxPos}</span>
         </div>
         <div class="navada-positions-list">${positionsHtml}</div>
 
@@ -99,37 +79,38 @@ export class TradingPositionsPanel extends Panel {
     `);
   }
 
-  private renderPosition(p: Position): string {
-    const plClass = p.unrealized_pl >= 0 ? 'navada-positive' : 'navada-negative';
-    const arrow = p.unrealized_pl >= 0 ? '&#9650;' : '&#9660;';
-    const plSign = p.unrealized_pl >= 0 ? '+' : '';
-    const pctSign = p.unrealized_plpc >= 0 ? '+' : '';
+  private renderPosition(p: TradingPosition): string {
+    const plClass = p.unrealizedPl >= 0 ? 'navada-positive' : 'navada-negative';
+    const arrow = p.unrealizedPl >= 0 ? '&#9650;' : '&#9660;';
+    const plSign = p.unrealizedPl >= 0 ? '+' : '';
+    const pctSign = p.unrealizedPlpc >= 0 ? '+' : '';
 
     return `
       <div class="navada-position-item">
         <div class="navada-position-top">
           <span class="navada-position-symbol">${escapeHtml(p.symbol)}</span>
           <span class="navada-position-qty">${p.qty} share${p.qty !== 1 ? 's' : ''}</span>
-          <span class="navada-position-price">$${p.current_price.toFixed(2)}</span>
-          <span class="navada-position-pl ${plClass}">${plSign}$${Math.abs(p.unrealized_pl).toFixed(2)} ${arrow}</span>
+          <span class="navada-position-price">$${p.currentPrice.toFixed(2)}</span>
+          <span class="navada-position-pl ${plClass}">${plSign}$${Math.abs(p.unrealizedPl).toFixed(2)} ${arrow}</span>
         </div>
         <div class="navada-position-bottom">
-          <span class="navada-position-entry">entry $${p.entry_price.toFixed(2)}</span>
-          <span class="navada-position-pct ${plClass}">${pctSign}${p.unrealized_plpc.toFixed(1)}%</span>
+          <span class="navada-position-entry">entry $${p.entryPrice.toFixed(2)}</span>
+          <span class="navada-position-pct ${plClass}">${pctSign}${p.unrealizedPlpc.toFixed(1)}%</span>
         </div>
       </div>
     `;
   }
 
-  private renderTrade(t: Trade): string {
-    const badgeClass = t.action === 'BUY' ? 'navada-action-buy' : t.action === 'SELL' ? 'navada-action-sell' : '';
-    const amtLabel = typeof t.amount === 'number' ? `$${t.amount.toFixed(2)}` : String(t.amount);
-    const time = this.fmtTime(t.timestamp);
+  private renderTrade(t: TradeRecord): string {
+    const action = tradingActionLabel(t.action);
+    const badgeClass = action === 'BUY' ? 'navada-action-buy' : action === 'SELL' ? 'navada-action-sell' : '';
+    const amtLabel = `$${t.amount.toFixed(2)}`;
+    const time = this.fmtTime(t.executedAt);
     const reason = t.reasoning ? escapeHtml(t.reasoning.slice(0, 60)) + (t.reasoning.length > 60 ? '...' : '') : '';
 
     return `
       <div class="navada-trade-item">
-        <span class="navada-trade-badge ${badgeClass}">${escapeHtml(t.action)}</span>
+        <span class="navada-trade-badge ${badgeClass}">${action}</span>
         <span class="navada-trade-symbol">${escapeHtml(t.symbol)}</span>
         <span class="navada-trade-amt">${amtLabel}</span>
         <span class="navada-trade-reason">${reason}</span>
@@ -138,16 +119,12 @@ export class TradingPositionsPanel extends Panel {
     `;
   }
 
-  private fmtTime(ts: string): string {
+  private fmtTime(ts: number): string {
     if (!ts) return '';
-    try {
-      const d = new Date(ts);
-      const hh = d.getHours();
-      const mm = d.getMinutes().toString().padStart(2, '0');
-      const ampm = hh >= 12 ? 'PM' : 'AM';
-      return `${hh % 12 || 12}:${mm}${ampm.toLowerCase()}`;
-    } catch {
-      return '';
-    }
+    const d = new Date(ts);
+    const hh = d.getHours();
+    const mm = d.getMinutes().toString().padStart(2, '0');
+    const ampm = hh >= 12 ? 'PM' : 'AM';
+    return `${hh % 12 || 12}:${mm}${ampm.toLowerCase()}`;
   }
 }
@@ -6,7 +6,9 @@ import { getAiFlowSettings, setAiFlowSetting, getStreamQuality, setStreamQuality
 import type { StreamQuality } from '@/services/ai-flow-settings';
 import { escapeHtml } from '@/utils/sanitize';
 import { trackLanguageChange } from '@/services/analytics';
-import type { PanelConfig } from '@/types';
+import type { Monitor, PanelConfig } from '@/types';
+import { AlertRulesEditor } from './AlertRulesEditor';
+import { CustomFeedsEditor } from './CustomFeedsEditor';
 
 const GEAR_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>`;
 
@@ -20,10 +22,11 @@ export interface UnifiedSettingsConfig {
   setSourcesEnabled: (names: string[], enabled: boolean) => void;
   getAllSourceNames: () => string[];
   getLocalizedPanelName: (key: string, fallback: string) => string;
+  getMonitors: () => Monitor[];
   isDesktopApp: boolean;
 }
 
-type TabId = 'general' | 'panels' | 'sources';
+type TabId = 'general' | 'panels' | 'sources' | 'alerts';
 
 export class UnifiedSettings {
   private overlay: HTMLElement;
@@ -33,6 +36,8 @@ export class UnifiedSettings {
   private sourceFilter = '';
   private activePanelCategory = 'all';
   private panelFilter = '';
+  private alertEditor: AlertRulesEditor | null = null;
+  private customFeedsEditor: CustomFeedsEditor | null = null;
   private escapeHandler: (e: KeyboardEvent) => void;
 
   constructor(config: UnifiedSettingsConfig) {
@@ -209,6 +214,8 @@ export class UnifiedSettings {
 
   public destroy(): void {
     document.removeEventListener('keydown', this.escapeHandler);
+    this.alertEditor?.destroy();
+    this.customFeedsEditor?.destroy();
     this.overlay.remove();
   }
 
@@ -225,6 +232,7 @@ export class UnifiedSettings {
           <button class="${tabClass('general')}" data-tab="general">${t('header.tabGeneral')}</button>
           <button class="${tabClass('panels')}" data-tab="panels">${t('header.tabPanels')}</button>
           <button class="${tabClass('sources')}" data-tab="sources">${t('header.tabSources')}</button>
+          <button class="${tabClass('alerts')}" data-tab="alerts">${t('header.tabAlerts')}</button>
         </div>
         <div class="unified-settings-tab-panel${this.activeTab === 'general' ? ' active' : ''}" data-panel-id="general">
           ${this.renderGeneralContent()}
@@ -251,6 +259,10 @@ export class UnifiedSettings {
             <button class="sources-select-all">${t('common.selectAll')}</button>
             <button class="sources-select-none">${t('common.selectNone')}</button>
           </div>
+          <div class="custom-feeds" id="usCustomFeeds"></div>
+        </div>
+        <div class="unified-settings-tab-panel${this.activeTab === 'alerts' ? ' active' : ''}" data-panel-id="alerts">
+          <div id="usAlertRules"></div>
         </div>
       </div>
     `;
@@ -261,9 +273,23 @@ export class UnifiedSettings {
     this.renderRegionPills();
     this.renderSourcesGrid();
     this.updateSourcesCounter();
+    this.renderCustomFeeds();
+    this.renderAlertRules();
     if (!this.config.isDesktopApp) this.updateAiStatus();
   }
 
+  private renderAlertRules(): void {
+    const container = this.overlay.querySelector<HTMLElement>('#usAlertRules');
+    this.alertEditor?.destroy();
+    this.alertEditor = container ? new AlertRulesEditor(container, this.config.getMonitors) : null;
+  }
+
+  private renderCustomFeeds(): void {
+    const container = this.overlay.querySelector<HTMLElement>('#usCustomFeeds');
+    this.customFeedsEditor?.destroy();
+    this.customFeedsEditor = container ? new CustomFeedsEditor(container) : null;
+  }
+
   private switchTab(tab: TabId): void {
     this.activeTab = tab;
 
@@ -1,5 +1,17 @@
-import { h, Component } from 'preact';
 import { t } from '@/services/i18n';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  clearStoryVerdict,
+  getClusterConfidence,
+  getSourceRecord,
+  getSourceReliability,
+  getStoryVerdict,
+  saveStoryVerdict,
+  scoreChecklist,
+  type ChecklistVerdict,
+  type ClusterConfidence,
+} from '@/services/source-reliability';
+import type { ClusteredEvent } from '@/types';
 
 export interface VerificationCheck {
   id: string;
@@ -11,11 +23,25 @@ export interface VerificationCheck {
 export interface VerificationResult {
   score: number;  // 0-100
   checks: VerificationCheck[];
-  verdict: 'verified' | 'likely' | 'uncertain' | 'unreliable';
+  verdict: ChecklistVerdict;
   notes: string[];
 }
 
-function getVerificationTemplate(): VerificationCheck[] {
+/** The story a checklist is filled in for. */
+export interface VerificationStory {
+  id: string;
+  title: string;
+  primarySource: string;
+}
+
+const VERDICT_COLORS: Record<ChecklistVerdict, string> = {
+  verified: '#22c55e',
+  likely: '#84cc16',
+  uncertain: '#eab308',
+  unreliable: '#ef4444',
+};
+
+function getVerificationTemplate(checked: string[] = []): VerificationCheck[] {
   return [
     { id: 'recency', label: t('components.verification.checks.recency'), checked: false, icon: '🕐' },
     { id: 'geolocation', label: t('components.verification.checks.geolocation'), checked: false, icon: '📍' },
@@ -25,142 +51,200 @@ function getVerificationTemplate(): VerificationCheck[] {
     { id: 'no_recrop', label: t('components.verification.checks.noRecrop'), checked: false, icon: '🔄' },
     { id: 'metadata', label: t('components.verification.checks.metadata'), checked: false, icon: '📋' },
     { id: 'context', label: t('components.verification.checks.context'), checked: false, icon: '📖' },
-  ];
+  ].map(check => ({ ...check, checked: checked.includes(check.id) }));
 }
 
-export class VerificationChecklist extends Component {
-  private checks: VerificationCheck[] = getVerificationTemplate();
-  private notes: string[] = [];
-  private manualNote: string = '';
+/**
+ * Bellingcat-style verification checklist for one story. Ticks and notes are
+ * kept locally until saved; a saved verdict persists per story and counts
+ * toward the primary source's track record.
+ */
+export class VerificationChecklist {
+  private root: HTMLElement;
+  private story: VerificationStory;
+  private onSaved?: () => void;
+  private checks: VerificationCheck[];
+  private notes: string[];
+  private saved: boolean;
 
-  private toggleCheck(id: string): void {
-    this.checks = this.checks.map(c =>
-      c.id === id ? { ...c, checked: !c.checked } : c
-    );
-    this.setState({});
+  constructor(root: HTMLElement, story: VerificationStory, onSaved?: () => void) {
+    this.root = root;
+    this.story = story;
+    this.onSaved = onSaved;
+    const stored = getStoryVerdict(story.id);
+    this.checks = getVerificationTemplate(stored?.checked);
+    this.notes = stored?.notes ?? [];
+    this.saved = !!stored;
+    this.render();
   }
 
-  private addNote(): void {
-    if (this.manualNote.trim()) {
-      this.notes = [...this.notes, this.manualNote.trim()];
-      this.manualNote = '';
-      this.setState({});
-    }
+  public calculateResult(): VerificationResult {
+    const { score, verdict } = scoreChecklist(this.checks.filter(c => c.checked).length, this.checks.length);
+    return { score, checks: this.checks, verdict, notes: this.notes };
   }
 
-  private calculateResult(): VerificationResult {
-    const checkedCount = this.checks.filter(c => c.checked).length;
-    const score = Math.round((checkedCount / this.checks.length) * 100);
+  private toggleCheck(id: string): void {
+    this.checks = this.checks.map(c => (c.id === id ? { ...c, checked: !c.checked } : c));
+    this.saved = false;
+    this.render();
+  }
 
-    let verdict: VerificationResult['verdict'];
-    if (score >= 90) verdict = 'verified';
-    else if (score >= 70) verdict = 'likely';
-    else if (score >= 40) verdict = 'uncertain';
-    else verdict = 'unreliable';
+  private addNote(text: string): void {
+    if (!text.trim()) return;
+    this.notes = [...this.notes, text.trim()];
+    this.saved = false;
+    this.render();
+  }
 
-    return { score, checks: this.checks, verdict, notes: this.notes };
+  private save(): void {
+    const result = this.calculateResult();
+    saveStoryVerdict({
+      storyId: this.story.id,
+      title: this.story.title,
+      primarySource: this.story.primarySource,
+      checked: result.checks.filter(c => c.checked).map(c => c.id),
+      notes: result.notes,
+      score: result.score,
+      verdict: result.verdict,
+    });
+    this.saved = true;
+    this.render();
+    this.onSaved?.();
   }
 
   private reset(): void {
+    clearStoryVerdict(this.story.id);
     this.checks = getVerificationTemplate();
     this.notes = [];
-    this.manualNote = '';
-    this.setState({});
+    this.saved = false;
+    this.render();
+    this.onSaved?.();
   }
 
-  render() {
+  public render(): void {
     const result = this.calculateResult();
-
-    const verdictColors: Record<string, string> = {
-      verified: '#22c55e',
-      likely: '#84cc16',
-      uncertain: '#eab308',
-      unreliable: '#ef4444',
-    };
-
-    const verdictLabels: Record<string, string> = {
-      verified: t('components.verification.verdicts.verified'),
-      likely: t('components.verification.verdicts.likely'),
-      uncertain: t('components.verification.verdicts.uncertain'),
-      unreliable: t('components.verification.verdicts.unreliable'),
-    };
-
-    return h('div', { class: 'verification-checklist' },
-      h('div', { class: 'checklist-header' },
-        h('h3', null, t('components.verification.title')),
-        h('p', { class: 'hint' }, t('components.verification.hint')),
-      ),
-      h('div', {
-        class: 'score-display',
-        style: `background-color: ${verdictColors[result.verdict]}20; border-color: ${verdictColors[result.verdict]}`,
+    const color = VERDICT_COLORS[result.verdict];
+    const noteInput = h('input', {
+      type: 'text',
+      placeholder: t('components.verification.addNotePlaceholder'),
+      onKeyDown: (e: KeyboardEvent) => {
+        if (e.key === 'Enter') this.addNote((e.target as HTMLInputElement).value);
       },
-        h('div', { class: 'score-value' }, `${result.score}%`),
-        h('div', { class: 'score-label', style: `color: ${verdictColors[result.verdict]}` },
-          verdictLabels[result.verdict],
+    }) as HTMLInputElement;
+
+    replaceChildren(this.root,
+      h('div', { className: 'verification-checklist' },
+        h('div', { className: 'checklist-header' },
+          h('h3', null, t('components.verification.title')),
+          h('p', { className: 'hint' }, t('components.verification.hint')),
         ),
-      ),
-      h('div', { class: 'checks-grid' },
-        ...this.checks.map(check =>
-          h('label', { key: check.id, class: `check-item ${check.checked ? 'checked' : ''}` },
-            h('input', {
-              type: 'checkbox',
-              checked: check.checked,
-              onChange: () => this.toggleCheck(check.id),
-            }),
-            h('span', { class: 'icon' }, check.icon),
-            h('span', { class: 'label' }, check.label),
-          )
+        h('div', { className: 'score-display', style: `background-color: ${color}20; border-color: ${color}` },
+          h('div', { className: 'score-value' }, `${result.score}%`),
+          h('div', { className: 'score-label', style: `color: ${color}` }, t(`components.verification.verdicts.${result.verdict}`)),
         ),
-      ),
-      h('div', { class: 'notes-section' },
-        h('h4', null, t('components.verification.notesTitle')),
-        h('div', { class: 'notes-list' },
-          this.notes.length === 0
-            ? h('p', { class: 'empty' }, t('components.verification.noNotes'))
-            : this.notes.map((note, i) =>
-                h('div', { key: i, class: 'note-item' }, `• ${note}`)
-              ),
+        h('div', { className: 'checks-grid' },
+          ...this.checks.map(check =>
+            h('label', { className: `check-item ${check.checked ? 'checked' : ''}` },
+              h('input', { type: 'checkbox', checked: check.checked, onChange: () => this.toggleCheck(check.id) }),
+              h('span', { className: 'icon' }, check.icon),
+              h('span', { className: 'label' }, check.label),
+            ),
+          ),
         ),
-        h('div', { class: 'add-note' },
-          h('input', {
-            type: 'text',
-            value: this.manualNote,
-            onInput: (e: Event) => { this.manualNote = (e.target as HTMLInputElement).value; },
-            placeholder: t('components.verification.addNotePlaceholder'),
-            onKeyPress: (e: KeyboardEvent) => { if (e.key === 'Enter') this.addNote(); },
-          }),
-          h('button', { onClick: () => this.addNote() }, t('components.verification.add')),
+        h('div', { className: 'notes-section' },
+          h('h4', null, t('components.verification.notesTitle')),
+          h('div', { className: 'notes-list' },
+            ...(this.notes.length === 0
+              ? [h('p', { className: 'empty' }, t('components.verification.noNotes'))]
+              : this.notes.map(note => h('div', { className: 'note-item' }, `• ${note}`))),
+          ),
+          h('div', { className: 'add-note' },
+            noteInput,
+            h('button', { onClick: () => this.addNote(noteInput.value) }, t('components.verification.add')),
+          ),
+        ),
+        h('div', { className: 'checklist-actions' },
+          h('button', { className: 'save-btn', disabled: this.saved, onClick: () => this.save() },
+            this.saved ? t('components.verification.saved') : t('components.verification.saveVerdict')),
+          h('button', { className: 'reset-btn', onClick: () => this.reset() }, t('components.verification.resetChecklist')),
         ),
       ),
-      h('div', { class: 'checklist-actions' },
-        h('button', { class: 'reset-btn', onClick: () => this.reset() }, t('components.verification.resetChecklist')),
-      ),
-      h('style', null, `
-        .verification-checklist { background: var(--bg); border-radius: 8px; padding: 16px; max-width: 400px; }
-        .checklist-header h3 { margin: 0 0 4px; font-size: 14px; color: var(--accent); }
-        .hint { margin: 0; font-size: 11px; color: var(--text-muted); }
-        .score-display { margin: 16px 0; padding: 16px; border-radius: 8px; border: 2px solid; text-align: center; }
-        .score-value { font-size: 32px; font-weight: 700; color: var(--accent); }
-        .score-label { font-size: 12px; font-weight: 600; text-transform: uppercase; }
-        .checks-grid { display: flex; flex-direction: column; gap: 8px; margin: 16px 0; }
-        .check-item { display: flex; align-items: center; gap: 8px; padding: 8px; background: var(--surface-hover); border-radius: 4px; cursor: pointer; transition: background 0.2s; }
-        .check-item:hover { background: var(--border); }
-        .check-item.checked { background: color-mix(in srgb, var(--semantic-normal) 15%, var(--bg)); }
-        .check-item input { width: 16px; height: 16px; }
-        .icon { font-size: 14px; }
-        .label { font-size: 12px; color: var(--text); }
-        .notes-section { margin-top: 16px; padding-top: 16px; border-top: 1px solid var(--border); }
-        .notes-section h4 { margin: 0 0 8px; font-size: 12px; color: var(--text-dim); }
-        .notes-list { max-height: 100px; overflow-y: auto; }
-        .note-item { font-size: 11px; color: var(--text-faint); padding: 4px 0; }
-        .empty { font-size: 11px; color: var(--text-ghost); font-style: italic; }
-        .add-note { display: flex; gap: 8px; margin-top: 8px; }
-        .add-note input { flex: 1; padding: 6px 8px; background: var(--surface-hover); border: 1px solid var(--border-strong); border-radius: 4px; color: var(--text); font-size: 12px; }
-        .add-note button { padding: 6px 12px; background: var(--border-strong); border: none; border-radius: 4px; color: var(--accent); font-size: 12px; cursor: pointer; }
-        .checklist-actions { margin-top: 16px; padding-top: 16px; border-top: 1px solid var(--border); }
-        .reset-btn { width: 100%; padding: 8px; background: var(--border); border: none; border-radius: 4px; color: var(--text-dim); font-size: 12px; cursor: pointer; }
-        .reset-btn:hover { background: var(--border-strong); color: var(--text-faint); }
-      `),
     );
   }
 }
+
+// ---- Story verification modal ----
+
+let modalEl: HTMLElement | null = null;
+let escHandler: ((e: KeyboardEvent) => void) | null = null;
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function renderConfidence(root: HTMLElement, cluster: ClusteredEvent, confidence: ClusterConfidence): void {
+  const record = getSourceRecord(cluster.primarySource);
+  const row = (label: string, value: string) =>
+    h('div', { className: 'confidence-row' }, h('span', null, label), h('span', { className: 'confidence-value' }, value));
+
+  replaceChildren(root,
+    h('div', { className: `confidence-score ${confidence.level}` }, `${confidence.score}%`),
+    row(t('components.verification.confidence.sourceReliability'), percent(confidence.sourceReliability)),
+    row(t('components.verification.confidence.corroboration'), t('components.verification.confidence.outlets', { count: String(new Set(cluster.allItems.map(i => i.source)).size) })),
+    row(t('components.verification.confidence.wireConfirmed'), confidence.wireConfirmed ? t('components.verification.confidence.yes') : t('components.verification.confidence.no')),
+    ...(confidence.corrections > 0 ? [row(t('components.verification.confidence.corrections'), String(confidence.corrections))] : []),
+    h('div', { className: 'confidence-track' },
+      h('div', { className: 'confidence-track-title' }, t('components.verification.confidence.trackRecord', { source: cluster.primarySource })),
+      row(t('components.verification.confidence.reliability'), percent(getSourceReliability(cluster.primarySource))),
+      ...(record ? [
+        row(t('components.verification.confidence.stories'), String(record.reports)),
+        row(t('components.verification.confidence.firstToReport'), String(record.firstReports)),
+        row(t('components.verification.confidence.wireAgreement'), record.wireEvaluated > 0 ? percent(record.wireAgreed / record.wireEvaluated) : '—'),
+        row(t('components.verification.confidence.correctionsRetractions'), `${record.corrections} / ${record.retractions}`),
+      ] : []),
+    ),
+  );
+}
+
+/**
+ * Open the confidence breakdown and verification checklist for a story.
+ * `onChange` fires with the recomputed confidence after a verdict is saved or reset.
+ */
+export function openVerificationChecklist(cluster: ClusteredEvent, onChange?: (confidence: ClusterConfidence) => void): void {
+  closeVerificationChecklist();
+
+  const breakdown = h('div', { className: 'confidence-breakdown' });
+  const checklistRoot = h('div');
+  const refresh = () => {
+    const confidence = getClusterConfidence(cluster);
+    cluster.confidence = confidence;
+    renderConfidence(breakdown, cluster, confidence);
+    return confidence;
+  };
+
+  modalEl = h('div', { className: 'verification-overlay', onClick: (e: Event) => { if (e.target === modalEl) closeVerificationChecklist(); } },
+    h('div', { className: 'verification-modal' },
+      h('button', { className: 'verification-close', title: t('components.newsPanel.close'), onClick: closeVerificationChecklist }, '×'),
+      h('div', { className: 'verification-story' }, cluster.primaryTitle),
+      breakdown,
+      checklistRoot,
+    ),
+  );
+  refresh();
+  new VerificationChecklist(checklistRoot, { id: cluster.id, title: cluster.primaryTitle, primarySource: cluster.primarySource }, () => {
+    onChange?.(refresh());
+  });
+
+  escHandler = (e: KeyboardEvent) => { if (e.key === 'Escape') closeVerificationChecklist(); };
+  document.addEventListener('keydown', escHandler);
+  document.body.appendChild(modalEl);
+}
+
+export function closeVerificationChecklist(): void {
+  if (escHandler) {
+    document.removeEventListener('keydown', escHandler);
+    escHandler = null;
+  }
+  modalEl?.remove();
+  modalEl = null;
+}
@@ -3,7 +3,7 @@ export * from './VirtualList';
 export { MapComponent } from './Map';
 export * from './MapPopup';
 export { DeckGLMap } from './DeckGLMap';
-export { MapContainer, type MapView, type TimeRange, type MapContainerState } from './MapContainer';
+export { MapContainer, type MapView, type TimeRange, type MapContainerState, type MapLayerData } from './MapContainer';
 export * from './NewsPanel';
 export * from './MarketPanel';
 export * from './PredictionPanel';
@@ -11,6 +11,7 @@ export * from './SignalModal';
 export * from './PlaybackControl';
 export * from './StatusPanel';
 export * from './EconomicPanel';
+export * from './MonitorPanel';
 export * from './SearchModal';
 export * from './MobileWarningModal';
 export * from './GdeltIntelPanel';
@@ -18,6 +19,9 @@ export * from './LiveNewsPanel';
 export * from './LiveWebcamsPanel';
 export * from './CIIPanel';
 export * from './CascadePanel';
+export * from './AnalystPanel';
+export * from './FlightTracksPanel';
+export * from './SanctionsPanel';
 export * from './StrategicRiskPanel';
 export * from './GlobalDebtPanel';
 export * from './GlobalGDPPanel';
@@ -628,6 +628,14 @@ export const ENTITY_REGISTRY: EntityEntry[] = [
     keywords: ['suez canal', 'gaza', 'rafah', 'imf', 'debt', 'tourism'],
     related: ['IL', 'SA', 'AE'],
   },
+  {
+    id: 'KP',
+    type: 'country',
+    name: 'North Korea',
+    aliases: ['north korea', 'north korean', 'dprk', 'pyongyang', 'kim jong un'],
+    keywords: ['hwasong', 'yongbyon', 'lazarus', 'crypto theft'],
+    related: ['CN', 'RU'],
+  },
 ];
 
 export function getEntityById(id: string): EntityEntry | undefined {
@@ -291,6 +291,20 @@ export function getSourceTier(sourceName: string): number {
   return SOURCE_TIERS[sourceName] ?? 4; // Default to tier 4 if unknown
 }
 
+// User-added feeds (services/custom-feeds) register their tiers here so
+// clustering, the analysis worker and source badges rank them like built-ins.
+const customTierNames = new Set<string>();
+
+export function setCustomSourceTiers(tiers: Record<string, number>): void {
+  for (const name of customTierNames) delete SOURCE_TIERS[name];
+  customTierNames.clear();
+  for (const [name, tier] of Object.entries(tiers)) {
+    if (name in SOURCE_TIERS) continue; // built-in tiers win
+    SOURCE_TIERS[name] = tier;
+    customTierNames.add(name);
+  }
+}
+
 export type SourceType = 'wire' | 'gov' | 'intel' | 'mainstream' | 'market' | 'tech' | 'other';
 
 export const SOURCE_TYPES: Record<string, SourceType> = {
@@ -1029,6 +1043,14 @@ export const FEEDS = SITE_VARIANT === 'tech'
       ? HAPPY_FEEDS
       : FULL_FEEDS;
 
+// Every variant's feed set, keyed by variant (used server-side by ListNewsClusters)
+export const VARIANT_FEEDS: Record<string, Record<string, Feed[]>> = {
+  full: FULL_FEEDS,
+  tech: TECH_FEEDS,
+  finance: FINANCE_FEEDS,
+  happy: HAPPY_FEEDS,
+};
+
 export const SOURCE_REGION_MAP: Record<string, { labelKey: string; feedKeys: string[] }> = {
   // Full (geopolitical) variant regions
   worldwide: { labelKey: 'header.sourceRegionWorldwide', feedKeys: ['politics', 'crisis'] },
@@ -487,10 +487,30 @@ export const STRATEGIC_WATERWAYS: StrategicWaterway[] = [
 ];
 
 export const APT_GROUPS: APTGroup[] = [
-  { id: 'apt28', name: 'APT28/29', aka: 'Fancy Bear/Cozy Bear', sponsor: 'Russia (GRU/FSB)', lat: 55.0, lon: 40.0 },
-  { id: 'apt41', name: 'APT41', aka: 'Double Dragon', sponsor: 'China (MSS)', lat: 38.0, lon: 118.0 },
-  { id: 'lazarus', name: 'Lazarus', aka: 'Hidden Cobra', sponsor: 'North Korea (RGB)', lat: 38.5, lon: 127.0 },
-  { id: 'apt33', name: 'APT33/35', aka: 'Elfin/Charming Kitten', sponsor: 'Iran (IRGC)', lat: 34.0, lon: 53.0 },
+  {
+    id: 'apt28', name: 'APT28/29', aka: 'Fancy Bear/Cozy Bear', sponsor: 'Russia (GRU/FSB)', lat: 55.0, lon: 40.0,
+    sponsorCode: 'RU',
+    aliases: ['apt28', 'apt29', 'fancy bear', 'cozy bear', 'sofacy', 'sednit', 'strontium', 'nobelium', 'midnight blizzard'],
+    malware: ['x-agent', 'xagent', 'sofacy', 'zebrocy', 'drovorub', 'cozyduke', 'miniduke', 'wellmess', 'sunburst', 'teardrop'],
+  },
+  {
+    id: 'apt41', name: 'APT41', aka: 'Double Dragon', sponsor: 'China (MSS)', lat: 38.0, lon: 118.0,
+    sponsorCode: 'CN',
+    aliases: ['apt41', 'double dragon', 'winnti group', 'barium', 'wicked panda', 'brass typhoon'],
+    malware: ['shadowpad', 'winnti', 'crosswalk', 'keyplug', 'dustpan'],
+  },
+  {
+    id: 'lazarus', name: 'Lazarus', aka: 'Hidden Cobra', sponsor: 'North Korea (RGB)', lat: 38.5, lon: 127.0,
+    sponsorCode: 'KP',
+    aliases: ['lazarus', 'lazarus group', 'hidden cobra', 'zinc', 'diamond sleet', 'apt38'],
+    malware: ['applejeus', 'manuscrypt', 'fallchill', 'bankshot', 'dtrack', 'wannacry', 'blindingcan'],
+  },
+  {
+    id: 'apt33', name: 'APT33/35', aka: 'Elfin/Charming Kitten', sponsor: 'Iran (IRGC)', lat: 34.0, lon: 53.0,
+    sponsorCode: 'IR',
+    aliases: ['apt33', 'apt35', 'elfin', 'charming kitten', 'phosphorus', 'mint sandstorm', 'refined kitten'],
+    malware: ['shamoon', 'stonedrill', 'turnedup', 'powerton', 'charmpower', 'hyperscrape'],
+  },
 ];
 
 export const CONFLICT_ZONES: ConflictZone[] = [
@@ -0,0 +1,164 @@
+import type { TradeRouteCategory } from './trade-routes';
+
+/**
+ * Coarse maritime graph for the supply-route risk model: ocean basins joined
+ * by the STRATEGIC_WATERWAYS between them, plus the open-sea passages ships
+ * take to avoid them (Cape of Good Hope, Lombok/Makassar, Luzon Strait).
+ */
+
+export type SeaBasinId =
+  | 'east_asia'
+  | 'south_china_sea'
+  | 'philippine_sea'
+  | 'australasia'
+  | 'indian_ocean'
+  | 'persian_gulf'
+  | 'red_sea'
+  | 'mediterranean'
+  | 'marmara'
+  | 'black_sea'
+  | 'north_atlantic'
+  | 'south_atlantic'
+  | 'caribbean'
+  | 'east_pacific'
+  | 'north_pacific'
+  | 'south_pacific';
+
+export interface SeaBasin {
+  id: SeaBasinId;
+  name: string;
+  /** Open-water point routes pass through when crossing the basin. */
+  lat: number;
+  lon: number;
+}
+
+export interface SeaLink {
+  a: SeaBasinId;
+  b: SeaBasinId;
+  /** STRATEGIC_WATERWAYS id the passage runs through. */
+  waterway?: string;
+  /** Named open-sea passage with no chokepoint data. */
+  passage?: { id: string; name: string; lat: number; lon: number };
+}
+
+export interface SupplyLocation {
+  id: string;
+  name: string;
+  countryCode?: string;
+  aliases: string[];
+  basin: SeaBasinId;
+  /** Main export/import port. */
+  lat: number;
+  lon: number;
+}
+
+export interface CommodityProfile {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: TradeRouteCategory;
+  /** CriticalMineral.mineral from GetCriticalMinerals, when tracked there. */
+  mineral?: string;
+}
+
+export const SEA_BASINS: SeaBasin[] = [
+  { id: 'east_asia', name: 'East China Sea', lat: 30.0, lon: 125.0 },
+  { id: 'south_china_sea', name: 'South China Sea', lat: 12.0, lon: 114.0 },
+  { id: 'philippine_sea', name: 'Philippine Sea', lat: 18.0, lon: 130.0 },
+  { id: 'australasia', name: 'Timor & Arafura Seas', lat: -12.0, lon: 122.0 },
+  { id: 'indian_ocean', name: 'Indian Ocean', lat: 5.0, lon: 72.0 },
+  { id: 'persian_gulf', name: 'Persian Gulf', lat: 27.0, lon: 51.0 },
+  { id: 'red_sea', name: 'Red Sea', lat: 20.0, lon: 38.5 },
+  { id: 'mediterranean', name: 'Mediterranean', lat: 35.0, lon: 18.0 },
+  { id: 'marmara', name: 'Sea of Marmara', lat: 40.7, lon: 28.0 },
+  { id: 'black_sea', name: 'Black Sea', lat: 43.0, lon: 34.0 },
+  { id: 'north_atlantic', name: 'North Atlantic', lat: 30.0, lon: -25.0 },
+  { id: 'south_atlantic', name: 'South Atlantic', lat: -5.0, lon: -10.0 },
+  { id: 'caribbean', name: 'Caribbean & Gulf of Mexico', lat: 18.0, lon: -78.0 },
+  { id: 'east_pacific', name: 'Eastern Pacific', lat: 0.0, lon: -90.0 },
+  { id: 'north_pacific', name: 'North Pacific', lat: 35.0, lon: -175.0 },
+  { id: 'south_pacific', name: 'South Pacific', lat: -25.0, lon: -150.0 },
+];
+
+export const SEA_LINKS: SeaLink[] = [
+  { a: 'east_asia', b: 'south_china_sea', waterway: 'taiwan_strait' },
+  { a: 'east_asia', b: 'philippine_sea' },
+  { a: 'east_asia', b: 'north_pacific' },
+  { a: 'south_china_sea', b: 'philippine_sea', passage: { id: 'luzon_strait', name: 'Luzon Strait', lat: 20.5, lon: 121.0 } },
+  { a: 'south_china_sea', b: 'indian_ocean', waterway: 'malacca_strait' },
+  { a: 'philippine_sea', b: 'australasia', passage: { id: 'makassar_lombok', name: 'Makassar & Lombok Straits', lat: -3.0, lon: 118.0 } },
+  { a: 'philippine_sea', b: 'north_pacific' },
+  { a: 'australasia', b: 'indian_ocean' },
+  { a: 'australasia', b: 'south_pacific' },
+  { a: 'indian_ocean', b: 'persian_gulf', waterway: 'hormuz_strait' },
+  { a: 'indian_ocean', b: 'red_sea', waterway: 'bab_el_mandeb' },
+  { a: 'indian_ocean', b: 'south_atlantic', passage: { id: 'cape_good_hope', name: 'Cape of Good Hope', lat: -36.0, lon: 20.0 } },
+  { a: 'red_sea', b: 'mediterranean', waterway: 'suez' },
+  { a: 'mediterranean', b: 'marmara', waterway: 'dardanelles' },
+  { a: 'marmara', b: 'black_sea', waterway: 'bosphorus' },
+  { a: 'mediterranean', b: 'north_atlantic', waterway: 'gibraltar' },
+  { a: 'north_atlantic', b: 'south_atlantic' },
+  { a: 'north_atlantic', b: 'caribbean' },
+  { a: 'caribbean', b: 'east_pacific', waterway: 'panama' },
+  { a: 'east_pacific', b: 'north_pacific' },
+  { a: 'east_pacific', b: 'south_pacific' },
+  { a: 'south_atlantic', b: 'south_pacific', passage: { id: 'cape_horn', name: 'Cape Horn', lat: -56.5, lon: -67.0 } },
+];
+
+export const SUPPLY_LOCATIONS: SupplyLocation[] = [
+  { id: 'china', name: 'China', countryCode: 'CN', aliases: ['china', 'prc', 'cn', 'shanghai'], basin: 'east_asia', lat: 31.2, lon: 121.8 },
+  { id: 'japan', name: 'Japan', countryCode: 'JP', aliases: ['japan', 'jp', 'tokyo'], basin: 'east_asia', lat: 35.4, lon: 139.8 },
+  { id: 'south_korea', name: 'South Korea', countryCode: 'KR', aliases: ['south korea', 'korea', 'rok', 'kr', 'busan'], basin: 'east_asia', lat: 35.1, lon: 129.0 },
+  { id: 'taiwan', name: 'Taiwan', countryCode: 'TW', aliases: ['taiwan', 'tw', 'kaohsiung'], basin: 'east_asia', lat: 22.6, lon: 120.3 },
+  { id: 'vietnam', name: 'Vietnam', countryCode: 'VN', aliases: ['vietnam', 'viet nam', 'vn'], basin: 'south_china_sea', lat: 10.6, lon: 107.0 },
+  { id: 'singapore', name: 'Singapore', countryCode: 'SG', aliases: ['singapore', 'sg'], basin: 'south_china_sea', lat: 1.3, lon: 103.8 },
+  { id: 'malaysia', name: 'Malaysia', countryCode: 'MY', aliases: ['malaysia', 'my', 'port klang'], basin: 'south_china_sea', lat: 3.0, lon: 101.4 },
+  { id: 'philippines', name: 'Philippines', countryCode: 'PH', aliases: ['philippines', 'ph'], basin: 'philippine_sea', lat: 9.8, lon: 125.5 },
+  { id: 'indonesia', name: 'Indonesia', countryCode: 'ID', aliases: ['indonesia', 'id', 'morowali'], basin: 'australasia', lat: -2.8, lon: 122.1 },
+  { id: 'australia', name: 'Australia', countryCode: 'AU', aliases: ['australia', 'au', 'port hedland'], basin: 'australasia', lat: -20.3, lon: 118.6 },
+  { id: 'new_caledonia', name: 'New Caledonia', countryCode: 'NC', aliases: ['new caledonia', 'nc'], basin: 'south_pacific', lat: -22.3, lon: 166.4 },
+  { id: 'india', name: 'India', countryCode: 'IN', aliases: ['india', 'in', 'mumbai'], basin: 'indian_ocean', lat: 18.9, lon: 72.9 },
+  { id: 'drc', name: 'DR Congo', countryCode: 'CD', aliases: ['drc', 'dr congo', 'congo', 'democratic republic of the congo', 'cd'], basin: 'indian_ocean', lat: -6.8, lon: 39.3 },
+  { id: 'mozambique', name: 'Mozambique', countryCode: 'MZ', aliases: ['mozambique', 'mz'], basin: 'indian_ocean', lat: -12.9, lon: 40.5 },
+  { id: 'south_africa', name: 'South Africa', countryCode: 'ZA', aliases: ['south africa', 'za', 'rsa', 'durban'], basin: 'indian_ocean', lat: -28.8, lon: 32.1 },
+  { id: 'qatar', name: 'Qatar', countryCode: 'QA', aliases: ['qatar', 'qa', 'ras laffan'], basin: 'persian_gulf', lat: 25.9, lon: 51.6 },
+  { id: 'saudi_arabia', name: 'Saudi Arabia', countryCode: 'SA', aliases: ['saudi arabia', 'saudi', 'ksa', 'sa'], basin: 'persian_gulf', lat: 26.6, lon: 50.2 },
+  { id: 'uae', name: 'UAE', countryCode: 'AE', aliases: ['uae', 'united arab emirates', 'ae', 'emirates'], basin: 'persian_gulf', lat: 25.0, lon: 55.1 },
+  { id: 'kuwait', name: 'Kuwait', countryCode: 'KW', aliases: ['kuwait', 'kw'], basin: 'persian_gulf', lat: 29.1, lon: 48.2 },
+  { id: 'iraq', name: 'Iraq', countryCode: 'IQ', aliases: ['iraq', 'iq', 'basra'], basin: 'persian_gulf', lat: 29.7, lon: 48.8 },
+  { id: 'iran', name: 'Iran', countryCode: 'IR', aliases: ['iran', 'ir', 'kharg'], basin: 'persian_gulf', lat: 29.2, lon: 50.3 },
+  { id: 'egypt', name: 'Egypt', countryCode: 'EG', aliases: ['egypt', 'eg'], basin: 'mediterranean', lat: 31.3, lon: 32.3 },
+  { id: 'italy', name: 'Italy', countryCode: 'IT', aliases: ['italy', 'it', 'genoa'], basin: 'mediterranean', lat: 44.4, lon: 8.9 },
+  { id: 'turkey', name: 'Turkey', countryCode: 'TR', aliases: ['turkey', 'turkiye', 'tr'], basin: 'marmara', lat: 40.8, lon: 29.4 },
+  { id: 'russia', name: 'Russia', countryCode: 'RU', aliases: ['russia', 'ru', 'novorossiysk'], basin: 'black_sea', lat: 44.7, lon: 37.8 },
+  { id: 'ukraine', name: 'Ukraine', countryCode: 'UA', aliases: ['ukraine', 'ua', 'odesa', 'odessa'], basin: 'black_sea', lat: 46.5, lon: 30.7 },
+  { id: 'eu', name: 'EU (Rotterdam)', aliases: ['eu', 'europe', 'european union', 'rotterdam', 'netherlands', 'nl'], basin: 'north_atlantic', lat: 51.9, lon: 4.0 },
+  { id: 'germany', name: 'Germany', countryCode: 'DE', aliases: ['germany', 'de', 'hamburg'], basin: 'north_atlantic', lat: 53.5, lon: 9.9 },
+  { id: 'uk', name: 'United Kingdom', countryCode: 'GB', aliases: ['uk', 'united kingdom', 'britain', 'gb'], basin: 'north_atlantic', lat: 51.9, lon: 1.3 },
+  { id: 'norway', name: 'Norway', countryCode: 'NO', aliases: ['norway', 'no'], basin: 'north_atlantic', lat: 60.4, lon: 5.3 },
+  { id: 'usa', name: 'United States', countryCode: 'US', aliases: ['usa', 'us', 'united states', 'america', 'houston'], basin: 'caribbean', lat: 29.7, lon: -95.0 },
+  { id: 'us_west', name: 'US West Coast', countryCode: 'US', aliases: ['us west coast', 'los angeles', 'california'], basin: 'north_pacific', lat: 33.7, lon: -118.3 },
+  { id: 'canada', name: 'Canada', countryCode: 'CA', aliases: ['canada', 'ca', 'vancouver'], basin: 'north_pacific', lat: 49.3, lon: -123.1 },
+  { id: 'brazil', name: 'Brazil', countryCode: 'BR', aliases: ['brazil', 'br', 'santos'], basin: 'south_atlantic', lat: -24.0, lon: -46.3 },
+  { id: 'argentina', name: 'Argentina', countryCode: 'AR', aliases: ['argentina', 'ar'], basin: 'south_atlantic', lat: -34.6, lon: -58.4 },
+  { id: 'nigeria', name: 'Nigeria', countryCode: 'NG', aliases: ['nigeria', 'ng', 'bonny'], basin: 'south_atlantic', lat: 4.4, lon: 7.2 },
+  { id: 'chile', name: 'Chile', countryCode: 'CL', aliases: ['chile', 'cl', 'antofagasta'], basin: 'east_pacific', lat: -23.6, lon: -70.4 },
+  { id: 'peru', name: 'Peru', countryCode: 'PE', aliases: ['peru', 'pe', 'callao'], basin: 'east_pacific', lat: -12.1, lon: -77.2 },
+];
+
+export const COMMODITY_PROFILES: CommodityProfile[] = [
+  { id: 'lng', name: 'LNG', aliases: ['lng', 'liquefied natural gas', 'natural gas', 'gas'], category: 'energy' },
+  { id: 'crude', name: 'Crude oil', aliases: ['crude oil', 'crude', 'oil'], category: 'energy' },
+  { id: 'coal', name: 'Coal', aliases: ['coal'], category: 'bulk' },
+  { id: 'iron_ore', name: 'Iron ore', aliases: ['iron ore', 'iron'], category: 'bulk' },
+  { id: 'grain', name: 'Grain', aliases: ['grain', 'wheat', 'corn', 'soybeans'], category: 'bulk' },
+  { id: 'lithium', name: 'Lithium', aliases: ['lithium'], category: 'bulk', mineral: 'Lithium' },
+  { id: 'cobalt', name: 'Cobalt', aliases: ['cobalt'], category: 'bulk', mineral: 'Cobalt' },
+  { id: 'rare_earths', name: 'Rare earths', aliases: ['rare earths', 'rare earth', 'ree'], category: 'bulk', mineral: 'Rare Earths' },
+  { id: 'nickel', name: 'Nickel', aliases: ['nickel'], category: 'bulk', mineral: 'Nickel' },
+  { id: 'copper', name: 'Copper', aliases: ['copper'], category: 'bulk', mineral: 'Copper' },
+  { id: 'gallium', name: 'Gallium', aliases: ['gallium'], category: 'container', mineral: 'Gallium' },
+  { id: 'germanium', name: 'Germanium', aliases: ['germanium'], category: 'container', mineral: 'Germanium' },
+  { id: 'semiconductors', name: 'Semiconductors', aliases: ['semiconductors', 'chips'], category: 'container' },
+  { id: 'containers', name: 'Container goods', aliases: ['containers', 'container goods', 'manufactured goods', 'goods'], category: 'container' },
+];
@@ -1,5 +1,6 @@
 export const SITE_VARIANT: string = (() => {
-  const env = import.meta.env.VITE_VARIANT || 'full';
+  // import.meta.env is undefined outside Vite (server handlers import src/config).
+  const env = import.meta.env?.VITE_VARIANT || 'full';
   // Build-time variant (non-full) takes priority — each deployment is variant-specific.
   // Only fall back to localStorage when env is 'full' (allows desktop app variant switching).
   if (env !== 'full') return env;
@@ -36,6 +36,15 @@ export const STORAGE_KEYS = {
   mapLayers: 'worldmonitor-layers',
   disabledFeeds: 'worldmonitor-disabled-feeds',
   liveChannels: 'worldmonitor-live-channels',
+  alertRules: 'worldmonitor-alert-rules',
+  alertState: 'worldmonitor-alert-state',
+  cascadeCustomGraph: 'worldmonitor-cascade-custom-graph',
+  monitorHits: 'worldmonitor-monitor-hits',
+  customLayers: 'worldmonitor-custom-layers',
+  customFeeds: 'worldmonitor-custom-feeds',
+  sourceReliability: 'worldmonitor-source-reliability',
+  storyVerdicts: 'worldmonitor-story-verdicts',
+  reportTemplates: 'worldmonitor-report-templates',
 } as const;
 
 // Type definitions for variant configs
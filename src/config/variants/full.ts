@@ -23,6 +23,7 @@ export const DEFAULT_PANELS: Record<string, PanelConfig> = {
   'gdelt-intel': { name: 'Live Intelligence', enabled: true, priority: 1 },
   cii: { name: 'Country Instability', enabled: true, priority: 1 },
   cascade: { name: 'Infrastructure Cascade', enabled: true, priority: 1 },
+  analyst: { name: 'Ask the Dashboard', enabled: true, priority: 1 },
   'strategic-risk': { name: 'Strategic Risk Overview', enabled: true, priority: 1 },
   politics: { name: 'World News', enabled: true, priority: 1 },
   us: { name: 'United States', enabled: true, priority: 1 },
@@ -47,6 +48,8 @@ export const DEFAULT_PANELS: Record<string, PanelConfig> = {
   'macro-signals': { name: 'Market Radar', enabled: true, priority: 2 },
   'etf-flows': { name: 'BTC ETF Tracker', enabled: true, priority: 2 },
   stablecoins: { name: 'Stablecoins', enabled: true, priority: 2 },
+  'flight-tracks': { name: 'Flight Tracks', enabled: true, priority: 2 },
+  'sanctions-screening': { name: 'Sanctions Screening', enabled: true, priority: 2 },
 };
 
 // Map layers for geopolitical view
@@ -138,6 +138,29 @@ export interface GdeltArticle {
   tone: number;
 }
 
+export interface GetRiskScoreHistoryRequest {
+  regions: string[];
+  days: number;
+}
+
+export interface GetRiskScoreHistoryResponse {
+  histories: RiskScoreHistory[];
+}
+
+export interface RiskScoreHistory {
+  region: string;
+  points: RiskScorePoint[];
+}
+
+export interface RiskScorePoint {
+  timestamp: number;
+  combinedScore: number;
+  unrest: number;
+  conflict: number;
+  security: number;
+  information: number;
+}
+
 export type SeverityLevel = "SEVERITY_LEVEL_UNSPECIFIED" | "SEVERITY_LEVEL_LOW" | "SEVERITY_LEVEL_MEDIUM" | "SEVERITY_LEVEL_HIGH";
 
 export type TrendDirection = "TREND_DIRECTION_UNSPECIFIED" | "TREND_DIRECTION_RISING" | "TREND_DIRECTION_STABLE" | "TREND_DIRECTION_FALLING";
@@ -312,6 +335,30 @@ export class IntelligenceServiceClient {
     return await resp.json() as SearchGdeltDocumentsResponse;
   }
 
+  async getRiskScoreHistory(req: GetRiskScoreHistoryRequest, options?: IntelligenceServiceCallOptions): Promise<GetRiskScoreHistoryResponse> {
+    let path = "/api/intelligence/v1/get-risk-score-history";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetRiskScoreHistoryResponse;
+  }
+
   private async handleError(resp: Response): Promise<never> {
     const body = await resp.text();
     if (resp.status === 400) {
@@ -23,6 +23,7 @@ export interface VesselSnapshot {
   snapshotAt: number;
   densityZones: AisDensityZone[];
   disruptions: AisDisruption[];
+  vesselEvents: AisVesselEvent[];
 }
 
 export interface AisDensityZone {
@@ -49,6 +50,24 @@ export interface AisDisruption {
   description: string;
 }
 
+export interface AisVesselEvent {
+  id: string;
+  type: AisVesselEventType;
+  mmsi: string;
+  vesselName: string;
+  shipType: number;
+  otherMmsi: string;
+  otherVesselName: string;
+  location?: GeoCoordinates;
+  startedAt: number;
+  endedAt: number;
+  ongoing: boolean;
+  waterway: string;
+  distanceKm: number;
+  severity: AisDisruptionSeverity;
+  description: string;
+}
+
 export interface ListNavigationalWarningsRequest {
   pagination?: PaginationRequest;
   area: string;
@@ -84,6 +103,8 @@ export type AisDisruptionSeverity = "AIS_DISRUPTION_SEVERITY_UNSPECIFIED" | "AIS
 
 export type AisDisruptionType = "AIS_DISRUPTION_TYPE_UNSPECIFIED" | "AIS_DISRUPTION_TYPE_GAP_SPIKE" | "AIS_DISRUPTION_TYPE_CHOKEPOINT_CONGESTION";
 
+export type AisVesselEventType = "AIS_VESSEL_EVENT_TYPE_UNSPECIFIED" | "AIS_VESSEL_EVENT_TYPE_AIS_GAP" | "AIS_VESSEL_EVENT_TYPE_LOITERING" | "AIS_VESSEL_EVENT_TYPE_RENDEZVOUS" | "AIS_VESSEL_EVENT_TYPE_SPEED_ANOMALY" | "AIS_VESSEL_EVENT_TYPE_COURSE_ANOMALY";
+
 export interface FieldViolation {
   field: string;
   description: string;
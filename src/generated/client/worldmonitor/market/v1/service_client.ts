@@ -146,6 +146,33 @@ export interface GetCountryStockIndexResponse {
   fetchedAt: string;
 }
 
+export interface GetPriceHistoryRequest {
+  symbol: string;
+  resolution: PriceResolution;
+  assetClass: PriceAssetClass;
+}
+
+export interface GetPriceHistoryResponse {
+  symbol: string;
+  resolution: PriceResolution;
+  currency: string;
+  provider: string;
+  candles: PriceCandle[];
+}
+
+export interface PriceCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type PriceAssetClass = "PRICE_ASSET_CLASS_UNSPECIFIED" | "PRICE_ASSET_CLASS_STOCK" | "PRICE_ASSET_CLASS_COMMODITY" | "PRICE_ASSET_CLASS_CRYPTO";
+
+export type PriceResolution = "PRICE_RESOLUTION_UNSPECIFIED" | "PRICE_RESOLUTION_1M" | "PRICE_RESOLUTION_5M" | "PRICE_RESOLUTION_1H" | "PRICE_RESOLUTION_1D";
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -362,6 +389,30 @@ export class MarketServiceClient {
     return await resp.json() as GetCountryStockIndexResponse;
   }
 
+  async getPriceHistory(req: GetPriceHistoryRequest, options?: MarketServiceCallOptions): Promise<GetPriceHistoryResponse> {
+    let path = "/api/market/v1/get-price-history";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetPriceHistoryResponse;
+  }
+
   private async handleError(resp: Response): Promise<never> {
     const body = await resp.text();
     if (resp.status === 400) {
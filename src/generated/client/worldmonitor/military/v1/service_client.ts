@@ -6,6 +6,7 @@ export interface ListMilitaryFlightsRequest {
   boundingBox?: BoundingBox;
   operator: MilitaryOperator;
   aircraftType: MilitaryAircraftType;
+  country: string;
 }
 
 export interface PaginationRequest {
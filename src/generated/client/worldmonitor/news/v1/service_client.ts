@@ -23,6 +23,95 @@ export interface SummarizeArticleResponse {
   errorType: string;
 }
 
+export interface ListNewsClustersRequest {
+  variant: string;
+  categories: string[];
+  lang: string;
+  disabledSources: string[];
+}
+
+export interface ListNewsClustersResponse {
+  categories: NewsCategoryDigest[];
+  generatedAt: number;
+}
+
+export interface NewsCategoryDigest {
+  category: string;
+  items: NewsItem[];
+  clusters: NewsCluster[];
+  failedSources: string[];
+}
+
+export interface NewsItem {
+  source: string;
+  title: string;
+  link: string;
+  publishedAt: number;
+  isAlert: boolean;
+  threat?: ThreatClassification;
+  location?: GeoCoordinates;
+  locationName: string;
+  lang: string;
+}
+
+export interface ThreatClassification {
+  level: ThreatLevel;
+  category: string;
+  confidence: number;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NewsCluster {
+  id: string;
+  primaryTitle: string;
+  primarySource: string;
+  primaryLink: string;
+  sourceCount: number;
+  topSources: ClusterSource[];
+  itemIndexes: number[];
+  firstSeen: number;
+  lastUpdated: number;
+  isAlert: boolean;
+  threat?: ThreatClassification;
+  location?: GeoCoordinates;
+  lang: string;
+}
+
+export interface ClusterSource {
+  name: string;
+  tier: number;
+  url: string;
+}
+
+export type ThreatLevel = "THREAT_LEVEL_UNSPECIFIED" | "THREAT_LEVEL_LOW" | "THREAT_LEVEL_MEDIUM" | "THREAT_LEVEL_HIGH" | "THREAT_LEVEL_CRITICAL";
+
+export interface ChatAnalystRequest {
+  provider: string;
+  messages: ChatMessage[];
+  lang: string;
+}
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatAnalystResponse {
+  reply: string;
+  model: string;
+  provider: string;
+  tokens: number;
+  fallback: boolean;
+  skipped: boolean;
+  reason: string;
+  error: string;
+  errorType: string;
+}
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -95,6 +184,54 @@ export class NewsServiceClient {
     return await resp.json() as SummarizeArticleResponse;
   }
 
+  async listNewsClusters(req: ListNewsClustersRequest, options?: NewsServiceCallOptions): Promise<ListNewsClustersResponse> {
+    let path = "/api/news/v1/list-news-clusters";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListNewsClustersResponse;
+  }
+
+  async chatAnalyst(req: ChatAnalystRequest, options?: NewsServiceCallOptions): Promise<ChatAnalystResponse> {
+    let path = "/api/news/v1/chat-analyst";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ChatAnalystResponse;
+  }
+
   private async handleError(resp: Response): Promise<never> {
     const body = await resp.text();
     if (resp.status === 400) {
@@ -0,0 +1,182 @@
+// Code generated by protoc-gen-ts-client. DO NOT EDIT.
+// source: worldmonitor/playback/v1/service.proto
+
+export interface RecordSnapshotRequest {
+  timestamp: number;
+  payload: string;
+  variant: string;
+}
+
+export interface RecordSnapshotResponse {
+  recorded: boolean;
+  bucketTimestamp: number;
+  reason: string;
+  store: string;
+}
+
+export interface ListSnapshotsRequest {
+  from: number;
+  to: number;
+  limit: number;
+  variant: string;
+}
+
+export interface ListSnapshotsResponse {
+  snapshots: SnapshotEntry[];
+  earliest: number;
+  latest: number;
+  retentionDays: number;
+}
+
+export interface SnapshotEntry {
+  timestamp: number;
+  sizeBytes: number;
+}
+
+export interface GetSnapshotRequest {
+  timestamp: number;
+  variant: string;
+}
+
+export interface GetSnapshotResponse {
+  found: boolean;
+  timestamp: number;
+  payload: string;
+}
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface PlaybackServiceClientOptions {
+  fetch?: typeof fetch;
+  defaultHeaders?: Record<string, string>;
+}
+
+export interface PlaybackServiceCallOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export class PlaybackServiceClient {
+  private baseURL: string;
+  private fetchFn: typeof fetch;
+  private defaultHeaders: Record<string, string>;
+
+  constructor(baseURL: string, options?: PlaybackServiceClientOptions) {
+    this.baseURL = baseURL.replace(/\/+$/, "");
+    this.fetchFn = options?.fetch ?? globalThis.fetch;
+    this.defaultHeaders = { ...options?.defaultHeaders };
+  }
+
+  async recordSnapshot(req: RecordSnapshotRequest, options?: PlaybackServiceCallOptions): Promise<RecordSnapshotResponse> {
+    let path = "/api/playback/v1/record-snapshot";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as RecordSnapshotResponse;
+  }
+
+  async listSnapshots(req: ListSnapshotsRequest, options?: PlaybackServiceCallOptions): Promise<ListSnapshotsResponse> {
+    let path = "/api/playback/v1/list-snapshots";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListSnapshotsResponse;
+  }
+
+  async getSnapshot(req: GetSnapshotRequest, options?: PlaybackServiceCallOptions): Promise<GetSnapshotResponse> {
+    let path = "/api/playback/v1/get-snapshot";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetSnapshotResponse;
+  }
+
+  private async handleError(resp: Response): Promise<never> {
+    const body = await resp.text();
+    if (resp.status === 400) {
+      try {
+        const parsed = JSON.parse(body);
+        if (parsed.violations) {
+          throw new ValidationError(parsed.violations);
+        }
+      } catch (e) {
+        if (e instanceof ValidationError) throw e;
+      }
+    }
+    throw new ApiError(resp.status, `Request failed with status ${resp.status}`, body);
+  }
+}
+
@@ -25,6 +25,7 @@ export interface PredictionMarket {
   url: string;
   closesAt: number;
   category: string;
+  venue: string;
 }
 
 export interface PaginationResponse {
@@ -32,6 +33,36 @@ export interface PaginationResponse {
   totalCount: number;
 }
 
+export interface ListCrossVenueMarketsRequest {
+  query: string;
+  limit: number;
+}
+
+export interface ListCrossVenueMarketsResponse {
+  markets: PredictionMarket[];
+  unavailableVenues: string[];
+}
+
+export interface GetMarketOddsHistoryRequest {
+  marketKeys: string[];
+  since: number;
+}
+
+export interface GetMarketOddsHistoryResponse {
+  histories: MarketOddsHistory[];
+}
+
+export interface MarketOddsHistory {
+  marketKey: string;
+  points: OddsPoint[];
+}
+
+export interface OddsPoint {
+  timestamp: number;
+  yesPrice: number;
+  volume: number;
+}
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -104,6 +135,54 @@ export class PredictionServiceClient {
     return await resp.json() as ListPredictionMarketsResponse;
   }
 
+  async listCrossVenueMarkets(req: ListCrossVenueMarketsRequest, options?: PredictionServiceCallOptions): Promise<ListCrossVenueMarketsResponse> {
+    let path = "/api/prediction/v1/list-cross-venue-markets";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListCrossVenueMarketsResponse;
+  }
+
+  async getMarketOddsHistory(req: GetMarketOddsHistoryRequest, options?: PredictionServiceCallOptions): Promise<GetMarketOddsHistoryResponse> {
+    let path = "/api/prediction/v1/get-market-odds-history";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetMarketOddsHistoryResponse;
+  }
+
   private async handleError(resp: Response): Promise<never> {
     const body = await resp.text();
     if (resp.status === 400) {
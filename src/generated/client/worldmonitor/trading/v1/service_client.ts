@@ -0,0 +1,305 @@
+// Code generated by protoc-gen-ts-client. DO NOT EDIT.
+// source: worldmonitor/trading/v1/service.proto
+
+export interface GetTradingSignalsRequest {
+  symbols: string[];
+}
+
+export interface GetTradingSignalsResponse {
+  signals: TradingSignal[];
+  generatedAt: number;
+}
+
+export interface TradingSignal {
+  symbol: string;
+  action: TradingAction;
+  confidence: number;
+  reasoning: string;
+  currentPrice: number;
+  fastMa: number;
+  slowMa: number;
+  rsi: number;
+}
+
+export interface GetTradingStatusRequest {
+}
+
+export interface GetTradingStatusResponse {
+  systemStatus: string;
+  broker: string;
+  strategy: string;
+  symbols: string[];
+  riskControls?: RiskControls;
+  schedule?: TradingSchedule;
+}
+
+export interface RiskControls {
+  maxPositions: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+}
+
+export interface TradingSchedule {
+  lastExecutionAt: number;
+  nextExecutionAt: number;
+  intervalMinutes: number;
+}
+
+export interface GetTradingAccountRequest {
+}
+
+export interface GetTradingAccountResponse {
+  account?: TradingAccount;
+  error: string;
+}
+
+export interface TradingAccount {
+  equity: number;
+  cash: number;
+  buyingPower: number;
+  startingCapital: number;
+  totalReturnPct: number;
+  dailyPnl: number;
+  updatedAt: number;
+}
+
+export interface GetTradingPortfolioRequest {
+}
+
+export interface GetTradingPortfolioResponse {
+  metrics?: PortfolioMetrics;
+  equityHistory: EquityPoint[];
+}
+
+export interface PortfolioMetrics {
+  totalReturnPct: number;
+  maxDrawdownPct: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  tradingDays: number;
+  startingCapital: number;
+  currentEquity: number;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+}
+
+export interface ListTradingPositionsRequest {
+  tradeLimit: number;
+}
+
+export interface ListTradingPositionsResponse {
+  positions: TradingPosition[];
+  maxPositions: number;
+  trades: TradeRecord[];
+}
+
+export interface TradingPosition {
+  symbol: string;
+  qty: number;
+  entryPrice: number;
+  currentPrice: number;
+  marketValue: number;
+  unrealizedPl: number;
+  unrealizedPlpc: number;
+  side: string;
+}
+
+export interface TradeRecord {
+  executedAt: number;
+  action: TradingAction;
+  symbol: string;
+  qty: number;
+  price: number;
+  amount: number;
+  reasoning: string;
+}
+
+export type TradingAction = "TRADING_ACTION_UNSPECIFIED" | "TRADING_ACTION_BUY" | "TRADING_ACTION_SELL" | "TRADING_ACTION_HOLD";
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface TradingServiceClientOptions {
+  fetch?: typeof fetch;
+  defaultHeaders?: Record<string, string>;
+}
+
+export interface TradingServiceCallOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export class TradingServiceClient {
+  private baseURL: string;
+  private fetchFn: typeof fetch;
+  private defaultHeaders: Record<string, string>;
+
+  constructor(baseURL: string, options?: TradingServiceClientOptions) {
+    this.baseURL = baseURL.replace(/\/+$/, "");
+    this.fetchFn = options?.fetch ?? globalThis.fetch;
+    this.defaultHeaders = { ...options?.defaultHeaders };
+  }
+
+  async getTradingSignals(req: GetTradingSignalsRequest, options?: TradingServiceCallOptions): Promise<GetTradingSignalsResponse> {
+    let path = "/api/trading/v1/get-trading-signals";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetTradingSignalsResponse;
+  }
+
+  async getTradingStatus(req: GetTradingStatusRequest, options?: TradingServiceCallOptions): Promise<GetTradingStatusResponse> {
+    let path = "/api/trading/v1/get-trading-status";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetTradingStatusResponse;
+  }
+
+  async getTradingAccount(req: GetTradingAccountRequest, options?: TradingServiceCallOptions): Promise<GetTradingAccountResponse> {
+    let path = "/api/trading/v1/get-trading-account";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetTradingAccountResponse;
+  }
+
+  async getTradingPortfolio(req: GetTradingPortfolioRequest, options?: TradingServiceCallOptions): Promise<GetTradingPortfolioResponse> {
+    let path = "/api/trading/v1/get-trading-portfolio";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetTradingPortfolioResponse;
+  }
+
+  async listTradingPositions(req: ListTradingPositionsRequest, options?: TradingServiceCallOptions): Promise<ListTradingPositionsResponse> {
+    let path = "/api/trading/v1/list-trading-positions";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListTradingPositionsResponse;
+  }
+
+  private async handleError(resp: Response): Promise<never> {
+    const body = await resp.text();
+    if (resp.status === 400) {
+      try {
+        const parsed = JSON.parse(body);
+        if (parsed.violations) {
+          throw new ValidationError(parsed.violations);
+        }
+      } catch (e) {
+        if (e instanceof ValidationError) throw e;
+      }
+    }
+    throw new ApiError(resp.status, `Request failed with status ${resp.status}`, body);
+  }
+}
+
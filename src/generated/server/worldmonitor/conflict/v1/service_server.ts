@@ -5,6 +5,7 @@ export interface ListAcledEventsRequest {
   timeRange?: TimeRange;
   pagination?: PaginationRequest;
   country: string;
+  boundingBox?: BoundingBox;
 }
 
 export interface TimeRange {
@@ -17,6 +18,16 @@ export interface PaginationRequest {
   cursor: string;
 }
 
+export interface BoundingBox {
+  northEast?: GeoCoordinates;
+  southWest?: GeoCoordinates;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface ListAcledEventsResponse {
   events: AcledConflictEvent[];
   pagination?: PaginationResponse;
@@ -34,11 +45,6 @@ export interface AcledConflictEvent {
   admin1: string;
 }
 
-export interface GeoCoordinates {
-  latitude: number;
-  longitude: number;
-}
-
 export interface PaginationResponse {
   nextCursor: string;
   totalCount: number;
@@ -48,6 +54,7 @@ export interface ListUcdpEventsRequest {
   timeRange?: TimeRange;
   pagination?: PaginationRequest;
   country: string;
+  boundingBox?: BoundingBox;
 }
 
 export interface ListUcdpEventsResponse {
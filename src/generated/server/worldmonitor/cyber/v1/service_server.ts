@@ -7,6 +7,8 @@ export interface ListCyberThreatsRequest {
   type: CyberThreatType;
   source: CyberThreatSource;
   minSeverity: CriticalityLevel;
+  boundingBox?: BoundingBox;
+  country: string;
 }
 
 export interface TimeRange {
@@ -19,6 +21,16 @@ export interface PaginationRequest {
   cursor: string;
 }
 
+export interface BoundingBox {
+  northEast?: GeoCoordinates;
+  southWest?: GeoCoordinates;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface ListCyberThreatsResponse {
   threats: CyberThreat[];
   pagination?: PaginationResponse;
@@ -37,11 +49,8 @@ export interface CyberThreat {
   tags: string[];
   firstSeenAt: number;
   lastSeenAt: number;
-}
-
-export interface GeoCoordinates {
-  latitude: number;
-  longitude: number;
+  asn: string;
+  asName: string;
 }
 
 export interface PaginationResponse {
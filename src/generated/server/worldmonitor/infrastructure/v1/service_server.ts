@@ -5,6 +5,7 @@ export interface ListInternetOutagesRequest {
   timeRange?: TimeRange;
   pagination?: PaginationRequest;
   country: string;
+  boundingBox?: BoundingBox;
 }
 
 export interface TimeRange {
@@ -17,6 +18,16 @@ export interface PaginationRequest {
   cursor: string;
 }
 
+export interface BoundingBox {
+  northEast?: GeoCoordinates;
+  southWest?: GeoCoordinates;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface ListInternetOutagesResponse {
   outages: InternetOutage[];
   pagination?: PaginationResponse;
@@ -38,11 +49,6 @@ export interface InternetOutage {
   endedAt: number;
 }
 
-export interface GeoCoordinates {
-  latitude: number;
-  longitude: number;
-}
-
 export interface PaginationResponse {
   nextCursor: string;
   totalCount: number;
@@ -138,6 +138,29 @@ export interface GdeltArticle {
   tone: number;
 }
 
+export interface GetRiskScoreHistoryRequest {
+  regions: string[];
+  days: number;
+}
+
+export interface GetRiskScoreHistoryResponse {
+  histories: RiskScoreHistory[];
+}
+
+export interface RiskScoreHistory {
+  region: string;
+  points: RiskScorePoint[];
+}
+
+export interface RiskScorePoint {
+  timestamp: number;
+  combinedScore: number;
+  unrest: number;
+  conflict: number;
+  security: number;
+  information: number;
+}
+
 export type SeverityLevel = "SEVERITY_LEVEL_UNSPECIFIED" | "SEVERITY_LEVEL_LOW" | "SEVERITY_LEVEL_MEDIUM" | "SEVERITY_LEVEL_HIGH";
 
 export type TrendDirection = "TREND_DIRECTION_UNSPECIFIED" | "TREND_DIRECTION_RISING" | "TREND_DIRECTION_STABLE" | "TREND_DIRECTION_FALLING";
@@ -194,6 +217,7 @@ export interface IntelligenceServiceHandler {
   classifyEvent(ctx: ServerContext, req: ClassifyEventRequest): Promise<ClassifyEventResponse>;
   getCountryIntelBrief(ctx: ServerContext, req: GetCountryIntelBriefRequest): Promise<GetCountryIntelBriefResponse>;
   searchGdeltDocuments(ctx: ServerContext, req: SearchGdeltDocumentsRequest): Promise<SearchGdeltDocumentsResponse>;
+  getRiskScoreHistory(ctx: ServerContext, req: GetRiskScoreHistoryRequest): Promise<GetRiskScoreHistoryResponse>;
 }
 
 export function createIntelligenceServiceRoutes(
@@ -416,6 +440,49 @@ export function createIntelligenceServiceRoutes(
         }
       },
     },
+    {
+      method: "POST",
+      path: "/api/intelligence/v1/get-risk-score-history",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetRiskScoreHistoryRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getRiskScoreHistory", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getRiskScoreHistory(ctx, body);
+          return new Response(JSON.stringify(result as GetRiskScoreHistoryResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
   ];
 }
 
@@ -146,6 +146,33 @@ export interface GetCountryStockIndexResponse {
   fetchedAt: string;
 }
 
+export interface GetPriceHistoryRequest {
+  symbol: string;
+  resolution: PriceResolution;
+  assetClass: PriceAssetClass;
+}
+
+export interface GetPriceHistoryResponse {
+  symbol: string;
+  resolution: PriceResolution;
+  currency: string;
+  provider: string;
+  candles: PriceCandle[];
+}
+
+export interface PriceCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type PriceAssetClass = "PRICE_ASSET_CLASS_UNSPECIFIED" | "PRICE_ASSET_CLASS_STOCK" | "PRICE_ASSET_CLASS_COMMODITY" | "PRICE_ASSET_CLASS_CRYPTO";
+
+export type PriceResolution = "PRICE_RESOLUTION_UNSPECIFIED" | "PRICE_RESOLUTION_1M" | "PRICE_RESOLUTION_5M" | "PRICE_RESOLUTION_1H" | "PRICE_RESOLUTION_1D";
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -198,6 +225,7 @@ export interface MarketServiceHandler {
   listStablecoinMarkets(ctx: ServerContext, req: ListStablecoinMarketsRequest): Promise<ListStablecoinMarketsResponse>;
   listEtfFlows(ctx: ServerContext, req: ListEtfFlowsRequest): Promise<ListEtfFlowsResponse>;
   getCountryStockIndex(ctx: ServerContext, req: GetCountryStockIndexRequest): Promise<GetCountryStockIndexResponse>;
+  getPriceHistory(ctx: ServerContext, req: GetPriceHistoryRequest): Promise<GetPriceHistoryResponse>;
 }
 
 export function createMarketServiceRoutes(
@@ -506,6 +534,49 @@ export function createMarketServiceRoutes(
         }
       },
     },
+    {
+      method: "POST",
+      path: "/api/market/v1/get-price-history",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetPriceHistoryRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getPriceHistory", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getPriceHistory(ctx, body);
+          return new Response(JSON.stringify(result as GetPriceHistoryResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
   ];
 }
 
@@ -23,6 +23,95 @@ export interface SummarizeArticleResponse {
   errorType: string;
 }
 
+export interface ListNewsClustersRequest {
+  variant: string;
+  categories: string[];
+  lang: string;
+  disabledSources: string[];
+}
+
+export interface ListNewsClustersResponse {
+  categories: NewsCategoryDigest[];
+  generatedAt: number;
+}
+
+export interface NewsCategoryDigest {
+  category: string;
+  items: NewsItem[];
+  clusters: NewsCluster[];
+  failedSources: string[];
+}
+
+export interface NewsItem {
+  source: string;
+  title: string;
+  link: string;
+  publishedAt: number;
+  isAlert: boolean;
+  threat?: ThreatClassification;
+  location?: GeoCoordinates;
+  locationName: string;
+  lang: string;
+}
+
+export interface ThreatClassification {
+  level: ThreatLevel;
+  category: string;
+  confidence: number;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NewsCluster {
+  id: string;
+  primaryTitle: string;
+  primarySource: string;
+  primaryLink: string;
+  sourceCount: number;
+  topSources: ClusterSource[];
+  itemIndexes: number[];
+  firstSeen: number;
+  lastUpdated: number;
+  isAlert: boolean;
+  threat?: ThreatClassification;
+  location?: GeoCoordinates;
+  lang: string;
+}
+
+export interface ClusterSource {
+  name: string;
+  tier: number;
+  url: string;
+}
+
+export type ThreatLevel = "THREAT_LEVEL_UNSPECIFIED" | "THREAT_LEVEL_LOW" | "THREAT_LEVEL_MEDIUM" | "THREAT_LEVEL_HIGH" | "THREAT_LEVEL_CRITICAL";
+
+export interface ChatAnalystRequest {
+  provider: string;
+  messages: ChatMessage[];
+  lang: string;
+}
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatAnalystResponse {
+  reply: string;
+  model: string;
+  provider: string;
+  tokens: number;
+  fallback: boolean;
+  skipped: boolean;
+  reason: string;
+  error: string;
+  errorType: string;
+}
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -69,6 +158,8 @@ export interface RouteDescriptor {
 
 export interface NewsServiceHandler {
   summarizeArticle(ctx: ServerContext, req: SummarizeArticleRequest): Promise<SummarizeArticleResponse>;
+  listNewsClusters(ctx: ServerContext, req: ListNewsClustersRequest): Promise<ListNewsClustersResponse>;
+  chatAnalyst(ctx: ServerContext, req: ChatAnalystRequest): Promise<ChatAnalystResponse>;
 }
 
 export function createNewsServiceRoutes(
@@ -119,6 +210,92 @@ export function createNewsServiceRoutes(
         }
       },
     },
+    {
+      method: "POST",
+      path: "/api/news/v1/list-news-clusters",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListNewsClustersRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listNewsClusters", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listNewsClusters(ctx, body);
+          return new Response(JSON.stringify(result as ListNewsClustersResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/news/v1/chat-analyst",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ChatAnalystRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("chatAnalyst", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.chatAnalyst(ctx, body);
+          return new Response(JSON.stringify(result as ChatAnalystResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
   ];
 }
 
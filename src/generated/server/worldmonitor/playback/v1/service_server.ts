@@ -0,0 +1,233 @@
+// Code generated by protoc-gen-ts-server. DO NOT EDIT.
+// source: worldmonitor/playback/v1/service.proto
+
+export interface RecordSnapshotRequest {
+  timestamp: number;
+  payload: string;
+  variant: string;
+}
+
+export interface RecordSnapshotResponse {
+  recorded: boolean;
+  bucketTimestamp: number;
+  reason: string;
+  store: string;
+}
+
+export interface ListSnapshotsRequest {
+  from: number;
+  to: number;
+  limit: number;
+  variant: string;
+}
+
+export interface ListSnapshotsResponse {
+  snapshots: SnapshotEntry[];
+  earliest: number;
+  latest: number;
+  retentionDays: number;
+}
+
+export interface SnapshotEntry {
+  timestamp: number;
+  sizeBytes: number;
+}
+
+export interface GetSnapshotRequest {
+  timestamp: number;
+  variant: string;
+}
+
+export interface GetSnapshotResponse {
+  found: boolean;
+  timestamp: number;
+  payload: string;
+}
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface ServerContext {
+  request: Request;
+  pathParams: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export interface ServerOptions {
+  onError?: (error: unknown, req: Request) => Response | Promise<Response>;
+  validateRequest?: (methodName: string, body: unknown) => FieldViolation[] | undefined;
+}
+
+export interface RouteDescriptor {
+  method: string;
+  path: string;
+  handler: (req: Request) => Promise<Response>;
+}
+
+export interface PlaybackServiceHandler {
+  recordSnapshot(ctx: ServerContext, req: RecordSnapshotRequest): Promise<RecordSnapshotResponse>;
+  listSnapshots(ctx: ServerContext, req: ListSnapshotsRequest): Promise<ListSnapshotsResponse>;
+  getSnapshot(ctx: ServerContext, req: GetSnapshotRequest): Promise<GetSnapshotResponse>;
+}
+
+export function createPlaybackServiceRoutes(
+  handler: PlaybackServiceHandler,
+  options?: ServerOptions,
+): RouteDescriptor[] {
+  return [
+    {
+      method: "POST",
+      path: "/api/playback/v1/record-snapshot",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as RecordSnapshotRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("recordSnapshot", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.recordSnapshot(ctx, body);
+          return new Response(JSON.stringify(result as RecordSnapshotResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/playback/v1/list-snapshots",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListSnapshotsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listSnapshots", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listSnapshots(ctx, body);
+          return new Response(JSON.stringify(result as ListSnapshotsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/playback/v1/get-snapshot",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetSnapshotRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getSnapshot", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getSnapshot(ctx, body);
+          return new Response(JSON.stringify(result as GetSnapshotResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+  ];
+}
+
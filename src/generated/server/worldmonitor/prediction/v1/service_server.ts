@@ -25,6 +25,7 @@ export interface PredictionMarket {
   url: string;
   closesAt: number;
   category: string;
+  venue: string;
 }
 
 export interface PaginationResponse {
@@ -32,6 +33,36 @@ export interface PaginationResponse {
   totalCount: number;
 }
 
+export interface ListCrossVenueMarketsRequest {
+  query: string;
+  limit: number;
+}
+
+export interface ListCrossVenueMarketsResponse {
+  markets: PredictionMarket[];
+  unavailableVenues: string[];
+}
+
+export interface GetMarketOddsHistoryRequest {
+  marketKeys: string[];
+  since: number;
+}
+
+export interface GetMarketOddsHistoryResponse {
+  histories: MarketOddsHistory[];
+}
+
+export interface MarketOddsHistory {
+  marketKey: string;
+  points: OddsPoint[];
+}
+
+export interface OddsPoint {
+  timestamp: number;
+  yesPrice: number;
+  volume: number;
+}
+
 export interface FieldViolation {
   field: string;
   description: string;
@@ -78,6 +109,8 @@ export interface RouteDescriptor {
 
 export interface PredictionServiceHandler {
   listPredictionMarkets(ctx: ServerContext, req: ListPredictionMarketsRequest): Promise<ListPredictionMarketsResponse>;
+  listCrossVenueMarkets(ctx: ServerContext, req: ListCrossVenueMarketsRequest): Promise<ListCrossVenueMarketsResponse>;
+  getMarketOddsHistory(ctx: ServerContext, req: GetMarketOddsHistoryRequest): Promise<GetMarketOddsHistoryResponse>;
 }
 
 export function createPredictionServiceRoutes(
@@ -128,6 +161,92 @@ export function createPredictionServiceRoutes(
         }
       },
     },
+    {
+      method: "POST",
+      path: "/api/prediction/v1/list-cross-venue-markets",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListCrossVenueMarketsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listCrossVenueMarkets", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listCrossVenueMarkets(ctx, body);
+          return new Response(JSON.stringify(result as ListCrossVenueMarketsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/prediction/v1/get-market-odds-history",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetMarketOddsHistoryRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getMarketOddsHistory", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getMarketOddsHistory(ctx, body);
+          return new Response(JSON.stringify(result as GetMarketOddsHistoryResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
   ];
 }
 
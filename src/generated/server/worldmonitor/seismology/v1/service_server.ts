@@ -5,6 +5,8 @@ export interface ListEarthquakesRequest {
   timeRange?: TimeRange;
   pagination?: PaginationRequest;
   minMagnitude: number;
+  boundingBox?: BoundingBox;
+  country: string;
 }
 
 export interface TimeRange {
@@ -17,6 +19,16 @@ export interface PaginationRequest {
   cursor: string;
 }
 
+export interface BoundingBox {
+  northEast?: GeoCoordinates;
+  southWest?: GeoCoordinates;
+}
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface ListEarthquakesResponse {
   earthquakes: Earthquake[];
   pagination?: PaginationResponse;
@@ -32,11 +44,6 @@ export interface Earthquake {
   sourceUrl: string;
 }
 
-export interface GeoCoordinates {
-  latitude: number;
-  longitude: number;
-}
-
 export interface PaginationResponse {
   nextCursor: string;
   totalCount: number;
@@ -0,0 +1,396 @@
+// Code generated by protoc-gen-ts-server. DO NOT EDIT.
+// source: worldmonitor/trading/v1/service.proto
+
+export interface GetTradingSignalsRequest {
+  symbols: string[];
+}
+
+export interface GetTradingSignalsResponse {
+  signals: TradingSignal[];
+  generatedAt: number;
+}
+
+export interface TradingSignal {
+  symbol: string;
+  action: TradingAction;
+  confidence: number;
+  reasoning: string;
+  currentPrice: number;
+  fastMa: number;
+  slowMa: number;
+  rsi: number;
+}
+
+export interface GetTradingStatusRequest {
+}
+
+export interface GetTradingStatusResponse {
+  systemStatus: string;
+  broker: string;
+  strategy: string;
+  symbols: string[];
+  riskControls?: RiskControls;
+  schedule?: TradingSchedule;
+}
+
+export interface RiskControls {
+  maxPositions: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+}
+
+export interface TradingSchedule {
+  lastExecutionAt: number;
+  nextExecutionAt: number;
+  intervalMinutes: number;
+}
+
+export interface GetTradingAccountRequest {
+}
+
+export interface GetTradingAccountResponse {
+  account?: TradingAccount;
+  error: string;
+}
+
+export interface TradingAccount {
+  equity: number;
+  cash: number;
+  buyingPower: number;
+  startingCapital: number;
+  totalReturnPct: number;
+  dailyPnl: number;
+  updatedAt: number;
+}
+
+export interface GetTradingPortfolioRequest {
+}
+
+export interface GetTradingPortfolioResponse {
+  metrics?: PortfolioMetrics;
+  equityHistory: EquityPoint[];
+}
+
+export interface PortfolioMetrics {
+  totalReturnPct: number;
+  maxDrawdownPct: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  tradingDays: number;
+  startingCapital: number;
+  currentEquity: number;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+}
+
+export interface ListTradingPositionsRequest {
+  tradeLimit: number;
+}
+
+export interface ListTradingPositionsResponse {
+  positions: TradingPosition[];
+  maxPositions: number;
+  trades: TradeRecord[];
+}
+
+export interface TradingPosition {
+  symbol: string;
+  qty: number;
+  entryPrice: number;
+  currentPrice: number;
+  marketValue: number;
+  unrealizedPl: number;
+  unrealizedPlpc: number;
+  side: string;
+}
+
+export interface TradeRecord {
+  executedAt: number;
+  action: TradingAction;
+  symbol: string;
+  qty: number;
+  price: number;
+  amount: number;
+  reasoning: string;
+}
+
+export type TradingAction = "TRADING_ACTION_UNSPECIFIED" | "TRADING_ACTION_BUY" | "TRADING_ACTION_SELL" | "TRADING_ACTION_HOLD";
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface ServerContext {
+  request: Request;
+  pathParams: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export interface ServerOptions {
+  onError?: (error: unknown, req: Request) => Response | Promise<Response>;
+  validateRequest?: (methodName: string, body: unknown) => FieldViolation[] | undefined;
+}
+
+export interface RouteDescriptor {
+  method: string;
+  path: string;
+  handler: (req: Request) => Promise<Response>;
+}
+
+export interface TradingServiceHandler {
+  getTradingSignals(ctx: ServerContext, req: GetTradingSignalsRequest): Promise<GetTradingSignalsResponse>;
+  getTradingStatus(ctx: ServerContext, req: GetTradingStatusRequest): Promise<GetTradingStatusResponse>;
+  getTradingAccount(ctx: ServerContext, req: GetTradingAccountRequest): Promise<GetTradingAccountResponse>;
+  getTradingPortfolio(ctx: ServerContext, req: GetTradingPortfolioRequest): Promise<GetTradingPortfolioResponse>;
+  listTradingPositions(ctx: ServerContext, req: ListTradingPositionsRequest): Promise<ListTradingPositionsResponse>;
+}
+
+export function createTradingServiceRoutes(
+  handler: TradingServiceHandler,
+  options?: ServerOptions,
+): RouteDescriptor[] {
+  return [
+    {
+      method: "POST",
+      path: "/api/trading/v1/get-trading-signals",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetTradingSignalsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getTradingSignals", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getTradingSignals(ctx, body);
+          return new Response(JSON.stringify(result as GetTradingSignalsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/trading/v1/get-trading-status",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetTradingStatusRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getTradingStatus", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getTradingStatus(ctx, body);
+          return new Response(JSON.stringify(result as GetTradingStatusResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/trading/v1/get-trading-account",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetTradingAccountRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getTradingAccount", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getTradingAccount(ctx, body);
+          return new Response(JSON.stringify(result as GetTradingAccountResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/trading/v1/get-trading-portfolio",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetTradingPortfolioRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getTradingPortfolio", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getTradingPortfolio(ctx, body);
+          return new Response(JSON.stringify(result as GetTradingPortfolioResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/trading/v1/list-trading-positions",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListTradingPositionsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listTradingPositions", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listTradingPositions(ctx, body);
+          return new Response(JSON.stringify(result as ListTradingPositionsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+  ];
+}
+
@@ -5,6 +5,7 @@ export interface ListFireDetectionsRequest {
   timeRange?: TimeRange;
   pagination?: PaginationRequest;
   boundingBox?: BoundingBox;
+  country: string;
 }
 
 export interface TimeRange {
@@ -0,0 +1,165 @@
+/**
+ * Rule-based alerting.
+ *
+ * Subscribes to the correlation signal stream (surges, geo convergence,
+ * keyword spikes, CII shifts, ...) and delivers matching signals to the
+ * rule's sinks, honouring per-rule dedupe windows and quiet hours. Rules and
+ * the last-sent timestamps persist in localStorage.
+ */
+
+import { STORAGE_KEYS } from '@/config';
+import { onSignals, type CorrelationSignal } from '@/services/correlation';
+import { loadFromStorage, saveToStorage } from '@/utils';
+import type { Monitor } from '@/types';
+import {
+  MAX_ALERT_RULES,
+  isDuplicate,
+  isInQuietHours,
+  matchAlertRule,
+  sanitizeAlertRule,
+  type AlertRule,
+  type AlertSignal,
+} from './rules';
+import { deliverAlert, type AlertMessage } from './sinks';
+
+export * from './rules';
+export { requestDesktopNotificationPermission, type AlertMessage } from './sinks';
+
+export interface AlertLogEntry {
+  ruleId: string;
+  ruleName: string;
+  title: string;
+  sink: string;
+  timestamp: number;
+  ok: boolean;
+  error?: string;
+}
+
+const MAX_LOG_ENTRIES = 50;
+const STATE_RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+let rules: AlertRule[] = loadRules();
+let lastSent: Record<string, number> = loadFromStorage<Record<string, number>>(STORAGE_KEYS.alertState, {});
+const deliveryLog: AlertLogEntry[] = [];
+const ruleListeners = new Set<() => void>();
+let unsubscribe: (() => void) | null = null;
+let getMonitors: () => Monitor[] = () => [];
+
+function loadRules(): AlertRule[] {
+  const stored = loadFromStorage<unknown[]>(STORAGE_KEYS.alertRules, []);
+  return (Array.isArray(stored) ? stored : [])
+    .map(sanitizeAlertRule)
+    .filter((r): r is AlertRule => r !== null)
+    .slice(0, MAX_ALERT_RULES);
+}
+
+function persistState(now: number): void {
+  for (const [key, ts] of Object.entries(lastSent)) {
+    if (now - ts > STATE_RETENTION_MS) delete lastSent[key];
+  }
+  saveToStorage(STORAGE_KEYS.alertState, lastSent);
+}
+
+function logDelivery(entry: AlertLogEntry): void {
+  deliveryLog.unshift(entry);
+  if (deliveryLog.length > MAX_LOG_ENTRIES) deliveryLog.length = MAX_LOG_ENTRIES;
+  for (const listener of ruleListeners) listener();
+}
+
+function toMessage(rule: AlertRule, signal: AlertSignal): AlertMessage {
+  return {
+    rule: rule.name || rule.id,
+    type: signal.type,
+    title: signal.title,
+    body: signal.description,
+    confidence: signal.confidence,
+    timestamp: signal.timestamp.getTime(),
+  };
+}
+
+async function dispatch(rule: AlertRule, message: AlertMessage): Promise<boolean> {
+  const results = await Promise.all(rule.sinks.map(async (sink) => {
+    try {
+      await deliverAlert(sink, message);
+      logDelivery({ ruleId: rule.id, ruleName: message.rule, title: message.title, sink: sink.kind, timestamp: Date.now(), ok: true });
+      return true;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[Alerting] ${sink.kind} delivery failed for rule ${rule.id}:`, reason);
+      logDelivery({ ruleId: rule.id, ruleName: message.rule, title: message.title, sink: sink.kind, timestamp: Date.now(), ok: false, error: reason });
+      return false;
+    }
+  }));
+  return results.some(Boolean);
+}
+
+export async function evaluateAlertRules(signals: CorrelationSignal[]): Promise<void> {
+  const active = rules.filter(r => r.enabled && r.sinks.length > 0);
+  if (!active.length || !signals.length) return;
+
+  const now = new Date();
+  const monitors = getMonitors();
+  const deliveries: Promise<boolean>[] = [];
+
+  for (const rule of active) {
+    if (isInQuietHours(rule.quietHours, now)) continue;
+    for (const signal of signals) {
+      const match = matchAlertRule(rule, signal as AlertSignal, monitors);
+      if (!match || isDuplicate(lastSent[match.key], rule.dedupeMinutes, now.getTime())) continue;
+      lastSent[match.key] = now.getTime();
+      deliveries.push(dispatch(rule, toMessage(rule, signal as AlertSignal)));
+    }
+  }
+
+  if (!deliveries.length) return;
+  persistState(now.getTime());
+  await Promise.all(deliveries);
+}
+
+/** Start evaluating rules against the signal stream. Safe to call more than once. */
+export function initAlerting(monitorSource: () => Monitor[]): void {
+  getMonitors = monitorSource;
+  if (unsubscribe) return;
+  unsubscribe = onSignals((signals) => {
+    void evaluateAlertRules(signals);
+  });
+}
+
+export function getAlertRules(): AlertRule[] {
+  return rules.map(r => ({ ...r, sinks: r.sinks.map(s => ({ ...s })), signalTypes: [...r.signalTypes] }));
+}
+
+export function saveAlertRules(next: AlertRule[]): AlertRule[] {
+  rules = next
+    .map(sanitizeAlertRule)
+    .filter((r): r is AlertRule => r !== null)
+    .slice(0, MAX_ALERT_RULES);
+  saveToStorage(STORAGE_KEYS.alertRules, rules);
+  const ids = new Set(rules.map(r => r.id));
+  lastSent = Object.fromEntries(Object.entries(lastSent).filter(([key]) => ids.has(key.split(':')[0]!)));
+  saveToStorage(STORAGE_KEYS.alertState, lastSent);
+  for (const listener of ruleListeners) listener();
+  return getAlertRules();
+}
+
+/** Deliver a sample alert through every sink of the rule, bypassing matching, dedupe and quiet hours. */
+export function sendTestAlert(rule: AlertRule): Promise<boolean> {
+  return dispatch(rule, {
+    rule: rule.name || rule.id,
+    type: 'test',
+    title: `Test alert${rule.name ? `: ${rule.name}` : ''}`,
+    body: 'This is a test delivery from World Monitor alert rules.',
+    confidence: 1,
+    timestamp: Date.now(),
+  });
+}
+
+export function getAlertLog(): AlertLogEntry[] {
+  return [...deliveryLog];
+}
+
+/** Subscribe to rule edits and delivery log updates. Returns an unsubscribe function. */
+export function onAlertingChange(listener: () => void): () => void {
+  ruleListeners.add(listener);
+  return () => ruleListeners.delete(listener);
+}
@@ -0,0 +1,224 @@
+/**
+ * Alert rule model and matching.
+ *
+ * Pure functions only (no app imports) so rules can be evaluated anywhere a
+ * CorrelationSignal is available and exercised directly in tests.
+ */
+
+export type AlertRuleKind = 'cii_rise' | 'surge' | 'keyword_spike' | 'geofence' | 'signal';
+export type AlertSinkKind = 'webhook' | 'slack' | 'email' | 'desktop';
+
+export interface AlertSink {
+  kind: AlertSinkKind;
+  /** Webhook/Slack URL or email address. Unused for desktop notifications. */
+  target: string;
+}
+
+export interface QuietHours {
+  /** Local time, "HH:MM". A window that ends before it starts wraps past midnight. */
+  start: string;
+  end: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: AlertRuleKind;
+  /** cii_rise: ISO-2 country code, empty for any country. */
+  country: string;
+  /** cii_rise: minimum 24h CII increase. */
+  minChange: number;
+  /** surge: theater or region id, empty for any theater. */
+  theater: string;
+  /** keyword_spike, geofence: monitor id, empty for any monitor. */
+  monitorId: string;
+  /** signal: signal types to match, empty for all. */
+  signalTypes: string[];
+  minConfidence: number;
+  dedupeMinutes: number;
+  quietHours: QuietHours | null;
+  sinks: AlertSink[];
+}
+
+/** The subset of CorrelationSignal the rules read. */
+export interface AlertSignal {
+  type: string;
+  title: string;
+  description: string;
+  confidence: number;
+  timestamp: Date;
+  data: Record<string, unknown>;
+}
+
+export interface AlertMonitor {
+  id: string;
+  keywords: string[];
+  name?: string;
+}
+
+export interface AlertMatch {
+  /** Dedupe key: one delivery per rule and subject within the dedupe window. */
+  key: string;
+  subject: string;
+}
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['cii_rise', 'surge', 'keyword_spike', 'geofence', 'signal'];
+export const ALERT_SINK_KINDS: AlertSinkKind[] = ['webhook', 'slack', 'email', 'desktop'];
+
+export const DEFAULT_DEDUPE_MINUTES = 60;
+export const MAX_DEDUPE_MINUTES = 7 * 24 * 60;
+export const DEFAULT_CII_MIN_CHANGE = 10;
+export const MAX_ALERT_RULES = 50;
+export const MAX_SINKS_PER_RULE = 5;
+
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, v));
+}
+
+function str(v: unknown, max = 200): string {
+  return typeof v === 'string' ? v.trim().slice(0, max) : '';
+}
+
+function num(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function createAlertRule(kind: AlertRuleKind, id: string): AlertRule {
+  return {
+    id,
+    name: '',
+    enabled: true,
+    kind,
+    country: '',
+    minChange: DEFAULT_CII_MIN_CHANGE,
+    theater: '',
+    monitorId: '',
+    signalTypes: [],
+    minConfidence: 0,
+    dedupeMinutes: DEFAULT_DEDUPE_MINUTES,
+    quietHours: null,
+    sinks: [{ kind: 'desktop', target: '' }],
+  };
+}
+
+/** Coerce stored or user-entered data into a valid rule, or null if unusable. */
+export function sanitizeAlertRule(raw: unknown): AlertRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const id = str(r.id, 64);
+  const kind = r.kind as AlertRuleKind;
+  if (!id || !ALERT_RULE_KINDS.includes(kind)) return null;
+
+  const quiet = r.quietHours as Record<string, unknown> | null | undefined;
+  const quietHours = quiet && TIME_RE.test(str(quiet.start)) && TIME_RE.test(str(quiet.end)) && quiet.start !== quiet.end
+    ? { start: str(quiet.start), end: str(quiet.end) }
+    : null;
+
+  const sinks = (Array.isArray(r.sinks) ? r.sinks : [])
+    .map((s): AlertSink | null => {
+      const sink = s as Record<string, unknown> | null;
+      const sinkKind = sink?.kind as AlertSinkKind;
+      if (!ALERT_SINK_KINDS.includes(sinkKind)) return null;
+      const target = sinkKind === 'desktop' ? '' : str(sink?.target, 500);
+      return sinkKind === 'desktop' || target ? { kind: sinkKind, target } : null;
+    })
+    .filter((s): s is AlertSink => s !== null)
+    .slice(0, MAX_SINKS_PER_RULE);
+
+  return {
+    id,
+    name: str(r.name, 80),
+    enabled: r.enabled !== false,
+    kind,
+    country: str(r.country, 2).toUpperCase(),
+    minChange: clamp(num(r.minChange, DEFAULT_CII_MIN_CHANGE), 1, 100),
+    theater: str(r.theater, 64),
+    monitorId: str(r.monitorId, 64),
+    signalTypes: (Array.isArray(r.signalTypes) ? r.signalTypes : []).map(t => str(t, 64)).filter(Boolean),
+    minConfidence: clamp(num(r.minConfidence, 0), 0, 1),
+    dedupeMinutes: clamp(Math.round(num(r.dedupeMinutes, DEFAULT_DEDUPE_MINUTES)), 0, MAX_DEDUPE_MINUTES),
+    quietHours,
+    sinks,
+  };
+}
+
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+export function isInQuietHours(quiet: QuietHours | null, at: Date): boolean {
+  if (!quiet) return false;
+  const start = minutesOf(quiet.start);
+  const end = minutesOf(quiet.end);
+  const now = at.getHours() * 60 + at.getMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function isDuplicate(lastSentAt: number | undefined, dedupeMinutes: number, now: number): boolean {
+  return lastSentAt != null && now - lastSentAt < dedupeMinutes * 60_000;
+}
+
+function normalizeTerm(v: string): string {
+  return v.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** A spike term matches a monitor keyword when either contains the other. */
+export function findMatchingMonitor(term: string, monitors: AlertMonitor[], monitorId = ''): AlertMonitor | null {
+  const needle = normalizeTerm(term);
+  if (!needle) return null;
+  for (const monitor of monitors) {
+    if (monitorId && monitor.id !== monitorId) continue;
+    const hit = monitor.keywords.some((kw) => {
+      const key = normalizeTerm(kw);
+      return key.length > 0 && (needle.includes(key) || key.includes(needle));
+    });
+    if (hit) return monitor;
+  }
+  return null;
+}
+
+export function matchAlertRule(rule: AlertRule, signal: AlertSignal, monitors: AlertMonitor[]): AlertMatch | null {
+  if (!rule.enabled || signal.confidence < rule.minConfidence) return null;
+  const data = signal.data || {};
+
+  switch (rule.kind) {
+    case 'cii_rise': {
+      if (signal.type !== 'cii_shift') return null;
+      const country = typeof data.country === 'string' ? data.country : '';
+      const change = typeof data.change === 'number' ? data.change : 0;
+      if (!country || (rule.country && rule.country !== country) || change < rule.minChange) return null;
+      return { key: `${rule.id}:cii:${country}`, subject: country };
+    }
+    case 'surge': {
+      if (signal.type !== 'military_surge') return null;
+      const theater = String(data.theaterId ?? data.regionId ?? '');
+      if (rule.theater && rule.theater !== theater) return null;
+      return { key: `${rule.id}:surge:${theater || signal.title}`, subject: theater };
+    }
+    case 'keyword_spike': {
+      if (signal.type !== 'keyword_spike') return null;
+      const term = typeof data.term === 'string' ? data.term : '';
+      const monitor = findMatchingMonitor(term, monitors, rule.monitorId);
+      if (!monitor) return null;
+      return { key: `${rule.id}:kw:${normalizeTerm(term)}`, subject: monitor.name || monitor.keywords[0] || term };
+    }
+    case 'geofence': {
+      if (signal.type !== 'geofence_hit') return null;
+      const monitorId = typeof data.monitorId === 'string' ? data.monitorId : '';
+      if (!monitorId || (rule.monitorId && rule.monitorId !== monitorId)) return null;
+      const monitor = monitors.find(m => m.id === monitorId);
+      return { key: `${rule.id}:geo:${monitorId}:${String(data.layer ?? '')}`, subject: monitor?.name || monitor?.keywords[0] || monitorId };
+    }
+    case 'signal': {
+      if (rule.signalTypes.length && !rule.signalTypes.includes(signal.type)) return null;
+      return { key: `${rule.id}:${signal.type}:${signal.title}`, subject: signal.type };
+    }
+    default:
+      return null;
+  }
+}
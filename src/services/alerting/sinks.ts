@@ -0,0 +1,50 @@
+import { hasTauriInvokeBridge, invokeTauri } from '@/services/tauri-bridge';
+import type { AlertSink } from './rules';
+
+export interface AlertMessage {
+  rule: string;
+  type: string;
+  title: string;
+  body: string;
+  confidence: number;
+  timestamp: number;
+}
+
+const DISPATCH_URL = '/api/alert-dispatch';
+
+/** Webhook, Slack and SMTP go through the server relay (browser CORS and raw sockets rule out direct delivery). */
+async function relay(sink: AlertSink, alert: AlertMessage): Promise<void> {
+  const resp = await fetch(DISPATCH_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sink: sink.kind, target: sink.target, alert }),
+  });
+  if (!resp.ok) {
+    const payload = await resp.json().catch(() => null) as { error?: string } | null;
+    throw new Error(payload?.error || `HTTP ${resp.status}`);
+  }
+}
+
+async function notifyDesktop(alert: AlertMessage): Promise<void> {
+  if (hasTauriInvokeBridge()) {
+    await invokeTauri<void>('plugin:notification|notify', { options: { title: alert.title, body: alert.body } });
+    return;
+  }
+  if (typeof Notification === 'undefined') throw new Error('Notifications not supported');
+  if (Notification.permission !== 'granted') throw new Error('Notification permission not granted');
+  new Notification(alert.title, { body: alert.body, tag: `wm-alert-${alert.rule}` });
+}
+
+export async function deliverAlert(sink: AlertSink, alert: AlertMessage): Promise<void> {
+  if (sink.kind === 'desktop') return notifyDesktop(alert);
+  return relay(sink, alert);
+}
+
+/** Ask for browser notification permission. Must run from a user gesture; the desktop app grants it natively. */
+export async function requestDesktopNotificationPermission(): Promise<boolean> {
+  if (hasTauriInvokeBridge()) return true;
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
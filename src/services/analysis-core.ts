@@ -98,6 +98,8 @@ export interface PredictionMarketCore {
   title: string;
   yesPrice: number;
   volume?: number;
+  /** Signed change in yesPrice over the past day, from recorded odds history. */
+  shift?: number;
 }
 
 export interface MarketDataCore {
@@ -122,7 +124,12 @@ export type SignalType =
   | 'explained_market_move'
   | 'hotspot_escalation'
   | 'sector_cascade'
-  | 'military_surge';
+  | 'military_surge'
+  | 'cii_shift'
+  | 'geofence_hit'
+  | 'airframe_deviation'
+  | 'vessel_anomaly'
+  | 'sanctions_match';
 
 export interface CorrelationSignalCore {
   id: string;
@@ -143,6 +150,16 @@ export interface CorrelationSignalCore {
     baseline?: number;
     multiplier?: number;
     sourceCount?: number;
+    country?: string;
+    change?: number;
+    score?: number;
+    monitorId?: string;
+    layer?: string;
+    hitCount?: number;
+    hexCode?: string;
+    mmsi?: string;
+    lat?: number;
+    lon?: number;
   };
 }
 
@@ -169,10 +186,15 @@ function generateClusterId(items: NewsItemWithTier[]): string {
 /**
  * Cluster news items by title similarity using Jaccard index.
  * Pure function - no side effects.
+ *
+ * `getSourceReliability` (0-1, from source track records) breaks ties between
+ * same-tier sources when picking the primary and scales each item's weight in
+ * the cluster's threat confidence.
  */
 export function clusterNewsCore(
   items: NewsItemCore[],
-  getSourceTier: (source: string) => number
+  getSourceTier: (source: string) => number,
+  getSourceReliability?: (source: string) => number
 ): ClusteredEventCore[] {
   if (items.length === 0) return [];
 
@@ -180,6 +202,7 @@ export function clusterNewsCore(
     ...item,
     tier: item.tier ?? getSourceTier(item.source),
   }));
+  const reliabilityOf = (item: NewsItemWithTier): number => getSourceReliability?.(item.source) ?? 1;
 
   const tokenCache = new Map<string, Set<string>>();
   const tokenList: Set<string>[] = [];
@@ -247,6 +270,8 @@ export function clusterNewsCore(
     const sorted = [...cluster].sort((a, b) => {
       const tierDiff = a.tier - b.tier;
       if (tierDiff !== 0) return tierDiff;
+      const reliabilityDiff = reliabilityOf(b) - reliabilityOf(a);
+      if (reliabilityDiff !== 0) return reliabilityDiff;
       return b.pubDate.getTime() - a.pubDate.getTime();
     });
 
@@ -261,7 +286,9 @@ export function clusterNewsCore(
         url: item.link,
       }));
 
-    const threat = aggregateThreats(cluster);
+    const threat = aggregateThreats(getSourceReliability
+      ? cluster.map(item => ({ ...item, reliability: reliabilityOf(item) }))
+      : cluster);
 
     // Pick most common geo location across items
     const locItems = cluster.filter((i): i is NewsItemWithTier & { lat: number; lon: number } => i.lat != null && i.lon != null);
@@ -518,20 +545,23 @@ export function analyzeCorrelationsCore(
   for (const pred of predictions) {
     const key = pred.title.slice(0, 50);
     const prev = previousSnapshot.predictionChanges.get(key);
-    if (prev !== undefined) {
-      const shift = Math.abs(pred.yesPrice - prev);
+    // Prefer the recorded 24h move; fall back to the change since the last analysis
+    const delta = pred.shift ?? (prev !== undefined ? pred.yesPrice - prev : undefined);
+    if (delta !== undefined) {
+      const shift = Math.abs(delta);
       if (shift >= PREDICTION_SHIFT_THRESHOLD) {
         const related = findRelatedTopics(pred.title);
         const newsActivity = related.reduce((sum, t) => sum + (newsTopics.get(t) ?? 0), 0);
 
-        const dedupeKey = generateDedupeKey('prediction_leads_news', key, shift);
+        // A recorded 24h move drifts a little every refresh; dedupe on whole points
+        const dedupeKey = generateDedupeKey('prediction_leads_news', key, pred.shift !== undefined ? Math.round(shift) : shift);
         if (newsActivity < NEWS_VELOCITY_THRESHOLD && !isRecentDuplicate(dedupeKey)) {
           markSignalSeen(dedupeKey);
           signals.push({
             id: generateSignalId(),
             type: 'prediction_leads_news',
             title: 'Prediction Market Shift',
-            description: `"${pred.title.slice(0, 60)}..." moved ${shift > 0 ? '+' : ''}${shift.toFixed(1)}% with low news coverage`,
+            description: `"${pred.title.slice(0, 60)}..." moved ${delta > 0 ? '+' : ''}${delta.toFixed(1)}%${pred.shift !== undefined ? ' in 24h' : ''} with low news coverage`,
             confidence: Math.min(0.9, 0.5 + shift / 20),
             timestamp: new Date(),
             data: {
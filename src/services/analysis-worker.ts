@@ -7,6 +7,7 @@ import type { NewsItem, ClusteredEvent, MarketData } from '@/types';
 import type { PredictionMarket } from '@/services/prediction';
 import type { CorrelationSignal } from './correlation';
 import { SOURCE_TIERS, SOURCE_TYPES, type SourceType } from '@/config/feeds';
+import { getSourceReliabilityMap } from './source-reliability';
 
 // Import worker using Vite's worker syntax
 import AnalysisWorker from '@/workers/analysis.worker?worker';
@@ -196,6 +197,7 @@ class AnalysisWorkerManager {
         id,
         items,
         sourceTiers: SOURCE_TIERS,
+        sourceReliability: getSourceReliabilityMap(),
       });
     });
   }
@@ -0,0 +1,168 @@
+/**
+ * "Ask the dashboard" analyst chat.
+ *
+ * The model runs server-side through the ChatAnalyst RPC with the same
+ * Ollama -> Groq -> OpenRouter chain as summarization, while the tools run
+ * here against the data the dashboard has loaded. When no hosted provider
+ * answers, the browser summarizer condenses the same tool results.
+ */
+
+import { mlWorker } from '@/services/ml-worker';
+import { getCurrentLanguage } from '@/services/i18n';
+import { isFeatureAvailable, type RuntimeFeatureId } from '@/services/runtime-config';
+import { NewsServiceClient, type ChatMessage } from '@/generated/client/worldmonitor/news/v1/service_client';
+import {
+  formatToolResults,
+  linkCitations,
+  parseAnalystReply,
+  type AnalystSource,
+  type AnalystToolCall,
+  type AnswerPart,
+} from './protocol';
+import { executeAnalystTool, planToolCalls, type AnalystDataSources, type AnalystSourceRegistry } from './tools';
+
+export * from './protocol';
+export { executeAnalystTool, planToolCalls, queryTerms, resolveCountryCode, type AnalystDataSources, type AnalystSourceRegistry } from './tools';
+
+/** Tool rounds per question before the model is told to answer. */
+const MAX_TOOL_ROUNDS = 3;
+/** Earlier questions and answers sent along for follow-ups. */
+const HISTORY_MESSAGES = 8;
+
+const CHAT_PROVIDERS: Array<{ featureId: RuntimeFeatureId; provider: string; label: string }> = [
+  { featureId: 'aiOllama', provider: 'ollama', label: 'Ollama' },
+  { featureId: 'aiGroq', provider: 'groq', label: 'Groq AI' },
+  { featureId: 'aiOpenRouter', provider: 'openrouter', label: 'OpenRouter' },
+];
+
+const newsClient = new NewsServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+export interface AnalystSession {
+  /** Questions and final answers; tool traffic is kept only for the current question. */
+  history: ChatMessage[];
+  sources: AnalystSourceRegistry;
+}
+
+export interface AnalystAnswer {
+  text: string;
+  parts: AnswerPart[];
+  cited: AnalystSource[];
+  /** Provider label, or "browser" for the local fallback. */
+  provider: string;
+  model: string;
+  toolsUsed: string[];
+  /** False when the local fallback answered: its summary is not cited claim by claim. */
+  grounded: boolean;
+}
+
+export type AnalystProgress =
+  | { type: 'provider'; label: string }
+  | { type: 'tool'; name: string }
+  | { type: 'local' };
+
+export function createAnalystSession(): AnalystSession {
+  return { history: [], sources: new Map() };
+}
+
+async function complete(
+  messages: ChatMessage[],
+  onProgress?: (step: AnalystProgress) => void,
+): Promise<{ reply: string; provider: string; model: string } | null> {
+  for (const def of CHAT_PROVIDERS) {
+    if (!isFeatureAvailable(def.featureId)) continue;
+    onProgress?.({ type: 'provider', label: def.label });
+    try {
+      const resp = await newsClient.chatAnalyst({ provider: def.provider, messages, lang: getCurrentLanguage() });
+      if (resp.skipped || resp.fallback || !resp.reply.trim()) continue;
+      return { reply: resp.reply.trim(), provider: def.label, model: resp.model };
+    } catch (err) {
+      console.warn(`[AnalystChat] ${def.label} failed:`, err);
+    }
+  }
+  return null;
+}
+
+async function runTools(
+  calls: AnalystToolCall[],
+  session: AnalystSession,
+  data: AnalystDataSources,
+  onProgress?: (step: AnalystProgress) => void,
+): Promise<Array<{ call: AnalystToolCall; output: string }>> {
+  const results: Array<{ call: AnalystToolCall; output: string }> = [];
+  for (const call of calls) {
+    onProgress?.({ type: 'tool', name: call.name });
+    results.push({ call, output: await executeAnalystTool(call, data, session.sources) });
+  }
+  return results;
+}
+
+/**
+ * Without a hosted model, run the tools the question suggests and let the
+ * browser summarizer condense their output. Every source the tools returned
+ * is listed, since the summary itself carries no citations.
+ */
+async function answerLocally(
+  session: AnalystSession,
+  question: string,
+  data: AnalystDataSources,
+  onProgress?: (step: AnalystProgress) => void,
+): Promise<AnalystAnswer> {
+  const before = new Set(session.sources.keys());
+  const calls = planToolCalls(question);
+  const results = await runTools(calls, session, data, onProgress);
+  const found = [...session.sources.values()].filter(s => !before.has(s.ref));
+  const findings = results.map(r => r.output).join('\n');
+
+  let summary = '';
+  if (mlWorker.isAvailable) {
+    onProgress?.({ type: 'local' });
+    const plain = findings.replace(/\[[a-z]+:[^\]]+\]\s*/g, '').slice(0, 1500);
+    const [result] = await mlWorker.summarize([`Answer "${question}" in 2-3 sentences using these facts: ${plain}`]).catch(() => ['']);
+    summary = result?.trim() ?? '';
+  }
+
+  // Without a usable summary, the tool output itself is the answer.
+  const { parts, cited } = summary ? { parts: [{ text: summary }], cited: found } : linkCitations(findings, session.sources);
+  return {
+    text: summary || findings,
+    parts,
+    cited,
+    provider: 'browser',
+    model: summary ? 't5-small' : '',
+    toolsUsed: calls.map(c => c.name),
+    grounded: false,
+  };
+}
+
+/** Ask a question, letting the model call dashboard tools before it answers. */
+export async function askAnalyst(
+  session: AnalystSession,
+  question: string,
+  data: AnalystDataSources,
+  onProgress?: (step: AnalystProgress) => void,
+): Promise<AnalystAnswer> {
+  const messages: ChatMessage[] = [...session.history.slice(-HISTORY_MESSAGES), { role: 'user', content: question }];
+  const toolsUsed: string[] = [];
+  let answer: AnalystAnswer | null = null;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const result = await complete(messages, onProgress);
+    if (!result) break;
+    const { toolCalls, answer: text } = parseAnalystReply(result.reply);
+    if (toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) {
+      if (!text) break;
+      answer = { text, ...linkCitations(text, session.sources), provider: result.provider, model: result.model, toolsUsed, grounded: true };
+      break;
+    }
+    const results = await runTools(toolCalls, session, data, onProgress);
+    toolsUsed.push(...toolCalls.map(c => c.name));
+    messages.push(
+      { role: 'assistant', content: result.reply },
+      { role: 'user', content: formatToolResults(results, round === MAX_TOOL_ROUNDS - 1) },
+    );
+  }
+
+  answer ??= await answerLocally(session, question, data, onProgress);
+  session.history.push({ role: 'user', content: question }, { role: 'assistant', content: answer.text });
+  return answer;
+}
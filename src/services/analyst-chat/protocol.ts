@@ -0,0 +1,185 @@
+/**
+ * Conversation protocol for the dashboard analyst chat. Shared by the browser,
+ * which runs the tools against the data it has loaded, and the ChatAnalyst
+ * RPC, which builds the system prompt.
+ *
+ * Small open models follow a line-based protocol more reliably than native
+ * function calling, and it behaves the same on Ollama, Groq and OpenRouter:
+ * the model either replies with `CALL <tool> {json}` lines or with an answer
+ * that cites tool results by reference id, e.g. [news:3] or [country:IR].
+ */
+
+export interface AnalystToolSpec {
+  name: string;
+  example: Record<string, string>;
+  description: string;
+}
+
+export const ANALYST_TOOLS: AnalystToolSpec[] = [
+  {
+    name: 'country_risk',
+    example: { country: 'Iran' },
+    description: 'Country Instability Index: score, level, 24h change, component breakdown and the signals and headlines driving it. Omit country for the highest-scoring countries.',
+  },
+  {
+    name: 'theater_posture',
+    example: { theater: 'Persian Gulf' },
+    description: 'Tracked military aircraft and naval vessels per theater, posture level and trend. Omit theater for all theaters.',
+  },
+  {
+    name: 'cascade',
+    example: { asset: 'Strait of Hormuz' },
+    description: 'Countries affected if an infrastructure asset (undersea cable, pipeline, port or chokepoint) fails.',
+  },
+  {
+    name: 'prediction_markets',
+    example: { query: 'ceasefire' },
+    description: 'Prediction market odds, optionally filtered by keywords.',
+  },
+  {
+    name: 'gdelt_search',
+    example: { query: 'Iran sanctions' },
+    description: 'Search worldwide news coverage from the last 24 hours (GDELT).',
+  },
+  {
+    name: 'recent_news',
+    example: { query: 'Taiwan' },
+    description: 'Clustered headlines currently on the dashboard, most severe first, optionally filtered by keywords.',
+  },
+];
+
+export const MAX_TOOL_CALLS_PER_REPLY = 3;
+/** Matches the ChatAnalyst RPC's per-message limit. */
+export const MAX_MESSAGE_LENGTH = 8000;
+
+export type AnalystSourceKind = 'news' | 'country' | 'theater' | 'asset' | 'market';
+
+/** An item a tool returned, which the answer can cite by `ref`. */
+export interface AnalystSource {
+  /** Reference id the model cites, e.g. "news:3" or "country:IR". */
+  ref: string;
+  kind: AnalystSourceKind;
+  label: string;
+  detail?: string;
+  url?: string;
+  lat?: number;
+  lon?: number;
+  countryCode?: string;
+}
+
+export interface AnalystToolCall {
+  name: string;
+  args: Record<string, string>;
+}
+
+export interface ParsedAnalystReply {
+  toolCalls: AnalystToolCall[];
+  /** The reply text when it is an answer; empty when the model asked for tools. */
+  answer: string;
+}
+
+export type AnswerPart = { text: string } | { source: AnalystSource; n: number };
+
+const CALL_LINE = /^\s*`*\s*CALL\s+([A-Za-z_]+)\s*(\{.*\})?\s*`*\s*$/;
+const REF = '(?:news|country|theater|asset|market):[A-Za-z0-9_.:-]+';
+// One or more comma-separated ids in a single bracket: [news:1] or [news:1, country:IR].
+const CITATION = new RegExp(`\\[\\s*(${REF}(?:\\s*[,;]\\s*${REF})*)\\s*\\]`, 'g');
+
+export function buildAnalystSystemPrompt(now: Date, lang = 'en'): string {
+  const tools = ANALYST_TOOLS
+    .map(tool => `- ${tool.name} ${JSON.stringify(tool.example)}: ${tool.description}`)
+    .join('\n');
+  const language = lang && lang !== 'en'
+    ? `\nWrite the answer in the language with code "${lang}", keeping reference ids unchanged.`
+    : '';
+
+  return `You are the analyst assistant of World Monitor, a real-time global intelligence dashboard. Answer questions using only data from the dashboard tools below; never rely on memory for current events.
+Current date: ${now.toISOString().slice(0, 10)}.
+
+Tools:
+${tools}
+
+To use tools, reply with nothing but CALL lines, at most ${MAX_TOOL_CALLS_PER_REPLY}, for example:
+CALL country_risk {"country": "Iran"}
+CALL recent_news {"query": "Iran"}
+The results come back in the next message. Every result item starts with a reference id in brackets, such as [news:4] or [country:IR].
+
+Once you have enough data, reply with the answer instead: plain prose under 200 words, no CALL lines. Put the reference id of each item you rely on right after the claim it supports, e.g. "Protests spread to Tabriz [news:4]." Only cite ids that appear in tool results. If the tools return nothing relevant, say what is missing rather than guessing.${language}`;
+}
+
+function parseArgs(raw: string | undefined): Record<string, string> {
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const args: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value === 'string' || typeof value === 'number') args[key] = String(value);
+    }
+    return args;
+  } catch {
+    return {};
+  }
+}
+
+/** Split a model reply into tool calls, or the answer when it made none. */
+export function parseAnalystReply(text: string): ParsedAnalystReply {
+  const toolCalls: AnalystToolCall[] = [];
+  for (const line of text.split('\n')) {
+    const match = CALL_LINE.exec(line);
+    if (match) toolCalls.push({ name: match[1]!.toLowerCase(), args: parseArgs(match[2]) });
+  }
+  // Any prose around CALL lines is the model thinking aloud, not an answer.
+  return toolCalls.length > 0
+    ? { toolCalls: toolCalls.slice(0, MAX_TOOL_CALLS_PER_REPLY), answer: '' }
+    : { toolCalls, answer: text.trim() };
+}
+
+/** The follow-up user message carrying tool output back to the model. */
+export function formatToolResults(results: Array<{ call: AnalystToolCall; output: string }>, final = false): string {
+  const body = results
+    .map(({ call, output }) => `## ${call.name} ${JSON.stringify(call.args)}\n${output}`)
+    .join('\n\n');
+  const next = final
+    ? 'Answer the question now using the results above. Do not call more tools.'
+    : 'Answer the question now, or CALL more tools if something essential is missing.';
+  const header = 'Tool results:\n';
+  const room = MAX_MESSAGE_LENGTH - header.length - next.length - 2;
+  return `${header}${body.length > room ? `${body.slice(0, room - 1)}…` : body}\n\n${next}`;
+}
+
+/**
+ * Number the sources an answer cites in order of first use and split the text
+ * around the citations. Ids the tools never returned are dropped.
+ */
+export function linkCitations(
+  answer: string,
+  sources: ReadonlyMap<string, AnalystSource>,
+): { parts: AnswerPart[]; cited: AnalystSource[] } {
+  const parts: AnswerPart[] = [];
+  const cited: AnalystSource[] = [];
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const prev = parts[parts.length - 1];
+    if (prev && 'text' in prev) prev.text += text;
+    else parts.push({ text });
+  };
+
+  for (const match of answer.matchAll(CITATION)) {
+    // Citations render as superscripts, so drop the space before them.
+    pushText(answer.slice(last, match.index).replace(/\s+$/, ''));
+    last = match.index! + match[0].length;
+    for (const ref of match[1]!.split(/[,;]/).map(r => r.trim())) {
+      const source = sources.get(ref);
+      if (!source) continue;
+      let n = cited.indexOf(source) + 1;
+      if (n === 0) n = cited.push(source);
+      const prev = parts[parts.length - 1];
+      if (!(prev && 'source' in prev && prev.source === source)) parts.push({ source, n });
+    }
+  }
+  pushText(answer.slice(last));
+  return { parts, cited };
+}
@@ -0,0 +1,284 @@
+import type { ClusteredEvent, MilitaryFlight } from '@/types';
+import type { PredictionMarket } from '@/services/prediction';
+import { fetchRiskScoreHistory, getCachedScores, toCountryScore } from '@/services/cached-risk-scores';
+import { getCachedPosture } from '@/services/cached-theater-posture';
+import { calculateCII, getCountryData, TIER1_COUNTRIES, type CountryScore } from '@/services/country-instability';
+import { getCountryBbox, getCountryNameByCode, matchCountryNamesInText, nameToCountryCode } from '@/services/country-geometry';
+import { extractDomain, fetchGdeltArticles, formatArticleDate } from '@/services/gdelt-intel';
+import { buildDependencyGraph, calculateCascade } from '@/services/infrastructure-cascade';
+import { getTheaterPostureSummaries } from '@/services/military-surge';
+import { ciiChange24h } from '@/services/reports/compose';
+import { THREAT_PRIORITY } from '@/services/threat-keywords';
+import { ANALYST_TOOLS, MAX_TOOL_CALLS_PER_REPLY, type AnalystSource, type AnalystToolCall } from './protocol';
+
+/** Live dashboard state the tools read; everything else comes from services. */
+export interface AnalystDataSources {
+  getClusters(): ClusteredEvent[];
+  getPredictions(): PredictionMarket[];
+  getMilitaryFlights(): MilitaryFlight[];
+}
+
+/** Sources returned so far in a conversation, keyed by reference id. */
+export type AnalystSourceRegistry = Map<string, AnalystSource>;
+
+const MAX_TOOL_OUTPUT = 2500;
+const MAX_ITEMS = 8;
+const STOPWORDS = new Set(['the', 'and', 'for', 'are', 'why', 'what', 'how', 'did', 'does', 'was', 'were', 'has', 'have', 'with', 'from', 'about', 'today', 'this', 'that', 'there', 'which', 'who', 'jump', 'latest', 'news']);
+
+function relativeTime(date: Date | number): string {
+  const diff = Date.now() - new Date(date).getTime();
+  if (!Number.isFinite(diff) || diff < 60_000) return 'just now';
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)}h ago`;
+  return `${Math.floor(diff / 86_400_000)}d ago`;
+}
+
+function signed(value: number): string {
+  return `${value > 0 ? '+' : ''}${Math.round(value)}`;
+}
+
+export function queryTerms(query: string | undefined): string[] {
+  return (query ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= 3 && !STOPWORDS.has(term));
+}
+
+function matchScore(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.reduce((n, term) => n + (lower.includes(term) ? 1 : 0), 0);
+}
+
+function register(registry: AnalystSourceRegistry, source: AnalystSource): string {
+  registry.set(source.ref, source);
+  return `[${source.ref}]`;
+}
+
+/** News refs are numbered per conversation; the same URL keeps its first number. */
+function registerNews(registry: AnalystSourceRegistry, news: Omit<AnalystSource, 'ref' | 'kind'>): string {
+  for (const source of registry.values()) {
+    if (source.kind === 'news' && news.url && source.url === news.url) return `[${source.ref}]`;
+  }
+  const n = [...registry.values()].filter(s => s.kind === 'news').length + 1;
+  return register(registry, { ...news, ref: `news:${n}`, kind: 'news' });
+}
+
+function countryName(code: string): string {
+  return TIER1_COUNTRIES[code] ?? getCountryNameByCode(code) ?? code;
+}
+
+function registerCountry(registry: AnalystSourceRegistry, code: string, name = countryName(code)): string {
+  const bbox = getCountryBbox(code);
+  return register(registry, {
+    ref: `country:${code}`,
+    kind: 'country',
+    label: name,
+    countryCode: code,
+    ...(bbox && { lon: (bbox[0] + bbox[2]) / 2, lat: (bbox[1] + bbox[3]) / 2 }),
+  });
+}
+
+export function resolveCountryCode(text: string): string | null {
+  const trimmed = text.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  const lower = trimmed.toLowerCase();
+  const tier1 = Object.entries(TIER1_COUNTRIES).find(([, name]) => name.toLowerCase() === lower);
+  return tier1?.[0] ?? nameToCountryCode(trimmed) ?? matchCountryNamesInText(trimmed)[0] ?? null;
+}
+
+function currentScores(): CountryScore[] {
+  const live = calculateCII();
+  if (live.length > 0) return live;
+  return getCachedScores()?.cii.map(toCountryScore) ?? [];
+}
+
+function clusterLine(registry: AnalystSourceRegistry, cluster: ClusteredEvent): string {
+  const ref = registerNews(registry, {
+    label: cluster.primaryTitle,
+    detail: cluster.primarySource,
+    url: cluster.primaryLink,
+    ...(cluster.lat !== undefined && cluster.lon !== undefined && { lat: cluster.lat, lon: cluster.lon }),
+  });
+  const sources = cluster.sourceCount > 1 ? ` +${cluster.sourceCount - 1} sources` : '';
+  const threat = cluster.threat ? `, threat ${cluster.threat.level} (${cluster.threat.category})` : '';
+  return `${ref} "${cluster.primaryTitle}" (${cluster.primarySource}${sources}${threat}, ${relativeTime(cluster.lastUpdated)})`;
+}
+
+function bySeverity(a: ClusteredEvent, b: ClusteredEvent): number {
+  return (THREAT_PRIORITY[b.threat?.level ?? 'info'] - THREAT_PRIORITY[a.threat?.level ?? 'info'])
+    || b.sourceCount - a.sourceCount;
+}
+
+async function countryRisk(args: Record<string, string>, registry: AnalystSourceRegistry): Promise<string> {
+  const scores = currentScores();
+  if (scores.length === 0) return 'No Country Instability Index scores are available yet.';
+  const history = await fetchRiskScoreHistory().catch(() => new Map<string, Array<{ timestamp: number; score: number }>>());
+  const now = Date.now();
+  const change = (s: CountryScore) => ciiChange24h(s.score, history.get(s.code) ?? [], now) ?? s.change24h;
+
+  if (!args.country?.trim()) {
+    return [...scores]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10)
+      .map(s => `${registerCountry(registry, s.code, s.name)} ${s.name}: ${s.score} (${s.level}, ${s.trend}, 24h ${signed(change(s))})`)
+      .join('\n');
+  }
+
+  const code = resolveCountryCode(args.country);
+  if (!code) return `Unknown country "${args.country}".`;
+  const score = scores.find(s => s.code === code);
+  if (!score) return `${countryName(code)} has no instability score; the index covers ${scores.length} countries.`;
+
+  const lines = [
+    `${registerCountry(registry, code, score.name)} ${score.name}: CII ${score.score}/100, level ${score.level}, trend ${score.trend}, 24h change ${signed(change(score))} points.`,
+    `Components (0-100): unrest ${Math.round(score.components.unrest)}, conflict ${Math.round(score.components.conflict)}, security ${Math.round(score.components.security)}, information ${Math.round(score.components.information)}.`,
+  ];
+  const data = getCountryData(code);
+  if (data) {
+    lines.push(`Signals: ${data.protests.length} protests, ${data.conflicts.length} conflict events, ${data.militaryFlights.length} military flights, ${data.militaryVessels.length} military vessels, ${data.outages.length} internet outages${data.ucdpStatus ? `, UCDP ${data.ucdpStatus.intensity}` : ''}.`);
+    const news = [...data.newsEvents].sort(bySeverity).slice(0, 5);
+    if (news.length > 0) {
+      lines.push('Headlines feeding the information component:');
+      lines.push(...news.map(cluster => clusterLine(registry, cluster)));
+    }
+  }
+  return lines.join('\n');
+}
+
+function theaterPosture(args: Record<string, string>, data: AnalystDataSources, registry: AnalystSourceRegistry): string {
+  const postures = getCachedPosture()?.postures ?? getTheaterPostureSummaries(data.getMilitaryFlights());
+  const terms = queryTerms(args.theater);
+  const matches = terms.length > 0
+    ? postures.filter(p => matchScore(`${p.theaterName} ${p.shortName} ${p.theaterId} ${p.targetNation ?? ''}`, terms) > 0)
+    : postures;
+  if (matches.length === 0) {
+    return `No theater matches "${args.theater}". Theaters: ${postures.map(p => p.theaterName).join(', ')}.`;
+  }
+  return matches.map(p => {
+    const ref = register(registry, {
+      ref: `theater:${p.theaterId}`,
+      kind: 'theater',
+      label: p.theaterName,
+      lat: p.centerLat,
+      lon: p.centerLon,
+    });
+    const change = p.changePercent ? ` (${signed(p.changePercent)}%)` : '';
+    return `${ref} ${p.theaterName}: posture ${p.postureLevel}, ${p.totalAircraft} aircraft (${p.fighters} fighters, ${p.tankers} tankers, ${p.awacs} AWACS, ${p.reconnaissance} recon), ${p.totalVessels} vessels${p.strikeCapable ? ', strike-capable' : ''}, trend ${p.trend}${change}. ${p.summary}`;
+  }).join('\n');
+}
+
+function cascade(args: Record<string, string>, registry: AnalystSourceRegistry): string {
+  const query = args.asset?.trim().toLowerCase();
+  if (!query) return 'Name an infrastructure asset, e.g. {"asset": "Suez Canal"}.';
+  const nodes = [...buildDependencyGraph().nodes.values()].filter(n => n.type !== 'country');
+  const node = nodes.find(n => n.id.toLowerCase() === query)
+    ?? nodes.find(n => n.name.toLowerCase() === query)
+    ?? nodes.find(n => n.name.toLowerCase().includes(query));
+  if (!node) return `No cable, pipeline, port or chokepoint matches "${args.asset}".`;
+
+  const result = calculateCascade(node.id);
+  const ref = register(registry, {
+    ref: `asset:${node.id}`,
+    kind: 'asset',
+    label: node.name,
+    detail: node.type,
+    ...(node.coordinates && { lon: node.coordinates[0], lat: node.coordinates[1] }),
+  });
+  if (!result || result.countriesAffected.length === 0) return `${ref} ${node.name} (${node.type}): no dependent countries in the model.`;
+
+  const lines = [`${ref} ${node.name} (${node.type}) failing would affect ${result.countriesAffected.length} countries:`];
+  for (const impact of result.countriesAffected.slice(0, 10)) {
+    const country = registerCountry(registry, impact.country, impact.countryName);
+    lines.push(`${country} ${impact.countryName}: ${impact.impactLevel} impact, ${Math.round(impact.affectedCapacity * 100)}% of capacity${impact.redundancyAvailable ? ', redundancy available' : ''}`);
+  }
+  if (result.redundancies?.length) {
+    lines.push(`Alternatives: ${result.redundancies.map(r => `${r.name} (${Math.round(r.capacityShare * 100)}%)`).join(', ')}.`);
+  }
+  return lines.join('\n');
+}
+
+function predictionMarkets(args: Record<string, string>, data: AnalystDataSources, registry: AnalystSourceRegistry): string {
+  const terms = queryTerms(args.query);
+  const markets = data.getPredictions()
+    .map(market => ({ market, score: matchScore(market.title, terms) }))
+    .filter(m => terms.length === 0 || m.score > 0)
+    .sort((a, b) => b.score - a.score || (b.market.volume ?? 0) - (a.market.volume ?? 0))
+    .slice(0, MAX_ITEMS);
+  if (markets.length === 0) return terms.length ? `No prediction markets match "${args.query}".` : 'No prediction markets are loaded.';
+
+  return markets.map(({ market }) => {
+    const existing = [...registry.values()].find(s => s.kind === 'market' && s.label === market.title);
+    const n = [...registry.values()].filter(s => s.kind === 'market').length + 1;
+    const ref = existing
+      ? `[${existing.ref}]`
+      : register(registry, { ref: `market:${n}`, kind: 'market', label: market.title, ...(market.url && { url: market.url }) });
+    const volume = market.volume ? `, volume $${Math.round(market.volume).toLocaleString('en-US')}` : '';
+    return `${ref} "${market.title}": ${Math.round(market.yesPrice)}% yes${volume}`;
+  }).join('\n');
+}
+
+async function gdeltSearch(args: Record<string, string>, registry: AnalystSourceRegistry): Promise<string> {
+  const query = args.query?.trim();
+  if (!query) return 'A search query is required.';
+  const articles = await fetchGdeltArticles(query, MAX_ITEMS, '24h');
+  if (articles.length === 0) return `GDELT found no coverage of "${query}" in the last 24 hours.`;
+  return articles.map(article => {
+    const source = article.source || extractDomain(article.url);
+    const ref = registerNews(registry, { label: article.title, detail: source, url: article.url });
+    const when = formatArticleDate(article.date);
+    return `${ref} "${article.title}" (${source}${when ? `, ${when}` : ''})`;
+  }).join('\n');
+}
+
+function recentNews(args: Record<string, string>, data: AnalystDataSources, registry: AnalystSourceRegistry): string {
+  const terms = queryTerms(args.query);
+  const clusters = data.getClusters()
+    .map(cluster => ({ cluster, score: matchScore(cluster.allItems.map(i => i.title).join(' ') || cluster.primaryTitle, terms) }))
+    .filter(c => terms.length === 0 || c.score > 0)
+    .sort((a, b) => b.score - a.score || bySeverity(a.cluster, b.cluster))
+    .slice(0, MAX_ITEMS);
+  if (clusters.length === 0) return terms.length ? `No dashboard headlines match "${args.query}".` : 'No headlines are loaded yet.';
+  return clusters.map(({ cluster }) => clusterLine(registry, cluster)).join('\n');
+}
+
+/** Run one tool call against the dashboard's data, registering what it returns as citable sources. */
+export async function executeAnalystTool(
+  call: AnalystToolCall,
+  data: AnalystDataSources,
+  registry: AnalystSourceRegistry,
+): Promise<string> {
+  let output: string;
+  try {
+    switch (call.name) {
+      case 'country_risk': output = await countryRisk(call.args, registry); break;
+      case 'theater_posture': output = theaterPosture(call.args, data, registry); break;
+      case 'cascade': output = cascade(call.args, registry); break;
+      case 'prediction_markets': output = predictionMarkets(call.args, data, registry); break;
+      case 'gdelt_search': output = await gdeltSearch(call.args, registry); break;
+      case 'recent_news': output = recentNews(call.args, data, registry); break;
+      default: output = `Unknown tool "${call.name}". Available: ${ANALYST_TOOLS.map(t => t.name).join(', ')}.`;
+    }
+  } catch (err) {
+    output = `Tool failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  return output.length > MAX_TOOL_OUTPUT ? `${output.slice(0, MAX_TOOL_OUTPUT - 1)}…` : output;
+}
+
+/**
+ * Pick tools from the question itself, for the browser fallback where no
+ * model is available to choose them.
+ */
+export function planToolCalls(question: string): AnalystToolCall[] {
+  const lower = question.toLowerCase();
+  const calls: AnalystToolCall[] = [];
+  const code = matchCountryNamesInText(question)[0];
+  if (code) calls.push({ name: 'country_risk', args: { country: code } });
+  if (/\b(military|posture|theat(er|re)s?|aircraft|naval|fleet|troops)\b/.test(lower)) {
+    calls.push({ name: 'theater_posture', args: {} });
+  }
+  if (/\b(odds|markets?|predictions?|polymarket|bets?|chances?)\b/.test(lower)) {
+    calls.push({ name: 'prediction_markets', args: { query: question } });
+  }
+  calls.push({ name: 'recent_news', args: { query: code ? countryName(code) : question } });
+  return calls.slice(0, MAX_TOOL_CALLS_PER_REPLY);
+}
@@ -54,6 +54,9 @@ const SECRET_ANALYTICS_NAMES: Record<RuntimeSecretKey, string> = {
   OLLAMA_MODEL: 'ollama_model',
   WORLDMONITOR_API_KEY: 'worldmonitor',
   WTO_API_KEY: 'wto',
+  SMTP_URL: 'smtp_url',
+  SMTP_FROM: 'smtp_from',
+  ALERT_EMAIL_RECIPIENTS: 'alert_email_recipients',
   XAI_API_KEY: 'xai',
   OPENAI_API_KEY: 'openai',
 };
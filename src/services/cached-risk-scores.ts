@@ -10,6 +10,7 @@ import { getPersistentCache, setPersistentCache } from './persistent-cache';
 import {
   IntelligenceServiceClient,
   type GetRiskScoresResponse,
+  type GetRiskScoreHistoryResponse,
   type CiiScore,
   type StrategicRisk,
 } from '@/generated/client/worldmonitor/intelligence/v1/service_client';
@@ -44,6 +45,12 @@ export interface CachedStrategicRisk {
   }>;
 }
 
+export interface CIIHistoryPoint {
+  timestamp: number;
+  score: number;
+  components: ComponentScores;
+}
+
 export interface CachedRiskScores {
   cii: CachedCIIScore[];
   strategicRisk: CachedStrategicRisk;
@@ -224,3 +231,64 @@ export function toCountryScore(cached: CachedCIIScore): CountryScore {
     lastUpdated: new Date(cached.lastUpdated),
   };
 }
+
+// ---- Score history ----
+
+export const CII_HISTORY_WINDOWS = [30, 90] as const;
+export type CIIHistoryWindow = typeof CII_HISTORY_WINDOWS[number];
+
+const HISTORY_MAX_DAYS = 90;
+const HISTORY_REFETCH_MS = 10 * 60 * 1000; // server samples every 6h; 10 min keeps the latest bucket fresh
+let cachedHistory: Map<string, CIIHistoryPoint[]> | null = null;
+let historyFetchedAt = 0;
+let historyPromise: Promise<Map<string, CIIHistoryPoint[]>> | null = null;
+
+function toHistory(resp: GetRiskScoreHistoryResponse): Map<string, CIIHistoryPoint[]> {
+  const map = new Map<string, CIIHistoryPoint[]>();
+  for (const h of resp.histories) {
+    map.set(h.region, h.points.map((p) => ({
+      timestamp: p.timestamp,
+      score: p.combinedScore,
+      components: {
+        unrest: p.unrest,
+        conflict: p.conflict,
+        security: p.security,
+        information: p.information,
+      },
+    })));
+  }
+  return map;
+}
+
+/**
+ * Recorded CII trajectories for all tracked countries (90 days, oldest first).
+ * Use sliceCIIHistory() to narrow to a shorter window.
+ */
+export async function fetchRiskScoreHistory(signal?: AbortSignal): Promise<Map<string, CIIHistoryPoint[]>> {
+  if (signal?.aborted) throw createAbortError();
+  if (cachedHistory && Date.now() - historyFetchedAt < HISTORY_REFETCH_MS) return cachedHistory;
+
+  if (!historyPromise) {
+    historyPromise = (async () => {
+      try {
+        const resp = await client.getRiskScoreHistory({ regions: [], days: HISTORY_MAX_DAYS });
+        cachedHistory = toHistory(resp);
+        historyFetchedAt = Date.now();
+        return cachedHistory;
+      } catch (error) {
+        console.error('[CachedRiskScores] History fetch error:', error);
+        return cachedHistory ?? new Map<string, CIIHistoryPoint[]>();
+      } finally {
+        historyPromise = null;
+      }
+    })();
+  }
+
+  return withCallerAbort(historyPromise, signal);
+}
+
+export function sliceCIIHistory(points: CIIHistoryPoint[] | undefined, days: CIIHistoryWindow): CIIHistoryPoint[] {
+  if (!points?.length) return [];
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return points.filter((p) => p.timestamp >= cutoff);
+}
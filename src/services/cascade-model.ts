@@ -0,0 +1,353 @@
+/**
+ * Cascade propagation model and custom dependency import.
+ *
+ * Pure functions (no config or DOM imports) so infrastructure-cascade.ts can
+ * feed them the built-in graph while tests exercise them directly.
+ *
+ * Each hop hits a dependent node with disruption × strength × (1 − redundancy),
+ * where disruption is that of the scenario source the parent was reached
+ * from. Impact is not compounded hop by hop, so a one-asset scenario gives
+ * the same results as the single-asset simulation. Within one source the
+ * strongest path wins; hits traced to different sources combine as
+ * independent failures (1 − Π(1 − hit)). Redundancy is eroded by the share
+ * of the node's inbound dependencies that the other sources take down, so
+ * failing a cable and its backup together hurts more than either alone.
+ */
+
+import type {
+  CascadeScenarioSource,
+  DependencyEdge,
+  DependencyType,
+  InfrastructureNode,
+  InfrastructureNodeType,
+} from '@/types';
+
+export const DEFAULT_CASCADE_DEPTH = 3;
+export const MAX_CASCADE_DEPTH = 6;
+export const MIN_PROPAGATED_IMPACT = 0.05;
+
+export interface CascadeGraphView {
+  nodes: Map<string, InfrastructureNode>;
+  outgoing: Map<string, DependencyEdge[]>;
+  incoming: Map<string, DependencyEdge[]>;
+}
+
+export interface PropagatedImpact {
+  nodeId: string;
+  impact: number;
+  depth: number;
+  /** Strongest path from a scenario source to this node. */
+  chain: string[];
+  /** Scenario source ids whose disruption reaches this node. */
+  sources: string[];
+  redundancyAvailable: boolean;
+  estimatedRecovery?: string;
+}
+
+interface Contribution {
+  parent: string;
+  edge: DependencyEdge;
+  /** Scenario source the parent was reached from, and its disruption. */
+  origin: string;
+  disruption: number;
+}
+
+export function clampUnit(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+export function clampDepth(depth: number | undefined): number {
+  if (!Number.isFinite(depth) || !depth || depth < 1) return DEFAULT_CASCADE_DEPTH;
+  return Math.min(MAX_CASCADE_DEPTH, Math.floor(depth));
+}
+
+/** Combine independent partial failures: 1 − Π(1 − impact). */
+export function combineImpacts(impacts: number[]): number {
+  return 1 - impacts.reduce((remaining, impact) => remaining * (1 - clampUnit(impact)), 1);
+}
+
+/** Strongest edge per parent; parallel edges (e.g. serves + lands_at) count once. */
+function strongestPerParent<T extends { edge: DependencyEdge }>(items: T[], parentOf: (item: T) => string): T[] {
+  const best = new Map<string, T>();
+  for (const item of items) {
+    const parent = parentOf(item);
+    const current = best.get(parent);
+    if (!current || item.edge.strength > current.edge.strength) best.set(parent, item);
+  }
+  return [...best.values()];
+}
+
+/**
+ * Share of a node's inbound dependency strength lost to parents disrupted by
+ * other sources. Used to erode the redundancy the node can fall back on.
+ */
+function lostInboundShare(target: string, other: Contribution[], graph: CascadeGraphView): number {
+  if (other.length === 0) return 0;
+  const inbound = strongestPerParent((graph.incoming.get(target) ?? []).map(edge => ({ edge })), i => i.edge.from);
+  const total = inbound.reduce((sum, i) => sum + i.edge.strength, 0);
+  if (total <= 0) return 0;
+  const lost = other.reduce((sum, c) => sum + c.edge.strength * c.disruption, 0);
+  return clampUnit(lost / total);
+}
+
+/**
+ * Propagate a multi-source scenario through the graph, layer by layer up to
+ * maxDepth hops. Returns every affected node except the sources themselves.
+ */
+export function propagateCascade(
+  graph: CascadeGraphView,
+  sources: CascadeScenarioSource[],
+  maxDepth: number = DEFAULT_CASCADE_DEPTH,
+): Map<string, PropagatedImpact> {
+  const depthLimit = clampDepth(maxDepth);
+  const settled = new Map<string, PropagatedImpact>();
+  const disruptionOf = new Map<string, number>();
+
+  for (const source of sources) {
+    if (!graph.nodes.has(source.nodeId)) continue;
+    const disruption = clampUnit(source.disruption);
+    const existing = settled.get(source.nodeId);
+    settled.set(source.nodeId, {
+      nodeId: source.nodeId,
+      impact: existing ? combineImpacts([existing.impact, disruption]) : disruption,
+      depth: 0,
+      chain: [source.nodeId],
+      sources: [source.nodeId],
+      redundancyAvailable: false,
+    });
+    disruptionOf.set(source.nodeId, Math.max(disruptionOf.get(source.nodeId) ?? 0, disruption));
+  }
+  const sourceIds = new Set(settled.keys());
+
+  let frontier = [...sourceIds];
+  for (let depth = 0; depth < depthLimit && frontier.length > 0; depth++) {
+    const pending = new Map<string, Contribution[]>();
+    for (const parent of frontier) {
+      const origin = settled.get(parent)!.chain[0]!;
+      const disruption = disruptionOf.get(parent)!;
+      for (const edge of graph.outgoing.get(parent) ?? []) {
+        if (settled.has(edge.to) || !graph.nodes.has(edge.to)) continue;
+        const list = pending.get(edge.to) ?? [];
+        list.push({ parent, edge, origin, disruption });
+        pending.set(edge.to, list);
+      }
+    }
+
+    const next: string[] = [];
+    for (const [target, parallel] of pending) {
+      const contributions = strongestPerParent(parallel, c => c.parent);
+      const hits = contributions.map((c) => {
+        const lostShare = lostInboundShare(target, contributions.filter(o => o.origin !== c.origin), graph);
+        const redundancy = clampUnit(c.edge.redundancy ?? 0) * (1 - lostShare);
+        return { contribution: c, redundancy, hit: c.disruption * clampUnit(c.edge.strength) * (1 - redundancy) };
+      });
+      const strongestBySource = new Map<string, number>();
+      for (const h of hits) {
+        const { origin } = h.contribution;
+        strongestBySource.set(origin, Math.max(strongestBySource.get(origin) ?? 0, h.hit));
+      }
+      const impact = combineImpacts([...strongestBySource.values()]);
+      if (impact < MIN_PROPAGATED_IMPACT) continue;
+
+      const best = hits.reduce((a, b) => (b.hit > a.hit ? b : a));
+      const reached = new Set<string>();
+      for (const c of contributions) settled.get(c.parent)!.sources.forEach((s) => reached.add(s));
+      settled.set(target, {
+        nodeId: target,
+        impact,
+        depth: depth + 1,
+        chain: [...settled.get(best.contribution.parent)!.chain, target],
+        sources: [...reached],
+        redundancyAvailable: best.redundancy > 0.3,
+        estimatedRecovery: best.contribution.edge.metadata?.estimatedImpact,
+      });
+      disruptionOf.set(target, best.contribution.disruption);
+      next.push(target);
+    }
+    frontier = next;
+  }
+
+  for (const id of sourceIds) settled.delete(id);
+  return settled;
+}
+
+// ========================================================================
+// Custom dependency import
+// ========================================================================
+
+export const CUSTOM_NODE_TYPES = ['datacenter', 'landing_station', 'power_plant', 'facility'] as const;
+export type CustomNodeType = typeof CUSTOM_NODE_TYPES[number];
+
+const BUILTIN_NODE_TYPES: InfrastructureNodeType[] = ['cable', 'pipeline', 'port', 'chokepoint', 'country'];
+const EDGE_TYPES: DependencyType[] = [
+  'serves', 'terminates_at', 'transits_through', 'lands_at', 'depends_on',
+  'shares_risk', 'alternative_to', 'trade_route', 'controls_access', 'trade_dependency',
+];
+const MAX_CUSTOM_NODES = 2000;
+const MAX_CUSTOM_EDGES = 5000;
+const NODE_ID_RE = /^[a-z_]+:[\w.-]{1,80}$/i;
+
+export interface CustomDependencyGraph {
+  nodes: InfrastructureNode[];
+  edges: DependencyEdge[];
+}
+
+export interface CustomGraphParseResult {
+  graph: CustomDependencyGraph;
+  errors: string[];
+}
+
+function nodeTypeFromId(id: string): InfrastructureNodeType {
+  const prefix = id.split(':')[0]!.toLowerCase();
+  if ((CUSTOM_NODE_TYPES as readonly string[]).includes(prefix)) return prefix as InfrastructureNodeType;
+  if ((BUILTIN_NODE_TYPES as string[]).includes(prefix)) return prefix as InfrastructureNodeType;
+  return 'facility';
+}
+
+function normalizeNodeId(raw: unknown): string | null {
+  const id = typeof raw === 'string' ? raw.trim() : '';
+  if (!NODE_ID_RE.test(id)) return null;
+  const [prefix, rest] = [id.slice(0, id.indexOf(':')).toLowerCase(), id.slice(id.indexOf(':') + 1)];
+  return prefix === 'country' ? `country:${rest.toUpperCase()}` : `${prefix}:${rest}`;
+}
+
+function toNumber(raw: unknown): number | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function sanitizeNode(raw: Record<string, unknown>, errors: string[], line: string): InfrastructureNode | null {
+  const id = normalizeNodeId(raw.id);
+  if (!id) {
+    errors.push(`${line}: invalid node id "${String(raw.id ?? '')}" (expected "type:name")`);
+    return null;
+  }
+  const declared = typeof raw.type === 'string' ? raw.type.toLowerCase() : '';
+  const type = (CUSTOM_NODE_TYPES as readonly string[]).includes(declared) ? declared as InfrastructureNodeType : nodeTypeFromId(id);
+  const lat = toNumber(raw.lat);
+  const lon = toNumber(raw.lon);
+  const country = typeof raw.country === 'string' ? raw.country.trim().toUpperCase().slice(0, 2) : '';
+  return {
+    id,
+    type,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 120) : id.slice(id.indexOf(':') + 1),
+    coordinates: lat !== undefined && lon !== undefined && Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? [lon, lat] : undefined,
+    metadata: { custom: true, ...(country ? { country } : {}) },
+  };
+}
+
+function sanitizeEdge(raw: Record<string, unknown>, errors: string[], line: string): DependencyEdge | null {
+  const from = normalizeNodeId(raw.from);
+  const to = normalizeNodeId(raw.to);
+  if (!from || !to || from === to) {
+    errors.push(`${line}: edge needs distinct "from" and "to" node ids`);
+    return null;
+  }
+  const strength = toNumber(raw.strength);
+  if (strength === undefined || strength <= 0 || strength > 1) {
+    errors.push(`${line}: strength must be between 0 and 1`);
+    return null;
+  }
+  const type = typeof raw.type === 'string' && (EDGE_TYPES as string[]).includes(raw.type) ? raw.type as DependencyType : 'depends_on';
+  const redundancy = toNumber(raw.redundancy);
+  const note = typeof raw.note === 'string' ? raw.note.trim().slice(0, 200) : '';
+  return {
+    from,
+    to,
+    type,
+    strength,
+    redundancy: redundancy === undefined ? 0 : clampUnit(redundancy),
+    ...(note ? { metadata: { relationship: note } } : {}),
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseCsv(text: string): { nodes: Record<string, unknown>[]; edges: Record<string, unknown>[] } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() && !l.trim().startsWith('#'));
+  const header = splitCsvLine(lines.shift() ?? '').map((h) => h.toLowerCase());
+  const edges = lines.map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((h, i) => [h, cells[i] ?? '']));
+  });
+  // Optional from_name/to_name/from_type/to_type columns declare the endpoints inline
+  const nodes: Record<string, unknown>[] = [];
+  for (const row of edges) {
+    for (const end of ['from', 'to'] as const) {
+      if (row[`${end}_name`] || row[`${end}_type`]) {
+        nodes.push({ id: row[end], name: row[`${end}_name`], type: row[`${end}_type`], lat: row[`${end}_lat`], lon: row[`${end}_lon`] });
+      }
+    }
+  }
+  return { nodes, edges };
+}
+
+/**
+ * Parse a custom dependency file. Accepts JSON ({ nodes, edges }) or CSV with
+ * a from,to,strength[,redundancy,type,note] header. Node ids are "type:name"
+ * (e.g. datacenter:fra1, country:DE); endpoints that are not declared and not
+ * part of the built-in graph are created from their id.
+ */
+export function parseCustomGraph(text: string, knownNodeIds: Set<string> = new Set()): CustomGraphParseResult {
+  const errors: string[] = [];
+  let rawNodes: Record<string, unknown>[] = [];
+  let rawEdges: Record<string, unknown>[] = [];
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed) as unknown;
+      const obj = (Array.isArray(parsed) ? { edges: parsed } : parsed) as { nodes?: unknown; edges?: unknown };
+      rawNodes = Array.isArray(obj.nodes) ? obj.nodes as Record<string, unknown>[] : [];
+      rawEdges = Array.isArray(obj.edges) ? obj.edges as Record<string, unknown>[] : [];
+    } catch {
+      return { graph: { nodes: [], edges: [] }, errors: ['Invalid JSON'] };
+    }
+  } else {
+    ({ nodes: rawNodes, edges: rawEdges } = parseCsv(trimmed));
+  }
+
+  const nodes = new Map<string, InfrastructureNode>();
+  rawNodes.slice(0, MAX_CUSTOM_NODES).forEach((raw, i) => {
+    const node = raw && typeof raw === 'object' ? sanitizeNode(raw, errors, `node ${i + 1}`) : null;
+    if (node && !knownNodeIds.has(node.id)) nodes.set(node.id, node);
+  });
+
+  const edges: DependencyEdge[] = [];
+  rawEdges.slice(0, MAX_CUSTOM_EDGES).forEach((raw, i) => {
+    const edge = raw && typeof raw === 'object' ? sanitizeEdge(raw, errors, `edge ${i + 1}`) : null;
+    if (!edge) return;
+    for (const id of [edge.from, edge.to]) {
+      if (!knownNodeIds.has(id) && !nodes.has(id)) {
+        const node = sanitizeNode({ id }, errors, `edge ${i + 1}`);
+        if (node) nodes.set(id, node);
+      }
+    }
+    edges.push(edge);
+  });
+  if (rawEdges.length > MAX_CUSTOM_EDGES) errors.push(`Only the first ${MAX_CUSTOM_EDGES} edges were imported`);
+
+  return { graph: { nodes: [...nodes.values()], edges }, errors };
+}
@@ -0,0 +1,81 @@
+/**
+ * CII shift detection: turns 24h instability moves into correlation signals.
+ *
+ * The 24h baseline comes from the server-recorded score history when it
+ * covers the country, and from scores sampled during this session otherwise.
+ * A signal is emitted each time a country's move crosses a further
+ * CII_SHIFT_STEP boundary, so a steady climb yields one signal per step.
+ */
+
+import { generateSignalId } from '@/utils/analysis-constants';
+import type { CorrelationSignalCore } from './analysis-core';
+import type { CountryScore } from './country-instability';
+import type { CIIHistoryPoint } from './cached-risk-scores';
+
+export const CII_SHIFT_STEP = 5;
+const SHIFT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface ScoreSample {
+  timestamp: number;
+  score: number;
+}
+
+const sessionSamples = new Map<string, ScoreSample[]>();
+const lastStep = new Map<string, number>();
+
+function recordSample(code: string, score: number, now: number): void {
+  const samples = sessionSamples.get(code) ?? [];
+  samples.push({ timestamp: now, score });
+  const cutoff = now - SHIFT_WINDOW_MS;
+  while (samples.length > 1 && samples[0]!.timestamp < cutoff) samples.shift();
+  sessionSamples.set(code, samples);
+}
+
+/** Oldest score inside the 24h window, preferring recorded history over session samples. */
+function baselineFor(code: string, history: Map<string, CIIHistoryPoint[]> | undefined, now: number): number | null {
+  const cutoff = now - SHIFT_WINDOW_MS;
+  const recorded = history?.get(code)?.find(p => p.timestamp >= cutoff);
+  if (recorded) return recorded.score;
+  const sampled = sessionSamples.get(code)?.find(p => p.timestamp >= cutoff);
+  return sampled ? sampled.score : null;
+}
+
+function shiftToSignal(score: CountryScore, baseline: number, change: number): CorrelationSignalCore {
+  const sign = change > 0 ? '+' : '';
+  return {
+    id: generateSignalId(),
+    type: 'cii_shift',
+    title: `${score.name} instability ${sign}${change} in 24h`,
+    description: `CII moved from ${baseline} to ${score.score} (${score.level}) over the last 24 hours.`,
+    confidence: Math.min(0.95, 0.5 + Math.abs(change) / 40),
+    timestamp: new Date(),
+    data: {
+      country: score.code,
+      change,
+      score: score.score,
+      baseline,
+      explanation: `${score.name} CII ${baseline} → ${score.score} (${sign}${change}) in 24h`,
+    },
+  };
+}
+
+export function detectCIIShifts(scores: CountryScore[], history?: Map<string, CIIHistoryPoint[]>): CorrelationSignalCore[] {
+  const now = Date.now();
+  const signals: CorrelationSignalCore[] = [];
+
+  for (const score of scores) {
+    recordSample(score.code, score.score, now);
+    const baseline = baselineFor(score.code, history, now);
+    if (baseline == null) continue;
+
+    const change = Math.round((score.score - baseline) * 10) / 10;
+    const step = Math.trunc(change / CII_SHIFT_STEP);
+    const prev = lastStep.get(score.code) ?? 0;
+    lastStep.set(score.code, step);
+
+    const escalated = step !== 0 && (Math.sign(step) !== Math.sign(prev) || Math.abs(step) > Math.abs(prev));
+    if (escalated) signals.push(shiftToSignal(score, baseline, change));
+  }
+
+  return signals;
+}
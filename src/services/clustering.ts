@@ -8,10 +8,11 @@ import type { NewsItem, ClusteredEvent } from '@/types';
 import { getSourceTier } from '@/config';
 import { clusterNewsCore } from './analysis-core';
 import { mlWorker } from './ml-worker';
+import { getSourceReliability } from './source-reliability';
 import { ML_THRESHOLDS } from '@/config/ml-config';
 
 export function clusterNews(items: NewsItem[]): ClusteredEvent[] {
-  return clusterNewsCore(items, getSourceTier) as ClusteredEvent[];
+  return clusterNewsCore(items, getSourceTier, getSourceReliability) as ClusteredEvent[];
 }
 
 /**
@@ -19,7 +20,7 @@ export function clusterNews(items: NewsItem[]): ClusteredEvent[] {
  */
 export async function clusterNewsHybrid(items: NewsItem[]): Promise<ClusteredEvent[]> {
   // Step 1: Fast Jaccard clustering
-  const jaccardClusters = clusterNewsCore(items, getSourceTier) as ClusteredEvent[];
+  const jaccardClusters = clusterNewsCore(items, getSourceTier, getSourceReliability) as ClusteredEvent[];
 
   // Step 2: If ML unavailable or too few clusters, return Jaccard results
   if (!mlWorker.isAvailable || jaccardClusters.length < ML_THRESHOLDS.minClustersForML) {
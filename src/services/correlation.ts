@@ -20,6 +20,7 @@ export type CorrelationSignal = CorrelationSignalCore;
 // Main-thread state management
 let previousSnapshot: StreamSnapshot | null = null;
 const signalHistory: CorrelationSignal[] = [];
+const signalListeners = new Set<(signals: CorrelationSignal[]) => void>();
 const recentSignalKeys = new Map<string, number>();
 
 const DEFAULT_DEDUPE_TTL = 30 * 60 * 1000;
@@ -84,4 +85,17 @@ export function addToSignalHistory(signals: CorrelationSignal[]): void {
   while (signalHistory.length > 100) {
     signalHistory.shift();
   }
+  for (const listener of signalListeners) {
+    try {
+      listener(signals);
+    } catch (error) {
+      console.warn('[Correlation] Signal listener failed:', error);
+    }
+  }
+}
+
+/** Subscribe to every batch added to the signal history. Returns an unsubscribe function. */
+export function onSignals(listener: (signals: CorrelationSignal[]) => void): () => void {
+  signalListeners.add(listener);
+  return () => signalListeners.delete(listener);
 }
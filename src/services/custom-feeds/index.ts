@@ -0,0 +1,186 @@
+/**
+ * User-managed news sources.
+ *
+ * Custom feeds are stored in localStorage and merged into their news
+ * category at load time, so they go through the same fetchFeed path as the
+ * built-in feeds: keyword/AI threat classification, geo inference, trending
+ * keyword ingestion and clustering. Their tiers are registered with
+ * SOURCE_TIERS so ranking treats them like any other source.
+ */
+
+import { FEEDS, INTEL_SOURCES, SITE_VARIANT, SOURCE_TIERS, STORAGE_KEYS } from '@/config';
+import { setCustomSourceTiers, VARIANT_FEEDS } from '@/config/feeds';
+import type { Feed } from '@/types';
+import { generateId, loadFromStorage, saveToStorage } from '@/utils';
+import {
+  CUSTOM_FEED_FORMATS,
+  DEFAULT_CUSTOM_TIER,
+  isValidTier,
+  MAX_CUSTOM_FEEDS,
+  normalizeFeedSource,
+  parseOpml,
+  toOpml,
+  type CustomFeed,
+} from './parse';
+
+export * from './parse';
+
+export type CustomFeedInput = Pick<CustomFeed, 'name' | 'url' | 'format' | 'category'> & Partial<Pick<CustomFeed, 'tier' | 'lang'>>;
+
+const TELEGRAM_ITEM_LIMIT = 10;
+
+let feeds: CustomFeed[] = loadFeeds();
+const listeners = new Set<() => void>();
+syncTiers();
+
+function loadFeeds(): CustomFeed[] {
+  const stored = loadFromStorage<unknown>(STORAGE_KEYS.customFeeds, []);
+  if (!Array.isArray(stored)) return [];
+  return (stored as CustomFeed[]).filter(f =>
+    f && typeof f.id === 'string' && typeof f.name === 'string' && typeof f.url === 'string'
+    && CUSTOM_FEED_FORMATS.includes(f.format) && isValidTier(f.tier));
+}
+
+function syncTiers(): void {
+  setCustomSourceTiers(Object.fromEntries(feeds.map(f => [f.name, f.tier])));
+}
+
+function commit(next: CustomFeed[]): void {
+  feeds = next;
+  saveToStorage(STORAGE_KEYS.customFeeds, feeds);
+  syncTiers();
+  for (const listener of listeners) listener();
+}
+
+/** Lowercased names of every built-in feed and tiered source. */
+function builtInSourceNames(): Set<string> {
+  const custom = new Set(feeds.map(f => f.name));
+  const names = new Set(Object.keys(SOURCE_TIERS).filter(n => !custom.has(n)).map(n => n.toLowerCase()));
+  for (const categories of Object.values(VARIANT_FEEDS)) {
+    for (const list of Object.values(categories)) list.forEach(f => names.add(f.name.toLowerCase()));
+  }
+  INTEL_SOURCES.forEach(f => names.add(f.name.toLowerCase()));
+  return names;
+}
+
+/** News categories of this variant that custom feeds can be filed under. */
+export function getCustomFeedCategories(): string[] {
+  const categories = Object.entries(FEEDS)
+    .filter(([, list]) => Array.isArray(list) && list.length > 0)
+    .map(([key]) => key);
+  if (SITE_VARIANT === 'full') categories.push('intel');
+  return categories;
+}
+
+function resolveCategory(category: string | undefined, fallback: string): string {
+  const wanted = (category ?? '').trim().toLowerCase();
+  return getCustomFeedCategories().find(c => c.toLowerCase() === wanted) ?? fallback;
+}
+
+function validate(input: CustomFeedInput, existing: CustomFeed[]): CustomFeed {
+  const name = input.name.trim().replace(/\s+/g, ' ');
+  if (!name) throw new Error('Feed name is required');
+  const lower = name.toLowerCase();
+  if (builtInSourceNames().has(lower)) {
+    throw new Error(`"${name}" is already a built-in source`);
+  }
+  if (existing.some(f => f.name.toLowerCase() === lower)) throw new Error(`A custom feed named "${name}" already exists`);
+  if (existing.length >= MAX_CUSTOM_FEEDS) throw new Error(`At most ${MAX_CUSTOM_FEEDS} custom feeds are supported`);
+  if (!getCustomFeedCategories().includes(input.category)) throw new Error(`Unknown category "${input.category}"`);
+
+  return {
+    id: generateId(),
+    name,
+    url: normalizeFeedSource(input.format, input.url),
+    format: input.format,
+    category: input.category,
+    tier: isValidTier(input.tier) ? input.tier : DEFAULT_CUSTOM_TIER,
+    lang: (input.lang ?? '').trim().toLowerCase(),
+    enabled: true,
+    addedAt: Date.now(),
+  };
+}
+
+export function getCustomFeeds(): CustomFeed[] {
+  return feeds;
+}
+
+/** Throws with a user-facing message when the feed is invalid or a duplicate. */
+export function addCustomFeed(input: CustomFeedInput): CustomFeed {
+  const feed = validate(input, feeds);
+  commit([...feeds, feed]);
+  return feed;
+}
+
+export function updateCustomFeed(id: string, patch: Partial<Pick<CustomFeed, 'enabled' | 'category' | 'tier' | 'lang'>>): void {
+  commit(feeds.map(f => (f.id === id ? { ...f, ...patch } : f)));
+}
+
+export function removeCustomFeed(id: string): void {
+  commit(feeds.filter(f => f.id !== id));
+}
+
+/** Subscribe to custom feed list changes. Returns an unsubscribe function. */
+export function onCustomFeedsChanged(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Same-origin URL fetchFeed loads a custom feed through. */
+export function customFeedUrl(feed: Pick<CustomFeed, 'url' | 'format'>): string {
+  if (feed.format === 'telegram') {
+    return `/api/telegram-feed?channel=${encodeURIComponent(feed.url)}&limit=${TELEGRAM_ITEM_LIMIT}`;
+  }
+  // custom=1 switches rss-proxy from its domain allowlist to public-host checks.
+  return `/api/rss-proxy?url=${encodeURIComponent(feed.url)}&custom=1`;
+}
+
+export function toFeed(feed: CustomFeed): Feed {
+  return {
+    name: feed.name,
+    url: customFeedUrl(feed),
+    ...(feed.format !== 'rss' && { format: feed.format }),
+    ...(feed.lang && { lang: feed.lang }),
+  };
+}
+
+/** Enabled custom feeds filed under a news category, ready for fetchCategoryFeeds. */
+export function getCustomFeedsForCategory(category: string): Feed[] {
+  return feeds.filter(f => f.enabled && f.category === category).map(toFeed);
+}
+
+/**
+ * Add every valid, not-yet-present feed from an OPML file. Feeds without a
+ * recognised category go to `defaultCategory`.
+ */
+export function importCustomFeedsOpml(text: string, defaultCategory: string): { added: number; skipped: number } {
+  const outlines = parseOpml(text);
+  const next = [...feeds];
+  let skipped = 0;
+  for (const outline of outlines) {
+    try {
+      const { format } = outline;
+      const url = normalizeFeedSource(format, outline.url);
+      if (next.some(f => f.format === format && f.url === url)) {
+        skipped++;
+        continue;
+      }
+      next.push(validate({
+        name: outline.name,
+        url,
+        format,
+        category: resolveCategory(outline.category, defaultCategory),
+        tier: outline.tier,
+        lang: outline.lang,
+      }, next));
+    } catch {
+      skipped++;
+    }
+  }
+  if (next.length !== feeds.length) commit(next);
+  return { added: next.length - feeds.length, skipped };
+}
+
+export function exportCustomFeedsOpml(): string {
+  return toOpml(feeds);
+}
@@ -0,0 +1,269 @@
+/**
+ * Formats for user-added news sources.
+ *
+ * Custom feeds are RSS/Atom (parsed by fetchFeed like the built-in feeds),
+ * JSON Feed, or public Telegram channels served by /api/telegram-feed. The
+ * source list itself round-trips through OPML so it can be shared with other
+ * readers; tier, format and category ride along as outline attributes.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+export type CustomFeedFormat = 'rss' | 'json' | 'telegram';
+
+export interface CustomFeed {
+  id: string;
+  /** Source name shown on headlines; unique across built-in and custom feeds. */
+  name: string;
+  /** Feed URL, or the bare channel handle for Telegram. */
+  url: string;
+  format: CustomFeedFormat;
+  /** News panel the headlines land in (a FEEDS category key). */
+  category: string;
+  /** 1 (wire) .. 4 (blog), as in SOURCE_TIERS. */
+  tier: number;
+  /** ISO 639-1 code; tagged feeds only load for that UI language. Empty for any. */
+  lang: string;
+  enabled: boolean;
+  addedAt: number;
+}
+
+/** A headline pulled out of a JSON Feed or Telegram response. */
+export interface FeedEntry {
+  title: string;
+  link: string;
+  pubDate: Date;
+  imageUrl?: string;
+}
+
+/** An outline read from an OPML file, before it becomes a CustomFeed. */
+export interface OpmlFeed {
+  name: string;
+  url: string;
+  format: CustomFeedFormat;
+  category?: string;
+  tier?: number;
+  lang?: string;
+}
+
+export const CUSTOM_FEED_FORMATS: CustomFeedFormat[] = ['rss', 'json', 'telegram'];
+export const SOURCE_TIER_OPTIONS = [1, 2, 3, 4] as const;
+export const DEFAULT_CUSTOM_TIER = 3;
+export const MAX_CUSTOM_FEEDS = 100;
+
+const MAX_TITLE_LENGTH = 200;
+const TELEGRAM_HANDLE_RE = /^[A-Za-z0-9_]{5,32}$/;
+const OPML_NS = 'https://worldmonitor.app/opml';
+
+export function isValidTier(value: unknown): value is number {
+  return typeof value === 'number' && SOURCE_TIER_OPTIONS.includes(value as 1 | 2 | 3 | 4);
+}
+
+/** Accepts `@handle`, `handle`, `t.me/handle` and `https://t.me/s/handle`. */
+export function normalizeTelegramHandle(input: string): string | null {
+  const raw = input.trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/^(?:www\.)?(?:t\.me|telegram\.me)\/(?:s\/)?/i, '')
+    .replace(/^@/, '')
+    .split(/[/?#]/)[0] ?? '';
+  return TELEGRAM_HANDLE_RE.test(raw) ? raw : null;
+}
+
+/**
+ * Validate a source for the given format and return its stored form:
+ * an absolute http(s) URL for feeds, a bare handle for Telegram.
+ */
+export function normalizeFeedSource(format: CustomFeedFormat, input: string): string {
+  if (format === 'telegram') {
+    const handle = normalizeTelegramHandle(input);
+    if (!handle) throw new Error('Enter a public Telegram channel, e.g. @channel or https://t.me/channel');
+    return handle;
+  }
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error('Invalid feed URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Feed URL must use http or https');
+  if (url.username || url.password) throw new Error('Feed URL must not contain credentials');
+  return url.href;
+}
+
+/** Best guess for outlines without an explicit format. */
+export function detectFeedFormat(url: string, type = ''): CustomFeedFormat {
+  if (/^(?:https?:\/\/)?(?:www\.)?(?:t\.me|telegram\.me)\//i.test(url)) return 'telegram';
+  if (/json/i.test(type) || /\.json(?:[?#]|$)/i.test(url) || /\/feed\.json/i.test(url)) return 'json';
+  return 'rss';
+}
+
+function clipTitle(text: string): string {
+  const line = text.replace(/<[^>]*>/g, ' ').split('\n').map(l => l.trim()).find(Boolean) ?? '';
+  const flat = line.replace(/\s+/g, ' ');
+  return flat.length > MAX_TITLE_LENGTH ? `${flat.slice(0, MAX_TITLE_LENGTH - 1)}…` : flat;
+}
+
+function toDate(value: unknown, now: number): Date {
+  const time = typeof value === 'string' && value ? new Date(value).getTime() : NaN;
+  return new Date(Number.isNaN(time) ? now : time);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/** JSON Feed 1.0/1.1 items. Returns null when the document isn't a JSON Feed. */
+export function parseJsonFeed(text: string, limit = 5, now = Date.now()): FeedEntry[] | null {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!doc || typeof doc !== 'object') return null;
+  const { version, items } = doc as { version?: unknown; items?: unknown };
+  if (typeof version !== 'string' || !version.startsWith('https://jsonfeed.org/version/') || !Array.isArray(items)) return null;
+
+  const entries: FeedEntry[] = [];
+  for (const raw of items) {
+    if (entries.length >= limit) break;
+    if (!raw || typeof raw !== 'object') continue;
+    const item = raw as Record<string, unknown>;
+    const title = clipTitle(asString(item.title) || asString(item.content_text) || asString(item.summary) || asString(item.content_html));
+    if (!title) continue;
+    const image = asString(item.image) || asString(item.banner_image);
+    entries.push({
+      title,
+      link: asString(item.url) || asString(item.external_url),
+      pubDate: toDate(item.date_published || item.date_modified, now),
+      ...(image && { imageUrl: image }),
+    });
+  }
+  return entries;
+}
+
+/** Messages from /api/telegram-feed. Returns null for error payloads. */
+export function parseTelegramFeed(text: string, limit = 5, now = Date.now()): FeedEntry[] | null {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const items = (doc as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) return null;
+
+  const entries: FeedEntry[] = [];
+  for (const raw of items) {
+    if (entries.length >= limit) break;
+    if (!raw || typeof raw !== 'object') continue;
+    const item = raw as Record<string, unknown>;
+    const title = clipTitle(asString(item.text));
+    if (!title) continue;
+    entries.push({ title, link: asString(item.url), pubDate: toDate(item.ts, now) });
+  }
+  return entries;
+}
+
+// ---- OPML ----
+
+const opmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  htmlEntities: true,
+  isArray: name => name === 'outline',
+});
+
+type OutlineNode = Record<string, unknown> & { outline?: OutlineNode[] };
+
+function outlineAttr(node: OutlineNode, name: string): string {
+  const value = node[name];
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+/**
+ * Feeds from an OPML subscription list. Folder outlines (no xmlUrl) become
+ * the category of the feeds inside them unless a feed carries its own.
+ */
+export function parseOpml(text: string): OpmlFeed[] {
+  let doc: { opml?: { body?: OutlineNode } };
+  try {
+    doc = opmlParser.parse(text);
+  } catch {
+    throw new Error('Invalid OPML');
+  }
+  const body = doc?.opml?.body;
+  if (!body || typeof body !== 'object') throw new Error('Invalid OPML');
+
+  const feeds: OpmlFeed[] = [];
+  const walk = (nodes: OutlineNode[] | undefined, folder: string | undefined) => {
+    for (const node of nodes ?? []) {
+      if (!node || typeof node !== 'object') continue;
+      const url = outlineAttr(node, 'xmlUrl');
+      const name = outlineAttr(node, 'text') || outlineAttr(node, 'title');
+      if (!url) {
+        walk(node.outline, name || folder);
+        continue;
+      }
+      const explicit = outlineAttr(node, 'wm:format');
+      const format = CUSTOM_FEED_FORMATS.includes(explicit as CustomFeedFormat)
+        ? explicit as CustomFeedFormat
+        : detectFeedFormat(url, outlineAttr(node, 'type'));
+      const tier = Number(outlineAttr(node, 'wm:tier'));
+      const category = outlineAttr(node, 'category').replace(/^\//, '') || folder;
+      const lang = outlineAttr(node, 'language').toLowerCase();
+      feeds.push({
+        name: name || url,
+        url,
+        format,
+        ...(category && { category }),
+        ...(isValidTier(tier) && { tier }),
+        ...(lang && { lang }),
+      });
+    }
+  };
+  walk(body.outline, undefined);
+
+  if (feeds.length === 0) throw new Error('No feeds found in OPML');
+  return feeds;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function feedXmlUrl(feed: CustomFeed): string {
+  return feed.format === 'telegram' ? `https://t.me/s/${feed.url}` : feed.url;
+}
+
+/** OPML 2.0 export, one flat outline per feed. */
+export function toOpml(feeds: CustomFeed[], title = 'World Monitor custom feeds', now = new Date()): string {
+  const outlines = feeds.map(feed => {
+    const attrs: Array<[string, string]> = [
+      ['type', feed.format === 'rss' ? 'rss' : feed.format],
+      ['text', feed.name],
+      ['title', feed.name],
+      ['xmlUrl', feedXmlUrl(feed)],
+      ['category', `/${feed.category}`],
+      ['wm:format', feed.format],
+      ['wm:tier', String(feed.tier)],
+    ];
+    if (feed.lang) attrs.push(['language', feed.lang]);
+    return `    <outline ${attrs.map(([k, v]) => `${k}="${escapeXml(v)}"`).join(' ')}/>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<opml version="2.0" xmlns:wm="${OPML_NS}">`,
+    `  <head><title>${escapeXml(title)}</title><dateCreated>${now.toUTCString()}</dateCreated></head>`,
+    '  <body>',
+    ...outlines,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
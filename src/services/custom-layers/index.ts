@@ -0,0 +1,120 @@
+/**
+ * User-imported map layers.
+ *
+ * Layers are parsed once on import (see ./parse), persisted to localStorage
+ * and toggled alongside the built-in layers. Enabled layer ids are written to
+ * the URL `layers` param, and their sites feed the nearby-alert lookup and
+ * population exposure estimates.
+ */
+
+import { STORAGE_KEYS } from '@/config';
+import { loadFromStorage, saveToStorage } from '@/utils';
+import type { GisFeature, GisLayer } from '@/utils/gis-export';
+import {
+  customLayerId,
+  DEFAULT_LAYER_STYLE,
+  DEFAULT_PROXIMITY_KM,
+  featureAnchor,
+  isCustomLayerId,
+  type CustomLayer,
+  type CustomLayerFormat,
+  type CustomLayerStyle,
+  type WmsSource,
+} from './parse';
+
+export * from './parse';
+
+export interface CustomLayerSite {
+  id: string;
+  layerId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  radiusKm: number;
+}
+
+let layers: CustomLayer[] = loadLayers();
+const listeners = new Set<() => void>();
+
+function loadLayers(): CustomLayer[] {
+  const stored = loadFromStorage<unknown>(STORAGE_KEYS.customLayers, []);
+  if (!Array.isArray(stored)) return [];
+  return (stored as CustomLayer[]).filter(l => l && isCustomLayerId(l.id) && Array.isArray(l.features));
+}
+
+function commit(next: CustomLayer[]): void {
+  layers = next;
+  saveToStorage(STORAGE_KEYS.customLayers, layers);
+  for (const listener of listeners) listener();
+}
+
+export function getCustomLayers(): CustomLayer[] {
+  return layers;
+}
+
+export function getEnabledCustomLayers(): CustomLayer[] {
+  return layers.filter(l => l.enabled);
+}
+
+export function addCustomLayer(
+  name: string,
+  format: CustomLayerFormat,
+  source: { features: GisFeature[] } | { wms: WmsSource },
+  style: Partial<CustomLayerStyle> = {},
+): CustomLayer {
+  const label = name.trim() || 'Imported layer';
+  const layer: CustomLayer = {
+    id: customLayerId(label, layers.map(l => l.id)),
+    name: label,
+    format,
+    enabled: true,
+    style: { ...DEFAULT_LAYER_STYLE, ...style },
+    proximityKm: DEFAULT_PROXIMITY_KM,
+    features: 'features' in source ? source.features : [],
+    wms: 'wms' in source ? source.wms : undefined,
+    importedAt: Date.now(),
+  };
+  commit([...layers, layer]);
+  return layer;
+}
+
+export function removeCustomLayer(id: string): void {
+  commit(layers.filter(l => l.id !== id));
+}
+
+export function updateCustomLayer(id: string, patch: Partial<Pick<CustomLayer, 'name' | 'enabled' | 'proximityKm'>> & { style?: Partial<CustomLayerStyle> }): void {
+  commit(layers.map(l => (l.id === id ? { ...l, ...patch, style: { ...l.style, ...patch.style } } : l)));
+}
+
+/** Apply the enabled set from a shared URL; ids for layers this browser lacks are ignored. */
+export function setEnabledCustomLayers(ids: string[]): void {
+  const enabled = new Set(ids);
+  if (layers.every(l => l.enabled === enabled.has(l.id))) return;
+  commit(layers.map(l => ({ ...l, enabled: enabled.has(l.id) })));
+}
+
+/** Subscribe to layer list changes. Returns an unsubscribe function. */
+export function onCustomLayersChanged(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** One anchor per feature of the enabled vector layers, for proximity lookups. */
+export function getCustomLayerSites(limit = Infinity): CustomLayerSite[] {
+  const sites: CustomLayerSite[] = [];
+  for (const layer of getEnabledCustomLayers()) {
+    for (const [i, feature] of layer.features.entries()) {
+      if (sites.length >= limit) return sites;
+      const [lon, lat] = featureAnchor(feature);
+      sites.push({ id: `${layer.id}:${i}`, layerId: layer.id, name: feature.name, lat, lon, radiusKm: layer.proximityKm });
+    }
+  }
+  return sites;
+}
+
+/** Enabled vector layers in export form, with GeoPackage-safe table ids. */
+export function getCustomExportLayers(): GisLayer[] {
+  return getEnabledCustomLayers()
+    .filter(l => l.features.length > 0)
+    .map(l => ({ id: l.id.replace(/-/g, '_'), name: l.name, features: l.features }));
+}
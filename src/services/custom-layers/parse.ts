@@ -0,0 +1,337 @@
+/**
+ * Parsers for user-imported map layers.
+ *
+ * GeoJSON, KML and CSV files are reduced to the same feature model the GIS
+ * export uses (Point / LineString / Polygon with flat properties), so imported
+ * layers can be rendered, exported and matched by proximity like built-in
+ * ones. WMS layers carry only a validated service URL and layer names.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import Papa from 'papaparse';
+import { flattenProperties, geometryEnvelope, type GisFeature, type GisGeometry, type GisPosition, type GisValue } from '@/utils/gis-export';
+
+export type CustomLayerFormat = 'geojson' | 'kml' | 'csv' | 'wms';
+
+export interface CustomLayerStyle {
+  /** Hex color, e.g. #44aaff. */
+  color: string;
+  /** 0..1 */
+  opacity: number;
+  /** Point radius in pixels. */
+  pointRadius: number;
+  /** Line and outline width in pixels. */
+  lineWidth: number;
+}
+
+export interface WmsSource {
+  url: string;
+  layers: string[];
+}
+
+export interface CustomLayer {
+  /** 'custom-<slug>'; also the token used in the URL `layers` param. */
+  id: string;
+  name: string;
+  format: CustomLayerFormat;
+  enabled: boolean;
+  style: CustomLayerStyle;
+  /** Radius used for nearby-alert lookups and population exposure. */
+  proximityKm: number;
+  /** Empty for WMS layers. */
+  features: GisFeature[];
+  wms?: WmsSource;
+  importedAt: number;
+}
+
+export const CUSTOM_LAYER_PREFIX = 'custom-';
+export const MAX_CUSTOM_FEATURES = 5000;
+export const DEFAULT_PROXIMITY_KM = 50;
+export const DEFAULT_LAYER_STYLE: CustomLayerStyle = { color: '#44aaff', opacity: 0.8, pointRadius: 5, lineWidth: 2 };
+
+const WMS_PARAMS = new Set(['service', 'request', 'version', 'layers', 'styles', 'format', 'transparent', 'crs', 'srs', 'bbox', 'width', 'height']);
+
+export function isCustomLayerId(id: string): boolean {
+  return /^custom-[a-z0-9-]+$/.test(id);
+}
+
+/** Build a URL-safe layer id from a name, unique among `existing`. */
+export function customLayerId(name: string, existing: Iterable<string>): string {
+  const taken = new Set(existing);
+  const slug = name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'layer';
+  let id = `${CUSTOM_LAYER_PREFIX}${slug}`;
+  for (let n = 2; taken.has(id); n++) id = `${CUSTOM_LAYER_PREFIX}${slug}-${n}`;
+  return id;
+}
+
+/** Pick a format from the file extension, falling back to sniffing the content. */
+export function detectFormat(fileName: string, text: string): Exclude<CustomLayerFormat, 'wms'> {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'kml') return 'kml';
+  if (ext === 'csv' || ext === 'tsv' || ext === 'txt') return 'csv';
+  const head = text.trimStart();
+  if (head.startsWith('{')) return 'geojson';
+  if (head.startsWith('<')) return 'kml';
+  return 'csv';
+}
+
+function position(value: unknown): GisPosition | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const lon = Number(value[0]);
+  const lat = Number(value[1]);
+  if (!Number.isFinite(lon) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return [lon, lat];
+}
+
+function line(values: unknown): GisPosition[] | null {
+  if (!Array.isArray(values)) return null;
+  const positions = values.map(position).filter((p): p is GisPosition => p !== null);
+  return positions.length > 1 ? positions : null;
+}
+
+function ring(values: unknown): GisPosition[] | null {
+  const positions = line(values);
+  if (!positions || positions.length < 3) return null;
+  const first = positions[0]!;
+  const last = positions[positions.length - 1]!;
+  if (first[0] !== last[0] || first[1] !== last[1]) positions.push([first[0], first[1]]);
+  return positions;
+}
+
+function polygon(rings: unknown): GisGeometry | null {
+  if (!Array.isArray(rings)) return null;
+  const [outer, ...holes] = rings.map(ring);
+  if (!outer) return null;
+  return { type: 'Polygon', coordinates: [outer, ...holes.filter((r): r is GisPosition[] => r !== null)] };
+}
+
+/** Multi* geometries and collections are split into one geometry per part. */
+function geoJsonGeometries(geometry: unknown): GisGeometry[] {
+  if (!geometry || typeof geometry !== 'object') return [];
+  const g = geometry as { type?: string; coordinates?: unknown; geometries?: unknown[] };
+  const coords = Array.isArray(g.coordinates) ? g.coordinates : [];
+  const keep = (items: (GisGeometry | null)[]) => items.filter((x): x is GisGeometry => x !== null);
+  switch (g.type) {
+    case 'Point': {
+      const p = position(g.coordinates);
+      return p ? [{ type: 'Point', coordinates: p }] : [];
+    }
+    case 'MultiPoint':
+      return keep(coords.map(c => { const p = position(c); return p ? { type: 'Point', coordinates: p } : null; }));
+    case 'LineString': {
+      const l = line(g.coordinates);
+      return l ? [{ type: 'LineString', coordinates: l }] : [];
+    }
+    case 'MultiLineString':
+      return keep(coords.map(c => { const l = line(c); return l ? { type: 'LineString', coordinates: l } : null; }));
+    case 'Polygon':
+      return keep([polygon(g.coordinates)]);
+    case 'MultiPolygon':
+      return keep(coords.map(polygon));
+    case 'GeometryCollection':
+      return (g.geometries ?? []).flatMap(geoJsonGeometries);
+    default:
+      return [];
+  }
+}
+
+function featureName(properties: Record<string, GisValue>, fallback: string): string {
+  for (const key of ['name', 'Name', 'NAME', 'title', 'Title', 'label']) {
+    const value = properties[key];
+    if (value != null && String(value).trim()) return String(value).trim();
+  }
+  return fallback;
+}
+
+function capFeatures(features: GisFeature[]): GisFeature[] {
+  if (features.length === 0) throw new Error('No valid features found');
+  if (features.length > MAX_CUSTOM_FEATURES) {
+    throw new Error(`Layer has ${features.length} features; the limit is ${MAX_CUSTOM_FEATURES}`);
+  }
+  return features;
+}
+
+export function parseGeoJSON(text: string): GisFeature[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid GeoJSON: not valid JSON');
+  }
+  const root = doc as { type?: string; features?: unknown[] };
+  const items: unknown[] = root.type === 'FeatureCollection' ? root.features ?? []
+    : root.type === 'Feature' ? [root]
+    : [{ type: 'Feature', geometry: root, properties: {} }];
+
+  const features: GisFeature[] = [];
+  items.forEach((item, i) => {
+    const f = item as { geometry?: unknown; properties?: Record<string, unknown> | null };
+    const properties = flattenProperties(f.properties ?? {});
+    const name = featureName(properties, `Feature ${i + 1}`);
+    for (const geometry of geoJsonGeometries(f.geometry)) features.push({ name, geometry, properties });
+  });
+  return capFeatures(features);
+}
+
+// KML ----------------------------------------------------------------------
+
+type XmlNode = Record<string, unknown>;
+
+const KML_ARRAYS = new Set(['Document', 'Folder', 'Placemark', 'Data', 'SimpleData', 'Point', 'LineString', 'Polygon', 'MultiGeometry', 'innerBoundaryIs']);
+
+function kmlPositions(text: unknown): GisPosition[] {
+  return String(text ?? '')
+    .trim()
+    .split(/\s+/)
+    .map(tuple => position(tuple.split(',')))
+    .filter((p): p is GisPosition => p !== null);
+}
+
+function xmlText(node: unknown): string {
+  if (node == null) return '';
+  if (typeof node === 'object') return String((node as XmlNode)['#text'] ?? '');
+  return String(node);
+}
+
+function kmlGeometries(node: XmlNode): GisGeometry[] {
+  const out: GisGeometry[] = [];
+  for (const p of (node.Point as XmlNode[] | undefined) ?? []) {
+    const [pos] = kmlPositions(p.coordinates);
+    if (pos) out.push({ type: 'Point', coordinates: pos });
+  }
+  for (const l of (node.LineString as XmlNode[] | undefined) ?? []) {
+    const positions = kmlPositions(l.coordinates);
+    if (positions.length > 1) out.push({ type: 'LineString', coordinates: positions });
+  }
+  for (const poly of (node.Polygon as XmlNode[] | undefined) ?? []) {
+    const outerRing = (poly.outerBoundaryIs as XmlNode | undefined)?.LinearRing as XmlNode | undefined;
+    const inner = ((poly.innerBoundaryIs as XmlNode[] | undefined) ?? []).map(b => kmlPositions((b.LinearRing as XmlNode | undefined)?.coordinates));
+    const geometry = polygon([kmlPositions(outerRing?.coordinates), ...inner]);
+    if (geometry) out.push(geometry);
+  }
+  for (const multi of (node.MultiGeometry as XmlNode[] | undefined) ?? []) out.push(...kmlGeometries(multi));
+  return out;
+}
+
+function kmlProperties(placemark: XmlNode): Record<string, GisValue> {
+  const properties: Record<string, GisValue> = {};
+  const description = xmlText(placemark.description).trim();
+  if (description) properties.description = description;
+  const extended = placemark.ExtendedData as XmlNode | undefined;
+  for (const data of (extended?.Data as XmlNode[] | undefined) ?? []) {
+    const key = String(data['@_name'] ?? '');
+    if (key) properties[key] = xmlText(data.value);
+  }
+  const schemaData = extended?.SchemaData as XmlNode | XmlNode[] | undefined;
+  for (const schema of Array.isArray(schemaData) ? schemaData : schemaData ? [schemaData] : []) {
+    for (const data of (schema.SimpleData as XmlNode[] | undefined) ?? []) {
+      const key = String(data['@_name'] ?? '');
+      if (key) properties[key] = xmlText(data);
+    }
+  }
+  return properties;
+}
+
+function collectPlacemarks(node: unknown, out: XmlNode[]): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    for (const child of node) collectPlacemarks(child, out);
+    return;
+  }
+  for (const [key, value] of Object.entries(node as XmlNode)) {
+    if (key === 'Placemark') out.push(...(value as XmlNode[]));
+    else if (key === 'Document' || key === 'Folder' || key === 'kml') collectPlacemarks(value, out);
+  }
+}
+
+export function parseKML(text: string): GisFeature[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    isArray: (name) => KML_ARRAYS.has(name),
+  });
+  let doc: unknown;
+  try {
+    doc = parser.parse(text);
+  } catch {
+    throw new Error('Invalid KML: not well-formed XML');
+  }
+  const placemarks: XmlNode[] = [];
+  collectPlacemarks(doc, placemarks);
+
+  const features: GisFeature[] = [];
+  placemarks.forEach((placemark, i) => {
+    const properties = kmlProperties(placemark);
+    const name = xmlText(placemark.name).trim() || `Placemark ${i + 1}`;
+    for (const geometry of kmlGeometries(placemark)) features.push({ name, geometry, properties });
+  });
+  return capFeatures(features);
+}
+
+// CSV ----------------------------------------------------------------------
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LON_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+const NAME_COLUMNS = ['name', 'title', 'label', 'site'];
+
+function findColumn(fields: string[], candidates: string[]): string | undefined {
+  return candidates.map(c => fields.find(f => f.trim().toLowerCase() === c)).find(Boolean);
+}
+
+/** Point CSV: needs latitude and longitude columns; every other column becomes a property. */
+export function parseCSV(text: string): GisFeature[] {
+  const result = Papa.parse<Record<string, unknown>>(text.trim(), { header: true, skipEmptyLines: true, dynamicTyping: true });
+  const fields = result.meta.fields ?? [];
+  const latKey = findColumn(fields, LAT_COLUMNS);
+  const lonKey = findColumn(fields, LON_COLUMNS);
+  if (!latKey || !lonKey) throw new Error('CSV needs latitude and longitude columns');
+  const nameKey = findColumn(fields, NAME_COLUMNS);
+
+  const features: GisFeature[] = [];
+  result.data.forEach((row, i) => {
+    const p = position([row[lonKey], row[latKey]]);
+    if (!p) return;
+    const properties = flattenProperties(row, [latKey, lonKey]);
+    const name = nameKey && row[nameKey] != null ? String(row[nameKey]) : `Row ${i + 1}`;
+    features.push({ name, geometry: { type: 'Point', coordinates: p }, properties });
+  });
+  return capFeatures(features);
+}
+
+export function parseFeatures(text: string, format: Exclude<CustomLayerFormat, 'wms'>): GisFeature[] {
+  switch (format) {
+    case 'geojson': return parseGeoJSON(text);
+    case 'kml': return parseKML(text);
+    case 'csv': return parseCSV(text);
+  }
+}
+
+/**
+ * Validate a WMS endpoint. Standard GetMap/GetCapabilities parameters pasted
+ * along with the URL are dropped since the map layer supplies its own.
+ */
+export function parseWmsSource(rawUrl: string, rawLayers: string): WmsSource {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new Error('Invalid WMS URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('WMS URL must use http or https');
+  for (const key of [...url.searchParams.keys()]) {
+    if (WMS_PARAMS.has(key.toLowerCase())) url.searchParams.delete(key);
+  }
+  const layers = rawLayers.split(',').map(l => l.trim()).filter(Boolean);
+  if (layers.length === 0) throw new Error('At least one WMS layer name is required');
+  return { url: url.toString(), layers };
+}
+
+/** A representative [lon, lat] for a feature: the point itself or the envelope center. */
+export function featureAnchor(feature: GisFeature): GisPosition {
+  if (feature.geometry.type === 'Point') return feature.geometry.coordinates;
+  const { minX, minY, maxX, maxY } = geometryEnvelope(feature.geometry);
+  return [(minX + maxX) / 2, (minY + maxY) / 2];
+}
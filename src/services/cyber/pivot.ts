@@ -0,0 +1,102 @@
+/**
+ * IOC pivoting for the cyber layer: indicators related to a selected one
+ * (same autonomous system, same malware family, first seen close together)
+ * and APT attribution against the groups in the geo config.
+ *
+ * Attribution only claims what the feeds say: a malware family publicly tied
+ * to a group, or a feed tag naming the group. Commodity crimeware (Emotet,
+ * QakBot, ...) stays unattributed.
+ */
+
+import type { APTGroup, CyberThreat } from '@/types';
+import { APT_GROUPS } from '@/config/geo';
+import { getEntityById, type EntityEntry } from '@/config/entities';
+
+export type PivotRelation = 'asn' | 'malware' | 'firstSeen';
+
+export interface RelatedIndicator {
+  threat: CyberThreat;
+  relations: PivotRelation[];
+}
+
+export interface PivotResult {
+  related: RelatedIndicator[];
+  /** Matches per relation before the limit is applied. */
+  counts: Record<PivotRelation, number>;
+}
+
+export interface ThreatAttribution {
+  group: APTGroup;
+  matchedOn: 'malware' | 'tag';
+  /** The sponsor's country entity, when the entities config has one. */
+  sponsor?: EntityEntry;
+}
+
+export const FIRST_SEEN_WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_PIVOT_LIMIT = 8;
+
+function normalizeName(value: string | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+function seenAt(value: string | undefined): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Indicators sharing an ASN or malware family with `threat`, or first seen
+ * within `windowMs` of it. Stronger matches (more shared relations) first,
+ * then the closest first-seen times.
+ */
+export function findRelatedIndicators(
+  threat: CyberThreat,
+  threats: CyberThreat[],
+  options: { windowMs?: number; limit?: number } = {},
+): PivotResult {
+  const windowMs = options.windowMs ?? FIRST_SEEN_WINDOW_MS;
+  const limit = options.limit ?? DEFAULT_PIVOT_LIMIT;
+  const family = normalizeName(threat.malwareFamily);
+  const firstSeen = seenAt(threat.firstSeen);
+  const counts: Record<PivotRelation, number> = { asn: 0, malware: 0, firstSeen: 0 };
+  const matches: Array<RelatedIndicator & { distance: number }> = [];
+
+  for (const candidate of threats) {
+    if (candidate.id === threat.id || candidate.indicator === threat.indicator) continue;
+    const relations: PivotRelation[] = [];
+    if (threat.asn && candidate.asn === threat.asn) relations.push('asn');
+    if (family && normalizeName(candidate.malwareFamily) === family) relations.push('malware');
+    const candidateSeen = seenAt(candidate.firstSeen);
+    const distance = firstSeen !== null && candidateSeen !== null ? Math.abs(candidateSeen - firstSeen) : Infinity;
+    if (distance <= windowMs) relations.push('firstSeen');
+    if (relations.length === 0) continue;
+
+    for (const relation of relations) counts[relation]++;
+    matches.push({ threat: candidate, relations, distance });
+  }
+
+  matches.sort((a, b) => b.relations.length - a.relations.length || a.distance - b.distance);
+  return {
+    related: matches.slice(0, limit).map(({ threat: t, relations }) => ({ threat: t, relations })),
+    counts,
+  };
+}
+
+/** APT groups the threat's malware family or feed tags point to. */
+export function attributeThreat(threat: CyberThreat, groups: APTGroup[] = APT_GROUPS): ThreatAttribution[] {
+  const family = normalizeName(threat.malwareFamily);
+  const tags = new Set((threat.tags || []).map(normalizeName));
+  const attributions: ThreatAttribution[] = [];
+
+  for (const group of groups) {
+    let matchedOn: ThreatAttribution['matchedOn'] | null = null;
+    if (family && group.malware?.includes(family)) matchedOn = 'malware';
+    else if (group.aliases?.some((alias) => tags.has(alias))) matchedOn = 'tag';
+    if (!matchedOn) continue;
+
+    const sponsor = group.sponsorCode ? getEntityById(group.sponsorCode) : undefined;
+    attributions.push({ group, matchedOn, ...(sponsor?.type === 'country' && { sponsor }) });
+  }
+  return attributions;
+}
@@ -0,0 +1,239 @@
+/**
+ * STIX 2.1 export of cyber layer indicators.
+ *
+ * Each threat becomes an indicator with a STIX pattern; malware families and
+ * attributed APT groups become malware and intrusion-set objects linked by
+ * relationships. Ids are UUIDv5 of the feed identity, so the same indicator
+ * keeps its id across exports and a TAXII client sees updates as new
+ * versions rather than new objects. Dependency-free (type imports only) so
+ * the self-hosted server's TAXII collection (server/node/taxii.mjs) serves
+ * exactly what the dashboard exports.
+ */
+
+import type { CyberThreat } from '@/types';
+import type { ThreatAttribution } from './pivot';
+
+export interface StixObject {
+  type: string;
+  spec_version: '2.1';
+  id: string;
+  created: string;
+  modified: string;
+  [property: string]: unknown;
+}
+
+export interface StixBundle {
+  type: 'bundle';
+  id: string;
+  objects: StixObject[];
+}
+
+export interface StixExportOptions {
+  /** Timestamp for indicators the feeds didn't date. */
+  now?: Date;
+  /** APT attribution per threat (pivot.attributeThreat); none when omitted. */
+  attribute?: (threat: CyberThreat) => ThreatAttribution[];
+}
+
+const SOURCE_NAMES: Record<string, string> = {
+  feodo: 'Feodo Tracker',
+  urlhaus: 'URLhaus',
+  c2intel: 'C2 Intel Feeds',
+  otx: 'AlienVault OTX',
+  abuseipdb: 'AbuseIPDB',
+};
+
+// ---- UUIDv5 (RFC 4122) ----
+
+function sha1(bytes: Uint8Array): Uint8Array {
+  const words = new Uint32Array(((bytes.length + 8 >> 6) + 1) * 16);
+  for (let i = 0; i < bytes.length; i++) words[i >> 2]! |= bytes[i]! << (24 - (i % 4) * 8);
+  words[bytes.length >> 2]! |= 0x80 << (24 - (bytes.length % 4) * 8);
+  words[words.length - 1] = bytes.length * 8;
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Uint32Array(80);
+  const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+  for (let block = 0; block < words.length; block += 16) {
+    for (let t = 0; t < 80; t++) {
+      w[t] = t < 16 ? words[block + t]! : rotl(w[t - 3]! ^ w[t - 8]! ^ w[t - 14]! ^ w[t - 16]!, 1);
+    }
+    let [a, b, c, d, e] = h as [number, number, number, number, number];
+    for (let t = 0; t < 80; t++) {
+      const f = t < 20 ? (b & c) | (~b & d) : t < 40 ? b ^ c ^ d : t < 60 ? (b & c) | (b & d) | (c & d) : b ^ c ^ d;
+      const k = t < 20 ? 0x5a827999 : t < 40 ? 0x6ed9eba1 : t < 60 ? 0x8f1bbcdc : 0xca62c1d6;
+      const temp = (rotl(a, 5) + f + e + k + w[t]!) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0]! + a) | 0;
+    h[1] = (h[1]! + b) | 0;
+    h[2] = (h[2]! + c) | 0;
+    h[3] = (h[3]! + d) | 0;
+    h[4] = (h[4]! + e) | 0;
+  }
+
+  const out = new Uint8Array(20);
+  h.forEach((value, i) => {
+    for (let j = 0; j < 4; j++) out[i * 4 + j] = (value >>> (24 - j * 8)) & 0xff;
+  });
+  return out;
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  return Uint8Array.from({ length: 16 }, (_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+}
+
+export function uuidv5(name: string, namespace: string): string {
+  const nameBytes = new TextEncoder().encode(name);
+  const input = new Uint8Array(16 + nameBytes.length);
+  input.set(uuidToBytes(namespace));
+  input.set(nameBytes, 16);
+  const bytes = sha1(input).slice(0, 16);
+  bytes[6] = (bytes[6]! & 0x0f) | 0x50;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+const URL_NAMESPACE = '6ba7b811-9dad-11d1-80b4-00c04fd430c8';
+const ID_NAMESPACE = uuidv5('https://worldmonitor.app/stix', URL_NAMESPACE);
+
+const stixId = (type: string, name: string) => `${type}--${uuidv5(`${type}:${name}`, ID_NAMESPACE)}`;
+
+// ---- Object builders ----
+
+/** Fixed so the feed identity is one unchanging object across exports. */
+const IDENTITY_CREATED = '2026-01-01T00:00:00.000Z';
+
+export const STIX_IDENTITY: StixObject = {
+  type: 'identity',
+  spec_version: '2.1',
+  id: stixId('identity', 'worldmonitor'),
+  created: IDENTITY_CREATED,
+  modified: IDENTITY_CREATED,
+  name: 'World Monitor',
+  identity_class: 'system',
+  description: 'Cyber threat indicators aggregated from public feeds by the World Monitor dashboard.',
+};
+
+function quotePatternValue(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export function stixPattern(threat: Pick<CyberThreat, 'indicator' | 'indicatorType'>): string {
+  const value = quotePatternValue(threat.indicator);
+  switch (threat.indicatorType) {
+    case 'domain': return `[domain-name:value = ${value}]`;
+    case 'url': return `[url:value = ${value}]`;
+    default: return threat.indicator.includes(':') ? `[ipv6-addr:value = ${value}]` : `[ipv4-addr:value = ${value}]`;
+  }
+}
+
+function toTimestamp(value: string | undefined): string | null {
+  const ms = value ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+/** Widen an object's created/modified span to cover another threat's dates. */
+function widen(object: StixObject, created: string, modified: string): void {
+  if (created < object.created) object.created = created;
+  if (modified > object.modified) object.modified = modified;
+}
+
+function relationship(source: StixObject, type: string, target: StixObject, created: string, modified: string): StixObject {
+  return {
+    type: 'relationship',
+    spec_version: '2.1',
+    id: stixId('relationship', `${source.id}|${type}|${target.id}`),
+    created,
+    modified,
+    created_by_ref: STIX_IDENTITY.id,
+    relationship_type: type,
+    source_ref: source.id,
+    target_ref: target.id,
+  };
+}
+
+/** Identity, indicators, malware, intrusion sets and relationships, deduplicated by id. */
+export function toStixObjects(threats: CyberThreat[], options: StixExportOptions = {}): StixObject[] {
+  const fallback = (options.now ?? new Date()).toISOString();
+  const objects = new Map<string, StixObject>([[STIX_IDENTITY.id, STIX_IDENTITY]]);
+  const upsert = (object: StixObject) => {
+    const existing = objects.get(object.id);
+    if (existing) widen(existing, object.created, object.modified);
+    else objects.set(object.id, object);
+    return objects.get(object.id)!;
+  };
+
+  for (const threat of threats) {
+    const created = toTimestamp(threat.firstSeen) ?? toTimestamp(threat.lastSeen) ?? fallback;
+    const lastSeen = toTimestamp(threat.lastSeen);
+    const modified = lastSeen && lastSeen > created ? lastSeen : created;
+    const source = SOURCE_NAMES[threat.source] ?? threat.source;
+
+    const indicator = upsert({
+      type: 'indicator',
+      spec_version: '2.1',
+      id: stixId('indicator', `${threat.indicatorType}:${threat.indicator}`),
+      created,
+      modified,
+      created_by_ref: STIX_IDENTITY.id,
+      name: threat.indicator,
+      description: `${threat.type.replace(/_/g, ' ')} reported by ${source}`,
+      indicator_types: ['malicious-activity'],
+      pattern: stixPattern(threat),
+      pattern_type: 'stix',
+      valid_from: created,
+      ...(threat.tags.length > 0 && { labels: threat.tags }),
+      external_references: [{ source_name: source }],
+      x_worldmonitor_severity: threat.severity,
+      ...(threat.country && { x_worldmonitor_country: threat.country }),
+      ...(threat.asn && { x_worldmonitor_asn: threat.asn }),
+      ...(threat.asName && { x_worldmonitor_as_name: threat.asName }),
+    });
+
+    let malware: StixObject | null = null;
+    if (threat.malwareFamily) {
+      malware = upsert({
+        type: 'malware',
+        spec_version: '2.1',
+        id: stixId('malware', threat.malwareFamily.toLowerCase()),
+        created,
+        modified,
+        created_by_ref: STIX_IDENTITY.id,
+        name: threat.malwareFamily,
+        is_family: true,
+      });
+      upsert(relationship(indicator, 'indicates', malware, created, modified));
+    }
+
+    for (const { group, matchedOn } of options.attribute?.(threat) ?? []) {
+      const intrusionSet = upsert({
+        type: 'intrusion-set',
+        spec_version: '2.1',
+        id: stixId('intrusion-set', group.id),
+        created,
+        modified,
+        created_by_ref: STIX_IDENTITY.id,
+        name: group.name,
+        aliases: group.aka.split('/').map((alias) => alias.trim()).filter(Boolean),
+        description: `Sponsor: ${group.sponsor}`,
+      });
+      if (matchedOn === 'malware' && malware) upsert(relationship(intrusionSet, 'uses', malware, created, modified));
+      else upsert(relationship(indicator, 'indicates', intrusionSet, created, modified));
+    }
+  }
+
+  return [...objects.values()];
+}
+
+export function toStixBundle(threats: CyberThreat[], options: StixExportOptions = {}): StixBundle {
+  const objects = toStixObjects(threats, options);
+  const fingerprint = objects.map((o) => `${o.id}@${o.modified}`).sort().join(',');
+  return { type: 'bundle', id: `bundle--${uuidv5(fingerprint, ID_NAMESPACE)}`, objects };
+}
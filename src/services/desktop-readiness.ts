@@ -76,12 +76,22 @@ export const DESKTOP_PARITY_FEATURES: DesktopParityFeature[] = [
     fallback: 'Browser summarizer executes when hosted LLM providers are unavailable.',
     priority: 2,
   },
+  {
+    id: 'analyst-chat',
+    panel: 'Analyst chat',
+    serviceFiles: ['src/services/analyst-chat/index.ts', 'src/services/analyst-chat/tools.ts'],
+    apiRoutes: ['/api/news/v1/chat-analyst'],
+    apiHandlers: ['server/worldmonitor/news/v1/handler.ts'],
+    locality: 'api-key',
+    fallback: 'Without a hosted LLM provider, answers fall back to the browser summarizer over the same tool results.',
+    priority: 2,
+  },
   {
     id: 'market-panel',
     panel: 'MarketPanel',
     serviceFiles: ['src/services/market/index.ts', 'src/services/prediction/index.ts'],
-    apiRoutes: ['/api/market/v1/list-crypto-quotes', '/api/market/v1/list-stablecoin-markets', '/api/market/v1/list-etf-flows'],
-    apiHandlers: ['server/worldmonitor/market/v1/handler.ts'],
+    apiRoutes: ['/api/market/v1/list-crypto-quotes', '/api/market/v1/list-stablecoin-markets', '/api/market/v1/list-etf-flows', '/api/market/v1/get-price-history', '/api/prediction/v1/list-cross-venue-markets', '/api/prediction/v1/get-market-odds-history'],
+    apiHandlers: ['server/worldmonitor/market/v1/handler.ts', 'server/worldmonitor/prediction/v1/handler.ts'],
     locality: 'fully-local',
     fallback: 'Multi-source market fetchers degrade to remaining providers and cached values.',
     priority: 2,
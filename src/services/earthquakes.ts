@@ -4,6 +4,7 @@ import {
   type ListEarthquakesResponse,
 } from '@/generated/client/worldmonitor/seismology/v1/service_client';
 import { createCircuitBreaker } from '@/utils';
+import type { GeoQuery } from '@/services/geo-query';
 
 // Re-export the proto Earthquake type as the domain's public type
 export type { Earthquake };
@@ -13,9 +14,14 @@ const breaker = createCircuitBreaker<ListEarthquakesResponse>({ name: 'Seismolog
 
 const emptyFallback: ListEarthquakesResponse = { earthquakes: [] };
 
-export async function fetchEarthquakes(): Promise<Earthquake[]> {
+/** Global M4.5+ earthquakes, or just those inside a viewport query (not cached by the breaker). */
+export async function fetchEarthquakes(query?: GeoQuery | null): Promise<Earthquake[]> {
+  if (query) {
+    const response = await client.listEarthquakes({ minMagnitude: 0, boundingBox: query.boundingBox, country: '' });
+    return response.earthquakes;
+  }
   const response = await breaker.execute(async () => {
-    return client.listEarthquakes({ minMagnitude: 0 });
+    return client.listEarthquakes({ minMagnitude: 0, country: '' });
   }, emptyFallback);
   return response.earthquakes;
 }
@@ -0,0 +1,420 @@
+/**
+ * Military flight track history and pattern-of-life analysis.
+ *
+ * Pure functions only (no app imports) so track merging, pattern detection
+ * and operating-area checks can be exercised directly in tests.
+ */
+
+import type { MilitaryAircraftType, MilitaryFlight, MilitaryOperator } from '@/types';
+
+export const TRACK_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_POINTS_PER_TRACK = 700;
+export const MAX_TRACKS = 500;
+/** Samples closer together than this are treated as the same refresh. */
+export const MIN_POINT_INTERVAL_MS = 60 * 1000;
+/** A gap this long ends one sortie and starts the next. */
+export const SORTIE_GAP_MS = 2 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KM_PER_NM = 1.852;
+
+/** Minimum time an aircraft must hold inside one area to count as a pattern. */
+const MIN_PATTERN_DURATION_MS = 45 * 60 * 1000;
+const MIN_PATTERN_POINTS = 4;
+/** Largest box (diagonal) an orbit, racetrack or loiter box may cover. */
+const MAX_PATTERN_EXTENT_KM = 250;
+/** Distance flown per km of extent; straight transits stay close to 1. */
+const MIN_PATTERN_CIRCUITY = 2.5;
+const MIN_AIRBORNE_SPEED_KT = 60;
+
+/** Operating areas are learned from points older than this. */
+const RECENT_WINDOW_MS = DAY_MS;
+const MIN_AREA_POINTS = 12;
+const MIN_AREA_DAYS = 2;
+const MIN_AREA_RADIUS_KM = 100;
+
+/** [time ms, lat, lon, altitude ft, heading deg, speed kt] */
+export type TrackPoint = [number, number, number, number, number, number];
+
+/** Airframe details from GetAircraftDetails (Wingbits), kept with the track. */
+export interface TrackAircraftDetails {
+  registration?: string;
+  manufacturer?: string;
+  model?: string;
+  typeCode?: string;
+  owner?: string;
+  operatorName?: string;
+  builtYear?: string;
+  militaryBranch?: string;
+  confirmedMilitary?: boolean;
+}
+
+export interface AircraftTrack {
+  /** ICAO 24-bit address, upper case. */
+  hex: string;
+  /** Most recent callsign first; airframes change callsign between sorties. */
+  callsigns: string[];
+  aircraftType: MilitaryAircraftType;
+  operator: MilitaryOperator;
+  operatorCountry: string;
+  details?: TrackAircraftDetails;
+  firstSeen: number;
+  lastSeen: number;
+  points: TrackPoint[];
+  /** When a deviation from the usual operating area was last flagged. */
+  deviationFlaggedAt?: number;
+}
+
+export type TrackPatternKind = 'orbit' | 'racetrack' | 'loiter';
+
+export interface TrackPattern {
+  kind: TrackPatternKind;
+  start: number;
+  end: number;
+  lat: number;
+  lon: number;
+  /** Farthest sample from the pattern center. */
+  radiusKm: number;
+  /** Length of the long axis; for racetracks, the leg length. */
+  lengthKm: number;
+  /** Bearing of the long axis (0-180°). */
+  axisDeg: number;
+  pointCount: number;
+}
+
+/** A track as drawn on the map during replay. */
+export interface FlightTrail {
+  hex: string;
+  label: string;
+  points: TrackPoint[];
+  patterns: TrackPattern[];
+}
+
+export interface OperatingArea {
+  lat: number;
+  lon: number;
+  radiusKm: number;
+  pointCount: number;
+  days: number;
+}
+
+export interface AreaDeviation {
+  area: OperatingArea;
+  lat: number;
+  lon: number;
+  time: number;
+  distanceKm: number;
+}
+
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function toTime(value: Date | string | number | undefined): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value) || 0;
+  return typeof value === 'number' ? value : 0;
+}
+
+function detailsFromFlight(flight: MilitaryFlight): TrackAircraftDetails | undefined {
+  const e = flight.enriched;
+  if (!e && !flight.registration && !flight.aircraftModel) return undefined;
+  return {
+    registration: flight.registration,
+    manufacturer: e?.manufacturer,
+    model: flight.aircraftModel,
+    typeCode: e?.typeCode,
+    owner: e?.owner,
+    operatorName: e?.operatorName,
+    builtYear: e?.builtYear,
+    militaryBranch: e?.militaryBranch,
+    confirmedMilitary: e?.confirmedMilitary,
+  };
+}
+
+/** Merge details, keeping earlier values where the new record has none. */
+export function mergeDetails(current: TrackAircraftDetails | undefined, next: TrackAircraftDetails | undefined): TrackAircraftDetails | undefined {
+  if (!next) return current;
+  if (!current) return next;
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(next) as Array<[keyof TrackAircraftDetails, unknown]>) {
+    if (value !== undefined && value !== null && value !== '') (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Append the latest positions to the per-aircraft tracks (mutates the map).
+ * Returns the hex codes whose tracks gained a point.
+ */
+export function appendFlightPositions(tracks: Map<string, AircraftTrack>, flights: MilitaryFlight[]): string[] {
+  const updated: string[] = [];
+  for (const flight of flights) {
+    if (!flight.hexCode || !Number.isFinite(flight.lat) || !Number.isFinite(flight.lon)) continue;
+    const hex = flight.hexCode.toUpperCase();
+    const time = toTime(flight.lastSeen);
+    if (!time) continue;
+
+    let track = tracks.get(hex);
+    if (!track) {
+      track = {
+        hex,
+        callsigns: [],
+        aircraftType: flight.aircraftType,
+        operator: flight.operator,
+        operatorCountry: flight.operatorCountry,
+        firstSeen: time,
+        lastSeen: time,
+        points: [],
+      };
+      tracks.set(hex, track);
+    }
+
+    const last = track.points[track.points.length - 1];
+    if (last && time - last[0] < MIN_POINT_INTERVAL_MS) continue;
+
+    const callsign = flight.callsign?.trim();
+    if (callsign && !callsign.startsWith('UNKN-')) {
+      track.callsigns = [callsign, ...track.callsigns.filter(c => c !== callsign)].slice(0, 5);
+    }
+    if (flight.aircraftType !== 'unknown') track.aircraftType = flight.aircraftType;
+    if (flight.operator !== 'other') {
+      track.operator = flight.operator;
+      track.operatorCountry = flight.operatorCountry;
+    }
+    track.details = mergeDetails(track.details, detailsFromFlight(flight));
+    track.points.push([
+      time,
+      Math.round(flight.lat * 1e5) / 1e5,
+      Math.round(flight.lon * 1e5) / 1e5,
+      flight.onGround ? 0 : Math.round(flight.altitude || 0),
+      Math.round(flight.heading || 0),
+      Math.round(flight.speed || 0),
+    ]);
+    if (track.points.length > MAX_POINTS_PER_TRACK) track.points.splice(0, track.points.length - MAX_POINTS_PER_TRACK);
+    track.firstSeen = Math.min(track.firstSeen, time);
+    track.lastSeen = Math.max(track.lastSeen, time);
+    updated.push(hex);
+  }
+  return updated;
+}
+
+/** Drop points past retention, empty tracks, and the stalest tracks beyond the cap (mutates the map). */
+export function pruneTracks(tracks: Map<string, AircraftTrack>, now: number): void {
+  const cutoff = now - TRACK_RETENTION_MS;
+  for (const [hex, track] of tracks) {
+    if (track.points.length > 0 && track.points[0]![0] < cutoff) {
+      track.points = track.points.filter(p => p[0] >= cutoff);
+    }
+    if (track.points.length === 0) {
+      tracks.delete(hex);
+      continue;
+    }
+    track.firstSeen = track.points[0]![0];
+  }
+  if (tracks.size <= MAX_TRACKS) return;
+  const stalest = [...tracks.values()].sort((a, b) => a.lastSeen - b.lastSeen).slice(0, tracks.size - MAX_TRACKS);
+  for (const track of stalest) tracks.delete(track.hex);
+}
+
+/** Split a track into sorties at gaps longer than SORTIE_GAP_MS. */
+export function splitSorties(points: TrackPoint[]): TrackPoint[][] {
+  const sorties: TrackPoint[][] = [];
+  let current: TrackPoint[] = [];
+  for (const point of points) {
+    const prev = current[current.length - 1];
+    if (prev && point[0] - prev[0] > SORTIE_GAP_MS) {
+      sorties.push(current);
+      current = [];
+    }
+    current.push(point);
+  }
+  if (current.length > 0) sorties.push(current);
+  return sorties;
+}
+
+/** Points at or before a replay time. */
+export function pointsUntil(points: TrackPoint[], time: number): TrackPoint[] {
+  let end = points.length;
+  while (end > 0 && points[end - 1]![0] > time) end--;
+  return points.slice(0, end);
+}
+
+/** Local equirectangular projection in km around a reference point. */
+function project(points: TrackPoint[], lat0: number, lon0: number): Array<[number, number]> {
+  const kx = 111.32 * Math.cos((lat0 * Math.PI) / 180);
+  return points.map(p => {
+    let dLon = p[2] - lon0;
+    if (dLon > 180) dLon -= 360;
+    if (dLon < -180) dLon += 360;
+    return [dLon * kx, (p[1] - lat0) * 110.57];
+  });
+}
+
+/** Distance flown between samples, from reported ground speed. */
+function flownKm(points: TrackPoint[]): number {
+  let km = 0;
+  for (let i = 1; i < points.length; i++) {
+    const hours = (points[i]![0] - points[i - 1]![0]) / 3_600_000;
+    km += hours * ((points[i]![5] + points[i - 1]![5]) / 2) * KM_PER_NM;
+  }
+  return km;
+}
+
+function classifyWindow(window: TrackPoint[]): TrackPattern | null {
+  const lat0 = window[0]![1];
+  const lon0 = window[0]![2];
+  const xy = project(window, lat0, lon0);
+  const n = xy.length;
+  const cx = xy.reduce((s, p) => s + p[0], 0) / n;
+  const cy = xy.reduce((s, p) => s + p[1], 0) / n;
+
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const [x, y] of xy) {
+    sxx += (x - cx) ** 2;
+    syy += (y - cy) ** 2;
+    sxy += (x - cx) * (y - cy);
+  }
+  sxx /= n; syy /= n; sxy /= n;
+  const spread = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+  const major = (sxx + syy) / 2 + spread;
+  const minor = Math.max((sxx + syy) / 2 - spread, 1e-6);
+  const elongation = Math.sqrt(major / minor);
+  // Long axis as a unit vector (x east, y north) and as a compass bearing.
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const ax = Math.cos(theta);
+  const ay = Math.sin(theta);
+  const axisDeg = ((90 - (theta * 180) / Math.PI) % 180 + 180) % 180;
+
+  const along = xy.map(([x, y]) => (x - cx) * ax + (y - cy) * ay);
+  const lengthKm = Math.max(...along) - Math.min(...along);
+  const radii = xy.map(([x, y]) => Math.hypot(x - cx, y - cy));
+  const radiusKm = Math.max(...radii);
+  const extentKm = Math.max(lengthKm, 1);
+  if (flownKm(window) / extentKm < MIN_PATTERN_CIRCUITY) return null;
+
+  // Racetrack: elongated, flown in both directions along the long axis.
+  let forward = 0, backward = 0;
+  for (const p of window) {
+    const h = (p[4] * Math.PI) / 180;
+    const dot = Math.sin(h) * ax + Math.cos(h) * ay;
+    if (dot > 0.7) forward++;
+    else if (dot < -0.7) backward++;
+  }
+  // Orbit: samples surround the center with no large angular gap.
+  const bearings = xy.map(([x, y]) => Math.atan2(y - cy, x - cx)).sort((a, b) => a - b);
+  let maxGap = 2 * Math.PI - (bearings[n - 1]! - bearings[0]!);
+  for (let i = 1; i < n; i++) maxGap = Math.max(maxGap, bearings[i]! - bearings[i - 1]!);
+
+  let kind: TrackPatternKind = 'loiter';
+  if (elongation >= 2 && forward > 0 && backward > 0 && (forward + backward) / n >= 0.6) kind = 'racetrack';
+  else if (elongation < 2 && maxGap <= (2 * Math.PI) / 3) kind = 'orbit';
+
+  const cosLat = Math.cos((lat0 * Math.PI) / 180) || 1e-6;
+  let lon = lon0 + cx / (111.32 * cosLat);
+  if (lon > 180) lon -= 360;
+  if (lon < -180) lon += 360;
+  return {
+    kind,
+    start: window[0]![0],
+    end: window[n - 1]![0],
+    lat: Math.round((lat0 + cy / 110.57) * 1e4) / 1e4,
+    lon: Math.round(lon * 1e4) / 1e4,
+    radiusKm: Math.round(radiusKm),
+    lengthKm: Math.round(lengthKm),
+    axisDeg: Math.round(axisDeg),
+    pointCount: n,
+  };
+}
+
+/**
+ * Find orbits, racetracks and loiter boxes: stretches of at least 45 minutes
+ * in which an airborne aircraft stays inside a small area while flying well
+ * over the distance needed to cross it.
+ */
+export function detectTrackPatterns(points: TrackPoint[]): TrackPattern[] {
+  const patterns: TrackPattern[] = [];
+  for (const sortie of splitSorties(points)) {
+    const airborne = sortie.filter(p => p[5] >= MIN_AIRBORNE_SPEED_KT);
+    let i = 0;
+    while (i < airborne.length) {
+      const lat0 = airborne[i]![1];
+      const lon0 = airborne[i]![2];
+      let minX = 0, maxX = 0, minY = 0, maxY = 0;
+      let j = i + 1;
+      for (; j < airborne.length; j++) {
+        if (airborne[j]![0] - airborne[j - 1]![0] > SORTIE_GAP_MS) break;
+        const [[x, y]] = project([airborne[j]!], lat0, lon0) as [[number, number]];
+        const nMinX = Math.min(minX, x), nMaxX = Math.max(maxX, x);
+        const nMinY = Math.min(minY, y), nMaxY = Math.max(maxY, y);
+        if (Math.hypot(nMaxX - nMinX, nMaxY - nMinY) > MAX_PATTERN_EXTENT_KM) break;
+        minX = nMinX; maxX = nMaxX; minY = nMinY; maxY = nMaxY;
+      }
+      const window = airborne.slice(i, j);
+      const pattern = window.length >= MIN_PATTERN_POINTS && window[window.length - 1]![0] - window[0]![0] >= MIN_PATTERN_DURATION_MS
+        ? classifyWindow(window)
+        : null;
+      if (pattern) {
+        patterns.push(pattern);
+        i = j;
+      } else {
+        i++;
+      }
+    }
+  }
+  return patterns;
+}
+
+/** Mean position on the sphere, so areas spanning the antimeridian average correctly. */
+function centroid(points: TrackPoint[]): { lat: number; lon: number } {
+  let x = 0, y = 0, z = 0;
+  for (const p of points) {
+    const lat = (p[1] * Math.PI) / 180;
+    const lon = (p[2] * Math.PI) / 180;
+    x += Math.cos(lat) * Math.cos(lon);
+    y += Math.cos(lat) * Math.sin(lon);
+    z += Math.sin(lat);
+  }
+  return {
+    lat: (Math.atan2(z, Math.hypot(x, y)) * 180) / Math.PI,
+    lon: (Math.atan2(y, x) * 180) / Math.PI,
+  };
+}
+
+/**
+ * The airframe's usual operating area, learned from points older than a day.
+ * Needs samples from at least two days; the radius covers 90% of them.
+ */
+export function operatingArea(points: TrackPoint[], now: number): OperatingArea | null {
+  const history = points.filter(p => p[0] < now - RECENT_WINDOW_MS);
+  const days = new Set(history.map(p => Math.floor(p[0] / DAY_MS))).size;
+  if (history.length < MIN_AREA_POINTS || days < MIN_AREA_DAYS) return null;
+  const center = centroid(history);
+  const distances = history.map(p => haversineKm(center.lat, center.lon, p[1], p[2])).sort((a, b) => a - b);
+  const p90 = distances[Math.min(distances.length - 1, Math.floor(distances.length * 0.9))]!;
+  return {
+    lat: Math.round(center.lat * 1e4) / 1e4,
+    lon: Math.round(center.lon * 1e4) / 1e4,
+    radiusKm: Math.round(Math.max(p90, MIN_AREA_RADIUS_KM)),
+    pointCount: history.length,
+    days,
+  };
+}
+
+/**
+ * Flag the latest position when it lies well outside the usual operating
+ * area: more than twice its radius and at least 500 km beyond its edge.
+ */
+export function detectAreaDeviation(track: AircraftTrack, now: number): AreaDeviation | null {
+  const latest = track.points[track.points.length - 1];
+  if (!latest || latest[0] < now - RECENT_WINDOW_MS) return null;
+  const area = operatingArea(track.points, now);
+  if (!area) return null;
+  const distanceKm = haversineKm(area.lat, area.lon, latest[1], latest[2]);
+  if (distanceKm <= Math.max(area.radiusKm * 2, area.radiusKm + 500)) return null;
+  return { area, lat: latest[1], lon: latest[2], time: latest[0], distanceKm: Math.round(distanceKm) };
+}
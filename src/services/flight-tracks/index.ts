@@ -0,0 +1,176 @@
+/**
+ * Military flight track history.
+ *
+ * Every military flight refresh appends a point to the aircraft's track,
+ * keyed by ICAO hex, so trails survive reloads and can be replayed. Tracks
+ * are kept for a week in the persistent cache. Each refresh also checks the
+ * updated airframes against their usual operating area and raises an
+ * airframe_deviation signal when one turns up far outside it.
+ */
+
+import { addToSignalHistory, type CorrelationSignal } from '@/services/correlation';
+import { getPersistentCache, setPersistentCache, deletePersistentCache } from '@/services/persistent-cache';
+import { enrichAircraft } from '@/services/wingbits';
+import { generateSignalId } from '@/utils/analysis-constants';
+import type { MilitaryFlight } from '@/types';
+import {
+  appendFlightPositions,
+  detectAreaDeviation,
+  detectTrackPatterns,
+  mergeDetails,
+  operatingArea,
+  pruneTracks,
+  type AircraftTrack,
+  type AreaDeviation,
+  type OperatingArea,
+  type TrackPattern,
+} from './analysis';
+
+export * from './analysis';
+
+const CACHE_KEY = 'military-flight-tracks:v1';
+/** Re-flag the same airframe at most this often. */
+const DEVIATION_COOLDOWN_MS = 12 * 60 * 60 * 1000;
+
+export interface TrackAnalysis {
+  patterns: TrackPattern[];
+  area: OperatingArea | null;
+  deviation: AreaDeviation | null;
+}
+
+const tracks = new Map<string, AircraftTrack>();
+const analysisCache = new Map<string, { lastSeen: number; points: number; analysis: TrackAnalysis }>();
+const trackListeners = new Set<() => void>();
+const detailLookups = new Set<string>();
+let loadPromise: Promise<void> | null = null;
+
+function loadTracks(): Promise<void> {
+  loadPromise ??= getPersistentCache<AircraftTrack[]>(CACHE_KEY)
+    .then((entry) => {
+      for (const track of Array.isArray(entry?.data) ? entry.data : []) {
+        if (track?.hex && Array.isArray(track.points) && !tracks.has(track.hex)) tracks.set(track.hex, track);
+      }
+      pruneTracks(tracks, Date.now());
+    })
+    .catch((err) => console.warn('[FlightTracks] Failed to load track history:', err));
+  return loadPromise;
+}
+
+function persist(): void {
+  void setPersistentCache(CACHE_KEY, [...tracks.values()]);
+}
+
+function notify(): void {
+  for (const listener of trackListeners) listener();
+}
+
+export function trackLabel(track: AircraftTrack): string {
+  return track.callsigns[0] || track.details?.registration || track.hex;
+}
+
+function deviationSignal(track: AircraftTrack, deviation: AreaDeviation): CorrelationSignal {
+  const label = trackLabel(track);
+  return {
+    id: generateSignalId(),
+    type: 'airframe_deviation',
+    title: `${label} (${track.aircraftType}) far outside its usual area`,
+    description: `${track.hex} is ${deviation.distanceKm} km from the center of the area it has flown over the past ${deviation.area.days} days (radius ${deviation.area.radiusKm} km).`,
+    confidence: Math.min(0.9, 0.5 + deviation.area.days * 0.05),
+    timestamp: new Date(deviation.time),
+    data: {
+      hexCode: track.hex,
+      lat: deviation.lat,
+      lon: deviation.lon,
+      explanation: `Usual area centered ${deviation.area.lat.toFixed(2)}°, ${deviation.area.lon.toFixed(2)}° from ${deviation.area.pointCount} positions.`,
+    },
+  };
+}
+
+/**
+ * Append a refresh of military flights to the track history. Returns the
+ * deviation signals raised for airframes outside their usual area.
+ */
+export async function recordFlightTracks(flights: MilitaryFlight[]): Promise<CorrelationSignal[]> {
+  await loadTracks();
+  const now = Date.now();
+  const updated = appendFlightPositions(tracks, flights);
+  if (updated.length === 0) return [];
+  pruneTracks(tracks, now);
+
+  const signals: CorrelationSignal[] = [];
+  for (const hex of updated) {
+    const track = tracks.get(hex);
+    if (!track || (track.deviationFlaggedAt && now - track.deviationFlaggedAt < DEVIATION_COOLDOWN_MS)) continue;
+    const deviation = detectAreaDeviation(track, now);
+    if (!deviation) continue;
+    track.deviationFlaggedAt = now;
+    signals.push(deviationSignal(track, deviation));
+  }
+
+  persist();
+  if (signals.length > 0) addToSignalHistory(signals);
+  notify();
+  return signals;
+}
+
+/** Tracks, most recently seen first. */
+export async function getFlightTracks(): Promise<AircraftTrack[]> {
+  await loadTracks();
+  return [...tracks.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export function getFlightTrack(hex: string): AircraftTrack | undefined {
+  return tracks.get(hex.toUpperCase());
+}
+
+/** Patterns, operating area and deviation for a track, cached until it gains a point. */
+export function analyzeFlightTrack(track: AircraftTrack, now = Date.now()): TrackAnalysis {
+  const cached = analysisCache.get(track.hex);
+  if (cached && cached.lastSeen === track.lastSeen && cached.points === track.points.length) return cached.analysis;
+  const analysis: TrackAnalysis = {
+    patterns: detectTrackPatterns(track.points),
+    area: operatingArea(track.points, now),
+    deviation: detectAreaDeviation(track, now),
+  };
+  analysisCache.set(track.hex, { lastSeen: track.lastSeen, points: track.points.length, analysis });
+  return analysis;
+}
+
+/**
+ * Look up GetAircraftDetails for a track that has none yet (once per
+ * session). Returns true when details were attached.
+ */
+export async function attachAircraftDetails(hex: string): Promise<boolean> {
+  const track = getFlightTrack(hex);
+  if (!track || track.details?.registration || detailLookups.has(track.hex)) return false;
+  detailLookups.add(track.hex);
+  const info = await enrichAircraft(track.hex.toLowerCase()).catch(() => null);
+  if (!info) return false;
+  track.details = mergeDetails(track.details, {
+    registration: info.registration ?? undefined,
+    manufacturer: info.manufacturer ?? undefined,
+    model: info.model ?? undefined,
+    typeCode: info.typecode ?? undefined,
+    owner: info.owner ?? undefined,
+    operatorName: info.operator ?? undefined,
+    builtYear: info.builtYear ?? undefined,
+    militaryBranch: info.militaryBranch ?? undefined,
+    confirmedMilitary: info.isMilitary,
+  });
+  persist();
+  notify();
+  return true;
+}
+
+export async function clearFlightTracks(): Promise<void> {
+  tracks.clear();
+  analysisCache.clear();
+  await deletePersistentCache(CACHE_KEY);
+  notify();
+}
+
+/** Subscribe to track history changes. Returns an unsubscribe function. */
+export function onFlightTracks(listener: () => void): () => void {
+  trackListeners.add(listener);
+  return () => trackListeners.delete(listener);
+}
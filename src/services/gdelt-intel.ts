@@ -178,6 +178,21 @@ export async function fetchGdeltArticles(
   return articles;
 }
 
+/** Every article fetched so far (topics, hotspot context), newest fetch first, deduplicated by URL. */
+export function getCachedGdeltArticles(): GdeltArticle[] {
+  const seen = new Set<string>();
+  const articles: GdeltArticle[] = [];
+  const entries = [...articleCache.values()].sort((a, b) => b.timestamp - a.timestamp);
+  for (const entry of entries) {
+    for (const article of entry.articles) {
+      if (!article.url || seen.has(article.url)) continue;
+      seen.add(article.url);
+      articles.push(article);
+    }
+  }
+  return articles;
+}
+
 export async function fetchHotspotContext(hotspot: Hotspot): Promise<GdeltArticle[]> {
   const query = hotspot.keywords.slice(0, 5).join(' OR ');
   return fetchGdeltArticles(query, 8, '48h');
@@ -0,0 +1,85 @@
+/**
+ * Viewport-scoped queries for geo list RPCs.
+ *
+ * On slow or metered connections the map asks the server for just the
+ * visible area instead of the global payload. Requested boxes are padded
+ * and snapped to a grid so small pans stay inside the last fetch and
+ * nearby views send identical requests.
+ */
+
+/** [west, south, east, north]; west > east when the box crosses the antimeridian. */
+export type ViewportBounds = [number, number, number, number];
+
+/** Matches core/v1 BoundingBox in the generated clients. */
+export interface GeoBoundingBox {
+  northEast: { latitude: number; longitude: number };
+  southWest: { latitude: number; longitude: number };
+}
+
+export interface GeoQuery {
+  bounds: ViewportBounds;
+  boundingBox: GeoBoundingBox;
+}
+
+/** Share of the visible span added on each side of a viewport query. */
+const VIEWPORT_PADDING = 0.25;
+
+interface NetworkInformationLike {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+const wrapLon = (lon: number) => (lon > 180 ? lon - 360 : lon < -180 ? lon + 360 : lon);
+const lonSpan = (west: number, east: number) => (east >= west ? east - west : east + 360 - west);
+
+function gridStep(span: number): number {
+  if (span >= 60) return 10;
+  if (span >= 15) return 5;
+  return 1;
+}
+
+/** True when the browser reports Save-Data or a 3G-or-slower connection. */
+export function prefersViewportScoping(): boolean {
+  const connection = (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+  if (!connection) return false;
+  if (connection.saveData) return true;
+  return ['slow-2g', '2g', '3g'].includes(connection.effectiveType ?? '');
+}
+
+export function toBoundingBox([west, south, east, north]: ViewportBounds): GeoBoundingBox {
+  return {
+    southWest: { latitude: south, longitude: west },
+    northEast: { latitude: north, longitude: east },
+  };
+}
+
+/**
+ * Padded, grid-snapped query for the visible bounds, or null when the
+ * padded box would cover every longitude (the global query is as small).
+ */
+export function viewportQuery(visible: ViewportBounds | null): GeoQuery | null {
+  if (!visible) return null;
+  const [west, south, east, north] = visible;
+  const span = lonSpan(west, east);
+  const padLon = span * VIEWPORT_PADDING;
+  const padLat = (north - south) * VIEWPORT_PADDING;
+  const step = gridStep(Math.max(span, north - south));
+  if (span + 2 * padLon + 2 * step >= 360) return null;
+
+  const bounds: ViewportBounds = [
+    wrapLon(Math.floor((west - padLon) / step) * step),
+    Math.max(-90, Math.floor((south - padLat) / step) * step),
+    wrapLon(Math.ceil((east + padLon) / step) * step),
+    Math.min(90, Math.ceil((north + padLat) / step) * step),
+  ];
+  return { bounds, boundingBox: toBoundingBox(bounds) };
+}
+
+/** Whether `inner` lies entirely within `outer`, antimeridian-aware. */
+export function boundsContain(outer: ViewportBounds, inner: ViewportBounds): boolean {
+  const [ow, os, oe, on] = outer;
+  const [iw, is, ie, inn] = inner;
+  if (is < os || inn > on) return false;
+  const offset = lonSpan(ow, iw);
+  return offset + lonSpan(iw, ie) <= lonSpan(ow, oe);
+}
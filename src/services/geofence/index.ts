@@ -0,0 +1,159 @@
+/**
+ * Monitor geofences.
+ *
+ * Monitors with a location and radius watch the map layers as they refresh.
+ * Earthquakes, fires, unrest, outages, military flights, military vessels and
+ * AIS disruption events (dark-ship gaps, chokepoint density shifts) inside a
+ * geofence are appended to a persistent hit log (one entry per item) and
+ * surfaced as geofence_hit signals, so alert rules can subscribe to them.
+ */
+
+import { STORAGE_KEYS } from '@/config';
+import { addToSignalHistory, type CorrelationSignal } from '@/services/correlation';
+import { generateSignalId } from '@/utils/analysis-constants';
+import { loadFromStorage, saveToStorage } from '@/utils';
+import type { MapLayerData } from '@/components/MapContainer';
+import type { GeofenceLayer, Monitor } from '@/types';
+import {
+  hasGeofence,
+  matchGeofence,
+  mergeHits,
+  type GeoPoint,
+  type MonitorHit,
+} from './match';
+
+export * from './match';
+
+let hitLog: MonitorHit[] = loadHits();
+let getMonitors: () => Monitor[] = () => [];
+const hitListeners = new Set<() => void>();
+
+function loadHits(): MonitorHit[] {
+  const stored = loadFromStorage<unknown>(STORAGE_KEYS.monitorHits, []);
+  return Array.isArray(stored) ? stored as MonitorHit[] : [];
+}
+
+function toTime(value: Date | string | number | undefined): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value) || 0;
+  return typeof value === 'number' ? value : 0;
+}
+
+/** Reduce one recorded map layer to the located items a geofence can match. */
+export function extractGeoPoints<K extends keyof MapLayerData>(layer: K, data: MapLayerData[K]): GeoPoint[] {
+  const d = data as MapLayerData[keyof MapLayerData];
+  if (!d) return [];
+  switch (layer) {
+    case 'earthquakes':
+      return (d as NonNullable<MapLayerData['earthquakes']>)
+        .filter(q => q.location)
+        .map(q => ({
+          id: q.id, layer: 'earthquakes' as const, lat: q.location!.latitude, lon: q.location!.longitude,
+          label: `M${q.magnitude.toFixed(1)} ${q.place}`, time: q.occurredAt,
+        }));
+    case 'fires':
+      return (d as NonNullable<MapLayerData['fires']>).map(f => ({
+        id: `${f.lat.toFixed(3)},${f.lon.toFixed(3)}:${f.acq_date}`, layer: 'fires' as const, lat: f.lat, lon: f.lon,
+        label: `Fire ${f.region} (${Math.round(f.frp)} MW)`, time: toTime(f.acq_date),
+      }));
+    case 'protests':
+      return (d as NonNullable<MapLayerData['protests']>).map(p => ({
+        id: p.id, layer: 'unrest' as const, lat: p.lat, lon: p.lon, label: p.title, time: toTime(p.time),
+      }));
+    case 'outages':
+      return (d as NonNullable<MapLayerData['outages']>).map(o => ({
+        id: o.id, layer: 'outages' as const, lat: o.lat, lon: o.lon, label: o.title, time: toTime(o.pubDate),
+      }));
+    case 'militaryFlights':
+      return (d as NonNullable<MapLayerData['militaryFlights']>).flights.map(f => ({
+        id: f.id, layer: 'flights' as const, lat: f.lat, lon: f.lon,
+        label: `${f.callsign || f.id} (${f.aircraftType})`, time: toTime(f.lastSeen),
+      }));
+    case 'militaryVessels':
+      return (d as NonNullable<MapLayerData['militaryVessels']>).vessels.map(v => ({
+        id: v.id, layer: 'vessels' as const, lat: v.lat, lon: v.lon,
+        label: `${v.name} (${v.vesselType})`, time: toTime(v.lastAisUpdate),
+      }));
+    case 'ais':
+      return (d as NonNullable<MapLayerData['ais']>).disruptions.map(a => ({
+        id: a.id, layer: 'shipping' as const, lat: a.lat, lon: a.lon, label: a.name, time: 0,
+      }));
+    default:
+      return [];
+  }
+}
+
+function monitorLabel(monitor: Monitor): string {
+  return monitor.name || monitor.keywords.join(', ') || `${monitor.lat?.toFixed(2)}, ${monitor.lon?.toFixed(2)}`;
+}
+
+function hitsToSignals(added: MonitorHit[], monitors: Monitor[]): CorrelationSignal[] {
+  const groups = new Map<string, MonitorHit[]>();
+  for (const hit of added) {
+    const key = `${hit.monitorId}:${hit.layer}`;
+    groups.set(key, [...(groups.get(key) ?? []), hit]);
+  }
+  return [...groups.values()].map((hits) => {
+    const first = hits[0]!;
+    const monitor = monitors.find(m => m.id === first.monitorId);
+    const name = monitor ? monitorLabel(monitor) : first.monitorId;
+    const nearest = hits.reduce((a, b) => (b.distanceKm < a.distanceKm ? b : a));
+    return {
+      id: generateSignalId(),
+      type: 'geofence_hit',
+      title: `${hits.length} ${first.layer} inside "${name}" geofence`,
+      description: `Nearest: ${nearest.label}, ${nearest.distanceKm} km from the monitor center.`,
+      confidence: 0.8,
+      timestamp: new Date(),
+      data: {
+        monitorId: first.monitorId,
+        layer: first.layer,
+        hitCount: hits.length,
+        explanation: hits.slice(0, 5).map(h => h.label).join('; '),
+      },
+    };
+  });
+}
+
+/**
+ * Match a refreshed map layer against every geofenced monitor. New hits are
+ * logged and emitted as signals; items already in the log are ignored.
+ */
+export function checkMonitorGeofences<K extends keyof MapLayerData>(layer: K, data: MapLayerData[K]): MonitorHit[] {
+  const monitors = getMonitors().filter(hasGeofence);
+  if (monitors.length === 0) return [];
+  const points = extractGeoPoints(layer, data);
+  if (points.length === 0) return [];
+
+  const now = Date.now();
+  const hits = monitors.flatMap(m => matchGeofence(m, points, now));
+  if (hits.length === 0) return [];
+
+  const { log, added } = mergeHits(hitLog, hits, now);
+  if (added.length === 0) return [];
+  hitLog = log;
+  saveToStorage(STORAGE_KEYS.monitorHits, hitLog);
+  addToSignalHistory(hitsToSignals(added, monitors));
+  for (const listener of hitListeners) listener();
+  return added;
+}
+
+export function initMonitorGeofences(monitorSource: () => Monitor[]): void {
+  getMonitors = monitorSource;
+}
+
+export function getMonitorHits(monitorId?: string, layer?: GeofenceLayer): MonitorHit[] {
+  return hitLog.filter(h => (!monitorId || h.monitorId === monitorId) && (!layer || h.layer === layer));
+}
+
+export function clearMonitorHits(monitorId?: string): void {
+  hitLog = monitorId ? hitLog.filter(h => h.monitorId !== monitorId) : [];
+  saveToStorage(STORAGE_KEYS.monitorHits, hitLog);
+  for (const listener of hitListeners) listener();
+}
+
+/** Subscribe to hit log changes. Returns an unsubscribe function. */
+export function onMonitorHits(listener: () => void): () => void {
+  hitListeners.add(listener);
+  return () => hitListeners.delete(listener);
+}
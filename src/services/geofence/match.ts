@@ -0,0 +1,163 @@
+/**
+ * Monitor geofence matching and hit-log helpers.
+ *
+ * Pure functions only (no app imports) so the matching, retention and export
+ * logic can be exercised directly in tests.
+ */
+
+import type { GeofenceLayer, Monitor } from '@/types';
+
+export const GEOFENCE_LAYERS: GeofenceLayer[] = ['earthquakes', 'fires', 'unrest', 'outages', 'flights', 'vessels', 'shipping'];
+export const DEFAULT_GEOFENCE_RADIUS_KM = 250;
+export const MAX_GEOFENCE_RADIUS_KM = 5000;
+export const MAX_HIT_LOG_ENTRIES = 2000;
+export const HIT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A located item from one of the map layers, reduced to what a hit records. */
+export interface GeoPoint {
+  id: string;
+  layer: GeofenceLayer;
+  lat: number;
+  lon: number;
+  label: string;
+  /** When the event happened or the asset was last seen (ms). */
+  time: number;
+}
+
+export interface MonitorHit {
+  /** monitorId:layer:itemId — one entry per item per monitor. */
+  key: string;
+  monitorId: string;
+  layer: GeofenceLayer;
+  itemId: string;
+  label: string;
+  lat: number;
+  lon: number;
+  distanceKm: number;
+  eventTime: number;
+  detectedAt: number;
+}
+
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function hasGeofence(monitor: Monitor): boolean {
+  return typeof monitor.lat === 'number' && typeof monitor.lon === 'number'
+    && Number.isFinite(monitor.lat) && Number.isFinite(monitor.lon)
+    && typeof monitor.radiusKm === 'number' && monitor.radiusKm > 0;
+}
+
+/** Layers a monitor watches; an empty or missing filter means all of them. */
+export function monitorLayers(monitor: Monitor): GeofenceLayer[] {
+  const layers = (monitor.layers ?? []).filter(l => GEOFENCE_LAYERS.includes(l));
+  return layers.length > 0 ? layers : GEOFENCE_LAYERS;
+}
+
+export function matchGeofence(monitor: Monitor, points: GeoPoint[], now: number): MonitorHit[] {
+  if (!hasGeofence(monitor)) return [];
+  const layers = new Set(monitorLayers(monitor));
+  const radius = Math.min(monitor.radiusKm!, MAX_GEOFENCE_RADIUS_KM);
+  const hits: MonitorHit[] = [];
+
+  for (const point of points) {
+    if (!layers.has(point.layer) || !Number.isFinite(point.lat) || !Number.isFinite(point.lon)) continue;
+    const distanceKm = haversineKm(monitor.lat!, monitor.lon!, point.lat, point.lon);
+    if (distanceKm > radius) continue;
+    hits.push({
+      key: `${monitor.id}:${point.layer}:${point.id}`,
+      monitorId: monitor.id,
+      layer: point.layer,
+      itemId: point.id,
+      label: point.label,
+      lat: point.lat,
+      lon: point.lon,
+      distanceKm: Math.round(distanceKm * 10) / 10,
+      eventTime: Number.isFinite(point.time) && point.time > 0 ? point.time : now,
+      detectedAt: now,
+    });
+  }
+  return hits;
+}
+
+/**
+ * Append hits not already logged, drop entries past retention and cap the
+ * log (newest first). Returns the new log and the hits that were added.
+ */
+export function mergeHits(
+  log: MonitorHit[],
+  hits: MonitorHit[],
+  now: number,
+  maxEntries = MAX_HIT_LOG_ENTRIES,
+  retentionMs = HIT_RETENTION_MS,
+): { log: MonitorHit[]; added: MonitorHit[] } {
+  const cutoff = now - retentionMs;
+  const kept = log.filter(h => h.detectedAt >= cutoff);
+  const seen = new Set(kept.map(h => h.key));
+  const added: MonitorHit[] = [];
+  for (const hit of hits) {
+    if (seen.has(hit.key)) continue;
+    seen.add(hit.key);
+    added.push(hit);
+  }
+  const merged = [...added, ...kept].sort((a, b) => b.detectedAt - a.detectedAt).slice(0, maxEntries);
+  return { log: merged, added };
+}
+
+/** Hits per day over the last `days` days (oldest first), bucketed by detection time. */
+export function dailyHitCounts(hits: MonitorHit[], days: number, now: number): number[] {
+  const counts = new Array<number>(days).fill(0);
+  const today = Math.floor(now / DAY_MS);
+  for (const hit of hits) {
+    const age = today - Math.floor(hit.detectedAt / DAY_MS);
+    if (age >= 0 && age < days) counts[days - 1 - age]!++;
+  }
+  return counts;
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function hitsToCSV(hits: MonitorHit[], monitorNames: Record<string, string> = {}): string {
+  const header = ['monitor', 'layer', 'label', 'lat', 'lon', 'distance_km', 'event_time', 'detected_at', 'item_id'];
+  const rows = hits.map(h => [
+    monitorNames[h.monitorId] ?? h.monitorId,
+    h.layer,
+    h.label,
+    h.lat,
+    h.lon,
+    h.distanceKm,
+    new Date(h.eventTime).toISOString(),
+    new Date(h.detectedAt).toISOString(),
+    h.itemId,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
+
+export function hitsToGeoJSON(hits: MonitorHit[], monitorNames: Record<string, string> = {}): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: hits.map(h => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [h.lon, h.lat] },
+      properties: {
+        monitor: monitorNames[h.monitorId] ?? h.monitorId,
+        monitorId: h.monitorId,
+        layer: h.layer,
+        label: h.label,
+        itemId: h.itemId,
+        distanceKm: h.distanceKm,
+        eventTime: new Date(h.eventTime).toISOString(),
+        detectedAt: new Date(h.detectedAt).toISOString(),
+      },
+    })),
+  });
+}
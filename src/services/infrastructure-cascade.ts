@@ -5,13 +5,27 @@ import type {
   CascadeAffectedNode,
   CascadeCountryImpact,
   CascadeImpactLevel,
+  CascadeScenario,
   UnderseaCable,
   Pipeline,
 } from '@/types';
 import type { Port } from '@/config/ports';
+import { STORAGE_KEYS } from '@/config';
 import { UNDERSEA_CABLES, STRATEGIC_WATERWAYS } from '@/config/geo';
 import { PIPELINES } from '@/config/pipelines';
 import { PORTS } from '@/config/ports';
+import { loadFromStorage, saveToStorage } from '@/utils';
+import {
+  clampDepth,
+  clampUnit,
+  parseCustomGraph,
+  propagateCascade,
+  DEFAULT_CASCADE_DEPTH,
+  type CustomDependencyGraph,
+  type CustomGraphParseResult,
+} from './cascade-model';
+
+export { DEFAULT_CASCADE_DEPTH, MAX_CASCADE_DEPTH, type CustomDependencyGraph } from './cascade-model';
 
 // Country name lookup
 const COUNTRY_NAMES: Record<string, string> = {
@@ -43,11 +57,71 @@ export interface DependencyGraph {
 }
 
 let cachedGraph: DependencyGraph | null = null;
+let customGraph: CustomDependencyGraph = loadCustomDependencies();
+
+function loadCustomDependencies(): CustomDependencyGraph {
+  const stored = loadFromStorage<Partial<CustomDependencyGraph>>(STORAGE_KEYS.cascadeCustomGraph, {});
+  return {
+    nodes: Array.isArray(stored.nodes) ? stored.nodes : [],
+    edges: Array.isArray(stored.edges) ? stored.edges : [],
+  };
+}
 
 export function clearGraphCache(): void {
   cachedGraph = null;
 }
 
+// ========================================================================
+// User-imported dependencies (datacenters, landing stations, power plants)
+// ========================================================================
+
+export function getCustomDependencies(): CustomDependencyGraph {
+  return customGraph;
+}
+
+/**
+ * Parse an imported JSON/CSV dependency file and merge it into the stored
+ * custom graph. Edges between the same pair of nodes are replaced.
+ */
+export function importCustomDependencies(text: string): CustomGraphParseResult {
+  const builtIn = new Set<string>();
+  for (const id of buildDependencyGraph().nodes.keys()) {
+    if (!customGraph.nodes.some(n => n.id === id)) builtIn.add(id);
+  }
+  const result = parseCustomGraph(text, builtIn);
+  if (result.graph.edges.length === 0 && result.graph.nodes.length === 0) return result;
+
+  const nodes = new Map(customGraph.nodes.map(n => [n.id, n]));
+  result.graph.nodes.forEach(n => nodes.set(n.id, n));
+  const edges = new Map(customGraph.edges.map(e => [`${e.from}>${e.to}`, e]));
+  result.graph.edges.forEach(e => edges.set(`${e.from}>${e.to}`, e));
+
+  customGraph = { nodes: [...nodes.values()], edges: [...edges.values()] };
+  saveToStorage(STORAGE_KEYS.cascadeCustomGraph, customGraph);
+  clearGraphCache();
+  return result;
+}
+
+export function clearCustomDependencies(): void {
+  customGraph = { nodes: [], edges: [] };
+  saveToStorage(STORAGE_KEYS.cascadeCustomGraph, customGraph);
+  clearGraphCache();
+}
+
+function addCustomDependencies(graph: DependencyGraph): void {
+  for (const node of customGraph.nodes) {
+    if (!graph.nodes.has(node.id)) graph.nodes.set(node.id, node);
+  }
+  for (const edge of customGraph.edges) {
+    for (const id of [edge.from, edge.to]) {
+      if (graph.nodes.has(id) || !id.startsWith('country:')) continue;
+      const code = id.replace('country:', '');
+      graph.nodes.set(id, { id, type: 'country', name: COUNTRY_NAMES[code] || code, metadata: { code } });
+    }
+    if (graph.nodes.has(edge.from) && graph.nodes.has(edge.to)) addEdge(graph, edge);
+  }
+}
+
 function addCablesAsNodes(graph: DependencyGraph): void {
   for (const cable of UNDERSEA_CABLES) {
     const firstPoint = cable.points?.[0];
@@ -480,6 +554,7 @@ export function buildDependencyGraph(): DependencyGraph {
   buildPipelineCountryEdges(graph);
   buildPortCountryEdges(graph);      // NEW: Port → Country dependencies
   buildChokepointEdges(graph);       // NEW: Chokepoint → Port/Country dependencies
+  addCustomDependencies(graph);
 
   cachedGraph = graph;
   return graph;
@@ -494,136 +569,127 @@ function categorizeImpact(strength: number): CascadeImpactLevel {
 
 export function calculateCascade(
   sourceId: string,
-  disruptionLevel: number = 1.0
+  disruptionLevel: number = 1.0,
+  maxDepth: number = DEFAULT_CASCADE_DEPTH,
 ): CascadeResult | null {
-  const graph = buildDependencyGraph();
-  const source = graph.nodes.get(sourceId);
-
-  if (!source) return null;
-
-  const affected: Map<string, CascadeAffectedNode> = new Map();
-  const visited = new Set<string>();
-  visited.add(sourceId);
-
-  const queue: { nodeId: string; depth: number; path: string[] }[] = [
-    { nodeId: sourceId, depth: 0, path: [sourceId] },
-  ];
-
-  while (queue.length > 0) {
-    const { nodeId, depth, path } = queue.shift()!;
-    if (depth >= 3) continue;
-
-    const dependents = graph.outgoing.get(nodeId) || [];
-
-    for (const edge of dependents) {
-      if (visited.has(edge.to)) continue;
-      visited.add(edge.to);
+  return calculateScenarioCascade({ sources: [{ nodeId: sourceId, disruption: disruptionLevel }], maxDepth });
+}
 
-      const impactStrength = edge.strength * disruptionLevel * (1 - (edge.redundancy || 0));
-      const targetNode = graph.nodes.get(edge.to);
+/**
+ * Simulate several assets failing together, each at its own disruption
+ * level. Countries reached from more than one source get a combined impact,
+ * and backups that are themselves in the scenario no longer count as
+ * redundancy.
+ */
+export function calculateScenarioCascade(scenario: CascadeScenario): CascadeResult | null {
+  const graph = buildDependencyGraph();
+  const sources = scenario.sources
+    .filter(s => graph.nodes.has(s.nodeId))
+    .map(s => ({ node: graph.nodes.get(s.nodeId)!, disruption: clampUnit(s.disruption) }));
 
-      if (!targetNode || impactStrength < 0.05) continue;
+  if (sources.length === 0) return null;
 
-      affected.set(edge.to, {
-        node: targetNode,
-        impactLevel: categorizeImpact(impactStrength),
-        pathLength: depth + 1,
-        dependencyChain: [...path, edge.to],
-        redundancyAvailable: (edge.redundancy || 0) > 0.3,
-        estimatedRecovery: edge.metadata?.estimatedImpact,
-      });
-
-      queue.push({
-        nodeId: edge.to,
-        depth: depth + 1,
-        path: [...path, edge.to],
-      });
-    }
-  }
+  const maxDepth = clampDepth(scenario.maxDepth);
+  const impacts = propagateCascade(
+    graph,
+    sources.map(s => ({ nodeId: s.node.id, disruption: s.disruption })),
+    maxDepth,
+  );
 
+  const affected: CascadeAffectedNode[] = [];
   const countriesAffected: CascadeCountryImpact[] = [];
-  for (const [nodeId, affectedNode] of affected) {
-    if (affectedNode.node.type === 'country') {
-      const code = (affectedNode.node.metadata?.code as string) || nodeId.replace('country:', '');
+  for (const [nodeId, impact] of impacts) {
+    const node = graph.nodes.get(nodeId)!;
+    const impactLevel = categorizeImpact(impact.impact);
+    affected.push({
+      node,
+      impactLevel,
+      pathLength: impact.depth,
+      dependencyChain: impact.chain,
+      redundancyAvailable: impact.redundancyAvailable,
+      estimatedRecovery: impact.estimatedRecovery,
+    });
+
+    if (node.type === 'country') {
+      const code = (node.metadata?.code as string) || nodeId.replace('country:', '');
       countriesAffected.push({
         country: code,
-        countryName: affectedNode.node.name,
-        impactLevel: affectedNode.impactLevel,
-        affectedCapacity: getCapacityForCountry(sourceId, code, graph, affectedNode.dependencyChain),
+        countryName: node.name,
+        impactLevel,
+        affectedCapacity: getCapacityForCountry(impact.sources, code, graph, impact.chain),
+        sources: impact.sources,
+        redundancyAvailable: impact.redundancyAvailable,
       });
     }
   }
 
+  affected.sort((a, b) => a.pathLength - b.pathLength);
   countriesAffected.sort((a, b) => {
     const order = { critical: 0, high: 1, medium: 2, low: 3 };
     return (order[a.impactLevel] - order[b.impactLevel]) || (b.affectedCapacity - a.affectedCapacity);
   });
 
-  const redundancies = findRedundancies(sourceId);
-
   return {
-    source,
-    affectedNodes: Array.from(affected.values()),
+    source: sources[0]!.node,
+    sources,
+    maxDepth,
+    affectedNodes: affected,
     countriesAffected,
-    redundancies,
+    redundancies: findRedundancies(sources.map(s => s.node.id)),
   };
 }
 
+/**
+ * Share of the country's capacity carried by the failed assets. Failed cables
+ * report their capacityShare for the country (summed when several fail);
+ * other sources use the direct edge, or the strongest path's edge product.
+ */
 function getCapacityForCountry(
-  sourceId: string,
+  sourceIds: string[],
   countryCode: string,
   graph: DependencyGraph,
   dependencyChain: string[],
 ): number {
-  if (sourceId.startsWith('cable:')) {
-    const cableId = sourceId.replace('cable:', '');
-    const cable = UNDERSEA_CABLES.find(c => c.id === cableId);
-    const countryData = cable?.countriesServed?.find(cs => cs.country === countryCode);
-    return countryData?.capacityShare || 0;
+  const cableIds = sourceIds.filter(id => id.startsWith('cable:')).map(id => id.replace('cable:', ''));
+  if (cableIds.length > 0) {
+    const shares = cableIds.map((cableId) => {
+      const cable = UNDERSEA_CABLES.find(c => c.id === cableId);
+      return cable?.countriesServed?.find(cs => cs.country === countryCode)?.capacityShare || 0;
+    });
+    return Math.min(1, shares.reduce((sum, share) => sum + share, 0));
   }
 
-  // Check direct edges from source → country
+  // Check direct edges from the source → country
+  const sourceId = dependencyChain[0]!;
   const countryId = `country:${countryCode}`;
-  const outgoing = graph.outgoing.get(sourceId) || [];
-  const direct = outgoing.filter(e => e.to === countryId);
+  const direct = (graph.outgoing.get(sourceId) || []).filter(e => e.to === countryId);
   if (direct.length > 0) {
-    const effective = direct.map(e => e.strength * (1 - (e.redundancy || 0)));
-    return Math.max(...effective);
+    return Math.max(...direct.map(e => e.strength * (1 - (e.redundancy || 0))));
   }
 
-  // Walk the BFS dependency chain for indirect impacts (e.g. chokepoint → port → country)
-  if (dependencyChain.length > 2) {
-    let pathCapacity = 1;
-    for (let i = 0; i < dependencyChain.length - 1; i++) {
-      const from = dependencyChain[i]!;
-      const to = dependencyChain[i + 1]!;
-      const stepEdges = graph.outgoing.get(from) || [];
-      const edge = stepEdges.find(e => e.to === to);
-      if (edge) {
-        pathCapacity *= edge.strength * (1 - (edge.redundancy || 0));
-      } else {
-        pathCapacity = 0;
-        break;
-      }
-    }
-    if (pathCapacity > 0) return pathCapacity;
+  // Walk the dependency chain for indirect impacts (e.g. chokepoint → port → country)
+  let pathCapacity = 1;
+  for (let i = 0; i < dependencyChain.length - 1; i++) {
+    const edge = (graph.outgoing.get(dependencyChain[i]!) || []).find(e => e.to === dependencyChain[i + 1]);
+    if (!edge) return 0;
+    pathCapacity *= edge.strength * (1 - (edge.redundancy || 0));
   }
-
-  return 0;
+  return dependencyChain.length > 2 ? pathCapacity : 0;
 }
 
-function findRedundancies(sourceId: string): CascadeResult['redundancies'] {
-  if (!sourceId.startsWith('cable:')) return [];
-
-  const cableId = sourceId.replace('cable:', '');
-  const sourceCable = UNDERSEA_CABLES.find(c => c.id === cableId);
-  if (!sourceCable) return [];
+/** Alternative cables for the countries served by the failed cables, excluding any that are also failed. */
+function findRedundancies(sourceIds: string[]): CascadeResult['redundancies'] {
+  const failed = new Set(sourceIds.filter(id => id.startsWith('cable:')).map(id => id.replace('cable:', '')));
+  if (failed.size === 0) return [];
 
-  const sourceCountries = new Set(sourceCable.countriesServed?.map(c => c.country) || []);
-  const alternatives: CascadeResult['redundancies'] = [];
+  const sourceCountries = new Set<string>();
+  for (const cable of UNDERSEA_CABLES) {
+    if (failed.has(cable.id)) cable.countriesServed?.forEach(c => sourceCountries.add(c.country));
+  }
+  const alternatives: NonNullable<CascadeResult['redundancies']> = [];
 
   for (const cable of UNDERSEA_CABLES) {
-    if (cable.id === cableId) continue;
+    if (failed.has(cable.id)) continue;
 
     const sharedCountries = cable.countriesServed?.filter(c => sourceCountries.has(c.country)) || [];
     if (sharedCountries.length > 0) {
@@ -636,7 +702,7 @@ function findRedundancies(sourceId: string): CascadeResult['redundancies'] {
     }
   }
 
-  return alternatives.slice(0, 5);
+  return alternatives.sort((a, b) => b.capacityShare - a.capacityShare).slice(0, 5);
 }
 
 export function getCableById(id: string): UnderseaCable | undefined {
@@ -651,12 +717,13 @@ export function getPortById(id: string): Port | undefined {
   return PORTS.find((p: Port) => p.id === id);
 }
 
-export function getGraphStats(): { nodes: number; edges: number; cables: number; pipelines: number; ports: number; chokepoints: number; countries: number } {
+export function getGraphStats(): { nodes: number; edges: number; cables: number; pipelines: number; ports: number; chokepoints: number; countries: number; custom: number } {
   const graph = buildDependencyGraph();
-  let cables = 0, pipelines = 0, ports = 0, chokepoints = 0, countries = 0;
+  let cables = 0, pipelines = 0, ports = 0, chokepoints = 0, countries = 0, custom = 0;
 
   for (const node of graph.nodes.values()) {
-    if (node.type === 'cable') cables++;
+    if (node.metadata?.custom) custom++;
+    else if (node.type === 'cable') cables++;
     else if (node.type === 'pipeline') pipelines++;
     else if (node.type === 'port') ports++;
     else if (node.type === 'chokepoint') chokepoints++;
@@ -671,5 +738,6 @@ export function getGraphStats(): { nodes: number; edges: number; cables: number;
     ports,
     chokepoints,
     countries,
+    custom,
   };
 }
@@ -20,8 +20,11 @@ export {
   getCachedScores,
   hasCachedScores,
   toCountryScore,
+  fetchRiskScoreHistory,
+  sliceCIIHistory,
+  CII_HISTORY_WINDOWS,
 } from '../cached-risk-scores';
-export type { CachedCIIScore, CachedStrategicRisk, CachedRiskScores } from '../cached-risk-scores';
+export type { CachedCIIScore, CachedStrategicRisk, CachedRiskScores, CIIHistoryPoint, CIIHistoryWindow } from '../cached-risk-scores';
 
 // Threat classification (keyword + AI)
 export {
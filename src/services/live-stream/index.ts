@@ -0,0 +1,180 @@
+/**
+ * Push updates for fast-moving layers over the relay's SSE stream.
+ *
+ * One EventSource carries every subscribed topic. A topic counts as live
+ * once its snapshot arrives; while it is live the refresh scheduler skips
+ * polling it. When the stream drops, stalls or loses an event it reconnects
+ * with backoff, and topics that don't get a fresh snapshot within a short
+ * grace period fall back to polling until they do.
+ */
+
+import { isDesktopRuntime } from '../runtime';
+import { isFeatureAvailable } from '../runtime-config';
+import { LiveTopicStore, parseLiveEvent, type LiveItem, type LiveTopic } from './topic-store';
+
+export * from './topic-store';
+
+const LIVE_STREAM_PROXY_URL = '/api/live-stream';
+const wsRelayUrl = import.meta.env.VITE_WS_RELAY_URL || '';
+const DIRECT_STREAM_URL = wsRelayUrl
+  ? wsRelayUrl.replace('wss://', 'https://').replace('ws://', 'http://').replace(/\/$/, '') + '/stream'
+  : 'http://localhost:3004/stream';
+const isLocalhost = typeof window !== 'undefined' && ['localhost', '127.0.0.1'].includes(window.location.hostname);
+
+/** The relay pings every 20s; this long without any event means the stream stalled. */
+const STALL_TIMEOUT_MS = 45 * 1000;
+/** Time a dropped stream gets to resubscribe before its topics fall back to polling. */
+const FALLBACK_GRACE_MS = 15 * 1000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+export interface LiveStreamHandlers {
+  /** Full current item list for a topic after each snapshot or delta. */
+  onItems: (topic: LiveTopic, items: LiveItem[]) => void;
+  /** A topic started streaming, or fell back to polling. */
+  onStatus: (topic: LiveTopic, live: boolean) => void;
+}
+
+export function isLiveStreamAvailable(): boolean {
+  return typeof EventSource !== 'undefined' && !isDesktopRuntime() && isFeatureAvailable('aisRelay');
+}
+
+function streamUrl(topics: LiveTopic[]): string {
+  // Vite dev has no edge functions; talk to the relay directly there.
+  const base = isLocalhost ? DIRECT_STREAM_URL : LIVE_STREAM_PROXY_URL;
+  return `${base}?topics=${topics.join(',')}`;
+}
+
+export class LiveStream {
+  private handlers: LiveStreamHandlers;
+  private source: EventSource | null = null;
+  private topics: LiveTopic[] = [];
+  private stores = new Map<LiveTopic, LiveTopicStore>();
+  private live = new Set<LiveTopic>();
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(handlers: LiveStreamHandlers) {
+    this.handlers = handlers;
+  }
+
+  isLive(topic: LiveTopic): boolean {
+    return this.live.has(topic);
+  }
+
+  /** Subscribe to exactly these topics, reconnecting if the set changed. */
+  setTopics(topics: LiveTopic[]): void {
+    const next = [...new Set(topics)].sort();
+    if (next.join(',') === this.topics.join(',')) return;
+
+    for (const topic of this.topics) {
+      if (next.includes(topic)) continue;
+      this.stores.delete(topic);
+      this.setLive(topic, false);
+    }
+    this.topics = next;
+    this.attempts = 0;
+    this.closeSource();
+    if (next.length === 0) return;
+    // Kept topics stay live while the new subscription comes up.
+    for (const store of this.stores.values()) store.reset();
+    this.scheduleFallback();
+    this.connect();
+  }
+
+  destroy(): void {
+    this.closeSource();
+    if (this.fallbackTimer) clearTimeout(this.fallbackTimer);
+    this.fallbackTimer = null;
+    this.topics = [];
+    this.stores.clear();
+    this.live.clear();
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    const source = new EventSource(streamUrl(this.topics));
+    this.source = source;
+    const onEvent = (e: MessageEvent) => this.handleEvent(source, e);
+    source.addEventListener('snapshot', onEvent);
+    source.addEventListener('delta', onEvent);
+    source.addEventListener('ping', () => this.touch(source));
+    source.onerror = () => this.handleDrop(source);
+    this.touch(source);
+  }
+
+  private handleEvent(source: EventSource, e: MessageEvent): void {
+    if (source !== this.source) return;
+    this.touch(source);
+
+    let event;
+    try {
+      event = parseLiveEvent(JSON.parse(e.data));
+    } catch {
+      event = null;
+    }
+    if (!event || !this.topics.includes(event.topic)) return;
+
+    let store = this.stores.get(event.topic);
+    if (!store) {
+      store = new LiveTopicStore();
+      this.stores.set(event.topic, store);
+    }
+    const result = store.apply(event);
+    if (result === 'gap') {
+      console.warn(`[LiveStream] Missed ${event.topic} events, resubscribing`);
+      this.handleDrop(source);
+      return;
+    }
+    if (result !== 'applied') return;
+
+    this.attempts = 0;
+    this.setLive(event.topic, true);
+    this.handlers.onItems(event.topic, store.values());
+  }
+
+  /** Close a failed or stalled stream, reconnect with backoff and start the fallback clock. */
+  private handleDrop(source: EventSource): void {
+    if (source !== this.source) return;
+    this.closeSource();
+    for (const store of this.stores.values()) store.reset();
+    this.scheduleFallback();
+
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.attempts);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private scheduleFallback(): void {
+    if (this.fallbackTimer || this.live.size === 0) return;
+    this.fallbackTimer = setTimeout(() => {
+      this.fallbackTimer = null;
+      for (const topic of [...this.live]) {
+        if (!this.stores.get(topic)?.ready) this.setLive(topic, false);
+      }
+    }, FALLBACK_GRACE_MS);
+  }
+
+  private touch(source: EventSource): void {
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    this.stallTimer = setTimeout(() => this.handleDrop(source), STALL_TIMEOUT_MS);
+  }
+
+  private closeSource(): void {
+    this.source?.close();
+    this.source = null;
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.stallTimer = null;
+    this.reconnectTimer = null;
+  }
+
+  private setLive(topic: LiveTopic, live: boolean): void {
+    if (this.live.has(topic) === live) return;
+    if (live) this.live.add(topic);
+    else this.live.delete(topic);
+    this.handlers.onStatus(topic, live);
+  }
+}
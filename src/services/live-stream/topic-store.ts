@@ -0,0 +1,86 @@
+/**
+ * Client side of the relay's live stream protocol (scripts/live-stream.cjs).
+ *
+ * Each topic gets a snapshot when the stream connects and numbered deltas
+ * after that. A store applies them in order; a delta that skips a sequence
+ * number means an event was lost, and the caller reconnects for a fresh
+ * snapshot rather than render a partial list.
+ */
+
+export type LiveTopic = 'ais-disruptions' | 'ais-density' | 'vessel-events' | 'earthquakes' | 'military-flights';
+
+export const LIVE_TOPICS: LiveTopic[] = ['ais-disruptions', 'ais-density', 'vessel-events', 'earthquakes', 'military-flights'];
+
+export interface LiveItem {
+  id: string;
+}
+
+export type LiveStreamEvent<T extends LiveItem = LiveItem> =
+  | { type: 'snapshot'; topic: LiveTopic; seq: number; items: T[] }
+  | { type: 'delta'; topic: LiveTopic; seq: number; upserts: T[]; removes: string[] };
+
+/** applied: items changed; stale: already seen; gap: events were missed, resync. */
+export type ApplyResult = 'applied' | 'stale' | 'gap';
+
+export function isLiveTopic(value: string): value is LiveTopic {
+  return (LIVE_TOPICS as string[]).includes(value);
+}
+
+/** Validate a decoded SSE payload; null for anything that isn't a well-formed event. */
+export function parseLiveEvent(data: unknown): LiveStreamEvent | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Record<string, unknown>;
+  if (typeof raw.topic !== 'string' || !isLiveTopic(raw.topic)) return null;
+  if (typeof raw.seq !== 'number' || !Number.isInteger(raw.seq) || raw.seq < 0) return null;
+  if (raw.type === 'snapshot' && Array.isArray(raw.items)) {
+    return { type: 'snapshot', topic: raw.topic, seq: raw.seq, items: raw.items as LiveItem[] };
+  }
+  if (raw.type === 'delta' && Array.isArray(raw.upserts) && Array.isArray(raw.removes)) {
+    return {
+      type: 'delta',
+      topic: raw.topic,
+      seq: raw.seq,
+      upserts: raw.upserts as LiveItem[],
+      removes: raw.removes.map(String),
+    };
+  }
+  return null;
+}
+
+export class LiveTopicStore<T extends LiveItem = LiveItem> {
+  private items = new Map<string, T>();
+  /** Sequence of the last applied event; -1 until a snapshot arrives. */
+  private seq = -1;
+
+  get ready(): boolean {
+    return this.seq >= 0;
+  }
+
+  apply(event: LiveStreamEvent<T>): ApplyResult {
+    if (event.type === 'snapshot') {
+      this.items = new Map(event.items.filter((item) => item?.id).map((item) => [item.id, item]));
+      this.seq = event.seq;
+      return 'applied';
+    }
+
+    if (!this.ready) return 'gap';
+    if (event.seq <= this.seq) return 'stale';
+    if (event.seq !== this.seq + 1) return 'gap';
+
+    for (const id of event.removes) this.items.delete(id);
+    for (const item of event.upserts) {
+      if (item?.id) this.items.set(item.id, item);
+    }
+    this.seq = event.seq;
+    return 'applied';
+  }
+
+  values(): T[] {
+    return [...this.items.values()];
+  }
+
+  reset(): void {
+    this.items.clear();
+    this.seq = -1;
+  }
+}
@@ -2,10 +2,11 @@ import {
   MaritimeServiceClient,
   type AisDensityZone as ProtoDensityZone,
   type AisDisruption as ProtoDisruption,
+  type AisVesselEvent as ProtoVesselEvent,
   type GetVesselSnapshotResponse,
 } from '@/generated/client/worldmonitor/maritime/v1/service_client';
 import { createCircuitBreaker } from '@/utils';
-import type { AisDisruptionEvent, AisDensityZone, AisDisruptionType } from '@/types';
+import type { AisDisruptionEvent, AisDensityZone, AisDisruptionType, AisVesselEvent, AisVesselEventType } from '@/types';
 import { dataFreshness } from '../data-freshness';
 import { isFeatureAvailable } from '../runtime-config';
 
@@ -43,6 +44,35 @@ function toDisruptionEvent(proto: ProtoDisruption): AisDisruptionEvent {
   };
 }
 
+const VESSEL_EVENT_TYPE_REVERSE: Record<string, AisVesselEventType> = {
+  AIS_VESSEL_EVENT_TYPE_AIS_GAP: 'ais_gap',
+  AIS_VESSEL_EVENT_TYPE_LOITERING: 'loitering',
+  AIS_VESSEL_EVENT_TYPE_RENDEZVOUS: 'rendezvous',
+  AIS_VESSEL_EVENT_TYPE_SPEED_ANOMALY: 'speed_anomaly',
+  AIS_VESSEL_EVENT_TYPE_COURSE_ANOMALY: 'course_anomaly',
+};
+
+function toVesselEvent(proto: ProtoVesselEvent): AisVesselEvent {
+  return {
+    id: proto.id,
+    type: VESSEL_EVENT_TYPE_REVERSE[proto.type] || 'ais_gap',
+    mmsi: proto.mmsi,
+    name: proto.vesselName,
+    shipType: proto.shipType || undefined,
+    otherMmsi: proto.otherMmsi || undefined,
+    otherName: proto.otherVesselName || undefined,
+    lat: proto.location?.latitude ?? 0,
+    lon: proto.location?.longitude ?? 0,
+    startedAt: proto.startedAt,
+    endedAt: proto.endedAt,
+    ongoing: proto.ongoing,
+    waterway: proto.waterway || undefined,
+    distanceKm: proto.distanceKm,
+    severity: SEVERITY_REVERSE[proto.severity] || 'low',
+    description: proto.description,
+  };
+}
+
 function toDensityZone(proto: ProtoDensityZone): AisDensityZone {
   return {
     id: proto.id,
@@ -100,6 +130,7 @@ interface AisSnapshotResponse {
   };
   disruptions?: AisDisruptionEvent[];
   density?: AisDensityZone[];
+  vesselEvents?: AisVesselEvent[];
   candidateReports?: SnapshotCandidateReport[];
 }
 
@@ -119,6 +150,7 @@ let lastSequence = 0;
 
 let latestDisruptions: AisDisruptionEvent[] = [];
 let latestDensity: AisDensityZone[] = [];
+let latestVesselEvents: AisVesselEvent[] = [];
 let latestStatus: SnapshotStatus = {
   connected: false,
   vessels: 0,
@@ -153,6 +185,7 @@ function parseSnapshot(data: unknown): {
   status: SnapshotStatus;
   disruptions: AisDisruptionEvent[];
   density: AisDensityZone[];
+  vesselEvents: AisVesselEvent[];
   candidateReports: SnapshotCandidateReport[];
 } | null {
   if (!data || typeof data !== 'object') return null;
@@ -170,6 +203,8 @@ function parseSnapshot(data: unknown): {
     },
     disruptions: raw.disruptions,
     density: raw.density,
+    // Older relays do not send vessel events.
+    vesselEvents: Array.isArray(raw.vesselEvents) ? raw.vesselEvents : [],
     candidateReports: Array.isArray(raw.candidateReports) ? raw.candidateReports : [],
   };
 }
@@ -221,6 +256,7 @@ async function fetchSnapshotPayload(includeCandidates: boolean): Promise<unknown
         status: { connected: true, vessels: 0, messages: 0 },
         disruptions: response.snapshot.disruptions.map(toDisruptionEvent),
         density: response.snapshot.densityZones.map(toDensityZone),
+        vesselEvents: (response.snapshot.vesselEvents ?? []).map(toVesselEvent),
         candidateReports: [],
       };
     }
@@ -310,6 +346,7 @@ async function pollSnapshot(force = false): Promise<void> {
 
     latestDisruptions = snapshot.disruptions;
     latestDensity = snapshot.density;
+    latestVesselEvents = snapshot.vesselEvents;
     latestStatus = snapshot.status;
     lastPollAt = Date.now();
 
@@ -412,9 +449,13 @@ export function getAisStatus(): { connected: boolean; vessels: number; messages:
   };
 }
 
-export async function fetchAisSignals(): Promise<{ disruptions: AisDisruptionEvent[]; density: AisDensityZone[] }> {
+export async function fetchAisSignals(): Promise<{
+  disruptions: AisDisruptionEvent[];
+  density: AisDensityZone[];
+  vesselEvents: AisVesselEvent[];
+}> {
   if (!aisConfigured) {
-    return { disruptions: [], density: [] };
+    return { disruptions: [], density: [], vesselEvents: [] };
   }
 
   startPolling();
@@ -426,5 +467,6 @@ export async function fetchAisSignals(): Promise<{ disruptions: AisDisruptionEve
   return {
     disruptions: latestDisruptions,
     density: latestDensity,
+    vesselEvents: latestVesselEvents,
   };
 }
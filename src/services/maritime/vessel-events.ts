@@ -0,0 +1,72 @@
+/**
+ * Correlation signals for the relay's per-vessel AIS events (dark gaps,
+ * loitering, rendezvous and chokepoint anomalies). Each event raises one
+ * signal per session, once it reaches elevated severity; low-severity
+ * events stay on the map only.
+ */
+
+import { addToSignalHistory, type CorrelationSignal } from '@/services/correlation';
+import { generateSignalId } from '@/utils/analysis-constants';
+import type { AisVesselEvent, AisVesselEventType } from '@/types';
+
+const EVENT_TITLES: Record<AisVesselEventType, string> = {
+  ais_gap: 'AIS gap',
+  loitering: 'Loitering',
+  rendezvous: 'Rendezvous at sea',
+  speed_anomaly: 'Sudden stop',
+  course_anomaly: 'Course reversal',
+};
+
+const SEVERITY_CONFIDENCE: Record<AisVesselEvent['severity'], number> = {
+  low: 0.4,
+  elevated: 0.6,
+  high: 0.75,
+};
+
+const signalledEvents = new Set<string>();
+
+function vesselName(name: string | undefined, mmsi: string | undefined): string {
+  return name?.trim() || `MMSI ${mmsi}`;
+}
+
+function vesselEventSignal(event: AisVesselEvent): CorrelationSignal {
+  const subject = event.type === 'rendezvous'
+    ? `${vesselName(event.name, event.mmsi)} and ${vesselName(event.otherName, event.otherMmsi)}`
+    : vesselName(event.name, event.mmsi);
+  return {
+    id: generateSignalId(),
+    type: 'vessel_anomaly',
+    title: `${EVENT_TITLES[event.type]}: ${subject}${event.waterway ? ` near ${event.waterway}` : ''}`,
+    description: event.description,
+    confidence: SEVERITY_CONFIDENCE[event.severity],
+    timestamp: new Date(event.endedAt || Date.now()),
+    data: {
+      mmsi: event.mmsi,
+      lat: event.lat,
+      lon: event.lon,
+      explanation: event.ongoing
+        ? `Ongoing since ${new Date(event.startedAt).toUTCString()}.`
+        : `Observed ${new Date(event.startedAt).toUTCString()} to ${new Date(event.endedAt).toUTCString()}.`,
+    },
+  };
+}
+
+/**
+ * Raise signals for vessel events not signalled yet. Returns the new signals.
+ */
+export function recordVesselEvents(events: AisVesselEvent[]): CorrelationSignal[] {
+  const current = new Set(events.map(e => e.id));
+  // Forget events the relay no longer reports so the set stays bounded.
+  for (const id of signalledEvents) {
+    if (!current.has(id)) signalledEvents.delete(id);
+  }
+
+  const signals: CorrelationSignal[] = [];
+  for (const event of events) {
+    if (event.severity === 'low' || signalledEvents.has(event.id)) continue;
+    signalledEvents.add(event.id);
+    signals.push(vesselEventSignal(event));
+  }
+  if (signals.length > 0) addToSignalHistory(signals);
+  return signals;
+}
@@ -9,6 +9,10 @@ import {
   MarketServiceClient,
   type ListMarketQuotesResponse,
   type ListCryptoQuotesResponse,
+  type GetPriceHistoryResponse,
+  type PriceCandle,
+  type PriceAssetClass as ProtoPriceAssetClass,
+  type PriceResolution as ProtoPriceResolution,
   type MarketQuote as ProtoMarketQuote,
   type CryptoQuote as ProtoCryptoQuote,
 } from '@/generated/client/worldmonitor/market/v1/service_client';
@@ -20,6 +24,7 @@ import { createCircuitBreaker } from '@/utils';
 const client = new MarketServiceClient('', { fetch: (...args: Parameters<typeof fetch>) => globalThis.fetch(...args) });
 const stockBreaker = createCircuitBreaker<ListMarketQuotesResponse>({ name: 'Market Quotes', cacheTtlMs: 0 });
 const cryptoBreaker = createCircuitBreaker<ListCryptoQuotesResponse>({ name: 'Crypto Quotes' });
+const historyBreaker = createCircuitBreaker<GetPriceHistoryResponse>({ name: 'Price History', cacheTtlMs: 0 });
 
 const emptyStockFallback: ListMarketQuotesResponse = { quotes: [], finnhubSkipped: false, skipReason: '' };
 const emptyCryptoFallback: ListCryptoQuotesResponse = { quotes: [] };
@@ -135,3 +140,89 @@ export async function fetchCrypto(): Promise<CryptoData[]> {
 
   return lastSuccessfulCrypto;
 }
+
+// ========================================================================
+// Price history -- OHLCV candles for sparklines and charts
+// ========================================================================
+
+export type { PriceCandle };
+export type PriceResolution = '1m' | '5m' | '1h' | '1d';
+export type PriceAssetClass = 'stock' | 'commodity' | 'crypto';
+
+export interface PriceHistory {
+  symbol: string;
+  /** Resolution actually served; crypto is never finer than 5m. */
+  resolution: PriceResolution;
+  currency: string;
+  provider: string;
+  candles: PriceCandle[];
+}
+
+const RESOLUTION_TO_PROTO: Record<PriceResolution, ProtoPriceResolution> = {
+  '1m': 'PRICE_RESOLUTION_1M',
+  '5m': 'PRICE_RESOLUTION_5M',
+  '1h': 'PRICE_RESOLUTION_1H',
+  '1d': 'PRICE_RESOLUTION_1D',
+};
+
+const ASSET_CLASS_TO_PROTO: Record<PriceAssetClass, ProtoPriceAssetClass> = {
+  stock: 'PRICE_ASSET_CLASS_STOCK',
+  commodity: 'PRICE_ASSET_CLASS_COMMODITY',
+  crypto: 'PRICE_ASSET_CLASS_CRYPTO',
+};
+
+/** Client-side reuse window per resolution; matches the server's Redis TTLs. */
+const HISTORY_TTL_MS: Record<PriceResolution, number> = {
+  '1m': 60_000,
+  '5m': 120_000,
+  '1h': 600_000,
+  '1d': 3_600_000,
+};
+
+const historyCache = new Map<string, { data: PriceHistory; at: number }>();
+const historyInFlight = new Map<string, Promise<PriceHistory>>();
+
+function fromProtoResolution(resolution: ProtoPriceResolution, requested: PriceResolution): PriceResolution {
+  const match = (Object.keys(RESOLUTION_TO_PROTO) as PriceResolution[]).find(r => RESOLUTION_TO_PROTO[r] === resolution);
+  return match ?? requested;
+}
+
+/**
+ * OHLCV candles, oldest first. Stocks and commodities are Yahoo Finance
+ * tickers, crypto is a CoinGecko ID. Resolves to an empty series when the
+ * upstream is unavailable.
+ */
+export async function fetchPriceHistory(
+  symbol: string,
+  resolution: PriceResolution = '1d',
+  assetClass?: PriceAssetClass,
+): Promise<PriceHistory> {
+  const key = `${assetClass ?? ''}:${symbol}:${resolution}`;
+  const cached = historyCache.get(key);
+  if (cached && Date.now() - cached.at < HISTORY_TTL_MS[resolution]) return cached.data;
+  const pending = historyInFlight.get(key);
+  if (pending) return pending;
+
+  const empty: GetPriceHistoryResponse = {
+    symbol, resolution: RESOLUTION_TO_PROTO[resolution], currency: '', provider: '', candles: [],
+  };
+  const request = historyBreaker.execute(async () => client.getPriceHistory({
+    symbol,
+    resolution: RESOLUTION_TO_PROTO[resolution],
+    assetClass: assetClass ? ASSET_CLASS_TO_PROTO[assetClass] : 'PRICE_ASSET_CLASS_UNSPECIFIED',
+  }), empty).then((resp) => {
+    const data: PriceHistory = {
+      symbol,
+      resolution: fromProtoResolution(resp.resolution, resolution),
+      currency: resp.currency,
+      provider: resp.provider,
+      candles: resp.candles ?? [],
+    };
+    // Keep a previous good series rather than replacing it with an empty one.
+    if (data.candles.length > 0 || !cached) historyCache.set(key, { data, at: Date.now() });
+    return data.candles.length > 0 ? data : (cached?.data ?? data);
+  }).finally(() => historyInFlight.delete(key));
+
+  historyInFlight.set(key, request);
+  return request;
+}
@@ -543,6 +543,38 @@ export async function fetchMilitaryFlights(): Promise<{
   }, { flights: [], clusters: [] });
 }
 
+/** One query region's raw OpenSky states, as pushed on the live stream's `military-flights` topic. */
+export interface LiveFlightRegion {
+  id: string;
+  time: number;
+  states: OpenSkyStateArray[] | null;
+}
+
+/**
+ * Classify streamed regions the same way fetchMilitaryFlights does and refresh
+ * its cache, so the next poll and getFlightByHex see the streamed positions.
+ */
+export async function militaryFlightsFromLiveRegions(regions: LiveFlightRegion[]): Promise<{
+  flights: MilitaryFlight[];
+  clusters: MilitaryFlightCluster[];
+}> {
+  let flights: MilitaryFlight[] = [];
+  const seenHexCodes = new Set<string>();
+  for (const region of regions) {
+    const regionFlights = parseOpenSkyResponse({ time: region.time, states: region.states });
+    regionCache.set(region.id, { flights: regionFlights, timestamp: Date.now() });
+    for (const flight of regionFlights) {
+      if (seenHexCodes.has(flight.hexCode)) continue;
+      seenHexCodes.add(flight.hexCode);
+      flights.push(flight);
+    }
+  }
+
+  flights = await enrichFlightsWithWingbits(flights);
+  flightCache = { data: flights, timestamp: Date.now() };
+  return { flights, clusters: clusterFlights(flights) };
+}
+
 /**
  * Get status of military flights tracking
  */
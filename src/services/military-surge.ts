@@ -377,6 +377,10 @@ export function analyzeFlightsForSurge(flights: MilitaryFlight[]): SurgeAlert[]
   return newAlerts;
 }
 
+export function getSurgeTheaters(): Array<{ id: string; name: string }> {
+  return THEATERS.map(({ id, name }) => ({ id, name }));
+}
+
 export function getActiveSurges(): SurgeAlert[] {
   return Array.from(activeSurges.values());
 }
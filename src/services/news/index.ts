@@ -1,15 +1,136 @@
 /**
  * Unified news service module.
  *
- * RSS feed parsing stays client-side (requires DOMParser).
+ * Feed polling, parsing, classification and clustering run server-side via
+ * the ListNewsClusters RPC (fetchNewsDigest). Client-side RSS parsing
+ * (requires DOMParser) remains the fallback when the RPC is unavailable.
  * Summarization stays via existing edge functions (Groq/OpenRouter).
- * This module re-exports from the legacy files and will migrate
- * to sebuf RPCs as those handlers get implemented.
  */
 
+import type { ClusteredEvent, NewsItem } from '@/types';
+import type { ThreatClassification, ThreatLevel } from '@/services/threat-classifier';
+import {
+  NewsServiceClient,
+  type NewsItem as ProtoNewsItem,
+  type ThreatClassification as ProtoThreatClassification,
+} from '@/generated/client/worldmonitor/news/v1/service_client';
+import { dataFreshness } from '../data-freshness';
+import { ingestHeadlines } from '../trending-keywords';
+
 // RSS feed fetching (client-side with DOMParser)
 export { fetchFeed, fetchCategoryFeeds, getFeedFailures } from '../rss';
 
 // Summarization (client-side with Groq/OpenRouter/Browser T5 fallback)
 export { generateSummary, translateText } from '../summarization';
 export type { SummarizationResult, SummarizationProvider, ProgressCallback } from '../summarization';
+
+// ---- Server-side digest (ListNewsClusters) ----
+
+export interface NewsCategoryDigest {
+  items: NewsItem[];
+  clusters: ClusteredEvent[];
+  failedSources: string[];
+}
+
+const client = new NewsServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+// After a failure (e.g. a static deploy without the RPC) stay on the client
+// path for a while instead of paying for a failed request on every refresh.
+const DIGEST_COOLDOWN_MS = 5 * 60 * 1000;
+let digestUnavailableUntil = 0;
+
+const PROTO_LEVELS: Record<string, ThreatLevel> = {
+  THREAT_LEVEL_CRITICAL: 'critical',
+  THREAT_LEVEL_HIGH: 'high',
+  THREAT_LEVEL_MEDIUM: 'medium',
+  THREAT_LEVEL_LOW: 'low',
+};
+
+function toThreat(threat: ProtoThreatClassification | undefined): ThreatClassification | undefined {
+  if (!threat) return undefined;
+  return {
+    level: PROTO_LEVELS[threat.level] ?? 'info',
+    category: threat.category as ThreatClassification['category'],
+    confidence: threat.confidence,
+    source: 'keyword',
+  };
+}
+
+function toNewsItem(item: ProtoNewsItem): NewsItem {
+  return {
+    source: item.source,
+    title: item.title,
+    link: item.link,
+    pubDate: new Date(item.publishedAt),
+    isAlert: item.isAlert,
+    threat: toThreat(item.threat),
+    ...(item.location && { lat: item.location.latitude, lon: item.location.longitude }),
+    ...(item.locationName && { locationName: item.locationName }),
+    ...(item.lang && { lang: item.lang }),
+  };
+}
+
+/**
+ * Fetch server-aggregated news for the given categories. Returns null when
+ * the RPC is unavailable so callers can fall back to fetchCategoryFeeds.
+ * Categories the server doesn't know, or is still polling on a cold cache,
+ * are absent from the returned map.
+ */
+export async function fetchNewsDigest(options: {
+  variant: string;
+  lang: string;
+  categories: string[];
+  disabledSources: Iterable<string>;
+}): Promise<Map<string, NewsCategoryDigest> | null> {
+  if (Date.now() < digestUnavailableUntil) return null;
+
+  let resp;
+  try {
+    resp = await client.listNewsClusters({
+      variant: options.variant,
+      lang: options.lang,
+      categories: options.categories,
+      disabledSources: [...options.disabledSources],
+    });
+  } catch (error) {
+    console.warn('[News] ListNewsClusters unavailable, using client-side feeds:', error);
+    digestUnavailableUntil = Date.now() + DIGEST_COOLDOWN_MS;
+    return null;
+  }
+
+  const digests = new Map<string, NewsCategoryDigest>();
+  let totalItems = 0;
+  for (const digest of resp.categories ?? []) {
+    const items = (digest.items ?? []).map(toNewsItem);
+    const clusters: ClusteredEvent[] = (digest.clusters ?? []).map(cluster => ({
+      id: cluster.id,
+      primaryTitle: cluster.primaryTitle,
+      primarySource: cluster.primarySource,
+      primaryLink: cluster.primaryLink,
+      sourceCount: cluster.sourceCount,
+      topSources: cluster.topSources ?? [],
+      allItems: (cluster.itemIndexes ?? [])
+        .map(index => items[index])
+        .filter((item): item is NewsItem => item !== undefined),
+      firstSeen: new Date(cluster.firstSeen),
+      lastUpdated: new Date(cluster.lastUpdated),
+      isAlert: cluster.isAlert,
+      threat: toThreat(cluster.threat),
+      ...(cluster.location && { lat: cluster.location.latitude, lon: cluster.location.longitude }),
+      ...(cluster.lang && { lang: cluster.lang }),
+    }));
+    digests.set(digest.category, { items, clusters, failedSources: digest.failedSources ?? [] });
+    totalItems += items.length;
+
+    // The server replaces fetchFeed, so feed trending keywords from here.
+    ingestHeadlines(items.map(item => ({
+      title: item.title,
+      pubDate: item.pubDate,
+      source: item.source,
+      link: item.link,
+    })));
+  }
+
+  if (totalItems > 0) dataFreshness.recordUpdate('rss', totalItems);
+  return digests;
+}
@@ -0,0 +1,73 @@
+/**
+ * JSON encoding for server-stored playback snapshots.
+ *
+ * Layer data and news clusters carry Date fields that plain JSON would turn
+ * into strings, so Dates are tagged on the way out and revived on the way in.
+ * Large layers are trimmed so a snapshot stays under the server payload limit.
+ */
+
+const DATE_TAG = '$date';
+
+export const MAX_ITEMS_PER_LAYER = 1500;
+export const MAX_NEWS_PER_CATEGORY = 40;
+export const MAX_ITEMS_PER_CLUSTER = 5;
+
+export function encodeSnapshot(snapshot: unknown): string {
+  return JSON.stringify(snapshot, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.getTime() } : value;
+  });
+}
+
+export function decodeSnapshot<T>(payload: string): T {
+  return JSON.parse(payload, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const tagged = value as Record<string, unknown>;
+      const keys = Object.keys(tagged);
+      if (keys.length === 1 && keys[0] === DATE_TAG && typeof tagged[DATE_TAG] === 'number') {
+        return new Date(tagged[DATE_TAG]);
+      }
+    }
+    return value;
+  }) as T;
+}
+
+/**
+ * Copy of a record (layer data, news by category) with every array, top
+ * level or one object deep, cut to maxItems entries.
+ */
+export function trimArrays<T extends object>(data: T, maxItems = MAX_ITEMS_PER_LAYER): T {
+  const cap = (value: unknown): unknown => (Array.isArray(value) && value.length > maxItems ? value.slice(0, maxItems) : value);
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      out[key] = cap(value);
+    } else if (value && typeof value === 'object') {
+      out[key] = Object.fromEntries(Object.entries(value).map(([k, v]) => [k, cap(v)]));
+    } else {
+      out[key] = value;
+    }
+  }
+  return out as T;
+}
+
+export interface TimelineEntry {
+  timestamp: number;
+  source: 'local' | 'server';
+}
+
+/**
+ * Merge local and server snapshot times into one timeline (oldest first).
+ * When both hold a snapshot for the same 15-minute bucket the server copy
+ * wins, since it carries map layer data.
+ */
+export function mergeTimeline(local: number[], server: number[], bucketMs = 15 * 60 * 1000): TimelineEntry[] {
+  const byBucket = new Map<number, TimelineEntry>();
+  for (const timestamp of local) {
+    byBucket.set(Math.floor(timestamp / bucketMs), { timestamp, source: 'local' });
+  }
+  for (const timestamp of server) {
+    byBucket.set(Math.floor(timestamp / bucketMs), { timestamp, source: 'server' });
+  }
+  return [...byBucket.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,80 @@
+/**
+ * Server-backed historical playback.
+ *
+ * Snapshots are recorded to the playback service every 15 minutes alongside
+ * the local IndexedDB copy, so the timeline can reach back past the local
+ * 7-day window and across browsers. The server only accepts recordings from
+ * clients holding a WorldMonitor API key; everyone else reads the shared timeline.
+ */
+
+import {
+  PlaybackServiceClient,
+  type ListSnapshotsResponse,
+  type SnapshotEntry,
+} from '@/generated/client/worldmonitor/playback/v1/service_client';
+import { SITE_VARIANT } from '@/config';
+import type { DashboardSnapshot } from '@/services/storage';
+import type { ClusteredEvent } from '@/types';
+import {
+  decodeSnapshot,
+  encodeSnapshot,
+  trimArrays,
+  MAX_ITEMS_PER_CLUSTER,
+  MAX_NEWS_PER_CATEGORY,
+} from './codec';
+
+export type { ListSnapshotsResponse, SnapshotEntry };
+export { mergeTimeline, type TimelineEntry } from './codec';
+
+const client = new PlaybackServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+// Recording needs an API key; without one the server refuses every upload, so stop trying
+let recordingRefused = false;
+
+/** Upload a snapshot. Resolves false when the bucket is already filled or the service is unreachable. */
+export async function recordServerSnapshot(snapshot: DashboardSnapshot): Promise<boolean> {
+  if (recordingRefused) return false;
+  const payload = encodeSnapshot({
+    ...snapshot,
+    events: (snapshot.events as ClusteredEvent[]).map(c => ({ ...c, allItems: c.allItems.slice(0, MAX_ITEMS_PER_CLUSTER) })),
+    newsByCategory: snapshot.newsByCategory ? trimArrays(snapshot.newsByCategory, MAX_NEWS_PER_CATEGORY) : undefined,
+    layerData: snapshot.layerData ? trimArrays(snapshot.layerData) : undefined,
+  });
+  try {
+    const resp = await client.recordSnapshot({ timestamp: snapshot.timestamp, payload, variant: SITE_VARIANT });
+    if (resp.reason === 'unauthorized') {
+      recordingRefused = true;
+      return false;
+    }
+    if (!resp.recorded && resp.reason !== 'duplicate') {
+      console.warn(`[Playback] Server snapshot rejected: ${resp.reason}`);
+    }
+    return resp.recorded;
+  } catch (error) {
+    console.warn('[Playback] Server snapshot upload failed:', error);
+    return false;
+  }
+}
+
+// Responses depend on the requested range/time, so these bypass the
+// single-entry circuit-breaker cache and fail soft to the local timeline.
+
+export async function listServerSnapshots(from: number, to: number): Promise<ListSnapshotsResponse | null> {
+  try {
+    return await client.listSnapshots({ from, to, limit: 0, variant: SITE_VARIANT });
+  } catch (error) {
+    console.warn('[Playback] Server snapshot list unavailable:', error);
+    return null;
+  }
+}
+
+/** Snapshot recorded closest to timestamp (within 15 minutes), or null. */
+export async function fetchServerSnapshot(timestamp: number): Promise<DashboardSnapshot | null> {
+  try {
+    const resp = await client.getSnapshot({ timestamp, variant: SITE_VARIANT });
+    return resp.found ? decodeSnapshot<DashboardSnapshot>(resp.payload) : null;
+  } catch (error) {
+    console.warn('[Playback] Server snapshot unavailable:', error);
+    return null;
+  }
+}
@@ -38,6 +38,8 @@ interface EventForExposure {
   type: string;
   lat: number;
   lon: number;
+  /** Overrides the per-type default, e.g. a custom layer's proximity radius. */
+  radiusKm?: number;
 }
 
 function getRadiusForEventType(type: string): number {
@@ -70,7 +72,7 @@ export async function enrichEventsWithExposure(
     const batch = events.slice(i, i + MAX_CONCURRENT);
     const batchResults = await Promise.allSettled(
       batch.map(async (event) => {
-        const radius = getRadiusForEventType(event.type);
+        const radius = event.radiusKm ?? getRadiusForEventType(event.type);
         const exposure = await fetchExposure(event.lat, event.lon, radius);
         if (!exposure) return null;
         return {
@@ -0,0 +1,204 @@
+/**
+ * Cross-venue prediction market aggregation.
+ *
+ * Pure helpers shared by the browser and the server: matching markets that
+ * ask the same question on different venues, blending their odds by volume,
+ * and measuring how odds moved over a window. Prices here are on the 0-1
+ * scale used by the proto.
+ */
+
+export type PredictionVenue = 'polymarket' | 'kalshi' | 'manifold' | 'metaculus';
+
+export const PREDICTION_VENUES: PredictionVenue[] = ['polymarket', 'kalshi', 'manifold', 'metaculus'];
+
+export const VENUE_LABELS: Record<PredictionVenue, string> = {
+  polymarket: 'Polymarket',
+  kalshi: 'Kalshi',
+  manifold: 'Manifold',
+  metaculus: 'Metaculus',
+};
+
+export interface VenueQuote {
+  venue: PredictionVenue;
+  id: string;
+  title: string;
+  /** "Yes" price, 0-1. */
+  yesPrice: number;
+  /** In the venue's own unit; see venueWeight. */
+  volume: number;
+  url?: string;
+}
+
+export interface OddsPoint {
+  timestamp: number;
+  /** "Yes" price, 0-1. */
+  yesPrice: number;
+  volume: number;
+}
+
+/** Minimum questionSimilarity for two markets to count as the same question. */
+export const MATCH_THRESHOLD = 0.55;
+
+/** Manifold volume is play-money mana, worth about a cent. */
+const MANA_TO_USD = 0.01;
+/** Metaculus has no volume; each forecaster counts as this much USD. */
+const FORECASTER_USD = 100;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'will', 'be', 'is', 'are', 'of', 'in', 'on', 'at', 'to', 'by', 'for',
+  'before', 'end', 'and', 'or', 'as', 'its', 'this', 'that', 'than', 'with', 'from', 'any',
+  'does', 'do', 'there', 'what', 'who', 'which', 'next', 'question', 'market',
+]);
+
+const YEAR_RE = /^(19|20)\d\d$/;
+
+export function oddsKey(venue: PredictionVenue | string, id: string): string {
+  return `${venue}:${id}`;
+}
+
+export function isPredictionVenue(value: string): value is PredictionVenue {
+  return (PREDICTION_VENUES as string[]).includes(value);
+}
+
+/**
+ * Lowercased content words of a market question, without punctuation or
+ * stopwords. Plural "s" is dropped so "rate cut" and "cuts rates" agree.
+ */
+export function normalizeQuestion(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .replace(/[^a-z0-9%.\s]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/**
+ * Jaccard similarity of two questions' content words, 0-1. Questions naming
+ * different years never match: "... in 2025?" and "... in 2026?" are
+ * separate contracts however alike the wording.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const ta = new Set(normalizeQuestion(a));
+  const tb = new Set(normalizeQuestion(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+
+  const yearsA = [...ta].filter((w) => YEAR_RE.test(w));
+  const yearsB = [...tb].filter((w) => YEAR_RE.test(w));
+  if (yearsA.length > 0 && yearsB.length > 0 && !yearsA.some((y) => tb.has(y))) return 0;
+
+  let shared = 0;
+  for (const w of ta) if (tb.has(w)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Match markets from other venues to the primary markets. Pairs are taken
+ * best-first, so each other-venue market joins at most one primary market
+ * and each primary market takes at most one market per venue. Returns the
+ * matches keyed by the primary market's oddsKey.
+ */
+export function matchVenueMarkets(
+  primary: VenueQuote[],
+  others: VenueQuote[],
+  threshold = MATCH_THRESHOLD,
+): Map<string, VenueQuote[]> {
+  const pairs: Array<{ p: VenueQuote; o: VenueQuote; score: number }> = [];
+  for (const p of primary) {
+    for (const o of others) {
+      if (o.venue === p.venue) continue;
+      const score = questionSimilarity(p.title, o.title);
+      if (score >= threshold) pairs.push({ p, o, score });
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<string, VenueQuote[]>();
+  const taken = new Set<string>();
+  for (const { p, o } of pairs) {
+    const otherKey = oddsKey(o.venue, o.id);
+    if (taken.has(otherKey)) continue;
+    const primaryKey = oddsKey(p.venue, p.id);
+    const matched = matches.get(primaryKey) ?? [];
+    if (matched.some((m) => m.venue === o.venue)) continue;
+    matched.push(o);
+    matches.set(primaryKey, matched);
+    taken.add(otherKey);
+  }
+  return matches;
+}
+
+/** Volume in USD-equivalent terms, used as the blending weight. */
+export function venueWeight(venue: PredictionVenue, volume: number): number {
+  const v = Number.isFinite(volume) && volume > 0 ? volume : 0;
+  if (venue === 'manifold') return v * MANA_TO_USD;
+  if (venue === 'metaculus') return v * FORECASTER_USD;
+  // Polymarket volume is USD; Kalshi contracts settle at $1.
+  return v;
+}
+
+/** Volume-weighted "Yes" price across venues, or a plain mean when no venue reports volume. */
+export function blendOdds(quotes: Array<Pick<VenueQuote, 'venue' | 'yesPrice' | 'volume'>>): number {
+  if (quotes.length === 0) return 0;
+  let total = 0;
+  let weighted = 0;
+  for (const q of quotes) {
+    const w = venueWeight(q.venue, q.volume);
+    total += w;
+    weighted += w * q.yesPrice;
+  }
+  if (total > 0) return weighted / total;
+  return quotes.reduce((sum, q) => sum + q.yesPrice, 0) / quotes.length;
+}
+
+/**
+ * Blend several venues' odds histories into one series. At each recorded
+ * timestamp, every venue contributes its latest point at or before it,
+ * weighted by that point's volume. Blended points carry the USD-equivalent
+ * total as their volume; a single series is returned as is.
+ */
+export function blendSeries(series: Array<{ venue: PredictionVenue; points: OddsPoint[] }>): OddsPoint[] {
+  const sorted = series
+    .map((s) => ({ venue: s.venue, points: [...s.points].sort((a, b) => a.timestamp - b.timestamp) }))
+    .filter((s) => s.points.length > 0);
+  if (sorted.length === 0) return [];
+  if (sorted.length === 1) return sorted[0]!.points;
+
+  const timestamps = [...new Set(sorted.flatMap((s) => s.points.map((p) => p.timestamp)))].sort((a, b) => a - b);
+  const cursors = sorted.map(() => -1);
+  const blended: OddsPoint[] = [];
+  for (const ts of timestamps) {
+    const quotes: Array<Pick<VenueQuote, 'venue' | 'yesPrice' | 'volume'>> = [];
+    sorted.forEach((s, i) => {
+      while (cursors[i]! + 1 < s.points.length && s.points[cursors[i]! + 1]!.timestamp <= ts) cursors[i]!++;
+      const point = s.points[cursors[i]!];
+      if (point) quotes.push({ venue: s.venue, yesPrice: point.yesPrice, volume: point.volume });
+    });
+    blended.push({
+      timestamp: ts,
+      yesPrice: blendOdds(quotes),
+      volume: quotes.reduce((sum, q) => sum + venueWeight(q.venue, q.volume), 0),
+    });
+  }
+  return blended;
+}
+
+/**
+ * Change in "Yes" price over the window ending at the latest point, measured
+ * from the last point at or before the window start (or the first point when
+ * the history is shorter). Null with fewer than two points.
+ */
+export function oddsDelta(points: OddsPoint[], windowMs: number): number | null {
+  if (points.length < 2) return null;
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const last = sorted[sorted.length - 1]!;
+  const start = last.timestamp - windowMs;
+  let base = sorted[0]!;
+  for (const p of sorted) {
+    if (p.timestamp > start) break;
+    base = p;
+  }
+  return base === last ? null : last.yesPrice - base.yesPrice;
+}
@@ -3,13 +3,35 @@ import { createCircuitBreaker } from '@/utils';
 import { SITE_VARIANT } from '@/config';
 import { isDesktopRuntime } from '@/services/runtime';
 import { tryInvokeTauri } from '@/services/tauri-bridge';
+import { attachOddsHistory } from './odds';
+import type { PredictionVenue } from './aggregate';
+
+export * from './aggregate';
+export { SHIFT_WINDOW_MS } from './odds';
+
+/** One venue's quote for a question listed on several venues. */
+export interface VenueOdds {
+  venue: PredictionVenue;
+  title: string;
+  yesPrice: number;     // 0-100 scale
+  volume: number;       // venue's own unit, see venueWeight
+  url?: string;
+}
 
 // Consumer-friendly type (re-export, matches legacy shape)
 export interface PredictionMarket {
+  id?: string;
+  venue?: PredictionVenue;
   title: string;
-  yesPrice: number;     // 0-100 scale (legacy compat)
+  yesPrice: number;     // 0-100 scale (legacy compat); volume-weighted blend when venues is set
   volume?: number;
   url?: string;
+  /** Quotes from every venue listing the question, when more than one does. */
+  venues?: VenueOdds[];
+  /** Recorded odds on the 0-100 scale, oldest first. */
+  history?: Array<{ timestamp: number; yesPrice: number }>;
+  /** Change in yesPrice over the past day, in points, from the recorded history. */
+  shift?: number;
 }
 
 // Internal Gamma API interfaces
@@ -253,6 +275,8 @@ async function fetchTopMarkets(): Promise<PredictionMarket[]> {
       const yesPrice = parseMarketPrice(m);
       const volume = m.volumeNum ?? (m.volume ? parseFloat(m.volume) : 0);
       return {
+        id: m.slug,
+        venue: 'polymarket' as const,
         title: m.question,
         yesPrice,
         volume,
@@ -289,6 +313,9 @@ export async function fetchPredictions(): Promise<PredictionMarket[]> {
 
           const yesPrice = parseMarketPrice(topMarket);
           markets.push({
+            // The sebuf fallback wraps bare markets in a slug-less pseudo-event
+            id: event.slug ? event.id : topMarket.slug,
+            venue: 'polymarket',
             title: topMarket.question || event.title,
             yesPrice,
             volume: eventVolume,
@@ -296,6 +323,8 @@ export async function fetchPredictions(): Promise<PredictionMarket[]> {
           });
         } else {
           markets.push({
+            id: event.id,
+            venue: 'polymarket',
             title: event.title,
             yesPrice: 50,
             volume: eventVolume,
@@ -330,7 +359,7 @@ export async function fetchPredictions(): Promise<PredictionMarket[]> {
       throw new Error('No markets returned — upstream may be down');
     }
 
-    return result;
+    return attachOddsHistory(result);
   }, []);
 }
 
@@ -0,0 +1,162 @@
+/**
+ * Prediction market odds history and cross-venue blending.
+ *
+ * Every refresh records each market's odds in a local history (one point per
+ * 15-minute bucket, kept for a week in the persistent cache) and merges it
+ * with the server-side history from GetMarketOddsHistory, which fills the
+ * gaps while the dashboard was closed. Markets that Kalshi, Manifold or
+ * Metaculus also list are matched by question and blended by volume.
+ */
+
+import { PredictionServiceClient } from '@/generated/client/worldmonitor/prediction/v1/service_client';
+import { getPersistentCache, setPersistentCache } from '@/services/persistent-cache';
+import {
+  blendOdds,
+  blendSeries,
+  isPredictionVenue,
+  matchVenueMarkets,
+  oddsDelta,
+  oddsKey,
+  type OddsPoint,
+  type VenueQuote,
+} from './aggregate';
+import type { PredictionMarket } from './index';
+
+const CACHE_KEY = 'prediction-odds:v1';
+const BUCKET_MS = 15 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MARKETS = 300;
+/** GetMarketOddsHistory accepts at most this many keys. */
+const MAX_HISTORY_KEYS = 50;
+/** Window for PredictionMarket.shift. */
+export const SHIFT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const client = new PredictionServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+const histories = new Map<string, OddsPoint[]>();
+let loadPromise: Promise<void> | null = null;
+
+function loadHistories(): Promise<void> {
+  loadPromise ??= getPersistentCache<Array<[string, OddsPoint[]]>>(CACHE_KEY)
+    .then((entry) => {
+      for (const [key, points] of Array.isArray(entry?.data) ? entry.data : []) {
+        if (typeof key === 'string' && Array.isArray(points) && !histories.has(key)) histories.set(key, points);
+      }
+    })
+    .catch((err) => console.warn('[Prediction] Failed to load odds history:', err));
+  return loadPromise;
+}
+
+function pruneHistories(now: number): void {
+  const cutoff = now - RETENTION_MS;
+  for (const [key, points] of histories) {
+    const kept = points.filter((p) => p.timestamp >= cutoff);
+    if (kept.length === 0) histories.delete(key);
+    else histories.set(key, kept);
+  }
+  if (histories.size <= MAX_MARKETS) return;
+  const byRecency = [...histories.entries()].sort((a, b) => b[1][b[1].length - 1]!.timestamp - a[1][a[1].length - 1]!.timestamp);
+  for (const [key] of byRecency.slice(MAX_MARKETS)) histories.delete(key);
+}
+
+function recordQuotes(quotes: VenueQuote[], now: number): void {
+  const bucket = Math.floor(now / BUCKET_MS) * BUCKET_MS;
+  for (const q of quotes) {
+    const key = oddsKey(q.venue, q.id);
+    const points = histories.get(key) ?? [];
+    const point = { timestamp: bucket, yesPrice: q.yesPrice, volume: q.volume };
+    if (points[points.length - 1]?.timestamp === bucket) points[points.length - 1] = point;
+    else points.push(point);
+    histories.set(key, points);
+  }
+  pruneHistories(now);
+  void setPersistentCache(CACHE_KEY, [...histories.entries()]);
+}
+
+/** Union of two histories by bucket; local points win where both have one. */
+function mergePoints(local: OddsPoint[], remote: OddsPoint[]): OddsPoint[] {
+  const byBucket = new Map<number, OddsPoint>();
+  for (const p of remote) byBucket.set(Math.floor(p.timestamp / BUCKET_MS) * BUCKET_MS, p);
+  for (const p of local) byBucket.set(Math.floor(p.timestamp / BUCKET_MS) * BUCKET_MS, p);
+  return [...byBucket.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function toQuote(m: PredictionMarket): VenueQuote | null {
+  if (!m.id || !m.venue) return null;
+  return { venue: m.venue, id: m.id, title: m.title, yesPrice: m.yesPrice / 100, volume: m.volume ?? 0, url: m.url };
+}
+
+async function fetchOtherVenues(): Promise<VenueQuote[]> {
+  try {
+    const resp = await client.listCrossVenueMarkets({ query: '', limit: 100 });
+    return resp.markets
+      .filter((m) => m.venue !== 'polymarket' && isPredictionVenue(m.venue))
+      .map((m) => ({
+        venue: m.venue as VenueQuote['venue'],
+        id: m.id,
+        title: m.title,
+        yesPrice: m.yesPrice,
+        volume: m.volume,
+        url: m.url || undefined,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+async function fetchServerHistories(keys: string[], since: number): Promise<Map<string, OddsPoint[]>> {
+  const result = new Map<string, OddsPoint[]>();
+  if (keys.length === 0) return result;
+  try {
+    const resp = await client.getMarketOddsHistory({ marketKeys: keys, since });
+    for (const h of resp.histories) result.set(h.marketKey, h.points);
+  } catch { /* history is best-effort; local points still apply */ }
+  return result;
+}
+
+/**
+ * Record the markets' current odds, then attach venue breakdowns, blended
+ * odds, trajectories and 24h shifts. Markets without an id or venue pass
+ * through unchanged.
+ */
+export async function attachOddsHistory(markets: PredictionMarket[]): Promise<PredictionMarket[]> {
+  await loadHistories();
+  const now = Date.now();
+  const primary = markets.map(toQuote).filter((q): q is VenueQuote => q !== null);
+  if (primary.length === 0) return markets;
+
+  const others = await fetchOtherVenues();
+  const matches = matchVenueMarkets(primary, others);
+  recordQuotes([...primary, ...[...matches.values()].flat()], now);
+
+  const keys: string[] = [];
+  for (const q of primary) {
+    const key = oddsKey(q.venue, q.id);
+    for (const k of [key, ...(matches.get(key) ?? []).map((m) => oddsKey(m.venue, m.id))]) {
+      if (keys.length < MAX_HISTORY_KEYS && !keys.includes(k)) keys.push(k);
+    }
+  }
+  const remote = await fetchServerHistories(keys, now - RETENTION_MS);
+  const seriesOf = (q: VenueQuote) => {
+    const key = oddsKey(q.venue, q.id);
+    return { venue: q.venue, points: mergePoints(histories.get(key) ?? [], remote.get(key) ?? []) };
+  };
+
+  return markets.map((m) => {
+    const quote = toQuote(m);
+    if (!quote) return m;
+    const matched = matches.get(oddsKey(quote.venue, quote.id)) ?? [];
+    const quotes = [quote, ...matched];
+    const series = blendSeries(quotes.map(seriesOf));
+    const shift = oddsDelta(series, SHIFT_WINDOW_MS);
+    return {
+      ...m,
+      ...(matched.length > 0 && {
+        yesPrice: blendOdds(quotes) * 100,
+        venues: quotes.map((q) => ({ venue: q.venue, title: q.title, yesPrice: q.yesPrice * 100, volume: q.volume, url: q.url })),
+      }),
+      history: series.map((p) => ({ timestamp: p.timestamp, yesPrice: p.yesPrice * 100 })),
+      ...(shift !== null && { shift: shift * 100 }),
+    };
+  });
+}
@@ -0,0 +1,654 @@
+/**
+ * Intelligence report composition.
+ *
+ * Section builders turn data the caller has already gathered into report
+ * blocks; the renderers number every citation once, in order of first use,
+ * and anchor each marker to a closing Sources list. Dependency-free so the
+ * self-hosted server's scheduler (server/reports/generate.ts) renders the
+ * same documents as the browser and desktop app.
+ */
+
+export type ReportFormat = 'html' | 'markdown' | 'pdf';
+export type ReportCadence = 'off' | 'daily' | 'weekly';
+
+export const REPORT_SECTIONS = [
+  'worldBrief',
+  'ciiMovers',
+  'theaterPosture',
+  'surges',
+  'cascadeRisks',
+  'marketRadar',
+  'predictionShifts',
+  'countries',
+] as const;
+export type ReportSectionId = typeof REPORT_SECTIONS[number];
+
+export interface ReportSchedule {
+  cadence: ReportCadence;
+  /** Local hour of day, 0-23. */
+  hour: number;
+  /** 0 = Sunday. Weekly cadence only. */
+  weekday: number;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  sections: ReportSectionId[];
+  /** ISO 3166-1 alpha-2 codes for the countries section. */
+  countries: string[];
+  format: ReportFormat;
+  schedule: ReportSchedule;
+  createdAt: number;
+  lastRunAt?: number;
+  /** Prediction odds at the last run, keyed by market title, for the shifts section. */
+  lastOdds?: Record<string, number>;
+}
+
+export interface ReportCitation {
+  title: string;
+  source?: string;
+  url?: string;
+}
+
+export interface ReportListItem {
+  text: string;
+  cites?: ReportCitation[];
+}
+
+export interface ReportTableRow {
+  cells: string[];
+  cites?: ReportCitation[];
+}
+
+export type ReportBlock =
+  /** With `inline`, `[n]` markers in the text refer to `cites[n-1]`; otherwise all cites follow the text. */
+  | { kind: 'text'; text: string; cites?: ReportCitation[]; inline?: boolean }
+  | { kind: 'list'; items: ReportListItem[] }
+  | { kind: 'table'; columns: string[]; rows: ReportTableRow[] };
+
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface Report {
+  title: string;
+  generatedAt: Date;
+  cadence: ReportCadence;
+  sections: ReportSection[];
+}
+
+export const REPORT_SECTION_TITLES: Record<ReportSectionId, string> = {
+  worldBrief: 'World Brief',
+  ciiMovers: 'Top CII Movers',
+  theaterPosture: 'Theater Posture',
+  surges: 'Military Surges',
+  cascadeRisks: 'Infrastructure Cascade Risks',
+  marketRadar: 'Market Radar',
+  predictionShifts: 'Prediction Market Shifts',
+  countries: 'Countries',
+};
+
+const CII_CITE: ReportCitation = { title: 'Country Instability Index', source: 'World Monitor' };
+const POSTURE_CITE: ReportCitation = { title: 'Military flight and vessel tracking (ADS-B, AIS)', source: 'World Monitor' };
+const CASCADE_CITE: ReportCitation = { title: 'Infrastructure dependency model', source: 'World Monitor' };
+const MACRO_CITE: ReportCitation = { title: 'Macro signals (FRED, Yahoo Finance, mempool.space, alternative.me)', source: 'World Monitor' };
+
+// ---- Templates and schedules ----
+
+const DEFAULT_SCHEDULE: ReportSchedule = { cadence: 'off', hour: 7, weekday: 1 };
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+}
+
+/** Validate an untrusted (stored or uploaded) template. Returns null if unusable. */
+export function normalizeTemplate(raw: unknown): ReportTemplate | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const t = raw as Partial<ReportTemplate>;
+  if (typeof t.id !== 'string' || !t.id || typeof t.name !== 'string' || !t.name.trim()) return null;
+  const sections = Array.isArray(t.sections)
+    ? REPORT_SECTIONS.filter(id => t.sections!.includes(id))
+    : [];
+  if (sections.length === 0) return null;
+  const schedule: Partial<ReportSchedule> = t.schedule && typeof t.schedule === 'object' ? t.schedule : {};
+  const cadence: ReportCadence = schedule.cadence === 'daily' || schedule.cadence === 'weekly' ? schedule.cadence : 'off';
+  return {
+    id: t.id,
+    name: t.name.trim().slice(0, 120),
+    sections,
+    countries: Array.isArray(t.countries)
+      ? [...new Set(t.countries.filter((c): c is string => typeof c === 'string' && /^[A-Za-z]{2}$/.test(c)).map(c => c.toUpperCase()))]
+      : [],
+    format: t.format === 'markdown' || t.format === 'pdf' ? t.format : 'html',
+    schedule: {
+      cadence,
+      hour: clampInt(schedule.hour, 0, 23, DEFAULT_SCHEDULE.hour),
+      weekday: clampInt(schedule.weekday, 0, 6, DEFAULT_SCHEDULE.weekday),
+    },
+    createdAt: typeof t.createdAt === 'number' ? t.createdAt : Date.now(),
+    ...(typeof t.lastRunAt === 'number' && { lastRunAt: t.lastRunAt }),
+    ...(t.lastOdds && typeof t.lastOdds === 'object' && { lastOdds: t.lastOdds }),
+  };
+}
+
+/** Next scheduled run strictly after `after` (local time), or null when unscheduled. */
+export function nextRunAt(schedule: ReportSchedule, after: number): number | null {
+  if (schedule.cadence === 'off') return null;
+  const next = new Date(after);
+  next.setHours(schedule.hour, 0, 0, 0);
+  if (schedule.cadence === 'weekly') {
+    next.setDate(next.getDate() + ((schedule.weekday - next.getDay() + 7) % 7));
+    if (next.getTime() <= after) next.setDate(next.getDate() + 7);
+  } else if (next.getTime() <= after) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/** True once the first scheduled time after the last run (or creation) has passed. */
+export function isReportDue(template: ReportTemplate, now: number): boolean {
+  const next = nextRunAt(template.schedule, template.lastRunAt ?? template.createdAt);
+  return next !== null && next <= now;
+}
+
+// ---- Section builders ----
+
+function text(value: string, cites?: ReportCitation[], inline?: boolean): ReportBlock {
+  return { kind: 'text', text: value, ...(cites?.length && { cites }), ...(inline && { inline }) };
+}
+
+function signed(value: number, digits = 0): string {
+  const rounded = value.toFixed(digits);
+  return value > 0 ? `+${rounded}` : rounded;
+}
+
+export interface ReportStory {
+  title: string;
+  source: string;
+  url: string;
+}
+
+function storyCite(story: ReportStory): ReportCitation {
+  return { title: story.title, source: story.source, url: story.url };
+}
+
+export function worldBriefSection(brief: string | null, stories: ReportStory[]): ReportSection {
+  const cites = stories.map(storyCite);
+  const blocks: ReportBlock[] = [
+    brief?.trim()
+      ? text(brief.trim(), cites)
+      : text('No AI world brief was available when this report was generated; the leading stories follow.'),
+  ];
+  if (stories.length > 0) {
+    blocks.push({ kind: 'list', items: stories.map(s => ({ text: `${s.title} (${s.source})`, cites: [storyCite(s)] })) });
+  }
+  return { id: 'worldBrief', title: REPORT_SECTION_TITLES.worldBrief, blocks };
+}
+
+export interface ReportCIIMover {
+  code: string;
+  name: string;
+  score: number;
+  level: string;
+  /** Change over the last 24 hours. */
+  change: number;
+}
+
+/** 24h change against the oldest recorded score inside the window (history ascending), or null without one. */
+export function ciiChange24h(current: number, history: Array<{ timestamp: number; score: number }>, now: number): number | null {
+  const baseline = history.find(p => p.timestamp >= now - 24 * 60 * 60 * 1000);
+  return baseline ? Math.round((current - baseline.score) * 10) / 10 : null;
+}
+
+export function ciiMoversSection(movers: ReportCIIMover[], limit = 10): ReportSection {
+  const moving = movers
+    .filter(m => Math.abs(m.change) >= 0.5)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || b.score - a.score)
+    .slice(0, limit);
+  const blocks: ReportBlock[] = moving.length === 0
+    ? [text('No country’s instability score moved materially in the last 24 hours.', [CII_CITE])]
+    : [
+      text('Largest 24-hour moves in the Country Instability Index.', [CII_CITE]),
+      {
+        kind: 'table',
+        columns: ['Country', 'CII', 'Level', '24h'],
+        rows: moving.map(m => ({ cells: [`${m.name} (${m.code})`, String(Math.round(m.score)), m.level, signed(m.change, 1)] })),
+      },
+    ];
+  return { id: 'ciiMovers', title: REPORT_SECTION_TITLES.ciiMovers, blocks };
+}
+
+export interface ReportTheaterPosture {
+  name: string;
+  level: 'normal' | 'elevated' | 'critical' | string;
+  aircraft: number;
+  vessels: number;
+  strikeCapable: boolean;
+  summary?: string;
+}
+
+const POSTURE_RANK: Record<string, number> = { critical: 2, elevated: 1 };
+
+export function theaterPostureSection(theaters: ReportTheaterPosture[]): ReportSection {
+  const active = theaters
+    .filter(t => t.aircraft + t.vessels > 0 || POSTURE_RANK[t.level])
+    .sort((a, b) => (POSTURE_RANK[b.level] ?? 0) - (POSTURE_RANK[a.level] ?? 0) || b.aircraft - a.aircraft);
+  const blocks: ReportBlock[] = active.length === 0
+    ? [text('No military activity was being tracked in the monitored theaters.', [POSTURE_CITE])]
+    : [
+      text(`${active.filter(t => POSTURE_RANK[t.level]).length} of ${active.length} active theaters at elevated or critical posture.`, [POSTURE_CITE]),
+      {
+        kind: 'table',
+        columns: ['Theater', 'Posture', 'Aircraft', 'Vessels', 'Notes'],
+        rows: active.map(t => ({
+          cells: [t.name, t.level.toUpperCase(), String(t.aircraft), String(t.vessels), t.strikeCapable ? 'Strike-capable package' : (t.summary ?? '')],
+        })),
+      },
+    ];
+  return { id: 'theaterPosture', title: REPORT_SECTION_TITLES.theaterPosture, blocks };
+}
+
+export interface ReportSurge {
+  theater: string;
+  type: string;
+  current: number;
+  baseline: number;
+  multiple: number;
+}
+
+export function surgesSection(surges: ReportSurge[]): ReportSection {
+  const sorted = [...surges].sort((a, b) => b.multiple - a.multiple);
+  const blocks: ReportBlock[] = sorted.length === 0
+    ? [text('No airlift, fighter or reconnaissance surges above baseline.', [POSTURE_CITE])]
+    : [{
+      kind: 'list',
+      items: sorted.map(s => ({
+        text: `${s.theater}: ${s.type} surge, ${s.current} aircraft against a baseline of ${s.baseline} (${s.multiple.toFixed(1)}×)`,
+        cites: [POSTURE_CITE],
+      })),
+    }];
+  return { id: 'surges', title: REPORT_SECTION_TITLES.surges, blocks };
+}
+
+export interface ReportCascadeRisk {
+  title: string;
+  summary: string;
+  priority: string;
+  countries: string[];
+}
+
+export function cascadeRisksSection(risks: ReportCascadeRisk[]): ReportSection {
+  const blocks: ReportBlock[] = risks.length === 0
+    ? [text('No infrastructure cascade alerts in the last 24 hours.', [CASCADE_CITE])]
+    : [{
+      kind: 'list',
+      items: risks.map(r => ({
+        text: `[${r.priority.toUpperCase()}] ${r.title}: ${r.summary}${r.countries.length ? ` Affects ${r.countries.join(', ')}.` : ''}`,
+        cites: [CASCADE_CITE],
+      })),
+    }];
+  return { id: 'cascadeRisks', title: REPORT_SECTION_TITLES.cascadeRisks, blocks };
+}
+
+export interface ReportMarketRadar {
+  verdict: string;
+  bullish: number;
+  total: number;
+  signals: Array<{ name: string; status: string; value?: string }>;
+}
+
+/** The parts of a GetMacroSignals response the radar reads. */
+export interface MacroSignalsLike {
+  verdict: string;
+  bullishCount: number;
+  totalCount: number;
+  unavailable: boolean;
+  signals?: {
+    liquidity?: { status: string; value?: number };
+    flowStructure?: { status: string; btcReturn5?: number; qqqReturn5?: number };
+    macroRegime?: { status: string; qqqRoc20?: number; xlpRoc20?: number };
+    technicalTrend?: { status: string; btcPrice?: number };
+    hashRate?: { status: string; change30d?: number };
+    miningCost?: { status: string };
+    fearGreed?: { status: string; value?: number };
+  };
+}
+
+function fmt(value: number | undefined, suffix = ''): string {
+  return value == null || !Number.isFinite(value) ? '' : `${Math.round(value * 100) / 100}${suffix}`;
+}
+
+export function marketRadarFromMacro(resp: MacroSignalsLike | null): ReportMarketRadar | null {
+  if (!resp || resp.unavailable || !resp.signals) return null;
+  const s = resp.signals;
+  const signals: ReportMarketRadar['signals'] = [];
+  const add = (name: string, signal: { status: string } | undefined, value = '') => {
+    if (signal) signals.push({ name, status: signal.status, value });
+  };
+  add('Liquidity (JPY 30d ROC)', s.liquidity, fmt(s.liquidity?.value, '%'));
+  add('Flow structure (5d)', s.flowStructure, s.flowStructure ? `BTC ${fmt(s.flowStructure.btcReturn5, '%')} / QQQ ${fmt(s.flowStructure.qqqReturn5, '%')}` : '');
+  add('Macro regime (20d ROC)', s.macroRegime, s.macroRegime ? `QQQ ${fmt(s.macroRegime.qqqRoc20, '%')} / XLP ${fmt(s.macroRegime.xlpRoc20, '%')}` : '');
+  add('BTC trend', s.technicalTrend, s.technicalTrend?.btcPrice != null ? `$${Math.round(s.technicalTrend.btcPrice).toLocaleString('en-US')}` : '');
+  add('Hash rate (30d)', s.hashRate, fmt(s.hashRate?.change30d, '%'));
+  add('Mining cost', s.miningCost);
+  add('Fear & Greed', s.fearGreed, fmt(s.fearGreed?.value));
+  return { verdict: resp.verdict, bullish: resp.bullishCount, total: resp.totalCount, signals };
+}
+
+export function marketRadarSection(radar: ReportMarketRadar | null): ReportSection {
+  const blocks: ReportBlock[] = !radar
+    ? [text('Market radar data was unavailable.')]
+    : [
+      text(`Overall verdict: ${radar.verdict} (${radar.bullish} of ${radar.total} signals bullish).`, [MACRO_CITE]),
+      {
+        kind: 'table',
+        columns: ['Signal', 'Status', 'Value'],
+        rows: radar.signals.map(s => ({ cells: [s.name, s.status, s.value ?? ''] })),
+      },
+    ];
+  return { id: 'marketRadar', title: REPORT_SECTION_TITLES.marketRadar, blocks };
+}
+
+export interface ReportPrediction {
+  title: string;
+  /** 0-100. */
+  yesPrice: number;
+  volume?: number;
+  url?: string;
+}
+
+/** Odds keyed by market title, stored with the template for the next run's shifts. */
+export function oddsSnapshot(markets: ReportPrediction[]): Record<string, number> {
+  return Object.fromEntries(markets.map(m => [m.title, Math.round(m.yesPrice * 10) / 10]));
+}
+
+export function predictionShiftsSection(markets: ReportPrediction[], previous?: Record<string, number>, limit = 10): ReportSection {
+  const rows = markets.map(m => ({ market: m, change: previous?.[m.title] != null ? m.yesPrice - previous[m.title]! : null }));
+  const ranked = previous
+    ? rows.filter(r => r.change !== null && Math.abs(r.change) >= 1).sort((a, b) => Math.abs(b.change!) - Math.abs(a.change!))
+    : rows.sort((a, b) => (b.market.volume ?? 0) - (a.market.volume ?? 0));
+  const top = ranked.slice(0, limit);
+
+  const intro = previous
+    ? (top.length ? 'Largest odds moves since the previous report.' : 'No market moved by a point or more since the previous report.')
+    : 'Highest-volume markets. Moves are reported from the next run of this template.';
+  const blocks: ReportBlock[] = [text(intro)];
+  if (top.length > 0) {
+    blocks.push({
+      kind: 'table',
+      columns: ['Market', 'Yes', 'Change'],
+      rows: top.map(({ market, change }) => ({
+        cells: [market.title, `${Math.round(market.yesPrice)}%`, change === null ? '' : `${signed(change, 1)} pts`],
+        cites: [{ title: market.title, source: 'Polymarket', ...(market.url && { url: market.url }) }],
+      })),
+    });
+  }
+  return { id: 'predictionShifts', title: REPORT_SECTION_TITLES.predictionShifts, blocks };
+}
+
+export interface ReportCountry {
+  code: string;
+  name: string;
+  score?: number;
+  level?: string;
+  trend?: string;
+  change?: number;
+  brief?: string;
+  headlines: ReportStory[];
+}
+
+export function countriesSection(countries: ReportCountry[]): ReportSection {
+  const blocks: ReportBlock[] = [];
+  for (const c of countries) {
+    const facts = c.score != null
+      ? ` CII ${Math.round(c.score)}${c.level ? ` (${c.level}` : ''}${c.trend ? `, ${c.trend}` : ''}${c.level ? ')' : ''}${c.change ? `, ${signed(c.change, 1)} in 24h` : ''}.`
+      : '';
+    blocks.push(text(`${c.name} (${c.code}).${facts}`, c.score != null ? [CII_CITE] : undefined));
+    const cites = c.headlines.map(storyCite);
+    if (c.brief?.trim()) {
+      const brief = c.brief.trim();
+      blocks.push(text(brief, cites, /\[\d{1,2}\]/.test(brief)));
+    }
+    if (c.headlines.length > 0) {
+      blocks.push({ kind: 'list', items: c.headlines.map(h => ({ text: `${h.title} (${h.source})`, cites: [storyCite(h)] })) });
+    } else if (!c.brief?.trim()) {
+      blocks.push(text('No recent coverage.'));
+    }
+  }
+  return { id: 'countries', title: REPORT_SECTION_TITLES.countries, blocks };
+}
+
+/** Data gathered for a run. A missing entry means this environment cannot supply that section. */
+export interface ReportInputs {
+  worldBrief?: { brief: string | null; stories: ReportStory[] };
+  ciiMovers?: ReportCIIMover[];
+  theaterPosture?: ReportTheaterPosture[];
+  surges?: ReportSurge[];
+  cascadeRisks?: ReportCascadeRisk[];
+  marketRadar?: ReportMarketRadar | null;
+  predictions?: ReportPrediction[];
+  countries?: ReportCountry[];
+}
+
+function unavailableSection(id: ReportSectionId): ReportSection {
+  return { id, title: REPORT_SECTION_TITLES[id], blocks: [text('Not available where this report was generated.')] };
+}
+
+/** Assemble a template's sections, in the template's order. */
+export function buildReport(template: ReportTemplate, inputs: ReportInputs, generatedAt = new Date()): Report {
+  const sections = template.sections.map((id): ReportSection => {
+    switch (id) {
+      case 'worldBrief':
+        return inputs.worldBrief ? worldBriefSection(inputs.worldBrief.brief, inputs.worldBrief.stories) : unavailableSection(id);
+      case 'ciiMovers':
+        return inputs.ciiMovers ? ciiMoversSection(inputs.ciiMovers) : unavailableSection(id);
+      case 'theaterPosture':
+        return inputs.theaterPosture ? theaterPostureSection(inputs.theaterPosture) : unavailableSection(id);
+      case 'surges':
+        return inputs.surges ? surgesSection(inputs.surges) : unavailableSection(id);
+      case 'cascadeRisks':
+        return inputs.cascadeRisks ? cascadeRisksSection(inputs.cascadeRisks) : unavailableSection(id);
+      case 'marketRadar':
+        return inputs.marketRadar !== undefined ? marketRadarSection(inputs.marketRadar) : unavailableSection(id);
+      case 'predictionShifts':
+        return inputs.predictions ? predictionShiftsSection(inputs.predictions, template.lastOdds) : unavailableSection(id);
+      case 'countries':
+        if (template.countries.length === 0) {
+          return { id, title: REPORT_SECTION_TITLES[id], blocks: [text('No countries are selected in this template.')] };
+        }
+        return inputs.countries ? countriesSection(inputs.countries) : unavailableSection(id);
+    }
+  });
+  return { title: template.name, generatedAt, cadence: template.schedule.cadence, sections };
+}
+
+// ---- Rendering ----
+
+class CitationIndex {
+  readonly list: ReportCitation[] = [];
+  private numbers = new Map<string, number>();
+
+  number(cite: ReportCitation): number {
+    const key = cite.url || `${cite.source ?? ''}|${cite.title}`;
+    let n = this.numbers.get(key);
+    if (n === undefined) {
+      this.list.push(cite);
+      n = this.list.length;
+      this.numbers.set(key, n);
+    }
+    return n;
+  }
+}
+
+/** Text split into literal runs and citation numbers, resolving inline `[n]` markers. */
+function citedText(block: { text: string; cites?: ReportCitation[]; inline?: boolean }, index: CitationIndex): { parts: Array<string | number>; trailing: number[] } {
+  const cites = block.cites ?? [];
+  if (!block.inline) return { parts: [block.text], trailing: cites.map(c => index.number(c)) };
+  const parts: Array<string | number> = [];
+  let last = 0;
+  for (const match of block.text.matchAll(/\[(\d{1,2})\]/g)) {
+    const cite = cites[Number(match[1]) - 1];
+    if (!cite) continue;
+    parts.push(block.text.slice(last, match.index));
+    parts.push(index.number(cite));
+    last = match.index! + match[0].length;
+  }
+  parts.push(block.text.slice(last));
+  return { parts, trailing: [] };
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function subtitle(report: Report): string {
+  const cadence = report.cadence === 'daily' ? 'Daily report' : report.cadence === 'weekly' ? 'Weekly report' : 'Report';
+  return `${cadence} · Generated ${formatTimestamp(report.generatedAt)}`;
+}
+
+function mdEscape(value: string): string {
+  return value.replace(/([\\`*_[\]|<>])/g, '\\$1').replace(/\n+/g, ' ');
+}
+
+function mdCites(numbers: number[]): string {
+  return numbers.map(n => `[^${n}]`).join('');
+}
+
+export function renderMarkdown(report: Report): string {
+  const index = new CitationIndex();
+  const lines: string[] = [`# ${mdEscape(report.title)}`, '', `_${subtitle(report)}_`, ''];
+
+  for (const section of report.sections) {
+    lines.push(`## ${section.title}`, '');
+    for (const block of section.blocks) {
+      if (block.kind === 'text') {
+        const { parts, trailing } = citedText(block, index);
+        const body = parts.map(p => (typeof p === 'number' ? `[^${p}]` : p.split(/\n{2,}/).map(mdEscape).join('\n\n'))).join('');
+        lines.push(`${body}${mdCites(trailing)}`, '');
+      } else if (block.kind === 'list') {
+        for (const item of block.items) lines.push(`- ${mdEscape(item.text)}${mdCites((item.cites ?? []).map(c => index.number(c)))}`);
+        lines.push('');
+      } else {
+        lines.push(`| ${block.columns.map(mdEscape).join(' | ')} |`, `|${block.columns.map(() => ' --- ').join('|')}|`);
+        for (const row of block.rows) {
+          const cells = row.cells.map(mdEscape);
+          cells[0] = `${cells[0]}${mdCites((row.cites ?? []).map(c => index.number(c)))}`;
+          lines.push(`| ${cells.join(' | ')} |`);
+        }
+        lines.push('');
+      }
+    }
+  }
+
+  if (index.list.length > 0) {
+    lines.push('## Sources', '');
+    index.list.forEach((cite, i) => {
+      const label = `${mdEscape(cite.title)}${cite.source ? ` (${mdEscape(cite.source)})` : ''}`;
+      const url = safeUrl(cite.url);
+      lines.push(`[^${i + 1}]: ${label}${url ? ` <${url}>` : ''}`);
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function htmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function safeUrl(url: string | undefined): string | null {
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function htmlCites(numbers: number[]): string {
+  return numbers.map(n => `<sup class="cite"><a href="#src-${n}">[${n}]</a></sup>`).join('');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111; max-width: 820px; margin: 32px auto; padding: 0 16px; line-height: 1.5; }
+h1 { margin-bottom: 4px; }
+.subtitle { color: #666; margin-top: 0; }
+h2 { border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 32px; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+sup.cite a { text-decoration: none; color: #06c; }
+.sources { font-size: 13px; color: #333; }
+.sources a { word-break: break-all; }
+@media print { body { margin: 0; } h2 { break-after: avoid; } tr, li { break-inside: avoid; } }
+`;
+
+export function renderHtml(report: Report): string {
+  const index = new CitationIndex();
+  const body: string[] = [
+    `<h1>${htmlEscape(report.title)}</h1>`,
+    `<p class="subtitle">${htmlEscape(subtitle(report))}</p>`,
+  ];
+
+  for (const section of report.sections) {
+    body.push(`<section id="${section.id}"><h2>${htmlEscape(section.title)}</h2>`);
+    for (const block of section.blocks) {
+      if (block.kind === 'text') {
+        const { parts, trailing } = citedText(block, index);
+        const html = parts.map(p => (typeof p === 'number' ? htmlCites([p]) : htmlEscape(p))).join('');
+        body.push(...html.split(/\n{2,}/).map((para, i, all) => `<p>${para}${i === all.length - 1 ? htmlCites(trailing) : ''}</p>`));
+      } else if (block.kind === 'list') {
+        body.push('<ul>');
+        for (const item of block.items) body.push(`<li>${htmlEscape(item.text)}${htmlCites((item.cites ?? []).map(c => index.number(c)))}</li>`);
+        body.push('</ul>');
+      } else {
+        body.push('<table><thead><tr>', ...block.columns.map(c => `<th>${htmlEscape(c)}</th>`), '</tr></thead><tbody>');
+        for (const row of block.rows) {
+          const cites = htmlCites((row.cites ?? []).map(c => index.number(c)));
+          body.push(`<tr>${row.cells.map((cell, i) => `<td>${htmlEscape(cell)}${i === 0 ? cites : ''}</td>`).join('')}</tr>`);
+        }
+        body.push('</tbody></table>');
+      }
+    }
+    body.push('</section>');
+  }
+
+  if (index.list.length > 0) {
+    body.push('<section id="sources"><h2>Sources</h2><ol class="sources">');
+    index.list.forEach((cite, i) => {
+      const url = safeUrl(cite.url);
+      const label = `${htmlEscape(cite.title)}${cite.source ? ` <em>(${htmlEscape(cite.source)})</em>` : ''}`;
+      body.push(`<li id="src-${i + 1}">${label}${url ? ` <a href="${htmlEscape(url)}" target="_blank" rel="noopener">${htmlEscape(url)}</a>` : ''}</li>`);
+    });
+    body.push('</ol></section>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${htmlEscape(report.title)}</title><style>${HTML_STYLE}</style></head>
+<body>
+${body.join('\n')}
+</body></html>
+`;
+}
+
+/** `worldmonitor-<template>-<yyyy-mm-dd>` without an extension. */
+export function reportBaseName(report: Report): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'report';
+  return `worldmonitor-${slug}-${report.generatedAt.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Render for saving to disk. PDF needs a print engine, so unattended runs
+ * store print-ready HTML for PDF templates.
+ */
+export function renderReportFile(report: Report, format: ReportFormat): { filename: string; content: string; mimeType: string } {
+  if (format === 'markdown') {
+    return { filename: `${reportBaseName(report)}.md`, content: renderMarkdown(report), mimeType: 'text/markdown' };
+  }
+  return { filename: `${reportBaseName(report)}.html`, content: renderHtml(report), mimeType: 'text/html' };
+}
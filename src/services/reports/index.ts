@@ -0,0 +1,174 @@
+/**
+ * Intelligence report templates.
+ *
+ * Templates live in localStorage. The desktop app runs scheduled templates
+ * itself and saves each report to its app data folder; the self-hosted
+ * server keeps its own template store and schedule behind /api/reports,
+ * which the report builder manages when the app is served from one.
+ */
+
+import { STORAGE_KEYS } from '@/config';
+import { invokeTauri } from '@/services/tauri-bridge';
+import { generateId, loadFromStorage, saveToStorage } from '@/utils';
+import {
+  normalizeTemplate,
+  renderReportFile,
+  type Report,
+  type ReportFormat,
+  type ReportTemplate,
+} from './compose';
+
+export * from './compose';
+
+export type ReportTemplateInput = Pick<ReportTemplate, 'name' | 'sections' | 'countries' | 'format' | 'schedule'> & { id?: string };
+
+export interface ServerReportFile {
+  name: string;
+  templateId: string;
+  size: number;
+  createdAt: number;
+}
+
+const SERVER_REPORTS_API = '/api/reports';
+
+let templates: ReportTemplate[] = loadTemplates();
+const listeners = new Set<() => void>();
+
+function defaultTemplates(): ReportTemplate[] {
+  const now = Date.now();
+  return [
+    {
+      id: 'daily-brief',
+      name: 'Morning Brief',
+      sections: ['worldBrief', 'ciiMovers', 'theaterPosture', 'surges', 'marketRadar', 'predictionShifts'],
+      countries: [],
+      format: 'html',
+      schedule: { cadence: 'off', hour: 7, weekday: 1 },
+      createdAt: now,
+    },
+    {
+      id: 'weekly-summary',
+      name: 'Weekly Summary',
+      sections: ['worldBrief', 'ciiMovers', 'theaterPosture', 'cascadeRisks', 'marketRadar', 'predictionShifts'],
+      countries: [],
+      format: 'markdown',
+      schedule: { cadence: 'off', hour: 8, weekday: 1 },
+      createdAt: now,
+    },
+  ];
+}
+
+function loadTemplates(): ReportTemplate[] {
+  const stored = loadFromStorage<unknown>(STORAGE_KEYS.reportTemplates, null);
+  if (!Array.isArray(stored)) return defaultTemplates();
+  return stored.map(normalizeTemplate).filter((t): t is ReportTemplate => t !== null);
+}
+
+function commit(next: ReportTemplate[]): void {
+  templates = next;
+  saveToStorage(STORAGE_KEYS.reportTemplates, templates);
+  for (const listener of listeners) listener();
+}
+
+export function getReportTemplates(): ReportTemplate[] {
+  return templates;
+}
+
+export function getReportTemplate(id: string): ReportTemplate | undefined {
+  return templates.find(t => t.id === id);
+}
+
+/** Create or update a template. Throws if the input has no name or sections. */
+export function saveReportTemplate(input: ReportTemplateInput): ReportTemplate {
+  const existing = input.id ? getReportTemplate(input.id) : undefined;
+  const template = normalizeTemplate({
+    ...existing,
+    ...input,
+    id: existing?.id ?? generateId(),
+    createdAt: existing?.createdAt ?? Date.now(),
+  });
+  if (!template) throw new Error('A report template needs a name and at least one section');
+  commit(existing ? templates.map(t => (t.id === template.id ? template : t)) : [...templates, template]);
+  return template;
+}
+
+export function deleteReportTemplate(id: string): void {
+  commit(templates.filter(t => t.id !== id));
+}
+
+/**
+ * Record a run: `at` advances the schedule (scheduled runs only) and
+ * `lastOdds` is the baseline for the next report's prediction shifts.
+ */
+export function markReportRun(id: string, run: { at?: number; lastOdds?: Record<string, number> }): void {
+  commit(templates.map(t => (t.id === id
+    ? { ...t, ...(run.at !== undefined && { lastRunAt: run.at }), ...(run.lastOdds && { lastOdds: run.lastOdds }) }
+    : t)));
+}
+
+export function subscribeReportTemplates(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ---- Desktop ----
+
+/** Write a report into the desktop app's reports folder. Returns the saved path. */
+export async function saveReportToDisk(report: Report, format: ReportFormat): Promise<string> {
+  const { filename, content } = renderReportFile(report, format);
+  return invokeTauri<string>('save_report', { filename, content });
+}
+
+export async function openReportsFolder(): Promise<void> {
+  await invokeTauri<string>('open_reports_folder');
+}
+
+// ---- Self-hosted server ----
+
+async function serverRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(`${SERVER_REPORTS_API}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!resp.ok) {
+    const body = await resp.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error || `Report server returned ${resp.status}`);
+  }
+  return resp.json() as Promise<T>;
+}
+
+/** Templates scheduled on the self-hosted server, or null when not served by one. */
+export async function fetchServerReportTemplates(): Promise<ReportTemplate[] | null> {
+  try {
+    const { templates: list } = await serverRequest<{ templates: unknown[] }>('/templates');
+    return Array.isArray(list) ? list.map(normalizeTemplate).filter((t): t is ReportTemplate => t !== null) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function pushServerReportTemplate(template: ReportTemplate): Promise<ReportTemplate> {
+  const { template: saved } = await serverRequest<{ template: ReportTemplate }>(`/templates/${encodeURIComponent(template.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(template),
+  });
+  return saved;
+}
+
+export async function deleteServerReportTemplate(id: string): Promise<void> {
+  await serverRequest<{ ok: boolean }>(`/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function runServerReport(id: string): Promise<ServerReportFile> {
+  const { report } = await serverRequest<{ report: ServerReportFile }>(`/templates/${encodeURIComponent(id)}/run`, { method: 'POST' });
+  return report;
+}
+
+export async function listServerReports(): Promise<ServerReportFile[]> {
+  const { reports } = await serverRequest<{ reports: ServerReportFile[] }>('/files');
+  return reports;
+}
+
+export function serverReportUrl(file: ServerReportFile): string {
+  return `${SERVER_REPORTS_API}/files/${encodeURIComponent(file.name)}`;
+}
@@ -7,6 +7,7 @@ import { getPersistentCache, setPersistentCache } from './persistent-cache';
 import { dataFreshness } from './data-freshness';
 import { ingestHeadlines } from './trending-keywords';
 import { getCurrentLanguage } from './i18n';
+import { parseJsonFeed, parseTelegramFeed, type FeedEntry } from './custom-feeds/parse';
 
 // Per-feed circuit breaker: track failures and cooldowns
 const FEED_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes after failure
@@ -230,6 +231,36 @@ function extractImageUrl(item: Element): string | undefined {
   return undefined;
 }
 
+/** RSS/Atom entries via DOMParser; null when the document doesn't parse. */
+function parseXmlEntries(text: string): Array<FeedEntry & { element: Element }> | null {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.querySelector('parsererror')) return null;
+
+  let items = doc.querySelectorAll('item');
+  const isAtom = items.length === 0;
+  if (isAtom) items = doc.querySelectorAll('entry');
+
+  return Array.from(items)
+    .slice(0, 5)
+    .map((item) => {
+      const title = item.querySelector('title')?.textContent || '';
+      let link = '';
+      if (isAtom) {
+        const linkEl = item.querySelector('link[href]');
+        link = linkEl?.getAttribute('href') || '';
+      } else {
+        link = item.querySelector('link')?.textContent || '';
+      }
+
+      const pubDateStr = isAtom
+        ? (item.querySelector('published')?.textContent || item.querySelector('updated')?.textContent || '')
+        : (item.querySelector('pubDate')?.textContent || '');
+      const parsedDate = pubDateStr ? new Date(pubDateStr) : new Date();
+      const pubDate = Number.isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
+      return { title, link, pubDate, element: item };
+    });
+}
+
 export async function fetchFeed(feed: Feed): Promise<NewsItem[]> {
   if (feedCache.size > MAX_CACHE_ENTRIES / 2) cleanupCaches();
   const currentLang = getCurrentLanguage();
@@ -257,55 +288,38 @@ export async function fetchFeed(feed: Feed): Promise<NewsItem[]> {
     const response = await fetchWithProxy(url);
     if (!response.ok) throw new Error(`HTTP ${response.status}`);
     const text = await response.text();
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(text, 'text/xml');
 
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
+    const entries: Array<FeedEntry & { element?: Element }> | null = feed.format === 'json'
+      ? parseJsonFeed(text)
+      : feed.format === 'telegram'
+        ? parseTelegramFeed(text)
+        : parseXmlEntries(text);
+
+    if (!entries) {
       console.warn(`Parse error for ${feed.name}`);
       recordFeedFailure(feedScope);
       const persistent = await loadPersistentFeed(feedScope);
       return cached?.items || persistent || [];
     }
 
-    let items = doc.querySelectorAll('item');
-    const isAtom = items.length === 0;
-    if (isAtom) items = doc.querySelectorAll('entry');
-
-    const parsed = Array.from(items)
-      .slice(0, 5)
-      .map((item) => {
-        const title = item.querySelector('title')?.textContent || '';
-        let link = '';
-        if (isAtom) {
-          const linkEl = item.querySelector('link[href]');
-          link = linkEl?.getAttribute('href') || '';
-        } else {
-          link = item.querySelector('link')?.textContent || '';
-        }
-
-        const pubDateStr = isAtom
-          ? (item.querySelector('published')?.textContent || item.querySelector('updated')?.textContent || '')
-          : (item.querySelector('pubDate')?.textContent || '');
-        const parsedDate = pubDateStr ? new Date(pubDateStr) : new Date();
-        const pubDate = Number.isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
-        const threat = classifyByKeyword(title, SITE_VARIANT);
-        const isAlert = threat.level === 'critical' || threat.level === 'high';
-        const geoMatches = inferGeoHubsFromTitle(title);
-        const topGeo = geoMatches[0];
-
-        return {
-          source: feed.name,
-          title,
-          link,
-          pubDate,
-          isAlert,
-          threat,
-          ...(topGeo && { lat: topGeo.hub.lat, lon: topGeo.hub.lon, locationName: topGeo.hub.name }),
-          lang: feed.lang,
-          ...(SITE_VARIANT === 'happy' && { imageUrl: extractImageUrl(item) }),
-        };
-      });
+    const parsed = entries.map(({ title, link, pubDate, imageUrl, element }) => {
+      const threat = classifyByKeyword(title, SITE_VARIANT);
+      const isAlert = threat.level === 'critical' || threat.level === 'high';
+      const geoMatches = inferGeoHubsFromTitle(title);
+      const topGeo = geoMatches[0];
+
+      return {
+        source: feed.name,
+        title,
+        link,
+        pubDate,
+        isAlert,
+        threat,
+        ...(topGeo && { lat: topGeo.hub.lat, lon: topGeo.hub.lon, locationName: topGeo.hub.name }),
+        lang: feed.lang,
+        ...(SITE_VARIANT === 'happy' && { imageUrl: element ? extractImageUrl(element) : imageUrl }),
+      };
+    });
 
     feedCache.set(feedScope, { items: parsed, timestamp: Date.now() });
     void setPersistentCache(getPersistentFeedKey(feedScope), toSerializable(parsed));
@@ -0,0 +1,283 @@
+/**
+ * Sanctions screening.
+ *
+ * Sanctions lists are imported from their published files (see ./parse),
+ * one list per source, kept in the persistent cache and indexed locally
+ * (see ./screen). Military vessels and aircraft, vessels in AIS behaviour
+ * events and companies extracted from news clusters are screened on every
+ * refresh and again whenever the lists change. Matches are kept for the session, shown in popups and the
+ * sanctions panel, and each subject/party pair raises one sanctions_match
+ * signal per session.
+ */
+
+import { addToSignalHistory, type CorrelationSignal } from '@/services/correlation';
+import { extractEntitiesFromClusters } from '@/services/entity-extraction';
+import { getEntityIndex } from '@/services/entity-index';
+import { getPersistentCache, setPersistentCache } from '@/services/persistent-cache';
+import { generateSignalId } from '@/utils/analysis-constants';
+import type { AisVesselEvent, ClusteredEvent, MilitaryFlight, MilitaryVessel } from '@/types';
+import { SANCTIONS_SOURCE_LABELS, parseSanctionsFile, type SanctionsList, type SanctionsSource } from './parse';
+import {
+  buildSanctionsIndex,
+  screenAircraft,
+  screenName,
+  screenVessel,
+  type SanctionsIndex,
+  type SanctionsMatch,
+} from './screen';
+
+export * from './parse';
+export * from './screen';
+
+const CACHE_KEY = 'sanctions-lists:v1';
+/** Partial name matches are listed in the panel but do not raise signals. */
+const SIGNAL_MIN_SCORE = 0.6;
+const MAX_HITS = 500;
+
+export type SanctionsSubjectKind = 'vessel' | 'aircraft' | 'entity';
+
+export interface SanctionsHit {
+  /** '<kind>:<subject id>' */
+  key: string;
+  kind: SanctionsSubjectKind;
+  /** MMSI, ICAO hex or entity id. */
+  subjectId: string;
+  label: string;
+  lat?: number;
+  lon?: number;
+  /** Headline the entity was extracted from. */
+  context?: string;
+  matches: SanctionsMatch[];
+  firstSeen: number;
+  lastSeen: number;
+}
+
+let lists: SanctionsList[] = [];
+let index: SanctionsIndex = buildSanctionsIndex([]);
+let loadPromise: Promise<void> | null = null;
+const hits = new Map<string, SanctionsHit>();
+const signalledPairs = new Set<string>();
+const listeners = new Set<() => void>();
+/** Latest inputs, re-screened when the loaded lists change. */
+const lastScreened: {
+  vessels: MilitaryVessel[];
+  events: AisVesselEvent[];
+  flights: MilitaryFlight[];
+  clusters: ClusteredEvent[];
+} = { vessels: [], events: [], flights: [], clusters: [] };
+
+function loadLists(): Promise<void> {
+  loadPromise ??= getPersistentCache<SanctionsList[]>(CACHE_KEY)
+    .then((entry) => {
+      if (lists.length > 0) return;
+      lists = (Array.isArray(entry?.data) ? entry.data : []).filter(l => l?.source && Array.isArray(l.parties));
+      index = buildSanctionsIndex(lists);
+      if (lists.length === 0) return;
+      rescreen();
+      notify();
+    })
+    .catch((err) => console.warn('[Sanctions] Failed to load sanctions lists:', err));
+  return loadPromise;
+}
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+async function commit(next: SanctionsList[]): Promise<void> {
+  lists = next.sort((a, b) => a.source.localeCompare(b.source));
+  index = buildSanctionsIndex(lists);
+  // Matches against the previous lists no longer hold.
+  hits.clear();
+  await setPersistentCache(CACHE_KEY, lists);
+  rescreen();
+  notify();
+}
+
+function rescreen(): void {
+  screenVesselsNow(lastScreened.vessels);
+  screenVesselEventsNow(lastScreened.events);
+  screenFlightsNow(lastScreened.flights);
+  screenClustersNow(lastScreened.clusters);
+}
+
+export function onSanctionsChanged(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Loaded lists, ordered by source. */
+export async function getSanctionsLists(): Promise<SanctionsList[]> {
+  await loadLists();
+  return lists;
+}
+
+/** Parse a published list and replace any list already loaded from the same source. */
+export async function importSanctionsFile(fileName: string, text: string): Promise<SanctionsList> {
+  await loadLists();
+  const list = parseSanctionsFile(fileName, text);
+  await commit([...lists.filter(l => l.source !== list.source), list]);
+  return list;
+}
+
+export async function removeSanctionsList(source: SanctionsSource): Promise<void> {
+  await loadLists();
+  await commit(lists.filter(l => l.source !== source));
+}
+
+/** Free-text lookup: IMO (7 digits), MMSI (9 digits), tail number or name. */
+export async function searchSanctions(query: string): Promise<SanctionsMatch[]> {
+  await loadLists();
+  const value = query.trim();
+  if (!value) return [];
+  const digits = value.replace(/^IMO\s*/i, '');
+  if (/^\d{7}$/.test(digits)) return screenVessel(index, { imo: digits });
+  if (/^\d{9}$/.test(value)) return screenVessel(index, { mmsi: value });
+  return [...screenAircraft(index, { registration: value }), ...screenName(index, value)]
+    .filter((m, i, all) => all.findIndex(o => o.party.id === m.party.id) === i);
+}
+
+/** Current matches, strongest and most recent first. */
+export function getSanctionsHits(): SanctionsHit[] {
+  return [...hits.values()].sort((a, b) => (b.matches[0]?.score ?? 0) - (a.matches[0]?.score ?? 0) || b.lastSeen - a.lastSeen);
+}
+
+/** Synchronous lookup for popups and tooltips. */
+export function getSanctionsHit(kind: SanctionsSubjectKind, subjectId: string): SanctionsHit | undefined {
+  return hits.get(`${kind}:${subjectId}`);
+}
+
+export function describeSanctionsMatch(match: SanctionsMatch): string {
+  const { party } = match;
+  const programs = party.programs.length ? ` (${party.programs.join(', ')})` : '';
+  return `${party.name}: ${SANCTIONS_SOURCE_LABELS[party.source]}${programs}`;
+}
+
+type Subject = Omit<SanctionsHit, 'key' | 'firstSeen' | 'lastSeen' | 'matches'>;
+
+function hitSignal(hit: SanctionsHit, match: SanctionsMatch): CorrelationSignal {
+  const how = match.matchedOn === 'name' || match.matchedOn === 'alias' || match.matchedOn === 'partial'
+    ? `${match.matchedOn} "${match.value}"`
+    : `${match.matchedOn.toUpperCase()} ${match.value}`;
+  return {
+    id: generateSignalId(),
+    type: 'sanctions_match',
+    title: `${hit.label} matches ${SANCTIONS_SOURCE_LABELS[match.party.source]} listing`,
+    description: `${describeSanctionsMatch(match)}. Matched on ${how}.`,
+    confidence: match.score,
+    timestamp: new Date(hit.lastSeen),
+    data: {
+      hexCode: hit.kind === 'aircraft' ? hit.subjectId : undefined,
+      mmsi: hit.kind === 'vessel' ? hit.subjectId : undefined,
+      lat: hit.lat,
+      lon: hit.lon,
+      correlatedEntities: [match.party.name],
+      explanation: hit.context ? `Named in: ${hit.context}` : match.party.remarks,
+    },
+  };
+}
+
+function record(subjects: Array<{ subject: Subject; matches: SanctionsMatch[] }>): SanctionsHit[] {
+  const now = Date.now();
+  const updated: SanctionsHit[] = [];
+  const signals: CorrelationSignal[] = [];
+  for (const { subject, matches } of subjects) {
+    if (matches.length === 0) continue;
+    const key = `${subject.kind}:${subject.subjectId}`;
+    const hit: SanctionsHit = { ...subject, key, matches, firstSeen: hits.get(key)?.firstSeen ?? now, lastSeen: now };
+    hits.set(key, hit);
+    updated.push(hit);
+    for (const match of matches) {
+      const pair = `${key}|${match.party.id}`;
+      if (match.score < SIGNAL_MIN_SCORE || signalledPairs.has(pair)) continue;
+      signalledPairs.add(pair);
+      signals.push(hitSignal(hit, match));
+    }
+  }
+  if (hits.size > MAX_HITS) {
+    for (const stale of [...hits.values()].sort((a, b) => a.lastSeen - b.lastSeen).slice(0, hits.size - MAX_HITS)) {
+      hits.delete(stale.key);
+    }
+  }
+  if (signals.length > 0) addToSignalHistory(signals);
+  if (updated.length > 0) notify();
+  return updated;
+}
+
+export async function screenMilitaryVessels(vessels: MilitaryVessel[]): Promise<SanctionsHit[]> {
+  await loadLists();
+  lastScreened.vessels = vessels;
+  return screenVesselsNow(vessels);
+}
+
+function screenVesselsNow(vessels: MilitaryVessel[]): SanctionsHit[] {
+  if (index.size === 0) return [];
+  return record(vessels.map(v => ({
+    subject: { kind: 'vessel', subjectId: v.mmsi, label: v.name || `MMSI ${v.mmsi}`, lat: v.lat, lon: v.lon },
+    matches: screenVessel(index, { mmsi: v.mmsi, name: v.name }),
+  })));
+}
+
+/** Screen both vessels of each AIS behaviour event. */
+export async function screenVesselEvents(events: AisVesselEvent[]): Promise<SanctionsHit[]> {
+  await loadLists();
+  lastScreened.events = events;
+  return screenVesselEventsNow(events);
+}
+
+function screenVesselEventsNow(events: AisVesselEvent[]): SanctionsHit[] {
+  if (index.size === 0) return [];
+  const vessels = new Map<string, Subject>();
+  for (const event of events) {
+    const pairs: Array<[string | undefined, string | undefined]> = [[event.mmsi, event.name], [event.otherMmsi, event.otherName]];
+    for (const [mmsi, name] of pairs) {
+      if (!mmsi || vessels.has(mmsi)) continue;
+      vessels.set(mmsi, { kind: 'vessel', subjectId: mmsi, label: name?.trim() || `MMSI ${mmsi}`, lat: event.lat, lon: event.lon });
+    }
+  }
+  return record([...vessels.values()].map(subject => ({
+    subject,
+    matches: screenVessel(index, { mmsi: subject.subjectId, name: subject.label.startsWith('MMSI ') ? undefined : subject.label }),
+  })));
+}
+
+/** Screen aircraft by registration and the owner and operator from GetAircraftDetails. */
+export async function screenMilitaryFlights(flights: MilitaryFlight[]): Promise<SanctionsHit[]> {
+  await loadLists();
+  lastScreened.flights = flights;
+  return screenFlightsNow(flights);
+}
+
+function screenFlightsNow(flights: MilitaryFlight[]): SanctionsHit[] {
+  if (index.size === 0) return [];
+  return record(flights.map(f => ({
+    subject: { kind: 'aircraft', subjectId: f.hexCode.toUpperCase(), label: f.callsign || f.registration || f.hexCode, lat: f.lat, lon: f.lon },
+    matches: screenAircraft(index, { registration: f.registration, owner: f.enriched?.owner, operator: f.enriched?.operatorName }),
+  })));
+}
+
+/** Screen companies extracted from news cluster headlines. */
+export async function screenNewsClusters(clusters: ClusteredEvent[]): Promise<SanctionsHit[]> {
+  await loadLists();
+  lastScreened.clusters = clusters;
+  return screenClustersNow(clusters);
+}
+
+function screenClustersNow(clusters: ClusteredEvent[]): SanctionsHit[] {
+  if (index.size === 0) return [];
+  const registry = getEntityIndex();
+  const byCluster = new Map(clusters.map(c => [c.id, c]));
+  const subjects = new Map<string, { subject: Subject; matches: SanctionsMatch[] }>();
+  for (const context of extractEntitiesFromClusters(clusters).values()) {
+    const cluster = byCluster.get(context.clusterId);
+    for (const entity of context.entities) {
+      // Indices, commodities, sectors and countries would only produce noise.
+      if (registry.byId.get(entity.entityId)?.type !== 'company' || subjects.has(entity.entityId)) continue;
+      subjects.set(entity.entityId, {
+        subject: { kind: 'entity', subjectId: entity.entityId, label: entity.name, lat: cluster?.lat, lon: cluster?.lon, context: context.title },
+        matches: screenName(index, entity.name).filter(m => m.party.kind === 'entity'),
+      });
+    }
+  }
+  return record([...subjects.values()]);
+}
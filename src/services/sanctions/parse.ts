@@ -0,0 +1,339 @@
+/**
+ * Parsers for the published sanctions lists.
+ *
+ * Each list is reduced to flat sanctioned parties with names, aliases,
+ * programmes and the identifiers that can be screened against live data:
+ * IMO and MMSI numbers for vessels and tail numbers for aircraft.
+ *
+ * Supported files:
+ *   OFAC SDN   SDN.XML or sdn.csv (aliases from the remarks column)
+ *   EU         Consolidated financial sanctions XML (xmlFullSanctionsList)
+ *   UK OFSI    ConList.csv consolidated list
+ *   UN         Security Council consolidated XML
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import Papa from 'papaparse';
+
+export type SanctionsSource = 'ofac' | 'eu' | 'uk' | 'un';
+export type SanctionedPartyKind = 'individual' | 'entity' | 'vessel' | 'aircraft';
+
+export interface SanctionedParty {
+  /** '<source>:<list id>' */
+  id: string;
+  source: SanctionsSource;
+  kind: SanctionedPartyKind;
+  name: string;
+  aliases: string[];
+  programs: string[];
+  imo?: string;
+  mmsi?: string;
+  callSign?: string;
+  tailNumbers?: string[];
+  remarks?: string;
+}
+
+export interface SanctionsList {
+  source: SanctionsSource;
+  fileName: string;
+  importedAt: number;
+  /** Publication date as given by the list, if any. */
+  publishedAt?: string;
+  parties: SanctionedParty[];
+}
+
+export const SANCTIONS_SOURCE_LABELS: Record<SanctionsSource, string> = {
+  ofac: 'OFAC SDN',
+  eu: 'EU Consolidated',
+  uk: 'UK OFSI',
+  un: 'UN Security Council',
+};
+
+const MAX_REMARKS = 300;
+
+type XmlNode = Record<string, unknown>;
+
+function text(node: unknown): string {
+  if (node == null) return '';
+  if (typeof node === 'object') return String((node as XmlNode)['#text'] ?? '').trim();
+  return String(node).trim();
+}
+
+function list<T = XmlNode>(node: unknown): T[] {
+  if (node == null || node === '') return [];
+  return (Array.isArray(node) ? node : [node]) as T[];
+}
+
+function unique(values: string[], exclude = ''): string[] {
+  const seen = new Set([exclude.toUpperCase()]);
+  const out: string[] = [];
+  for (const raw of values) {
+    const value = raw.replace(/\s+/g, ' ').trim();
+    if (!value || seen.has(value.toUpperCase())) continue;
+    seen.add(value.toUpperCase());
+    out.push(value);
+  }
+  return out;
+}
+
+function joinName(...parts: unknown[]): string {
+  return parts.map(text).filter(Boolean).join(' ');
+}
+
+function clip(remarks: string): string | undefined {
+  const value = remarks.replace(/\s+/g, ' ').trim();
+  return value ? value.slice(0, MAX_REMARKS) : undefined;
+}
+
+/** IMO, MMSI and tail numbers mentioned in free text (OFAC remarks, UN comments, UK other information). */
+export function identifiersFromText(value: string): { imo?: string; mmsi?: string; tailNumbers: string[] } {
+  const imo = /\bIMO(?:\s+number)?[\s:.]*(\d{7})\b/i.exec(value)?.[1];
+  const mmsi = /\bMMSI[\s:.]*(\d{9})\b/i.exec(value)?.[1];
+  const tailNumbers = [...value.matchAll(/Aircraft Tail Number[\s:]*([A-Z0-9][A-Z0-9-]{2,9})/gi)].map(m => m[1]!.toUpperCase());
+  return { imo, mmsi, tailNumbers };
+}
+
+function xmlParser(arrays: Set<string>): XMLParser {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    isArray: (name) => arrays.has(name),
+  });
+}
+
+function parseXml(text: string, arrays: Set<string>): XmlNode {
+  try {
+    return xmlParser(arrays).parse(text) as XmlNode;
+  } catch {
+    throw new Error('Invalid sanctions list: not well-formed XML');
+  }
+}
+
+function withIdentifiers(party: SanctionedParty, free: string): SanctionedParty {
+  const ids = identifiersFromText(free);
+  party.imo ??= ids.imo;
+  party.mmsi ??= ids.mmsi;
+  const tails = unique([...(party.tailNumbers ?? []), ...ids.tailNumbers]);
+  party.tailNumbers = tails.length ? tails : undefined;
+  if (party.kind === 'entity' && party.imo) party.kind = 'vessel';
+  return party;
+}
+
+// OFAC ---------------------------------------------------------------------
+
+const OFAC_ARRAYS = new Set(['sdnEntry', 'program', 'aka', 'id']);
+
+function ofacKind(type: string): SanctionedPartyKind {
+  const value = type.trim().toLowerCase();
+  if (value === 'individual') return 'individual';
+  if (value === 'vessel') return 'vessel';
+  if (value === 'aircraft') return 'aircraft';
+  return 'entity';
+}
+
+export function parseOfacXml(xml: string): Omit<SanctionsList, 'fileName' | 'importedAt'> {
+  const doc = parseXml(xml, OFAC_ARRAYS);
+  const root = doc.sdnList as XmlNode | undefined;
+  if (!root) throw new Error('Not an OFAC SDN XML file');
+  const parties = list(root.sdnEntry).map((entry): SanctionedParty => {
+    const name = joinName(entry.firstName, entry.lastName);
+    const ids = list((entry.idList as XmlNode | undefined)?.id);
+    let imo: string | undefined;
+    let mmsi: string | undefined;
+    const tailNumbers: string[] = [];
+    for (const id of ids) {
+      const type = text(id.idType).toLowerCase();
+      const value = text(id.idNumber);
+      if (type.includes('vessel registration')) imo = /(\d{7})/.exec(value)?.[1] ?? imo;
+      else if (type === 'mmsi') mmsi = /(\d{9})/.exec(value)?.[1] ?? mmsi;
+      else if (type.includes('aircraft tail number')) tailNumbers.push(value.toUpperCase());
+    }
+    const vessel = entry.vesselInfo as XmlNode | undefined;
+    const party: SanctionedParty = {
+      id: `ofac:${text(entry.uid)}`,
+      source: 'ofac',
+      kind: ofacKind(text(entry.sdnType)),
+      name,
+      aliases: unique(list((entry.akaList as XmlNode | undefined)?.aka).map(aka => joinName(aka.firstName, aka.lastName)), name),
+      programs: unique(list((entry.programList as XmlNode | undefined)?.program).map(text)),
+      imo,
+      mmsi,
+      callSign: text(vessel?.callSign) || undefined,
+      tailNumbers: tailNumbers.length ? unique(tailNumbers) : undefined,
+      remarks: clip(text(entry.remarks)),
+    };
+    return withIdentifiers(party, text(entry.remarks));
+  }).filter(p => p.name);
+  const publish = root.publshInformation as XmlNode | undefined;
+  return { source: 'ofac', publishedAt: text(publish?.Publish_Date) || undefined, parties };
+}
+
+/** OFAC sdn.csv: no header; "-0-" marks empty fields. */
+export function parseOfacCsv(csv: string): Omit<SanctionsList, 'fileName' | 'importedAt'> {
+  const rows = Papa.parse<string[]>(csv.trim(), { header: false, skipEmptyLines: true }).data;
+  const field = (row: string[], i: number) => {
+    const value = (row[i] ?? '').trim();
+    return value === '-0-' ? '' : value;
+  };
+  const parties: SanctionedParty[] = [];
+  for (const row of rows) {
+    const uid = field(row, 0);
+    const name = field(row, 1);
+    if (!/^\d+$/.test(uid) || !name) continue;
+    const remarks = field(row, 11);
+    const aliases = [...remarks.matchAll(/\b[af]\.k\.a\.,?\s+'([^']+)'/gi)].map(m => m[1]!);
+    parties.push(withIdentifiers({
+      id: `ofac:${uid}`,
+      source: 'ofac',
+      kind: ofacKind(field(row, 2)),
+      name,
+      aliases: unique(aliases, name),
+      programs: unique(field(row, 3).replace(/[[\]]/g, ' ').split(/\s+/)),
+      callSign: field(row, 5) || undefined,
+      remarks: clip(remarks),
+    }, remarks));
+  }
+  return { source: 'ofac', parties };
+}
+
+// EU -----------------------------------------------------------------------
+
+const EU_ARRAYS = new Set(['sanctionEntity', 'nameAlias', 'regulation', 'identification', 'remark']);
+
+export function parseEuXml(xml: string): Omit<SanctionsList, 'fileName' | 'importedAt'> {
+  const doc = parseXml(xml, EU_ARRAYS);
+  const root = doc.export as XmlNode | undefined;
+  if (!root) throw new Error('Not an EU consolidated sanctions XML file');
+  const parties = list(root.sanctionEntity).map((entity): SanctionedParty => {
+    const names = list(entity.nameAlias).map(alias => text(alias['@_wholeName']) || joinName(alias['@_firstName'], alias['@_middleName'], alias['@_lastName']));
+    const [name = '', ...aliases] = unique(names);
+    const code = text((entity.subjectType as XmlNode | undefined)?.['@_code']).toLowerCase();
+    const identifications = list(entity.identification);
+    const imo = identifications
+      .find(id => /imo/i.test(text(id['@_identificationTypeCode'])) || /imo/i.test(text(id['@_identificationTypeDescription'])))?.['@_number'];
+    const remarks = list(entity.remark).map(text).join(' ');
+    return withIdentifiers({
+      id: `eu:${text(entity['@_logicalId']) || text(entity['@_euReferenceNumber'])}`,
+      source: 'eu',
+      kind: code === 'person' ? 'individual' : 'entity',
+      name,
+      aliases,
+      programs: unique(list(entity.regulation).map(r => text(r['@_programme']))),
+      imo: imo ? /(\d{7})/.exec(text(imo))?.[1] : undefined,
+      remarks: clip(remarks),
+    }, remarks);
+  }).filter(p => p.name);
+  return { source: 'eu', publishedAt: text(root['@_generationDate']) || undefined, parties };
+}
+
+// UN -----------------------------------------------------------------------
+
+const UN_ARRAYS = new Set(['INDIVIDUAL', 'ENTITY', 'INDIVIDUAL_ALIAS', 'ENTITY_ALIAS']);
+
+export function parseUnXml(xml: string): Omit<SanctionsList, 'fileName' | 'importedAt'> {
+  const doc = parseXml(xml, UN_ARRAYS);
+  const root = doc.CONSOLIDATED_LIST as XmlNode | undefined;
+  if (!root) throw new Error('Not a UN consolidated list XML file');
+  const toParty = (node: XmlNode, kind: SanctionedPartyKind, aliasTag: string): SanctionedParty => {
+    const name = joinName(node.FIRST_NAME, node.SECOND_NAME, node.THIRD_NAME, node.FOURTH_NAME);
+    const comments = text(node.COMMENTS1);
+    return withIdentifiers({
+      id: `un:${text(node.REFERENCE_NUMBER) || text(node.DATAID)}`,
+      source: 'un',
+      kind,
+      name,
+      aliases: unique(list(node[aliasTag]).map(alias => text(alias.ALIAS_NAME)), name),
+      programs: unique([text(node.UN_LIST_TYPE)]),
+      remarks: clip(comments),
+    }, comments);
+  };
+  const individuals = list((root.INDIVIDUALS as XmlNode | undefined)?.INDIVIDUAL).map(n => toParty(n, 'individual', 'INDIVIDUAL_ALIAS'));
+  const entities = list((root.ENTITIES as XmlNode | undefined)?.ENTITY).map(n => toParty(n, 'entity', 'ENTITY_ALIAS'));
+  return { source: 'un', publishedAt: text(root['@_dateGenerated']) || undefined, parties: [...individuals, ...entities].filter(p => p.name) };
+}
+
+// UK -----------------------------------------------------------------------
+
+/** OFSI ConList.csv: a "Last Updated" line, then one row per name or alias, grouped by Group ID. */
+export function parseUkCsv(csv: string): Omit<SanctionsList, 'fileName' | 'importedAt'> {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerAt = lines.findIndex(line => /Name 6/i.test(line) && /Group ID/i.test(line));
+  if (headerAt < 0) throw new Error('Not a UK OFSI consolidated list CSV');
+  const publishedAt = /Last Updated,\s*([^,]+)/i.exec(lines.slice(0, headerAt).join('\n'))?.[1]?.trim();
+  const rows = Papa.parse<Record<string, string>>(lines.slice(headerAt).join('\n'), { header: true, skipEmptyLines: true }).data;
+
+  const groups = new Map<string, SanctionedParty>();
+  for (const row of rows) {
+    const groupId = (row['Group ID'] ?? '').trim();
+    if (!groupId) continue;
+    const name = [row['Name 1'], row['Name 2'], row['Name 3'], row['Name 4'], row['Name 5'], row['Name 6']]
+      .map(v => (v ?? '').trim()).filter(Boolean).join(' ');
+    if (!name) continue;
+    const type = (row['Group Type'] ?? '').trim().toLowerCase();
+    const imoColumn = Object.keys(row).find(key => /\bimo\b/i.test(key));
+    const free = [row['Other Information'], imoColumn ? `IMO ${row[imoColumn]}` : ''].filter(Boolean).join(' ');
+    const primary = /primary/i.test(row['Alias Type'] ?? '') || !groups.has(groupId);
+
+    let party = groups.get(groupId);
+    if (!party) {
+      party = {
+        id: `uk:${groupId}`,
+        source: 'uk',
+        kind: type === 'individual' ? 'individual' : type === 'ship' ? 'vessel' : 'entity',
+        name,
+        aliases: [],
+        programs: [],
+        remarks: clip(row['Other Information'] ?? ''),
+      };
+      groups.set(groupId, party);
+    } else if (primary && name !== party.name) {
+      party.aliases.push(party.name);
+      party.name = name;
+    } else {
+      party.aliases.push(name);
+    }
+    party.programs = unique([...party.programs, row.Regime ?? '']);
+    party.aliases = unique(party.aliases, party.name);
+    withIdentifiers(party, free);
+  }
+  return { source: 'uk', publishedAt, parties: [...groups.values()] };
+}
+
+// Dispatch -----------------------------------------------------------------
+
+/** Identify which list a file holds from its content. */
+export function detectSanctionsSource(text: string): SanctionsSource | null {
+  const head = text.slice(0, 4000);
+  if (/<sdnList[\s>]/.test(head)) return 'ofac';
+  if (/<export[\s>]/.test(head) && /sanctionEntity/.test(text.slice(0, 20000))) return 'eu';
+  if (/<CONSOLIDATED_LIST[\s>]/.test(head)) return 'un';
+  if (/Name 6/i.test(head) && /Group ID/i.test(head)) return 'uk';
+  if (/^\uFEFF?\s*\d+,"?[^,]+"?,/.test(head)) return 'ofac';
+  return null;
+}
+
+export function parseSanctionsFile(fileName: string, text: string, now = Date.now()): SanctionsList {
+  const source = detectSanctionsSource(text);
+  const isXml = text.trimStart().startsWith('<');
+  let parsed: Omit<SanctionsList, 'fileName' | 'importedAt'>;
+  switch (source) {
+    case 'ofac':
+      parsed = isXml ? parseOfacXml(text) : parseOfacCsv(text);
+      break;
+    case 'eu':
+      parsed = parseEuXml(text);
+      break;
+    case 'un':
+      parsed = parseUnXml(text);
+      break;
+    case 'uk':
+      parsed = parseUkCsv(text);
+      break;
+    default:
+      throw new Error('Unrecognised sanctions list. Use OFAC SDN XML/CSV, the EU consolidated XML, UK OFSI ConList.csv or the UN consolidated XML.');
+  }
+  if (parsed.parties.length === 0) throw new Error('No sanctioned parties found in the file');
+  return { ...parsed, fileName, importedAt: now };
+}
@@ -0,0 +1,189 @@
+/**
+ * Local sanctions index and screening.
+ *
+ * Identifiers (IMO, MMSI, aircraft tail numbers) match exactly. Names are
+ * compared after normalisation: diacritics, punctuation, legal-form suffixes
+ * and vessel prefixes are dropped and the remaining tokens sorted, so
+ * "M/T Adrian Darya-1" and "ADRIAN DARYA 1" or "Rosneft Oil Company" and
+ * "Oil Company Rosneft" compare equal. A query whose tokens are all contained
+ * in a slightly longer listed name is reported as a weaker partial match.
+ */
+
+import type { SanctionedParty, SanctionsList } from './parse';
+
+export type SanctionsMatchField = 'imo' | 'mmsi' | 'registration' | 'name' | 'alias' | 'partial';
+
+export interface SanctionsMatch {
+  party: SanctionedParty;
+  matchedOn: SanctionsMatchField;
+  /** The screened value that matched. */
+  value: string;
+  /** 0-1; identifiers score highest, partial name matches lowest. */
+  score: number;
+}
+
+export interface SanctionsIndex {
+  byImo: Map<string, SanctionedParty[]>;
+  byMmsi: Map<string, SanctionedParty[]>;
+  byRegistration: Map<string, SanctionedParty[]>;
+  byName: Map<string, Array<{ party: SanctionedParty; alias: boolean }>>;
+  byToken: Map<string, SanctionedParty[]>;
+  size: number;
+}
+
+const MATCH_SCORES: Record<SanctionsMatchField, number> = {
+  imo: 1,
+  mmsi: 0.95,
+  registration: 0.95,
+  name: 0.8,
+  alias: 0.7,
+  partial: 0.5,
+};
+
+/** Vessel names alone are weak evidence: many ships share a name. */
+const VESSEL_NAME_FACTOR = 0.75;
+const MIN_NAME_LENGTH = 4;
+const MIN_PARTIAL_TOKEN_LENGTH = 5;
+const MAX_PARTIAL_EXTRA_TOKENS = 2;
+
+const IGNORED_TOKENS = new Set([
+  'THE', 'OF', 'AND', 'MV', 'MT', 'SS', 'FV',
+  'LLC', 'LTD', 'LIMITED', 'CO', 'COMPANY', 'INC', 'CORP', 'CORPORATION', 'PLC',
+  'JSC', 'PJSC', 'OJSC', 'CJSC', 'OAO', 'OOO', 'ZAO', 'AO', 'PAO',
+  'SA', 'AG', 'GMBH', 'BV', 'NV', 'SRL', 'SPA', 'FZE', 'FZCO', 'DMCC',
+]);
+
+function tokens(value: string): string[] {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\bM\/[TV]\b/g, ' ')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+}
+
+/** Order-insensitive comparison key for a person, company or vessel name. */
+export function normalizeName(value: string): string {
+  return [...new Set(tokens(value))].sort().join(' ');
+}
+
+export function normalizeRegistration(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function push<T>(map: Map<string, T[]>, key: string | undefined, value: T): void {
+  if (!key) return;
+  const bucket = map.get(key);
+  if (bucket) bucket.push(value);
+  else map.set(key, [value]);
+}
+
+export function buildSanctionsIndex(lists: SanctionsList[]): SanctionsIndex {
+  const index: SanctionsIndex = {
+    byImo: new Map(),
+    byMmsi: new Map(),
+    byRegistration: new Map(),
+    byName: new Map(),
+    byToken: new Map(),
+    size: 0,
+  };
+  for (const list of lists) {
+    for (const party of list.parties) {
+      index.size++;
+      push(index.byImo, party.imo, party);
+      push(index.byMmsi, party.mmsi, party);
+      for (const tail of party.tailNumbers ?? []) push(index.byRegistration, normalizeRegistration(tail), party);
+      const seen = new Set<string>();
+      [party.name, ...party.aliases].forEach((name, i) => {
+        const key = normalizeName(name);
+        if (key.length < MIN_NAME_LENGTH || seen.has(key)) return;
+        seen.add(key);
+        push(index.byName, key, { party, alias: i > 0 });
+      });
+      for (const token of new Set(tokens(party.name))) {
+        if (token.length >= MIN_PARTIAL_TOKEN_LENGTH) push(index.byToken, token, party);
+      }
+    }
+  }
+  return index;
+}
+
+/** Keep the strongest match per party, strongest first. */
+function best(matches: SanctionsMatch[]): SanctionsMatch[] {
+  const byParty = new Map<string, SanctionsMatch>();
+  for (const match of matches) {
+    const existing = byParty.get(match.party.id);
+    if (!existing || match.score > existing.score) byParty.set(match.party.id, match);
+  }
+  return [...byParty.values()].sort((a, b) => b.score - a.score);
+}
+
+/** Screen a person, company or organisation name. */
+export function screenName(index: SanctionsIndex, name: string): SanctionsMatch[] {
+  const key = normalizeName(name);
+  if (key.length < MIN_NAME_LENGTH) return [];
+  const matches: SanctionsMatch[] = (index.byName.get(key) ?? []).map(({ party, alias }) => ({
+    party,
+    matchedOn: alias ? 'alias' : 'name',
+    value: name,
+    score: MATCH_SCORES[alias ? 'alias' : 'name'],
+  }));
+
+  // Partial: every query token appears in a listed name with only a couple of extra tokens.
+  const queryTokens = key.split(' ');
+  const anchor = queryTokens.reduce((a, b) => (b.length > a.length ? b : a), '');
+  if (anchor.length >= MIN_PARTIAL_TOKEN_LENGTH) {
+    for (const party of index.byToken.get(anchor) ?? []) {
+      const partyTokens = new Set(tokens(party.name));
+      if (queryTokens.every(token => partyTokens.has(token)) && partyTokens.size - queryTokens.length <= MAX_PARTIAL_EXTRA_TOKENS) {
+        matches.push({ party, matchedOn: 'partial', value: name, score: MATCH_SCORES.partial });
+      }
+    }
+  }
+  return best(matches);
+}
+
+export interface VesselSubject {
+  imo?: string;
+  mmsi?: string;
+  name?: string;
+}
+
+/** Screen an AIS vessel by IMO, MMSI and, more weakly, by name against listed vessels. */
+export function screenVessel(index: SanctionsIndex, vessel: VesselSubject): SanctionsMatch[] {
+  const matches: SanctionsMatch[] = [];
+  const imo = vessel.imo?.replace(/\D/g, '');
+  const mmsi = vessel.mmsi?.replace(/\D/g, '');
+  for (const party of (imo && index.byImo.get(imo)) || []) matches.push({ party, matchedOn: 'imo', value: imo!, score: MATCH_SCORES.imo });
+  for (const party of (mmsi && index.byMmsi.get(mmsi)) || []) matches.push({ party, matchedOn: 'mmsi', value: mmsi!, score: MATCH_SCORES.mmsi });
+  const key = vessel.name ? normalizeName(vessel.name) : '';
+  if (key.length >= MIN_NAME_LENGTH) {
+    for (const { party, alias } of index.byName.get(key) ?? []) {
+      if (party.kind !== 'vessel') continue;
+      const field = alias ? 'alias' : 'name';
+      matches.push({ party, matchedOn: field, value: vessel.name!, score: MATCH_SCORES[field] * VESSEL_NAME_FACTOR });
+    }
+  }
+  return best(matches);
+}
+
+export interface AircraftSubject {
+  registration?: string;
+  owner?: string;
+  operator?: string;
+}
+
+/** Screen an aircraft by tail number and its registered owner and operator. */
+export function screenAircraft(index: SanctionsIndex, aircraft: AircraftSubject): SanctionsMatch[] {
+  const matches: SanctionsMatch[] = [];
+  const registration = aircraft.registration ? normalizeRegistration(aircraft.registration) : '';
+  for (const party of (registration && index.byRegistration.get(registration)) || []) {
+    matches.push({ party, matchedOn: 'registration', value: aircraft.registration!, score: MATCH_SCORES.registration });
+  }
+  for (const name of [aircraft.owner, aircraft.operator]) {
+    if (name) matches.push(...screenName(index, name).filter(m => m.party.kind !== 'vessel'));
+  }
+  return best(matches);
+}
@@ -0,0 +1,147 @@
+/**
+ * Builders that turn loaded intelligence into semantic search documents.
+ *
+ * Document text should only change when the underlying item does; volatile
+ * numbers (scores, prices, counts) stay in the subtitle so a refresh doesn't
+ * trigger a re-embed of the whole kind.
+ */
+
+import type { ClusteredEvent, SocialUnrestEvent, UcdpGeoEvent } from '@/types';
+import type { ConflictEvent } from '@/services/conflict';
+import type { CountryScore } from '@/services/country-instability';
+import type { GdeltArticle } from '@/services/gdelt-intel';
+import type { PredictionMarket } from '@/services/prediction';
+import type { SemanticDoc } from './vector-index';
+
+const MAX_TEXT_LENGTH = 480;
+const MAX_DOCS_PER_KIND = 300;
+const MAX_CLUSTER_TITLES = 4;
+
+const UCDP_VIOLENCE_LABELS: Record<UcdpGeoEvent['type_of_violence'], string> = {
+  'state-based': 'State-based armed conflict',
+  'non-state': 'Non-state armed conflict',
+  'one-sided': 'One-sided violence against civilians',
+};
+
+function clip(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_TEXT_LENGTH ? flat.slice(0, MAX_TEXT_LENGTH) : flat;
+}
+
+function place(...parts: Array<string | undefined>): string {
+  return parts.filter(Boolean).join(', ');
+}
+
+export function clusterDocs(clusters: ClusteredEvent[]): SemanticDoc[] {
+  return clusters.slice(0, MAX_DOCS_PER_KIND).map(cluster => {
+    const titles = [cluster.primaryTitle];
+    for (const item of cluster.allItems) {
+      if (titles.length >= MAX_CLUSTER_TITLES) break;
+      if (!titles.includes(item.title)) titles.push(item.title);
+    }
+    const category = cluster.threat?.category && cluster.threat.category !== 'general' ? `${cluster.threat.category}: ` : '';
+    return {
+      id: cluster.id,
+      kind: 'cluster',
+      title: cluster.primaryTitle,
+      subtitle: `${cluster.primarySource} • ${cluster.sourceCount} ${cluster.sourceCount === 1 ? 'source' : 'sources'}`,
+      text: clip(`${category}${titles.join('. ')}`),
+      data: cluster,
+    };
+  });
+}
+
+export function gdeltDocs(articles: GdeltArticle[]): SemanticDoc[] {
+  return articles.slice(0, MAX_DOCS_PER_KIND).map(article => ({
+    id: article.url,
+    kind: 'gdelt',
+    title: article.title,
+    subtitle: article.source,
+    text: clip(article.title),
+    data: article,
+  }));
+}
+
+export function ucdpDocs(events: UcdpGeoEvent[]): SemanticDoc[] {
+  return [...events]
+    .sort((a, b) => b.date_start.localeCompare(a.date_start))
+    .slice(0, MAX_DOCS_PER_KIND)
+    .map(event => {
+      const label = UCDP_VIOLENCE_LABELS[event.type_of_violence] ?? 'Armed conflict';
+      const sides = event.side_b ? `${event.side_a} vs ${event.side_b}` : event.side_a;
+      return {
+        id: event.id,
+        kind: 'ucdp',
+        title: `${label} — ${event.country}`,
+        subtitle: `${sides} • ${event.date_start.slice(0, 10)}`,
+        text: clip(`${label} in ${event.country}: ${sides}. ${event.source_original}`),
+        data: event,
+      };
+    });
+}
+
+export function acledDocs(events: ConflictEvent[]): SemanticDoc[] {
+  return [...events]
+    .sort((a, b) => b.time.getTime() - a.time.getTime())
+    .slice(0, MAX_DOCS_PER_KIND)
+    .map(event => {
+      const type = event.subEventType || event.eventType.replace(/_/g, ' ');
+      return {
+        id: event.id,
+        kind: 'acled',
+        title: `${type} — ${place(event.location, event.country)}`,
+        subtitle: event.actors.slice(0, 2).join(' vs ') || event.source,
+        text: clip(`${type} in ${place(event.location, event.region, event.country)}. ${event.actors.join(', ')}`),
+        data: event,
+      };
+    });
+}
+
+export function unrestDocs(events: SocialUnrestEvent[]): SemanticDoc[] {
+  return [...events]
+    .sort((a, b) => b.time.getTime() - a.time.getTime())
+    .slice(0, MAX_DOCS_PER_KIND)
+    .map(event => ({
+      id: event.id,
+      kind: 'unrest',
+      title: event.title,
+      subtitle: `${place(event.city, event.country)} • ${event.sourceType.toUpperCase()}`,
+      text: clip(`${event.title}. ${event.eventType.replace(/_/g, ' ')} in ${place(event.city, event.country)}. ${event.summary ?? ''} ${event.tags?.join(' ') ?? ''}`),
+      data: event,
+    }));
+}
+
+export function predictionDocs(predictions: PredictionMarket[]): SemanticDoc[] {
+  return predictions.slice(0, MAX_DOCS_PER_KIND).map(p => ({
+    id: p.title,
+    kind: 'prediction',
+    title: p.title,
+    subtitle: `${Math.round(p.yesPrice)}% probability`,
+    text: clip(p.title),
+    data: p,
+  }));
+}
+
+/**
+ * One document per country: the latest generated brief when there is one,
+ * otherwise just the name and instability level.
+ */
+export function countryDocs(
+  countries: Record<string, string>,
+  scores: CountryScore[],
+  briefs: ReadonlyMap<string, string>,
+): SemanticDoc[] {
+  const byCode = new Map(scores.map(s => [s.code, s]));
+  return Object.entries(countries).map(([code, name]) => {
+    const score = byCode.get(code);
+    const level = score ? ` Instability ${score.level}, ${score.trend}.` : '';
+    return {
+      id: code,
+      kind: 'country',
+      title: name,
+      subtitle: score ? `CII: ${score.score}/100 • ${score.level}` : 'Country Brief',
+      text: clip(`${name} country brief.${level} ${briefs.get(code) ?? ''}`),
+      data: { code, name },
+    };
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Semantic search across loaded intelligence.
+ *
+ * News clusters, GDELT articles, UCDP/ACLED events, unrest, prediction
+ * markets and country briefs are embedded in the ML worker and ranked by
+ * cosine similarity against the query, so "port strikes affecting grain
+ * exports" finds related items that share no keywords with it. Indexing is
+ * incremental: each refresh re-syncs a kind and only new text is embedded.
+ */
+
+import { ML_THRESHOLDS } from '@/config/ml-config';
+import { mlWorker } from '@/services/ml-worker';
+import { VectorIndex, type SemanticDoc, type SemanticDocKind, type SemanticHit, type SemanticSearchOptions } from './vector-index';
+
+export * from './vector-index';
+export * from './documents';
+
+const index = new VectorIndex();
+const countryBriefs = new Map<string, string>();
+let embedQueue: Promise<void> = Promise.resolve();
+
+export function isSemanticSearchAvailable(): boolean {
+  return mlWorker.isAvailable;
+}
+
+async function embedDocs(docs: SemanticDoc[]): Promise<void> {
+  for (let i = 0; i < docs.length; i += ML_THRESHOLDS.maxTextsPerBatch) {
+    if (!mlWorker.isAvailable) return;
+    const batch = docs.slice(i, i + ML_THRESHOLDS.maxTextsPerBatch);
+    const vectors = await mlWorker.embedTexts(batch.map(d => d.text));
+    batch.forEach((doc, j) => {
+      const vector = vectors[j];
+      if (vector) index.setVector(doc, vector);
+    });
+  }
+}
+
+/**
+ * Replace the indexed documents of one kind. Embedding runs in the
+ * background, one batch at a time; the returned promise settles when this
+ * kind's new documents are searchable.
+ */
+export function updateSemanticIndex(kind: SemanticDocKind, docs: SemanticDoc[]): Promise<void> {
+  const pending = index.sync(kind, docs);
+  if (pending.length === 0 || !mlWorker.isAvailable) return embedQueue;
+  embedQueue = embedQueue
+    .then(() => embedDocs(pending))
+    .catch(error => console.warn(`[SemanticSearch] Embedding ${kind} failed:`, error));
+  return embedQueue;
+}
+
+/** Ranked hits for a free-text query; empty when the ML worker isn't running. */
+export async function semanticSearch(query: string, options?: SemanticSearchOptions): Promise<SemanticHit[]> {
+  const text = query.trim();
+  if (!text || index.size === 0 || !mlWorker.isAvailable) return [];
+  const [vector] = await mlWorker.embedTexts([text]);
+  return vector ? index.search(vector, text, options) : [];
+}
+
+/** Remember the latest generated brief so the country's document carries it. */
+export function recordCountryBrief(code: string, brief: string): void {
+  if (brief.trim()) countryBriefs.set(code, brief.trim());
+}
+
+export function getCountryBriefs(): ReadonlyMap<string, string> {
+  return countryBriefs;
+}
@@ -0,0 +1,144 @@
+/**
+ * In-memory vector index for semantic search.
+ *
+ * Documents are grouped by kind and synced a whole kind at a time, so a data
+ * refresh drops stale entries and only new or reworded documents need to be
+ * embedded again. Vectors come from the ML worker (all-MiniLM-L6-v2); this
+ * module only stores and ranks them.
+ */
+
+export type SemanticDocKind = 'cluster' | 'gdelt' | 'ucdp' | 'acled' | 'unrest' | 'prediction' | 'country';
+
+export interface SemanticDoc {
+  id: string;
+  kind: SemanticDocKind;
+  title: string;
+  subtitle?: string;
+  /** Text that gets embedded: the title plus whatever context the source carries. */
+  text: string;
+  /** The source item (cluster, article, event, market or country). */
+  data: unknown;
+}
+
+export interface SemanticHit {
+  doc: SemanticDoc;
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  minScore?: number;
+  /** Cap per kind so one busy source can't crowd out the others. */
+  maxPerKind?: number;
+}
+
+interface IndexEntry {
+  doc: SemanticDoc;
+  vector: number[] | null;
+}
+
+const LEXICAL_BOOST_PER_TERM = 0.03;
+const MAX_LEXICAL_BOOST = 0.09;
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'that', 'this', 'into', 'over', 'about', 'affecting', 'near', 'what', 'where', 'which']);
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    const ai = a[i] ?? 0;
+    const bi = b[i] ?? 0;
+    dot += ai * bi;
+    normA += ai * ai;
+    normB += bi * bi;
+  }
+  const den = Math.sqrt(normA * normB);
+  return den === 0 ? 0 : dot / den;
+}
+
+function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u))]
+    .filter(term => term.length >= 3 && !STOPWORDS.has(term));
+}
+
+/** Small bonus for literal term overlap, so exact names win ties between near-identical vectors. */
+function lexicalBoost(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const lower = text.toLowerCase();
+  const matches = terms.filter(term => lower.includes(term)).length;
+  return Math.min(MAX_LEXICAL_BOOST, matches * LEXICAL_BOOST_PER_TERM);
+}
+
+export class VectorIndex {
+  private entries = new Map<string, IndexEntry>();
+
+  private static key(kind: SemanticDocKind, id: string): string {
+    return `${kind}:${id}`;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Number of documents still waiting for a vector. */
+  get pendingCount(): number {
+    let count = 0;
+    for (const entry of this.entries.values()) if (!entry.vector) count++;
+    return count;
+  }
+
+  /**
+   * Replace every document of `kind` with `docs`. Unchanged documents keep
+   * their vectors; returns the documents that still need embedding.
+   */
+  sync(kind: SemanticDocKind, docs: SemanticDoc[]): SemanticDoc[] {
+    const seen = new Set<string>();
+    const pending: SemanticDoc[] = [];
+    for (const doc of docs) {
+      const key = VectorIndex.key(kind, doc.id);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const existing = this.entries.get(key);
+      const vector = existing && existing.doc.text === doc.text ? existing.vector : null;
+      this.entries.set(key, { doc: { ...doc, kind }, vector });
+      if (!vector) pending.push(doc);
+    }
+    for (const [key, entry] of this.entries) {
+      if (entry.doc.kind === kind && !seen.has(key)) this.entries.delete(key);
+    }
+    return pending;
+  }
+
+  /** Store a vector, unless the document was removed or reworded since it was queued. */
+  setVector(doc: SemanticDoc, vector: number[]): boolean {
+    const entry = this.entries.get(VectorIndex.key(doc.kind, doc.id));
+    if (!entry || entry.doc.text !== doc.text) return false;
+    entry.vector = vector;
+    return true;
+  }
+
+  search(queryVector: number[], query = '', options: SemanticSearchOptions = {}): SemanticHit[] {
+    const { limit = 10, minScore = 0.3, maxPerKind = 4 } = options;
+    const terms = queryTerms(query);
+    const scored: SemanticHit[] = [];
+    for (const { doc, vector } of this.entries.values()) {
+      if (!vector) continue;
+      const similarity = cosineSimilarity(queryVector, vector);
+      if (similarity < minScore) continue;
+      scored.push({ doc, score: similarity + lexicalBoost(terms, doc.text) });
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const perKind = new Map<SemanticDocKind, number>();
+    const hits: SemanticHit[] = [];
+    for (const hit of scored) {
+      const count = perKind.get(hit.doc.kind) ?? 0;
+      if (count >= maxPerKind) continue;
+      perKind.set(hit.doc.kind, count + 1);
+      hits.push(hit);
+      if (hits.length >= limit) break;
+    }
+    return hits;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Source reliability tracking.
+ *
+ * Track records and analyst checklist verdicts persist in localStorage.
+ * Reliability scores feed back into clustering (primary source choice and
+ * threat confidence, via clusterNews and the analysis worker) and every
+ * clustered story gets a confidence breakdown.
+ */
+
+import { getSourceTier, STORAGE_KEYS } from '@/config';
+import type { ClusteredEvent } from '@/types';
+import { loadFromStorage, saveToStorage } from '@/utils';
+import {
+  applyVerdict,
+  clusterConfidence,
+  emptyState,
+  observeClusters,
+  reliabilityScore,
+  type ClusterConfidence,
+  type ReliabilityState,
+  type SourceRecord,
+  type StoryVerdict,
+} from './scoring';
+
+export * from './scoring';
+
+const MAX_VERDICTS = 500;
+const VERDICT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+let state: ReliabilityState = loadState();
+let verdicts: Record<string, StoryVerdict> = loadVerdicts();
+
+function loadState(): ReliabilityState {
+  const stored = loadFromStorage<Partial<ReliabilityState> | null>(STORAGE_KEYS.sourceReliability, null);
+  if (!stored || typeof stored !== 'object') return emptyState();
+  return {
+    sources: stored.sources && typeof stored.sources === 'object' ? stored.sources : {},
+    stories: stored.stories && typeof stored.stories === 'object' ? stored.stories : {},
+    flagged: Array.isArray(stored.flagged) ? stored.flagged : [],
+  };
+}
+
+function loadVerdicts(): Record<string, StoryVerdict> {
+  const stored = loadFromStorage<Record<string, StoryVerdict> | null>(STORAGE_KEYS.storyVerdicts, null);
+  return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+}
+
+function saveVerdicts(): void {
+  const cutoff = Date.now() - VERDICT_RETENTION_MS;
+  verdicts = Object.fromEntries(Object.entries(verdicts)
+    .filter(([, v]) => v.updatedAt >= cutoff)
+    .sort((a, b) => b[1].updatedAt - a[1].updatedAt)
+    .slice(0, MAX_VERDICTS));
+  saveToStorage(STORAGE_KEYS.storyVerdicts, verdicts);
+}
+
+/** 0-1 reliability for a source name; unknown sources get their tier prior. */
+export function getSourceReliability(source: string): number {
+  return reliabilityScore(state.sources[source], getSourceTier(source));
+}
+
+/** Reliability of every source with a track record, for the analysis worker. */
+export function getSourceReliabilityMap(): Record<string, number> {
+  return Object.fromEntries(Object.keys(state.sources).map(source => [source, getSourceReliability(source)]));
+}
+
+export function getSourceRecord(source: string): SourceRecord | undefined {
+  return state.sources[source];
+}
+
+/**
+ * Record a fresh clustering pass in the track records and attach a
+ * confidence breakdown to each cluster. Mutates and returns `clusters`.
+ */
+export function assessClusters<T extends ClusteredEvent>(clusters: T[]): T[] {
+  state = observeClusters(state, clusters, getSourceTier);
+  saveToStorage(STORAGE_KEYS.sourceReliability, state);
+  for (const cluster of clusters) cluster.confidence = getClusterConfidence(cluster);
+  return clusters;
+}
+
+/** Current confidence breakdown for a story, including any analyst verdict. */
+export function getClusterConfidence(cluster: ClusteredEvent): ClusterConfidence {
+  return clusterConfidence(cluster, getSourceReliability, getSourceTier, verdicts[cluster.id]?.verdict);
+}
+
+export function getStoryVerdict(storyId: string): StoryVerdict | undefined {
+  return verdicts[storyId];
+}
+
+/** Persist an analyst's checklist for a story and credit or debit its primary source. */
+export function saveStoryVerdict(verdict: Omit<StoryVerdict, 'updatedAt'>): void {
+  const previous = verdicts[verdict.storyId];
+  state = applyVerdict(state, verdict.primarySource, previous?.verdict, verdict.verdict);
+  verdicts[verdict.storyId] = { ...verdict, updatedAt: Date.now() };
+  saveVerdicts();
+  saveToStorage(STORAGE_KEYS.sourceReliability, state);
+}
+
+export function clearStoryVerdict(storyId: string): void {
+  const previous = verdicts[storyId];
+  if (!previous) return;
+  state = applyVerdict(state, previous.primarySource, previous.verdict, undefined);
+  delete verdicts[storyId];
+  saveVerdicts();
+  saveToStorage(STORAGE_KEYS.sourceReliability, state);
+}
@@ -0,0 +1,297 @@
+/**
+ * Source track records and story confidence.
+ *
+ * Every clustered story is an observation: which outlets carried it, who had
+ * it first, and whether a tier-1 wire eventually confirmed it. Headlines that
+ * announce corrections or retractions count against their source, as do
+ * analyst "unreliable" verdicts. A source's reliability starts at the prior
+ * for its tier and moves toward its observed record as evidence accumulates.
+ *
+ * Pure functions only; persistence lives in index.ts.
+ */
+
+export interface SourceRecord {
+  /** Distinct stories the source appeared in. */
+  reports: number;
+  /** Multi-source stories the source published first. */
+  firstReports: number;
+  /** Stories old enough (or wire-confirmed) to judge agreement on. */
+  wireEvaluated: number;
+  /** ...of which a tier-1 wire also carried. */
+  wireAgreed: number;
+  corrections: number;
+  retractions: number;
+  analystConfirmed: number;
+  analystDisputed: number;
+  lastSeen: number;
+}
+
+export interface StoryRecord {
+  sources: string[];
+  firstSource: string;
+  firstAt: number;
+  seenAt: number;
+  evaluated: boolean;
+}
+
+export interface ReliabilityState {
+  sources: Record<string, SourceRecord>;
+  stories: Record<string, StoryRecord>;
+  /** Links already counted as corrections or retractions. */
+  flagged: string[];
+}
+
+export type ChecklistVerdict = 'verified' | 'likely' | 'uncertain' | 'unreliable';
+
+export interface StoryVerdict {
+  storyId: string;
+  title: string;
+  primarySource: string;
+  checked: string[];
+  notes: string[];
+  score: number;
+  verdict: ChecklistVerdict;
+  updatedAt: number;
+}
+
+export interface ClusterConfidence {
+  /** 0-100 overall confidence. */
+  score: number;
+  level: 'high' | 'medium' | 'low';
+  /** 0-1, weighted toward the most reliable outlet carrying the story. */
+  sourceReliability: number;
+  /** 0-1, from the number of independent outlets. */
+  corroboration: number;
+  wireConfirmed: boolean;
+  /** Items in the story that are corrections or retractions. */
+  corrections: number;
+  verdict?: ChecklistVerdict;
+}
+
+export interface ObservedItem {
+  source: string;
+  title: string;
+  link: string;
+  pubDate: Date;
+}
+
+export interface ObservedCluster {
+  id: string;
+  allItems: ObservedItem[];
+}
+
+export const WIRE_TIER = 1;
+export const CORROBORATION_WINDOW_MS = 12 * 60 * 60 * 1000;
+export const STORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_STORIES = 3000;
+const MAX_FLAGGED = 2000;
+
+const TIER_PRIOR: Record<number, number> = { 1: 0.92, 2: 0.82, 3: 0.68, 4: 0.55 };
+const PRIOR_WEIGHT = 8;
+const MIN_REPORTS_FOR_RATES = 20;
+const MAX_PENALTY = 0.4;
+const MAX_BONUS = 0.06;
+const MIN_RELIABILITY = 0.05;
+const MAX_RELIABILITY = 0.99;
+
+// Editorial forms only: an outlet retracting or correcting its own piece.
+// "Troops withdrawn", "Israel retracts claim" or "Market corrects" are news.
+const RETRACTION_RE = /^\s*\[?retract(?:ion|ed)\]?\s*[:\-–—]|\b(?:retracts|withdraws) (?:[\w'-]+ ){0,3}?(?:story|report|article|piece|column)\b|\b(?:story|report|article|piece|column) (?:has been|was) (?:withdrawn|retracted)\b/i;
+const CORRECTION_RE = /^\s*(?:\[?(?:correction|corrected|clarification|update(?:d)?: correction)\]?\s*[:\-–—]|editor'?s note\s*:)|\b(?:corrects|correction to) (?:[\w'-]+ ){0,3}?(?:story|report|article|headline|paragraph|byline|dateline|spelling|version)\b/i;
+
+export function emptyState(): ReliabilityState {
+  return { sources: {}, stories: {}, flagged: [] };
+}
+
+function emptyRecord(now: number): SourceRecord {
+  return {
+    reports: 0, firstReports: 0, wireEvaluated: 0, wireAgreed: 0,
+    corrections: 0, retractions: 0, analystConfirmed: 0, analystDisputed: 0, lastSeen: now,
+  };
+}
+
+export function detectCorrection(title: string): 'correction' | 'retraction' | null {
+  if (RETRACTION_RE.test(title)) return 'retraction';
+  if (CORRECTION_RE.test(title)) return 'correction';
+  return null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function tierPrior(tier: number): number {
+  return TIER_PRIOR[tier] ?? TIER_PRIOR[4]!;
+}
+
+/** 0-1 reliability: the tier prior, pulled toward the observed record. */
+export function reliabilityScore(record: SourceRecord | undefined, tier: number): number {
+  const prior = tierPrior(tier);
+  if (!record) return prior;
+
+  const agreement = tier === WIRE_TIER
+    ? prior
+    : (record.wireAgreed + prior * PRIOR_WEIGHT) / (record.wireEvaluated + PRIOR_WEIGHT);
+  const denom = Math.max(record.reports, MIN_REPORTS_FOR_RATES);
+  const penalty = Math.min(MAX_PENALTY,
+    (record.corrections * 0.5 + record.retractions * 2 + record.analystDisputed) / denom);
+  const bonus = Math.min(MAX_BONUS, (record.firstReports * 0.1 + record.analystConfirmed * 0.5) / denom);
+  return clamp(agreement - penalty + bonus, MIN_RELIABILITY, MAX_RELIABILITY);
+}
+
+/**
+ * Fold a batch of clusters into the track records. Each story/source pair is
+ * counted once however often the story is re-clustered. Mutates and returns
+ * `state`.
+ */
+export function observeClusters(
+  state: ReliabilityState,
+  clusters: ObservedCluster[],
+  getTier: (source: string) => number,
+  now = Date.now(),
+): ReliabilityState {
+  const record = (source: string): SourceRecord => {
+    const existing = state.sources[source];
+    if (existing) return existing;
+    const created = emptyRecord(now);
+    state.sources[source] = created;
+    return created;
+  };
+  const flagged = new Set(state.flagged);
+
+  for (const cluster of clusters) {
+    if (cluster.allItems.length === 0) continue;
+    let story = state.stories[cluster.id];
+    if (!story) {
+      story = { sources: [], firstSource: '', firstAt: Infinity, seenAt: now, evaluated: false };
+      state.stories[cluster.id] = story;
+    }
+    story.seenAt = now;
+
+    let earliest: ObservedItem | undefined;
+    for (const item of cluster.allItems) {
+      const rec = record(item.source);
+      rec.lastSeen = now;
+      if (!story.sources.includes(item.source)) {
+        story.sources.push(item.source);
+        rec.reports++;
+      }
+      if (!earliest || item.pubDate.getTime() < earliest.pubDate.getTime()) earliest = item;
+
+      if (item.link && !flagged.has(item.link)) {
+        const kind = detectCorrection(item.title);
+        if (kind) {
+          flagged.add(item.link);
+          if (kind === 'retraction') rec.retractions++;
+          else rec.corrections++;
+        }
+      }
+    }
+
+    // First-to-report only means something once a second outlet has the story.
+    if (earliest && story.sources.length > 1 && story.firstSource !== earliest.source) {
+      if (story.firstSource && state.sources[story.firstSource]) {
+        state.sources[story.firstSource]!.firstReports = Math.max(0, state.sources[story.firstSource]!.firstReports - 1);
+      }
+      story.firstSource = earliest.source;
+      record(earliest.source).firstReports++;
+    }
+    if (earliest) story.firstAt = Math.min(story.firstAt, earliest.pubDate.getTime());
+
+    if (!story.evaluated) {
+      const wirePresent = story.sources.some(s => getTier(s) === WIRE_TIER);
+      if (wirePresent || now - story.firstAt >= CORROBORATION_WINDOW_MS) {
+        story.evaluated = true;
+        for (const source of story.sources) {
+          if (getTier(source) === WIRE_TIER) continue;
+          const rec = record(source);
+          rec.wireEvaluated++;
+          if (wirePresent) rec.wireAgreed++;
+        }
+      }
+    }
+  }
+
+  state.flagged = [...flagged].slice(-MAX_FLAGGED);
+  return pruneStories(state, now);
+}
+
+function pruneStories(state: ReliabilityState, now: number): ReliabilityState {
+  let entries = Object.entries(state.stories).filter(([, s]) => now - s.seenAt <= STORY_RETENTION_MS);
+  if (entries.length > MAX_STORIES) {
+    entries = entries.sort((a, b) => b[1].seenAt - a[1].seenAt).slice(0, MAX_STORIES);
+  }
+  state.stories = Object.fromEntries(entries);
+  return state;
+}
+
+/** Score and verdict for a verification checklist, as the checklist shows them. */
+export function scoreChecklist(checkedCount: number, total: number): { score: number; verdict: ChecklistVerdict } {
+  const score = total > 0 ? Math.round((checkedCount / total) * 100) : 0;
+  let verdict: ChecklistVerdict;
+  if (score >= 90) verdict = 'verified';
+  else if (score >= 70) verdict = 'likely';
+  else if (score >= 40) verdict = 'uncertain';
+  else verdict = 'unreliable';
+  return { score, verdict };
+}
+
+function verdictEffect(verdict: ChecklistVerdict | undefined): { confirmed: number; disputed: number } {
+  if (verdict === 'verified' || verdict === 'likely') return { confirmed: 1, disputed: 0 };
+  if (verdict === 'unreliable') return { confirmed: 0, disputed: 1 };
+  return { confirmed: 0, disputed: 0 };
+}
+
+/** Move a story's analyst verdict from `previous` to `next` on its primary source's record. */
+export function applyVerdict(
+  state: ReliabilityState,
+  source: string,
+  previous: ChecklistVerdict | undefined,
+  next: ChecklistVerdict | undefined,
+  now = Date.now(),
+): ReliabilityState {
+  const before = verdictEffect(previous);
+  const after = verdictEffect(next);
+  if (before.confirmed === after.confirmed && before.disputed === after.disputed) return state;
+  const rec = state.sources[source] ?? (state.sources[source] = emptyRecord(now));
+  rec.analystConfirmed = Math.max(0, rec.analystConfirmed - before.confirmed + after.confirmed);
+  rec.analystDisputed = Math.max(0, rec.analystDisputed - before.disputed + after.disputed);
+  return state;
+}
+
+/** Confidence breakdown for one story. */
+export function clusterConfidence(
+  cluster: ObservedCluster,
+  getReliability: (source: string) => number,
+  getTier: (source: string) => number,
+  verdict?: ChecklistVerdict,
+): ClusterConfidence {
+  const sources = [...new Set(cluster.allItems.map(i => i.source))];
+  const reliabilities = sources.map(getReliability);
+  const best = reliabilities.length > 0 ? Math.max(...reliabilities) : 0;
+  const mean = reliabilities.length > 0 ? reliabilities.reduce((a, b) => a + b, 0) / reliabilities.length : 0;
+  const sourceReliability = 0.7 * best + 0.3 * mean;
+  const corroboration = sources.length > 0 ? 1 - 0.5 ** (sources.length - 1) : 0;
+  const wireConfirmed = sources.some(s => getTier(s) === WIRE_TIER);
+  const corrections = cluster.allItems.filter(i => detectCorrection(i.title)).length;
+
+  let score = 100 * clamp(
+    0.55 * sourceReliability + 0.3 * corroboration + (wireConfirmed ? 0.15 : 0) - 0.15 * Math.min(corrections, 2),
+    0, 1,
+  );
+  if (verdict === 'verified') score = Math.max(score, 90);
+  else if (verdict === 'likely') score = Math.max(score, 70);
+  else if (verdict === 'uncertain') score = Math.min(score, 60);
+  else if (verdict === 'unreliable') score = Math.min(score, 25);
+  score = Math.round(score);
+
+  return {
+    score,
+    level: score >= 75 ? 'high' : score >= 50 ? 'medium' : 'low',
+    sourceReliability: Math.round(sourceReliability * 100) / 100,
+    corroboration: Math.round(corroboration * 100) / 100,
+    wireConfirmed,
+    corrections,
+    ...(verdict && { verdict }),
+  };
+}
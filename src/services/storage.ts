@@ -1,3 +1,8 @@
+import type { MapLayers, NewsItem } from '@/types';
+import type { MapLayerData } from '@/components/MapContainer';
+import type { CountryScore } from '@/services/country-instability';
+import type { TheaterPostureSummary } from '@/services/military-surge';
+
 const DB_NAME = 'worldmonitor_db';
 const DB_VERSION = 1;
 
@@ -173,6 +178,14 @@ export interface DashboardSnapshot {
   marketPrices: Record<string, number>;
   predictions: Array<{ title: string; yesPrice: number }>;
   hotspotLevels: Record<string, string>;
+  // Fuller state, absent from snapshots recorded before server-backed playback.
+  // Layer data and per-panel news are only kept in server snapshots to bound
+  // IndexedDB size.
+  ciiScores?: CountryScore[];
+  theaterPostures?: TheaterPostureSummary[];
+  mapLayers?: MapLayers;
+  layerData?: MapLayerData;
+  newsByCategory?: Record<string, NewsItem[]>;
 }
 
 const SNAPSHOT_RETENTION_DAYS = 7;
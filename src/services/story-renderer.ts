@@ -19,6 +19,11 @@ function humanizeSignalType(type: string): string {
     explained_market_move: 'Market Move Explained',
     sector_cascade: 'Sector Cascade',
     military_surge: 'Military Surge',
+    cii_shift: 'Instability Shift',
+    geofence_hit: 'Geofence Hit',
+    airframe_deviation: 'Airframe Deviation',
+    vessel_anomaly: 'Vessel Anomaly',
+    sanctions_match: 'Sanctions Match',
     military_flight: 'Military Flights',
     internet_outage: 'Internet Outages',
     protest: 'Protests',
@@ -61,3 +61,5 @@ export async function fetchCriticalMinerals(): Promise<GetCriticalMineralsRespon
     return emptyMinerals;
   }
 }
+
+export * from './route-risk';
@@ -0,0 +1,365 @@
+/**
+ * Commodity supply-route risk: likely sea routes between an origin and a
+ * destination through the strategic waterways, scored from the three supply
+ * chain feeds — chokepoint disruption (GetChokepointStatus), production
+ * concentration (GetCriticalMinerals) and freight rate trend
+ * (GetShippingRates).
+ *
+ * Routes are the shortest basin-to-basin paths over the SEA_LINKS graph, so
+ * "likely" means the distance-ranked alternatives a carrier would weigh
+ * (Suez vs. the Cape, Malacca vs. Lombok), not AIS-observed tracks.
+ */
+
+import type { ChokepointInfo, CriticalMineral, ShippingIndex } from '@/generated/client/worldmonitor/supply_chain/v1/service_client';
+import type { TradeRouteCategory } from '@/config/trade-routes';
+import { STRATEGIC_WATERWAYS } from '@/config/geo';
+import {
+  COMMODITY_PROFILES,
+  SEA_BASINS,
+  SEA_LINKS,
+  SUPPLY_LOCATIONS,
+  type CommodityProfile,
+  type SeaBasinId,
+  type SeaLink,
+  type SupplyLocation,
+} from '@/config/supply-routes';
+
+export type RouteRiskLevel = 'critical' | 'high' | 'moderate' | 'low';
+
+export interface RouteRiskQuery {
+  commodity: CommodityProfile;
+  origin: SupplyLocation;
+  destination: SupplyLocation;
+}
+
+export type RouteRiskParseError = 'format' | 'origin' | 'destination' | 'same';
+
+export type RouteRiskParseResult =
+  | { ok: true; query: RouteRiskQuery }
+  | { ok: false; error: RouteRiskParseError; value?: string };
+
+export interface RouteWaypoint {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  /** False for open-sea passages (Cape of Good Hope, ...). */
+  waterway: boolean;
+  /** Chokepoint disruption score 0-100; null when the feed doesn't cover it. */
+  score: number | null;
+  status?: string;
+}
+
+export interface SupplyRoute {
+  id: string;
+  waypoints: RouteWaypoint[];
+  /** [lon, lat] from origin port to destination port. */
+  path: [number, number][];
+  distanceKm: number;
+  /** Chance any scored chokepoint on the route is disrupted, 0-100. */
+  chokepointRisk: number | null;
+  risk: number;
+  level: RouteRiskLevel;
+}
+
+export interface ConcentrationRisk {
+  mineral: string;
+  hhi: number;
+  /** Origin country's share of world production, when it is a top producer. */
+  originSharePct: number | null;
+  score: number;
+}
+
+export interface RateTrend {
+  indexName: string;
+  /** Change over the last RATE_TREND_POINTS observations. */
+  changePct: number;
+  spikeAlert: boolean;
+  score: number;
+}
+
+export interface RouteRiskAssessment {
+  query: RouteRiskQuery;
+  /** Shortest (most likely) first. */
+  routes: SupplyRoute[];
+  concentration: ConcentrationRisk | null;
+  rateTrend: RateTrend | null;
+  /** Risk of the most likely route. */
+  risk: number;
+  level: RouteRiskLevel;
+}
+
+/** What the map draws: every route of an assessment, the selected one emphasised. */
+export interface SupplyRouteHighlight {
+  routes: SupplyRoute[];
+  selectedId: string;
+}
+
+export interface RouteRiskInputs {
+  chokepoints?: ChokepointInfo[];
+  minerals?: CriticalMineral[];
+  shipping?: ShippingIndex[];
+}
+
+export const RISK_WEIGHTS = { chokepoints: 0.5, concentration: 0.3, rates: 0.2 } as const;
+/** Alternatives longer than this multiple of the shortest are dropped (Gulf→Europe via the Cape is ~1.8x). */
+const MAX_DETOUR = 2;
+const MAX_ROUTES = 4;
+const RATE_TREND_POINTS = 6;
+
+const RATE_INDEX_PATTERNS: Record<TradeRouteCategory, RegExp> = {
+  container: /container|scfi|harpex|drewry|wci/i,
+  energy: /tanker|vlcc|suezmax|lng|crude/i,
+  bulk: /dry|bulk|capesize|panamax/i,
+};
+const GENERIC_RATE_INDEX = /deep sea|ocean|freight/i;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+export function riskLevel(score: number): RouteRiskLevel {
+  if (score >= 70) return 'critical';
+  if (score >= 45) return 'high';
+  if (score >= 25) return 'moderate';
+  return 'low';
+}
+
+// ---- Parsing ----
+
+export function findLocation(value: string): SupplyLocation | null {
+  const key = normalize(value);
+  return SUPPLY_LOCATIONS.find(l => l.aliases.includes(key)) ?? null;
+}
+
+/** Longest alias of `items` that `text` starts with, and what follows it. */
+function matchPrefix<T extends { aliases: string[] }>(text: string, items: T[]): { item: T; rest: string } | null {
+  let best: { item: T; alias: string } | null = null;
+  for (const item of items) {
+    for (const alias of item.aliases) {
+      if ((text === alias || text.startsWith(`${alias} `)) && alias.length > (best?.alias.length ?? 0)) best = { item, alias };
+    }
+  }
+  return best ? { item: best.item, rest: text.slice(best.alias.length).trim() } : null;
+}
+
+/**
+ * "cobalt DRC→China", "LNG Qatar -> EU", "crude oil from Iraq to India".
+ * Commodities outside COMMODITY_PROFILES are kept as general cargo.
+ */
+export function parseRouteQuery(input: string): RouteRiskParseResult {
+  const parts = normalize(input).replace(/\s+from\s+/, ' ').split(/\s*(?:→|->|=>|>|\s+to\s+)\s*/);
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return { ok: false, error: 'format' };
+  const [left, right] = parts as [string, string];
+
+  const destination = findLocation(right);
+  if (!destination) return { ok: false, error: 'destination', value: right };
+
+  let commodity: CommodityProfile | null = null;
+  let origin: SupplyLocation | null = null;
+  const known = matchPrefix(left, COMMODITY_PROFILES);
+  if (known && known.rest) {
+    commodity = known.item;
+    origin = findLocation(known.rest);
+    if (!origin) return { ok: false, error: 'origin', value: known.rest };
+  } else {
+    const words = left.split(' ');
+    for (let i = 1; i < words.length && !origin; i++) {
+      origin = findLocation(words.slice(i).join(' '));
+      if (origin) commodity = { id: 'cargo', name: words.slice(0, i).join(' '), aliases: [], category: 'container' };
+    }
+  }
+  if (!commodity || !origin) return { ok: false, error: left.includes(' ') ? 'origin' : 'format', value: left };
+
+  if (origin.id === destination.id) return { ok: false, error: 'same' };
+  return { ok: true, query: { commodity, origin, destination } };
+}
+
+// ---- Routing ----
+
+interface BasinPath {
+  links: SeaLink[];
+  basins: SeaBasinId[];
+}
+
+const neighbour = (link: SeaLink, basin: SeaBasinId) => (link.a === basin ? link.b : link.b === basin ? link.a : null);
+
+/**
+ * Every simple basin path from `from` to `to` (the graph is small). A path
+ * that loops back next to a basin it could have left by open sea is skipped:
+ * detouring is only worth it to avoid a chokepoint.
+ */
+function basinPaths(from: SeaBasinId, to: SeaBasinId): BasinPath[] {
+  const paths: BasinPath[] = [];
+  const walk = (basin: SeaBasinId, path: BasinPath) => {
+    if (basin === to) {
+      paths.push(path);
+      return;
+    }
+    for (const link of SEA_LINKS) {
+      const next = neighbour(link, basin);
+      if (!next || path.basins.includes(next)) continue;
+      const shortcut = SEA_LINKS.some(l => !l.waterway && l !== link
+        && path.basins.slice(0, -1).includes(neighbour(l, next)!));
+      if (shortcut) continue;
+      walk(next, { links: [...path.links, link], basins: [...path.basins, next] });
+    }
+  };
+  walk(from, { links: [], basins: [from] });
+  return paths;
+}
+
+function chokepointFor(waterwayId: string, name: string, chokepoints: ChokepointInfo[]): ChokepointInfo | undefined {
+  const key = normalize(name);
+  return chokepoints.find(cp => cp.id === waterwayId || `${cp.id}_strait` === waterwayId || normalize(cp.name) === key);
+}
+
+/** "STRAIT OF GIBRALTAR" → "Strait of Gibraltar" for waterways the feed doesn't name. */
+function displayName(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s-])(\w)/g, (_, sep: string, ch: string) => sep + ch.toUpperCase()).replace(/ Of /g, ' of ');
+}
+
+function toWaypoint(link: SeaLink, chokepoints: ChokepointInfo[]): RouteWaypoint | null {
+  if (link.passage) return { ...link.passage, waterway: false, score: null };
+  const waterway = link.waterway ? STRATEGIC_WATERWAYS.find(w => w.id === link.waterway) : undefined;
+  if (!waterway) return null;
+  const cp = chokepointFor(waterway.id, waterway.name, chokepoints);
+  return {
+    id: waterway.id,
+    name: cp?.name ?? displayName(waterway.name),
+    lat: waterway.lat,
+    lon: waterway.lon,
+    waterway: true,
+    score: cp ? clamp(cp.disruptionScore) : null,
+    ...(cp && { status: cp.status }),
+  };
+}
+
+/** 1 - Π(1 - p): the chance at least one scored chokepoint is disrupted. */
+function combineChokepoints(waypoints: RouteWaypoint[]): number | null {
+  const scored = waypoints.filter(w => w.score !== null);
+  if (waypoints.some(w => w.waterway) && scored.length === 0) return null;
+  return clamp(100 * (1 - scored.reduce((p, w) => p * (1 - w.score! / 100), 1)));
+}
+
+const isOpenSea = (link: SeaLink | undefined) => !!link && !link.waterway && !link.passage;
+
+function buildRoute(query: RouteRiskQuery, basinPath: BasinPath, chokepoints: ChokepointInfo[]): SupplyRoute {
+  const { origin, destination } = query;
+  const waypoints: RouteWaypoint[] = [];
+  const path: [number, number][] = [[origin.lon, origin.lat]];
+  basinPath.basins.forEach((basinId, i) => {
+    // Crossing a basin on open sea goes through its centre, not over land.
+    if (isOpenSea(basinPath.links[i - 1]) || isOpenSea(basinPath.links[i])) {
+      const basin = SEA_BASINS.find(b => b.id === basinId);
+      if (basin) path.push([basin.lon, basin.lat]);
+    }
+    const link = basinPath.links[i];
+    const waypoint = link ? toWaypoint(link, chokepoints) : null;
+    if (waypoint) {
+      waypoints.push(waypoint);
+      path.push([waypoint.lon, waypoint.lat]);
+    }
+  });
+  path.push([destination.lon, destination.lat]);
+
+  let distanceKm = 0;
+  for (let i = 1; i < path.length; i++) {
+    distanceKm += haversineKm(path[i - 1]![1], path[i - 1]![0], path[i]![1], path[i]![0]);
+  }
+  return {
+    id: waypoints.map(w => w.id).join('>') || 'direct',
+    waypoints,
+    path,
+    distanceKm: Math.round(distanceKm),
+    chokepointRisk: combineChokepoints(waypoints),
+    risk: 0,
+    level: 'low',
+  };
+}
+
+/**
+ * Distance-ranked routes. An alternative that passes every waypoint of a
+ * shorter one plus more (a loop through an extra strait) is not a real
+ * alternative and is dropped.
+ */
+export function findSupplyRoutes(query: RouteRiskQuery, chokepoints: ChokepointInfo[] = []): SupplyRoute[] {
+  const routes = basinPaths(query.origin.basin, query.destination.basin)
+    .map(p => buildRoute(query, p, chokepoints))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+  const shortest = routes[0]?.distanceKm ?? 0;
+  const kept: SupplyRoute[] = [];
+  for (const route of routes) {
+    if (kept.length === MAX_ROUTES || route.distanceKm > shortest * MAX_DETOUR) break;
+    const ids = new Set(route.waypoints.map(w => w.id));
+    if (kept.some(k => k.waypoints.every(w => ids.has(w.id)))) continue;
+    kept.push(route);
+  }
+  return kept;
+}
+
+// ---- Scoring ----
+
+/** HHI 5000+ (the "critical" rating) scores 100; a dominant origin raises it. */
+export function scoreConcentration(query: RouteRiskQuery, minerals: CriticalMineral[]): ConcentrationRisk | null {
+  const name = query.commodity.mineral;
+  const mineral = name ? minerals.find(m => normalize(m.mineral) === normalize(name)) : undefined;
+  if (!mineral) return null;
+  const { origin } = query;
+  const producer = mineral.topProducers.find(p =>
+    (origin.countryCode && p.countryCode === origin.countryCode) || origin.aliases.includes(normalize(p.country)));
+  const originSharePct = producer ? producer.sharePct : null;
+  return {
+    mineral: mineral.mineral,
+    hhi: mineral.hhi,
+    originSharePct,
+    score: Math.round(Math.max(clamp(mineral.hhi / 50), originSharePct ?? 0)),
+  };
+}
+
+/** Rising freight rates score up to 100 at +20% over the window; a spike at least 75. */
+export function scoreRateTrend(category: TradeRouteCategory, indices: ShippingIndex[]): RateTrend | null {
+  const index = indices.find(i => RATE_INDEX_PATTERNS[category].test(i.name))
+    ?? indices.find(i => GENERIC_RATE_INDEX.test(i.name))
+    ?? indices[0];
+  if (!index) return null;
+  const values = index.history.map(h => h.value).filter(Number.isFinite).slice(-RATE_TREND_POINTS);
+  const first = values[0];
+  const last = values[values.length - 1];
+  const changePct = values.length >= 2 && first ? ((last! - first) / first) * 100 : index.changePct;
+  const score = Math.max(clamp(changePct * 5), index.spikeAlert ? 75 : 0);
+  return { indexName: index.name, changePct, spikeAlert: index.spikeAlert, score: Math.round(score) };
+}
+
+/** Weighted mean of the components that have data. */
+function combineRisk(parts: Array<[number | null, number]>): number {
+  const present = parts.filter((p): p is [number, number] => p[0] !== null);
+  const weight = present.reduce((sum, [, w]) => sum + w, 0);
+  return weight > 0 ? Math.round(present.reduce((sum, [score, w]) => sum + score * w, 0) / weight) : 0;
+}
+
+export function assessRouteRisk(query: RouteRiskQuery, inputs: RouteRiskInputs = {}): RouteRiskAssessment {
+  const concentration = scoreConcentration(query, inputs.minerals ?? []);
+  const rateTrend = scoreRateTrend(query.commodity.category, inputs.shipping ?? []);
+  const routes = findSupplyRoutes(query, inputs.chokepoints ?? []).map((route) => {
+    const risk = combineRisk([
+      [route.chokepointRisk, RISK_WEIGHTS.chokepoints],
+      [concentration?.score ?? null, RISK_WEIGHTS.concentration],
+      [rateTrend?.score ?? null, RISK_WEIGHTS.rates],
+    ]);
+    return { ...route, risk, level: riskLevel(risk) };
+  });
+  const risk = routes[0]?.risk ?? 0;
+  return { query, routes, concentration, rateTrend, risk, level: riskLevel(risk) };
+}
@@ -0,0 +1,72 @@
+import {
+  TradingServiceClient,
+  type GetTradingSignalsResponse,
+  type GetTradingStatusResponse,
+  type GetTradingAccountResponse,
+  type GetTradingPortfolioResponse,
+  type ListTradingPositionsResponse,
+  type TradingSignal,
+  type TradingAction,
+  type TradingAccount,
+  type TradingPosition,
+  type TradeRecord,
+  type EquityPoint,
+  type PortfolioMetrics,
+  type RiskControls,
+  type TradingSchedule,
+} from '@/generated/client/worldmonitor/trading/v1/service_client';
+import { createCircuitBreaker } from '@/utils';
+
+export type {
+  GetTradingSignalsResponse,
+  GetTradingStatusResponse,
+  GetTradingAccountResponse,
+  GetTradingPortfolioResponse,
+  ListTradingPositionsResponse,
+  TradingSignal,
+  TradingAction,
+  TradingAccount,
+  TradingPosition,
+  TradeRecord,
+  EquityPoint,
+  PortfolioMetrics,
+  RiskControls,
+  TradingSchedule,
+};
+
+const client = new TradingServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+// Short TTLs: panels poll every 3 minutes and the paper broker executes hourly
+const signalsBreaker = createCircuitBreaker<GetTradingSignalsResponse | null>({ name: 'Trading Signals', cacheTtlMs: 2 * 60 * 1000 });
+const statusBreaker = createCircuitBreaker<GetTradingStatusResponse | null>({ name: 'Trading Status', cacheTtlMs: 2 * 60 * 1000 });
+const accountBreaker = createCircuitBreaker<GetTradingAccountResponse | null>({ name: 'Trading Account', cacheTtlMs: 2 * 60 * 1000 });
+const portfolioBreaker = createCircuitBreaker<GetTradingPortfolioResponse | null>({ name: 'Trading Portfolio', cacheTtlMs: 2 * 60 * 1000 });
+const positionsBreaker = createCircuitBreaker<ListTradingPositionsResponse | null>({ name: 'Trading Positions', cacheTtlMs: 2 * 60 * 1000 });
+
+/** Display label for a proto TradingAction ("TRADING_ACTION_BUY" → "BUY"). */
+export function tradingActionLabel(action: TradingAction): 'BUY' | 'SELL' | 'HOLD' {
+  if (action === 'TRADING_ACTION_BUY') return 'BUY';
+  if (action === 'TRADING_ACTION_SELL') return 'SELL';
+  return 'HOLD';
+}
+
+/** Signals for the server watchlist. Resolves null when the trading API is unreachable. */
+export async function fetchTradingSignals(): Promise<GetTradingSignalsResponse | null> {
+  return signalsBreaker.execute(() => client.getTradingSignals({ symbols: [] }), null);
+}
+
+export async function fetchTradingStatus(): Promise<GetTradingStatusResponse | null> {
+  return statusBreaker.execute(() => client.getTradingStatus({}), null);
+}
+
+export async function fetchTradingAccount(): Promise<GetTradingAccountResponse | null> {
+  return accountBreaker.execute(() => client.getTradingAccount({}), null);
+}
+
+export async function fetchTradingPortfolio(): Promise<GetTradingPortfolioResponse | null> {
+  return portfolioBreaker.execute(() => client.getTradingPortfolio({}), null);
+}
+
+export async function fetchTradingPositions(tradeLimit = 20): Promise<ListTradingPositionsResponse | null> {
+  return positionsBreaker.execute(() => client.listTradingPositions({ tradeLimit }), null);
+}
@@ -47,7 +47,7 @@ const emptyFallback: ListFireDetectionsResponse = { fireDetections: [] };
 
 export async function fetchAllFires(_days?: number): Promise<FetchResult> {
   const response = await breaker.execute(async () => {
-    return client.listFireDetections({});
+    return client.listFireDetections({ country: '' });
   }, emptyFallback);
   const detections = response.fireDetections;
 
@@ -8,6 +8,7 @@ export interface Feed {
   propagandaRisk?: PropagandaRisk;
   stateAffiliated?: string;  // e.g., "Russia", "China", "Iran"
   lang?: string;             // ISO 2-letter code for filtering
+  format?: 'json' | 'telegram'; // non-XML payloads (user-added feeds); RSS/Atom when unset
 }
 
 export type { ThreatClassification, ThreatLevel, EventCategory } from '@/services/threat-classifier';
@@ -60,6 +61,8 @@ export interface ClusteredEvent {
   lat?: number;
   lon?: number;
   lang?: string;
+  /** Source reliability / corroboration breakdown, attached after clustering. */
+  confidence?: import('@/services/source-reliability/scoring').ClusterConfidence;
 }
 
 export type AssetType = 'pipeline' | 'cable' | 'datacenter' | 'base' | 'nuclear';
@@ -183,6 +186,28 @@ export interface AisDisruptionEvent {
   description: string;
 }
 
+export type AisVesselEventType = 'ais_gap' | 'loitering' | 'rendezvous' | 'speed_anomaly' | 'course_anomaly';
+
+/** Behaviour of one vessel (or a pair) derived by the relay from AIS history. */
+export interface AisVesselEvent {
+  id: string;
+  type: AisVesselEventType;
+  mmsi: string;
+  name: string;
+  shipType?: number;
+  otherMmsi?: string;
+  otherName?: string;
+  lat: number;
+  lon: number;
+  startedAt: number;
+  endedAt: number;
+  ongoing: boolean;
+  waterway?: string;
+  distanceKm?: number;
+  severity: 'low' | 'elevated' | 'high';
+  description: string;
+}
+
 export interface AisDensityZone {
   id: string;
   name: string;
@@ -201,6 +226,12 @@ export interface APTGroup {
   sponsor: string;
   lat: number;
   lon: number;
+  /** ISO 3166-1 alpha-2 code of the sponsor state (its country entity id). */
+  sponsorCode?: string;
+  /** Lowercase names the group goes by in feed tags. */
+  aliases?: string[];
+  /** Lowercase malware families publicly tied to the group. */
+  malware?: string[];
 }
 
 export type CyberThreatType = 'c2_server' | 'malware_host' | 'phishing' | 'malicious_url';
@@ -222,6 +253,8 @@ export interface CyberThreat {
   tags: string[];
   firstSeen?: string;
   lastSeen?: string;
+  asn?: string;
+  asName?: string;
 }
 
 export interface ConflictZone {
@@ -468,6 +501,8 @@ export interface Earthquake {
   url: string;
 }
 
+export type GeofenceLayer = 'earthquakes' | 'fires' | 'unrest' | 'outages' | 'flights' | 'vessels' | 'shipping';
+
 export interface Monitor {
   id: string;
   keywords: string[];
@@ -475,6 +510,8 @@ export interface Monitor {
   name?: string;
   lat?: number;
   lon?: number;
+  radiusKm?: number;          // Geofence around lat/lon; unset = headlines only
+  layers?: GeofenceLayer[];   // Layers matched inside the geofence; empty = all
 }
 
 export interface PanelConfig {
@@ -936,7 +973,10 @@ export interface NaturalEvent {
 }
 
 // Infrastructure Cascade Types
-export type InfrastructureNodeType = 'cable' | 'pipeline' | 'port' | 'chokepoint' | 'country' | 'route';
+export type InfrastructureNodeType =
+  | 'cable' | 'pipeline' | 'port' | 'chokepoint' | 'country' | 'route'
+  // User-imported assets
+  | 'datacenter' | 'landing_station' | 'power_plant' | 'facility';
 
 export interface InfrastructureNode {
   id: string;
@@ -990,10 +1030,24 @@ export interface CascadeCountryImpact {
   impactLevel: CascadeImpactLevel;
   affectedCapacity: number;
   criticalSectors?: string[];
+  sources?: string[];         // Scenario source IDs reaching this country
+  redundancyAvailable?: boolean;
+}
+
+export interface CascadeScenarioSource {
+  nodeId: string;
+  disruption: number;     // 0-1 share of capacity lost
+}
+
+export interface CascadeScenario {
+  sources: CascadeScenarioSource[];
+  maxDepth?: number;
 }
 
 export interface CascadeResult {
   source: InfrastructureNode;
+  sources?: { node: InfrastructureNode; disruption: number }[];
+  maxDepth?: number;
   affectedNodes: CascadeAffectedNode[];
   countriesAffected: CascadeCountryImpact[];
   economicImpact?: {
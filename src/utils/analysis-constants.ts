@@ -243,7 +243,12 @@ export type SignalType =
   | 'explained_market_move'
   | 'hotspot_escalation'
   | 'sector_cascade'
-  | 'military_surge';
+  | 'military_surge'
+  | 'cii_shift'
+  | 'geofence_hit'
+  | 'airframe_deviation'
+  | 'vessel_anomaly'
+  | 'sanctions_match';
 
 export interface SignalContext {
   whyItMatters: string;
@@ -322,6 +327,31 @@ export const SIGNAL_CONTEXT: Record<SignalType, SignalContext> = {
     actionableInsight: 'Correlate with regional news; assess nearby base activity and naval movements.',
     confidenceNote: 'Higher confidence with sustained activity over multiple hours and diverse aircraft types.',
   },
+  cii_shift: {
+    whyItMatters: 'A country\'s instability index moved sharply within 24 hours—unrest, conflict, security or information pressure is changing faster than its usual drift.',
+    actionableInsight: 'Open the country brief to see which component drove the move and check recent headlines for the trigger.',
+    confidenceNote: 'Higher confidence for larger moves and when several components rise together.',
+  },
+  geofence_hit: {
+    whyItMatters: 'Activity was detected inside an area you are monitoring—earthquakes, fires, unrest, outages, military aircraft or vessels within the monitor\'s radius.',
+    actionableInsight: 'Open the monitor hit log to see what entered the geofence and how often it has happened recently.',
+    confidenceNote: 'Reflects the source layer; AI-derived fallback data is less reliable than sensor feeds.',
+  },
+  airframe_deviation: {
+    whyItMatters: 'A military airframe with a week of tracked history turned up far outside the area it usually operates in—often a redeployment, a new tasking or a surge toward a crisis.',
+    actionableInsight: 'Open the aircraft in Flight Tracks to replay its recent sorties, and check whether other airframes of the same type or operator moved too.',
+    confidenceNote: 'Higher confidence when the usual area was learned from several days of positions; coverage gaps can make an area look smaller than it is.',
+  },
+  vessel_anomaly: {
+    whyItMatters: 'A vessel went dark, loitered, met another ship at sea or behaved abnormally in a chokepoint—patterns associated with sanctions evasion, ship-to-ship transfers, smuggling and pre-incident reconnaissance.',
+    actionableInsight: 'Check the flag, owner and recent port calls of the vessels involved, and whether other vessels near the same waterway behave the same way.',
+    confidenceNote: 'Derived from terrestrial AIS, which has coverage gaps offshore; a single gap or slow period can be innocent, repeated events are more telling.',
+  },
+  sanctions_match: {
+    whyItMatters: 'A vessel, aircraft or company in the feed matches an entry on an imported sanctions list—sanctioned ships and airframes moving in view, or a listed company in the news, can point to evasion networks and enforcement action.',
+    actionableInsight: 'Open the Sanctions panel to compare the listing with the subject, and check the programme, aliases and remarks before treating it as confirmed.',
+    confidenceNote: 'IMO, MMSI and tail-number matches are strong; name matches are weaker because names are shared and lists may be out of date.',
+  },
 };
 
 import { t } from '@/services/i18n';
@@ -1,8 +1,14 @@
 import type { NewsItem, ClusteredEvent, MarketData } from '@/types';
 import type { PredictionMarket } from '@/services/prediction';
+import { hitsToCSV, hitsToGeoJSON, type MonitorHit } from '@/services/geofence/match';
+import { toGeoJSON, toKML, type GisLayer } from './gis-export';
+import { toGeoPackage } from './geopackage';
+import { renderHtml, renderReportFile, type Report, type ReportFormat } from '@/services/reports/compose';
+import type { StixBundle } from '@/services/cyber/stix';
 import { t } from '@/services/i18n';
 
 type ExportFormat = 'json' | 'csv';
+export type MapExportFormat = 'geojson' | 'kml' | 'gpkg';
 
 interface ExportData {
   news?: NewsItem[] | ClusteredEvent[];
@@ -125,11 +131,66 @@ export function exportCountryBriefCSV(data: CountryBriefExport): void {
   downloadFile(lines.join('\n'), `country-brief-${data.code}-${timestamp}.csv`, 'text/csv');
 }
 
+export function exportMonitorHits(hits: MonitorHit[], monitorNames: Record<string, string>, format: 'csv' | 'geojson'): void {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  if (format === 'csv') {
+    downloadFile(hitsToCSV(hits, monitorNames), `monitor-hits-${timestamp}.csv`, 'text/csv');
+  } else {
+    downloadFile(hitsToGeoJSON(hits, monitorNames), `monitor-hits-${timestamp}.geojson`, 'application/geo+json');
+  }
+}
+
+export function exportMapLayers(layers: GisLayer[], format: MapExportFormat, filename = 'worldmonitor-layers'): void {
+  if (format === 'geojson') {
+    downloadFile(toGeoJSON(layers), `${filename}.geojson`, 'application/geo+json');
+  } else if (format === 'kml') {
+    downloadFile(toKML(layers), `${filename}.kml`, 'application/vnd.google-earth.kml+xml');
+  } else {
+    downloadFile(toGeoPackage(layers), `${filename}.gpkg`, 'application/geopackage+sqlite3');
+  }
+}
+
+/** Download a report, or open the print dialog for PDF (Save as PDF). */
+export function exportReport(report: Report, format: ReportFormat): void {
+  if (format === 'pdf') {
+    printHtml(renderHtml(report));
+    return;
+  }
+  const { filename, content, mimeType } = renderReportFile(report, format);
+  downloadFile(content, filename, mimeType);
+}
+
+export function exportStixBundle(bundle: StixBundle, filename = 'worldmonitor-cyber-iocs'): void {
+  downloadFile(JSON.stringify(bundle, null, 2), `${filename}.stix.json`, 'application/stix+json;version=2.1');
+}
+
+export function exportCustomFeeds(opml: string, filename = 'worldmonitor-feeds'): void {
+  downloadFile(opml, `${filename}.opml`, 'text/x-opml');
+}
+
 function csvRow(values: string[]): string {
   return values.map(v => `"${(v || '').replace(/"/g, '""')}"`).join(',');
 }
 
-function downloadFile(content: string, filename: string, mimeType: string): void {
+function printHtml(html: string): void {
+  const iframe = document.createElement('iframe');
+  iframe.style.cssText = 'position:fixed;left:-9999px;width:0;height:0;border:none';
+  document.body.appendChild(iframe);
+  const doc = iframe.contentDocument || iframe.contentWindow?.document;
+  if (!doc) { document.body.removeChild(iframe); return; }
+
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  iframe.contentWindow!.onafterprint = () => document.body.removeChild(iframe);
+  setTimeout(() => {
+    iframe.contentWindow!.print();
+    setTimeout(() => { if (iframe.parentNode) document.body.removeChild(iframe); }, 5000);
+  }, 300);
+}
+
+function downloadFile(content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -145,16 +206,28 @@ export class ExportPanel {
   private element: HTMLElement;
   private isOpen = false;
   private getData: () => ExportData;
+  private getMapLayers?: () => GisLayer[];
+  private onReport?: () => void;
 
-  constructor(getDataFn: () => ExportData) {
+  constructor(getDataFn: () => ExportData, getMapLayersFn?: () => GisLayer[], onReportFn?: () => void) {
     this.getData = getDataFn;
+    this.getMapLayers = getMapLayersFn;
+    this.onReport = onReportFn;
     this.element = document.createElement('div');
     this.element.className = 'export-panel-container';
+    const mapOptions = getMapLayersFn ? `
+        <div class="export-menu-label">${t('common.exportMapLayers')}</div>
+        <button class="export-option" data-format="geojson">GeoJSON</button>
+        <button class="export-option" data-format="kml">KML</button>
+        <button class="export-option" data-format="gpkg">GeoPackage</button>` : '';
+    const reportOption = onReportFn ? `
+        <div class="export-menu-label">${t('common.exportReportLabel')}</div>
+        <button class="export-option" data-format="report">${t('common.exportReport')}</button>` : '';
     this.element.innerHTML = `
       <button class="export-btn" title="${t('common.exportData')}">⬇</button>
       <div class="export-menu hidden">
         <button class="export-option" data-format="csv">${t('common.exportCsv')}</button>
-        <button class="export-option" data-format="json">${t('common.exportJson')}</button>
+        <button class="export-option" data-format="json">${t('common.exportJson')}</button>${mapOptions}${reportOption}
       </div>
     `;
 
@@ -179,17 +252,26 @@ export class ExportPanel {
 
     this.element.querySelectorAll('.export-option').forEach(option => {
       option.addEventListener('click', () => {
-        const format = (option as HTMLElement).dataset.format as ExportFormat;
-        this.export(format);
+        const format = (option as HTMLElement).dataset.format as ExportFormat | MapExportFormat | 'report';
+        if (format === 'report') {
+          this.onReport?.();
+        } else {
+          this.export(format);
+        }
         this.isOpen = false;
         menu.classList.add('hidden');
       });
     });
   }
 
-  private export(format: ExportFormat): void {
-    const data = this.getData();
+  private export(format: ExportFormat | MapExportFormat): void {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'geojson' || format === 'kml' || format === 'gpkg') {
+      exportMapLayers(this.getMapLayers?.() ?? [], format, `worldmonitor-layers-${timestamp}`);
+      return;
+    }
+
+    const data = this.getData();
     const filename = `worldmonitor-${timestamp}`;
 
     if (format === 'json') {
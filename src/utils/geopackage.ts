@@ -0,0 +1,492 @@
+/**
+ * Minimal GeoPackage (OGC 1.3) writer.
+ *
+ * A GeoPackage is an SQLite database, so this module serialises one directly:
+ * table b-trees (with overflow pages for large rows), the single-page
+ * autoindexes the GeoPackage core tables declare, and the sqlite_master
+ * schema on page 1. It only writes fresh databases in one pass; there is no
+ * update path. Each layer becomes a feature table with an EPSG:4326
+ * geometry column and one column per property.
+ */
+
+import { geometryEnvelope, type GisGeometry, type GisLayer, type GisValue } from './gis-export';
+
+const PAGE_SIZE = 4096;
+const MAX_LOCAL = PAGE_SIZE - 35;
+const MIN_LOCAL = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+const MAX_INDEX_LOCAL = Math.floor(((PAGE_SIZE - 12) * 64) / 255) - 23;
+
+const PAGE_TABLE_LEAF = 0x0d;
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_INDEX_LEAF = 0x0a;
+
+const GPKG_APPLICATION_ID = 0x47504b47; // 'GPKG'
+const GPKG_USER_VERSION = 10300;
+const SQLITE_VERSION_NUMBER = 3045000;
+const WGS84_SRS_ID = 4326;
+
+const WGS84_WKT = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],'
+  + 'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],'
+  + 'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+type SqlValue = string | number | Uint8Array | null;
+
+interface TableRow {
+  rowid: number;
+  values: SqlValue[];
+}
+
+const textEncoder = new TextEncoder();
+
+// ---------------------------------------------------------------------------
+// SQLite encoding
+// ---------------------------------------------------------------------------
+
+function varint(value: number): number[] {
+  let v = BigInt.asUintN(64, BigInt(value));
+  if (v > 0x00ffffffffffffffn) {
+    const out = new Array<number>(9);
+    out[8] = Number(v & 0xffn);
+    v >>= 8n;
+    for (let i = 7; i >= 0; i--) {
+      out[i] = Number(v & 0x7fn) | 0x80;
+      v >>= 7n;
+    }
+    return out;
+  }
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(Number(v & 0x7fn));
+    v >>= 7n;
+  } while (v > 0n);
+  for (let i = 0; i < bytes.length - 1; i++) bytes[i]! |= 0x80;
+  return bytes;
+}
+
+function intBytes(value: number, size: number): number[] {
+  let v = BigInt.asUintN(size * 8, BigInt(value));
+  const out = new Array<number>(size);
+  for (let i = size - 1; i >= 0; i--) {
+    out[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return out;
+}
+
+function integerSerialType(v: number): [number, number] {
+  if (v === 0) return [8, 0];
+  if (v === 1) return [9, 0];
+  if (v >= -0x80 && v <= 0x7f) return [1, 1];
+  if (v >= -0x8000 && v <= 0x7fff) return [2, 2];
+  if (v >= -0x800000 && v <= 0x7fffff) return [3, 3];
+  if (v >= -0x80000000 && v <= 0x7fffffff) return [4, 4];
+  if (Math.abs(v) < 2 ** 47) return [5, 6];
+  return [6, 8];
+}
+
+/** Encode values in the SQLite record format (schema format 4). */
+export function encodeRecord(values: SqlValue[]): Uint8Array {
+  const types: number[] = [];
+  const body: number[] = [];
+  for (const value of values) {
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) {
+      types.push(0);
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      const [type, size] = integerSerialType(value);
+      types.push(type);
+      if (size > 0) body.push(...intBytes(value, size));
+    } else if (typeof value === 'number') {
+      types.push(7);
+      const buf = new DataView(new ArrayBuffer(8));
+      buf.setFloat64(0, value);
+      body.push(...new Uint8Array(buf.buffer));
+    } else if (typeof value === 'string') {
+      const bytes = textEncoder.encode(value);
+      types.push(bytes.length * 2 + 13);
+      body.push(...bytes);
+    } else {
+      types.push(value.length * 2 + 12);
+      body.push(...value);
+    }
+  }
+  const typeBytes = types.flatMap(t => varint(t));
+  let headerSize = typeBytes.length + 1;
+  while (varint(headerSize).length + typeBytes.length !== headerSize) {
+    headerSize = varint(headerSize).length + typeBytes.length;
+  }
+  return Uint8Array.from([...varint(headerSize), ...typeBytes, ...body]);
+}
+
+class PageStore {
+  readonly pages: Uint8Array[] = [];
+
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  get(pageNumber: number): Uint8Array {
+    return this.pages[pageNumber - 1]!;
+  }
+}
+
+function writeOverflow(store: PageStore, data: Uint8Array): number {
+  const chunk = PAGE_SIZE - 4;
+  let first = 0;
+  let previous: Uint8Array | null = null;
+  for (let offset = 0; offset < data.length; offset += chunk) {
+    const pageNumber = store.allocate();
+    const page = store.get(pageNumber);
+    page.set(data.subarray(offset, offset + chunk), 4);
+    if (previous) new DataView(previous.buffer).setUint32(0, pageNumber);
+    else first = pageNumber;
+    previous = page;
+  }
+  return first;
+}
+
+function tableLeafCell(store: PageStore, row: TableRow): Uint8Array {
+  const payload = encodeRecord(row.values);
+  const head = [...varint(payload.length), ...varint(row.rowid)];
+  if (payload.length <= MAX_LOCAL) return Uint8Array.from([...head, ...payload]);
+
+  const k = MIN_LOCAL + ((payload.length - MIN_LOCAL) % (PAGE_SIZE - 4));
+  const local = k <= MAX_LOCAL ? k : MIN_LOCAL;
+  const overflowPage = writeOverflow(store, payload.subarray(local));
+  return Uint8Array.from([...head, ...payload.subarray(0, local), ...intBytes(overflowPage, 4)]);
+}
+
+function pageFits(cells: Uint8Array[], headerOffset: number, headerSize: number): boolean {
+  const used = cells.reduce((sum, cell) => sum + cell.length + 2, headerOffset + headerSize);
+  return used <= PAGE_SIZE;
+}
+
+function writeBtreePage(page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild = 0): void {
+  const view = new DataView(page.buffer);
+  const interior = type === PAGE_TABLE_INTERIOR;
+  const pointerBase = headerOffset + (interior ? 12 : 8);
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, i) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(pointerBase + i * 2, contentStart);
+  });
+  page[headerOffset] = type;
+  view.setUint16(headerOffset + 1, 0);
+  view.setUint16(headerOffset + 3, cells.length);
+  view.setUint16(headerOffset + 5, contentStart);
+  page[headerOffset + 7] = 0;
+  if (interior) view.setUint32(headerOffset + 8, rightChild);
+}
+
+/** Greedily pack cells into page-sized groups. */
+function packCells<T>(items: T[], cellOf: (item: T) => Uint8Array, headerSize: number): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let used = headerSize;
+  for (const item of items) {
+    const size = cellOf(item).length + 2;
+    if (current.length > 0 && used + size > PAGE_SIZE) {
+      groups.push(current);
+      current = [];
+      used = headerSize;
+    }
+    current.push(item);
+    used += size;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * Write a table b-tree for rows sorted by rowid, with its root on the
+ * pre-allocated `rootPage` (page 1 leaves room for the database header).
+ */
+function writeTableTree(store: PageStore, rootPage: number, rows: TableRow[]): void {
+  const rootOffset = rootPage === 1 ? 100 : 0;
+  const cells = rows.map(row => tableLeafCell(store, row));
+  if (pageFits(cells, rootOffset, 8)) {
+    writeBtreePage(store.get(rootPage), rootOffset, PAGE_TABLE_LEAF, cells);
+    return;
+  }
+
+  const indexed = cells.map((cell, i) => ({ cell, rowid: rows[i]!.rowid }));
+  let nodes = packCells(indexed, c => c.cell, 8).map((group) => {
+    const pageNumber = store.allocate();
+    writeBtreePage(store.get(pageNumber), 0, PAGE_TABLE_LEAF, group.map(c => c.cell));
+    return { page: pageNumber, maxRowid: group[group.length - 1]!.rowid };
+  });
+
+  for (;;) {
+    const interiorCell = (node: { page: number; maxRowid: number }) => Uint8Array.from([...intBytes(node.page, 4), ...varint(node.maxRowid)]);
+    const rootCells = nodes.slice(0, -1).map(interiorCell);
+    if (pageFits(rootCells, rootOffset, 12)) {
+      writeBtreePage(store.get(rootPage), rootOffset, PAGE_TABLE_INTERIOR, rootCells, nodes[nodes.length - 1]!.page);
+      return;
+    }
+    // Each interior group holds children whose last member becomes the right pointer.
+    const groups = packCells(nodes, interiorCell, 12);
+    nodes = groups.map((group) => {
+      const pageNumber = store.allocate();
+      const last = group[group.length - 1]!;
+      writeBtreePage(store.get(pageNumber), 0, PAGE_TABLE_INTERIOR, group.slice(0, -1).map(interiorCell), last.page);
+      return { page: pageNumber, maxRowid: last.maxRowid };
+    });
+  }
+}
+
+/** Write a single-page index b-tree. Entries are [...key columns, rowid]. */
+function writeIndexTree(store: PageStore, rootPage: number, entries: SqlValue[][]): void {
+  const sorted = [...entries].sort((a, b) => {
+    for (let i = 0; i < a.length; i++) {
+      const x = a[i]!;
+      const y = b[i]!;
+      if (x === y) continue;
+      return x < y ? -1 : 1;
+    }
+    return 0;
+  });
+  const cells = sorted.map((entry) => {
+    const payload = encodeRecord(entry);
+    if (payload.length > MAX_INDEX_LOCAL) throw new Error('Index entry too large');
+    return Uint8Array.from([...varint(payload.length), ...payload]);
+  });
+  if (!pageFits(cells, 0, 8)) throw new Error('Too many layers for a single-page index');
+  writeBtreePage(store.get(rootPage), 0, PAGE_INDEX_LEAF, cells);
+}
+
+function writeHeader(page: Uint8Array, pageCount: number): void {
+  const view = new DataView(page.buffer);
+  page.set(textEncoder.encode('SQLite format 3\0'), 0);
+  view.setUint16(16, PAGE_SIZE);
+  page[18] = 1; // legacy write version
+  page[19] = 1; // legacy read version
+  page[20] = 0; // reserved bytes per page
+  page[21] = 64;
+  page[22] = 32;
+  page[23] = 32;
+  view.setUint32(24, 1); // file change counter
+  view.setUint32(28, pageCount);
+  view.setUint32(40, 1); // schema cookie
+  view.setUint32(44, 4); // schema format
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(60, GPKG_USER_VERSION);
+  view.setUint32(68, GPKG_APPLICATION_ID);
+  view.setUint32(92, 1); // version-valid-for
+  view.setUint32(96, SQLITE_VERSION_NUMBER);
+}
+
+// ---------------------------------------------------------------------------
+// GeoPackage
+// ---------------------------------------------------------------------------
+
+function writeWkb(geometry: GisGeometry, out: DataView, offset: number): number {
+  const point = ([x, y]: [number, number]) => {
+    out.setFloat64(offset, x, true);
+    out.setFloat64(offset + 8, y, true);
+    offset += 16;
+  };
+  out.setUint8(offset, 1);
+  offset += 1;
+  switch (geometry.type) {
+    case 'Point':
+      out.setUint32(offset, 1, true);
+      offset += 4;
+      point(geometry.coordinates);
+      break;
+    case 'LineString':
+      out.setUint32(offset, 2, true);
+      out.setUint32(offset + 4, geometry.coordinates.length, true);
+      offset += 8;
+      geometry.coordinates.forEach(point);
+      break;
+    case 'Polygon':
+      out.setUint32(offset, 3, true);
+      out.setUint32(offset + 4, geometry.coordinates.length, true);
+      offset += 8;
+      for (const ring of geometry.coordinates) {
+        out.setUint32(offset, ring.length, true);
+        offset += 4;
+        ring.forEach(point);
+      }
+      break;
+  }
+  return offset;
+}
+
+function wkbSize(geometry: GisGeometry): number {
+  switch (geometry.type) {
+    case 'Point': return 5 + 16;
+    case 'LineString': return 9 + geometry.coordinates.length * 16;
+    case 'Polygon': return 9 + geometry.coordinates.reduce((sum, ring) => sum + 4 + ring.length * 16, 0);
+  }
+}
+
+/** GeoPackageBinary: GP header (little-endian, XY envelope for non-points) + WKB. */
+export function encodeGeometry(geometry: GisGeometry, srsId = WGS84_SRS_ID): Uint8Array {
+  const withEnvelope = geometry.type !== 'Point';
+  const headerSize = 8 + (withEnvelope ? 32 : 0);
+  const buffer = new ArrayBuffer(headerSize + wkbSize(geometry));
+  const view = new DataView(buffer);
+  view.setUint8(0, 0x47); // 'G'
+  view.setUint8(1, 0x50); // 'P'
+  view.setUint8(2, 0); // version 1
+  view.setUint8(3, (withEnvelope ? 1 << 1 : 0) | 1);
+  view.setInt32(4, srsId, true);
+  if (withEnvelope) {
+    const env = geometryEnvelope(geometry);
+    view.setFloat64(8, env.minX, true);
+    view.setFloat64(16, env.maxX, true);
+    view.setFloat64(24, env.minY, true);
+    view.setFloat64(32, env.maxY, true);
+  }
+  writeWkb(geometry, view, headerSize);
+  return new Uint8Array(buffer);
+}
+
+type ColumnType = 'INTEGER' | 'REAL' | 'TEXT';
+
+interface FeatureColumn {
+  property: string;
+  column: string;
+  type: ColumnType;
+}
+
+function columnType(values: GisValue[]): ColumnType {
+  const present = values.filter(v => v !== null);
+  if (present.length === 0) return 'TEXT';
+  if (present.every(v => typeof v === 'boolean' || (typeof v === 'number' && Number.isSafeInteger(v)))) return 'INTEGER';
+  if (present.every(v => typeof v === 'number' || typeof v === 'boolean')) return 'REAL';
+  return 'TEXT';
+}
+
+function featureColumns(layer: GisLayer): FeatureColumn[] {
+  const properties = ['name', ...new Set(layer.features.flatMap(f => Object.keys(f.properties)))];
+  const used = new Set(['fid', 'geom']);
+  const columns: FeatureColumn[] = [];
+  for (const property of [...new Set(properties)]) {
+    let column = property.replace(/[^A-Za-z0-9_]/g, '_').toLowerCase() || 'field';
+    while (used.has(column)) column = `${column}_`;
+    used.add(column);
+    const values = property === 'name'
+      ? layer.features.map(f => f.properties.name ?? f.name)
+      : layer.features.map(f => f.properties[property] ?? null);
+    columns.push({ property, column, type: columnType(values) });
+  }
+  return columns;
+}
+
+function columnValue(value: GisValue | undefined, type: ColumnType): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (type === 'TEXT') return String(value);
+  return value;
+}
+
+function geometryTypeName(layer: GisLayer): string {
+  const types = new Set(layer.features.map(f => f.geometry.type.toUpperCase()));
+  return types.size === 1 ? [...types][0]! : 'GEOMETRY';
+}
+
+function layerEnvelope(layer: GisLayer): [number, number, number, number] | null {
+  if (layer.features.length === 0) return null;
+  const envs = layer.features.map(f => geometryEnvelope(f.geometry));
+  return [
+    Math.min(...envs.map(e => e.minX)),
+    Math.min(...envs.map(e => e.minY)),
+    Math.max(...envs.map(e => e.maxX)),
+    Math.max(...envs.map(e => e.maxY)),
+  ];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Serialise layers to a GeoPackage file. Layer ids become table names. */
+export function toGeoPackage(layers: GisLayer[], now = new Date()): Uint8Array<ArrayBuffer> {
+  const store = new PageStore();
+  store.allocate(); // page 1: header + sqlite_master
+  const master: TableRow[] = [];
+  const addSchema = (type: 'table' | 'index', name: string, table: string, sql: string | null): number => {
+    const rootPage = store.allocate();
+    master.push({ rowid: master.length + 1, values: [type, name, table, rootPage, sql] });
+    return rootPage;
+  };
+  const lastChange = now.toISOString();
+
+  const srsRoot = addSchema('table', 'gpkg_spatial_ref_sys', 'gpkg_spatial_ref_sys',
+    'CREATE TABLE gpkg_spatial_ref_sys (srs_name TEXT NOT NULL, srs_id INTEGER NOT NULL PRIMARY KEY, '
+    + 'organization TEXT NOT NULL, organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT)');
+  writeTableTree(store, srsRoot, [
+    { rowid: -1, values: ['Undefined cartesian SRS', null, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system'] },
+    { rowid: 0, values: ['Undefined geographic SRS', null, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system'] },
+    { rowid: WGS84_SRS_ID, values: ['WGS 84 geodetic', null, 'EPSG', WGS84_SRS_ID, WGS84_WKT, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid'] },
+  ]);
+
+  const contentsRoot = addSchema('table', 'gpkg_contents', 'gpkg_contents',
+    'CREATE TABLE gpkg_contents (table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE, '
+    + 'description TEXT DEFAULT \'\', last_change DATETIME NOT NULL DEFAULT (strftime(\'%Y-%m-%dT%H:%M:%fZ\',\'now\')), '
+    + 'min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE, srs_id INTEGER, '
+    + 'CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id))');
+  const contentsPk = addSchema('index', 'sqlite_autoindex_gpkg_contents_1', 'gpkg_contents', null);
+  const contentsIdentifier = addSchema('index', 'sqlite_autoindex_gpkg_contents_2', 'gpkg_contents', null);
+
+  const geomRoot = addSchema('table', 'gpkg_geometry_columns', 'gpkg_geometry_columns',
+    'CREATE TABLE gpkg_geometry_columns (table_name TEXT NOT NULL, column_name TEXT NOT NULL, '
+    + 'geometry_type_name TEXT NOT NULL, srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL, '
+    + 'CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name), CONSTRAINT uk_gc_table_name UNIQUE (table_name), '
+    + 'CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name), '
+    + 'CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id))');
+  const geomPk = addSchema('index', 'sqlite_autoindex_gpkg_geometry_columns_1', 'gpkg_geometry_columns', null);
+  const geomTable = addSchema('index', 'sqlite_autoindex_gpkg_geometry_columns_2', 'gpkg_geometry_columns', null);
+
+  const contentsRows: TableRow[] = [];
+  const geomRows: TableRow[] = [];
+  const seenTables = new Set<string>();
+  const identifiers = new Set<string>();
+
+  for (const layer of layers) {
+    let tableName = layer.id.replace(/[^A-Za-z0-9_]/g, '_').toLowerCase();
+    if (!/^[a-z]/.test(tableName) || tableName.startsWith('gpkg_') || tableName.startsWith('sqlite_')) tableName = `layer_${tableName}`;
+    while (seenTables.has(tableName)) tableName = `${tableName}_`;
+    seenTables.add(tableName);
+
+    const columns = featureColumns(layer);
+    const geometryType = geometryTypeName(layer);
+    const columnSql = columns.map(c => `${quoteIdentifier(c.column)} ${c.type}`).join(', ');
+    const tableRoot = addSchema('table', tableName, tableName,
+      `CREATE TABLE ${quoteIdentifier(tableName)} (fid INTEGER PRIMARY KEY, geom ${geometryType}${columnSql ? `, ${columnSql}` : ''})`);
+    writeTableTree(store, tableRoot, layer.features.map((feature, i) => ({
+      rowid: i + 1,
+      values: [
+        null,
+        encodeGeometry(feature.geometry),
+        ...columns.map(c => columnValue(c.property === 'name' ? feature.properties.name ?? feature.name : feature.properties[c.property], c.type)),
+      ],
+    })));
+
+    const env = layerEnvelope(layer);
+    const identifier = layer.name && !identifiers.has(layer.name) ? layer.name : tableName;
+    identifiers.add(identifier);
+    contentsRows.push({
+      rowid: contentsRows.length + 1,
+      values: [tableName, 'features', identifier, '', lastChange, env?.[0] ?? null, env?.[1] ?? null, env?.[2] ?? null, env?.[3] ?? null, WGS84_SRS_ID],
+    });
+    geomRows.push({ rowid: geomRows.length + 1, values: [tableName, 'geom', geometryType, WGS84_SRS_ID, 0, 0] });
+  }
+
+  writeTableTree(store, contentsRoot, contentsRows);
+  writeIndexTree(store, contentsPk, contentsRows.map(r => [r.values[0]!, r.rowid]));
+  writeIndexTree(store, contentsIdentifier, contentsRows.map(r => [r.values[2]!, r.rowid]));
+  writeTableTree(store, geomRoot, geomRows);
+  writeIndexTree(store, geomPk, geomRows.map(r => [r.values[0]!, r.values[1]!, r.rowid]));
+  writeIndexTree(store, geomTable, geomRows.map(r => [r.values[0]!, r.rowid]));
+
+  writeTableTree(store, 1, master);
+  writeHeader(store.get(1), store.pages.length);
+
+  const out = new Uint8Array(store.pages.length * PAGE_SIZE);
+  store.pages.forEach((page, i) => out.set(page, i * PAGE_SIZE));
+  return out;
+}
@@ -0,0 +1,293 @@
+/**
+ * GIS export of map layers.
+ *
+ * Map layer data is reduced to a small feature model (geometry + flat
+ * properties) that is then written as GeoJSON, KML or GeoPackage (see
+ * ./geopackage). Pure functions only so the encoders can be tested directly.
+ */
+
+import type { MapLayerData } from '@/components/MapContainer';
+import type { ConflictZone, MapLayers } from '@/types';
+
+export type GisPosition = [number, number];
+
+export type GisGeometry =
+  | { type: 'Point'; coordinates: GisPosition }
+  | { type: 'LineString'; coordinates: GisPosition[] }
+  | { type: 'Polygon'; coordinates: GisPosition[][] };
+
+export type GisValue = string | number | boolean | null;
+
+export interface GisFeature {
+  name: string;
+  geometry: GisGeometry;
+  properties: Record<string, GisValue>;
+}
+
+export interface GisLayer {
+  /** snake_case identifier, used as the GeoPackage table name. */
+  id: string;
+  name: string;
+  features: GisFeature[];
+}
+
+/** [west, south, east, north] in degrees; west > east crosses the antimeridian. */
+export type GisBounds = [number, number, number, number];
+
+export interface MapExportOptions {
+  layers: MapLayers;
+  conflictZones: ConflictZone[];
+  /** Items older than this (ms) are dropped; null keeps everything. */
+  cutoff: number | null;
+  bounds: GisBounds | null;
+}
+
+/**
+ * Flatten an item to GIS-friendly properties: dates become ISO strings,
+ * primitive arrays are joined and nested objects are JSON encoded.
+ */
+export function flattenProperties(item: object, omit: string[] = []): Record<string, GisValue> {
+  const out: Record<string, GisValue> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (omit.includes(key) || value === undefined || typeof value === 'function') continue;
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      out[key] = value;
+    } else if (typeof value === 'number') {
+      out[key] = Number.isFinite(value) ? value : null;
+    } else if (value instanceof Date) {
+      out[key] = Number.isFinite(value.getTime()) ? value.toISOString() : null;
+    } else if (Array.isArray(value) && value.every(v => typeof v !== 'object' || v === null)) {
+      out[key] = value.join('; ');
+    } else {
+      out[key] = JSON.stringify(value);
+    }
+  }
+  return out;
+}
+
+function toTime(value: Date | string | number | undefined | null): number | null {
+  if (value == null) return null;
+  const ts = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return Number.isFinite(ts) ? ts : null;
+}
+
+function validPosition(lon: number, lat: number): boolean {
+  return Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+function positionInBounds([lon, lat]: GisPosition, [west, south, east, north]: GisBounds): boolean {
+  if (lat < south || lat > north) return false;
+  return west <= east ? lon >= west && lon <= east : lon >= west || lon <= east;
+}
+
+export function geometryPositions(geometry: GisGeometry): GisPosition[] {
+  switch (geometry.type) {
+    case 'Point': return [geometry.coordinates];
+    case 'LineString': return geometry.coordinates;
+    case 'Polygon': return geometry.coordinates.flat();
+  }
+}
+
+/** A feature is kept when any of its vertices falls inside the bounds. */
+export function featureInBounds(feature: GisFeature, bounds: GisBounds): boolean {
+  return geometryPositions(feature.geometry).some(p => positionInBounds(p, bounds));
+}
+
+export function geometryEnvelope(geometry: GisGeometry): { minX: number; minY: number; maxX: number; maxY: number } {
+  const positions = geometryPositions(geometry);
+  return {
+    minX: Math.min(...positions.map(p => p[0])),
+    minY: Math.min(...positions.map(p => p[1])),
+    maxX: Math.max(...positions.map(p => p[0])),
+    maxY: Math.max(...positions.map(p => p[1])),
+  };
+}
+
+function point(lon: number, lat: number): GisGeometry | null {
+  return validPosition(lon, lat) ? { type: 'Point', coordinates: [lon, lat] } : null;
+}
+
+/** Tracks are stored as [lat, lon] pairs. */
+function track(positions: [number, number][] | undefined): GisGeometry | null {
+  const coordinates = (positions ?? [])
+    .filter(([lat, lon]) => validPosition(lon, lat))
+    .map(([lat, lon]): GisPosition => [lon, lat]);
+  return coordinates.length > 1 ? { type: 'LineString', coordinates } : null;
+}
+
+function polygon(coords: [number, number][]): GisGeometry | null {
+  const ring = coords.filter(([lon, lat]) => validPosition(lon, lat)).map(([lon, lat]): GisPosition => [lon, lat]);
+  if (ring.length < 3) return null;
+  const first = ring[0]!;
+  const last = ring[ring.length - 1]!;
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push([first[0], first[1]]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+interface LayerSpec<T> {
+  id: string;
+  name: string;
+  items: T[];
+  time?: (item: T) => Date | string | number | undefined | null;
+  geometry: (item: T) => GisGeometry | null;
+  label: (item: T) => string;
+  omit?: string[];
+}
+
+function buildLayer<T extends object>(spec: LayerSpec<T>, options: MapExportOptions): GisLayer {
+  const features: GisFeature[] = [];
+  for (const item of spec.items) {
+    if (options.cutoff != null && spec.time) {
+      const ts = toTime(spec.time(item));
+      if (ts != null && ts < options.cutoff) continue;
+    }
+    const geometry = spec.geometry(item);
+    if (!geometry) continue;
+    const feature = { name: spec.label(item), geometry, properties: flattenProperties(item, spec.omit) };
+    if (options.bounds && !featureInBounds(feature, options.bounds)) continue;
+    features.push(feature);
+  }
+  return { id: spec.id, name: spec.name, features };
+}
+
+/**
+ * Collect the active, exportable map layers with the map's time range and
+ * viewport applied. Layers that end up empty are omitted.
+ */
+export function buildMapExportLayers(data: MapLayerData, options: MapExportOptions): GisLayer[] {
+  const { layers } = options;
+  const out: GisLayer[] = [];
+
+  if (layers.conflicts) {
+    out.push(buildLayer({
+      id: 'conflict_zones', name: 'Conflict zones', items: options.conflictZones,
+      geometry: z => polygon(z.coords), label: z => z.name, omit: ['coords', 'center'],
+    }, options));
+  }
+  if (layers.ucdpEvents && data.ucdpEvents) {
+    out.push(buildLayer({
+      id: 'ucdp_events', name: 'UCDP events', items: data.ucdpEvents, time: e => e.date_start,
+      geometry: e => point(e.longitude, e.latitude), label: e => `${e.side_a} vs ${e.side_b}`,
+    }, options));
+  }
+  if (layers.protests && data.protests) {
+    out.push(buildLayer({
+      id: 'unrest_events', name: 'Unrest events', items: data.protests, time: p => p.time,
+      geometry: p => point(p.lon, p.lat), label: p => p.title,
+    }, options));
+  }
+  if (layers.natural && data.earthquakes) {
+    out.push(buildLayer({
+      id: 'earthquakes', name: 'Earthquakes', items: data.earthquakes, time: q => q.occurredAt,
+      geometry: q => (q.location ? point(q.location.longitude, q.location.latitude) : null),
+      label: q => `M${q.magnitude.toFixed(1)} ${q.place}`, omit: ['location'],
+    }, options));
+  }
+  if (layers.fires && data.fires) {
+    out.push(buildLayer({
+      id: 'fires', name: 'Fires', items: data.fires, time: f => f.acq_date,
+      geometry: f => point(f.lon, f.lat), label: f => `${f.region} ${Math.round(f.frp)} MW`,
+    }, options));
+  }
+  if (layers.military && data.militaryFlights) {
+    const flights = data.militaryFlights.flights;
+    out.push(buildLayer({
+      id: 'military_flights', name: 'Military flights', items: flights, time: f => f.lastSeen,
+      geometry: f => point(f.lon, f.lat), label: f => f.callsign || f.hexCode, omit: ['track'],
+    }, options));
+    out.push(buildLayer({
+      id: 'military_flight_tracks', name: 'Military flight tracks', items: flights, time: f => f.lastSeen,
+      geometry: f => track(f.track), label: f => f.callsign || f.hexCode, omit: ['track'],
+    }, options));
+  }
+  if (layers.military && data.militaryVessels) {
+    const vessels = data.militaryVessels.vessels;
+    out.push(buildLayer({
+      id: 'military_vessels', name: 'Military vessels', items: vessels, time: v => v.lastAisUpdate,
+      geometry: v => point(v.lon, v.lat), label: v => v.name || v.mmsi, omit: ['track'],
+    }, options));
+    out.push(buildLayer({
+      id: 'military_vessel_tracks', name: 'Military vessel tracks', items: vessels, time: v => v.lastAisUpdate,
+      geometry: v => track(v.track), label: v => v.name || v.mmsi, omit: ['track'],
+    }, options));
+  }
+  if (layers.ais && data.ais) {
+    out.push(buildLayer({
+      id: 'ais_disruptions', name: 'AIS disruptions', items: data.ais.disruptions,
+      geometry: a => point(a.lon, a.lat), label: a => a.name,
+    }, options));
+  }
+  if (layers.outages && data.outages) {
+    out.push(buildLayer({
+      id: 'internet_outages', name: 'Internet outages', items: data.outages, time: o => o.pubDate,
+      geometry: o => point(o.lon, o.lat), label: o => o.title,
+    }, options));
+  }
+  if (layers.cables && data.cableActivity) {
+    out.push(buildLayer({
+      id: 'navigational_warnings', name: 'Navigational warnings', items: data.cableActivity.advisories,
+      time: a => a.reported, geometry: a => point(a.lon, a.lat), label: a => a.title,
+    }, options));
+  }
+
+  return out.filter(layer => layer.features.length > 0);
+}
+
+export function toGeoJSON(layers: GisLayer[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: layers.flatMap(layer => layer.features.map(f => ({
+      type: 'Feature',
+      geometry: f.geometry,
+      properties: { layer: layer.id, name: f.name, ...f.properties },
+    }))),
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function kmlCoordinates(positions: GisPosition[]): string {
+  return positions.map(([lon, lat]) => `${lon},${lat}`).join(' ');
+}
+
+function kmlGeometry(geometry: GisGeometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon': {
+      const [outer, ...inner] = geometry.coordinates;
+      const ring = (r: GisPosition[]) => `<LinearRing><coordinates>${kmlCoordinates(r)}</coordinates></LinearRing>`;
+      return `<Polygon><outerBoundaryIs>${ring(outer ?? [])}</outerBoundaryIs>${inner.map(r => `<innerBoundaryIs>${ring(r)}</innerBoundaryIs>`).join('')}</Polygon>`;
+    }
+  }
+}
+
+export function toKML(layers: GisLayer[], documentName = 'World Monitor export'): string {
+  const folders = layers.map(layer => {
+    const placemarks = layer.features.map(f => {
+      const data = Object.entries(f.properties)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => `<Data name="${escapeXml(k)}"><value>${escapeXml(String(v))}</value></Data>`)
+        .join('');
+      return `<Placemark><name>${escapeXml(f.name)}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(f.geometry)}</Placemark>`;
+    });
+    return `<Folder><name>${escapeXml(layer.name)}</name>${placemarks.join('\n')}</Folder>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...folders,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
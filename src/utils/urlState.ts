@@ -45,9 +45,13 @@ export interface ParsedMapUrlState {
   lon?: number;
   timeRange?: TimeRange;
   layers?: MapLayers;
+  /** Enabled user-imported layer ids, listed in the same `layers` param. */
+  customLayers?: string[];
   country?: string;
 }
 
+const CUSTOM_LAYER_PATTERN = /^custom-[a-z0-9-]+$/;
+
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(max, Math.max(min, value));
 
@@ -81,7 +85,9 @@ export function parseMapUrlState(
 
   const layersParam = params.get('layers');
   let layers: MapLayers | undefined;
+  let customLayers: string[] | undefined;
   if (layersParam !== null) {
+    customLayers = [];
     layers = { ...fallbackLayers };
     const normalizedLayers = layersParam.trim();
     if (normalizedLayers !== '' && normalizedLayers !== 'none') {
@@ -94,6 +100,7 @@ export function parseMapUrlState(
       LAYER_KEYS.forEach((key) => {
         layers![key] = requested.has(key);
       });
+      customLayers = [...requested].filter((layer) => CUSTOM_LAYER_PATTERN.test(layer));
     } else {
       LAYER_KEYS.forEach((key) => {
         layers![key] = false;
@@ -108,6 +115,7 @@ export function parseMapUrlState(
     lon,
     timeRange,
     layers,
+    customLayers,
     country,
   };
 }
@@ -120,6 +128,7 @@ export function buildMapUrl(
     center?: { lat: number; lon: number } | null;
     timeRange: TimeRange;
     layers: MapLayers;
+    customLayers?: string[];
     country?: string;
   }
 ): string {
@@ -135,7 +144,8 @@ export function buildMapUrl(
   params.set('view', state.view);
   params.set('timeRange', state.timeRange);
 
-  const activeLayers = LAYER_KEYS.filter((layer) => state.layers[layer]);
+  const activeLayers: string[] = LAYER_KEYS.filter((layer) => state.layers[layer]);
+  activeLayers.push(...(state.customLayers ?? []).filter((layer) => CUSTOM_LAYER_PATTERN.test(layer)));
   params.set('layers', activeLayers.length > 0 ? activeLayers.join(',') : 'none');
 
   if (state.country) {
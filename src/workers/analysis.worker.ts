@@ -17,6 +17,7 @@ import {
   type SourceType,
   type StreamSnapshot,
 } from '@/services/analysis-core';
+import { tierPrior } from '@/services/source-reliability/scoring';
 
 // Message types for worker communication
 interface ClusterMessage {
@@ -24,6 +25,8 @@ interface ClusterMessage {
   id: string;
   items: NewsItemCore[];
   sourceTiers: Record<string, number>;
+  /** Track-record reliability for sources that have one; others use their tier prior. */
+  sourceReliability: Record<string, number>;
 }
 
 interface CorrelationMessage {
@@ -79,7 +82,9 @@ self.onmessage = (event: MessageEvent<WorkerMessage>) => {
       }));
 
       const getSourceTier = (source: string): number => message.sourceTiers[source] ?? 4;
-      const clusters = clusterNewsCore(items, getSourceTier);
+      const getSourceReliability = (source: string): number =>
+        message.sourceReliability[source] ?? tierPrior(getSourceTier(source));
+      const clusters = clusterNewsCore(items, getSourceTier, getSourceReliability);
 
       const result: ClusterResult = {
         type: 'cluster-result',
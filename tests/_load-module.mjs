@@ -0,0 +1,35 @@
+/**
+ * Load a TypeScript source module into a test without a build step.
+ *
+ * The file is transpiled to CommonJS and evaluated with a `require` that
+ * resolves ids from `deps` first (for `@/` aliases and sibling modules the
+ * test wants to stub) and falls back to Node's resolver. Paths are relative
+ * to this directory, so `'../src/...'` reads the same from every test file.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const require = createRequire(import.meta.url);
+
+export function loadModule(relativePath, deps = {}) {
+  const sourcePath = resolve(__dirname, relativePath);
+  const source = readFileSync(sourcePath, 'utf-8');
+  const transpiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+    fileName: sourcePath,
+  });
+
+  const module = { exports: {} };
+  const evaluator = new Function('exports', 'module', 'require', transpiled.outputText);
+  evaluator(module.exports, module, (id) => deps[id] ?? require(id));
+  return module.exports;
+}
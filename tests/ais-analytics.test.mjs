@@ -0,0 +1,186 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const require = createRequire(import.meta.url);
+const { WATERWAYS, createVesselAnalytics } = require('../scripts/ais-analytics.cjs');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const T0 = Date.UTC(2026, 5, 10, 0);
+
+/** Position offset in km east (dx) and north (dy) of a point. */
+function offset(lat, lon, dx, dy) {
+  return { lat: lat + dy / 110.57, lon: lon + dx / (111.32 * Math.cos((lat * Math.PI) / 180)) };
+}
+
+function report(mmsi, t, pos, extra = {}) {
+  return { mmsi, name: `SHIP ${mmsi}`, shipType: 70, status: 0, sog: 12, cog: 90, t, ...pos, ...extra };
+}
+
+function eventsOf(analytics, type) {
+  return analytics.getEvents().filter(e => e.type === type);
+}
+
+describe('waterways', () => {
+  it('mirrors STRATEGIC_WATERWAYS in src/config/geo.ts', () => {
+    const source = readFileSync(resolve(__dirname, '../src/config/geo.ts'), 'utf-8');
+    const block = source.slice(source.indexOf('export const STRATEGIC_WATERWAYS'), source.indexOf('export const APT_GROUPS'));
+    const entries = [...block.matchAll(/id: '([^']+)'.*?lat: (-?[\d.]+), lon: (-?[\d.]+)/g)]
+      .map(([, id, lat, lon]) => ({ id, lat: Number(lat), lon: Number(lon) }));
+    assert.ok(entries.length > 0);
+    assert.deepEqual(WATERWAYS.map(({ id, lat, lon }) => ({ id, lat, lon })), entries);
+  });
+});
+
+describe('AIS gaps', () => {
+  const hormuz = offset(26.5, 56.5, 20, -30);
+
+  function transit(analytics, mmsi, start, pos) {
+    for (let i = 0; i <= 6; i++) analytics.ingest(report(mmsi, start + i * 5 * MINUTE, offset(pos.lat, pos.lon, i, 0)));
+  }
+
+  it('flags an underway vessel that goes dark near a waterway and closes the gap when it reappears', () => {
+    const analytics = createVesselAnalytics();
+    transit(analytics, '111', T0, hormuz);
+    analytics.detect(T0 + HOUR);
+    assert.equal(eventsOf(analytics, 'ais_gap').length, 0);
+
+    analytics.detect(T0 + 3 * HOUR);
+    const [ongoing] = eventsOf(analytics, 'ais_gap');
+    assert.equal(ongoing.ongoing, true);
+    assert.equal(ongoing.waterway, 'Strait of Hormuz');
+    assert.equal(ongoing.startedAt, T0 + 30 * MINUTE);
+
+    analytics.ingest(report('111', T0 + 8 * HOUR, offset(hormuz.lat, hormuz.lon, 80, 0)));
+    const [closed, ...rest] = eventsOf(analytics, 'ais_gap');
+    assert.equal(rest.length, 0);
+    assert.equal(closed.id, ongoing.id);
+    assert.equal(closed.ongoing, false);
+    assert.equal(closed.endedAt, T0 + 8 * HOUR);
+    assert.equal(closed.severity, 'elevated');
+    assert.ok(closed.distanceKm >= 70 && closed.distanceKm <= 80);
+  });
+
+  it('ignores vessels far from any waterway and moored vessels that reappear in place', () => {
+    const analytics = createVesselAnalytics();
+    transit(analytics, '222', T0, { lat: -30, lon: -20 });
+    analytics.ingest(report('333', T0, hormuz, { sog: 0, status: 5 }));
+    analytics.ingest(report('333', T0 + 5 * HOUR, hormuz, { sog: 0, status: 5 }));
+    analytics.detect(T0 + 5 * HOUR);
+    assert.deepEqual(eventsOf(analytics, 'ais_gap'), []);
+  });
+});
+
+describe('loitering', () => {
+  const mandeb = offset(12.5, 43.3, -60, 40);
+
+  function circle(analytics, mmsi, extra = {}) {
+    for (let i = 0; i <= 44; i++) {
+      const angle = (i * 40 * Math.PI) / 180;
+      const t = T0 + i * 5 * MINUTE;
+      analytics.ingest(report(mmsi, t, offset(mandeb.lat, mandeb.lon, 2 * Math.cos(angle), 2 * Math.sin(angle)), { sog: 2, cog: (i * 40) % 360, ...extra }));
+      if (i % 6 === 0) analytics.detect(t);
+    }
+    analytics.detect(T0 + 220 * MINUTE);
+  }
+
+  it('flags a vessel circling slowly in one place for hours', () => {
+    const analytics = createVesselAnalytics();
+    circle(analytics, '444');
+    const [event, ...rest] = eventsOf(analytics, 'loitering');
+    assert.equal(rest.length, 0);
+    assert.equal(event.ongoing, true);
+    assert.equal(event.waterway, 'Bab el-Mandeb');
+    assert.ok(event.distanceKm <= 3);
+    assert.ok(Math.abs(event.lat - mandeb.lat) < 0.02 && Math.abs(event.lon - mandeb.lon) < 0.02);
+  });
+
+  it('ignores anchored vessels and closes the event when the vessel gets underway', () => {
+    const anchored = createVesselAnalytics();
+    circle(anchored, '555', { status: 1 });
+    assert.deepEqual(eventsOf(anchored, 'loitering'), []);
+
+    const analytics = createVesselAnalytics();
+    circle(analytics, '444');
+    for (let i = 1; i <= 6; i++) {
+      analytics.ingest(report('444', T0 + 220 * MINUTE + i * 5 * MINUTE, offset(mandeb.lat, mandeb.lon, i * 3, 0), { sog: 14 }));
+    }
+    analytics.detect(T0 + 250 * MINUTE);
+    assert.equal(eventsOf(analytics, 'loitering')[0].ongoing, false);
+  });
+});
+
+describe('rendezvous', () => {
+  const atSea = { lat: 35.2, lon: 20.4 };
+
+  function drift(analytics, vessels, minutes) {
+    for (let m = 0; m <= minutes; m++) {
+      const t = T0 + m * MINUTE;
+      for (const [mmsi, dx, dy, extra] of vessels) {
+        analytics.ingest(report(mmsi, t, offset(atSea.lat, atSea.lon, dx, dy), { sog: 0.5, ...extra }));
+      }
+      analytics.detect(t);
+    }
+  }
+
+  it('flags two slow vessels alongside each other for an hour', () => {
+    const analytics = createVesselAnalytics();
+    drift(analytics, [['700', 0, 0, { shipType: 80 }], ['800', 0.2, 0.1, {}]], 70);
+    const [event, ...rest] = eventsOf(analytics, 'rendezvous');
+    assert.equal(rest.length, 0);
+    assert.equal(event.mmsi, '700');
+    assert.equal(event.otherMmsi, '800');
+    assert.equal(event.severity, 'high');
+    assert.equal(event.waterway, '');
+    assert.ok(event.distanceKm < 0.3);
+    assert.ok(event.endedAt - event.startedAt >= HOUR);
+  });
+
+  it('does not flag short encounters, crowded anchorages or harbour tugs', () => {
+    const short = createVesselAnalytics();
+    drift(short, [['700', 0, 0, {}], ['800', 0.2, 0, {}]], 30);
+    assert.deepEqual(eventsOf(short, 'rendezvous'), []);
+
+    const crowd = createVesselAnalytics();
+    drift(crowd, [0, 1, 2, 3, 4].map(i => [`90${i}`, i * 0.3, 0, {}]), 70);
+    assert.deepEqual(eventsOf(crowd, 'rendezvous'), []);
+
+    const tug = createVesselAnalytics();
+    drift(tug, [['700', 0, 0, {}], ['800', 0.2, 0, { shipType: 52 }]], 70);
+    assert.deepEqual(eventsOf(tug, 'rendezvous'), []);
+  });
+});
+
+describe('chokepoint anomalies', () => {
+  const malacca = offset(2.5, 101.5, 10, 10);
+
+  it('flags a sudden stop and a course reversal inside a chokepoint once per cooldown', () => {
+    const analytics = createVesselAnalytics();
+    analytics.ingest(report('901', T0, malacca, { sog: 14, cog: 300 }));
+    analytics.ingest(report('901', T0 + 20 * MINUTE, offset(malacca.lat, malacca.lon, -5, 3), { sog: 0.4, cog: 300 }));
+    analytics.ingest(report('901', T0 + 21 * MINUTE, offset(malacca.lat, malacca.lon, -5, 3), { sog: 0.2, cog: 300 }));
+    const [stop, ...moreStops] = eventsOf(analytics, 'speed_anomaly');
+    assert.equal(moreStops.length, 0);
+    assert.equal(stop.waterway, 'Malacca Strait');
+    assert.equal(stop.startedAt, T0);
+
+    analytics.ingest(report('902', T0, malacca, { sog: 12, cog: 310 }));
+    analytics.ingest(report('902', T0 + 15 * MINUTE, malacca, { sog: 12, cog: 125 }));
+    assert.equal(eventsOf(analytics, 'course_anomaly').length, 1);
+  });
+
+  it('ignores gentle turns and vessels outside the chokepoint radius', () => {
+    const analytics = createVesselAnalytics();
+    analytics.ingest(report('903', T0, malacca, { sog: 12, cog: 310 }));
+    analytics.ingest(report('903', T0 + 15 * MINUTE, malacca, { sog: 12, cog: 220 }));
+    const outside = offset(2.5, 101.5, 150, 0);
+    analytics.ingest(report('904', T0, outside, { sog: 14 }));
+    analytics.ingest(report('904', T0 + 20 * MINUTE, outside, { sog: 0.2 }));
+    assert.deepEqual(analytics.getEvents(), []);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const model = loadModule('../src/services/cascade-model.ts');
+
+function graphOf(nodeIds, edges) {
+  const graph = { nodes: new Map(), outgoing: new Map(), incoming: new Map() };
+  for (const id of nodeIds) graph.nodes.set(id, { id, type: id.split(':')[0], name: id });
+  for (const edge of edges) {
+    if (!graph.outgoing.has(edge.from)) graph.outgoing.set(edge.from, []);
+    graph.outgoing.get(edge.from).push(edge);
+    if (!graph.incoming.has(edge.to)) graph.incoming.set(edge.to, []);
+    graph.incoming.get(edge.to).push(edge);
+  }
+  return graph;
+}
+
+// Two cables each carrying half of country:XX with 50% redundancy, and a
+// chokepoint feeding a port that serves the same country.
+const graph = graphOf(
+  ['cable:a', 'cable:b', 'chokepoint:c', 'port:p', 'country:XX'],
+  [
+    { from: 'cable:a', to: 'country:XX', type: 'serves', strength: 0.5, redundancy: 0.5 },
+    { from: 'cable:a', to: 'country:XX', type: 'lands_at', strength: 0.3, redundancy: 0.5 },
+    { from: 'cable:b', to: 'country:XX', type: 'serves', strength: 0.5, redundancy: 0.5 },
+    { from: 'chokepoint:c', to: 'port:p', type: 'controls_access', strength: 0.8, redundancy: 0 },
+    { from: 'port:p', to: 'country:XX', type: 'serves', strength: 0.9, redundancy: 0 },
+  ],
+);
+
+describe('cascade propagation', () => {
+  it('scales single-source impact by disruption and redundancy', () => {
+    const full = model.propagateCascade(graph, [{ nodeId: 'cable:a', disruption: 1 }]);
+    const half = model.propagateCascade(graph, [{ nodeId: 'cable:a', disruption: 0.5 }]);
+    // Parallel serves/lands_at edges count once, and a lone source does not erode its own redundancy
+    assert.ok(Math.abs(full.get('country:XX').impact - 0.25) < 1e-9);
+    assert.ok(half.get('country:XX').impact < full.get('country:XX').impact);
+    assert.equal(full.has('cable:a'), false);
+  });
+
+  it('erodes redundancy when the backup fails in the same scenario', () => {
+    const single = model.propagateCascade(graph, [{ nodeId: 'cable:a', disruption: 1 }]).get('country:XX');
+    const both = model.propagateCascade(graph, [
+      { nodeId: 'cable:a', disruption: 1 },
+      { nodeId: 'cable:b', disruption: 1 },
+    ]).get('country:XX');
+    assert.ok(both.impact > 2 * single.impact - single.impact ** 2, 'worse than two independent failures');
+    // Each cable's redundancy loses the other's 0.5 of 1.9 inbound strength
+    const hit = 0.5 * (1 - 0.5 * (1 - 0.5 / 1.9));
+    assert.ok(Math.abs(both.impact - (1 - (1 - hit) ** 2)) < 1e-9);
+    assert.deepEqual(both.sources.sort(), ['cable:a', 'cable:b']);
+  });
+
+  it('respects the configured depth', () => {
+    const shallow = model.propagateCascade(graph, [{ nodeId: 'chokepoint:c', disruption: 1 }], 1);
+    const deep = model.propagateCascade(graph, [{ nodeId: 'chokepoint:c', disruption: 1 }], 2);
+    assert.equal(shallow.has('country:XX'), false);
+    assert.deepEqual(deep.get('country:XX').chain, ['chokepoint:c', 'port:p', 'country:XX']);
+    // The source's disruption carries down the chain instead of compounding 0.8 × 0.9
+    assert.ok(Math.abs(deep.get('country:XX').impact - 0.9) < 1e-9);
+  });
+
+  it('combines independent hits and clamps depth', () => {
+    assert.ok(Math.abs(model.combineImpacts([0.5, 0.5]) - 0.75) < 1e-9);
+    assert.equal(model.clampDepth(0), model.DEFAULT_CASCADE_DEPTH);
+    assert.equal(model.clampDepth(99), model.MAX_CASCADE_DEPTH);
+  });
+});
+
+describe('custom dependency import', () => {
+  it('parses CSV edges and creates endpoint nodes from their ids', () => {
+    const csv = [
+      'from,to,strength,redundancy,from_name',
+      'datacenter:fra1,country:de,0.4,0.3,"Frankfurt, DC 1"',
+      'power_plant:p1,datacenter:fra1,0.9,',
+    ].join('\n');
+    const { graph: custom, errors } = model.parseCustomGraph(csv, new Set(['country:DE']));
+    assert.deepEqual(errors, []);
+    assert.equal(custom.edges.length, 2);
+    assert.equal(custom.edges[0].to, 'country:DE');
+    assert.equal(custom.edges[1].redundancy, 0);
+    const dc = custom.nodes.find(n => n.id === 'datacenter:fra1');
+    assert.equal(dc.type, 'datacenter');
+    assert.equal(dc.name, 'Frankfurt, DC 1');
+    assert.equal(dc.metadata.custom, true);
+    assert.equal(custom.nodes.some(n => n.id === 'country:DE'), false);
+  });
+
+  it('parses JSON and reports invalid rows', () => {
+    const json = JSON.stringify({
+      nodes: [{ id: 'landing_station:marseille', name: 'Marseille', lat: 43.3, lon: 5.4 }],
+      edges: [
+        { from: 'landing_station:marseille', to: 'country:FR', strength: 0.6, type: 'serves' },
+        { from: 'bad id', to: 'country:FR', strength: 0.5 },
+        { from: 'facility:x', to: 'country:FR', strength: 2 },
+      ],
+    });
+    const { graph: custom, errors } = model.parseCustomGraph(json);
+    assert.equal(custom.edges.length, 1);
+    assert.equal(errors.length, 2);
+    assert.deepEqual(custom.nodes[0].coordinates, [5.4, 43.3]);
+    assert.deepEqual(model.parseCustomGraph('{oops').errors, ['Invalid JSON']);
+  });
+});
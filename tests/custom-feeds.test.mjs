@@ -0,0 +1,212 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import rssProxy from '../api/rss-proxy.js';
+import { isPrivateHost, resolvesToPrivateHost } from '../api/_url-safety.js';
+import { loadModule } from './_load-module.mjs';
+
+const parse = loadModule('../src/services/custom-feeds/parse.ts');
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+function feed(overrides) {
+  return { id: 'x', enabled: true, addedAt: NOW, lang: '', tier: 3, category: 'politics', format: 'rss', ...overrides };
+}
+
+describe('OPML', () => {
+  it('round-trips custom feeds with tier, language, format and category', () => {
+    const feeds = [
+      feed({ name: 'Kyiv "Independent" & co', url: 'https://example.org/rss?a=1&b=2', tier: 2, lang: 'uk', category: 'europe' }),
+      feed({ name: 'Example JSON', url: 'https://example.org/feed.json', format: 'json', tier: 4 }),
+      feed({ name: 'OSINT channel', url: 'osint_channel', format: 'telegram', category: 'intel', tier: 1 }),
+    ];
+    const opml = parse.toOpml(feeds, 'Mine', new Date(NOW));
+    assert.match(opml, /^<\?xml version="1.0"/);
+    assert.match(opml, /xmlUrl="https:\/\/t\.me\/s\/osint_channel"/);
+
+    assert.deepEqual(parse.parseOpml(opml), [
+      { name: 'Kyiv "Independent" & co', url: 'https://example.org/rss?a=1&b=2', format: 'rss', category: 'europe', tier: 2, lang: 'uk' },
+      { name: 'Example JSON', url: 'https://example.org/feed.json', format: 'json', category: 'politics', tier: 4 },
+      { name: 'OSINT channel', url: 'https://t.me/s/osint_channel', format: 'telegram', category: 'intel', tier: 1 },
+    ]);
+  });
+
+  it('reads folder outlines from other readers as categories and sniffs formats', () => {
+    const opml = `<?xml version="1.0"?>
+      <opml version="1.0"><head><title>Reader export</title></head><body>
+        <outline text="Tech" title="Tech">
+          <outline type="rss" text="Ars" xmlUrl="https://feeds.arstechnica.com/arstechnica/index"/>
+          <outline text="Daring Fireball" xmlUrl="https://daringfireball.net/feeds/json"/>
+        </outline>
+        <outline title="Loose" xmlUrl="https://example.com/feed.json"/>
+        <outline text="Channel" xmlUrl="https://t.me/some_channel"/>
+      </body></opml>`;
+    const feeds = parse.parseOpml(opml);
+    assert.deepEqual(feeds.map(f => [f.name, f.format, f.category]), [
+      ['Ars', 'rss', 'Tech'],
+      ['Daring Fireball', 'rss', 'Tech'],
+      ['Loose', 'json', undefined],
+      ['Channel', 'telegram', undefined],
+    ]);
+  });
+
+  it('rejects documents without feeds', () => {
+    assert.throws(() => parse.parseOpml('<opml><body><outline text="Empty folder"/></body></opml>'), /No feeds found/);
+    assert.throws(() => parse.parseOpml('<html><body>nope</body></html>'), /Invalid OPML/);
+  });
+});
+
+describe('custom feed sources', () => {
+  it('normalizes Telegram handles and rejects invalid ones', () => {
+    assert.equal(parse.normalizeTelegramHandle('@intelslava'), 'intelslava');
+    assert.equal(parse.normalizeTelegramHandle('https://t.me/s/intelslava/123'), 'intelslava');
+    assert.equal(parse.normalizeTelegramHandle('t.me/intelslava?single'), 'intelslava');
+    assert.equal(parse.normalizeTelegramHandle('abc'), null);
+    assert.equal(parse.normalizeTelegramHandle('https://t.me/+AbCdEfGh'), null);
+  });
+
+  it('accepts only plain http(s) feed URLs', () => {
+    assert.equal(parse.normalizeFeedSource('rss', ' https://example.org/feed '), 'https://example.org/feed');
+    assert.throws(() => parse.normalizeFeedSource('rss', 'ftp://example.org/feed'), /http or https/);
+    assert.throws(() => parse.normalizeFeedSource('json', 'https://u:p@example.org/feed.json'), /credentials/);
+    assert.throws(() => parse.normalizeFeedSource('rss', 'not a url'), /Invalid feed URL/);
+    assert.throws(() => parse.normalizeFeedSource('telegram', 'https://example.org'), /Telegram/);
+  });
+});
+
+describe('JSON Feed and Telegram parsing', () => {
+  it('parses JSON Feed items with title fallbacks and the limit', () => {
+    const doc = JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Example',
+      items: [
+        { id: '1', url: 'https://example.org/1', title: 'Port strike spreads', date_published: '2026-01-15T10:00:00Z', image: 'https://example.org/1.jpg' },
+        { id: '2', external_url: 'https://example.org/2', content_html: '<p>Untitled <b>post</b></p>\n<p>More</p>', date_published: 'garbage' },
+        { id: '3', content_text: '' },
+        { id: '4', url: 'https://example.org/4', title: 'Over the limit' },
+      ],
+    });
+    assert.deepEqual(parse.parseJsonFeed(doc, 2, NOW), [
+      { title: 'Port strike spreads', link: 'https://example.org/1', pubDate: new Date(Date.UTC(2026, 0, 15, 10)), imageUrl: 'https://example.org/1.jpg' },
+      { title: 'Untitled post', link: 'https://example.org/2', pubDate: new Date(NOW) },
+    ]);
+    assert.equal(parse.parseJsonFeed('{"items":[]}'), null);
+    assert.equal(parse.parseJsonFeed('<rss/>'), null);
+  });
+
+  it('turns Telegram messages into headlines from their first line', () => {
+    const long = 'x'.repeat(300);
+    const doc = JSON.stringify({
+      items: [
+        { url: 'https://t.me/chan/10', ts: '2026-01-15T11:00:00.000Z', text: '\n⚡️ Explosions reported near port\nDetails follow' },
+        { url: 'https://t.me/chan/9', ts: '2026-01-15T10:00:00.000Z', text: '' },
+        { url: 'https://t.me/chan/8', ts: '2026-01-15T09:00:00.000Z', text: long },
+      ],
+    });
+    const entries = parse.parseTelegramFeed(doc, 5, NOW);
+    assert.equal(entries.length, 2);
+    assert.deepEqual(entries[0], { title: '⚡️ Explosions reported near port', link: 'https://t.me/chan/10', pubDate: new Date(Date.UTC(2026, 0, 15, 11)) });
+    assert.equal(entries[1].title.length, 200);
+    assert.ok(entries[1].title.endsWith('…'));
+    assert.equal(parse.parseTelegramFeed('{"error":"WS_RELAY_URL not configured"}'), null);
+  });
+});
+
+function proxyRequest(url, custom = true) {
+  const query = `url=${encodeURIComponent(url)}${custom ? '&custom=1' : ''}`;
+  return new Request(`https://worldmonitor.app/api/rss-proxy?${query}`, { headers: { origin: 'https://worldmonitor.app' } });
+}
+
+async function withFetch(impl, fn) {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = impl;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+describe('private host checks', () => {
+  it('decodes IPv4 addresses embedded in IPv6 literals', () => {
+    for (const host of ['[::ffff:7f00:1]', '[::ffff:a00:1]', '[::ffff:a9fe:a9fe]', '[::7f00:1]', '[64:ff9b::c0a8:101]', '[2002:c0a8:101::1]', '[::1]', '[fd00::1]', '[fe80::1]', '[::ffff:127.0.0.1]']) {
+      assert.equal(isPrivateHost(host), true, host);
+    }
+    for (const host of ['[::ffff:808:808]', '[2606:4700::1111]', '8.8.8.8', 'example.org']) {
+      assert.equal(isPrivateHost(host), false, host);
+    }
+    assert.equal(isPrivateHost('[1:2:3]'), true, 'unparseable IPv6 literals are refused');
+  });
+
+  it('refuses public names that resolve to private addresses', async () => {
+    const lookup = async (host) => (host === 'rebind.example.net'
+      ? [{ address: '93.184.216.34', family: 4 }, { address: '::ffff:10.0.0.5', family: 6 }]
+      : [{ address: '93.184.216.34', family: 4 }]);
+    assert.equal(await resolvesToPrivateHost('rebind.example.net', lookup), true);
+    assert.equal(await resolvesToPrivateHost('blog.example.net', lookup), false);
+    assert.equal(await resolvesToPrivateHost('gone.example.net', async () => { throw new Error('ENOTFOUND'); }), false);
+    assert.equal(await resolvesToPrivateHost('127.0.0.1', () => assert.fail('literals are not resolved')), true);
+  });
+});
+
+describe('rss-proxy custom feeds', () => {
+  it('rejects private hosts, credentials and odd ports without fetching', async () => {
+    await withFetch(async () => assert.fail('should not fetch'), async () => {
+      for (const url of ['http://127.0.0.1/feed', 'https://localhost/rss', 'http://169.254.169.254/latest', 'http://[::ffff:7f00:1]/feed', 'http://[::ffff:127.0.0.1]/feed', 'https://a:b@example.org/rss', 'https://example.org:8443/rss', 'file:///etc/passwd']) {
+        const res = await rssProxy(proxyRequest(url));
+        assert.equal(res.status, 400, url);
+      }
+    });
+  });
+
+  it('serves feeds from non-allowlisted hosts with a fixed content type', async () => {
+    const body = '<?xml version="1.0"?><rss version="2.0"><channel><item><title>A</title></item></channel></rss>';
+    const res = await withFetch(async () => new Response(body, { status: 200, headers: { 'content-type': 'text/html' } }),
+      () => rssProxy(proxyRequest('https://blog.example.net/rss')));
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'application/xml; charset=utf-8');
+    assert.equal(res.headers.get('x-content-type-options'), 'nosniff');
+    assert.equal(await res.text(), body);
+
+    const json = JSON.stringify({ version: 'https://jsonfeed.org/version/1', items: [] });
+    const jsonRes = await withFetch(async () => new Response(json, { status: 200 }), () => rssProxy(proxyRequest('https://blog.example.net/feed.json')));
+    assert.equal(jsonRes.headers.get('content-type'), 'application/feed+json; charset=utf-8');
+  });
+
+  it('refuses non-feed documents and redirects to private hosts', async () => {
+    const html = await withFetch(async () => new Response('<html><body>hi</body></html>', { status: 200 }),
+      () => rssProxy(proxyRequest('https://blog.example.net/rss')));
+    assert.equal(html.status, 422);
+
+    const redirected = await withFetch(async () => new Response(null, { status: 302, headers: { location: 'http://10.0.0.5/feed' } }),
+      () => rssProxy(proxyRequest('https://blog.example.net/rss')));
+    assert.equal(redirected.status, 502);
+  });
+
+  it('stops reading feeds past 2 MB whatever the headers say', async () => {
+    let pulled = 0;
+    let cancelled = false;
+    const endless = () => new ReadableStream({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new TextEncoder().encode('<rss>'.padEnd(64 * 1024, ' ')));
+      },
+      cancel() { cancelled = true; },
+    });
+    const res = await withFetch(async () => new Response(endless(), { status: 200 }),
+      () => rssProxy(proxyRequest('https://blog.example.net/rss')));
+    assert.equal(res.status, 413);
+    assert.ok(cancelled, 'upstream body should be cancelled');
+    assert.ok(pulled <= 40, `read ${pulled} chunks`);
+
+    // 1M three-byte characters: under the limit in UTF-16 code units, over it in bytes
+    const wide = `<rss><channel><title>${'€'.repeat(1024 * 1024)}</title></channel></rss>`;
+    const wideRes = await withFetch(async () => new Response(wide, { status: 200, headers: { 'content-length': '10' } }),
+      () => rssProxy(proxyRequest('https://blog.example.net/rss')));
+    assert.equal(wideRes.status, 413);
+  });
+
+  it('keeps the domain allowlist for built-in requests', async () => {
+    const res = await withFetch(async () => assert.fail('should not fetch'), () => rssProxy(proxyRequest('https://blog.example.net/rss', false)));
+    assert.equal(res.status, 403);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const gis = loadModule('../src/utils/gis-export.ts');
+const parse = loadModule('../src/services/custom-layers/parse.ts', { '@/utils/gis-export': gis });
+const urlState = loadModule('../src/utils/urlState.ts');
+
+describe('GeoJSON import', () => {
+  it('splits multi-part geometries and drops invalid positions', () => {
+    const features = parse.parseGeoJSON(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: 'Ports', tier: 1 }, geometry: { type: 'MultiPoint', coordinates: [[30, 50, 12], [200, 10], [31, 51]] } },
+        { type: 'Feature', properties: null, geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1]]] } },
+      ],
+    }));
+    assert.equal(features.length, 3);
+    assert.deepEqual(features[0], { name: 'Ports', geometry: { type: 'Point', coordinates: [30, 50] }, properties: { name: 'Ports', tier: 1 } });
+    assert.equal(features[2].name, 'Feature 2');
+    assert.equal(features[2].geometry.coordinates[0].length, 4);
+  });
+
+  it('accepts a bare geometry and rejects empty input', () => {
+    assert.equal(parse.parseGeoJSON('{"type":"LineString","coordinates":[[0,0],[1,1]]}')[0].geometry.type, 'LineString');
+    assert.throws(() => parse.parseGeoJSON('{"type":"FeatureCollection","features":[]}'), /No valid features/);
+    assert.throws(() => parse.parseGeoJSON('not json'), /Invalid GeoJSON/);
+  });
+});
+
+describe('KML import', () => {
+  it('reads nested placemarks, extended data and multi-geometries', () => {
+    const kml = `<?xml version="1.0"?>
+      <kml xmlns="http://www.opengis.net/kml/2.2"><Document><Folder>
+        <Placemark><name>Depot &amp; yard</name>
+          <ExtendedData><Data name="owner"><value>ACME</value></Data>
+            <SchemaData><SimpleData name="capacity">120</SimpleData></SchemaData></ExtendedData>
+          <Point><coordinates>30.5,50.4,0</coordinates></Point></Placemark>
+        <Placemark><MultiGeometry>
+          <LineString><coordinates>0,0 1,1 2,2</coordinates></LineString>
+          <Polygon><outerBoundaryIs><LinearRing><coordinates>0,0 1,0 1,1 0,0</coordinates></LinearRing></outerBoundaryIs></Polygon>
+        </MultiGeometry></Placemark>
+      </Folder></Document></kml>`;
+    const features = parse.parseKML(kml);
+    assert.equal(features.length, 3);
+    assert.equal(features[0].name, 'Depot & yard');
+    assert.deepEqual(features[0].properties, { owner: 'ACME', capacity: '120' });
+    assert.deepEqual(features[0].geometry.coordinates, [30.5, 50.4]);
+    assert.deepEqual(features.slice(1).map(f => f.geometry.type), ['LineString', 'Polygon']);
+    assert.equal(features[1].name, 'Placemark 2');
+  });
+});
+
+describe('CSV import', () => {
+  it('detects coordinate and name columns', () => {
+    const features = parse.parseCSV('Site,Latitude,Lng,staff\n"Plant, North",51.5,-0.12,40\nBad row,abc,1,2\n');
+    assert.equal(features.length, 1);
+    assert.equal(features[0].name, 'Plant, North');
+    assert.deepEqual(features[0].geometry.coordinates, [-0.12, 51.5]);
+    assert.deepEqual(features[0].properties, { Site: 'Plant, North', staff: 40 });
+    assert.throws(() => parse.parseCSV('a,b\n1,2'), /latitude and longitude/);
+  });
+
+  it('picks the format from the extension or the content', () => {
+    assert.equal(parse.detectFormat('sites.KML', ''), 'kml');
+    assert.equal(parse.detectFormat('export', '  {"type":"Feature"}'), 'geojson');
+    assert.equal(parse.detectFormat('export', 'lat,lon\n1,2'), 'csv');
+  });
+});
+
+describe('WMS and layer ids', () => {
+  it('strips GetMap parameters and requires layer names', () => {
+    const wms = parse.parseWmsSource('https://maps.example.org/wms?map=ows&SERVICE=WMS&request=GetCapabilities', 'roads, rivers ,');
+    assert.equal(wms.url, 'https://maps.example.org/wms?map=ows');
+    assert.deepEqual(wms.layers, ['roads', 'rivers']);
+    assert.throws(() => parse.parseWmsSource('ftp://example.org', 'a'), /http or https/);
+    assert.throws(() => parse.parseWmsSource('https://example.org', ' '), /layer name/);
+  });
+
+  it('builds unique URL-safe ids', () => {
+    assert.equal(parse.customLayerId('Kyiv Sites', []), 'custom-kyiv-sites');
+    assert.equal(parse.customLayerId('Kyiv sites!', ['custom-kyiv-sites']), 'custom-kyiv-sites-2');
+    assert.equal(parse.customLayerId('★', []), 'custom-layer');
+  });
+});
+
+describe('custom layers in URL state', () => {
+  const fallback = { conflicts: true, fires: false };
+
+  it('round-trips enabled custom ids through the layers param', () => {
+    const url = urlState.buildMapUrl('https://worldmonitor.app/', {
+      view: 'global', zoom: 2, timeRange: '24h', layers: { conflicts: true }, customLayers: ['custom-depots', 'bad id'],
+    });
+    assert.match(url, /layers=conflicts%2Ccustom-depots(&|$)/);
+    const parsed = urlState.parseMapUrlState(new URL(url).search, fallback);
+    assert.deepEqual(parsed.customLayers, ['custom-depots']);
+    assert.equal(parsed.layers.conflicts, true);
+  });
+
+  it('leaves custom layers untouched when the URL has no layers param', () => {
+    assert.equal(urlState.parseMapUrlState('?zoom=3', fallback).customLayers, undefined);
+    assert.deepEqual(urlState.parseMapUrlState('?layers=none', fallback).customLayers, []);
+  });
+});
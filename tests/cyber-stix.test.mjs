@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { loadModule } from './_load-module.mjs';
+
+const APT_GROUPS = [
+  { id: 'lazarus', name: 'Lazarus', aka: 'Hidden Cobra', sponsor: 'North Korea (RGB)', lat: 0, lon: 0, sponsorCode: 'KP', aliases: ['lazarus', 'hidden cobra'], malware: ['applejeus'] },
+  { id: 'apt28', name: 'APT28/29', aka: 'Fancy Bear/Cozy Bear', sponsor: 'Russia (GRU/FSB)', lat: 0, lon: 0, sponsorCode: 'RU', aliases: ['apt28'], malware: ['zebrocy'] },
+];
+const ENTITIES = [{ id: 'KP', type: 'country', name: 'North Korea', aliases: [], keywords: [] }];
+
+const { findRelatedIndicators, attributeThreat } = loadModule('../src/services/cyber/pivot.ts', {
+  '@/config/geo': { APT_GROUPS },
+  '@/config/entities': { getEntityById: (id) => ENTITIES.find((e) => e.id === id) },
+});
+const { toStixBundle, stixPattern, uuidv5 } = loadModule('../src/services/cyber/stix.ts');
+
+const threat = (id, overrides = {}) => ({
+  id,
+  type: 'c2_server',
+  source: 'feodo',
+  indicator: id,
+  indicatorType: 'ip',
+  lat: 0,
+  lon: 0,
+  severity: 'high',
+  tags: [],
+  firstSeen: '2026-10-01T12:00:00.000Z',
+  lastSeen: '2026-10-02T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('cyber IOC pivots', () => {
+  it('ranks indicators sharing ASN, family or first-seen window', () => {
+    const selected = threat('1.1.1.1', { asn: 'AS64500', malwareFamily: 'QakBot' });
+    const others = [
+      selected,
+      threat('2.2.2.2', { asn: 'AS64500', malwareFamily: 'qakbot', firstSeen: '2026-09-01T00:00:00.000Z' }),
+      threat('3.3.3.3', { asn: 'AS64501', firstSeen: '2026-10-01T12:30:00.000Z' }),
+      threat('4.4.4.4', { asn: 'AS64500', firstSeen: '2026-10-01T12:10:00.000Z' }),
+      threat('5.5.5.5', { asn: 'AS64999', firstSeen: '2026-10-05T00:00:00.000Z' }),
+    ];
+    const { related, counts } = findRelatedIndicators(selected, others);
+
+    assert.deepEqual(related.map((r) => [r.threat.id, r.relations]), [
+      ['4.4.4.4', ['asn', 'firstSeen']],
+      ['2.2.2.2', ['asn', 'malware']],
+      ['3.3.3.3', ['firstSeen']],
+    ]);
+    assert.deepEqual(counts, { asn: 2, malware: 1, firstSeen: 2 });
+    assert.equal(findRelatedIndicators(selected, others, { limit: 1 }).related.length, 1);
+  });
+
+  it('attributes by malware family or feed tag and links the sponsor entity', () => {
+    const [byFamily] = attributeThreat(threat('a', { malwareFamily: 'AppleJeus' }));
+    assert.equal(byFamily.group.id, 'lazarus');
+    assert.equal(byFamily.matchedOn, 'malware');
+    assert.equal(byFamily.sponsor.id, 'KP');
+
+    const [byTag] = attributeThreat(threat('b', { tags: ['APT28', 'phishing'] }));
+    assert.deepEqual([byTag.group.id, byTag.matchedOn, byTag.sponsor], ['apt28', 'tag', undefined]);
+    assert.deepEqual(attributeThreat(threat('c', { malwareFamily: 'Emotet' })), []);
+  });
+});
+
+describe('STIX 2.1 export', () => {
+  it('derives RFC 4122 v5 ids', () => {
+    const dns = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+    assert.equal(uuidv5('www.example.com', dns), '2ed6657d-e927-568b-95e1-2665a8aea6a2');
+    // Names past one 64-byte block exercise the SHA-1 padding; check against node:crypto.
+    const name = 'indicator:url:' + 'x'.repeat(130);
+    const bytes = createHash('sha1').update(Buffer.from(dns.replace(/-/g, ''), 'hex')).update(name).digest().subarray(0, 16);
+    bytes[6] = (bytes[6] & 0x0f) | 0x50;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = bytes.toString('hex');
+    assert.equal(uuidv5(name, dns), `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`);
+  });
+
+  it('builds patterns for each indicator type', () => {
+    assert.equal(stixPattern({ indicator: '203.0.113.9', indicatorType: 'ip' }), "[ipv4-addr:value = '203.0.113.9']");
+    assert.equal(stixPattern({ indicator: '2001:db8::1', indicatorType: 'ip' }), "[ipv6-addr:value = '2001:db8::1']");
+    assert.equal(stixPattern({ indicator: 'evil.example', indicatorType: 'domain' }), "[domain-name:value = 'evil.example']");
+    assert.equal(stixPattern({ indicator: "http://x.test/a'b\\c", indicatorType: 'url' }), "[url:value = 'http://x.test/a\\'b\\\\c']");
+  });
+
+  it('links indicators, malware and intrusion sets with stable ids', () => {
+    const threats = [
+      threat('1.1.1.1', { malwareFamily: 'AppleJeus', asn: 'AS64500', tags: ['c2'] }),
+      threat('2.2.2.2', { malwareFamily: 'applejeus', firstSeen: '2026-09-01T00:00:00.000Z', lastSeen: '2026-10-09T00:00:00.000Z' }),
+      threat('3.3.3.3', { tags: ['lazarus'], firstSeen: undefined, lastSeen: undefined }),
+    ];
+    const now = new Date('2026-10-10T00:00:00.000Z');
+    const bundle = toStixBundle(threats, { now, attribute: attributeThreat });
+    const byType = (type) => bundle.objects.filter((o) => o.type === type);
+
+    assert.equal(bundle.type, 'bundle');
+    assert.equal(byType('identity').length, 1);
+    assert.equal(byType('indicator').length, 3);
+    const [malware] = byType('malware');
+    assert.deepEqual([malware.name, malware.is_family, malware.created, malware.modified],
+      ['AppleJeus', true, '2026-09-01T00:00:00.000Z', '2026-10-09T00:00:00.000Z']);
+    const [intrusionSet] = byType('intrusion-set');
+    assert.deepEqual(intrusionSet.aliases, ['Hidden Cobra']);
+
+    const rels = byType('relationship').map((r) => [r.source_ref.split('--')[0], r.relationship_type, r.target_ref.split('--')[0]]).sort();
+    assert.deepEqual(rels, [
+      ['indicator', 'indicates', 'intrusion-set'],
+      ['indicator', 'indicates', 'malware'],
+      ['indicator', 'indicates', 'malware'],
+      ['intrusion-set', 'uses', 'malware'],
+    ]);
+
+    const undated = byType('indicator').find((o) => o.name === '3.3.3.3');
+    assert.equal(undated.valid_from, now.toISOString());
+    assert.equal(byType('indicator')[0].x_worldmonitor_asn, 'AS64500');
+    assert.deepEqual(toStixBundle(threats, { now, attribute: attributeThreat }), bundle, 'exports are deterministic');
+  });
+});
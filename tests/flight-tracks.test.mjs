@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const tracks = loadModule('../src/services/flight-tracks/analysis.ts');
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.UTC(2026, 5, 10, 12);
+
+/** Track point at an offset in km east (dx) and north (dy) of a center. */
+function at(time, lat0, lon0, dx, dy, heading, speed = 300, alt = 25000) {
+  return [time, lat0 + dy / 110.57, lon0 + dx / (111.32 * Math.cos((lat0 * Math.PI) / 180)), alt, heading, speed];
+}
+
+function flight(overrides = {}) {
+  return {
+    id: 'opensky-ae1234',
+    callsign: 'RCH123',
+    hexCode: 'AE1234',
+    aircraftType: 'transport',
+    operator: 'usaf',
+    operatorCountry: 'USA',
+    lat: 50,
+    lon: 8,
+    altitude: 30000,
+    heading: 90,
+    speed: 420,
+    onGround: false,
+    lastSeen: new Date(NOW),
+    confidence: 'high',
+    ...overrides,
+  };
+}
+
+describe('appendFlightPositions', () => {
+  it('keys tracks by hex, skips repeated refreshes and keeps recent callsigns first', () => {
+    const map = new Map();
+    assert.deepEqual(tracks.appendFlightPositions(map, [flight()]), ['AE1234']);
+    assert.deepEqual(tracks.appendFlightPositions(map, [flight({ lastSeen: new Date(NOW + 30_000) })]), []);
+    tracks.appendFlightPositions(map, [flight({
+      hexCode: 'ae1234', callsign: 'HKY55', lat: 51, lastSeen: new Date(NOW + 15 * 60_000),
+      registration: '07-7178', enriched: { owner: 'United States Air Force', typeCode: 'C17' },
+    })]);
+
+    const track = map.get('AE1234');
+    assert.equal(track.points.length, 2);
+    assert.deepEqual(track.callsigns, ['HKY55', 'RCH123']);
+    assert.equal(track.details.registration, '07-7178');
+    assert.equal(track.details.typeCode, 'C17');
+    assert.equal(track.lastSeen, NOW + 15 * 60_000);
+  });
+
+  it('does not overwrite known details with empty values', () => {
+    assert.deepEqual(
+      tracks.mergeDetails({ registration: 'A', owner: 'USAF' }, { registration: '', owner: undefined, model: 'KC-135R' }),
+      { registration: 'A', owner: 'USAF', model: 'KC-135R' },
+    );
+  });
+});
+
+describe('pruneTracks', () => {
+  it('drops points past retention and the stalest tracks beyond the cap', () => {
+    const map = new Map();
+    for (let i = 0; i < tracks.MAX_TRACKS + 2; i++) {
+      const hex = `H${i}`;
+      map.set(hex, { hex, callsigns: [], points: [[NOW - i * 1000, 0, 0, 0, 0, 0]], firstSeen: 0, lastSeen: NOW - i * 1000 });
+    }
+    map.get('H0').points.unshift([NOW - tracks.TRACK_RETENTION_MS - 1, 0, 0, 0, 0, 0]);
+    tracks.pruneTracks(map, NOW);
+    assert.equal(map.size, tracks.MAX_TRACKS);
+    assert.equal(map.has(`H${tracks.MAX_TRACKS + 1}`), false);
+    assert.equal(map.get('H0').points.length, 1);
+    assert.equal(map.get('H0').firstSeen, NOW);
+  });
+});
+
+describe('sorties and replay', () => {
+  it('splits at long gaps and cuts a track at a replay time', () => {
+    const points = [0, 10, 20, 200, 210].map(m => [NOW + m * 60_000, 0, 0, 0, 0, 0]);
+    assert.deepEqual(tracks.splitSorties(points).map(s => s.length), [3, 2]);
+    assert.equal(tracks.pointsUntil(points, NOW + 20 * 60_000).length, 3);
+    assert.equal(tracks.pointsUntil(points, NOW - 1).length, 0);
+  });
+});
+
+describe('detectTrackPatterns', () => {
+  it('finds an orbit around a fixed point', () => {
+    const points = Array.from({ length: 12 }, (_, i) => {
+      const angle = (i * 130 * Math.PI) / 180;
+      return at(NOW + i * 10 * 60_000, 45, 35, 40 * Math.cos(angle), 40 * Math.sin(angle), (i * 130 + 180) % 360);
+    });
+    const [pattern, ...rest] = tracks.detectTrackPatterns(points);
+    assert.equal(rest.length, 0);
+    assert.equal(pattern.kind, 'orbit');
+    assert.ok(Math.abs(pattern.lat - 45) < 0.2 && Math.abs(pattern.lon - 35) < 0.2);
+    assert.ok(pattern.radiusKm >= 35 && pattern.radiusKm <= 45);
+  });
+
+  it('finds a racetrack flown in both directions along one axis', () => {
+    const points = Array.from({ length: 12 }, (_, i) => {
+      const leg = Math.floor(i / 3) % 2;
+      const x = leg === 0 ? -60 + (i % 3) * 60 : 60 - (i % 3) * 60;
+      return at(NOW + i * 10 * 60_000, 55, 20, x, leg === 0 ? 10 : -10, leg === 0 ? 90 : 270, 350);
+    });
+    const [pattern] = tracks.detectTrackPatterns(points);
+    assert.equal(pattern.kind, 'racetrack');
+    assert.ok(pattern.lengthKm >= 110 && pattern.lengthKm <= 130);
+    assert.ok(pattern.axisDeg >= 85 && pattern.axisDeg <= 95);
+  });
+
+  it('calls a search pattern that is neither an orbit nor a racetrack a loiter box', () => {
+    const points = Array.from({ length: 11 }, (_, i) =>
+      at(NOW + i * 10 * 60_000, 33, 34, i * 15, i % 2 ? 15 : -15, i % 2 ? 0 : 180, 200));
+    const [pattern] = tracks.detectTrackPatterns(points);
+    assert.equal(pattern.kind, 'loiter');
+  });
+
+  it('ignores straight transits and aircraft on the ground', () => {
+    const transit = Array.from({ length: 12 }, (_, i) => at(NOW + i * 10 * 60_000, 40, 0, i * 130, 0, 90, 420));
+    assert.deepEqual(tracks.detectTrackPatterns(transit), []);
+    const parked = Array.from({ length: 12 }, (_, i) => at(NOW + i * 10 * 60_000, 40, 0, 0, 0, 0, 0, 0));
+    assert.deepEqual(tracks.detectTrackPatterns(parked), []);
+  });
+});
+
+describe('operating areas', () => {
+  const home = Array.from({ length: 30 }, (_, i) =>
+    at(NOW - 4 * DAY + i * 3 * HOUR, 50, 10, ((i * 37) % 200) - 100, ((i * 53) % 200) - 100, 0));
+
+  function track(points) {
+    return { hex: 'AE0001', callsigns: [], aircraftType: 'tanker', operator: 'usaf', operatorCountry: 'USA', points, firstSeen: points[0][0], lastSeen: points[points.length - 1][0] };
+  }
+
+  it('learns the usual area from points older than a day', () => {
+    const area = tracks.operatingArea(home, NOW);
+    assert.ok(Math.abs(area.lat - 50) < 0.5 && Math.abs(area.lon - 10) < 0.5);
+    assert.ok(area.radiusKm >= 100 && area.radiusKm <= 150);
+    assert.ok(area.days >= 3);
+    assert.equal(tracks.operatingArea(home.slice(0, 5), NOW), null);
+  });
+
+  it('flags a recent position far outside the usual area only', () => {
+    const away = tracks.detectAreaDeviation(track([...home, at(NOW - HOUR, 35, 40, 0, 0, 90)]), NOW);
+    assert.ok(away);
+    assert.ok(away.distanceKm > 2500);
+    assert.equal(tracks.detectAreaDeviation(track([...home, at(NOW - HOUR, 50, 10, 80, 0, 90)]), NOW), null);
+    assert.equal(tracks.detectAreaDeviation(track([...home, at(NOW - 2 * DAY, 35, 40, 0, 0, 90)]), NOW), null);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const countryBounds = loadModule('../server/_shared/country-bounds.ts');
+const geoFilter = loadModule('../server/_shared/geo-filter.ts', { './country-bounds': countryBounds });
+const { resolveCountry } = countryBounds;
+const { applyGeoFilters, inBounds, toBounds } = geoFilter;
+const { boundsContain, viewportQuery } = loadModule('../src/services/geo-query.ts');
+
+const box = (south, west, north, east) => ({
+  southWest: { latitude: south, longitude: west },
+  northEast: { latitude: north, longitude: east },
+});
+const at = (latitude, longitude) => ({ latitude, longitude });
+
+describe('bounding boxes', () => {
+  it('treats an unset or zero-valued box as no filter', () => {
+    assert.equal(toBounds(undefined), null);
+    assert.equal(toBounds({ southWest: at(0, 0), northEast: at(0, 0) }), null);
+    assert.deepEqual(toBounds(box(10, -20, -10, 20)), [-20, -10, 20, 10]);
+  });
+
+  it('wraps across the antimeridian when west is east of east', () => {
+    const pacific = toBounds(box(-30, 170, 10, -170));
+    assert.ok(inBounds(at(-18, 178), pacific));
+    assert.ok(inBounds(at(-18, -175), pacific));
+    assert.ok(!inBounds(at(-18, 0), pacific));
+    assert.ok(!inBounds(at(20, 178), pacific));
+  });
+});
+
+describe('country resolution', () => {
+  it('accepts ISO codes, names and common aliases', () => {
+    assert.equal(resolveCountry('ua')?.name, 'Ukraine');
+    assert.equal(resolveCountry('United States')?.code, 'US');
+    assert.equal(resolveCountry('Russian Federation')?.code, 'RU');
+    assert.equal(resolveCountry('Atlantis'), null);
+  });
+
+  it('keeps countries spanning the antimeridian compact', () => {
+    const [west, , east] = resolveCountry('RU').bounds;
+    assert.ok(west > east, 'Russia should wrap rather than span the globe');
+    assert.deepEqual(resolveCountry('SG').bounds, null);
+  });
+});
+
+describe('applyGeoFilters', () => {
+  const events = [
+    { id: 'kyiv', country: 'Ukraine', location: at(50.45, 30.52), occurredAt: 1_000 },
+    { id: 'kharkiv', country: 'UA', location: at(49.99, 36.23), occurredAt: 3_000 },
+    { id: 'warsaw', country: 'Poland', location: at(52.23, 21.01), occurredAt: 2_000 },
+  ];
+  const get = { location: (e) => e.location, time: (e) => e.occurredAt, country: (e) => e.country };
+  const ids = (items) => items.map((e) => e.id);
+
+  it('matches a country by code or name on either side', () => {
+    assert.deepEqual(ids(applyGeoFilters(events, { country: 'UA' }, get)), ['kyiv', 'kharkiv']);
+    assert.deepEqual(ids(applyGeoFilters(events, { country: 'ukraine' }, get)), ['kyiv', 'kharkiv']);
+  });
+
+  it('combines bbox and time range', () => {
+    const req = { boundingBox: box(45, 20, 55, 35), timeRange: { start: 1_500, end: 0 } };
+    assert.deepEqual(ids(applyGeoFilters(events, req, get)), ['warsaw']);
+  });
+
+  it('falls back to the country bbox for items without a country field', () => {
+    const coordsOnly = { location: get.location };
+    assert.deepEqual(ids(applyGeoFilters(events, { country: 'PL' }, coordsOnly)), ['warsaw']);
+    assert.deepEqual(applyGeoFilters(events, { country: 'Atlantis' }, coordsOnly), []);
+  });
+
+  it('filters earthquakes from the cached feed in ListEarthquakes', async () => {
+    const quakes = [
+      { id: 'jp', magnitude: 6.1, location: at(37.4, 141.6), occurredAt: Date.now() - 1_000 },
+      { id: 'cl', magnitude: 5.2, location: at(-33.4, -71.6), occurredAt: Date.now() - 1_000 },
+      { id: 'fj', magnitude: 4.6, location: at(-17.8, 178.1), occurredAt: Date.now() - 1_000 },
+    ];
+    const handler = loadModule('../server/worldmonitor/seismology/v1/list-earthquakes.ts', {
+      '../../../_shared/redis': { cachedFetchJson: async () => ({ earthquakes: quakes }) },
+      '../../../_shared/geo-filter': geoFilter,
+      '../../../_shared/constants': { CHROME_UA: 'test' },
+    });
+    const list = async (req) => ids((await handler.listEarthquakes({}, { minMagnitude: 0, country: '', ...req })).earthquakes);
+    assert.deepEqual(await list({ boundingBox: box(-40, 130, 50, -60) }), ['jp', 'cl', 'fj']);
+    assert.deepEqual(await list({ boundingBox: box(-40, 130, 50, -160) }), ['jp', 'fj']);
+    assert.deepEqual(await list({ country: 'Chile' }), ['cl']);
+    assert.deepEqual(await list({ minMagnitude: 5 }), ['jp', 'cl']);
+  });
+});
+
+describe('viewport queries', () => {
+  it('pads and snaps the visible area, going global near world zoom', () => {
+    const query = viewportQuery([30.2, 45.1, 36.7, 52.3]);
+    assert.deepEqual(query.bounds, [28, 43, 39, 55]);
+    assert.ok(boundsContain(query.bounds, [30.2, 45.1, 36.7, 52.3]));
+    assert.equal(viewportQuery([-170, -60, 170, 70]), null);
+    assert.equal(viewportQuery(null), null);
+  });
+
+  it('checks containment across the antimeridian', () => {
+    assert.ok(boundsContain([170, -30, -170, 10], [175, -20, -175, 0]));
+    assert.ok(!boundsContain([170, -30, -170, 10], [160, -20, -175, 0]));
+    assert.ok(!boundsContain([-20, -10, 20, 10], [-25, -5, 5, 5]));
+  });
+});
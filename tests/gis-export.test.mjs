@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadModule } from './_load-module.mjs';
+
+const gis = loadModule('../src/utils/gis-export.ts');
+const gpkg = loadModule('../src/utils/geopackage.ts', { './gis-export': gis });
+
+let sqlite = null;
+try {
+  sqlite = await import('node:sqlite');
+} catch {
+  // node:sqlite ships unflagged from Node 22.13
+}
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const HOUR = 60 * 60 * 1000;
+const ALL_OFF = { conflicts: false, ucdpEvents: false, protests: false, natural: false, fires: false, military: false, ais: false, outages: false, cables: false };
+
+const data = {
+  fires: [
+    { lat: 10, lon: 20, brightness: 330, frp: 12.4, confidence: 80, region: 'Sahel', acq_date: new Date(NOW - HOUR).toISOString(), daynight: 'D' },
+    { lat: 11, lon: 21, brightness: 310, frp: 3, confidence: 50, region: 'Sahel', acq_date: new Date(NOW - 72 * HOUR).toISOString(), daynight: 'N' },
+  ],
+  militaryFlights: {
+    flights: [{ id: 'f1', callsign: 'RCH123', hexCode: 'ae0001', lat: 50, lon: 179.5, lastSeen: new Date(NOW), track: [[49, 178], [50, 179.5]], operator: 'usaf', onGround: false }],
+    clusters: [],
+  },
+  outages: [{ id: 'o1', title: 'Outage <Tehran>', lat: 35.7, lon: 51.4, pubDate: new Date(NOW), categories: ['bgp', 'power'], severity: 'major' }],
+};
+const conflictZones = [{ id: 'z1', name: 'Zone & Co', coords: [[30, 45], [35, 45], [35, 50]], center: [32, 47], parties: ['A', 'B'] }];
+
+describe('map layer collection', () => {
+  it('keeps active layers, applies the time cutoff and flattens properties', () => {
+    const layers = gis.buildMapExportLayers(data, {
+      layers: { ...ALL_OFF, fires: true, outages: true }, conflictZones, cutoff: NOW - 24 * HOUR, bounds: null,
+    });
+    assert.deepEqual(layers.map(l => l.id), ['fires', 'internet_outages']);
+    assert.equal(layers[0].features.length, 1);
+    assert.deepEqual(layers[0].features[0].geometry, { type: 'Point', coordinates: [20, 10] });
+    const outage = layers[1].features[0].properties;
+    assert.equal(outage.pubDate, new Date(NOW).toISOString());
+    assert.equal(outage.categories, 'bgp; power');
+  });
+
+  it('builds closed conflict polygons and lon/lat flight tracks', () => {
+    const layers = gis.buildMapExportLayers(data, { layers: { ...ALL_OFF, conflicts: true, military: true }, conflictZones, cutoff: null, bounds: null });
+    const zone = layers.find(l => l.id === 'conflict_zones').features[0];
+    assert.equal(zone.geometry.coordinates[0].length, 4);
+    assert.equal(zone.properties.coords, undefined);
+    const trackLayer = layers.find(l => l.id === 'military_flight_tracks');
+    assert.deepEqual(trackLayer.features[0].geometry.coordinates, [[178, 49], [179.5, 50]]);
+    assert.equal(layers.find(l => l.id === 'military_flights').features[0].properties.track, undefined);
+  });
+
+  it('filters to the viewport, including across the antimeridian', () => {
+    const opts = { layers: { ...ALL_OFF, fires: true, military: true }, conflictZones, cutoff: null };
+    const europe = gis.buildMapExportLayers(data, { ...opts, bounds: [-10, 0, 40, 60] });
+    assert.deepEqual(europe.map(l => l.id), ['fires']);
+    const pacific = gis.buildMapExportLayers(data, { ...opts, bounds: [170, 30, -170, 60] });
+    assert.deepEqual(pacific.map(l => l.id), ['military_flights', 'military_flight_tracks']);
+  });
+});
+
+describe('GeoJSON and KML', () => {
+  const layers = gis.buildMapExportLayers(data, { layers: { ...ALL_OFF, conflicts: true, outages: true }, conflictZones, cutoff: null, bounds: null });
+
+  it('writes one FeatureCollection tagged by layer', () => {
+    const fc = JSON.parse(gis.toGeoJSON(layers));
+    assert.equal(fc.features.length, 2);
+    assert.equal(fc.features[0].properties.layer, 'conflict_zones');
+    assert.equal(fc.features[0].geometry.type, 'Polygon');
+    assert.equal(fc.features[1].properties.severity, 'major');
+  });
+
+  it('writes escaped KML folders with extended data', () => {
+    const kml = gis.toKML(layers);
+    assert.match(kml, /<Folder><name>Conflict zones<\/name><Placemark><name>Zone &amp; Co<\/name>/);
+    assert.match(kml, /<name>Outage &lt;Tehran&gt;<\/name>/);
+    assert.match(kml, /<Data name="severity"><value>major<\/value><\/Data>/);
+    assert.match(kml, /<Point><coordinates>51.4,35.7<\/coordinates><\/Point>/);
+  });
+});
+
+describe('GeoPackage', () => {
+  const points = Array.from({ length: 1500 }, (_, i) => ({
+    name: `p${i}`,
+    geometry: { type: 'Point', coordinates: [(i % 360) - 180, (i % 170) - 85] },
+    properties: { count: i, share: i / 4, flag: i % 2 === 0, note: i % 5 ? null : `note ${i}` },
+  }));
+  const ring = Array.from({ length: 400 }, (_, i) => [Math.cos(i / 64) * 10, Math.sin(i / 64) * 10]);
+  ring.push(ring[0]);
+  const layers = [
+    { id: 'points', name: 'Points', features: points },
+    { id: 'zones', name: 'Zones', features: [{ name: 'big', geometry: { type: 'Polygon', coordinates: [ring] }, properties: { text: 'x'.repeat(9000) } }] },
+  ];
+
+  it('encodes GeoPackageBinary geometries', () => {
+    const blob = gpkg.encodeGeometry({ type: 'Point', coordinates: [20, 10] });
+    assert.deepEqual([...blob.subarray(0, 8)], [0x47, 0x50, 0, 1, 0xe6, 0x10, 0, 0]);
+    const view = new DataView(blob.buffer);
+    assert.equal(view.getUint32(9, true), 1);
+    assert.equal(view.getFloat64(13, true), 20);
+    assert.equal(gpkg.encodeGeometry({ type: 'LineString', coordinates: [[0, 0], [1, 1]] })[3], 0b11);
+  });
+
+  it('writes an SQLite header with the GeoPackage application id', () => {
+    const file = gpkg.toGeoPackage(layers);
+    const view = new DataView(file.buffer);
+    assert.equal(new TextDecoder().decode(file.subarray(0, 15)), 'SQLite format 3');
+    assert.equal(view.getUint16(16), 4096);
+    assert.equal(view.getUint32(28) * 4096, file.length);
+    assert.equal(view.getUint32(60), 10300);
+    assert.equal(view.getUint32(68), 0x47504b47);
+  });
+
+  it('opens as a valid database', { skip: !sqlite && 'node:sqlite unavailable' }, () => {
+    const dir = mkdtempSync(join(tmpdir(), 'gpkg-'));
+    try {
+      const path = join(dir, 'layers.gpkg');
+      writeFileSync(path, gpkg.toGeoPackage(layers));
+      const db = new sqlite.DatabaseSync(path, { readOnly: true });
+      assert.equal(db.prepare('PRAGMA integrity_check').get().integrity_check, 'ok');
+      assert.deepEqual({ ...db.prepare('SELECT count(*) AS n, sum(count) AS total FROM points').get() }, { n: 1500, total: 1124250 });
+      assert.deepEqual({ ...db.prepare('SELECT name, share, flag, note FROM points WHERE fid = 11').get() }, { name: 'p10', share: 2.5, flag: 1, note: 'note 10' });
+      assert.equal(db.prepare('SELECT length(text) AS n FROM zones').get().n, 9000);
+      assert.deepEqual(db.prepare('SELECT table_name, geometry_type_name FROM gpkg_geometry_columns ORDER BY table_name').all().map(r => ({ ...r })), [
+        { table_name: 'points', geometry_type_name: 'POINT' },
+        { table_name: 'zones', geometry_type_name: 'POLYGON' },
+      ]);
+      db.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import { loadModule } from './_load-module.mjs';
+
+const require = createRequire(import.meta.url);
+const { createLiveStreamHub, formatSseEvent, parseTopics } = require('../scripts/live-stream.cjs');
+
+const { LiveTopicStore, parseLiveEvent } = loadModule('../src/services/live-stream/topic-store.ts');
+
+const quake = (id, magnitude) => ({ id, magnitude, place: `quake ${id}` });
+const ids = (items) => items.map((i) => i.id).sort();
+
+/** Decode the relay's SSE framing the way EventSource hands it to the client. */
+function decodeSse(chunk) {
+  const data = chunk.split('\n').find((line) => line.startsWith('data: ')).slice(6);
+  return parseLiveEvent(JSON.parse(data));
+}
+
+describe('relay live stream hub', () => {
+  it('publishes only new, changed and removed items', () => {
+    const hub = createLiveStreamHub({ topics: ['earthquakes'] });
+    const sent = [];
+    hub.subscribe(['earthquakes'], (event) => sent.push(event));
+
+    hub.publish('earthquakes', [quake('a', 5), quake('b', 4.6)]);
+    assert.equal(hub.publish('earthquakes', [quake('b', 4.6), quake('a', 5)]), null);
+    const delta = hub.publish('earthquakes', [quake('a', 5.2), quake('c', 6)]);
+
+    assert.deepEqual(sent.map((e) => [e.type, e.seq]), [['snapshot', 0], ['delta', 1], ['delta', 2]]);
+    assert.deepEqual(ids(delta.upserts), ['a', 'c']);
+    assert.deepEqual(delta.removes, ['b']);
+  });
+
+  it('sends late subscribers the current items and only their topics', () => {
+    const hub = createLiveStreamHub({ topics: ['earthquakes', 'ais-density'], maxClients: 2 });
+    hub.publish('earthquakes', [quake('a', 5)]);
+    const sent = [];
+    hub.subscribe(['earthquakes', 'unknown'], (event) => sent.push(event));
+    hub.publish('ais-density', [{ id: 'density-1', intensity: 0.4 }]);
+
+    assert.deepEqual(sent, [{ type: 'snapshot', topic: 'earthquakes', seq: 1, items: [quake('a', 5)] }]);
+    assert.equal(hub.subscribe(['unknown'], () => {}), null);
+    hub.subscribe(['ais-density'], () => {});
+    assert.equal(hub.subscribe(['earthquakes'], () => {}), null, 'hub should be full');
+  });
+
+  it('parses the topic allowlist and frames events for SSE', () => {
+    assert.deepEqual(parseTopics('earthquakes, bogus,earthquakes,ais-density', ['earthquakes', 'ais-density']),
+      ['earthquakes', 'ais-density']);
+    assert.deepEqual(parseTopics(null, ['earthquakes']), []);
+    const framed = formatSseEvent({ type: 'delta', topic: 'earthquakes', seq: 3, upserts: [], removes: ['x'] });
+    assert.match(framed, /^id: earthquakes:3\nevent: delta\ndata: \{.*\}\n\n$/);
+  });
+});
+
+describe('client topic store', () => {
+  it('rebuilds the relay list from a snapshot and deltas', () => {
+    const hub = createLiveStreamHub({ topics: ['earthquakes'] });
+    hub.publish('earthquakes', [quake('a', 5), quake('b', 4.6)]);
+    const store = new LiveTopicStore();
+    hub.subscribe(['earthquakes'], (event) => assert.equal(store.apply(decodeSse(formatSseEvent(event))), 'applied'));
+
+    hub.publish('earthquakes', [quake('b', 4.8), quake('c', 6)]);
+    hub.publish('earthquakes', [quake('c', 6)]);
+    assert.deepEqual(store.values(), [quake('c', 6)]);
+  });
+
+  it('reports stale events and sequence gaps', () => {
+    const store = new LiveTopicStore();
+    const delta = (seq, upserts = [], removes = []) => ({ type: 'delta', topic: 'earthquakes', seq, upserts, removes });
+    assert.equal(store.apply(delta(1, [quake('a', 5)])), 'gap', 'deltas before a snapshot are unusable');
+
+    store.apply({ type: 'snapshot', topic: 'earthquakes', seq: 4, items: [quake('a', 5)] });
+    assert.equal(store.apply(delta(4, [quake('z', 9)])), 'stale');
+    assert.equal(store.apply(delta(6, [quake('b', 5)])), 'gap');
+    assert.equal(store.apply(delta(5, [quake('b', 5)], ['a'])), 'applied');
+    assert.deepEqual(ids(store.values()), ['b']);
+  });
+
+  it('carries military flights as one item per query region', () => {
+    const region = (id, ...icaos) => ({ id, time: 1, states: icaos.map((icao) => [icao, 'RCH123 ', 'United States']) });
+    const hub = createLiveStreamHub({ topics: ['military-flights'] });
+    const store = new LiveTopicStore();
+    const events = [];
+    hub.subscribe(['military-flights'], (event) => {
+      events.push(event);
+      store.apply(decodeSse(formatSseEvent(event)));
+    });
+
+    hub.publish('military-flights', [region('PACIFIC', 'ae1'), region('WESTERN', 'ae2')]);
+    hub.publish('military-flights', [region('PACIFIC', 'ae1'), region('WESTERN', 'ae2', 'ae3')]);
+    assert.deepEqual(ids(events.at(-1).upserts), ['WESTERN']);
+    assert.deepEqual(store.values().map((r) => r.states.length), [1, 2]);
+  });
+
+  it('rejects malformed or unknown events', () => {
+    assert.equal(parseLiveEvent({ type: 'delta', topic: 'earthquakes', seq: 1, upserts: [] }), null);
+    assert.equal(parseLiveEvent({ type: 'snapshot', topic: 'markets', seq: 0, items: [] }), null);
+    assert.equal(parseLiveEvent({ type: 'snapshot', topic: 'earthquakes', seq: -1, items: [] }), null);
+    assert.deepEqual(parseLiveEvent({ type: 'delta', topic: 'vessel-events', seq: 2, upserts: [], removes: [7] }).removes, ['7']);
+  });
+});
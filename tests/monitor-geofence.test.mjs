@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const geo = loadModule('../src/services/geofence/match.ts');
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 12);
+const KYIV = { id: 'm1', keywords: [], color: '#f00', name: 'Kyiv', lat: 50.45, lon: 30.52, radiusKm: 100 };
+
+const points = [
+  { id: 'f1', layer: 'fires', lat: 50.6, lon: 30.7, label: 'Fire near Brovary', time: NOW - 3600_000 },
+  { id: 'q1', layer: 'earthquakes', lat: 50.4, lon: 30.4, label: 'M4.1 test', time: NOW - 7200_000 },
+  { id: 'f2', layer: 'fires', lat: 48.5, lon: 35.0, label: 'Fire far away', time: NOW },
+  { id: 'v1', layer: 'vessels', lat: Number.NaN, lon: 30.5, label: 'No position', time: 0 },
+];
+
+function hit(monitorId, itemId, detectedAt, layer = 'fires') {
+  return { key: `${monitorId}:${layer}:${itemId}`, monitorId, layer, itemId, label: itemId, lat: 50, lon: 30, distanceKm: 1, eventTime: detectedAt, detectedAt };
+}
+
+describe('geofence matching', () => {
+  it('matches items inside the radius on watched layers', () => {
+    const hits = geo.matchGeofence(KYIV, points, NOW);
+    assert.deepEqual(hits.map(h => h.key), ['m1:fires:f1', 'm1:earthquakes:q1']);
+    assert.ok(hits[0].distanceKm > 0 && hits[0].distanceKm < 100);
+    assert.equal(hits[0].eventTime, NOW - 3600_000);
+    assert.equal(hits[0].detectedAt, NOW);
+  });
+
+  it('applies the layer filter and ignores monitors without a geofence', () => {
+    const firesOnly = geo.matchGeofence({ ...KYIV, layers: ['fires'] }, points, NOW);
+    assert.deepEqual(firesOnly.map(h => h.itemId), ['f1']);
+    assert.deepEqual(geo.monitorLayers({ ...KYIV, layers: [] }), geo.GEOFENCE_LAYERS);
+    assert.deepEqual(geo.matchGeofence({ ...KYIV, radiusKm: undefined }, points, NOW), []);
+    assert.equal(geo.hasGeofence({ id: 'k', keywords: ['iran'], color: '#fff' }), false);
+  });
+});
+
+describe('hit log', () => {
+  it('dedupes items already logged and drops entries past retention', () => {
+    const log = [hit('m1', 'old', NOW - 100 * DAY), hit('m1', 'f1', NOW - DAY)];
+    const { log: merged, added } = geo.mergeHits(log, [hit('m1', 'f1', NOW), hit('m1', 'f3', NOW)], NOW);
+    assert.deepEqual(added.map(h => h.itemId), ['f3']);
+    assert.deepEqual(merged.map(h => h.itemId), ['f3', 'f1']);
+  });
+
+  it('caps the log keeping the newest entries', () => {
+    const { log } = geo.mergeHits([hit('m1', 'a', NOW - 2 * DAY)], [hit('m1', 'b', NOW - DAY), hit('m1', 'c', NOW)], NOW, 2);
+    assert.deepEqual(log.map(h => h.itemId), ['c', 'b']);
+  });
+
+  it('buckets hits per day, oldest first', () => {
+    const counts = geo.dailyHitCounts([hit('m1', 'a', NOW), hit('m1', 'b', NOW), hit('m1', 'c', NOW - 2 * DAY), hit('m1', 'd', NOW - 30 * DAY)], 3, NOW);
+    assert.deepEqual(counts, [1, 0, 2]);
+  });
+});
+
+describe('hit export', () => {
+  const hits = geo.matchGeofence({ ...KYIV, name: 'Kyiv, UA' }, points.slice(0, 1), NOW);
+
+  it('writes CSV with monitor names and quoted cells', () => {
+    const [header, row] = geo.hitsToCSV(hits, { m1: 'Kyiv, UA' }).split('\n');
+    assert.equal(header, 'monitor,layer,label,lat,lon,distance_km,event_time,detected_at,item_id');
+    assert.match(row, /^"Kyiv, UA",fires,Fire near Brovary,50\.6,30\.7,/);
+    assert.ok(row.endsWith(',f1'));
+  });
+
+  it('writes a GeoJSON FeatureCollection with lon/lat points', () => {
+    const fc = JSON.parse(geo.hitsToGeoJSON(hits, { m1: 'Kyiv' }));
+    assert.equal(fc.type, 'FeatureCollection');
+    assert.deepEqual(fc.features[0].geometry, { type: 'Point', coordinates: [30.7, 50.6] });
+    assert.equal(fc.features[0].properties.monitor, 'Kyiv');
+    assert.equal(fc.features[0].properties.detectedAt, new Date(NOW).toISOString());
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import * as clustering from '../server/worldmonitor/news/v1/_clustering.mjs';
+import * as feedParser from '../server/worldmonitor/news/v1/_feed-parser.mjs';
+import { loadModule } from './_load-module.mjs';
+
+const { clusterByTitle, jaccardSimilarity, tokenize } = clustering;
+const { parseFeedItems, resolveFeedUrl } = feedParser;
+
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+describe('news clustering', () => {
+  it('tokenizes like the client (lowercase, no stop words, >2 chars)', () => {
+    assert.deepEqual([...tokenize('The U.S. says Iran\'s new drone strikes hit 3 ports')].sort(),
+      ['drone', 'hit', 'iran', 'ports', 'strikes']);
+    assert.equal(jaccardSimilarity(new Set(), new Set()), 0);
+    assert.equal(jaccardSimilarity(new Set(['a', 'b']), new Set(['b', 'c'])), 1 / 3);
+  });
+
+  it('groups similar titles and orders members by tier, then recency', () => {
+    const items = [
+      { title: 'Earthquake strikes central Chile coast', publishedAt: NOW - 3_000, tier: 3 },
+      { title: 'Parliament passes budget bill', publishedAt: NOW - 1_000, tier: 2 },
+      { title: 'Strong earthquake strikes central Chile coast', publishedAt: NOW - 2_000, tier: 1 },
+      { title: 'Earthquake strikes Chile central coast region', publishedAt: NOW, tier: 3 },
+    ];
+    const clusters = clusterByTitle(items);
+    assert.equal(clusters.length, 2);
+
+    const [quake, budget] = clusters;
+    assert.deepEqual(quake.indexes, [2, 3, 0]);
+    assert.equal(quake.firstSeen, NOW - 3_000);
+    assert.equal(quake.lastUpdated, NOW);
+    assert.equal(quake.id, `${NOW - 3_000}-Earthquakestrikesc`);
+    assert.deepEqual(budget.indexes, [1]);
+  });
+
+  it('returns no clusters for no items', () => {
+    assert.deepEqual(clusterByTitle([]), []);
+  });
+});
+
+describe('feed parsing', () => {
+  it('parses RSS 2.0 items with CDATA, entities and bad dates', () => {
+    const xml = `<?xml version="1.0"?>
+      <rss version="2.0"><channel><title>Feed</title>
+        <item><title><![CDATA[Ceasefire talks resume]]></title><link>https://example.com/a</link>
+          <pubDate>Thu, 15 Jan 2026 10:00:00 GMT</pubDate></item>
+        <item><title>Markets &amp; oil &#8217;rally&#8217;</title><link>https://example.com/b</link>
+          <pubDate>not a date</pubDate></item>
+        <item><title></title><link>https://example.com/empty</link></item>
+      </channel></rss>`;
+    assert.deepEqual(parseFeedItems(xml, 5, NOW), [
+      { title: 'Ceasefire talks resume', link: 'https://example.com/a', publishedAt: Date.UTC(2026, 0, 15, 10) },
+      { title: 'Markets & oil ’rally’', link: 'https://example.com/b', publishedAt: NOW },
+    ]);
+  });
+
+  it('parses Atom entries, preferring the alternate link, and honours the limit', () => {
+    const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+        <entry><title type="html">First</title>
+          <link rel="self" href="https://example.com/self"/>
+          <link rel="alternate" href="https://example.com/1"/>
+          <updated>2026-01-15T09:00:00Z</updated></entry>
+        <entry><title>Second</title><link href="https://example.com/2"/>
+          <published>2026-01-15T08:00:00Z</published></entry>
+      </feed>`;
+    assert.deepEqual(parseFeedItems(xml, 1, NOW), [
+      { title: 'First', link: 'https://example.com/1', publishedAt: Date.UTC(2026, 0, 15, 9) },
+    ]);
+  });
+
+  it('returns no items for non-feed documents', () => {
+    assert.deepEqual(parseFeedItems('<html><body>blocked</body></html>'), []);
+    assert.deepEqual(parseFeedItems(''), []);
+  });
+
+  it('unwraps rss-proxy URLs and skips other same-origin endpoints', () => {
+    assert.equal(resolveFeedUrl(`/api/rss-proxy?url=${encodeURIComponent('https://feeds.bbci.co.uk/news/rss.xml?x=1&y=2')}`),
+      'https://feeds.bbci.co.uk/news/rss.xml?x=1&y=2');
+    assert.equal(resolveFeedUrl('https://example.com/feed'), 'https://example.com/feed');
+    assert.equal(resolveFeedUrl('/api/fwdstart'), null);
+  });
+});
+
+describe('listNewsClusters', () => {
+  const RSS = '<rss><channel><item><title>Parliament passes budget bill</title><link>https://a.example/1</link></item></channel></rss>';
+
+  function loadHandler() {
+    const cache = new Map();
+    const background = [];
+    const cachedFetchJson = async (key, _ttl, fetcher) => {
+      if (!cache.has(key)) cache.set(key, await fetcher());
+      return cache.get(key);
+    };
+    const { listNewsClusters } = loadModule('../server/worldmonitor/news/v1/list-news-clusters.ts', {
+      '../../../../src/config/feeds': {
+        INTEL_SOURCES: [],
+        VARIANT_FEEDS: { full: { politics: [{ name: 'Wire', url: 'https://a.example/rss' }] } },
+        getSourceTier: () => 2,
+      },
+      '../../../../src/services/geo-hub-index': { inferGeoHubsFromTitle: () => [] },
+      '../../../../src/services/threat-keywords': {
+        classifyByKeyword: () => ({ level: 'info', category: 'general', confidence: 0.3 }),
+        aggregateThreats: () => ({ level: 'info', category: 'general', confidence: 0.3 }),
+      },
+      '../../../_shared/constants': { CHROME_UA: 'test' },
+      '../../../_shared/redis': { cachedFetchJson },
+      '../../../_shared/wait-until': { waitUntil: (_request, promise) => background.push(promise) },
+      './_clustering.mjs': clustering,
+      './_feed-parser.mjs': feedParser,
+    });
+    return { listNewsClusters, cache, background };
+  }
+
+  it('finishes a poll that missed the budget and serves it from cache next time', async (t) => {
+    const { listNewsClusters, cache, background } = loadHandler();
+    let respond;
+    t.mock.method(globalThis, 'fetch', () => new Promise((resolve) => { respond = resolve; }));
+    mock.timers.enable({ apis: ['setTimeout'] });
+    t.after(() => mock.timers.reset());
+
+    const ctx = { request: new Request('https://wm.example/api/news/v1/list-news-clusters') };
+    const pending = listNewsClusters(ctx, { variant: 'full', lang: 'en', categories: ['politics'] });
+    await new Promise(setImmediate);
+    mock.timers.tick(8_000);
+    assert.deepEqual((await pending).categories, []);
+
+    assert.equal(background.length, 1);
+    respond(new Response(RSS));
+    await Promise.all(background);
+    assert.deepEqual([...cache.keys()], ['news:feeds:v1:full:politics:en']);
+
+    const second = await listNewsClusters(ctx, { variant: 'full', lang: 'en', categories: ['politics'] });
+    assert.deepEqual(second.categories[0].items.map((item) => item.title), ['Parliament passes budget bill']);
+  });
+
+  it('polls unknown languages under the English cache key', async (t) => {
+    const { listNewsClusters, cache } = loadHandler();
+    t.mock.method(globalThis, 'fetch', async () => new Response(RSS));
+    const ctx = { request: new Request('https://wm.example/api/news/v1/list-news-clusters') };
+    for (const lang of ['xx-made-up', 'PT-br', 'EN']) {
+      await listNewsClusters(ctx, { variant: 'full', lang, categories: ['politics'] });
+    }
+    assert.deepEqual([...cache.keys()].sort(), ['news:feeds:v1:full:politics:en', 'news:feeds:v1:full:politics:pt']);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  bucketStart,
+  closestEntry,
+  decodeIndexMember,
+  encodeIndexMember,
+  normalizeVariant,
+  resolveRange,
+  thinEntries,
+  validateSnapshot,
+  DEFAULT_LIST_LIMIT,
+  MAX_LIST_LIMIT,
+  SNAPSHOT_BUCKET_MS,
+} from '../server/worldmonitor/playback/v1/_snapshots.mjs';
+import * as snapshots from '../server/worldmonitor/playback/v1/_snapshots.mjs';
+import { loadModule } from './_load-module.mjs';
+
+const codec = loadModule('../src/services/playback/codec.ts');
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1, 12, 7);
+
+describe('snapshot buckets and validation', () => {
+  it('floors timestamps to 15-minute buckets', () => {
+    assert.equal(bucketStart(NOW), Date.UTC(2026, 5, 1, 12, 0));
+    assert.equal(bucketStart(Date.UTC(2026, 5, 1, 12, 15)), Date.UTC(2026, 5, 1, 12, 15));
+  });
+
+  it('accepts snapshots of the present only', () => {
+    const payload = JSON.stringify({ timestamp: NOW, events: [] });
+    assert.equal(validateSnapshot(NOW, payload, NOW), null);
+    assert.equal(validateSnapshot(NOW - DAY, JSON.stringify({ timestamp: NOW - DAY }), NOW), 'stale');
+    assert.equal(validateSnapshot(NOW, JSON.stringify({ timestamp: NOW - DAY }), NOW), 'timestamp_mismatch');
+  });
+
+  it('rejects malformed and oversized payloads', () => {
+    assert.equal(validateSnapshot(NOW, '[1,2]', NOW), 'invalid_json');
+    assert.equal(validateSnapshot(NOW, '{nope', NOW), 'invalid_json');
+    assert.equal(validateSnapshot(NOW, '', NOW), 'empty');
+    assert.equal(validateSnapshot(NOW, JSON.stringify({ blob: 'x'.repeat(200) }), NOW, 100), 'too_large');
+  });
+
+  it('normalizes variants', () => {
+    assert.equal(normalizeVariant('Tech'), 'tech');
+    assert.equal(normalizeVariant(''), 'full');
+    assert.equal(normalizeVariant('../etc'), 'full');
+  });
+});
+
+describe('snapshot recording', () => {
+  const stored = [];
+  const { recordSnapshot } = loadModule('../server/worldmonitor/playback/v1/record-snapshot.ts', {
+    './_store': { getSnapshotStore: () => ({ id: 'test', put: async (...args) => { stored.push(args); return true; } }) },
+    './_snapshots.mjs': snapshots,
+  });
+  const request = () => ({ timestamp: Date.now(), payload: JSON.stringify({ timestamp: Date.now() }), variant: 'full' });
+
+  it('refuses writes without a configured API key', async () => {
+    const original = process.env.WORLDMONITOR_VALID_KEYS;
+    process.env.WORLDMONITOR_VALID_KEYS = 'wm_recorder';
+    try {
+      const anonymous = await recordSnapshot({ headers: {} }, request());
+      assert.equal(anonymous.recorded, false);
+      assert.equal(anonymous.reason, 'unauthorized');
+      const wrong = await recordSnapshot({ headers: { 'x-worldmonitor-key': 'wm_guess' } }, request());
+      assert.equal(wrong.reason, 'unauthorized');
+      assert.equal(stored.length, 0);
+
+      const keyed = await recordSnapshot({ headers: { 'x-worldmonitor-key': 'wm_recorder' } }, request());
+      assert.equal(keyed.recorded, true);
+      assert.equal(stored.length, 1);
+    } finally {
+      if (original === undefined) delete process.env.WORLDMONITOR_VALID_KEYS;
+      else process.env.WORLDMONITOR_VALID_KEYS = original;
+    }
+  });
+});
+
+describe('snapshot listing', () => {
+  it('round-trips index members', () => {
+    assert.deepEqual(decodeIndexMember(encodeIndexMember(NOW, 1234)), { timestamp: NOW, sizeBytes: 1234 });
+    assert.equal(decodeIndexMember('garbage'), null);
+  });
+
+  it('defaults and clamps the requested range', () => {
+    assert.deepEqual(resolveRange(0, 0, 0, NOW), { from: NOW - 7 * DAY, to: NOW, limit: DEFAULT_LIST_LIMIT });
+    assert.deepEqual(resolveRange(NOW - DAY, NOW + DAY, 99_999, NOW), { from: NOW - DAY, to: NOW, limit: MAX_LIST_LIMIT });
+  });
+
+  it('thins long timelines evenly and keeps both ends', () => {
+    const entries = Array.from({ length: 1000 }, (_, i) => ({ timestamp: i, sizeBytes: 1 }));
+    const thinned = thinEntries(entries, 10);
+    assert.equal(thinned.length, 10);
+    assert.equal(thinned[0].timestamp, 0);
+    assert.equal(thinned[9].timestamp, 999);
+    assert.equal(thinEntries(entries.slice(0, 5), 10).length, 5);
+  });
+
+  it('picks the closest entry within one bucket', () => {
+    const entries = [{ timestamp: NOW - 20 * 60_000 }, { timestamp: NOW - 4 * 60_000 }, { timestamp: NOW + 6 * 60_000 }];
+    assert.equal(closestEntry(entries, NOW).timestamp, NOW - 4 * 60_000);
+    assert.equal(closestEntry(entries, NOW + 2 * SNAPSHOT_BUCKET_MS), null);
+  });
+});
+
+describe('playback snapshot codec', () => {
+  it('preserves Date fields through JSON', () => {
+    const seen = new Date(NOW);
+    const decoded = codec.decodeSnapshot(codec.encodeSnapshot({ events: [{ firstSeen: seen, title: '2026-06-01T12:07:00.000Z' }] }));
+    assert.ok(decoded.events[0].firstSeen instanceof Date);
+    assert.equal(decoded.events[0].firstSeen.getTime(), NOW);
+    assert.equal(decoded.events[0].title, '2026-06-01T12:07:00.000Z');
+  });
+
+  it('trims arrays at the top level and one object deep', () => {
+    const trimmed = codec.trimArrays({ fires: [1, 2, 3, 4], ais: { density: [1, 2, 3], disruptions: [1] }, count: 7 }, 2);
+    assert.deepEqual(trimmed, { fires: [1, 2], ais: { density: [1, 2], disruptions: [1] }, count: 7 });
+  });
+
+  it('merges local and server timelines, preferring server copies per bucket', () => {
+    const merged = codec.mergeTimeline([NOW - 60_000, NOW - DAY], [NOW - 2 * 60_000, NOW - 30 * DAY]);
+    assert.deepEqual(merged.map(e => e.source), ['server', 'local', 'server']);
+    assert.equal(merged[2].timestamp, NOW - 2 * 60_000);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryCacheBackend } from '../server/_shared/memory-cache.mjs';
+import { loadModule } from './_load-module.mjs';
+
+const aggregate = loadModule('../src/services/prediction/aggregate.ts');
+const {
+  blendOdds, blendSeries, matchVenueMarkets, oddsDelta, questionSimilarity,
+} = aggregate;
+
+const backend = createMemoryCacheBackend();
+const store = loadModule('../server/worldmonitor/prediction/v1/_store.ts', {
+  '../../../_shared/redis': {
+    runRedisPipeline: async (commands) => (commands.length ? backend.pipeline(commands) : null),
+  },
+  '../../../../src/services/prediction/aggregate': aggregate,
+});
+
+const quote = (venue, id, title, yesPrice, volume) => ({ venue, id, title, yesPrice, volume });
+const HOUR = 60 * 60 * 1000;
+
+describe('cross-venue matching', () => {
+  it('matches rewordings of a question but not different years', () => {
+    const poly = 'Will Russia and Ukraine sign a ceasefire in 2025?';
+    assert.ok(questionSimilarity(poly, 'Russia Ukraine ceasefire signed in 2025?') >= 0.55);
+    assert.equal(questionSimilarity(poly, 'Will Russia and Ukraine sign a ceasefire in 2026?'), 0);
+    assert.ok(questionSimilarity(poly, 'Will the Fed cut rates in December?') < 0.2);
+  });
+
+  it('gives each other-venue market to at most one primary market, best match first', () => {
+    const primary = [
+      quote('polymarket', 'p1', 'Fed cuts rates in December 2025?', 0.6, 1_000_000),
+      quote('polymarket', 'p2', 'Fed cuts rates by 50bps in December 2025?', 0.1, 500_000),
+    ];
+    const others = [
+      quote('kalshi', 'k1', 'Will the Fed cut rates in December 2025?', 0.62, 200_000),
+      quote('kalshi', 'k2', 'Will the Fed cut rates by 50bps in December 2025?', 0.08, 50_000),
+      quote('manifold', 'm1', 'Fed rate cut in December 2025?', 0.55, 30_000),
+    ];
+    const matches = matchVenueMarkets(primary, others);
+    assert.deepEqual(matches.get('polymarket:p1').map((m) => m.id).sort(), ['k1', 'm1']);
+    assert.deepEqual(matches.get('polymarket:p2').map((m) => m.id), ['k2']);
+  });
+});
+
+describe('odds blending', () => {
+  it('weights venues by USD-equivalent volume', () => {
+    const blended = blendOdds([
+      quote('polymarket', 'p', '', 0.6, 300),
+      quote('kalshi', 'k', '', 0.4, 100),
+      // 10,000 mana is worth $100
+      quote('manifold', 'm', '', 0.2, 10_000),
+    ]);
+    assert.ok(Math.abs(blended - (0.6 * 300 + 0.4 * 100 + 0.2 * 100) / 500) < 1e-9);
+    assert.equal(blendOdds([quote('kalshi', 'k', '', 0.3, 0), quote('manifold', 'm', '', 0.5, 0)]), 0.4);
+  });
+
+  it('carries each venue forward to the union of timestamps', () => {
+    const series = blendSeries([
+      { venue: 'polymarket', points: [{ timestamp: 0, yesPrice: 0.5, volume: 100 }, { timestamp: 2 * HOUR, yesPrice: 0.7, volume: 100 }] },
+      { venue: 'kalshi', points: [{ timestamp: HOUR, yesPrice: 0.3, volume: 100 }] },
+    ]);
+    assert.deepEqual(series.map((p) => p.timestamp), [0, HOUR, 2 * HOUR]);
+    assert.equal(series[0].yesPrice, 0.5);
+    assert.equal(series[1].yesPrice, 0.4);
+    assert.equal(series[2].yesPrice, 0.5);
+  });
+
+  it('measures deltas from the last point before the window', () => {
+    const points = [0, 20, 25, 30].map((h, i) => ({ timestamp: h * HOUR, yesPrice: [0.2, 0.3, 0.35, 0.5][i], volume: 0 }));
+    assert.ok(Math.abs(oddsDelta(points, 24 * HOUR) - 0.3) < 1e-9);
+    assert.ok(Math.abs(oddsDelta(points, 6 * HOUR) - 0.2) < 1e-9);
+    assert.equal(oddsDelta(points.slice(0, 1), 24 * HOUR), null);
+  });
+});
+
+describe('odds history store', () => {
+  it('keeps one point per bucket, the latest recorded', async () => {
+    const t0 = Date.UTC(2025, 0, 1);
+    const market = (yesPrice) => ({ id: 'FED-DEC', venue: 'kalshi', title: '', yesPrice, volume: 1200, url: '', closesAt: 0, category: '' });
+    await store.recordOdds([market(0.4)], t0);
+    await store.recordOdds([market(0.45)], t0 + 5 * 60 * 1000);
+    await store.recordOdds([market(0.5)], t0 + store.ODDS_BUCKET_MS);
+
+    const histories = await store.readOdds(['kalshi:FED-DEC', 'kalshi:UNKNOWN'], 0);
+    assert.deepEqual(histories.get('kalshi:FED-DEC'), [
+      { timestamp: t0, yesPrice: 0.45, volume: 1200 },
+      { timestamp: t0 + store.ODDS_BUCKET_MS, yesPrice: 0.5, volume: 1200 },
+    ]);
+    assert.deepEqual(histories.get('kalshi:UNKNOWN'), []);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const cacheCalls = [];
+const history = loadModule('../server/worldmonitor/market/v1/get-price-history.ts', {
+  './_shared': { UPSTREAM_TIMEOUT_MS: 1000 },
+  '../../../_shared/constants': { CHROME_UA: 'test', yahooGate: async () => {} },
+  '../../../_shared/redis': {
+    cachedFetchJson: async (key, ttl, fetcher) => {
+      cacheCalls.push({ key, ttl });
+      return fetcher();
+    },
+  },
+});
+
+const originalFetch = globalThis.fetch;
+
+describe('price history candles', () => {
+  it('zips Yahoo OHLCV arrays and skips bars without a close', () => {
+    const candles = history.candlesFromYahoo({
+      meta: { regularMarketPrice: 12 },
+      timestamp: [1000, 1060, 1120],
+      indicators: { quote: [{ open: [10, null, 11], high: [12, null, 13], low: [9, null, 10], close: [11, null, 12], volume: [500, null, null] }] },
+    });
+    assert.deepEqual(candles, [
+      { timestamp: 1_000_000, open: 10, high: 12, low: 9, close: 11, volume: 500 },
+      { timestamp: 1_120_000, open: 11, high: 13, low: 10, close: 12, volume: 0 },
+    ]);
+    assert.deepEqual(history.candlesFromYahoo(undefined), []);
+  });
+
+  it('buckets CoinGecko samples into OHLC candles', () => {
+    const hour = 3_600_000;
+    const candles = history.aggregateCandles([
+      [hour + 60_000, 101],
+      [hour, 100],
+      [hour + 120_000, 98],
+      [hour + 180_000, 99],
+      [2 * hour + 5, 105],
+    ], hour);
+    assert.deepEqual(candles, [
+      { timestamp: hour, open: 100, high: 101, low: 98, close: 99, volume: 0 },
+      { timestamp: 2 * hour, open: 105, high: 105, low: 105, close: 105, volume: 0 },
+    ]);
+  });
+
+  it('gives each CoinGecko candle the latest volume sample in its bucket', () => {
+    const hour = 3_600_000;
+    const candles = history.aggregateCandles(
+      [[hour, 100], [hour + 60_000, 101], [2 * hour, 105], [3 * hour, 107]],
+      hour,
+      [[hour + 60_000, 5_000], [hour, 4_000], [2 * hour + 30_000, 6_000], [5 * hour, 9_000]],
+    );
+    assert.deepEqual(candles.map(c => [c.timestamp, c.volume]), [
+      [hour, 5_000],
+      [2 * hour, 6_000],
+      [3 * hour, 0],
+    ]);
+  });
+});
+
+describe('getPriceHistory', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    cacheCalls.length = 0;
+  });
+
+  it('serves crypto from CoinGecko and never finer than five minutes', async () => {
+    let url = '';
+    globalThis.fetch = async (input) => {
+      url = String(input);
+      return new Response(JSON.stringify({ prices: [[0, 1], [60_000, 2], [300_000, 3]], total_volumes: [[60_000, 700], [300_000, 800]] }), { status: 200 });
+    };
+    const resp = await history.getPriceHistory({}, { symbol: 'bitcoin', resolution: 'PRICE_RESOLUTION_1M', assetClass: 'PRICE_ASSET_CLASS_UNSPECIFIED' });
+    assert.match(url, /coins\/bitcoin\/market_chart\?vs_currency=usd&days=1$/);
+    assert.equal(resp.provider, 'coingecko');
+    assert.equal(resp.resolution, 'PRICE_RESOLUTION_5M');
+    assert.deepEqual(resp.candles.map(c => c.volume), [700, 800]);
+    assert.deepEqual(cacheCalls, [{ key: 'market:price-history:v1:PRICE_ASSET_CLASS_CRYPTO:bitcoin:PRICE_RESOLUTION_5M', ttl: 120 }]);
+  });
+
+  it('requests the matching Yahoo interval and range and returns empty on upstream failure', async () => {
+    let url = '';
+    globalThis.fetch = async (input) => {
+      url = String(input);
+      return new Response('', { status: 429 });
+    };
+    const resp = await history.getPriceHistory({}, { symbol: 'GC=F', resolution: 'PRICE_RESOLUTION_1H', assetClass: 'PRICE_ASSET_CLASS_COMMODITY' });
+    assert.match(url, /chart\/GC%3DF\?range=1mo&interval=60m$/);
+    assert.equal(resp.provider, 'yahoo');
+    assert.deepEqual(resp.candles, []);
+  });
+});
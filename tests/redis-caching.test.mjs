@@ -308,6 +308,82 @@ describe('cachedFetchJsonWithMeta source labeling', { concurrency: 1 }, () => {
   });
 });
 
+describe('cache drivers, stale-while-revalidate and metrics', { concurrency: 1 }, () => {
+  it('caches in memory when Upstash is not configured', async () => {
+    const redis = await importRedisFresh();
+    const restoreEnv = withEnv({
+      UPSTASH_REDIS_REST_URL: undefined,
+      UPSTASH_REDIS_REST_TOKEN: undefined,
+      CACHE_DISABLED: undefined,
+      VERCEL_ENV: undefined,
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (url) => {
+      throw new Error(`Unexpected fetch URL: ${url}`);
+    };
+
+    try {
+      let fetcherCalls = 0;
+      const fetcher = async () => ({ call: ++fetcherCalls });
+      assert.deepEqual(await redis.cachedFetchJson('memory:test', 60, fetcher), { call: 1 });
+      assert.deepEqual(await redis.cachedFetchJson('memory:test', 60, fetcher), { call: 1 });
+      assert.equal(fetcherCalls, 1, 'second call should be served from the memory driver');
+
+      const metrics = redis.getCacheMetrics();
+      assert.equal(metrics.backend, 'memory');
+      assert.equal(metrics.hits, 1);
+      assert.equal(metrics.misses, 1);
+      assert.equal(metrics.writes, 1);
+      assert.equal(metrics.hitRate, 0.5);
+
+      process.env.CACHE_DISABLED = '1';
+      assert.equal(redis.getCacheBackend(), null);
+    } finally {
+      globalThis.fetch = originalFetch;
+      restoreEnv();
+    }
+  });
+
+  it('serves stale values while one background refresh runs', async () => {
+    const redis = await importRedisFresh();
+    const { createMemoryCacheBackend } = await import('../server/_shared/memory-cache.mjs');
+    const backend = createMemoryCacheBackend();
+    redis.setCacheBackend(backend);
+    const realNow = Date.now;
+
+    try {
+      let version = 0;
+      let release;
+      const fetcher = async () => {
+        version += 1;
+        if (version > 1) await new Promise((r) => { release = r; });
+        return { version };
+      };
+      const options = { staleWhileRevalidateSeconds: 300 };
+
+      assert.deepEqual(await redis.cachedFetchJson('swr:test', 60, fetcher, options), { version: 1 });
+      assert.deepEqual(await redis.getCachedJson('swr:test'), { version: 1 }, 'plain readers see the unwrapped value');
+
+      Date.now = () => realNow() + 61_000;
+      const [a, b] = await Promise.all([
+        redis.cachedFetchJson('swr:test', 60, fetcher, options),
+        redis.cachedFetchJsonWithMeta('swr:test', 60, fetcher, options),
+      ]);
+      assert.deepEqual(a, { version: 1 }, 'stale value returned without waiting');
+      assert.deepEqual(b, { data: { version: 1 }, source: 'cache' });
+      assert.equal(version, 2, 'only one refresh should start');
+
+      release();
+      await new Promise((r) => setTimeout(r, 0));
+      assert.deepEqual(await redis.cachedFetchJson('swr:test', 60, fetcher, options), { version: 2 });
+      assert.equal(redis.getCacheMetrics().staleHits, 2);
+    } finally {
+      Date.now = realNow;
+      redis.setCacheBackend(null);
+    }
+  });
+});
+
 describe('theater posture caching behavior', { concurrency: 1 }, () => {
   async function importTheaterPosture() {
     return importPatchedTsModule('server/worldmonitor/military/v1/get-theater-posture.ts', {
@@ -507,6 +583,7 @@ describe('military flights bbox behavior', { concurrency: 1 }, () => {
       './_shared': resolve(root, 'server/worldmonitor/military/v1/_shared.ts'),
       '../../../_shared/constants': resolve(root, 'server/_shared/constants.ts'),
       '../../../_shared/redis': resolve(root, 'server/_shared/redis.ts'),
+      '../../../_shared/country-bounds': resolve(root, 'server/_shared/country-bounds.ts'),
     });
   }
 
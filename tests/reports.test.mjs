@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const reports = loadModule('../src/services/reports/compose.ts');
+
+const GENERATED = new Date(Date.UTC(2026, 5, 1, 7, 30));
+
+function template(overrides = {}) {
+  return reports.normalizeTemplate({
+    id: 'tpl',
+    name: 'Morning Brief',
+    sections: ['worldBrief', 'predictionShifts'],
+    createdAt: GENERATED.getTime(),
+    ...overrides,
+  });
+}
+
+const STORIES = [
+  { title: 'Port strike spreads', source: 'Reuters', url: 'https://example.com/strike' },
+  { title: 'Talks resume', source: 'BBC', url: 'https://example.com/talks' },
+];
+
+describe('normalizeTemplate', () => {
+  it('keeps known sections in canonical order and cleans countries', () => {
+    const t = reports.normalizeTemplate({
+      id: 'a',
+      name: '  Weekly  ',
+      sections: ['countries', 'bogus', 'worldBrief'],
+      countries: ['ua', 'UA', 'Taiwan', 'tw', 7],
+      format: 'docx',
+      schedule: { cadence: 'hourly', hour: 30, weekday: -2 },
+    });
+    assert.deepEqual(t.sections, ['worldBrief', 'countries']);
+    assert.deepEqual(t.countries, ['UA', 'TW']);
+    assert.equal(t.name, 'Weekly');
+    assert.equal(t.format, 'html');
+    assert.deepEqual(t.schedule, { cadence: 'off', hour: 23, weekday: 0 });
+  });
+
+  it('rejects templates without a name or sections', () => {
+    assert.equal(reports.normalizeTemplate({ id: 'a', name: ' ', sections: ['worldBrief'] }), null);
+    assert.equal(reports.normalizeTemplate({ id: 'a', name: 'x', sections: ['bogus'] }), null);
+    assert.equal(reports.normalizeTemplate(null), null);
+  });
+});
+
+describe('schedules', () => {
+  const at = (y, m, d, h, min = 0) => new Date(y, m, d, h, min).getTime();
+
+  it('finds the next daily and weekly run in local time', () => {
+    const after = at(2026, 5, 3, 9); // Wednesday 09:00
+    assert.equal(reports.nextRunAt({ cadence: 'daily', hour: 7, weekday: 1 }, after), at(2026, 5, 4, 7));
+    assert.equal(reports.nextRunAt({ cadence: 'daily', hour: 10, weekday: 1 }, after), at(2026, 5, 3, 10));
+    assert.equal(reports.nextRunAt({ cadence: 'weekly', hour: 8, weekday: 1 }, after), at(2026, 5, 8, 8));
+    assert.equal(reports.nextRunAt({ cadence: 'weekly', hour: 10, weekday: 3 }, after), at(2026, 5, 3, 10));
+    assert.equal(reports.nextRunAt({ cadence: 'weekly', hour: 8, weekday: 3 }, after), at(2026, 5, 10, 8));
+    assert.equal(reports.nextRunAt({ cadence: 'off', hour: 8, weekday: 3 }, after), null);
+  });
+
+  it('is due once the next run after the last one has passed', () => {
+    const t = template({ schedule: { cadence: 'daily', hour: 7 }, createdAt: at(2026, 5, 3, 9) });
+    assert.equal(reports.isReportDue(t, at(2026, 5, 4, 6, 59)), false);
+    assert.equal(reports.isReportDue(t, at(2026, 5, 4, 7)), true);
+    assert.equal(reports.isReportDue({ ...t, lastRunAt: at(2026, 5, 4, 7) }, at(2026, 5, 4, 12)), false);
+    assert.equal(reports.isReportDue({ ...t, schedule: { ...t.schedule, cadence: 'off' } }, at(2026, 6, 1, 0)), false);
+  });
+});
+
+describe('buildReport', () => {
+  it('marks sections this environment could not supply', () => {
+    const report = reports.buildReport(template({ sections: ['surges', 'countries'] }), {}, GENERATED);
+    assert.match(report.sections[0].blocks[0].text, /Not available/);
+    assert.match(report.sections[1].blocks[0].text, /No countries are selected/);
+  });
+
+  it('ranks prediction shifts against the previous run', () => {
+    const markets = [
+      { title: 'Ceasefire by July?', yesPrice: 40, volume: 10 },
+      { title: 'Rate cut?', yesPrice: 62, volume: 500 },
+      { title: 'New market?', yesPrice: 10, volume: 900 },
+    ];
+    const first = reports.predictionShiftsSection(markets);
+    assert.deepEqual(first.blocks[1].rows.map(r => r.cells[0]), ['New market?', 'Rate cut?', 'Ceasefire by July?']);
+
+    const previous = reports.oddsSnapshot([{ title: 'Ceasefire by July?', yesPrice: 25 }, { title: 'Rate cut?', yesPrice: 61.5 }]);
+    const shifts = reports.predictionShiftsSection(markets, previous);
+    assert.deepEqual(shifts.blocks[1].rows.map(r => r.cells), [['Ceasefire by July?', '40%', '+15.0 pts']]);
+  });
+
+  it('measures CII change against the oldest point inside 24 hours', () => {
+    const now = GENERATED.getTime();
+    const hour = 3_600_000;
+    const history = [{ timestamp: now - 30 * hour, score: 10 }, { timestamp: now - 20 * hour, score: 40 }, { timestamp: now - hour, score: 50 }];
+    assert.equal(reports.ciiChange24h(55, history, now), 15);
+    assert.equal(reports.ciiChange24h(55, history.slice(0, 1), now), null);
+  });
+});
+
+describe('rendering', () => {
+  const report = reports.buildReport(template({ sections: ['worldBrief', 'countries'], countries: ['UA'] }), {
+    worldBrief: { brief: 'Strikes <widen> across *ports*.', stories: STORIES },
+    countries: [{
+      code: 'UA',
+      name: 'Ukraine',
+      brief: 'Talks resume [2] while strikes continue [1]. Unrelated [9].',
+      headlines: STORIES,
+    }],
+  }, GENERATED);
+
+  it('numbers each citation once, in order of first use', () => {
+    const md = reports.renderMarkdown(report);
+    assert.match(md, /^# Morning Brief/);
+    assert.match(md, /Strikes \\<widen\\> across \\\*ports\\\*\.\[\^1\]\[\^2\]/);
+    assert.match(md, /Talks resume \[\^2\] while strikes continue \[\^1\]\. Unrelated \\\[9\\\]\./, 'unknown markers stay literal');
+    assert.equal((md.match(/^\[\^\d+\]: /gm) ?? []).length, 2);
+    assert.match(md, /\[\^1\]: Port strike spreads \(Reuters\) <https:\/\/example\.com\/strike>/);
+  });
+
+  it('escapes HTML and anchors citations to the sources list', () => {
+    const html = reports.renderHtml(report);
+    assert.match(html, /Strikes &lt;widen&gt; across \*ports\*\./);
+    assert.match(html, /<sup class="cite"><a href="#src-2">\[2\]<\/a><\/sup>/);
+    assert.match(html, /<li id="src-1">Port strike spreads <em>\(Reuters\)<\/em> <a href="https:\/\/example\.com\/strike"/);
+    assert.doesNotMatch(html, /<widen>/);
+  });
+
+  it('drops non-http source links from HTML', () => {
+    const unsafe = reports.buildReport(template({ sections: ['worldBrief'] }), {
+      worldBrief: { brief: null, stories: [{ title: 'x', source: 'y', url: 'javascript:alert(1)' }] },
+    }, GENERATED);
+    assert.doesNotMatch(reports.renderHtml(unsafe), /javascript:/);
+  });
+
+  it('names files by template and date, saving PDF templates as HTML', () => {
+    assert.equal(reports.renderReportFile(report, 'markdown').filename, 'worldmonitor-morning-brief-2026-06-01.md');
+    const pdf = reports.renderReportFile(report, 'pdf');
+    assert.equal(pdf.filename, 'worldmonitor-morning-brief-2026-06-01.html');
+    assert.equal(pdf.mimeType, 'text/html');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  appendPoint,
+  windowSeries,
+  change24h,
+  clampDays,
+  packSeries,
+  unpackSeries,
+  HISTORY_BUCKET_MS,
+  HISTORY_RETENTION_DAYS,
+  DEFAULT_HISTORY_DAYS,
+} from '../server/worldmonitor/intelligence/v1/_risk-history.mjs';
+import * as riskHistory from '../server/worldmonitor/intelligence/v1/_risk-history.mjs';
+import { loadModule } from './_load-module.mjs';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+
+const point = (timestamp, combinedScore) => ({
+  timestamp, combinedScore, unrest: 10, conflict: 20, security: 30, information: 40,
+});
+
+describe('CII history series', () => {
+  it('replaces the newest sample within the same bucket', () => {
+    let series = appendPoint([], point(NOW, 40));
+    series = appendPoint(series, point(NOW + 1000, 42));
+    assert.equal(series.length, 1);
+    assert.equal(series[0].combinedScore, 42);
+
+    series = appendPoint(series, point(NOW + HISTORY_BUCKET_MS, 45));
+    assert.equal(series.length, 2);
+  });
+
+  it('ignores out-of-order samples and drops points past retention', () => {
+    let series = appendPoint([], point(NOW - (HISTORY_RETENTION_DAYS + 1) * DAY, 10));
+    series = appendPoint(series, point(NOW - 2 * DAY, 20));
+    series = appendPoint(series, point(NOW - 3 * DAY, 99));
+    series = appendPoint(series, point(NOW, 30), NOW);
+    assert.deepEqual(series.map((p) => p.combinedScore), [20, 30]);
+  });
+
+  it('windows by days and downsamples long series', () => {
+    const series = Array.from({ length: 360 }, (_, i) => point(NOW - (359 - i) * (DAY / 4), i % 100));
+    assert.equal(windowSeries(series, 30, NOW).length, 121); // both window edges inclusive
+    const ninety = windowSeries(series, 90, NOW, 90);
+    assert.ok(ninety.length <= 90);
+    assert.equal(ninety[ninety.length - 1].timestamp, NOW);
+  });
+
+  it('clamps the requested window', () => {
+    assert.equal(clampDays(0), DEFAULT_HISTORY_DAYS);
+    assert.equal(clampDays(365), HISTORY_RETENTION_DAYS);
+    assert.equal(clampDays(7), 7);
+  });
+
+  it('computes the 24h change from the nearest older sample', () => {
+    const series = [point(NOW - 2 * DAY, 30), point(NOW - DAY, 35), point(NOW - DAY / 2, 50), point(NOW, 41)];
+    assert.equal(change24h(series), 6);
+    assert.equal(change24h([point(NOW, 41)]), 0);
+  });
+
+  it('round-trips the packed storage form', () => {
+    const series = [point(NOW - DAY, 30), point(NOW, 41)];
+    assert.deepEqual(unpackSeries(packSeries(series)), series);
+    assert.deepEqual(unpackSeries(null), []);
+  });
+});
+
+describe('recorded CII components', () => {
+  const noop = async () => null;
+  const redis = { getCachedJson: noop, setCachedJson: noop, cachedFetchJson: noop, getCachedJsonBatch: async () => new Map() };
+  const store = loadModule('../server/worldmonitor/intelligence/v1/_risk-history-store.ts', {
+    '../../../_shared/redis': redis,
+    './_risk-history.mjs': riskHistory,
+  });
+  const { computeCIIScores } = loadModule('../server/worldmonitor/intelligence/v1/get-risk-scores.ts', {
+    '../../../_shared/redis': redis,
+    '../../../_shared/acled': { fetchAcledCached: async () => [] },
+    './_shared': loadModule('../server/worldmonitor/intelligence/v1/_shared.ts', { '../../../_shared/hash': {} }),
+    './_risk-history-store': store,
+    './_risk-history.mjs': riskHistory,
+  });
+  const acled = (country, event_type, fatalities = 0) => ({ country, event_type, fatalities });
+  const historyFor = (events, region) => store.toHistoryPoint(computeCIIScores(events).find((s) => s.region === region));
+
+  it('scores armed conflict and security from ACLED events', () => {
+    const quiet = historyFor([], 'UA');
+    assert.equal(quiet.conflict, 0);
+    assert.equal(quiet.security, 50, 'security starts at the country baseline');
+
+    const active = historyFor([
+      acled('Ukraine', 'Battles', 12), acled('Ukraine', 'Battles', 4),
+      acled('Ukraine', 'Explosions/Remote violence', 0), acled('Ukraine', 'Violence against civilians', 0),
+      acled('Ukraine', 'Riots'),
+    ], 'UA');
+    // (2*3 + 4 + 5) * 0.8 = 12, sqrt(16) * 5 * 0.8 = 16, one civilian event = 3
+    assert.equal(active.conflict, 31);
+    assert.equal(active.security, 54);
+    assert.equal(active.unrest, 3);
+    assert.ok(active.combinedScore > quiet.combinedScore);
+  });
+});
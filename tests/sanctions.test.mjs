@@ -0,0 +1,180 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const parse = loadModule('../src/services/sanctions/parse.ts');
+const screen = loadModule('../src/services/sanctions/screen.ts');
+
+const OFAC_XML = `<?xml version="1.0" standalone="yes"?>
+<sdnList xmlns="https://sanctionslistservice.ofac.treas.gov/api/PublicationPreview/exports/XML">
+  <publshInformation><Publish_Date>10/15/2026</Publish_Date><Record_Count>2</Record_Count></publshInformation>
+  <sdnEntry>
+    <uid>9001</uid>
+    <lastName>ADRIAN DARYA 1</lastName>
+    <sdnType>Vessel</sdnType>
+    <programList><program>SDGT</program><program>IRGC</program></programList>
+    <akaList><aka><uid>1</uid><type>f.k.a.</type><lastName>GRACE 1</lastName></aka></akaList>
+    <idList>
+      <id><uid>2</uid><idType>Vessel Registration Identification</idType><idNumber>IMO 9116412</idNumber></id>
+      <id><uid>3</uid><idType>MMSI</idType><idNumber>422110600</idNumber></id>
+    </idList>
+    <vesselInfo><callSign>9HA4423</callSign><vesselType>Crude Oil Tanker</vesselType></vesselInfo>
+  </sdnEntry>
+  <sdnEntry>
+    <uid>9002</uid>
+    <lastName>MAHAN AIR</lastName>
+    <sdnType>Entity</sdnType>
+    <programList><program>SDGT</program></programList>
+    <idList><id><uid>4</uid><idType>Aircraft Tail Number</idType><idNumber>EP-MNP</idNumber></id></idList>
+  </sdnEntry>
+</sdnList>`;
+
+const OFAC_CSV = [
+  '36,"AEROCARIBBEAN AIRLINES","-0- ","CUBA","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","a.k.a. \'AERO-CARIBBEAN\'."',
+  '9003,"SEA LION","vessel","DPRK3","-0- ","HMXA","Bulk Carrier","-0- ","-0- ","Korea, North","-0- ","Vessel Registration Identification IMO 8914934; MMSI 445112000."',
+].join('\n');
+
+const EU_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<export xmlns="http://eu.europa.ec/fpi/fsd/export" generationDate="2026-10-14T17:00:00">
+  <sanctionEntity logicalId="120" euReferenceNumber="EU.1.2">
+    <remark>Shipping company.</remark>
+    <regulation programme="RUS"/>
+    <subjectType code="enterprise" classificationCode="E"/>
+    <nameAlias wholeName="Sovcomflot PJSC"/>
+    <nameAlias wholeName="SCF Group"/>
+  </sanctionEntity>
+  <sanctionEntity logicalId="121">
+    <regulation programme="BLR"/>
+    <subjectType code="person" classificationCode="P"/>
+    <nameAlias firstName="Ivan" lastName="Petrov" wholeName=""/>
+  </sanctionEntity>
+</export>`;
+
+const UN_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CONSOLIDATED_LIST dateGenerated="2026-10-10T00:00:00">
+  <INDIVIDUALS>
+    <INDIVIDUAL><DATAID>1</DATAID><FIRST_NAME>KIM</FIRST_NAME><SECOND_NAME>SONG</SECOND_NAME><UN_LIST_TYPE>DPRK</UN_LIST_TYPE><REFERENCE_NUMBER>KPi.033</REFERENCE_NUMBER>
+      <INDIVIDUAL_ALIAS><QUALITY>Good</QUALITY><ALIAS_NAME>Kim Sung</ALIAS_NAME></INDIVIDUAL_ALIAS>
+    </INDIVIDUAL>
+  </INDIVIDUALS>
+  <ENTITIES>
+    <ENTITY><DATAID>2</DATAID><FIRST_NAME>PETREL 8</FIRST_NAME><UN_LIST_TYPE>DPRK</UN_LIST_TYPE><REFERENCE_NUMBER>KPe.071</REFERENCE_NUMBER><COMMENTS1>IMO number: 9562233.</COMMENTS1></ENTITY>
+  </ENTITIES>
+</CONSOLIDATED_LIST>`;
+
+const UK_CSV = [
+  'Last Updated,14/10/2026',
+  'Name 6,Name 1,Name 2,Name 3,Name 4,Name 5,Title,Other Information,Group Type,Alias Type,Regime,Group ID',
+  'LUKOIL,,,,,,,,Entity,Primary name,Russia,15001',
+  '"LUKOIL OIL COMPANY",,,,,,,,Entity,AKA,Russia,15001',
+  'NS CHAMPION,,,,,,,IMO number 9341081,Ship,Primary name,Russia,15002',
+].join('\n');
+
+describe('sanctions list parsing', () => {
+  it('detects each published format from its content', () => {
+    assert.equal(parse.detectSanctionsSource(OFAC_XML), 'ofac');
+    assert.equal(parse.detectSanctionsSource(OFAC_CSV), 'ofac');
+    assert.equal(parse.detectSanctionsSource(EU_XML), 'eu');
+    assert.equal(parse.detectSanctionsSource(UN_XML), 'un');
+    assert.equal(parse.detectSanctionsSource(UK_CSV), 'uk');
+    assert.equal(parse.detectSanctionsSource('name,lat,lon\nx,1,2'), null);
+    assert.throws(() => parse.parseSanctionsFile('x.csv', 'name,lat,lon\nx,1,2'), /Unrecognised sanctions list/);
+  });
+
+  it('reads OFAC SDN XML identifiers, aliases and programmes', () => {
+    const list = parse.parseSanctionsFile('SDN.XML', OFAC_XML, 1000);
+    assert.equal(list.source, 'ofac');
+    assert.equal(list.importedAt, 1000);
+    assert.equal(list.publishedAt, '10/15/2026');
+    const [vessel, airline] = list.parties;
+    assert.deepEqual(
+      { id: vessel.id, kind: vessel.kind, imo: vessel.imo, mmsi: vessel.mmsi, callSign: vessel.callSign, aliases: vessel.aliases, programs: vessel.programs },
+      { id: 'ofac:9001', kind: 'vessel', imo: '9116412', mmsi: '422110600', callSign: '9HA4423', aliases: ['GRACE 1'], programs: ['SDGT', 'IRGC'] },
+    );
+    assert.equal(airline.kind, 'entity');
+    assert.deepEqual(airline.tailNumbers, ['EP-MNP']);
+  });
+
+  it('reads OFAC sdn.csv with identifiers and aliases from remarks', () => {
+    const { parties } = parse.parseSanctionsFile('sdn.csv', OFAC_CSV);
+    assert.equal(parties[0].kind, 'entity');
+    assert.deepEqual(parties[0].aliases, ['AERO-CARIBBEAN']);
+    assert.deepEqual(parties[0].programs, ['CUBA']);
+    assert.equal(parties[1].kind, 'vessel');
+    assert.equal(parties[1].imo, '8914934');
+    assert.equal(parties[1].mmsi, '445112000');
+    assert.equal(parties[1].callSign, 'HMXA');
+  });
+
+  it('reads EU, UN and UK consolidated lists', () => {
+    const eu = parse.parseSanctionsFile('eu.xml', EU_XML).parties;
+    assert.deepEqual(eu.map(p => [p.id, p.kind, p.name, p.aliases, p.programs]), [
+      ['eu:120', 'entity', 'Sovcomflot PJSC', ['SCF Group'], ['RUS']],
+      ['eu:121', 'individual', 'Ivan Petrov', [], ['BLR']],
+    ]);
+
+    const un = parse.parseSanctionsFile('consolidated.xml', UN_XML).parties;
+    assert.deepEqual(un.map(p => [p.id, p.kind, p.name, p.imo]), [
+      ['un:KPi.033', 'individual', 'KIM SONG', undefined],
+      ['un:KPe.071', 'vessel', 'PETREL 8', '9562233'],
+    ]);
+    assert.deepEqual(un[0].aliases, ['Kim Sung']);
+
+    const uk = parse.parseSanctionsFile('ConList.csv', UK_CSV);
+    assert.equal(uk.publishedAt, '14/10/2026');
+    assert.deepEqual(uk.parties.map(p => [p.id, p.kind, p.name, p.aliases, p.imo]), [
+      ['uk:15001', 'entity', 'LUKOIL', ['LUKOIL OIL COMPANY'], undefined],
+      ['uk:15002', 'vessel', 'NS CHAMPION', [], '9341081'],
+    ]);
+  });
+});
+
+describe('sanctions screening', () => {
+  const index = screen.buildSanctionsIndex([
+    parse.parseSanctionsFile('SDN.XML', OFAC_XML),
+    parse.parseSanctionsFile('eu.xml', EU_XML),
+    parse.parseSanctionsFile('ConList.csv', UK_CSV),
+  ]);
+
+  it('normalizes names regardless of case, punctuation, legal form and word order', () => {
+    assert.equal(screen.normalizeName('M/T Adrian Darya-1'), screen.normalizeName('ADRIAN DARYA 1'));
+    assert.equal(screen.normalizeName('Sovcomflot, PJSC'), 'SOVCOMFLOT');
+    assert.equal(screen.normalizeName('Petrov Ivan'), screen.normalizeName('Iván Petrov'));
+  });
+
+  it('matches vessels on IMO and MMSI ahead of weaker name matches', () => {
+    const byMmsi = screen.screenVessel(index, { mmsi: '422110600', name: 'Adrian Darya 1' });
+    assert.equal(byMmsi.length, 1);
+    assert.equal(byMmsi[0].matchedOn, 'mmsi');
+
+    const byName = screen.screenVessel(index, { mmsi: '111111111', name: 'MT Grace 1' });
+    assert.equal(byName[0].party.id, 'ofac:9001');
+    assert.equal(byName[0].matchedOn, 'alias');
+    assert.ok(byName[0].score < 0.6);
+
+    assert.equal(screen.screenVessel(index, { imo: '9341081' })[0].party.id, 'uk:15002');
+    // Vessel name matches are restricted to listed vessels.
+    assert.deepEqual(screen.screenVessel(index, { name: 'Lukoil' }), []);
+  });
+
+  it('matches aircraft on tail number, owner and operator', () => {
+    const [byTail] = screen.screenAircraft(index, { registration: 'epmnp' });
+    assert.equal(byTail.party.id, 'ofac:9002');
+    assert.equal(byTail.matchedOn, 'registration');
+    const [byOperator] = screen.screenAircraft(index, { registration: 'N123', operator: 'Mahan Air' });
+    assert.equal(byOperator.matchedOn, 'name');
+  });
+
+  it('matches names exactly, by alias and as weaker partial matches', () => {
+    assert.equal(screen.screenName(index, 'SCF Group')[0].matchedOn, 'alias');
+    assert.equal(screen.screenName(index, 'Ivan Petrov')[0].party.id, 'eu:121');
+    const partial = screen.screenName(index, 'Lukoil Oil');
+    assert.equal(partial[0].matchedOn, 'alias');
+    const sovcomflot = screen.screenName(index, 'Sovcomflot Tankers');
+    assert.deepEqual(sovcomflot, []);
+    const [darya] = screen.screenName(index, 'Adrian Darya');
+    assert.equal(darya.matchedOn, 'partial');
+    assert.equal(darya.score, 0.5);
+    assert.deepEqual(screen.screenName(index, 'Oil'), []);
+  });
+});
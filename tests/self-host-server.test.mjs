@@ -0,0 +1,402 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { createMemoryCacheBackend, createMemoryStore } from '../server/_shared/memory-cache.mjs';
+import {
+  createCacheBackendFromEnv,
+  createFileCacheBackend,
+  createSqliteCacheBackend,
+  encodeCommand,
+  parseReply,
+  RespError,
+} from '../server/node/cache-backends.mjs';
+import { createFileSnapshotStore, createPlaybackStoreFromEnv } from '../server/node/playback-store.mjs';
+import { createReportService, createReportServiceFromEnv } from '../server/node/reports.mjs';
+import { COLLECTION_ID, createTaxiiService } from '../server/node/taxii.mjs';
+import { buildRouteTable, createSelfHostServer, matchRoute } from '../server/node/server.mjs';
+
+const silentLogger = { log() {}, warn() {}, error() {} };
+
+describe('memory cache store', () => {
+  it('supports SET options, TTL expiry and MGET', () => {
+    let t = 1_000_000;
+    const store = createMemoryStore({ now: () => t });
+    assert.equal(store.execute(['SET', 'a', '1', 'EX', 10]), 'OK');
+    assert.equal(store.execute(['SET', 'a', '2', 'NX']), null);
+    assert.equal(store.execute(['SET', 'b', '2', 'XX']), null);
+    assert.equal(store.execute(['TTL', 'a']), 10);
+    assert.deepEqual(store.execute(['MGET', 'a', 'b']), ['1', null]);
+    t += 10_001;
+    assert.equal(store.execute(['GET', 'a']), null);
+    assert.equal(store.execute(['TTL', 'a']), -2);
+  });
+
+  it('evicts the least recently used entry', () => {
+    const store = createMemoryStore({ maxEntries: 2 });
+    store.execute(['SET', 'a', '1']);
+    store.execute(['SET', 'b', '2']);
+    store.execute(['GET', 'a']);
+    store.execute(['SET', 'c', '3']);
+    assert.deepEqual(store.execute(['MGET', 'a', 'b', 'c']), ['1', null, '3']);
+  });
+
+  it('implements the sorted-set commands used by playback snapshots', () => {
+    const store = createMemoryStore();
+    assert.equal(store.execute(['ZADD', 'idx', 30, 'c', 10, 'a', 20, 'b']), 3);
+    assert.equal(store.execute(['ZCARD', 'idx']), 3);
+    assert.deepEqual(store.execute(['ZRANGE', 'idx', 0, -1]), ['a', 'b', 'c']);
+    assert.deepEqual(store.execute(['ZRANGEBYSCORE', 'idx', '(10', '+inf']), ['b', 'c']);
+    assert.equal(store.execute(['ZREMRANGEBYSCORE', 'idx', '-inf', 20]), 2);
+    assert.deepEqual(store.execute(['ZRANGE', 'idx', 0, -1]), ['c']);
+    assert.throws(() => store.execute(['GET', 'idx']), /WRONGTYPE/);
+  });
+
+  it('evicts to stay within maxBytes and reports evicted keys', () => {
+    const evicted = [];
+    const store = createMemoryStore({ maxBytes: 100, onEvict: (key) => evicted.push(key) });
+    store.execute(['SET', 'a', 'x'.repeat(30)]);
+    store.execute(['SET', 'b', 'x'.repeat(30)]);
+    assert.deepEqual(evicted, ['a']);
+    assert.ok(store.bytes <= 100);
+    assert.deepEqual(store.dumpKey('b'), ['b', 'string', 'x'.repeat(30), 0]);
+  });
+
+  it('maps pipeline command errors to null results', async () => {
+    const backend = createMemoryCacheBackend();
+    await backend.set('k', 'v', 60);
+    const results = await backend.pipeline([['GET', 'k'], ['NOPE'], ['ZCARD', 'k']]);
+    assert.deepEqual(results, ['v', null, null]);
+  });
+});
+
+describe('file cache backend', () => {
+  it('round-trips entries through the snapshot file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-cache-'));
+    try {
+      const first = createFileCacheBackend(dir, { logger: silentLogger });
+      await first.set('greeting', '"hello"', 60);
+      await first.pipeline([['ZADD', 'snapshots', 1, 'one']]);
+      first.flush();
+
+      const second = createFileCacheBackend(dir, { logger: silentLogger });
+      assert.equal(second.id, 'file');
+      assert.equal(await second.get('greeting'), '"hello"');
+      assert.deepEqual(await second.pipeline([['ZRANGE', 'snapshots', 0, -1]]), [['one']]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('sqlite cache backend', { skip: !process.getBuiltinModule?.('node:sqlite') && 'node:sqlite unavailable' }, () => {
+  it('writes through and restores entries, dropping evicted keys', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-sqlite-'));
+    const file = join(dir, 'cache.sqlite');
+    try {
+      const first = createSqliteCacheBackend(file, { maxEntries: 2 });
+      await first.set('a', '1', 60);
+      await first.set('b', '2', 60);
+      await first.pipeline([['ZADD', 'idx', 5, 'five']]);
+      await first.pipeline([['DEL', 'b']]);
+      first.close();
+
+      const second = createSqliteCacheBackend(file, { maxEntries: 2 });
+      assert.equal(second.id, 'sqlite');
+      assert.deepEqual(await second.mget(['a', 'b']), [null, null], 'a was evicted, b deleted');
+      assert.deepEqual(await second.pipeline([['ZRANGE', 'idx', 0, -1]]), [['five']]);
+      second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Redis protocol codec', () => {
+  it('encodes commands as RESP arrays of bulk strings', () => {
+    assert.equal(encodeCommand(['SET', 'k', 'é', 'EX', 60]), '*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n$2\r\nEX\r\n$2\r\n60\r\n');
+  });
+
+  it('parses nested replies and waits for incomplete input', () => {
+    const buf = Buffer.from('*3\r\n$1\r\na\r\n$-1\r\n:7\r\n-ERR bad\r\n');
+    const first = parseReply(buf);
+    assert.deepEqual(first.value, ['a', null, 7]);
+    const second = parseReply(buf, first.offset);
+    assert.ok(second.value instanceof RespError);
+    assert.equal(second.offset, buf.length);
+    assert.equal(parseReply(Buffer.from('$5\r\nab')), null);
+  });
+});
+
+describe('cache backend selection', () => {
+  it('defaults to memory, keeps Upstash when configured, and rejects unknown names', () => {
+    assert.equal(createCacheBackendFromEnv({}).id, 'memory');
+    assert.equal(createCacheBackendFromEnv({ UPSTASH_REDIS_REST_URL: 'https://x', UPSTASH_REDIS_REST_TOKEN: 't' }), null);
+    assert.throws(() => createCacheBackendFromEnv({ CACHE_BACKEND: 'redis' }), /REDIS_URL/);
+    assert.throws(() => createCacheBackendFromEnv({ CACHE_BACKEND: 'mongo' }), /Unknown CACHE_BACKEND/);
+    assert.equal(createCacheBackendFromEnv({ CACHE_BACKEND: 'MEMORY' }).id, 'memory');
+  });
+});
+
+describe('file playback store', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const BUCKET = 15 * 60 * 1000;
+
+  it('keeps the first snapshot per bucket on disk and reloads the index', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-playback-'));
+    try {
+      const now = Math.floor(Date.now() / BUCKET) * BUCKET;
+      const first = createFileSnapshotStore(dir, { logger: silentLogger });
+      assert.equal(await first.put('full', now + 1000, '{"a":1}', 7), true);
+      assert.equal(await first.put('full', now + 2000, '{"a":2}', 7), false);
+      assert.equal(await first.put('full', now - BUCKET, '{"b":1}', 7), true);
+
+      const second = createFileSnapshotStore(dir, { logger: silentLogger });
+      assert.equal(second.id, 'file');
+      assert.deepEqual(await second.list('full', 0, now + BUCKET), [
+        { timestamp: now - BUCKET, sizeBytes: 7 },
+        { timestamp: now + 1000, sizeBytes: 7 },
+      ]);
+      assert.deepEqual(await second.bounds('full'), { earliest: now - BUCKET, latest: now + 1000 });
+      assert.equal(await second.get('full', now), '{"a":1}');
+      assert.equal(await second.get('tech', now), null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('drops snapshots past retention', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-playback-'));
+    try {
+      const store = createFileSnapshotStore(dir, { retentionDays: 1, logger: silentLogger });
+      await store.put('full', Date.now() - 2 * DAY, '{}', 2);
+      await store.put('full', Date.now(), '{}', 2);
+      assert.equal((await store.list('full', 0, Date.now())).length, 1);
+      assert.equal((await createFileSnapshotStore(dir, { logger: silentLogger }).list('full', 0, Date.now())).length, 1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('is used when asked for or when the cache is on disk', () => {
+    assert.equal(createPlaybackStoreFromEnv({}), null);
+    assert.equal(createPlaybackStoreFromEnv({ CACHE_BACKEND: 'redis' }), null);
+    assert.equal(createPlaybackStoreFromEnv({ CACHE_BACKEND: 'file', PLAYBACK_STORE: 'memory' }), null);
+    assert.equal(createPlaybackStoreFromEnv({ CACHE_BACKEND: 'sqlite', CACHE_DIR: tmpdir() }).id, 'file');
+    assert.equal(createPlaybackStoreFromEnv({ PLAYBACK_STORE: 'file', PLAYBACK_DIR: tmpdir() }).id, 'file');
+  });
+});
+
+describe('self-hosted server', () => {
+  it('matches bracket and catch-all routes', () => {
+    assert.equal(matchRoute('youtube/embed', '/api/youtube/embed'), true);
+    assert.equal(matchRoute('eia/[[...path]]', '/api/eia/v2/petroleum'), true);
+    assert.equal(matchRoute('eia/[[...path]]', '/api/eia'), true);
+    assert.equal(matchRoute('youtube/embed', '/api/youtube'), false);
+  });
+
+  it('dispatches RPCs, edge and Node-style legacy handlers, and static files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-server-'));
+    const apiDir = join(dir, 'api');
+    const staticDir = join(dir, 'dist');
+    mkdirSync(join(apiDir, 'youtube'), { recursive: true });
+    mkdirSync(join(apiDir, '[domain]', 'v1'), { recursive: true });
+    mkdirSync(staticDir);
+    writeFileSync(join(apiDir, 'version.js'), 'export default async (req) => Response.json({ method: req.method });\n');
+    writeFileSync(join(apiDir, 'story.js'), 'export default function handler(req, res) { res.status(201).send("story"); }\n');
+    writeFileSync(join(apiDir, 'youtube', 'embed.js'), 'export default () => new Response("embed");\n');
+    writeFileSync(join(apiDir, '_cors.js'), 'export default () => new Response("private");\n');
+    writeFileSync(join(apiDir, '[domain]', 'v1', '[rpc].js'), 'export default () => new Response("stale bundle");\n');
+    writeFileSync(join(staticDir, 'index.html'), '<!doctype html><title>wm</title>');
+
+    const installed = [];
+    const gateway = {
+      setCacheBackend: (backend) => installed.push(backend),
+      getCacheBackend: () => installed.at(-1) ?? null,
+      handleRpc: async (request) => Response.json({ rpc: new URL(request.url).pathname, body: await request.text() }),
+    };
+
+    const app = await createSelfHostServer({
+      port: 0,
+      host: '127.0.0.1',
+      apiDir,
+      staticDir,
+      gateway,
+      cacheBackend: createMemoryCacheBackend(),
+      logger: silentLogger,
+    });
+    try {
+      assert.deepEqual(app.routes.map((r) => r.routePath).sort(), ['story', 'version', 'youtube/embed']);
+      assert.equal(installed.length, 1);
+
+      const { port } = await app.start();
+      const base = `http://127.0.0.1:${port}`;
+
+      const health = await (await fetch(`${base}/healthz`)).json();
+      assert.deepEqual(health, { ok: true, cache: 'memory', routes: 3, rpc: true });
+
+      const rpc = await fetch(`${base}/api/news/v1/list-feed-digest`, { method: 'POST', body: '{"a":1}' });
+      assert.deepEqual(await rpc.json(), { rpc: '/api/news/v1/list-feed-digest', body: '{"a":1}' });
+
+      assert.deepEqual(await (await fetch(`${base}/api/version`)).json(), { method: 'GET' });
+      const story = await fetch(`${base}/api/story`);
+      assert.equal(story.status, 201);
+      assert.equal(await story.text(), 'story');
+      assert.equal(await (await fetch(`${base}/api/youtube/embed`)).text(), 'embed');
+      assert.equal((await fetch(`${base}/api/_cors`)).status, 404);
+
+      const spa = await fetch(`${base}/some/client/route`);
+      assert.match(await spa.text(), /<title>wm<\/title>/);
+      assert.equal((await fetch(`${base}/missing.js`)).status, 404);
+      assert.equal((await fetch(`${base}/%2e%2e/api/version.js`)).status, 404);
+
+      const tooLarge = await fetch(`${base}/api/news/v1/list-feed-digest`, { method: 'POST', body: 'x'.repeat(11 * 1024 * 1024) });
+      assert.equal(tooLarge.status, 413);
+    } finally {
+      await app.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('scheduled reports', () => {
+  it('stores pushed templates, runs due ones on the tick and serves the files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-reports-'));
+    let t = 1_000;
+    const runs = [];
+    const gateway = {
+      normalizeTemplate: (raw) => (raw?.id && raw.name ? { schedule: { cadence: 'off' }, format: 'html', ...raw } : null),
+      isReportDue: (template, at) => template.schedule.cadence === 'daily' && at - template.lastRunAt >= 100,
+      generateReport: async (template, generatedAt) => {
+        runs.push(generatedAt.getTime());
+        return { report: { title: template.name }, lastOdds: { 'Rate cut?': 40 } };
+      },
+      renderReportFile: (report, format) => ({ filename: `report-${t}.${format === 'markdown' ? 'md' : 'html'}`, content: `<h1>${report.title}</h1>` }),
+    };
+    const service = createReportService({ gateway, dir, logger: silentLogger, now: () => t });
+    const call = (method, path, body) => service.handle(new Request(`http://localhost/api/reports${path}`, {
+      method,
+      ...(body && { body: JSON.stringify(body) }),
+    }));
+
+    try {
+      const put = await call('PUT', '/templates/daily-1', { name: 'Daily', schedule: { cadence: 'daily' }, lastRunAt: 0 });
+      assert.equal((await put.json()).template.lastRunAt, 1_000, 'a new template starts its schedule on arrival');
+      assert.equal((await call('PUT', '/templates/bad%2Fid', { name: 'x' })).status, 400);
+      assert.equal((await call('PUT', '/templates/nameless', {})).status, 400);
+
+      await service.tick();
+      assert.equal(runs.length, 0);
+      t = 1_100;
+      await service.tick();
+      assert.equal(runs.length, 1);
+
+      const [stored] = (await (await call('GET', '/templates')).json()).templates;
+      assert.equal(stored.lastRunAt, 1_100);
+      assert.deepEqual(stored.lastOdds, { 'Rate cut?': 40 });
+
+      const { reports } = await (await call('GET', '/files')).json();
+      assert.deepEqual(reports.map((f) => [f.name, f.templateId]), [['daily-1__report-1100.html', 'daily-1']]);
+      const file = await call('GET', `/files/${reports[0].name}`);
+      assert.equal(file.headers.get('content-type'), 'text/html; charset=utf-8');
+      assert.equal(await file.text(), '<h1>Daily</h1>');
+      assert.equal((await call('GET', '/files/..%2Ftemplates.json')).status, 404);
+
+      const restarted = createReportService({ gateway, dir, logger: silentLogger, now: () => t });
+      const reloaded = await restarted.handle(new Request('http://localhost/api/reports/templates'));
+      assert.equal((await reloaded.json()).templates.length, 1);
+
+      assert.equal((await call('DELETE', '/templates/daily-1')).status, 200);
+      assert.deepEqual((await (await call('GET', '/templates')).json()).templates, []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('limits manual runs per template', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wm-reports-'));
+    let t = 1_000;
+    const gateway = {
+      normalizeTemplate: (raw) => (raw?.id && raw.name ? { schedule: { cadence: 'off' }, format: 'html', ...raw } : null),
+      isReportDue: () => false,
+      generateReport: async (template) => ({ report: { title: template.name } }),
+      renderReportFile: (report) => ({ filename: `report-${t}.html`, content: `<h1>${report.title}</h1>` }),
+    };
+    const service = createReportService({ gateway, dir, logger: silentLogger, now: () => t });
+    const call = (method, path, body) => service.handle(new Request(`http://localhost/api/reports${path}`, {
+      method,
+      ...(body && { body: JSON.stringify(body) }),
+    }));
+
+    try {
+      await call('PUT', '/templates/a', { name: 'A' });
+      await call('PUT', '/templates/b', { name: 'B' });
+      assert.equal((await call('POST', '/templates/a/run')).status, 200);
+      const again = await call('POST', '/templates/a/run');
+      assert.equal(again.status, 429);
+      assert.equal(again.headers.get('retry-after'), '60');
+      assert.equal((await call('POST', '/templates/b/run')).status, 200, 'other templates are not held back');
+      t += 60_000;
+      assert.equal((await call('POST', '/templates/a/run')).status, 200);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('stays off unless REPORTS_ENABLED=true', () => {
+    const gateway = { generateReport: async () => ({}) };
+    assert.equal(createReportServiceFromEnv(gateway, {}, { logger: silentLogger }), null);
+    assert.equal(createReportServiceFromEnv(gateway, { REPORTS_ENABLED: 'false' }, { logger: silentLogger }), null);
+  });
+});
+
+describe('TAXII collection', () => {
+  const stix = (type, n, modified) => ({ type, spec_version: '2.1', id: `${type}--0000000${n}-0000-5000-8000-000000000000`, created: modified, modified });
+  const objects = [
+    stix('identity', 1, '2026-01-01T00:00:00.000Z'),
+    stix('indicator', 2, '2026-03-02T00:00:00.000Z'),
+    stix('indicator', 3, '2026-03-03T00:00:00.000Z'),
+    stix('malware', 4, '2026-03-04T00:00:00.000Z'),
+  ];
+  const collection = `/taxii2/worldmonitor/collections/${COLLECTION_ID}`;
+
+  it('serves discovery, the collection and paged, filtered objects', async () => {
+    let loads = 0;
+    const service = createTaxiiService({ loadObjects: async () => { loads++; return objects; }, logger: silentLogger });
+    const get = (path) => service.handle(new Request(`http://soc.local${path}`, { headers: { Accept: 'application/taxii+json;version=2.1' } }));
+
+    const discovery = await get('/taxii2/');
+    assert.equal(discovery.headers.get('content-type'), 'application/taxii+json;version=2.1');
+    assert.deepEqual((await discovery.json()).api_roots, ['http://soc.local/taxii2/worldmonitor/']);
+    assert.deepEqual((await (await get('/taxii2/worldmonitor/collections/')).json()).collections.map((c) => c.id), [COLLECTION_ID]);
+
+    const first = await get(`${collection}/objects/?match[type]=indicator,malware&limit=2`);
+    const page = await first.json();
+    assert.deepEqual(page.objects.map((o) => o.id), [objects[1].id, objects[2].id]);
+    assert.equal(page.more, true);
+    assert.equal(first.headers.get('x-taxii-date-added-last'), '2026-03-03T00:00:00.000Z');
+    const rest = await (await get(`${collection}/objects/?match[type]=indicator,malware&limit=2&next=${page.next}`)).json();
+    assert.deepEqual(rest, { more: false, objects: [objects[3]] });
+
+    const manifest = await (await get(`${collection}/manifest/?added_after=2026-03-02T00:00:00Z`)).json();
+    assert.deepEqual(manifest.objects.map((o) => [o.id, o.date_added]), [[objects[2].id, objects[2].modified], [objects[3].id, objects[3].modified]]);
+    assert.deepEqual((await (await get(`${collection}/objects/${objects[3].id}/`)).json()).objects, [objects[3]]);
+    assert.equal((await get(`${collection}/objects/indicator--missing/`)).status, 404);
+    assert.equal((await get(`${collection}/objects/?limit=0`)).status, 400);
+    assert.equal((await get('/taxii2/worldmonitor/collections/other/objects/')).status, 404);
+    assert.equal(loads, 1, 'objects are cached between requests');
+  });
+
+  it('requires the API key and rejects writes', async () => {
+    const service = createTaxiiService({ loadObjects: async () => objects, apiKey: 's3cret', logger: silentLogger });
+    const call = (headers, method = 'GET') => service.handle(new Request('http://soc.local/taxii2/', { method, headers }));
+    assert.equal((await call({})).status, 401);
+    assert.equal((await call({ Authorization: 'Bearer wrong' })).status, 401);
+    assert.equal((await call({ Authorization: 'Bearer s3cret' })).status, 200);
+    assert.equal((await call({ Authorization: `Basic ${Buffer.from('soc:s3cret').toString('base64')}` })).status, 200);
+    assert.equal((await call({ Authorization: 'Bearer s3cret' }, 'POST')).status, 405);
+    assert.equal((await call({ Authorization: 'Bearer s3cret', Accept: 'text/html' })).status, 406);
+  });
+});
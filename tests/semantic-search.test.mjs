@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const { VectorIndex, cosineSimilarity } = loadModule('../src/services/semantic-search/vector-index.ts');
+const documents = loadModule('../src/services/semantic-search/documents.ts');
+
+function doc(kind, id, text) {
+  return { id, kind, title: text, text, data: { id } };
+}
+
+describe('VectorIndex', () => {
+  it('only asks for vectors of new or reworded documents and drops stale ones', () => {
+    const index = new VectorIndex();
+    assert.deepEqual(index.sync('cluster', [doc('cluster', 'a', 'Port strike'), doc('cluster', 'b', 'Grain exports')]).map(d => d.id), ['a', 'b']);
+    index.setVector(doc('cluster', 'a', 'Port strike'), [1, 0]);
+    index.setVector(doc('cluster', 'b', 'Grain exports'), [0, 1]);
+    index.sync('prediction', [doc('prediction', 'p', 'Will the strike end?')]);
+
+    const pending = index.sync('cluster', [doc('cluster', 'a', 'Port strike'), doc('cluster', 'b', 'Grain exports halted'), doc('cluster', 'c', 'New story')]);
+    assert.deepEqual(pending.map(d => d.id), ['b', 'c']);
+    assert.equal(index.size, 4);
+
+    index.sync('cluster', [doc('cluster', 'c', 'New story')]);
+    assert.equal(index.size, 2, 'other kinds are untouched, stale clusters removed');
+    assert.equal(index.pendingCount, 2);
+  });
+
+  it('ignores vectors for documents that changed while they were being embedded', () => {
+    const index = new VectorIndex();
+    const queued = doc('gdelt', 'u', 'Old headline');
+    index.sync('gdelt', [queued]);
+    index.sync('gdelt', [doc('gdelt', 'u', 'Updated headline')]);
+    assert.equal(index.setVector(queued, [1, 0]), false);
+    assert.equal(index.pendingCount, 1);
+  });
+
+  it('ranks by similarity with a per-kind cap and a minimum score', () => {
+    const index = new VectorIndex();
+    const clusters = [1, 2, 3].map(i => doc('cluster', `c${i}`, `Dockworkers walk out ${i}`));
+    index.sync('cluster', clusters);
+    clusters.forEach((d, i) => index.setVector(d, [1, 0.1 * i]));
+    const ucdp = doc('ucdp', 'e1', 'Armed conflict in Sudan');
+    const market = doc('prediction', 'm1', 'Grain export deal renewed?');
+    index.sync('ucdp', [ucdp]);
+    index.sync('prediction', [market]);
+    index.setVector(ucdp, [0, 1]);
+    index.setVector(market, [0.8, 0.6]);
+
+    const hits = index.search([1, 0], '', { maxPerKind: 2, minScore: 0.5 });
+    assert.deepEqual(hits.map(h => h.doc.id), ['c1', 'c2', 'm1']);
+    assert.ok(hits[0].score > hits[2].score);
+  });
+
+  it('breaks near-ties in favour of literal term matches', () => {
+    const index = new VectorIndex();
+    const a = doc('cluster', 'a', 'Strikes shut Black Sea terminals');
+    const b = doc('cluster', 'b', 'Union action at grain ports');
+    index.sync('cluster', [a, b]);
+    index.setVector(a, [1, 0.01]);
+    index.setVector(b, [1, 0.02]);
+    assert.deepEqual(index.search([1, 0], 'port strikes affecting grain exports').map(h => h.doc.id), ['b', 'a']);
+  });
+
+  it('computes cosine similarity without assuming normalized vectors', () => {
+    assert.equal(cosineSimilarity([2, 0], [5, 0]), 1);
+    assert.equal(cosineSimilarity([1, 0], [0, 3]), 0);
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+  });
+});
+
+describe('semantic documents', () => {
+  it('describes UCDP events newest first with both sides', () => {
+    const base = { date_end: '', latitude: 15.6, longitude: 32.5, country: 'Sudan', deaths_best: 4, deaths_low: 2, deaths_high: 9, source_original: 'Radio Dabanga' };
+    const docs = documents.ucdpDocs([
+      { ...base, id: '1', date_start: '2026-01-02', side_a: 'SAF', side_b: 'RSF', type_of_violence: 'state-based' },
+      { ...base, id: '2', date_start: '2026-01-05', side_a: 'RSF', side_b: '', type_of_violence: 'one-sided' },
+    ]);
+    assert.deepEqual(docs.map(d => d.id), ['2', '1']);
+    assert.equal(docs[1].text, 'State-based armed conflict in Sudan: SAF vs RSF. Radio Dabanga');
+    assert.equal(docs[0].subtitle, 'RSF • 2026-01-05');
+  });
+
+  it('keeps volatile scores out of the embedded country text', () => {
+    const score = { code: 'UA', name: 'Ukraine', score: 71, level: 'high', trend: 'rising', change24h: 3, components: {}, lastUpdated: new Date() };
+    const briefs = new Map([['UA', 'Grain corridor disrupted by port strikes.']]);
+    const [withBrief] = documents.countryDocs({ UA: 'Ukraine' }, [score], briefs);
+    const [rescored] = documents.countryDocs({ UA: 'Ukraine' }, [{ ...score, score: 74 }], briefs);
+    assert.equal(withBrief.text, 'Ukraine country brief. Instability high, rising. Grain corridor disrupted by port strikes.');
+    assert.equal(rescored.text, withBrief.text);
+    assert.equal(rescored.subtitle, 'CII: 74/100 • high');
+    assert.deepEqual(withBrief.data, { code: 'UA', name: 'Ukraine' });
+  });
+
+  it('folds sibling headlines into cluster text', () => {
+    const item = title => ({ title, link: `https://x/${title}` });
+    const [cluster] = documents.clusterDocs([{
+      id: 'k', primaryTitle: 'Port strike spreads', primarySource: 'Reuters', primaryLink: 'https://x/1', sourceCount: 3,
+      allItems: [item('Port strike spreads'), item('Dockers halt grain loading'), item('Exporters reroute cargo')],
+      threat: { level: 'medium', category: 'economic', confidence: 0.6, source: 'keyword' },
+    }]);
+    assert.equal(cluster.text, 'economic: Port strike spreads. Dockers halt grain loading. Exporters reroute cargo');
+    assert.equal(cluster.subtitle, 'Reuters • 3 sources');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const scoring = loadModule('../src/services/source-reliability/scoring.ts');
+const { aggregateThreats } = loadModule('../src/services/threat-keywords.ts');
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1, 12);
+const TIERS = { Reuters: 1, BBC: 2, Blog: 4, Tabloid: 4 };
+const getTier = source => TIERS[source] ?? 4;
+
+function item(source, minutesAgo, title = 'Port strike spreads', now = NOW) {
+  return { source, title, link: `https://${source}/${encodeURIComponent(title)}`, pubDate: new Date(now - minutesAgo * 60_000) };
+}
+
+describe('observeClusters', () => {
+  it('counts each story/source pair once across re-clustering', () => {
+    const state = scoring.emptyState();
+    const cluster = { id: 's1', allItems: [item('Blog', 30), item('Blog', 10, 'Port strike spreads again')] };
+    scoring.observeClusters(state, [cluster], getTier, NOW);
+    scoring.observeClusters(state, [cluster], getTier, NOW + 60_000);
+    assert.equal(state.sources.Blog.reports, 1);
+  });
+
+  it('moves first-to-report credit when an earlier item turns up', () => {
+    const state = scoring.emptyState();
+    scoring.observeClusters(state, [{ id: 's1', allItems: [item('Blog', 20), item('BBC', 10)] }], getTier, NOW);
+    assert.equal(state.sources.Blog.firstReports, 1);
+
+    scoring.observeClusters(state, [{ id: 's1', allItems: [item('Blog', 20), item('BBC', 10), item('Tabloid', 40)] }], getTier, NOW);
+    assert.equal(state.sources.Blog.firstReports, 0);
+    assert.equal(state.sources.Tabloid.firstReports, 1);
+    assert.equal(state.stories.s1.firstSource, 'Tabloid');
+  });
+
+  it('judges wire agreement once a wire appears or the window closes', () => {
+    const state = scoring.emptyState();
+    scoring.observeClusters(state, [
+      { id: 'wired', allItems: [item('Blog', 30), item('Reuters', 5)] },
+      { id: 'fresh', allItems: [item('Tabloid', 60)] },
+    ], getTier, NOW);
+    assert.equal(state.sources.Blog.wireEvaluated, 1);
+    assert.equal(state.sources.Blog.wireAgreed, 1);
+    assert.equal(state.sources.Reuters.wireEvaluated, 0, 'wires are not scored against themselves');
+    assert.equal(state.sources.Tabloid.wireEvaluated, 0, 'still inside the corroboration window');
+
+    const later = NOW + scoring.CORROBORATION_WINDOW_MS;
+    scoring.observeClusters(state, [{ id: 'fresh', allItems: [item('Tabloid', 60)] }], getTier, later);
+    scoring.observeClusters(state, [{ id: 'fresh', allItems: [item('Tabloid', 60), item('Reuters', 1, 'Port strike spreads', later)] }], getTier, later);
+    assert.equal(state.sources.Tabloid.wireEvaluated, 1);
+    assert.equal(state.sources.Tabloid.wireAgreed, 0, 'a late wire does not re-open the verdict');
+  });
+
+  it('flags corrections and retractions once per link', () => {
+    const state = scoring.emptyState();
+    const cluster = { id: 's1', allItems: [item('Blog', 5, 'Correction: Port strike ends early'), item('Tabloid', 5, 'Tabloid retracts port strike report')] };
+    scoring.observeClusters(state, [cluster], getTier, NOW);
+    scoring.observeClusters(state, [cluster], getTier, NOW + 1000);
+    assert.equal(state.sources.Blog.corrections, 1);
+    assert.equal(state.sources.Tabloid.retractions, 1);
+  });
+
+  it('prunes stories past retention', () => {
+    const state = scoring.emptyState();
+    scoring.observeClusters(state, [{ id: 'old', allItems: [item('Blog', 5)] }], getTier, NOW);
+    scoring.observeClusters(state, [{ id: 'new', allItems: [item('Blog', 5)] }], getTier, NOW + scoring.STORY_RETENTION_MS + HOUR);
+    assert.deepEqual(Object.keys(state.stories), ['new']);
+    assert.equal(state.sources.Blog.reports, 2, 'track record outlives the story');
+  });
+});
+
+describe('detectCorrection', () => {
+  it('recognises correction and retraction headlines without matching ordinary news', () => {
+    assert.equal(scoring.detectCorrection('CORRECTION: Fed holds rates'), 'correction');
+    assert.equal(scoring.detectCorrection("Editor's note: earlier version misstated casualties"), 'correction');
+    assert.equal(scoring.detectCorrection('Retraction: Minister did not attend summit'), 'retraction');
+    assert.equal(scoring.detectCorrection('Daily Post retracts story on border clash'), 'retraction');
+    assert.equal(scoring.detectCorrection('This article has been withdrawn'), 'retraction');
+    assert.equal(scoring.detectCorrection('Reuters corrects story on Fed minutes'), 'correction');
+    assert.equal(scoring.detectCorrection('Market correction deepens as stocks slide'), null);
+    assert.equal(scoring.detectCorrection('Correctional officers strike in Ohio'), null);
+  });
+
+  it('ignores news about withdrawals, retracted claims and market corrections', () => {
+    for (const title of [
+      'Russian troops withdrawn from Kherson',
+      'Ambassador withdrawn after spy row',
+      'Israel retracts claim on hospital strike',
+      'Paper retracted after data fabrication',
+      'Market corrects after rally',
+      'Government withdraws bill after protests',
+    ]) {
+      assert.equal(scoring.detectCorrection(title), null, title);
+    }
+  });
+});
+
+describe('reliabilityScore', () => {
+  const record = overrides => ({
+    reports: 0, firstReports: 0, wireEvaluated: 0, wireAgreed: 0, corrections: 0, retractions: 0,
+    analystConfirmed: 0, analystDisputed: 0, lastSeen: NOW, ...overrides,
+  });
+
+  it('starts at the tier prior and moves with wire agreement', () => {
+    assert.equal(scoring.reliabilityScore(undefined, 2), scoring.tierPrior(2));
+    const agreeing = scoring.reliabilityScore(record({ reports: 40, wireEvaluated: 40, wireAgreed: 40 }), 4);
+    const unconfirmed = scoring.reliabilityScore(record({ reports: 40, wireEvaluated: 40, wireAgreed: 4 }), 4);
+    assert.ok(agreeing > scoring.tierPrior(4));
+    assert.ok(unconfirmed < scoring.tierPrior(4));
+  });
+
+  it('penalises retractions more than corrections and stays in bounds', () => {
+    const corrected = scoring.reliabilityScore(record({ reports: 20, corrections: 2 }), 2);
+    const retracted = scoring.reliabilityScore(record({ reports: 20, retractions: 2 }), 2);
+    assert.ok(retracted < corrected && corrected < scoring.tierPrior(2));
+    const awful = scoring.reliabilityScore(record({ reports: 1, retractions: 50, wireEvaluated: 50 }), 4);
+    assert.ok(awful >= 0.05);
+  });
+});
+
+describe('analyst verdicts', () => {
+  it('maps checklist scores to verdicts', () => {
+    assert.deepEqual(scoring.scoreChecklist(8, 8), { score: 100, verdict: 'verified' });
+    assert.deepEqual(scoring.scoreChecklist(6, 8), { score: 75, verdict: 'likely' });
+    assert.deepEqual(scoring.scoreChecklist(4, 8), { score: 50, verdict: 'uncertain' });
+    assert.deepEqual(scoring.scoreChecklist(1, 8), { score: 13, verdict: 'unreliable' });
+  });
+
+  it('moves a changed verdict between confirmed and disputed without double counting', () => {
+    const state = scoring.emptyState();
+    scoring.applyVerdict(state, 'Blog', undefined, 'verified', NOW);
+    scoring.applyVerdict(state, 'Blog', 'verified', 'likely', NOW);
+    assert.equal(state.sources.Blog.analystConfirmed, 1);
+    scoring.applyVerdict(state, 'Blog', 'likely', 'unreliable', NOW);
+    assert.equal(state.sources.Blog.analystConfirmed, 0);
+    assert.equal(state.sources.Blog.analystDisputed, 1);
+    scoring.applyVerdict(state, 'Blog', 'unreliable', undefined, NOW);
+    assert.equal(state.sources.Blog.analystDisputed, 0);
+  });
+});
+
+describe('clusterConfidence', () => {
+  const reliability = source => scoring.tierPrior(getTier(source));
+
+  it('rises with corroboration and wire confirmation', () => {
+    const single = scoring.clusterConfidence({ id: 'a', allItems: [item('Blog', 5)] }, reliability, getTier);
+    const wired = scoring.clusterConfidence({ id: 'b', allItems: [item('Blog', 5), item('BBC', 4), item('Reuters', 3)] }, reliability, getTier);
+    assert.equal(single.level, 'low');
+    assert.equal(single.corroboration, 0);
+    assert.equal(wired.level, 'high');
+    assert.equal(wired.wireConfirmed, true);
+    assert.ok(wired.score > single.score);
+  });
+
+  it('drops for correction notices and yields to analyst verdicts', () => {
+    const clean = { id: 'c', allItems: [item('BBC', 5), item('Blog', 4)] };
+    const corrected = { id: 'c', allItems: [item('BBC', 5), item('Blog', 4, 'Correction: port strike figures revised')] };
+    const base = scoring.clusterConfidence(clean, reliability, getTier);
+    assert.equal(scoring.clusterConfidence(corrected, reliability, getTier).corrections, 1);
+    assert.ok(scoring.clusterConfidence(corrected, reliability, getTier).score < base.score);
+
+    const disputed = scoring.clusterConfidence(clean, reliability, getTier, 'unreliable');
+    assert.equal(disputed.score, 25);
+    assert.equal(disputed.verdict, 'unreliable');
+    assert.equal(scoring.clusterConfidence(clean, reliability, getTier, 'verified').score >= 90, true);
+  });
+});
+
+describe('aggregateThreats reliability weighting', () => {
+  it('discounts threat confidence from unreliable sources', () => {
+    const threat = { level: 'high', category: 'conflict', confidence: 0.8, source: 'keyword' };
+    const trusted = aggregateThreats([{ threat, tier: 4, reliability: 1 }]);
+    const doubtful = aggregateThreats([{ threat, tier: 4, reliability: 0.5 }]);
+    assert.equal(trusted.confidence, 0.8);
+    assert.equal(doubtful.confidence, 0.4);
+    assert.equal(doubtful.level, 'high', 'severity is not downgraded');
+  });
+});
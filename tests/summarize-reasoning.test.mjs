@@ -43,7 +43,12 @@ describe('Fix 1: message.reasoning fallback', () => {
 // ========================================================================
 
 describe('Fix 2: thinking tag stripping formats', () => {
-  const src = readSrc('server/worldmonitor/news/v1/summarize-article.ts');
+  // Stripping lives in the shared helper, also used by the analyst chat
+  const src = readSrc('server/worldmonitor/news/v1/_shared.ts');
+
+  it('is applied to article summaries', () => {
+    assert.match(readSrc('server/worldmonitor/news/v1/summarize-article.ts'), /stripReasoningBlocks\(/);
+  });
 
   it('strips <think> tags', () => {
     assert.match(src, /<think>/i, 'Should handle <think> tags');
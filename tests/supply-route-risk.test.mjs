@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModule } from './_load-module.mjs';
+
+const geo = loadModule('../src/config/geo.ts', { './bases-expanded': { MILITARY_BASES_EXPANDED: [] } });
+const { parseRouteQuery, findSupplyRoutes, assessRouteRisk, scoreRateTrend } = loadModule('../src/services/supply-chain/route-risk.ts', {
+  '@/config/geo': geo,
+  '@/config/supply-routes': loadModule('../src/config/supply-routes.ts'),
+});
+
+const chokepoint = (id, name, disruptionScore) => ({
+  id, name, lat: 0, lon: 0, disruptionScore, status: disruptionScore >= 50 ? 'red' : 'green',
+  activeWarnings: 0, congestionLevel: '', affectedRoutes: [], description: '',
+});
+const CHOKEPOINTS = [
+  chokepoint('suez', 'Suez Canal', 10),
+  chokepoint('malacca', 'Malacca Strait', 0),
+  chokepoint('hormuz', 'Strait of Hormuz', 40),
+  chokepoint('bab_el_mandeb', 'Bab el-Mandeb', 80),
+  chokepoint('panama', 'Panama Canal', 20),
+  chokepoint('taiwan', 'Taiwan Strait', 30),
+];
+const MINERALS = [{
+  mineral: 'Cobalt', hhi: 6100, riskRating: 'critical', globalProduction: 170000, unit: 'tonnes',
+  topProducers: [{ country: 'DRC', countryCode: 'CD', productionTonnes: 130000, sharePct: 76.5 }],
+}];
+const index = (name, values, spikeAlert = false) => ({
+  indexId: name, name, currentValue: values.at(-1), previousValue: values.at(-2), changePct: 0, unit: 'index',
+  history: values.map((value, i) => ({ date: `2026-0${i + 1}-01`, value })), spikeAlert,
+});
+
+const waterways = (route) => route.waypoints.map((w) => w.id);
+
+function parsed(input) {
+  const result = parseRouteQuery(input);
+  assert.equal(result.ok, true, `${input}: ${JSON.stringify(result)}`);
+  return result.query;
+}
+
+describe('route query parsing', () => {
+  it('reads commodity, origin and destination in the usual spellings', () => {
+    const cobalt = parsed('cobalt DRC→China');
+    assert.deepEqual([cobalt.commodity.id, cobalt.origin.id, cobalt.destination.id], ['cobalt', 'drc', 'china']);
+    const lng = parsed('LNG Qatar -> EU');
+    assert.deepEqual([lng.commodity.id, lng.origin.id, lng.destination.id], ['lng', 'qatar', 'eu']);
+    const crude = parsed('crude oil from Saudi Arabia to India');
+    assert.deepEqual([crude.commodity.id, crude.origin.id, crude.destination.id], ['crude', 'saudi_arabia', 'india']);
+    const steel = parsed('steel Brazil > China');
+    assert.deepEqual([steel.commodity.id, steel.commodity.name, steel.origin.id], ['cargo', 'steel', 'brazil']);
+  });
+
+  it('says which part it could not read', () => {
+    assert.deepEqual(parseRouteQuery('cobalt'), { ok: false, error: 'format' });
+    assert.deepEqual(parseRouteQuery('cobalt Atlantis→China'), { ok: false, error: 'origin', value: 'atlantis' });
+    assert.deepEqual(parseRouteQuery('cobalt DRC→Mars'), { ok: false, error: 'destination', value: 'mars' });
+    assert.deepEqual(parseRouteQuery('LNG Qatar→Qatar'), { ok: false, error: 'same' });
+  });
+});
+
+describe('supply routes', () => {
+  it('ranks Suez ahead of the Cape for Gulf LNG to Europe', () => {
+    const routes = findSupplyRoutes(parsed('LNG Qatar→EU'), CHOKEPOINTS);
+    assert.deepEqual(waterways(routes[0]), ['hormuz_strait', 'bab_el_mandeb', 'suez', 'gibraltar']);
+    assert.ok(routes.some((r) => waterways(r).includes('cape_good_hope')), 'Cape route should be an alternative');
+    assert.ok(routes.length <= 4);
+    assert.deepEqual(routes[0].path[0], [51.6, 25.9]);
+    assert.deepEqual(routes[0].path.at(-1), [4.0, 51.9]);
+  });
+
+  it('scores waypoints from the chokepoint feed and leaves the rest unscored', () => {
+    const [route] = findSupplyRoutes(parsed('LNG Qatar→EU'), CHOKEPOINTS);
+    const scores = Object.fromEntries(route.waypoints.map((w) => [w.id, w.score]));
+    assert.deepEqual(scores, { hormuz_strait: 40, bab_el_mandeb: 80, suez: 10, gibraltar: null });
+    // 1 - 0.6 * 0.2 * 0.9
+    assert.equal(Math.round(route.chokepointRisk), 89);
+  });
+});
+
+describe('route risk', () => {
+  it('combines chokepoints, concentration and rate trend for the likely route', () => {
+    const shipping = [index('Deep Sea Freight PPI', [100, 102, 104, 106, 108, 110])];
+    const assessment = assessRouteRisk(parsed('cobalt DRC→China'), { chokepoints: CHOKEPOINTS, minerals: MINERALS, shipping });
+    assert.deepEqual(waterways(assessment.routes[0]), ['malacca_strait', 'taiwan_strait']);
+    assert.deepEqual(assessment.concentration, { mineral: 'Cobalt', hhi: 6100, originSharePct: 76.5, score: 100 });
+    assert.equal(assessment.rateTrend.score, 50);
+    // 0.5 * 30 + 0.3 * 100 + 0.2 * 50
+    assert.equal(assessment.risk, 55);
+    assert.equal(assessment.level, 'high');
+  });
+
+  it('drops components without data from the weighting', () => {
+    const assessment = assessRouteRisk(parsed('LNG Qatar→EU'), { chokepoints: CHOKEPOINTS });
+    assert.equal(assessment.concentration, null);
+    assert.equal(assessment.rateTrend, null);
+    assert.equal(assessment.risk, 89);
+    assert.equal(assessment.level, 'critical');
+  });
+
+  it('prefers the rate index matching the cargo and flags spikes', () => {
+    const indices = [index('Deep Sea Freight PPI', [100, 100]), index('VLCC Tanker', [50, 45], true)];
+    const trend = scoreRateTrend('energy', indices);
+    assert.equal(trend.indexName, 'VLCC Tanker');
+    assert.equal(trend.changePct, -10);
+    assert.equal(trend.score, 75);
+    assert.equal(scoreRateTrend('bulk', indices).indexName, 'Deep Sea Freight PPI');
+  });
+});
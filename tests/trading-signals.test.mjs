@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  sma,
+  rsi,
+  computeSignal,
+  maxDrawdownPct,
+  sharpeRatio,
+  SLOW_MA_PERIOD,
+} from '../server/worldmonitor/trading/v1/_indicators.mjs';
+
+const ramp = (n, start, step) => Array.from({ length: n }, (_, i) => start + i * step);
+
+describe('Moving averages and RSI', () => {
+  it('averages the trailing window', () => {
+    assert.equal(sma([1, 2, 3, 4, 5], 2), 4.5);
+    assert.equal(sma([1, 2], 3), null);
+  });
+
+  it('pins RSI at the extremes for one-way series', () => {
+    assert.equal(rsi(ramp(20, 100, 1)), 100);
+    assert.equal(rsi(ramp(20, 100, -1)), 0);
+    assert.equal(rsi(Array(20).fill(100)), 50);
+    assert.equal(rsi([1, 2, 3]), null);
+  });
+});
+
+describe('Signal computation', () => {
+  it('returns null without enough history for the slow average', () => {
+    assert.equal(computeSignal('SPY', ramp(SLOW_MA_PERIOD, 100, 1)), null);
+  });
+
+  it('sells an overbought uptrend', () => {
+    const s = computeSignal('SPY', ramp(40, 100, 1));
+    assert.equal(s.action, 'TRADING_ACTION_SELL');
+    assert.match(s.reasoning, /overbought/);
+    assert.equal(s.currentPrice, 139);
+  });
+
+  it('buys an oversold downtrend', () => {
+    const s = computeSignal('SPY', ramp(40, 200, -1));
+    assert.equal(s.action, 'TRADING_ACTION_BUY');
+    assert.match(s.reasoning, /oversold/);
+  });
+
+  it('holds a flat series', () => {
+    const s = computeSignal('SPY', Array(40).fill(100));
+    assert.equal(s.action, 'TRADING_ACTION_HOLD');
+    assert.equal(s.fastMa, s.slowMa);
+  });
+
+  it('follows the MA spread when RSI is neutral', () => {
+    // Oscillating series with a gentle upward drift keeps RSI mid-range
+    const closes = Array.from({ length: 60 }, (_, i) => 100 + i * 0.1 + (i % 2 ? 1.5 : -1.5));
+    const s = computeSignal('SPY', closes);
+    assert.ok(s.rsi > 30 && s.rsi < 70, `rsi ${s.rsi}`);
+    assert.equal(s.action, 'TRADING_ACTION_BUY');
+    assert.ok(s.fastMa > s.slowMa);
+  });
+});
+
+describe('Portfolio metrics', () => {
+  it('measures peak-to-trough drawdown', () => {
+    assert.equal(maxDrawdownPct([100, 120, 90, 130]), 25);
+    assert.equal(maxDrawdownPct([100, 110, 120]), 0);
+    assert.equal(maxDrawdownPct([]), 0);
+  });
+
+  it('returns zero Sharpe for short or flat curves', () => {
+    assert.equal(sharpeRatio([100, 101]), 0);
+    assert.equal(sharpeRatio([100, 100, 100, 100]), 0);
+    assert.ok(sharpeRatio([100, 101, 103, 104, 106]) > 0);
+  });
+});
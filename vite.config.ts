@@ -299,6 +299,8 @@ function sebufApiPlugin(): Plugin {
       positiveEventsServerMod, positiveEventsHandlerMod,
       givingServerMod, givingHandlerMod,
       tradeServerMod, tradeHandlerMod,
+      tradingServerMod, tradingHandlerMod,
+      playbackServerMod, playbackHandlerMod,
     ] = await Promise.all([
         import('./server/router'),
         import('./server/cors'),
@@ -343,6 +345,10 @@ function sebufApiPlugin(): Plugin {
         import('./server/worldmonitor/giving/v1/handler'),
         import('./src/generated/server/worldmonitor/trade/v1/service_server'),
         import('./server/worldmonitor/trade/v1/handler'),
+        import('./src/generated/server/worldmonitor/trading/v1/service_server'),
+        import('./server/worldmonitor/trading/v1/handler'),
+        import('./src/generated/server/worldmonitor/playback/v1/service_server'),
+        import('./server/worldmonitor/playback/v1/handler'),
       ]);
 
     const serverOptions = { onError: errorMod.mapErrorToResponse };
@@ -367,6 +373,8 @@ function sebufApiPlugin(): Plugin {
       ...positiveEventsServerMod.createPositiveEventsServiceRoutes(positiveEventsHandlerMod.positiveEventsHandler, serverOptions),
       ...givingServerMod.createGivingServiceRoutes(givingHandlerMod.givingHandler, serverOptions),
       ...tradeServerMod.createTradeServiceRoutes(tradeHandlerMod.tradeHandler, serverOptions),
+      ...tradingServerMod.createTradingServiceRoutes(tradingHandlerMod.tradingHandler, serverOptions),
+      ...playbackServerMod.createPlaybackServiceRoutes(playbackHandlerMod.playbackHandler, serverOptions),
     ];
     cachedCorsMod = corsMod;
     return routerMod.createRouter(allRoutes);